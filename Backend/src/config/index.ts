@@ -29,11 +29,96 @@ export const config = {
     maxTokens: 4000,
     temperature: 0.2, // Low for medical accuracy
   },
-  
+
+  // LLM provider selection
+  llm: {
+    // 'openai' | 'openai-compatible' | 'fixture' | 'rule-based'; empty = openai when a key is set, else rule-based
+    provider: (process.env.LLM_PROVIDER || '').trim().toLowerCase(),
+    // OpenAI-compatible local server (Ollama, llama.cpp server, vLLM); required for openai-compatible
+    baseUrl: (process.env.LLM_BASE_URL || '').trim(),
+    model: process.env.LLM_MODEL || 'llama3.1',
+    apiKey: process.env.LLM_API_KEY || '',
+    // Recorded responses replayed by the fixture provider
+    fixtureDir: process.env.LLM_FIXTURE_DIR || path.join(__dirname, '..', '..', 'data', 'llm-fixtures'),
+    recordFixtures: process.env.LLM_RECORD_FIXTURES === 'true',
+    // Serve a clearly-labelled rule-based plan when the provider fails
+    fallbackToRules: process.env.LLM_FALLBACK_TO_RULES !== 'false',
+    // Times a schema-invalid response is sent back to the model for correction
+    maxRepairAttempts: Number.parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '2', 10),
+  },
+
+  // Adaptive learning and risk model registry
+  ml: {
+    // Demo mode keeps samples and model versions as files here
+    dataDir: process.env.ML_DATA_DIR || path.join(__dirname, '..', '..', 'data', 'ml'),
+    minTrainingSamples: Number.parseInt(process.env.ML_MIN_TRAINING_SAMPLES || '50', 10),
+    maxTrainingSamples: Number.parseInt(process.env.ML_MAX_TRAINING_SAMPLES || '20000', 10),
+    trainingEpochs: Number.parseInt(process.env.ML_TRAINING_EPOCHS || '150', 10),
+    // 0 disables scheduled retraining; jobs can still be started through the API
+    retrainIntervalHours: Number.parseFloat(process.env.ML_RETRAIN_INTERVAL_HOURS || '0'),
+  },
+
+  // Drug reference data (OpenFDA, RxNorm, DailyMed)
+  drugData: {
+    // 'live' calls the public APIs; 'snapshot' answers from a local copy built by `npm run drug-data:load`
+    source: (process.env.DRUG_DATA_SOURCE || 'live').trim().toLowerCase(),
+    snapshotDir: process.env.DRUG_SNAPSHOT_DIR || path.join(__dirname, '..', '..', 'data', 'drug-snapshot'),
+    // One circuit breaker per API: consecutive failures before it opens, how long it stays open, per-call timeout
+    circuitBreaker: {
+      failureThreshold: Number.parseInt(process.env.DRUG_SOURCE_FAILURE_THRESHOLD || '5', 10),
+      openMs: Number.parseInt(process.env.DRUG_SOURCE_OPEN_SECONDS || '60', 10) * 1000,
+      timeoutMs: Number.parseInt(process.env.DRUG_SOURCE_TIMEOUT_MS || '8000', 10),
+    },
+  },
+
+  // Cache for OpenFDA, RxNorm and DailyMed answers
+  scraperCache: {
+    // 'memory' (LRU, lost on restart) | 'sqlite' (file, survives restarts) | 'redis' (shared between instances)
+    backend: (process.env.SCRAPER_CACHE_BACKEND || 'memory').trim().toLowerCase(),
+    maxEntries: Number.parseInt(process.env.SCRAPER_CACHE_MAX_ENTRIES || '5000', 10),
+    sqlitePath: process.env.SCRAPER_CACHE_SQLITE_PATH || path.join(__dirname, '..', '..', 'data', 'scraper-cache.sqlite'),
+    redisUrl: process.env.SCRAPER_CACHE_REDIS_URL || 'redis://localhost:6379',
+    // How long each source's answers count as fresh
+    ttlHours: {
+      rxnorm: Number.parseFloat(process.env.SCRAPER_CACHE_TTL_RXNORM_HOURS || '168'),
+      openfdaLabels: Number.parseFloat(process.env.SCRAPER_CACHE_TTL_OPENFDA_LABELS_HOURS || '24'),
+      openfdaEvents: Number.parseFloat(process.env.SCRAPER_CACHE_TTL_OPENFDA_EVENTS_HOURS || '6'),
+      dailymed: Number.parseFloat(process.env.SCRAPER_CACHE_TTL_DAILYMED_HOURS || '24'),
+    },
+    emptyTtlHours: Number.parseFloat(process.env.SCRAPER_CACHE_EMPTY_TTL_HOURS || '1'),
+    // Expired answers are still served this long while a background refresh runs
+    staleHours: Number.parseFloat(process.env.SCRAPER_CACHE_STALE_HOURS || '24'),
+  },
+
+  // HL7 v2 interface
+  hl7: {
+    // Sending and receiving application/facility names used in ACKs (MSH-3, MSH-4)
+    applicationName: process.env.HL7_APPLICATION_NAME || 'TREATMENT_PLAN',
+    facilityName: process.env.HL7_FACILITY_NAME || '',
+    // Folder polled for *.hl7 files; empty disables the file-drop watcher
+    dropDir: process.env.HL7_DROP_DIR || '',
+    pollSeconds: Number.parseFloat(process.env.HL7_POLL_SECONDS || '10'),
+  },
+
+  // Clinician treatment plan reports
+  reports: {
+    // Printed in the report header; empty leaves it out
+    clinicName: process.env.REPORT_CLINIC_NAME || '',
+  },
+
   // JWT
   jwt: {
     secret: process.env.JWT_SECRET || 'default-secret-change-me',
     expiresIn: process.env.JWT_EXPIRES_IN || '24h',
+    refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+    issuer: 'treatment-plan-assistant',
+  },
+
+  // Authentication
+  auth: {
+    bcryptRounds: Number.parseInt(process.env.BCRYPT_ROUNDS || '10', 10),
+    // Shared password for the seeded demo accounts (demo mode only)
+    demoPassword: process.env.DEMO_USER_PASSWORD || 'demo-password',
   },
   
   // CORS
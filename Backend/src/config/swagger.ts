@@ -27,8 +27,10 @@ const swaggerDefinition: swaggerJSDoc.Options = {
         description: 'Un-versioned (deprecated — includes Deprecation headers)',
       },
     ],
+    security: [{ bearerAuth: [] }],
     tags: [
       { name: 'Health', description: 'Health check and monitoring' },
+      { name: 'Auth', description: 'Login, token refresh and current user' },
       { name: 'Patients', description: 'Patient records management' },
       { name: 'Treatment Plans', description: 'AI-powered treatment plan generation and management' },
       { name: 'Drug Database', description: 'Drug interactions, contraindications, and dosage guidelines' },
@@ -37,6 +39,14 @@ const swaggerDefinition: swaggerJSDoc.Options = {
       { name: 'ML', description: 'Machine learning model management' },
     ],
     components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Access token from POST /auth/login',
+        },
+      },
       schemas: {
         Error: {
           type: 'object',
@@ -62,6 +72,9 @@ const swaggerDefinition: swaggerJSDoc.Options = {
                 heartRate: { type: 'number', example: 76 },
                 bmi: { type: 'number', example: 26.9 },
                 serumCreatinine: { type: 'number', example: 1.2 },
+                pregnant: { type: 'boolean' },
+                trimester: { type: 'integer', enum: [1, 2, 3], nullable: true, description: 'Only with pregnant: true; omit when unknown' },
+                lactating: { type: 'boolean' },
               },
             },
             medicalHistory: {
@@ -105,6 +118,34 @@ const swaggerDefinition: swaggerJSDoc.Options = {
                 chiefComplaint: { type: 'string', example: 'Persistent chest pain' },
               },
             },
+            labResults: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  testCode: { type: 'string', enum: ['CREAT', 'EGFR', 'K', 'BILI', 'ALB', 'AST', 'ALT', 'INR', 'HBA1C'] },
+                  value: { type: 'number', example: 1.8 },
+                  unit: { type: 'string', example: 'mg/dL' },
+                  referenceLow: { type: 'number', nullable: true, example: 0.6 },
+                  referenceHigh: { type: 'number', nullable: true, example: 1.3 },
+                  collectedAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+            pharmacogenomics: {
+              type: 'object',
+              description: 'Phenotypes from a genotyping report; leave untested genes out',
+              properties: {
+                cyp2c9: { type: 'string', enum: ['normal', 'intermediate', 'poor'] },
+                cyp2c19: { type: 'string', enum: ['ultrarapid', 'rapid', 'normal', 'intermediate', 'poor'] },
+                cyp2d6: { type: 'string', enum: ['ultrarapid', 'normal', 'intermediate', 'poor'] },
+                vkorc1: { type: 'string', enum: ['GG', 'GA', 'AA'] },
+                slco1b1: { type: 'string', enum: ['normal', 'decreased', 'poor'] },
+                hlaB5701: { type: 'string', enum: ['positive', 'negative'] },
+                hlaB1502: { type: 'string', enum: ['positive', 'negative'] },
+                testedAt: { type: 'string', format: 'date' },
+              },
+            },
           },
         },
         TreatmentPlan: {
@@ -146,6 +187,22 @@ const swaggerDefinition: swaggerJSDoc.Options = {
                 },
               },
             },
+            generatedBy: {
+              type: 'object',
+              description: 'Provider and model that produced the plan',
+              properties: {
+                provider: { type: 'string', enum: ['openai', 'openai-compatible', 'fixture', 'rule-based'] },
+                model: { type: 'string', example: 'gpt-4o' },
+                fallback: {
+                  type: 'object',
+                  description: 'Present when the configured provider failed and the rule-based plan was served',
+                  properties: {
+                    from: { type: 'string', example: 'openai' },
+                    reason: { type: 'string' },
+                  },
+                },
+              },
+            },
             createdAt: { type: 'string', format: 'date-time' },
           },
         },
@@ -172,6 +229,7 @@ const swaggerDefinition: swaggerJSDoc.Options = {
             version: { type: 'string' },
             demoMode: { type: 'boolean' },
             openaiConfigured: { type: 'boolean' },
+            llmProvider: { type: 'string', enum: ['openai', 'openai-compatible', 'fixture', 'rule-based'] },
           },
         },
       },
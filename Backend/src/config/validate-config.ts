@@ -1,4 +1,8 @@
+import fs from 'node:fs';
 import { config } from './index';
+import { LLM_PROVIDER_NAMES } from '../services/llm-provider.service';
+import { MAX_RETRAIN_INTERVAL_HOURS } from '../services/model-registry.service';
+import { SCRAPER_CACHE_BACKENDS } from '../services/scraper-cache.service';
 import logger from './logger';
 
 interface ValidationResult {
@@ -27,9 +31,37 @@ function checkJwtSecret(c: Collector): void {
   }
 }
 
-function checkOpenAiKey(c: Collector): void {
-  if (!config.openai.apiKey || config.openai.apiKey === 'your_openai_api_key_here') {
-    c.warnings.push('OPENAI_API_KEY not configured — AI analysis will use mock responses');
+function checkLlmProvider(c: Collector): void {
+  const { provider, baseUrl, fixtureDir } = config.llm;
+  const keyConfigured = Boolean(config.openai.apiKey && config.openai.apiKey !== 'your_openai_api_key_here');
+
+  if (provider && !LLM_PROVIDER_NAMES.includes(provider as typeof LLM_PROVIDER_NAMES[number])) {
+    c.errors.push(`LLM_PROVIDER "${provider}" is not one of ${LLM_PROVIDER_NAMES.join(', ')}`);
+  } else if ((provider === '' || provider === 'openai') && !keyConfigured) {
+    c.warnings.push('OPENAI_API_KEY not configured — treatment plans will be rule-based');
+  } else if (provider === 'openai-compatible' && !baseUrl) {
+    c.errors.push('LLM_BASE_URL is required when LLM_PROVIDER is openai-compatible');
+  } else if (provider === 'fixture' && !fs.existsSync(fixtureDir)) {
+    c.warnings.push(`LLM_FIXTURE_DIR ${fixtureDir} does not exist — fixture replays will fail`);
+  }
+}
+
+function checkScraperCache(c: Collector): void {
+  const { backend, maxEntries } = config.scraperCache;
+  if (!SCRAPER_CACHE_BACKENDS.includes(backend as typeof SCRAPER_CACHE_BACKENDS[number])) {
+    c.warnings.push(`SCRAPER_CACHE_BACKEND "${backend}" is not one of ${SCRAPER_CACHE_BACKENDS.join(', ')} — using memory`);
+  }
+  if (!(maxEntries > 0)) {
+    c.errors.push('SCRAPER_CACHE_MAX_ENTRIES must be a positive number');
+  }
+}
+
+function checkRetrainInterval(c: Collector): void {
+  const hours = config.ml.retrainIntervalHours;
+  if (!Number.isFinite(hours) || hours < 0) {
+    c.errors.push('ML_RETRAIN_INTERVAL_HOURS must be 0 or a positive number of hours');
+  } else if (hours > MAX_RETRAIN_INTERVAL_HOURS) {
+    c.warnings.push(`ML_RETRAIN_INTERVAL_HOURS ${hours} is above the ${MAX_RETRAIN_INTERVAL_HOURS}-hour maximum — retraining every ${MAX_RETRAIN_INTERVAL_HOURS} hours`);
   }
 }
 
@@ -79,7 +111,9 @@ export function validateConfig(): ValidationResult {
 
   checkPort(collector);
   checkJwtSecret(collector);
-  checkOpenAiKey(collector);
+  checkLlmProvider(collector);
+  checkScraperCache(collector);
+  checkRetrainInterval(collector);
   checkDatabase(collector);
   checkCors(collector);
   checkRateLimit(collector);
@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+import { Request, Response } from 'express';
+import { importFhirPatient } from '../patient.controller';
+
+const LOINC = 'http://loinc.org';
+
+function mockResponse() {
+  const sent: { status: number; body: unknown } = { status: 200, body: undefined };
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return this;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+}
+
+async function importBundle(body: unknown) {
+  const { res, sent } = mockResponse();
+  await importFhirPatient({ query: {}, body } as unknown as Request, res);
+  return sent as { status: number; body: { success: boolean; message: string; errors?: unknown[] } };
+}
+
+const vital = (id: string, code: string, value: number, unit: string) => ({
+  resource: {
+    resourceType: 'Observation',
+    id,
+    status: 'final',
+    code: { coding: [{ system: LOINC, code }] },
+    effectiveDateTime: '2026-02-20T09:00:00Z',
+    valueQuantity: { value, unit, code: unit },
+  },
+});
+
+describe('importFhirPatient', () => {
+  it('does not save intake defaults for fields the bundle did not carry', async () => {
+    const sent = await importBundle({
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: [
+        { resource: { resourceType: 'Patient', id: 'ehr-42', gender: 'female', birthDate: '1960-06-15' } },
+        vital('obs-weight', '29463-7', 72, 'kg'),
+        vital('obs-height', '8302-2', 160, 'cm'),
+      ],
+    });
+
+    expect(sent.status).toBe(400);
+    expect(sent.body.errors).toEqual([
+      { field: 'lifestyle.smoking', message: 'Not in the bundle; confirm it in the intake form' },
+      { field: 'lifestyle.alcohol', message: 'Not in the bundle; confirm it in the intake form' },
+      { field: 'lifestyle.exercise', message: 'Not in the bundle; confirm it in the intake form' },
+      { field: 'lifestyle.diet', message: 'Not in the bundle; confirm it in the intake form' },
+      { field: 'lifestyle.chiefComplaint', message: 'Not in the bundle; confirm it in the intake form' },
+    ]);
+  });
+
+  it('answers a malformed bundle with a 400', async () => {
+    const sent = await importBundle({ resourceType: 'Bundle', entry: 'none' });
+    expect(sent).toEqual({ status: 400, body: { success: false, message: 'Bundle entry must be an array' } });
+  });
+});
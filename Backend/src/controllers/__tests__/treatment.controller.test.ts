@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { Request, Response } from 'express';
+import { modifyTreatmentPlan } from '../treatment.controller';
+
+function mockResponse() {
+  const sent: { status: number; body: unknown } = { status: 200, body: undefined };
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return this;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+}
+
+async function modify(body: unknown) {
+  const { res, sent } = mockResponse();
+  await modifyTreatmentPlan({ params: { patientId: 'plan-1' }, body } as unknown as Request, res);
+  return sent;
+}
+
+describe('modifyTreatmentPlan', () => {
+  it('rejects a non-string medication with a 400 instead of failing', async () => {
+    expect(await modify({ modifications: { primaryTreatment: { medication: 123 } } })).toEqual({
+      status: 400,
+      body: {
+        success: false,
+        message: 'Invalid plan modifications',
+        errors: ['modifications.primaryTreatment.medication must be text'],
+      },
+    });
+  });
+
+  it('checks every alternative and the dashboard recommendations', async () => {
+    const sent = await modify({
+      modifications: { alternativeTreatments: [{ medication: 'Amlodipine', dosage: 5 }] },
+      treatmentPlan: { recommendations: [{ drugName: ['Lisinopril'], requiresMonitoring: 'yes' }, null] },
+    });
+
+    expect(sent.status).toBe(400);
+    expect((sent.body as { errors: string[] }).errors).toEqual([
+      'modifications.alternativeTreatments[0].dosage must be text',
+      'modifications.alternativeTreatments[0].frequency must be text',
+      'treatmentPlan.recommendations[0].drugName must be text',
+      'treatmentPlan.recommendations[0].requiresMonitoring must be true or false',
+      'treatmentPlan.recommendations[1] must be an object',
+    ]);
+  });
+});
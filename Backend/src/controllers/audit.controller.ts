@@ -2,6 +2,9 @@ import { Request, Response } from 'express';
 import logger from '../config/logger';
 import { AuditLog } from '../models';
 import { Op, WhereOptions } from 'sequelize';
+import { config } from '../config';
+import { demoStorage } from '../services/demo-storage.service';
+import { verifyAuditChain } from '../services/audit-chain.service';
 
 interface TimestampFilter {
   [Op.gte]?: Date;
@@ -105,3 +108,45 @@ export const getAllAuditLogs = async (req: Request, res: Response): Promise<void
     });
   }
 };
+
+// Walk the hash chain and report the first broken link (if any)
+export const verifyAuditLogChain = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // DEMO MODE
+    if (config.demoMode) {
+      const verification = demoStorage.verifyAuditChain();
+      if (!verification.valid) {
+        logger.error('Audit chain verification failed', { ...verification.firstBrokenLink, demoMode: true });
+      }
+      res.json({
+        success: true,
+        data: verification,
+        demoMode: true,
+      });
+      return;
+    }
+
+    // PRODUCTION MODE
+    const entries = await AuditLog.findAll({
+      order: [['sequence', 'ASC']],
+      raw: true,
+    });
+    const verification = verifyAuditChain(entries);
+
+    if (!verification.valid) {
+      logger.error('Audit chain verification failed', { ...verification.firstBrokenLink });
+    }
+
+    res.json({
+      success: true,
+      data: verification,
+    });
+  } catch (error) {
+    logger.error('Verify audit chain error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify audit log chain',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
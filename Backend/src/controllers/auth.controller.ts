@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import { authService, AuthError } from '../services/auth.service';
+
+// Login with username/password, returns an access + refresh token pair
+export const login = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { username, password } = req.body ?? {};
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !username.trim() || !password) {
+      res.status(400).json({
+        success: false,
+        message: 'username and password are required',
+      });
+      return;
+    }
+
+    const { user, tokens } = await authService.login(username.trim(), password);
+    logger.info('User logged in', { userId: user.id, role: user.role, correlationId: req.correlationId });
+
+    res.json({
+      success: true,
+      data: { user, ...tokens },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      logger.warn('Failed login attempt', { username: req.body?.username, correlationId: req.correlationId });
+      res.status(401).json({ success: false, message: error.message });
+      return;
+    }
+    logger.error('Login error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to log in',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Exchange a refresh token for a fresh token pair
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body ?? {};
+
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      res.status(400).json({
+        success: false,
+        message: 'refreshToken is required',
+      });
+      return;
+    }
+
+    const { user, tokens } = await authService.refresh(refreshToken);
+
+    res.json({
+      success: true,
+      data: { user, ...tokens },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(401).json({ success: false, message: error.message });
+      return;
+    }
+    logger.error('Token refresh error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to refresh token',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Return the identity behind the current access token
+export const getCurrentUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user ? await authService.getUser(req.user.id) : null;
+
+    if (!user) {
+      res.status(401).json({ success: false, message: 'Account is no longer active' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    logger.error('Get current user error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get current user',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
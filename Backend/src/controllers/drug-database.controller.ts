@@ -8,9 +8,25 @@ import {
   COMPREHENSIVE_DOSAGE_GUIDELINES,
   ALLERGY_CROSS_REACTIVITY,
   MEDICAL_KNOWLEDGE_BASE,
-} from '../data/medical-knowledge-base';
+  DRUG_ONTOLOGY,
+} from '@treatment-plan/clinical-knowledge';
 import { MedicalDataScraper } from '../services/medical-data-scraper.service';
 import { invalidateCacheTags } from '../middleware/cache.middleware';
+import { getAuditActor } from '../middleware/auth.middleware';
+import {
+  knowledgeBaseService,
+  KnowledgeBaseError,
+  normalizeKnowledgeEntry,
+  SNAPSHOT_FIELDS,
+} from '../services/knowledge-base.service';
+import {
+  bundledSnapshot,
+  isKnowledgeDataset,
+  KNOWLEDGE_DATASETS,
+  planKnowledgeImport,
+  toCsv,
+} from '../services/knowledge-transfer.service';
+import { KNOWLEDGE_CHANGE_STATUSES, KnowledgeChangeStatus, KnowledgeEntryType, KnowledgeSnapshot } from '../types';
 
 // Initialize the medical data scraper for real-time lookups
 const medicalScraper = new MedicalDataScraper();
@@ -91,26 +107,17 @@ export const checkDrugInteraction = async (req: Request, res: Response): Promise
       return;
     }
     
-    const interaction = await DrugInteraction.findOne({
-      where: {
-        drug1: (drug1 as string).toLowerCase(),
-        drug2: (drug2 as string).toLowerCase(),
-      },
-    });
-    
-    // Also check reverse order
-    const reverseInteraction = interaction || await DrugInteraction.findOne({
-      where: {
-        drug1: (drug2 as string).toLowerCase(),
-        drug2: (drug1 as string).toLowerCase(),
-      },
-    });
+    // Rows may name classes ("nsaids") or generics, so match through the ontology in either order
+    const interactions = await DrugInteraction.findAll();
+    const interaction = interactions.find(i =>
+      DRUG_ONTOLOGY.matchesPair(drug1 as string, drug2 as string, i.drug1, i.drug2)
+    ) ?? null;
 
     res.json({
       success: true,
       data: {
-        hasInteraction: !!reverseInteraction,
-        interaction: reverseInteraction,
+        hasInteraction: !!interaction,
+        interaction,
       },
     });
   } catch (error) {
@@ -228,64 +235,356 @@ export const getDosageGuidelines = async (req: Request, res: Response): Promise<
   }
 };
 
-// Create drug interaction
-export const createDrugInteraction = async (req: Request, res: Response): Promise<void> => {
+// Authoring needs the change and version tables; demo mode only has the bundled package
+function rejectInDemoMode(res: Response): boolean {
+  if (!config.demoMode) return false;
+  res.status(503).json({
+    success: false,
+    message: 'Knowledge-base authoring requires the database and is not available in demo mode',
+    demoMode: true,
+  });
+  return true;
+}
+
+// New entries are saved as drafts; nothing reaches the live tables until a reviewed change is published
+async function submitKnowledgeDraft(
+  req: Request,
+  res: Response,
+  entryType: KnowledgeEntryType,
+  label: string,
+): Promise<void> {
   try {
-    const interaction = await DrugInteraction.create(req.body);
-    invalidateCacheTags(['drug-db', 'drug-lookup']);
+    if (rejectInDemoMode(res)) return;
 
+    const { entry, errors } = normalizeKnowledgeEntry(entryType, req.body);
+    if (!entry) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid ${label}`,
+        errors,
+      });
+      return;
+    }
+
+    const change = await knowledgeBaseService.submitDraft(entryType, entry, getAuditActor(req));
     res.status(201).json({
       success: true,
-      message: 'Drug interaction created',
-      data: interaction,
+      message: `${label.charAt(0).toUpperCase()}${label.slice(1)} submitted as a draft for review`,
+      data: change,
     });
   } catch (error) {
-    logger.error('Create drug interaction error', { error: (error as Error).message });
+    logger.error('Submit knowledge-base draft error', { entryType, error: (error as Error).message });
     res.status(500).json({
       success: false,
-      message: 'Failed to create drug interaction',
+      message: `Failed to submit ${label}`,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+// Create drug interaction (as a draft)
+export const createDrugInteraction = (req: Request, res: Response): Promise<void> =>
+  submitKnowledgeDraft(req, res, 'interaction', 'drug interaction');
+
+// Create contraindication (as a draft)
+export const createContraindication = (req: Request, res: Response): Promise<void> =>
+  submitKnowledgeDraft(req, res, 'contraindication', 'contraindication');
+
+// Create dosage guideline (as a draft)
+export const createDosageGuideline = (req: Request, res: Response): Promise<void> =>
+  submitKnowledgeDraft(req, res, 'dosage_guideline', 'dosage guideline');
+
+/**
+ * List curated changes, optionally by lifecycle status
+ * GET /api/drug-database/knowledge-base/changes?status=reviewed
+ */
+export const listKnowledgeChanges = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (rejectInDemoMode(res)) return;
+
+    const { status } = req.query;
+    if (status !== undefined && !KNOWLEDGE_CHANGE_STATUSES.includes(status as KnowledgeChangeStatus)) {
+      res.status(400).json({
+        success: false,
+        message: `status must be one of ${KNOWLEDGE_CHANGE_STATUSES.join(', ')}`,
+      });
+      return;
+    }
+
+    const changes = await knowledgeBaseService.listChanges(status as KnowledgeChangeStatus | undefined);
+    res.json({ success: true, data: changes, total: changes.length });
+  } catch (error) {
+    logger.error('List knowledge-base changes error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to list knowledge-base changes',
       error: error instanceof Error ? error.message : 'Unknown error',
     });
   }
 };
 
-// Create contraindication
-export const createContraindication = async (req: Request, res: Response): Promise<void> => {
+/**
+ * Approve a draft; the reviewer must not be its author
+ * POST /api/drug-database/knowledge-base/changes/:id/review
+ */
+export const reviewKnowledgeChange = async (req: Request, res: Response): Promise<void> => {
   try {
-    const contraindication = await Contraindication.create(req.body);
+    if (rejectInDemoMode(res)) return;
+
+    const change = await knowledgeBaseService.review(req.params.id, getAuditActor(req));
+    if (!change) {
+      res.status(404).json({ success: false, message: 'Knowledge-base change not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Change reviewed and ready to publish', data: change });
+  } catch (error) {
+    if (error instanceof KnowledgeBaseError) {
+      res.status(409).json({ success: false, message: error.message });
+      return;
+    }
+    logger.error('Review knowledge-base change error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to review knowledge-base change',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Publish every reviewed change as the next knowledge-base version
+ * POST /api/drug-database/knowledge-base/publish
+ */
+export const publishKnowledgeBase = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (rejectInDemoMode(res)) return;
+
+    const version = await knowledgeBaseService.publish(getAuditActor(req));
     invalidateCacheTags(['drug-db', 'drug-lookup']);
 
     res.status(201).json({
       success: true,
-      message: 'Contraindication created',
-      data: contraindication,
+      message: `Knowledge base ${version.version} published`,
+      data: version,
+    });
+  } catch (error) {
+    if (error instanceof KnowledgeBaseError) {
+      res.status(409).json({ success: false, message: error.message });
+      return;
+    }
+    logger.error('Publish knowledge base error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to publish knowledge base',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Published knowledge-base versions, newest first
+ * GET /api/drug-database/knowledge-base/versions
+ */
+export const listKnowledgeBaseVersions = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    if (config.demoMode) {
+      res.json({
+        success: true,
+        data: { versions: [], activeVersion: await knowledgeBaseService.activeVersion() },
+        demoMode: true,
+      });
+      return;
+    }
+
+    const versions = await knowledgeBaseService.listVersions();
+    res.json({
+      success: true,
+      data: {
+        versions: versions.reverse(),
+        activeVersion: versions.find(v => v.active)?.version ?? null,
+      },
     });
   } catch (error) {
-    logger.error('Create contraindication error', { error: (error as Error).message });
+    logger.error('List knowledge-base versions error', { error: (error as Error).message });
     res.status(500).json({
       success: false,
-      message: 'Failed to create contraindication',
+      message: 'Failed to list knowledge-base versions',
       error: error instanceof Error ? error.message : 'Unknown error',
     });
   }
 };
 
-// Create dosage guideline
-export const createDosageGuideline = async (req: Request, res: Response): Promise<void> => {
+/**
+ * One published version including its table snapshot
+ * GET /api/drug-database/knowledge-base/versions/:version
+ */
+export const getKnowledgeBaseVersion = async (req: Request, res: Response): Promise<void> => {
   try {
-    const guideline = await DosageGuideline.create(req.body);
+    if (rejectInDemoMode(res)) return;
+
+    const version = await knowledgeBaseService.getVersion(req.params.version);
+    if (!version) {
+      res.status(404).json({
+        success: false,
+        message: `Knowledge-base version ${req.params.version} not found`,
+      });
+      return;
+    }
+
+    res.json({ success: true, data: version });
+  } catch (error) {
+    logger.error('Get knowledge-base version error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch knowledge-base version',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Restore the live tables to an earlier version
+ * POST /api/drug-database/knowledge-base/rollback
+ * Body: { version: string }
+ */
+export const rollbackKnowledgeBase = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (rejectInDemoMode(res)) return;
+
+    const { version } = (req.body ?? {}) as { version?: string };
+    if (typeof version !== 'string' || !version) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid payload. Expected a version to roll back to.',
+      });
+      return;
+    }
+
+    const restored = await knowledgeBaseService.rollback(version, getAuditActor(req));
+    if (!restored) {
+      res.status(404).json({
+        success: false,
+        message: `Knowledge-base version ${version} not found`,
+      });
+      return;
+    }
     invalidateCacheTags(['drug-db', 'drug-lookup']);
 
-    res.status(201).json({
+    res.json({
+      success: true,
+      message: `Knowledge base rolled back to ${version}`,
+      data: restored,
+    });
+  } catch (error) {
+    if (error instanceof KnowledgeBaseError) {
+      res.status(409).json({ success: false, message: error.message });
+      return;
+    }
+    logger.error('Roll back knowledge base error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to roll back knowledge base',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Demo mode exports and dry-runs against the bundled package; production against the live tables
+const currentKnowledge = (): Promise<KnowledgeSnapshot> =>
+  config.demoMode ? Promise.resolve(bundledSnapshot()) : knowledgeBaseService.liveSnapshot();
+
+/**
+ * Download the drug-database tables
+ * GET /api/drug-database/export?format=json|csv&dataset=interactions
+ * JSON holds every table unless a dataset is given; CSV is one dataset per file.
+ */
+export const exportKnowledgeBase = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const format = (req.query.format as string | undefined) ?? 'json';
+    const { dataset } = req.query;
+    if (format !== 'json' && format !== 'csv') {
+      res.status(400).json({ success: false, message: 'format must be json or csv' });
+      return;
+    }
+    if (dataset !== undefined && !isKnowledgeDataset(dataset)) {
+      res.status(400).json({ success: false, message: `dataset must be one of ${Object.keys(KNOWLEDGE_DATASETS).join(', ')}` });
+      return;
+    }
+    if (format === 'csv' && !dataset) {
+      res.status(400).json({ success: false, message: 'CSV export needs a dataset; each file holds one table' });
+      return;
+    }
+
+    const snapshot = await currentKnowledge();
+    const version = await knowledgeBaseService.activeVersion();
+    const fileName = `knowledge-base-${version}${dataset ? `-${dataset}` : ''}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    if (format === 'csv') {
+      res.type('text/csv').send(toCsv(snapshot, dataset!));
+      return;
+    }
+    // Keyed like the snapshot so the document can be imported again as is
+    const field = dataset ? SNAPSHOT_FIELDS[KNOWLEDGE_DATASETS[dataset]] : null;
+    const tables = field ? { [field]: snapshot[field] } : snapshot;
+    res.json({ knowledgeBaseVersion: version, exportedAt: new Date().toISOString(), ...tables });
+  } catch (error) {
+    logger.error('Export knowledge base error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to export knowledge base',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Bulk import, as draft changes for review
+ * POST /api/drug-database/import?dryRun=true&dataset=interactions
+ * Body: a JSON export document, or a CSV file (Content-Type: text/csv) for one dataset.
+ * A dry run only validates and reports what would be inserted or updated.
+ */
+export const importKnowledgeBase = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const dryRun = req.query.dryRun === 'true';
+    const format = typeof req.body === 'string' ? 'csv' : 'json';
+    const { dataset } = req.query;
+    if (dataset !== undefined && !isKnowledgeDataset(dataset)) {
+      res.status(400).json({ success: false, message: `dataset must be one of ${Object.keys(KNOWLEDGE_DATASETS).join(', ')}` });
+      return;
+    }
+    if (format === 'csv' && !dataset) {
+      res.status(400).json({ success: false, message: 'CSV import needs a dataset; each file holds one table' });
+      return;
+    }
+    if (!dryRun && rejectInDemoMode(res)) return;
+
+    const { report, changes } = planKnowledgeImport(format, req.body, await currentKnowledge(), dataset);
+    if (dryRun) {
+      res.json({ success: true, dryRun, data: report });
+      return;
+    }
+    if (!report.valid) {
+      res.status(422).json({
+        success: false,
+        message: 'Import rejected; fix the listed rows or run with dryRun=true to check a file first',
+        data: report,
+      });
+      return;
+    }
+
+    const drafts = changes.length > 0 ? await knowledgeBaseService.submitDrafts(changes, getAuditActor(req)) : [];
+    res.status(drafts.length > 0 ? 201 : 200).json({
       success: true,
-      message: 'Dosage guideline created',
-      data: guideline,
+      message: `${drafts.length} change(s) submitted as drafts for review`,
+      data: { ...report, changeIds: drafts.map(change => change.id) },
     });
   } catch (error) {
-    logger.error('Create dosage guideline error', { error: (error as Error).message });
+    logger.error('Import knowledge base error', { error: (error as Error).message });
     res.status(500).json({
       success: false,
-      message: 'Failed to create dosage guideline',
+      message: 'Failed to import knowledge base',
       error: error instanceof Error ? error.message : 'Unknown error',
     });
   }
@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import { getAuditActor } from '../middleware/auth.middleware';
+import { invalidateCacheTags } from '../middleware/cache.middleware';
+import { hl7IngestService } from '../services/hl7-ingest.service';
+import { IntakeAuditContext } from '../services/patient-intake.service';
+
+// Content type for ER7-encoded messages over HTTP
+const HL7_CONTENT_TYPE = 'x-application/hl7-v2+er7';
+
+function interfaceAudit(req: Request): IntakeAuditContext {
+  return { ...getAuditActor(req), ipAddress: req.ip, userAgent: req.headers['user-agent'] || undefined };
+}
+
+// Receive one or more HL7 v2 messages; the response body is the ACK for each, in order
+export const receiveHl7Messages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const text = typeof req.body === 'string' ? req.body : '';
+    if (!text.trim()) {
+      res.status(400).json({
+        success: false,
+        message: `Expected an ER7-encoded HL7 v2 message (Content-Type ${HL7_CONTENT_TYPE})`,
+      });
+      return;
+    }
+
+    const results = await hl7IngestService.ingestBatch(text, { source: 'http', audit: interfaceAudit(req) });
+    if (results.some(result => result.patientId)) {
+      invalidateCacheTags(['patients', 'analytics', 'treatment-plans']);
+    }
+
+    // Acceptance is reported in MSA-1 of each ACK, so the HTTP status stays 200
+    res.type(HL7_CONTENT_TYPE).send(results.map(result => result.ack).join('\n'));
+  } catch (error) {
+    logger.error('HL7 receive error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process HL7 message',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+export const listHl7DeadLetters = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ success: true, data: await hl7IngestService.listDeadLetters() });
+  } catch (error) {
+    logger.error('List HL7 dead letters error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch HL7 dead letters',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Re-run a dead letter after fixing its cause (e.g. registering the patient an ORU refers to)
+export const replayHl7DeadLetter = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await hl7IngestService.replayDeadLetter(req.params.id, interfaceAudit(req));
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Dead letter not found',
+      });
+      return;
+    }
+    if (result.patientId) {
+      invalidateCacheTags(['patients', 'analytics', 'treatment-plans']);
+    }
+
+    res.json({
+      success: result.code === 'AA',
+      message: result.code === 'AA' ? 'Message accepted and removed from the dead letters' : 'Message was not accepted; it stays in the dead letters',
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Replay HL7 dead letter error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to replay HL7 dead letter',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+export const deleteHl7DeadLetter = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!(await hl7IngestService.removeDeadLetter(req.params.id))) {
+      res.status(404).json({
+        success: false,
+        message: 'Dead letter not found',
+      });
+      return;
+    }
+
+    res.json({ success: true, message: 'Dead letter deleted' });
+  } catch (error) {
+    logger.error('Delete HL7 dead letter error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete HL7 dead letter',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
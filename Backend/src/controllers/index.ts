@@ -2,3 +2,4 @@ export * from './patient.controller';
 export * from './treatment.controller';
 export * from './audit.controller';
 export * from './drug-database.controller';
+export * from './auth.controller';
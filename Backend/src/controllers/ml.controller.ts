@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import logger from '../config/logger';
+import { getAuditActor } from '../middleware/auth.middleware';
 import { adaptiveLearningService } from '../services/adaptive-learning.service';
+import { modelRegistryService } from '../services/model-registry.service';
 
 export const getAdaptiveTrainingData = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -79,3 +81,115 @@ export const ingestAdaptiveSample = async (req: Request, res: Response): Promise
     });
   }
 };
+
+export const listRiskModels = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const versions = await modelRegistryService.list();
+    res.json({
+      success: true,
+      data: {
+        versions: versions.reverse(),
+        pinnedVersion: versions.find(v => v.pinned)?.version ?? null,
+        activeJob: modelRegistryService.getActiveJob(),
+      },
+    });
+  } catch (error) {
+    logger.error('List risk models error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to list risk model versions',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+export const getRiskModel = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const model = await modelRegistryService.get(req.params.version);
+    if (!model) {
+      res.status(404).json({
+        success: false,
+        message: `Risk model version ${req.params.version} not found`,
+      });
+      return;
+    }
+
+    res.json({ success: true, data: model });
+  } catch (error) {
+    logger.error('Get risk model error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch risk model',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+export const startRiskModelTraining = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { pin } = (req.body ?? {}) as { pin?: boolean };
+    const { job, started } = modelRegistryService.startTraining(getAuditActor(req).userName, pin === true);
+    if (!started) {
+      res.status(409).json({
+        success: false,
+        message: 'A retraining job is already running',
+        data: job,
+      });
+      return;
+    }
+
+    res.status(202).json({ success: true, data: job });
+  } catch (error) {
+    logger.error('Start risk model training error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start retraining',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+export const getTrainingJob = async (req: Request, res: Response): Promise<void> => {
+  const job = modelRegistryService.getJob(req.params.jobId);
+  if (!job) {
+    res.status(404).json({
+      success: false,
+      message: 'Training job not found',
+    });
+    return;
+  }
+
+  res.json({ success: true, data: job });
+};
+
+export const pinRiskModel = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { version } = (req.body ?? {}) as { version?: string };
+    if (typeof version !== 'string' || !version) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid payload. Expected a version to pin.',
+      });
+      return;
+    }
+
+    const pinned = await modelRegistryService.pin(version);
+    if (!pinned) {
+      res.status(404).json({
+        success: false,
+        message: `Risk model version ${version} not found`,
+      });
+      return;
+    }
+
+    logger.info('Risk model pinned via API', { version, by: getAuditActor(req).userId });
+    res.json({ success: true, data: pinned });
+  } catch (error) {
+    logger.error('Pin risk model error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to pin risk model version',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
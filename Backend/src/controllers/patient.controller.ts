@@ -1,168 +1,31 @@
 import { Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
 import logger from '../config/logger';
 import {
   Patient,
   MedicalHistory,
   CurrentMedication,
   LifestyleFactors,
+  LabResult,
+  TreatmentOutcome,
   TreatmentPlan,
   AuditLog,
 } from '../models';
 import { validatePatientData } from '../services/validation.service';
-import { CompletePatientData } from '../types';
+import { CompletePatientData, RawLabResultInput } from '../types';
 import { sequelize } from '../config/database';
 import { config } from '../config';
 import { demoStorage } from '../services/demo-storage.service';
 import { invalidateCacheTags } from '../middleware/cache.middleware';
-
-// Helper: create patient in demo mode
-function createPatientDemo(patientData: CompletePatientData, bmi: number, req: Request): Record<string, unknown> {
-  const patientId = patientData.demographics.patientId || `PT-${Date.now()}`;
-
-  const patient = demoStorage.createPatient({
-    patientId,
-    age: patientData.demographics.age,
-    sex: patientData.demographics.sex || 'other',
-    weight: patientData.demographics.weight,
-    height: patientData.demographics.height,
-    bmi: Math.round(bmi * 10) / 10,
-    systolicBp: patientData.demographics.bloodPressure?.systolic || 120,
-    diastolicBp: patientData.demographics.bloodPressure?.diastolic || 80,
-    heartRate: patientData.demographics.heartRate || 72,
-    temperature: patientData.demographics.temperature || 98.6,
-  });
-
-  if (patientData.medicalHistory) {
-    demoStorage.createMedicalHistory({
-      patientId: patient.id,
-      conditions: patientData.medicalHistory.conditions || [],
-      allergies: patientData.medicalHistory.allergies || [],
-      pastSurgeries: patientData.medicalHistory.pastSurgeries || [],
-      familyHistory: patientData.medicalHistory.familyHistory || [],
-    });
-  }
-
-  if (patientData.currentMedications?.medications) {
-    for (const med of patientData.currentMedications.medications) {
-      demoStorage.addMedication(patient.id, {
-        drugName: med.drugName,
-        genericName: med.genericName || med.drugName.toLowerCase(),
-        dosage: med.dosage,
-        frequency: med.frequency,
-        route: med.route || 'oral',
-        startDate: med.startDate || '',
-        prescribedBy: med.prescribedBy || '',
-      });
-    }
-  }
-
-  if (patientData.lifestyle) {
-    demoStorage.createLifestyle({
-      patientId: patient.id,
-      smokingStatus: patientData.lifestyle.smoking?.status || 'never',
-      smokingPacksPerDay: patientData.lifestyle.smoking?.packsPerDay,
-      smokingYears: patientData.lifestyle.smoking?.years,
-      alcoholFrequency: patientData.lifestyle.alcohol?.frequency || 'none',
-      alcoholDrinksPerWeek: patientData.lifestyle.alcohol?.drinksPerWeek,
-      exerciseFrequency: patientData.lifestyle.exercise?.frequency || 'sedentary',
-      exerciseMinutesPerWeek: patientData.lifestyle.exercise?.minutesPerWeek,
-      diet: patientData.lifestyle.diet || 'standard',
-      chiefComplaint: patientData.lifestyle.chiefComplaint?.complaint || '',
-      symptomDuration: patientData.lifestyle.chiefComplaint?.duration,
-    });
-  }
-
-  demoStorage.createAuditLog({
-    timestamp: new Date(),
-    userId: req.body.userId || 'system',
-    userName: req.body.userName || 'System',
-    action: 'created',
-    patientId: patient.id,
-    ipAddress: req.ip,
-    userAgent: req.headers['user-agent'] || undefined,
-  });
-
-  return {
-    success: true,
-    message: 'Patient created successfully (Demo Mode)',
-    data: { patientId: patient.id },
-    demoMode: true,
-  };
-}
-
-// Helper: create patient in production mode with database transaction
-async function createPatientProduction(patientData: CompletePatientData, bmi: number, req: Request): Promise<string> {
-  const transaction = await sequelize.transaction();
-
-  try {
-    const patient = await Patient.create({
-      id: patientData.demographics.patientId || uuidv4(),
-      age: patientData.demographics.age,
-      sex: patientData.demographics.sex || 'other',
-      weight: patientData.demographics.weight,
-      height: patientData.demographics.height,
-      bmi: Math.round(bmi * 10) / 10,
-      systolicBp: patientData.demographics.bloodPressure?.systolic || 120,
-      diastolicBp: patientData.demographics.bloodPressure?.diastolic || 80,
-      heartRate: patientData.demographics.heartRate || 72,
-      temperature: patientData.demographics.temperature || 98.6,
-    }, { transaction });
-
-    await MedicalHistory.create({
-      patientId: patient.id,
-      conditions: patientData.medicalHistory?.conditions || [],
-      allergies: patientData.medicalHistory?.allergies || [],
-      pastSurgeries: patientData.medicalHistory?.pastSurgeries || [],
-      familyHistory: patientData.medicalHistory?.familyHistory || [],
-    }, { transaction });
-
-    if (patientData.currentMedications?.medications) {
-      for (const med of patientData.currentMedications.medications) {
-        await CurrentMedication.create({
-          patientId: patient.id,
-          drugName: med.drugName,
-          genericName: med.genericName || med.drugName.toLowerCase(),
-          dosage: med.dosage,
-          frequency: med.frequency,
-          route: med.route || 'oral',
-          startDate: med.startDate || '',
-          prescribedBy: med.prescribedBy || '',
-        }, { transaction });
-      }
-    }
-
-    if (patientData.lifestyle) {
-      await LifestyleFactors.create({
-        patientId: patient.id,
-        smokingStatus: patientData.lifestyle.smoking?.status || 'never',
-        smokingPacksPerDay: patientData.lifestyle.smoking?.packsPerDay || null,
-        smokingYears: patientData.lifestyle.smoking?.years || null,
-        alcoholFrequency: patientData.lifestyle.alcohol?.frequency || 'none',
-        alcoholDrinksPerWeek: patientData.lifestyle.alcohol?.drinksPerWeek || null,
-        exerciseFrequency: patientData.lifestyle.exercise?.frequency || 'sedentary',
-        exerciseMinutesPerWeek: patientData.lifestyle.exercise?.minutesPerWeek || null,
-        diet: patientData.lifestyle.diet || 'standard',
-        chiefComplaint: patientData.lifestyle.chiefComplaint || { complaint: '', duration: '', severity: 0, symptoms: [] },
-      }, { transaction });
-    }
-
-    await AuditLog.create({
-      timestamp: new Date(),
-      userId: req.body.userId || 'system',
-      userName: req.body.userName || 'System',
-      action: 'created',
-      patientId: patient.id,
-      ipAddress: req.ip,
-      userAgent: req.headers['user-agent'] || null,
-    }, { transaction });
-
-    await transaction.commit();
-    return patient.id;
-  } catch (dbError) {
-    await transaction.rollback();
-    throw dbError;
-  }
+import { getAuditActor } from '../middleware/auth.middleware';
+import { labResultService, normalizeLabResults } from '../services/lab-result.service';
+import { normalizePharmacogenomicProfile } from '../services/pharmacogenomics.service';
+import { normalizeReproductiveStatus } from '../services/reproductive-status.service';
+import { FhirImportError, importFhirBundle } from '../services/fhir-import.service';
+import { IntakeAuditContext, storePatient } from '../services/patient-intake.service';
+
+// Audit fields for records created through a request
+function intakeAudit(req: Request): IntakeAuditContext {
+  return { ...getAuditActor(req), ipAddress: req.ip, userAgent: req.headers['user-agent'] || undefined };
 }
 
 // Create a new patient with all related data
@@ -181,27 +44,28 @@ export const createPatient = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Calculate BMI if not provided
-    const heightInMeters = patientData.demographics.height / 100;
-    const bmi = patientData.demographics.bmi ||
-      (patientData.demographics.weight / (heightInMeters * heightInMeters));
-
-    // DEMO MODE: Use in-memory storage
-    if (config.demoMode) {
-      const result = createPatientDemo(patientData, bmi, req);
-      invalidateCacheTags(['patients', 'analytics', 'treatment-plans']);
-      res.status(201).json(result);
+    const reproductive = normalizeReproductiveStatus(patientData.demographics, patientData.demographics.sex);
+    const pharmacogenomics = normalizePharmacogenomicProfile(patientData.pharmacogenomics);
+    if (reproductive.errors.length > 0 || pharmacogenomics.errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: [...reproductive.errors, ...pharmacogenomics.errors],
+      });
       return;
     }
+    const { pregnant, trimester, lactating } = reproductive.status;
+    patientData.demographics = { ...patientData.demographics, pregnant, trimester, lactating };
+    patientData.pharmacogenomics = pharmacogenomics.profile;
 
-    // PRODUCTION MODE: Use database
-    const patientId = await createPatientProduction(patientData, bmi, req);
+    const patientId = await storePatient(patientData, intakeAudit(req));
     invalidateCacheTags(['patients', 'analytics', 'treatment-plans']);
 
     res.status(201).json({
       success: true,
-      message: 'Patient created successfully',
+      message: config.demoMode ? 'Patient created successfully (Demo Mode)' : 'Patient created successfully',
       data: { patientId },
+      ...(config.demoMode && { demoMode: true }),
     });
   } catch (error) {
     logger.error('Create patient error', { error: (error as Error).message });
@@ -213,6 +77,60 @@ export const createPatient = async (req: Request, res: Response): Promise<void>
   }
 };
 
+// Import a patient from a FHIR R4 Bundle; with dryRun=true only the mapping is returned
+export const importFhirPatient = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const dryRun = req.query.dryRun === 'true';
+    const { patientData, labResults, report } = importFhirBundle(req.body);
+
+    if (dryRun) {
+      res.json({ success: true, dryRun, data: { patientData, labResults, report } });
+      return;
+    }
+
+    // Fields the bundle had no data for hold intake defaults, which must not be saved as findings
+    const validationErrors = validatePatientData(patientData).errors ?? [];
+    const errors = [
+      ...validationErrors,
+      ...normalizeReproductiveStatus(patientData.demographics, patientData.demographics.sex).errors
+        .map(message => ({ field: 'demographics', message })),
+      ...report.missing
+        .filter(field => !validationErrors.some(error => error.field === field))
+        .map(field => ({ field, message: 'Not in the bundle; confirm it in the intake form' })),
+    ];
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Bundle is missing required intake data; run with dryRun=true and complete it in the intake form',
+        errors,
+        data: { report },
+      });
+      return;
+    }
+
+    const patientId = await storePatient(patientData, intakeAudit(req), labResults);
+    invalidateCacheTags(['patients', 'analytics', 'treatment-plans']);
+
+    res.status(201).json({
+      success: true,
+      message: config.demoMode ? 'Patient imported (Demo Mode)' : 'Patient imported',
+      data: { patientId, report },
+      ...(config.demoMode && { demoMode: true }),
+    });
+  } catch (error) {
+    if (error instanceof FhirImportError) {
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+    logger.error('FHIR import error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import patient',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
 // Get patient by ID with all related data
 export const getPatient = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -244,6 +162,7 @@ export const getPatient = async (req: Request, res: Response): Promise<void> =>
         { model: MedicalHistory, as: 'medicalHistory' },
         { model: CurrentMedication, as: 'currentMedications' },
         { model: LifestyleFactors, as: 'lifestyleFactors' },
+        { model: LabResult, as: 'labResults' },
         { model: TreatmentPlan, as: 'treatmentPlans' },
       ],
     });
@@ -353,6 +272,8 @@ export const deletePatient = async (req: Request, res: Response): Promise<void>
       await MedicalHistory.destroy({ where: { patientId: id }, transaction });
       await CurrentMedication.destroy({ where: { patientId: id }, transaction });
       await LifestyleFactors.destroy({ where: { patientId: id }, transaction });
+      await LabResult.destroy({ where: { patientId: id }, transaction });
+      await TreatmentOutcome.destroy({ where: { patientId: id }, transaction });
       await TreatmentPlan.destroy({ where: { patientId: id }, transaction });
       await patient.destroy({ transaction });
 
@@ -377,6 +298,155 @@ export const deletePatient = async (req: Request, res: Response): Promise<void>
   }
 };
 
+// Get a patient's lab results, most recently collected first
+export const getPatientLabResults = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // DEMO MODE
+    if (config.demoMode) {
+      if (!demoStorage.getPatient(id)) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found (Demo Mode)',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { patientId: id, results: await labResultService.list(id), latest: await labResultService.latest(id) },
+        demoMode: true,
+      });
+      return;
+    }
+
+    // PRODUCTION MODE
+    const patient = await Patient.findByPk(id);
+    if (!patient) {
+      res.status(404).json({
+        success: false,
+        message: 'Patient not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { patientId: id, results: await labResultService.list(id), latest: await labResultService.latest(id) },
+    });
+  } catch (error) {
+    logger.error('Get lab results error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get lab results',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Record new lab results for an existing patient
+export const addPatientLabResults = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const input: RawLabResultInput[] | undefined = req.body.labResults;
+
+    if (!Array.isArray(input) || input.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: 'labResults must be a non-empty array',
+      });
+      return;
+    }
+
+    const { results, errors } = normalizeLabResults(input);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid lab results',
+        errors,
+      });
+      return;
+    }
+
+    // DEMO MODE
+    if (config.demoMode) {
+      if (!demoStorage.getPatient(id)) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found (Demo Mode)',
+        });
+        return;
+      }
+
+      const recorded = await labResultService.record(id, results);
+      demoStorage.createAuditLog({
+        timestamp: new Date(),
+        ...getAuditActor(req),
+        action: 'modified',
+        patientId: id,
+        changes: { labResults: results },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'] || undefined,
+      });
+      invalidateCacheTags(['patients']);
+
+      res.status(201).json({
+        success: true,
+        message: 'Lab results recorded (Demo Mode)',
+        data: { patientId: id, results: recorded },
+        demoMode: true,
+      });
+      return;
+    }
+
+    // PRODUCTION MODE
+    const transaction = await sequelize.transaction();
+
+    try {
+      const patient = await Patient.findByPk(id, { transaction });
+      if (!patient) {
+        await transaction.rollback();
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      const recorded = await labResultService.record(id, results, transaction);
+      await AuditLog.create({
+        timestamp: new Date(),
+        ...getAuditActor(req),
+        action: 'modified',
+        patientId: id,
+        changes: { labResults: results },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'] || null,
+      }, { transaction });
+
+      await transaction.commit();
+      invalidateCacheTags(['patients']);
+
+      res.status(201).json({
+        success: true,
+        message: 'Lab results recorded',
+        data: { patientId: id, results: recorded },
+      });
+    } catch (dbError) {
+      await transaction.rollback();
+      throw dbError;
+    }
+  } catch (error) {
+    logger.error('Add lab results error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to record lab results',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
 // Search patients
 export const searchPatients = async (req: Request, res: Response): Promise<void> => {
   try {
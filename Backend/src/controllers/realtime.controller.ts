@@ -1,18 +1,25 @@
 import { Request, Response } from 'express';
 import { config } from '../config';
 import { demoStorage } from '../services/demo-storage.service';
-import { getMedicalDataScraper } from '../services/medical-data-scraper.service';
+import { DrugDataSource, getDrugSourceHealth, getMedicalDataScraper } from '../services/medical-data-scraper.service';
 import { adaptiveLearningService } from '../services/adaptive-learning.service';
 import { responseCache } from '../services/response-cache.service';
+import { llmValidationMetrics } from '../services/openai.service';
 import { Patient, TreatmentPlan } from '../models';
 
-const LIVE_SOURCES = [
-  { name: 'OpenFDA Drug Labels', url: 'https://api.fda.gov/drug/label.json', provider: 'U.S. FDA' },
-  { name: 'OpenFDA Adverse Events', url: 'https://api.fda.gov/drug/event.json', provider: 'U.S. FDA' },
-  { name: 'RxNorm', url: 'https://rxnav.nlm.nih.gov/REST/', provider: 'U.S. National Library of Medicine' },
-  { name: 'DailyMed', url: 'https://dailymed.nlm.nih.gov/dailymed/services/v2/', provider: 'U.S. National Library of Medicine' },
+const LIVE_SOURCES: Array<{ name: string; url: string; provider: string; api: DrugDataSource }> = [
+  { name: 'OpenFDA Drug Labels', url: 'https://api.fda.gov/drug/label.json', provider: 'U.S. FDA', api: 'openfda' },
+  { name: 'OpenFDA Adverse Events', url: 'https://api.fda.gov/drug/event.json', provider: 'U.S. FDA', api: 'openfda' },
+  { name: 'RxNorm', url: 'https://rxnav.nlm.nih.gov/REST/', provider: 'U.S. National Library of Medicine', api: 'rxnorm' },
+  { name: 'DailyMed', url: 'https://dailymed.nlm.nih.gov/dailymed/services/v2/', provider: 'U.S. National Library of Medicine', api: 'dailymed' },
 ];
 
+// Each source with the circuit breaker state of the API behind it
+function liveSourceStatus() {
+  const health = getDrugSourceHealth();
+  return LIVE_SOURCES.map(({ api, ...source }) => ({ ...source, health: health[api] }));
+}
+
 async function buildRealtimeSnapshot() {
   const memoryUsage = process.memoryUsage();
   const baseSnapshot = {
@@ -24,9 +31,11 @@ async function buildRealtimeSnapshot() {
       heapTotalMb: Number((memoryUsage.heapTotal / (1024 * 1024)).toFixed(2)),
     },
     caching: responseCache.getStats(),
-    scraperCache: getMedicalDataScraper().getCacheStats(),
+    scraperCache: await getMedicalDataScraper().getCacheStats(),
+    drugData: getMedicalDataScraper().getDataSourceStatus(),
     adaptiveLearning: adaptiveLearningService.getStats(),
-    liveSources: LIVE_SOURCES,
+    llmOutputValidation: llmValidationMetrics.getStats(),
+    liveSources: liveSourceStatus(),
   };
 
   if (config.demoMode) {
@@ -55,7 +64,7 @@ async function buildRealtimeSnapshot() {
 export const getRealtimeSources = async (_req: Request, res: Response): Promise<void> => {
   res.json({
     success: true,
-    data: LIVE_SOURCES,
+    data: liveSourceStatus(),
   });
 };
 
@@ -11,29 +11,80 @@ import {
 } from '../models';
 import { analyzeWithRetry } from '../services/openai.service';
 import { validateTreatmentPlan } from '../services/validation.service';
-import { crossValidateWithLocalDB } from '../services/cross-validation.service';
+import {
+  checkPediatricSafety,
+  checkPharmacogenomics,
+  checkReproductiveSafety,
+  checkTherapeuticDuplication,
+  crossValidateWithLocalDB,
+  withholdPediatricRestrictedTreatments,
+} from '../services/cross-validation.service';
+import { knowledgeBaseService } from '../services/knowledge-base.service';
+import { DRUG_ONTOLOGY, PharmacogenomicProfile } from '@treatment-plan/clinical-knowledge';
 import {
   CompletePatientData,
   TreatmentPlanResponse,
   TreatmentRecommendation,
   ContraindicationResult,
   FlaggedIssue,
+  IssueType,
   RawDemographicsInput,
   RawMedicalHistoryInput,
   RawCurrentMedicationsInput,
   RawLifestyleInput,
-  RawConditionInput,
-  RawAllergyInput,
-  RawSurgeryInput,
   RawMedicationInput,
   RawBloodPressureInput,
+  RawLabResultInput,
+  RawPharmacogenomicInput,
+  LabResult,
   FrontendTreatmentResponse,
+  FrontendFlaggedIssue,
+  FrontendRecommendation,
+  ModifyTreatmentPlanBody,
+  ApproveTreatmentPlanBody,
+  PatientHandoutRequestBody,
+  ReportFormat,
+  ReportMetadata,
+  TreatmentPlanReport,
+  TreatmentPlanReportSnapshotRecord,
+  TreatmentPlanRevisionRecord,
+  RawTreatmentOutcomeInput,
+  TreatmentOutcomeRecord,
+  ValidationIssue,
 } from '../types';
 import { sequelize } from '../config/database';
 import { config } from '../config';
 import { demoStorage } from '../services/demo-storage.service';
 import { adaptiveLearningService } from '../services/adaptive-learning.service';
 import { invalidateCacheTags } from '../middleware/cache.middleware';
+import { getAuditActor } from '../middleware/auth.middleware';
+import { planRevisionService, diffTreatmentData } from '../services/plan-revision.service';
+import { labResultService, normalizeLabResults } from '../services/lab-result.service';
+import { normalizePharmacogenomicProfile } from '../services/pharmacogenomics.service';
+import { normalizeReproductiveStatus } from '../services/reproductive-status.service';
+import { normalizeTreatmentOutcome, treatmentOutcomeService } from '../services/treatment-outcome.service';
+import {
+  buildCompletePatientData,
+  loadStoredPatientData,
+  normalizeAlcoholFrequency,
+  normalizeAllergies,
+  normalizeConditions,
+  normalizeCurrentMedications,
+  normalizeDiet,
+  normalizeExerciseFrequency,
+  normalizeFamilyHistory,
+  normalizeSex,
+  normalizeSmokingStatus,
+  normalizeSurgeries,
+} from '../services/patient-intake.service';
+import { ExportableTreatmentPlan, PlanAuditEntry, buildTreatmentPlanBundle } from '../services/fhir-export.service';
+import {
+  buildTreatmentPlanReport,
+  renderReportHtml,
+  renderReportPdf,
+  treatmentReportService,
+} from '../services/treatment-report.service';
+import { buildPatientHandout, normalizeHandoutRequest, renderHandoutPdf } from '../services/patient-handout.service';
 
 const WRITE_CACHE_TAGS = ['patients', 'analytics', 'treatment-plans'];
 
@@ -49,16 +100,17 @@ async function rollbackIfActive(transaction: { rollback: () => Promise<void> }):
   }
 }
 
+// Adaptive learning is labelled with observed outcomes, never with the model's own risk score
 function ingestAdaptiveLearningSample(
   completePatientData: CompletePatientData,
-  riskScore: number,
+  riskLabel: number,
   source: string,
 ): void {
   try {
     adaptiveLearningService.ingestFromPatient({
       patientId: completePatientData.demographics.patientId,
       source,
-      riskScore,
+      riskScore: riskLabel,
       demographics: completePatientData.demographics,
       medicalHistory: completePatientData.medicalHistory,
       currentMedications: completePatientData.currentMedications,
@@ -69,173 +121,19 @@ function ingestAdaptiveLearningSample(
   }
 }
 
-// Helper to build family history array from non-array value
-function buildFamilyHistoryArray(value: unknown): string[] {
-  if (value) return [value as string];
-  return [];
-}
-
-type PatientSex = 'male' | 'female' | 'other';
-type MedicationRoute = 'oral' | 'IV' | 'topical' | 'injection' | 'sublingual';
-type SmokingStatus = 'never' | 'former' | 'current';
-type AlcoholFrequency = 'none' | 'occasional' | 'moderate' | 'heavy';
-type ExerciseFrequency = 'sedentary' | 'light' | 'moderate' | 'active';
-type DietType = 'standard' | 'vegetarian' | 'vegan' | 'keto' | 'other';
-type ConditionSeverity = 'mild' | 'moderate' | 'severe';
-type AllergySeverity = 'mild' | 'moderate' | 'severe' | 'anaphylaxis';
-
-function normalizeSex(value?: string): PatientSex {
-  if (value === 'male' || value === 'female') return value;
-  return 'other';
-}
-
-function normalizeRoute(value?: string): MedicationRoute {
-  if (value === 'IV' || value === 'topical' || value === 'injection' || value === 'sublingual') {
-    return value;
-  }
-  return 'oral';
-}
-
-function normalizeSmokingStatus(value?: string): SmokingStatus {
-  if (value === 'former' || value === 'current') return value;
-  return 'never';
-}
-
-function normalizeAlcoholFrequency(value?: string): AlcoholFrequency {
-  if (value === 'occasional' || value === 'moderate' || value === 'heavy') return value;
-  return 'none';
-}
-
-function normalizeExerciseFrequency(value?: string): ExerciseFrequency {
-  if (value === 'light' || value === 'moderate' || value === 'active') return value;
-  return 'sedentary';
-}
-
-function normalizeDiet(value?: string): DietType {
-  if (value === 'vegetarian' || value === 'vegan' || value === 'keto' || value === 'other') return value;
-  return 'standard';
-}
-
-function normalizeConditionSeverity(value?: string): ConditionSeverity {
-  if (value === 'mild' || value === 'severe') return value;
-  return 'moderate';
-}
-
-function normalizeAllergySeverity(value?: string): AllergySeverity {
-  if (value === 'mild' || value === 'severe' || value === 'anaphylaxis') return value;
-  return 'moderate';
-}
-
-function normalizeConditions(medicalHistory?: RawMedicalHistoryInput) {
-  return (medicalHistory?.conditions || []).map((condition: RawConditionInput | string) => ({
-    condition: typeof condition === 'string' ? condition : (condition.name || condition.condition || ''),
-    diagnosisDate: typeof condition === 'string' ? '' : (condition.diagnosisDate || ''),
-    severity: normalizeConditionSeverity(typeof condition === 'string' ? undefined : condition.severity),
-    controlled: typeof condition === 'string' ? false : (condition.isControlled ?? condition.controlled ?? false),
-  }));
-}
-
-function normalizeAllergies(medicalHistory?: RawMedicalHistoryInput) {
-  return (medicalHistory?.allergies || []).map((allergy: RawAllergyInput | string) => ({
-    allergen: typeof allergy === 'string' ? allergy : allergy.allergen,
-    reaction: typeof allergy === 'string' ? '' : (allergy.reaction || ''),
-    severity: normalizeAllergySeverity(typeof allergy === 'string' ? undefined : allergy.severity),
-  }));
-}
-
-function normalizeSurgeries(medicalHistory?: RawMedicalHistoryInput) {
-  return (medicalHistory?.surgeries || medicalHistory?.pastSurgeries || []).map((surgery: RawSurgeryInput | string) => ({
-    procedure: typeof surgery === 'string' ? surgery : surgery.procedure,
-    date: typeof surgery === 'string' ? '' : (surgery.date || ''),
-  }));
-}
-
-function normalizeFamilyHistory(medicalHistory?: RawMedicalHistoryInput): string[] {
-  return Array.isArray(medicalHistory?.familyHistory)
-    ? medicalHistory.familyHistory
-    : buildFamilyHistoryArray(medicalHistory?.familyHistory);
-}
-
-function normalizeCurrentMedications(currentMedications?: RawCurrentMedicationsInput) {
-  return (currentMedications?.medications || []).map((medication: RawMedicationInput) => ({
-    drugName: medication.drugName,
-    genericName: medication.genericName || medication.drugName.toLowerCase(),
-    dosage: medication.dosage,
-    frequency: medication.frequency,
-    route: normalizeRoute(medication.route),
-    startDate: medication.startDate || '',
-    prescribedBy: medication.prescribedBy || '',
-  }));
-}
-
 // Helper to determine severity from issue description
 function getSeverityFromDescription(issue: string): string {
   if (issue.toUpperCase().includes('MODERATE')) return 'moderate';
   return 'low';
 }
 
-// Helper function to build complete patient data from request
-function buildCompletePatientData(
-  patientId: string,
-  demographics: RawDemographicsInput,
-  medicalHistory: RawMedicalHistoryInput | undefined,
-  currentMedications: RawCurrentMedicationsInput | undefined,
-  lifestyleFactors: RawLifestyleInput
-): CompletePatientData {
-  const conditions = normalizeConditions(medicalHistory);
-  const allergies = normalizeAllergies(medicalHistory);
-  const pastSurgeries = normalizeSurgeries(medicalHistory);
-  const familyHistory = normalizeFamilyHistory(medicalHistory);
-  const medications = normalizeCurrentMedications(currentMedications);
-
-  return {
-    demographics: {
-      patientId,
-      age: demographics.age,
-      sex: normalizeSex(demographics.sex),
-      weight: demographics.weight,
-      height: demographics.height,
-      bmi: demographics.bmi || (demographics.weight / Math.pow(demographics.height / 100, 2)),
-      bloodPressure: {
-        systolic: demographics.bloodPressure?.systolic ?? 120,
-        diastolic: demographics.bloodPressure?.diastolic ?? 80,
-      },
-      heartRate: demographics.heartRate || 72,
-      temperature: demographics.temperature || 98.6,
-    },
-    medicalHistory: {
-      conditions,
-      allergies,
-      pastSurgeries,
-      familyHistory,
-    },
-    currentMedications: {
-      medications,
-    },
-    lifestyle: {
-      smoking: {
-        status: normalizeSmokingStatus(lifestyleFactors.smokingStatus),
-        packsPerDay: lifestyleFactors.packsPerDay,
-        years: lifestyleFactors.packYears,
-      },
-      alcohol: {
-        frequency: normalizeAlcoholFrequency(lifestyleFactors.alcoholUse),
-        drinksPerWeek: lifestyleFactors.drinksPerWeek,
-      },
-      exercise: {
-        frequency: normalizeExerciseFrequency(lifestyleFactors.exerciseLevel),
-        minutesPerWeek: lifestyleFactors.exerciseMinutesPerWeek,
-      },
-      diet: normalizeDiet(lifestyleFactors.dietType),
-      chiefComplaint: {
-        complaint: lifestyleFactors.chiefComplaint || '',
-        duration: lifestyleFactors.symptomDuration || '',
-        severity: (lifestyleFactors.severity || 3) as 1 | 2 | 3 | 4 | 5,
-        symptoms: lifestyleFactors.symptoms || [],
-      },
-    },
-  };
-}
+// Evidence behind the findings that depend on the patient's genotype, pregnancy status or regimen
+const PATIENT_SPECIFIC_EVIDENCE: Partial<Record<string, string>> = {
+  pharmacogenomic: 'CPIC gene–drug guidelines applied to the patient\'s pharmacogenomic profile',
+  pregnancy: 'Pregnancy contraindications from the clinical knowledge base, graded by trimester',
+  lactation: 'Lactation risk data (LactMed, AAP) from the clinical knowledge base',
+  duplication: 'Therapeutic duplication rules (shared ingredients and drug classes) from the clinical knowledge base',
+};
 
 // Helper function to transform AI response to frontend format
 function transformToFrontendResponse(aiResponse: TreatmentPlanResponse) {
@@ -286,7 +184,8 @@ function transformToFrontendResponse(aiResponse: TreatmentPlanResponse) {
       description: issue.description || 'No description available',
       recommendation: issue.recommendation || 'Consult healthcare provider',
       affectedDrugs: issue.affectedDrugs || [],
-      clinicalEvidence: 'Based on clinical guidelines and drug interaction database',
+      clinicalEvidence: PATIENT_SPECIFIC_EVIDENCE[issueType] ?? 'Based on clinical guidelines and drug interaction database',
+      ...(issue.doseAdjustment && { doseAdjustment: issue.doseAdjustment }),
     };
   });
 
@@ -376,10 +275,259 @@ function transformToFrontendResponse(aiResponse: TreatmentPlanResponse) {
     evidenceSources: aiResponse.evidenceSources && aiResponse.evidenceSources.length > 0
       ? aiResponse.evidenceSources
       : ['FDA Drug Database', 'Clinical Practice Guidelines'],
+    generatedBy: aiResponse.generatedBy,
     status: 'pending',
   };
 }
 
+// Inverse of the recommendation mapping above. Fields the dashboard does not
+// carry (reason, benefits, evidence) are kept from the matching stored drug.
+function fromFrontendRecommendation(
+  recommendation: Partial<FrontendRecommendation>,
+  existing: TreatmentRecommendation[],
+): TreatmentRecommendation {
+  const key = DRUG_ONTOLOGY.canonicalName(recommendation.genericName || recommendation.drugName || '');
+  const match = existing.find(t => DRUG_ONTOLOGY.canonicalName(t.genericName || t.medication) === key);
+  return {
+    ...match,
+    medication: recommendation.drugName ?? match?.medication ?? '',
+    genericName: recommendation.genericName ?? match?.genericName ?? '',
+    dosage: recommendation.dosage ?? match?.dosage ?? '',
+    frequency: recommendation.frequency ?? match?.frequency ?? '',
+    duration: recommendation.duration ?? match?.duration ?? '',
+    route: recommendation.route ?? match?.route ?? '',
+    instructions: recommendation.instructions ?? match?.instructions ?? '',
+  };
+}
+
+// Applies a modify request to the stored plan and returns the next snapshot.
+// A string `modifications` is a free-text note and leaves the treatment unchanged.
+function buildModifiedTreatmentData(current: TreatmentPlanResponse, body: ModifyTreatmentPlanBody): TreatmentPlanResponse {
+  const currentPlan = current.treatmentPlan;
+  let nextPlan = { ...currentPlan };
+
+  const edited = body.treatmentPlan?.recommendations;
+  if (Array.isArray(edited) && edited.length > 0) {
+    const existing = [currentPlan.primaryTreatment, ...(currentPlan.alternativeTreatments || [])];
+    const [primary, ...alternatives] = edited.map(r => fromFrontendRecommendation(r, existing));
+    nextPlan = { ...nextPlan, primaryTreatment: primary, alternativeTreatments: alternatives };
+  }
+
+  const { modifications } = body;
+  if (modifications && typeof modifications === 'object') {
+    nextPlan = {
+      primaryTreatment: { ...nextPlan.primaryTreatment, ...modifications.primaryTreatment },
+      alternativeTreatments: modifications.alternativeTreatments ?? nextPlan.alternativeTreatments,
+      supportiveCare: modifications.supportiveCare ?? nextPlan.supportiveCare,
+    };
+  }
+
+  return { ...current, treatmentPlan: nextPlan };
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const TREATMENT_TEXT_FIELDS = ['medication', 'genericName', 'dosage', 'frequency', 'duration', 'route', 'instructions', 'reason', 'evidenceLevel'];
+const RECOMMENDATION_TEXT_FIELDS = ['drugName', 'genericName', 'dosage', 'frequency', 'duration', 'route', 'instructions', 'priority'];
+// An alternative replaces the stored one whole, so it must name the drug and how to take it
+const REQUIRED_ALTERNATIVE_FIELDS = ['medication', 'dosage', 'frequency'];
+
+// Text fields that are present (or required) but not strings
+function textFieldErrors(value: Record<string, unknown>, location: string, fields: string[], required: string[] = []): string[] {
+  return fields
+    .filter(field => (value[field] !== undefined || required.includes(field)) && typeof value[field] !== 'string')
+    .map(field => `${location}.${field} must be text`);
+}
+
+function treatmentErrors(value: unknown, location: string, required: string[] = []): string[] {
+  if (!isPlainObject(value)) return [`${location} must be an object`];
+  const errors = textFieldErrors(value, location, TREATMENT_TEXT_FIELDS, required);
+  for (const field of ['benefits', 'drawbacks']) {
+    if (value[field] !== undefined && !isStringArray(value[field])) errors.push(`${location}.${field} must be an array of strings`);
+  }
+  return errors;
+}
+
+// Shape errors in a modify request, checked before the plan is touched
+function modifyRequestErrors(body: ModifyTreatmentPlanBody): string[] {
+  const errors: string[] = [];
+  const { modifications } = body;
+  if (modifications !== undefined && modifications !== null && typeof modifications !== 'string') {
+    if (!isPlainObject(modifications)) {
+      errors.push('modifications must be a note or an object');
+    } else {
+      if (modifications.primaryTreatment !== undefined) {
+        errors.push(...treatmentErrors(modifications.primaryTreatment, 'modifications.primaryTreatment'));
+      }
+      const alternatives: unknown = modifications.alternativeTreatments;
+      if (alternatives !== undefined) {
+        if (Array.isArray(alternatives)) {
+          alternatives.forEach((alternative, index) => {
+            errors.push(...treatmentErrors(alternative, `modifications.alternativeTreatments[${index}]`, REQUIRED_ALTERNATIVE_FIELDS));
+          });
+        } else {
+          errors.push('modifications.alternativeTreatments must be an array of treatments');
+        }
+      }
+      if (modifications.supportiveCare !== undefined && !isStringArray(modifications.supportiveCare)) {
+        errors.push('modifications.supportiveCare must be an array of strings');
+      }
+    }
+  }
+
+  const recommendations: unknown = body.treatmentPlan?.recommendations;
+  if (recommendations !== undefined) {
+    if (Array.isArray(recommendations)) {
+      recommendations.forEach((recommendation, index) => {
+        const location = `treatmentPlan.recommendations[${index}]`;
+        if (!isPlainObject(recommendation)) {
+          errors.push(`${location} must be an object`);
+          return;
+        }
+        errors.push(...textFieldErrors(recommendation, location, RECOMMENDATION_TEXT_FIELDS));
+        if (recommendation.requiresMonitoring !== undefined && typeof recommendation.requiresMonitoring !== 'boolean') {
+          errors.push(`${location}.requiresMonitoring must be true or false`);
+        }
+      });
+    } else {
+      errors.push('treatmentPlan.recommendations must be an array of recommendations');
+    }
+  }
+  return errors;
+}
+
+function getModificationReason(body: ModifyTreatmentPlanBody): string | null {
+  const reason = typeof body.reason === 'string' ? body.reason : body.modifications;
+  return typeof reason === 'string' && reason.trim() ? reason.trim() : null;
+}
+
+function getOverrideReason(body: ModifyTreatmentPlanBody): string | null {
+  return typeof body.overrideReason === 'string' && body.overrideReason.trim() ? body.overrideReason.trim() : null;
+}
+
+// Recorded on the plan and in the audit entry when critical findings are overridden
+function buildSafetyOverride(review: ModifiedPlanSafetyReview, overrideReason: string | null) {
+  if (review.criticalIssues.length === 0 || !overrideReason) return null;
+  return {
+    reason: overrideReason,
+    overriddenIssues: review.criticalIssues.map(issue => issue.description),
+  };
+}
+
+function toModifiedFrontendResponse(
+  treatmentData: TreatmentPlanResponse,
+  review: ModifiedPlanSafetyReview,
+): FrontendTreatmentResponse {
+  const response: FrontendTreatmentResponse = transformToFrontendResponse(treatmentData);
+  response.flaggedIssues = [...review.flaggedIssues, ...response.flaggedIssues];
+  if (review.criticalIssues.length > 0) {
+    response.riskAssessment = {
+      ...response.riskAssessment,
+      overallRisk: 'critical',
+      riskScore: Math.max(response.riskAssessment.riskScore, 95),
+    };
+  }
+  response.status = 'modified';
+  return response;
+}
+
+function sendSafetyBlock(res: Response, review: ModifiedPlanSafetyReview): void {
+  res.status(422).json({
+    success: false,
+    message: 'The modified plan has critical safety issues. Revise it or supply an overrideReason to save it anyway.',
+    requiresOverride: true,
+    flaggedIssues: review.flaggedIssues,
+  });
+}
+
+function summarizeRevision(revision: TreatmentPlanRevisionRecord) {
+  const { id, revisionNumber, authorId, authorName, reason, createdAt } = revision;
+  return { id, revisionNumber, authorId, authorName, reason, createdAt };
+}
+
+// Plans are addressed by plan id or, as the dashboard does, by patient id
+async function findTreatmentPlanId(id: string): Promise<string | null> {
+  if (config.demoMode) {
+    return (demoStorage.getTreatmentPlan(id) ?? demoStorage.getTreatmentPlanByPatientId(id))?.id ?? null;
+  }
+  const plan = await TreatmentPlan.findByPk(id, { attributes: ['id'] })
+    ?? await TreatmentPlan.findOne({ where: { patientId: id }, order: [['createdAt', 'DESC']], attributes: ['id'] });
+  return plan?.id ?? null;
+}
+
+interface StoredTreatmentPlan {
+  id: string;
+  patientId: string;
+  status: ReportMetadata['approvalStatus'];
+  treatmentData: unknown;
+  approvedBy?: string | null;
+  approvedAt?: Date | string | null;
+  knowledgeBaseVersion?: string | null;
+  createdAt: Date | string;
+}
+
+// A demo or production plan row in the shape the FHIR and report builders take
+function toExportablePlan(stored: StoredTreatmentPlan): ExportableTreatmentPlan & { status: StoredTreatmentPlan['status'] } {
+  return {
+    id: stored.id,
+    patientId: stored.patientId,
+    status: stored.status,
+    treatmentData: stored.treatmentData as TreatmentPlanResponse,
+    approvedBy: stored.approvedBy ?? null,
+    approvedAt: stored.approvedAt ? new Date(stored.approvedAt) : null,
+    knowledgeBaseVersion: stored.knowledgeBaseVersion ?? null,
+    createdAt: new Date(stored.createdAt),
+  };
+}
+
+async function loadPlanPatientData(patientId: string): Promise<CompletePatientData | null> {
+  if (config.demoMode) {
+    return loadDemoPatientData(patientId);
+  }
+  const patient = await Patient.findByPk(patientId);
+  return patient ? loadStoredPatientData(patient) : null;
+}
+
+const REPORT_FORMATS: ReportFormat[] = ['pdf', 'json', 'html'];
+
+// Optional on approval; when given it must be a well-formed 10-digit NPI
+function getProviderNpi(body: ApproveTreatmentPlanBody): { providerNPI?: string; error?: string } {
+  const providerNPI = typeof body.providerNPI === 'string' ? body.providerNPI.trim() : '';
+  if (!providerNPI) return {};
+  return /^\d{10}$/.test(providerNPI)
+    ? { providerNPI }
+    : { error: 'providerNPI must be a 10-digit National Provider Identifier' };
+}
+
+/**
+ * Renders and stores the report for a plan that is being approved. Plans
+ * whose patient record is incomplete are approved without a snapshot; the
+ * report endpoint then renders them on request.
+ */
+async function snapshotApprovalReport(
+  plan: StoredTreatmentPlan,
+  providerNPI: string | undefined,
+  transaction?: Transaction,
+): Promise<TreatmentPlanReportSnapshotRecord | null> {
+  const patientData = await loadPlanPatientData(plan.patientId);
+  if (!patientData) {
+    logger.warn('Approved plan has incomplete patient data; no report snapshot stored', { treatmentPlanId: plan.id });
+    return null;
+  }
+  const report = buildTreatmentPlanReport(toExportablePlan(plan), patientData, providerNPI ? { providerNPI } : {});
+  return treatmentReportService.storeSnapshot(report, transaction);
+}
+
+function summarizeReportSnapshot(snapshot: TreatmentPlanReportSnapshotRecord | null) {
+  if (!snapshot) return null;
+  const { id, report, pdfSha256, createdAt } = snapshot;
+  return { id, reportId: report.reportId, pdfSha256, createdAt };
+}
+
 // CRITICAL SAFETY CHECK: Pre-analysis validation for known dangerous drug combinations
 // This runs BEFORE AI analysis to ensure absolute contraindications are flagged
 interface PreAnalysisSafetyResult {
@@ -398,15 +546,15 @@ interface PreAnalysisSafetyResult {
 
 const CRITICAL_DRUG_INTERACTIONS = [
   {
-    drug1: ['sildenafil', 'tadalafil', 'vardenafil', 'avanafil'],
-    drug2: ['nitroglycerin', 'isosorbide', 'nitrate', 'nitroprusside'],
+    drug1: ['pde5 inhibitors'],
+    drug2: ['nitrates', 'isosorbide'],
     effect: 'LIFE-THREATENING HYPOTENSION',
     reason: 'PDE5 inhibitors combined with nitrates cause profound hypotension that can be fatal',
     alternatives: ['Vacuum erection devices', 'Alprostadil injection', 'Penile implant consultation']
   },
   {
     drug1: ['warfarin'],
-    drug2: ['aspirin', 'ibuprofen', 'naproxen'],
+    drug2: ['nsaids'],
     effect: 'SEVERE BLEEDING RISK',
     reason: 'Combined anticoagulant and antiplatelet effects dramatically increase bleeding risk',
     alternatives: ['Acetaminophen for pain', 'Consult anticoagulation clinic']
@@ -443,9 +591,7 @@ function performPreAnalysisSafetyCheck(
     complaintLower.includes('impotence');
 
   const hasNitrate = currentDrugNames.some(drug =>
-    drug.includes('nitroglycerin') ||
-    drug.includes('isosorbide') ||
-    drug.includes('nitrate')
+    DRUG_ONTOLOGY.matches(drug, 'nitrates') || drug.includes('isosorbide')
   );
 
   if (isEDRequest && hasNitrate) {
@@ -468,21 +614,15 @@ function performPreAnalysisSafetyCheck(
 
   // Check for other critical interactions in current medications
   for (const interaction of CRITICAL_DRUG_INTERACTIONS) {
-    const hasDrug1 = currentDrugNames.some(drug =>
-      interaction.drug1.some(d => drug.includes(d))
+    const drug1Match = currentDrugNames.find(drug =>
+      interaction.drug1.some(d => DRUG_ONTOLOGY.matches(drug, d))
     );
-    const hasDrug2 = currentDrugNames.some(drug =>
-      interaction.drug2.some(d => drug.includes(d))
+    const drug2Match = currentDrugNames.find(drug =>
+      drug !== drug1Match && interaction.drug2.some(d => DRUG_ONTOLOGY.matches(drug, d))
     );
 
-    if (hasDrug1 && hasDrug2) {
+    if (drug1Match && drug2Match) {
       result.hasCriticalIssue = true;
-      const drug1Match = currentDrugNames.find(drug =>
-        interaction.drug1.some(d => drug.includes(d))
-      ) || interaction.drug1[0];
-      const drug2Match = currentDrugNames.find(drug =>
-        interaction.drug2.some(d => drug.includes(d))
-      ) || interaction.drug2[0];
 
       result.criticalIssues.push({
         type: 'drug-interaction',
@@ -499,6 +639,83 @@ function performPreAnalysisSafetyCheck(
   return result;
 }
 
+// Safety review of a clinician-modified plan
+interface ModifiedPlanSafetyReview {
+  flaggedIssues: FrontendFlaggedIssue[];
+  criticalIssues: FrontendFlaggedIssue[];
+  knowledgeBaseVersion: string;
+}
+
+const VALIDATION_ISSUE_TYPES: Record<ValidationIssue['type'], string> = {
+  missed_interaction: 'drug-interaction',
+  missed_contraindication: 'contraindication',
+  dosage_exceeds_max: 'dosage',
+  pharmacogenomic: 'pharmacogenomic',
+  pregnancy: 'pregnancy',
+  lactation: 'lactation',
+  therapeutic_duplication: 'duplication',
+};
+
+function toFlaggedIssue(issue: ValidationIssue): FrontendFlaggedIssue {
+  const isCritical = issue.severity === 'critical';
+  return {
+    type: VALIDATION_ISSUE_TYPES[issue.type],
+    severity: issue.severity,
+    title: isCritical ? '⚠️ CRITICAL Modified Plan Alert' : 'Modified Plan Alert',
+    description: issue.description,
+    recommendation: isCritical
+      ? 'Revise the modification, or document a clinical override reason to save it'
+      : 'Review before approving the modified plan',
+    affectedDrugs: issue.affectedDrugs ?? [],
+    clinicalEvidence: 'Re-validated against the local drug database and clinical knowledge base',
+    ...(issue.doseAdjustment && { doseAdjustment: issue.doseAdjustment }),
+  };
+}
+
+/**
+ * Re-runs the analysis safety pipeline (pre-analysis critical checks,
+ * cross-validation and dosage guidelines) on a modified plan. Only issues
+ * involving a drug in the plan are returned: problems among the patient's
+ * existing medications were surfaced when the plan was generated and must
+ * not block every later edit.
+ */
+async function reviewModifiedPlanSafety(
+  plan: TreatmentPlanResponse,
+  patientData: CompletePatientData,
+): Promise<ModifiedPlanSafetyReview> {
+  const { primaryTreatment, alternativeTreatments } = plan.treatmentPlan;
+  const treatments = [primaryTreatment, ...(alternativeTreatments || [])];
+  const planDrugs = treatments.flatMap(t => [t.medication, t.genericName]).filter(Boolean);
+  const involvesPlanDrug = (affectedDrugs: string[] | undefined) =>
+    !affectedDrugs?.length || affectedDrugs.some(d => planDrugs.some(p => DRUG_ONTOLOGY.matches(d, p)));
+
+  const preAnalysis = performPreAnalysisSafetyCheck(
+    [
+      ...patientData.currentMedications.medications,
+      ...treatments.map(t => ({ drugName: t.medication, genericName: t.genericName, dosage: t.dosage, frequency: t.frequency })),
+    ],
+    patientData.lifestyle.chiefComplaint?.complaint || '',
+  );
+  const knowledgeBaseVersion = await knowledgeBaseService.activeVersion();
+  const crossValidation = await crossValidateWithLocalDB(plan, patientData);
+
+  const flaggedIssues: FrontendFlaggedIssue[] = [];
+  for (const issue of [
+    ...preAnalysis.criticalIssues,
+    ...crossValidation.issues.map(toFlaggedIssue),
+  ]) {
+    if (!involvesPlanDrug(issue.affectedDrugs)) continue;
+    if (flaggedIssues.some(existing => existing.description === issue.description)) continue;
+    flaggedIssues.push(issue);
+  }
+
+  return {
+    flaggedIssues,
+    criticalIssues: flaggedIssues.filter(issue => issue.severity === 'critical'),
+    knowledgeBaseVersion,
+  };
+}
+
 // Helper function for input validation and sanitization
 function validateBloodPressure(bp: RawBloodPressureInput | undefined): string[] {
   const errors: string[] = [];
@@ -554,6 +771,7 @@ function validateDemographics(demographics: RawDemographicsInput): string[] {
   }
 
   errors.push(...validateTemperature(demographics.temperature));
+  errors.push(...normalizeReproductiveStatus(demographics, demographics.sex).errors);
 
   return errors;
 }
@@ -597,6 +815,57 @@ function sanitizeString(input: string): string {
     .replaceAll('/', '&#x2F;');
 }
 
+/**
+ * Adds the findings for the patient's genotype, pregnancy or lactation status,
+ * pediatric age limits and duplicate therapy in their regimen to a generated
+ * plan before it is stored, so they stay with the plan whichever provider
+ * wrote it. Proposed drugs a child is too young for are taken out of the plan
+ * first and noted; ones the child already takes are flagged.
+ */
+function applyPatientSpecificIssues(aiResponse: TreatmentPlanResponse, patientData: CompletePatientData): void {
+  const { age } = patientData.demographics;
+  const { treatmentPlan, withheld } = withholdPediatricRestrictedTreatments(aiResponse.treatmentPlan, age);
+  aiResponse.treatmentPlan = treatmentPlan;
+  aiResponse.flaggedIssues = [
+    ...(aiResponse.flaggedIssues || []),
+    ...withheld.map((finding): FlaggedIssue => ({
+      type: 'contraindication',
+      severity: 'medium',
+      description: `Removed from the plan: ${finding.drug} is ${finding.adultOnly ? 'adult-only' : `not for patients under ${finding.minAgeYears} years`} and the patient is ${age} — ${finding.reason}`,
+      recommendation: `Consider alternatives: ${finding.alternatives.join(', ')} (${finding.evidenceSource})`,
+      affectedDrugs: [finding.drug],
+    })),
+  ];
+
+  const issues = [
+    ...checkPharmacogenomics(aiResponse, patientData),
+    ...checkReproductiveSafety(aiResponse, patientData),
+    ...checkPediatricSafety(aiResponse, patientData),
+    ...checkTherapeuticDuplication(aiResponse, patientData),
+  ];
+  if (issues.length === 0) return;
+
+  aiResponse.flaggedIssues = [
+    ...(aiResponse.flaggedIssues || []),
+    ...issues.map((issue): FlaggedIssue => ({
+      type: VALIDATION_ISSUE_TYPES[issue.type] as IssueType,
+      severity: issue.severity as FlaggedIssue['severity'],
+      description: issue.description,
+      recommendation: issue.recommendation ?? 'Review before prescribing',
+      affectedDrugs: issue.affectedDrugs ?? [],
+      ...(issue.doseAdjustment && { doseAdjustment: issue.doseAdjustment }),
+    })),
+  ];
+
+  if (issues.some(issue => issue.severity === 'critical')) {
+    aiResponse.riskAssessment = {
+      ...aiResponse.riskAssessment,
+      overallRisk: 'CRITICAL',
+      riskScore: Math.max(aiResponse.riskAssessment.riskScore, 95),
+    };
+  }
+}
+
 /** Merge pre-analysis safety results into the frontend response */
 function mergeSafetyIntoResponse(
   response: FrontendTreatmentResponse,
@@ -703,6 +972,8 @@ function storeDemoPatientData(
   medicalHistory: RawMedicalHistoryInput | undefined,
   currentMedications: RawCurrentMedicationsInput | undefined,
   lifestyleFactors: RawLifestyleInput,
+  labResults: LabResult[],
+  pharmacogenomics: PharmacogenomicProfile | undefined,
 ): string {
   const patient = demoStorage.createPatient({
     patientId: demographics.patientId || `PT-${Date.now()}`,
@@ -715,6 +986,8 @@ function storeDemoPatientData(
     diastolicBp: demographics.bloodPressure?.diastolic || 80,
     heartRate: demographics.heartRate || 72,
     temperature: demographics.temperature || 98.6,
+    ...normalizeReproductiveStatus(demographics, demographics.sex).status,
+    pharmacogenomics,
   });
 
   const patientId = patient.id;
@@ -759,6 +1032,10 @@ function storeDemoPatientData(
     });
   }
 
+  for (const result of labResults) {
+    demoStorage.addLabResult(patientId, result);
+  }
+
   return patientId;
 }
 
@@ -768,9 +1045,12 @@ async function handleProductionModeAnalysis(
   medicalHistory: RawMedicalHistoryInput | undefined,
   currentMedications: RawCurrentMedicationsInput | undefined,
   lifestyleFactors: RawLifestyleInput,
+  labResults: LabResult[],
+  pharmacogenomics: PharmacogenomicProfile | undefined,
   req: Request,
   res: Response,
 ): Promise<void> {
+  const { status: reproductiveStatus } = normalizeReproductiveStatus(demographics, demographics.sex);
   const transaction = await sequelize.transaction();
 
   try {
@@ -784,6 +1064,10 @@ async function handleProductionModeAnalysis(
       diastolicBp: demographics.bloodPressure?.diastolic || 0,
       heartRate: demographics.heartRate || 0,
       temperature: demographics.temperature || 98.6,
+      pregnant: reproductiveStatus.pregnant ?? false,
+      trimester: reproductiveStatus.trimester ?? null,
+      lactating: reproductiveStatus.lactating ?? false,
+      pharmacogenomics: pharmacogenomics ?? null,
     }, { transaction });
 
     await MedicalHistory.create({
@@ -814,17 +1098,16 @@ async function handleProductionModeAnalysis(
       },
     }, { transaction });
 
+    await labResultService.record(patient.id, labResults, transaction);
+
     const completePatientData = buildCompletePatientData(
-      patient.id, demographics, medicalHistory, currentMedications, lifestyleFactors
+      patient.id, demographics, medicalHistory, currentMedications, lifestyleFactors, labResults, pharmacogenomics
     );
 
     const aiResponse = await analyzeWithRetry(completePatientData);
+    applyPatientSpecificIssues(aiResponse, completePatientData);
+    const knowledgeBaseVersion = await knowledgeBaseService.activeVersion();
     await crossValidateWithLocalDB(aiResponse, completePatientData);
-    ingestAdaptiveLearningSample(
-      completePatientData,
-      aiResponse.riskAssessment?.riskScore || 0,
-      'analysis-production-new-patient',
-    );
 
     const treatmentPlan = await TreatmentPlan.create({
       patientId: patient.id,
@@ -833,12 +1116,13 @@ async function handleProductionModeAnalysis(
       riskScore: aiResponse.riskAssessment.riskScore,
       confidenceScore: aiResponse.riskAssessment.confidenceScore,
       status: 'pending',
+      knowledgeBaseVersion,
     }, { transaction });
+    await planRevisionService.recordBaseline(treatmentPlan.id, aiResponse, getAuditActor(req), transaction);
 
     await AuditLog.create({
       timestamp: new Date(),
-      userId: 'system',
-      userName: 'System',
+      ...getAuditActor(req),
       action: 'created',
       patientId: patient.id,
       treatmentPlanId: treatmentPlan.id,
@@ -864,6 +1148,22 @@ async function handleProductionModeAnalysis(
   }
 }
 
+// Complete patient data from demo storage, normalized the same way as a new intake
+function loadDemoPatientData(patientId: string): CompletePatientData | null {
+  const demoPatient = demoStorage.getCompletePatientData(patientId);
+  if (!demoPatient) return null;
+
+  return buildCompletePatientData(
+    patientId,
+    demoPatient,
+    demoPatient.medicalHistory || {},
+    { medications: demoPatient.currentMedications || [] },
+    demoPatient.lifestyleFactors || { chiefComplaint: 'General wellness check' },
+    demoPatient.labResults,
+    demoPatient.pharmacogenomics,
+  );
+}
+
 // Helper: create medication records in a transaction
 async function createMedicationRecords(
   patientId: string,
@@ -893,6 +1193,8 @@ export const analyzeNewPatient = async (req: Request, res: Response): Promise<vo
     logger.debug('Incoming request body', { bodyPreview: JSON.stringify(req.body).substring(0, 500) });
 
     const { demographics, medicalHistory, currentMedications, lifestyleFactors } = req.body;
+    const labResults: RawLabResultInput[] | undefined = req.body.labResults;
+    const rawPharmacogenomics: RawPharmacogenomicInput | undefined = req.body.pharmacogenomics;
 
     logger.debug('Parsed fields', {
       demographics: demographics ? 'present' : 'missing',
@@ -926,6 +1228,28 @@ export const analyzeNewPatient = async (req: Request, res: Response): Promise<vo
       return;
     }
 
+    const labs = normalizeLabResults(labResults);
+    if (labs.errors.length > 0) {
+      logger.warn('Lab result validation failed', { errors: labs.errors });
+      res.status(400).json({
+        success: false,
+        message: 'Invalid lab results',
+        errors: labs.errors,
+      });
+      return;
+    }
+
+    const pharmacogenomics = normalizePharmacogenomicProfile(rawPharmacogenomics);
+    if (pharmacogenomics.errors.length > 0) {
+      logger.warn('Pharmacogenomic profile validation failed', { errors: pharmacogenomics.errors });
+      res.status(400).json({
+        success: false,
+        message: 'Invalid pharmacogenomic profile',
+        errors: pharmacogenomics.errors,
+      });
+      return;
+    }
+
     // Sanitize text inputs to prevent XSS
     if (lifestyleFactors.chiefComplaint) {
       lifestyleFactors.chiefComplaint = sanitizeString(lifestyleFactors.chiefComplaint);
@@ -942,7 +1266,9 @@ export const analyzeNewPatient = async (req: Request, res: Response): Promise<vo
 
     // DEMO MODE: Skip database operations
     if (config.demoMode) {
-      const patientId = storeDemoPatientData(demographics, medicalHistory, currentMedications, lifestyleFactors);
+      const patientId = storeDemoPatientData(
+        demographics, medicalHistory, currentMedications, lifestyleFactors, labs.results, pharmacogenomics.profile,
+      );
 
       // Build complete patient data for AI analysis
       const completePatientData = buildCompletePatientData(
@@ -950,26 +1276,26 @@ export const analyzeNewPatient = async (req: Request, res: Response): Promise<vo
         demographics,
         medicalHistory,
         currentMedications,
-        lifestyleFactors
+        lifestyleFactors,
+        labs.results,
+        pharmacogenomics.profile,
       );
 
       // Call AI for analysis (will use mock if no API key)
       const aiResponse = await analyzeWithRetry(completePatientData);
-      ingestAdaptiveLearningSample(
-        completePatientData,
-        aiResponse.riskAssessment?.riskScore || 0,
-        'analysis-demo-new-patient',
-      );
+      applyPatientSpecificIssues(aiResponse, completePatientData);
 
       // Store treatment plan in demo storage
-      demoStorage.createTreatmentPlan({
+      const storedPlan = demoStorage.createTreatmentPlan({
         patientId,
         treatmentData: aiResponse,
         overallRisk: aiResponse.riskAssessment?.overallRisk || 'low',
         riskScore: aiResponse.riskAssessment?.riskScore || 0,
         confidenceScore: aiResponse.riskAssessment?.confidenceScore || 80,
         status: 'pending',
+        knowledgeBaseVersion: await knowledgeBaseService.activeVersion(),
       });
+      await planRevisionService.recordBaseline(storedPlan.id, aiResponse, getAuditActor(req));
       invalidateWriteCaches();
 
       // Transform and respond
@@ -982,18 +1308,20 @@ export const analyzeNewPatient = async (req: Request, res: Response): Promise<vo
         success: true,
         message: preAnalysisSafety.hasCriticalIssue
           ? '⚠️ CRITICAL SAFETY ALERT: Treatment plan generated with critical contraindication warnings'
-          : 'Treatment plan generated successfully (Demo Mode - using in-memory storage, AI is active)',
+          : `Treatment plan generated successfully (Demo Mode - using in-memory storage, generated by ${aiResponse.generatedBy?.provider ?? 'rule-based'})`,
         patient: { id: patientId },
         treatmentPlan: frontendResponse,
         demoMode: true,
-        aiEnabled: true,
+        aiEnabled: aiResponse.generatedBy?.provider !== 'rule-based',
         criticalSafetyAlert: preAnalysisSafety.hasCriticalIssue,
       });
       return;
     }
 
     // PRODUCTION MODE: Use database
-    await handleProductionModeAnalysis(demographics, medicalHistory, currentMedications, lifestyleFactors, req, res);
+    await handleProductionModeAnalysis(
+      demographics, medicalHistory, currentMedications, lifestyleFactors, labs.results, pharmacogenomics.profile, req, res,
+    );
   } catch (error) {
     logger.error('Analyze new patient error', { error: (error as Error).message });
     res.status(500).json({
@@ -1011,8 +1339,9 @@ export const analyzePatient = async (req: Request, res: Response): Promise<void>
 
     // DEMO MODE
     if (config.demoMode) {
-      const demoPatient = demoStorage.getCompletePatientData(patientId);
-      if (!demoPatient) {
+      // Generate treatment plan for demo patient
+      const completePatientData = loadDemoPatientData(patientId);
+      if (!completePatientData) {
         res.status(404).json({
           success: false,
           message: 'Patient not found (Demo Mode)',
@@ -1020,21 +1349,8 @@ export const analyzePatient = async (req: Request, res: Response): Promise<void>
         return;
       }
 
-      // Generate treatment plan for demo patient
-      const completePatientData = buildCompletePatientData(
-        patientId,
-        demoPatient,
-        demoPatient.medicalHistory || {},
-        { medications: demoPatient.currentMedications || [] },
-        demoPatient.lifestyleFactors || { chiefComplaint: 'General wellness check' }
-      );
-
       const aiResponse = await analyzeWithRetry(completePatientData);
-      ingestAdaptiveLearningSample(
-        completePatientData,
-        aiResponse.riskAssessment?.riskScore || 0,
-        'analysis-demo-existing-patient',
-      );
+      applyPatientSpecificIssues(aiResponse, completePatientData);
       const storedPlan = demoStorage.createTreatmentPlan({
         patientId,
         treatmentData: aiResponse,
@@ -1042,7 +1358,9 @@ export const analyzePatient = async (req: Request, res: Response): Promise<void>
         riskScore: aiResponse.riskAssessment?.riskScore || 0,
         confidenceScore: aiResponse.riskAssessment?.confidenceScore || 80,
         status: 'pending',
+        knowledgeBaseVersion: await knowledgeBaseService.activeVersion(),
       });
+      await planRevisionService.recordBaseline(storedPlan.id, aiResponse, getAuditActor(req));
       invalidateWriteCaches();
       const frontendResponse = transformToFrontendResponse(aiResponse);
 
@@ -1081,11 +1399,9 @@ export const analyzePatient = async (req: Request, res: Response): Promise<void>
       }
 
       // Build complete patient data for AI analysis
-      const medicalHistory = await MedicalHistory.findOne({ where: { patientId } });
-      const medications = await CurrentMedication.findAll({ where: { patientId } });
-      const lifestyle = await LifestyleFactors.findOne({ where: { patientId } });
+      const completePatientData = await loadStoredPatientData(patient);
 
-      if (!medicalHistory || !lifestyle) {
+      if (!completePatientData) {
         await transaction.rollback();
         res.status(400).json({
           success: false,
@@ -1094,56 +1410,6 @@ export const analyzePatient = async (req: Request, res: Response): Promise<void>
         return;
       }
 
-      const completePatientData: CompletePatientData = {
-        demographics: {
-          patientId: patient.id,
-          age: patient.age,
-          weight: patient.weight,
-          height: patient.height,
-          bmi: patient.bmi,
-          bloodPressure: {
-            systolic: patient.systolicBp,
-            diastolic: patient.diastolicBp,
-          },
-          heartRate: patient.heartRate,
-          temperature: patient.temperature,
-        },
-        medicalHistory: {
-          conditions: medicalHistory.conditions as CompletePatientData['medicalHistory']['conditions'],
-          allergies: medicalHistory.allergies as CompletePatientData['medicalHistory']['allergies'],
-          pastSurgeries: medicalHistory.pastSurgeries as CompletePatientData['medicalHistory']['pastSurgeries'],
-          familyHistory: medicalHistory.familyHistory,
-        },
-        currentMedications: {
-          medications: medications.map(m => ({
-            drugName: m.drugName,
-            genericName: m.genericName,
-            dosage: m.dosage,
-            frequency: m.frequency,
-            route: m.route,
-            startDate: m.startDate,
-            prescribedBy: m.prescribedBy,
-          })),
-        },
-        lifestyle: {
-          smoking: {
-            status: lifestyle.smokingStatus,
-            packsPerDay: lifestyle.smokingPacksPerDay || undefined,
-            years: lifestyle.smokingYears || undefined,
-          },
-          alcohol: {
-            frequency: lifestyle.alcoholFrequency,
-            drinksPerWeek: lifestyle.alcoholDrinksPerWeek || undefined,
-          },
-          exercise: {
-            frequency: lifestyle.exerciseFrequency,
-            minutesPerWeek: lifestyle.exerciseMinutesPerWeek || undefined,
-          },
-          diet: lifestyle.diet,
-          chiefComplaint: lifestyle.chiefComplaint as CompletePatientData['lifestyle']['chiefComplaint'],
-        },
-      };
-
       // Call OpenAI for analysis
       const aiResponse = await analyzeWithRetry(completePatientData);
 
@@ -1158,14 +1424,11 @@ export const analyzePatient = async (req: Request, res: Response): Promise<void>
         });
         return;
       }
+      applyPatientSpecificIssues(aiResponse, completePatientData);
 
       // Cross-validate with local database
+      const knowledgeBaseVersion = await knowledgeBaseService.activeVersion();
       const crossValidation = await crossValidateWithLocalDB(aiResponse, completePatientData);
-      ingestAdaptiveLearningSample(
-        completePatientData,
-        aiResponse.riskAssessment?.riskScore || 0,
-        'analysis-production-existing-patient',
-      );
 
       // Save treatment plan
       const treatmentPlan = await TreatmentPlan.create({
@@ -1175,13 +1438,14 @@ export const analyzePatient = async (req: Request, res: Response): Promise<void>
         riskScore: aiResponse.riskAssessment.riskScore,
         confidenceScore: aiResponse.riskAssessment.confidenceScore,
         status: 'pending',
+        knowledgeBaseVersion,
       }, { transaction });
+      await planRevisionService.recordBaseline(treatmentPlan.id, aiResponse, getAuditActor(req), transaction);
 
       // Create audit log
       await AuditLog.create({
         timestamp: new Date(),
-        userId: req.body.userId || 'system',
-        userName: req.body.userName || 'System',
+        ...getAuditActor(req),
         action: 'created',
         patientId: patient.id,
         treatmentPlanId: treatmentPlan.id,
@@ -1313,7 +1577,15 @@ export const approveTreatmentPlan = async (req: Request, res: Response): Promise
   try {
     const { patientId } = req.params;
     const id = patientId; // Using patientId from route, but treating it as plan ID for demo
-    const { userId, userName } = req.body;
+    const { userId, userName } = getAuditActor(req);
+    const { providerNPI, error: npiError } = getProviderNpi((req.body || {}) as ApproveTreatmentPlanBody);
+    if (npiError) {
+      res.status(400).json({
+        success: false,
+        message: npiError,
+      });
+      return;
+    }
 
     // DEMO MODE
     if (config.demoMode) {
@@ -1331,18 +1603,18 @@ export const approveTreatmentPlan = async (req: Request, res: Response): Promise
         return;
       }
 
+      const approval = { status: 'approved' as const, approvedBy: userName, approvedAt: new Date() };
+      // Archive the report as signed before the plan is marked approved
+      const report = await snapshotApprovalReport({ ...demoPlan, ...approval }, providerNPI);
+
       // Update the plan
-      const updatedPlan = demoStorage.updateTreatmentPlan(demoPlan.id, {
-        status: 'approved',
-        approvedBy: userName || 'Demo User',
-        approvedAt: new Date(),
-      });
+      const updatedPlan = demoStorage.updateTreatmentPlan(demoPlan.id, approval);
 
       // Create audit log
       demoStorage.createAuditLog({
         timestamp: new Date(),
-        userId: userId || 'demo-user',
-        userName: userName || 'Demo User',
+        userId,
+        userName,
         action: 'approved',
         patientId: demoPlan.patientId,
         treatmentPlanId: demoPlan.id,
@@ -1356,6 +1628,7 @@ export const approveTreatmentPlan = async (req: Request, res: Response): Promise
         success: true,
         message: 'Treatment plan approved (Demo Mode)',
         data: updatedPlan,
+        report: summarizeReportSnapshot(report),
         demoMode: true,
       });
       return;
@@ -1378,15 +1651,18 @@ export const approveTreatmentPlan = async (req: Request, res: Response): Promise
       // Update treatment plan
       await treatmentPlan.update({
         status: 'approved',
-        approvedBy: userName || 'Unknown',
+        approvedBy: userName,
         approvedAt: new Date(),
       }, { transaction });
 
+      // Stored in the same transaction: no approval without its archived report
+      const report = await snapshotApprovalReport(treatmentPlan, providerNPI, transaction);
+
       // Create audit log
       await AuditLog.create({
         timestamp: new Date(),
-        userId: userId || 'system',
-        userName: userName || 'System',
+        userId,
+        userName,
         action: 'approved',
         patientId: treatmentPlan.patientId,
         treatmentPlanId: treatmentPlan.id,
@@ -1402,6 +1678,7 @@ export const approveTreatmentPlan = async (req: Request, res: Response): Promise
         success: true,
         message: 'Treatment plan approved',
         data: treatmentPlan,
+        report: summarizeReportSnapshot(report),
       });
     } catch (dbError) {
       await rollbackIfActive(transaction);
@@ -1417,12 +1694,24 @@ export const approveTreatmentPlan = async (req: Request, res: Response): Promise
   }
 };
 
-// Modify treatment plan
+// Modify treatment plan. The modified plan is re-checked for safety and stored as a new immutable revision.
 export const modifyTreatmentPlan = async (req: Request, res: Response): Promise<void> => {
   try {
     const { patientId } = req.params;
     const id = patientId; // Using patientId from route, but treating it as plan ID for demo
-    const { userId, userName, modifications } = req.body;
+    const { userId, userName } = getAuditActor(req);
+    const body = (req.body || {}) as ModifyTreatmentPlanBody;
+    const errors = modifyRequestErrors(body);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid plan modifications',
+        errors,
+      });
+      return;
+    }
+    const reason = getModificationReason(body);
+    const overrideReason = getOverrideReason(body);
 
     // DEMO MODE
     if (config.demoMode) {
@@ -1440,23 +1729,54 @@ export const modifyTreatmentPlan = async (req: Request, res: Response): Promise<
         return;
       }
 
+      const patientData = loadDemoPatientData(demoPlan.patientId);
+      if (!patientData) {
+        res.status(400).json({
+          success: false,
+          message: 'Incomplete patient data (Demo Mode)',
+        });
+        return;
+      }
+
+      // Demo plans store the backend response shape, same as production
+      const currentData = demoPlan.treatmentData as TreatmentPlanResponse;
+      const nextData = buildModifiedTreatmentData(currentData, body);
+
+      // Re-run the safety pipeline before anything is stored
+      const safety = await reviewModifiedPlanSafety(nextData, patientData);
+      if (safety.criticalIssues.length > 0 && !overrideReason) {
+        sendSafetyBlock(res, safety);
+        return;
+      }
+      const safetyOverride = buildSafetyOverride(safety, overrideReason);
+
+      const revision = await planRevisionService.recordRevision(
+        { id: demoPlan.id, treatmentData: currentData },
+        nextData,
+        { userId, userName },
+        reason,
+      );
+
       // Update the plan
       const updatedPlan = demoStorage.updateTreatmentPlan(demoPlan.id, {
         status: 'modified',
-        modifications,
-        treatmentData: { ...demoPlan.treatmentData, ...modifications },
+        modifications: { revisionNumber: revision.revisionNumber, reason, diff: revision.diff, safetyOverride },
+        treatmentData: nextData,
+        overallRisk: safety.criticalIssues.length > 0 ? 'CRITICAL' : demoPlan.overallRisk,
+        knowledgeBaseVersion: safety.knowledgeBaseVersion,
       });
 
       // Create audit log
       demoStorage.createAuditLog({
         timestamp: new Date(),
-        userId: userId || 'demo-user',
-        userName: userName || 'Demo User',
+        userId,
+        userName,
         action: 'modified',
         patientId: demoPlan.patientId,
         treatmentPlanId: demoPlan.id,
         riskLevel: demoPlan.overallRisk,
-        changes: modifications,
+        changes: { revisionNumber: revision.revisionNumber, diff: revision.diff, safetyOverride },
+        reason: reason ?? undefined,
         ipAddress: req.ip,
         userAgent: req.headers['user-agent'] || undefined,
       });
@@ -1466,6 +1786,9 @@ export const modifyTreatmentPlan = async (req: Request, res: Response): Promise<
         success: true,
         message: 'Treatment plan modified (Demo Mode)',
         data: updatedPlan,
+        revision,
+        treatmentPlan: toModifiedFrontendResponse(nextData, safety),
+        safety: { flaggedIssues: safety.flaggedIssues, overridden: safetyOverride !== null },
         demoMode: true,
       });
       return;
@@ -1475,7 +1798,14 @@ export const modifyTreatmentPlan = async (req: Request, res: Response): Promise<
     const transaction = await sequelize.transaction();
 
     try {
-      const treatmentPlan = await TreatmentPlan.findByPk(id);
+      // Row lock keeps concurrent modifications from claiming the same revision number
+      const treatmentPlan = await TreatmentPlan.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE })
+        ?? await TreatmentPlan.findOne({
+          where: { patientId: id },
+          order: [['createdAt', 'DESC']],
+          transaction,
+          lock: transaction.LOCK.UPDATE,
+        });
 
       if (!treatmentPlan) {
         await transaction.rollback();
@@ -1486,30 +1816,55 @@ export const modifyTreatmentPlan = async (req: Request, res: Response): Promise<
         return;
       }
 
-      const oldData = treatmentPlan.treatmentData;
+      const patient = await Patient.findByPk(treatmentPlan.patientId, { transaction });
+      const patientData = patient ? await loadStoredPatientData(patient) : null;
+      if (!patientData) {
+        await transaction.rollback();
+        res.status(400).json({
+          success: false,
+          message: 'Incomplete patient data',
+        });
+        return;
+      }
+
+      const nextData = buildModifiedTreatmentData(treatmentPlan.treatmentData, body);
+
+      // Re-run the safety pipeline before anything is stored
+      const safety = await reviewModifiedPlanSafety(nextData, patientData);
+      if (safety.criticalIssues.length > 0 && !overrideReason) {
+        await transaction.rollback();
+        sendSafetyBlock(res, safety);
+        return;
+      }
+      const safetyOverride = buildSafetyOverride(safety, overrideReason);
+
+      const revision = await planRevisionService.recordRevision(
+        treatmentPlan,
+        nextData,
+        { userId, userName },
+        reason,
+        transaction,
+      );
 
       // Update treatment plan
       await treatmentPlan.update({
         status: 'modified',
-        modifications,
-        treatmentData: {
-          ...treatmentPlan.treatmentData,
-          ...modifications,
-        },
+        modifications: { revisionNumber: revision.revisionNumber, reason, diff: revision.diff, safetyOverride },
+        treatmentData: nextData,
+        overallRisk: safety.criticalIssues.length > 0 ? 'CRITICAL' : treatmentPlan.overallRisk,
+        knowledgeBaseVersion: safety.knowledgeBaseVersion,
       }, { transaction });
 
       // Create audit log with changes
       await AuditLog.create({
         timestamp: new Date(),
-        userId: userId || 'system',
-        userName: userName || 'System',
+        userId,
+        userName,
         action: 'modified',
         patientId: treatmentPlan.patientId,
         treatmentPlanId: treatmentPlan.id,
-        changes: {
-          before: oldData,
-          after: modifications,
-        },
+        changes: { revisionNumber: revision.revisionNumber, diff: revision.diff, safetyOverride },
+        reason,
         riskLevel: treatmentPlan.overallRisk,
         ipAddress: req.ip,
         userAgent: req.headers['user-agent'] || null,
@@ -1522,6 +1877,9 @@ export const modifyTreatmentPlan = async (req: Request, res: Response): Promise<
         success: true,
         message: 'Treatment plan modified',
         data: treatmentPlan,
+        revision,
+        treatmentPlan: toModifiedFrontendResponse(nextData, safety),
+        safety: { flaggedIssues: safety.flaggedIssues, overridden: safetyOverride !== null },
       });
     } catch (dbError) {
       await rollbackIfActive(transaction);
@@ -1537,12 +1895,399 @@ export const modifyTreatmentPlan = async (req: Request, res: Response): Promise<
   }
 };
 
+// Revision history of a treatment plan, oldest first
+export const getTreatmentPlanRevisions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const treatmentPlanId = await findTreatmentPlanId(req.params.id);
+    if (!treatmentPlanId) {
+      res.status(404).json({
+        success: false,
+        message: 'Treatment plan not found',
+      });
+      return;
+    }
+
+    const revisions = await planRevisionService.listRevisions(treatmentPlanId);
+    res.json({
+      success: true,
+      data: { treatmentPlanId, revisions },
+    });
+  } catch (error) {
+    logger.error('Get treatment plan revisions error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get treatment plan revisions',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Structured diff between two revisions of the same plan
+export const diffTreatmentPlanRevisions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const from = Number(req.params.a);
+    const to = Number(req.params.b);
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+      res.status(400).json({
+        success: false,
+        message: 'Revision numbers must be positive integers',
+      });
+      return;
+    }
+
+    const treatmentPlanId = await findTreatmentPlanId(req.params.id);
+    if (!treatmentPlanId) {
+      res.status(404).json({
+        success: false,
+        message: 'Treatment plan not found',
+      });
+      return;
+    }
+
+    const revisions = await planRevisionService.listRevisions(treatmentPlanId);
+    const fromRevision = revisions.find(r => r.revisionNumber === from);
+    const toRevision = revisions.find(r => r.revisionNumber === to);
+    if (!fromRevision || !toRevision) {
+      res.status(404).json({
+        success: false,
+        message: `Revision ${fromRevision ? to : from} not found for this treatment plan`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        treatmentPlanId,
+        from: summarizeRevision(fromRevision),
+        to: summarizeRevision(toRevision),
+        diff: diffTreatmentData(fromRevision.snapshot, toRevision.snapshot),
+      },
+    });
+  } catch (error) {
+    logger.error('Diff treatment plan revisions error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to diff treatment plan revisions',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Approved plan as a FHIR R4 transaction Bundle for the EHR
+export const exportTreatmentPlanFhir = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const treatmentPlanId = await findTreatmentPlanId(req.params.id);
+    const stored = treatmentPlanId
+      ? (config.demoMode ? demoStorage.getTreatmentPlan(treatmentPlanId) : await TreatmentPlan.findByPk(treatmentPlanId))
+      : null;
+    if (!treatmentPlanId || !stored) {
+      res.status(404).json({
+        success: false,
+        message: 'Treatment plan not found',
+      });
+      return;
+    }
+
+    if (stored.status !== 'approved') {
+      res.status(409).json({
+        success: false,
+        message: `Only approved treatment plans can be exported; this plan is ${stored.status}`,
+      });
+      return;
+    }
+
+    const plan = toExportablePlan(stored);
+    const auditEntries: PlanAuditEntry[] = config.demoMode
+      ? demoStorage.getAuditChain().filter(entry => entry.treatmentPlanId === treatmentPlanId)
+      : await AuditLog.findAll({ where: { treatmentPlanId }, order: [['sequence', 'ASC']] });
+
+    res.type('application/fhir+json').json(buildTreatmentPlanBundle(plan, auditEntries));
+  } catch (error) {
+    logger.error('FHIR export error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to export treatment plan',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Clinician report as PDF (default), JSON or HTML. An approved plan is served
+// from the snapshot archived when it was signed; anything else renders live.
+export const getTreatmentPlanReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const format = (typeof req.query.format === 'string' ? req.query.format : 'pdf') as ReportFormat;
+    if (!REPORT_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        message: `format must be one of ${REPORT_FORMATS.join(', ')}`,
+      });
+      return;
+    }
+
+    const treatmentPlanId = await findTreatmentPlanId(req.params.id);
+    const stored = treatmentPlanId
+      ? (config.demoMode ? demoStorage.getTreatmentPlan(treatmentPlanId) : await TreatmentPlan.findByPk(treatmentPlanId))
+      : null;
+    if (!treatmentPlanId || !stored) {
+      res.status(404).json({
+        success: false,
+        message: 'Treatment plan not found',
+      });
+      return;
+    }
+
+    const snapshot = stored.status === 'approved' ? await treatmentReportService.latestSnapshot(treatmentPlanId) : null;
+    let report: TreatmentPlanReport;
+    if (snapshot) {
+      report = snapshot.report;
+      res.set('X-Report-SHA256', snapshot.pdfSha256);
+    } else {
+      const patientData = await loadPlanPatientData(stored.patientId);
+      if (!patientData) {
+        res.status(400).json({
+          success: false,
+          message: 'Incomplete patient data',
+        });
+        return;
+      }
+      report = buildTreatmentPlanReport(toExportablePlan(stored), patientData);
+    }
+    res.set('X-Report-Id', report.reportId);
+    res.set('X-Report-Source', snapshot ? 'snapshot' : 'live');
+
+    if (format === 'json') {
+      res.json(report);
+    } else if (format === 'html') {
+      res.type('html').send(snapshot?.html ?? renderReportHtml(report));
+    } else {
+      res.type('application/pdf')
+        .attachment(`TreatmentPlan_${report.treatmentPlanId}_${report.generatedAt.slice(0, 10)}.pdf`)
+        .send(snapshot?.pdf ?? renderReportPdf(report));
+    }
+  } catch (error) {
+    logger.error('Treatment plan report error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate treatment plan report',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Plain-language handout for the patient of an approved plan, as PDF (default) or JSON
+export const generatePatientHandout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { options, errors } = normalizeHandoutRequest(req.body as PatientHandoutRequestBody);
+    if (!options) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid handout request',
+        errors,
+      });
+      return;
+    }
+
+    const treatmentPlanId = await findTreatmentPlanId(req.params.id);
+    const stored = treatmentPlanId
+      ? (config.demoMode ? demoStorage.getTreatmentPlan(treatmentPlanId) : await TreatmentPlan.findByPk(treatmentPlanId))
+      : null;
+    if (!treatmentPlanId || !stored) {
+      res.status(404).json({
+        success: false,
+        message: 'Treatment plan not found',
+      });
+      return;
+    }
+    if (stored.status !== 'approved') {
+      res.status(409).json({
+        success: false,
+        message: 'Patient handouts are only available for approved treatment plans',
+      });
+      return;
+    }
+
+    const patientData = await loadPlanPatientData(stored.patientId);
+    if (!patientData) {
+      res.status(400).json({
+        success: false,
+        message: 'Incomplete patient data',
+      });
+      return;
+    }
+
+    const handout = buildPatientHandout(toExportablePlan(stored), patientData, options);
+    res.set('X-Reading-Grade', String(handout.readingLevel.grade));
+    res.set('X-Reading-Target-Grade', String(handout.readingLevel.targetGrade));
+
+    if (options.format === 'json') {
+      res.json(handout);
+    } else {
+      res.type('application/pdf')
+        .attachment(`MedicineGuide_${handout.treatmentPlanId}_${handout.generatedAt.slice(0, 10)}.pdf`)
+        .send(renderHandoutPdf(handout, { largePrint: options.largePrint }));
+    }
+  } catch (error) {
+    logger.error('Patient handout error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate patient handout',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Outcomes recorded against a plan, most recent observation first
+export const getTreatmentOutcomes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const treatmentPlanId = await findTreatmentPlanId(req.params.id);
+    if (!treatmentPlanId) {
+      res.status(404).json({
+        success: false,
+        message: 'Treatment plan not found',
+      });
+      return;
+    }
+
+    const outcomes = await treatmentOutcomeService.list(treatmentPlanId);
+    res.json({
+      success: true,
+      data: { treatmentPlanId, outcomes },
+    });
+  } catch (error) {
+    logger.error('Get treatment outcomes error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get treatment outcomes',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Record what happened after an approved plan was started; the outcome becomes an adaptive learning label
+export const recordTreatmentOutcome = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const treatmentPlanId = await findTreatmentPlanId(req.params.id);
+    if (!treatmentPlanId) {
+      res.status(404).json({
+        success: false,
+        message: 'Treatment plan not found',
+      });
+      return;
+    }
+
+    const { outcome, errors } = normalizeTreatmentOutcome(req.body as RawTreatmentOutcomeInput);
+    if (!outcome) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid treatment outcome',
+        errors,
+      });
+      return;
+    }
+
+    const actor = getAuditActor(req);
+
+    // DEMO MODE
+    if (config.demoMode) {
+      const demoPlan = demoStorage.getTreatmentPlan(treatmentPlanId)!;
+      if (demoPlan.status !== 'approved') {
+        res.status(409).json({
+          success: false,
+          message: 'Outcomes can only be recorded for approved treatment plans',
+        });
+        return;
+      }
+
+      const record = await treatmentOutcomeService.record(demoPlan, outcome, actor);
+      demoStorage.createAuditLog({
+        timestamp: new Date(),
+        userId: actor.userId,
+        userName: actor.userName,
+        action: 'outcome_recorded',
+        patientId: demoPlan.patientId,
+        treatmentPlanId: demoPlan.id,
+        riskLevel: demoPlan.overallRisk,
+        changes: { outcomeId: record.id, riskLabel: record.riskLabel },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'] || undefined,
+      });
+
+      const patientData = loadDemoPatientData(demoPlan.patientId);
+      if (patientData) {
+        ingestAdaptiveLearningSample(patientData, record.riskLabel, 'treatment-outcome');
+      }
+
+      invalidateWriteCaches();
+      res.status(201).json({
+        success: true,
+        data: record,
+        demoMode: true,
+      });
+      return;
+    }
+
+    // PRODUCTION MODE
+    const treatmentPlan = await TreatmentPlan.findByPk(treatmentPlanId);
+    if (treatmentPlan?.status !== 'approved') {
+      res.status(409).json({
+        success: false,
+        message: 'Outcomes can only be recorded for approved treatment plans',
+      });
+      return;
+    }
+
+    const transaction = await sequelize.transaction();
+    let record: TreatmentOutcomeRecord;
+    try {
+      record = await treatmentOutcomeService.record(treatmentPlan, outcome, actor, transaction);
+      await AuditLog.create({
+        timestamp: new Date(),
+        userId: actor.userId,
+        userName: actor.userName,
+        action: 'outcome_recorded',
+        patientId: treatmentPlan.patientId,
+        treatmentPlanId: treatmentPlan.id,
+        riskLevel: treatmentPlan.overallRisk,
+        changes: { outcomeId: record.id, riskLabel: record.riskLabel },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'] || null,
+      }, { transaction });
+      await transaction.commit();
+    } catch (dbError) {
+      await rollbackIfActive(transaction);
+      throw dbError;
+    }
+
+    const patient = await Patient.findByPk(treatmentPlan.patientId);
+    const patientData = patient ? await loadStoredPatientData(patient) : null;
+    if (patientData) {
+      ingestAdaptiveLearningSample(patientData, record.riskLabel, 'treatment-outcome');
+    }
+
+    invalidateWriteCaches();
+    res.status(201).json({
+      success: true,
+      data: record,
+    });
+  } catch (error) {
+    logger.error('Record treatment outcome error', { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to record treatment outcome',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
 // Reject treatment plan
 export const rejectTreatmentPlan = async (req: Request, res: Response): Promise<void> => {
   try {
     const { patientId } = req.params;
     const id = patientId; // Using patientId from route, but treating it as plan ID for demo
-    const { userId, userName, reason } = req.body;
+    const { userId, userName } = getAuditActor(req);
+    const { reason } = req.body;
 
     // DEMO MODE
     if (config.demoMode) {
@@ -1569,8 +2314,8 @@ export const rejectTreatmentPlan = async (req: Request, res: Response): Promise<
       // Create audit log
       demoStorage.createAuditLog({
         timestamp: new Date(),
-        userId: userId || 'demo-user',
-        userName: userName || 'Demo User',
+        userId,
+        userName,
         action: 'rejected',
         patientId: demoPlan.patientId,
         treatmentPlanId: demoPlan.id,
@@ -1614,8 +2359,8 @@ export const rejectTreatmentPlan = async (req: Request, res: Response): Promise<
       // Create audit log
       await AuditLog.create({
         timestamp: new Date(),
-        userId: userId || 'system',
-        userName: userName || 'System',
+        userId,
+        userName,
         action: 'rejected',
         patientId: treatmentPlan.patientId,
         treatmentPlanId: treatmentPlan.id,
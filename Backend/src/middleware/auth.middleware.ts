@@ -0,0 +1,91 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import logger from '../config/logger';
+import { authService, AuthError } from '../services/auth.service';
+import { AuthenticatedUser, UserRole } from '../types';
+
+/**
+ * Extend Express Request with the identity resolved from the bearer token.
+ */
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+/**
+ * Pulls the bearer token from the `Authorization` header. EventSource cannot
+ * set headers, so GET requests may pass it as `?access_token=` instead.
+ */
+function extractToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || null;
+  }
+  if (req.method === 'GET' && typeof req.query.access_token === 'string') {
+    return req.query.access_token;
+  }
+  return null;
+}
+
+/**
+ * Verifies the access token and attaches `req.user`. Responds 401 when the
+ * token is missing, malformed, expired or of the wrong type.
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  const token = extractToken(req);
+  if (!token) {
+    res.status(401).json({ success: false, message: 'Authentication required' });
+    return;
+  }
+
+  try {
+    req.user = authService.verifyToken(token, 'access');
+    next();
+  } catch (error) {
+    const message = error instanceof AuthError ? error.message : 'Invalid token';
+    logger.warn('Rejected bearer token', { reason: message, path: req.originalUrl, correlationId: req.correlationId });
+    res.status(401).json({ success: false, message });
+  }
+}
+
+/**
+ * Middleware factory restricting a route to the given roles. Must run after
+ * `authenticate`; responds 403 when the caller's role is not listed.
+ */
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required' });
+      return;
+    }
+    if (!roles.includes(req.user.role)) {
+      logger.warn('Role check failed', {
+        userId: req.user.id,
+        role: req.user.role,
+        required: roles,
+        path: req.originalUrl,
+        correlationId: req.correlationId,
+      });
+      res.status(403).json({
+        success: false,
+        message: `This action requires one of the following roles: ${roles.join(', ')}`,
+      });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Identity to record on audit entries. Always taken from the verified token —
+ * never from the request body.
+ */
+export function getAuditActor(req: Request): { userId: string; userName: string } {
+  if (!req.user) {
+    return { userId: 'system', userName: 'System' };
+  }
+  return { userId: req.user.id, userName: req.user.fullName };
+}
@@ -0,0 +1,72 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+
+// AdaptiveSample Attributes
+interface AdaptiveSampleAttributes {
+  id: string;
+  inputs: number[];
+  output: number;
+  category: string;
+  source: string;
+  patientId: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface AdaptiveSampleCreationAttributes extends Optional<AdaptiveSampleAttributes, 'id' | 'patientId' | 'createdAt' | 'updatedAt'> {}
+
+// AdaptiveSample Model
+class AdaptiveSample extends Model<AdaptiveSampleAttributes, AdaptiveSampleCreationAttributes> implements AdaptiveSampleAttributes {
+  public id!: string;
+  public inputs!: number[];
+  public output!: number;
+  public category!: string;
+  public source!: string;
+  public patientId!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+AdaptiveSample.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    inputs: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    output: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: { min: 0, max: 100 },
+    },
+    category: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+    },
+    source: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    // Plain column rather than a foreign key: samples outlive deleted patients
+    patientId: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      field: 'patient_id',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'adaptive_samples',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      { fields: ['created_at'] },
+    ],
+  }
+);
+
+export { AdaptiveSample, AdaptiveSampleAttributes, AdaptiveSampleCreationAttributes };
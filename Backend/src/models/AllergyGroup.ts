@@ -0,0 +1,78 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+
+// AllergyGroup Attributes
+interface AllergyGroupAttributes {
+  id: string;
+  groupName: string;
+  primaryAllergens: string[];
+  crossReactiveDrugs: string[];
+  crossReactivityRate: string;
+  severity: 'high' | 'moderate' | 'low';
+  recommendation: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface AllergyGroupCreationAttributes extends Optional<AllergyGroupAttributes, 'id' | 'createdAt' | 'updatedAt'> {}
+
+// AllergyGroup Model
+class AllergyGroup extends Model<AllergyGroupAttributes, AllergyGroupCreationAttributes> implements AllergyGroupAttributes {
+  public id!: string;
+  public groupName!: string;
+  public primaryAllergens!: string[];
+  public crossReactiveDrugs!: string[];
+  public crossReactivityRate!: string;
+  public severity!: 'high' | 'moderate' | 'low';
+  public recommendation!: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+AllergyGroup.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    groupName: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      unique: true,
+      field: 'group_name',
+    },
+    primaryAllergens: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      field: 'primary_allergens',
+    },
+    crossReactiveDrugs: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+      field: 'cross_reactive_drugs',
+    },
+    crossReactivityRate: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      field: 'cross_reactivity_rate',
+    },
+    severity: {
+      type: DataTypes.ENUM('high', 'moderate', 'low'),
+      allowNull: false,
+    },
+    recommendation: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'allergy_groups',
+    timestamps: true,
+    underscored: true,
+  }
+);
+
+export { AllergyGroup, AllergyGroupAttributes, AllergyGroupCreationAttributes };
@@ -1,5 +1,6 @@
-import { DataTypes, Model, Optional } from 'sequelize';
+import { DataTypes, Model, Optional, Transaction } from 'sequelize';
 import { sequelize } from '../config/database';
+import { GENESIS_HASH, computeAuditEntryHash } from '../services/audit-chain.service';
 
 // AuditLog Attributes
 interface AuditLogAttributes {
@@ -7,7 +8,7 @@ interface AuditLogAttributes {
   timestamp: Date;
   userId: string;
   userName: string;
-  action: 'created' | 'approved' | 'modified' | 'rejected' | 'viewed';
+  action: 'created' | 'approved' | 'modified' | 'rejected' | 'viewed' | 'outcome_recorded';
   patientId: string;
   treatmentPlanId: string | null;
   changes: object | null;
@@ -15,11 +16,14 @@ interface AuditLogAttributes {
   riskLevel: string | null;
   ipAddress: string | null;
   userAgent: string | null;
+  sequence: number;
+  previousHash: string;
+  hash: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-interface AuditLogCreationAttributes extends Optional<AuditLogAttributes, 'id' | 'treatmentPlanId' | 'changes' | 'reason' | 'riskLevel' | 'ipAddress' | 'userAgent' | 'createdAt' | 'updatedAt'> {}
+interface AuditLogCreationAttributes extends Optional<AuditLogAttributes, 'id' | 'treatmentPlanId' | 'changes' | 'reason' | 'riskLevel' | 'ipAddress' | 'userAgent' | 'sequence' | 'previousHash' | 'hash' | 'createdAt' | 'updatedAt'> {}
 
 // AuditLog Model
 class AuditLog extends Model<AuditLogAttributes, AuditLogCreationAttributes> implements AuditLogAttributes {
@@ -27,7 +31,7 @@ class AuditLog extends Model<AuditLogAttributes, AuditLogCreationAttributes> imp
   public timestamp!: Date;
   public userId!: string;
   public userName!: string;
-  public action!: 'created' | 'approved' | 'modified' | 'rejected' | 'viewed';
+  public action!: 'created' | 'approved' | 'modified' | 'rejected' | 'viewed' | 'outcome_recorded';
   public patientId!: string;
   public treatmentPlanId!: string | null;
   public changes!: object | null;
@@ -35,6 +39,9 @@ class AuditLog extends Model<AuditLogAttributes, AuditLogCreationAttributes> imp
   public riskLevel!: string | null;
   public ipAddress!: string | null;
   public userAgent!: string | null;
+  public sequence!: number;
+  public previousHash!: string;
+  public hash!: string;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -62,7 +69,7 @@ AuditLog.init(
       field: 'user_name',
     },
     action: {
-      type: DataTypes.ENUM('created', 'approved', 'modified', 'rejected', 'viewed'),
+      type: DataTypes.ENUM('created', 'approved', 'modified', 'rejected', 'viewed', 'outcome_recorded'),
       allowNull: false,
     },
     patientId: {
@@ -98,6 +105,20 @@ AuditLog.init(
       allowNull: true,
       field: 'user_agent',
     },
+    sequence: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      unique: true,
+    },
+    previousHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      field: 'previous_hash',
+    },
+    hash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
   },
   {
     sequelize,
@@ -109,8 +130,50 @@ AuditLog.init(
       { fields: ['treatment_plan_id'] },
       { fields: ['timestamp'] },
       { fields: ['action'] },
+      { unique: true, fields: ['sequence'] },
     ],
   }
 );
 
+// ==================== HASH CHAIN ====================
+
+// Arbitrary constant identifying the audit chain's advisory lock
+const AUDIT_CHAIN_LOCK_KEY = 7_240_318;
+
+// Link each new entry to the current chain head. Runs before validation so
+// the NOT NULL chain columns are populated by the time they are checked.
+AuditLog.beforeValidate(async (log, validateOptions) => {
+  if (!log.isNewRecord) return;
+
+  // save() forwards its own options (including the transaction) to validation hooks
+  const options = validateOptions as typeof validateOptions & { transaction?: Transaction };
+  if (!options.transaction) {
+    throw new Error('Audit log entries must be created inside a transaction');
+  }
+
+  // Serialise writers so two entries can never claim the same predecessor
+  await sequelize.query('SELECT pg_advisory_xact_lock(:key)', {
+    replacements: { key: AUDIT_CHAIN_LOCK_KEY },
+    transaction: options.transaction,
+  });
+
+  const head = await AuditLog.findOne({
+    order: [['sequence', 'DESC']],
+    transaction: options.transaction,
+  });
+
+  log.sequence = (head?.sequence ?? 0) + 1;
+  log.previousHash = head?.hash ?? GENESIS_HASH;
+  log.hash = computeAuditEntryHash(log.get({ plain: true }), log.previousHash);
+});
+
+// Entries are append-only; any edit or delete through the ORM is refused
+const rejectMutation = (): never => {
+  throw new Error('Audit log entries are append-only');
+};
+AuditLog.beforeUpdate(rejectMutation);
+AuditLog.beforeDestroy(rejectMutation);
+AuditLog.beforeBulkUpdate(rejectMutation);
+AuditLog.beforeBulkDestroy(rejectMutation);
+
 export { AuditLog, AuditLogAttributes, AuditLogCreationAttributes };
@@ -6,23 +6,27 @@ interface ContraindicationAttributes {
   id: string;
   drug: string;
   condition: string;
-  type: 'absolute' | 'relative';
+  type: 'absolute' | 'relative' | 'pregnancy';
+  severity: 'critical' | 'high' | 'moderate';
   reason: string;
   alternatives: string[];
+  evidenceSource: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-interface ContraindicationCreationAttributes extends Optional<ContraindicationAttributes, 'id' | 'createdAt' | 'updatedAt'> {}
+interface ContraindicationCreationAttributes extends Optional<ContraindicationAttributes, 'id' | 'severity' | 'evidenceSource' | 'createdAt' | 'updatedAt'> {}
 
 // Contraindication Model
 class Contraindication extends Model<ContraindicationAttributes, ContraindicationCreationAttributes> implements ContraindicationAttributes {
   public id!: string;
   public drug!: string;
   public condition!: string;
-  public type!: 'absolute' | 'relative';
+  public type!: 'absolute' | 'relative' | 'pregnancy';
+  public severity!: 'critical' | 'high' | 'moderate';
   public reason!: string;
   public alternatives!: string[];
+  public evidenceSource!: string;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -43,9 +47,14 @@ Contraindication.init(
       allowNull: false,
     },
     type: {
-      type: DataTypes.ENUM('absolute', 'relative'),
+      type: DataTypes.ENUM('absolute', 'relative', 'pregnancy'),
       allowNull: false,
     },
+    severity: {
+      type: DataTypes.ENUM('critical', 'high', 'moderate'),
+      allowNull: false,
+      defaultValue: 'high',
+    },
     reason: {
       type: DataTypes.TEXT,
       allowNull: false,
@@ -55,6 +64,12 @@ Contraindication.init(
       allowNull: false,
       defaultValue: [],
     },
+    evidenceSource: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      defaultValue: '',
+      field: 'evidence_source',
+    },
   },
   {
     sequelize,
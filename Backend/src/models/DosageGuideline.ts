@@ -8,15 +8,18 @@ interface DosageGuidelineAttributes {
   indication: string;
   standardDose: string;
   maxDose: string;
-  renalAdjustment: object;
+  renalAdjustment: Record<string, string>;
   hepaticAdjustment: string;
   geriatricAdjustment: string;
   pediatricFormula: string | null;
+  pediatricNote: string | null;
+  monitoringParameters: string[];
+  blackBoxWarnings: string[];
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-interface DosageGuidelineCreationAttributes extends Optional<DosageGuidelineAttributes, 'id' | 'pediatricFormula' | 'createdAt' | 'updatedAt'> {}
+interface DosageGuidelineCreationAttributes extends Optional<DosageGuidelineAttributes, 'id' | 'pediatricFormula' | 'pediatricNote' | 'monitoringParameters' | 'blackBoxWarnings' | 'createdAt' | 'updatedAt'> {}
 
 // DosageGuideline Model
 class DosageGuideline extends Model<DosageGuidelineAttributes, DosageGuidelineCreationAttributes> implements DosageGuidelineAttributes {
@@ -25,10 +28,13 @@ class DosageGuideline extends Model<DosageGuidelineAttributes, DosageGuidelineCr
   public indication!: string;
   public standardDose!: string;
   public maxDose!: string;
-  public renalAdjustment!: object;
+  public renalAdjustment!: Record<string, string>;
   public hepaticAdjustment!: string;
   public geriatricAdjustment!: string;
   public pediatricFormula!: string | null;
+  public pediatricNote!: string | null;
+  public monitoringParameters!: string[];
+  public blackBoxWarnings!: string[];
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -79,6 +85,23 @@ DosageGuideline.init(
       allowNull: true,
       field: 'pediatric_formula',
     },
+    pediatricNote: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'pediatric_note',
+    },
+    monitoringParameters: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+      field: 'monitoring_parameters',
+    },
+    blackBoxWarnings: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+      field: 'black_box_warnings',
+    },
   },
   {
     sequelize,
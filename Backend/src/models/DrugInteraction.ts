@@ -10,12 +10,13 @@ interface DrugInteractionAttributes {
   effect: string;
   mechanism: string;
   management: string;
-  evidence: 'definitive' | 'probable' | 'theoretical';
+  evidence: 'definitive' | 'probable' | 'suspected' | 'theoretical';
+  clinicalSignificance: number;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-interface DrugInteractionCreationAttributes extends Optional<DrugInteractionAttributes, 'id' | 'createdAt' | 'updatedAt'> {}
+interface DrugInteractionCreationAttributes extends Optional<DrugInteractionAttributes, 'id' | 'clinicalSignificance' | 'createdAt' | 'updatedAt'> {}
 
 // DrugInteraction Model
 class DrugInteraction extends Model<DrugInteractionAttributes, DrugInteractionCreationAttributes> implements DrugInteractionAttributes {
@@ -26,7 +27,8 @@ class DrugInteraction extends Model<DrugInteractionAttributes, DrugInteractionCr
   public effect!: string;
   public mechanism!: string;
   public management!: string;
-  public evidence!: 'definitive' | 'probable' | 'theoretical';
+  public evidence!: 'definitive' | 'probable' | 'suspected' | 'theoretical';
+  public clinicalSignificance!: number;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -63,9 +65,20 @@ DrugInteraction.init(
       allowNull: false,
     },
     evidence: {
-      type: DataTypes.ENUM('definitive', 'probable', 'theoretical'),
+      type: DataTypes.ENUM('definitive', 'probable', 'suspected', 'theoretical'),
       allowNull: false,
     },
+    // 1-5, 5 = most significant
+    clinicalSignificance: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 3,
+      field: 'clinical_significance',
+      validate: {
+        min: 1,
+        max: 5,
+      },
+    },
   },
   {
     sequelize,
@@ -0,0 +1,88 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+import { Hl7MessageSource } from '../types';
+
+// Hl7DeadLetter Attributes
+interface Hl7DeadLetterAttributes {
+  id: string;
+  source: Hl7MessageSource;
+  fileName: string | null;
+  messageType: string | null;
+  controlId: string | null;
+  rawMessage: string;
+  error: string;
+  receivedAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface Hl7DeadLetterCreationAttributes extends Optional<Hl7DeadLetterAttributes, 'id' | 'fileName' | 'messageType' | 'controlId' | 'createdAt' | 'updatedAt'> {}
+
+// Hl7DeadLetter Model
+class Hl7DeadLetter extends Model<Hl7DeadLetterAttributes, Hl7DeadLetterCreationAttributes> implements Hl7DeadLetterAttributes {
+  public id!: string;
+  public source!: Hl7MessageSource;
+  public fileName!: string | null;
+  public messageType!: string | null;
+  public controlId!: string | null;
+  public rawMessage!: string;
+  public error!: string;
+  public receivedAt!: Date;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Hl7DeadLetter.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    source: {
+      type: DataTypes.ENUM('http', 'file'),
+      allowNull: false,
+    },
+    fileName: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'file_name',
+    },
+    messageType: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      field: 'message_type',
+    },
+    controlId: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      field: 'control_id',
+    },
+    // The message exactly as received, so it can be replayed once the cause is fixed
+    rawMessage: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      field: 'raw_message',
+    },
+    error: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    receivedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'received_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'hl7_dead_letters',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      { fields: ['received_at'] },
+    ],
+  }
+);
+
+export { Hl7DeadLetter, Hl7DeadLetterAttributes, Hl7DeadLetterCreationAttributes };
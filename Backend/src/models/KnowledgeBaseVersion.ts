@@ -0,0 +1,80 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+import { KnowledgeSnapshot } from '../types';
+
+// KnowledgeBaseVersion Attributes
+interface KnowledgeBaseVersionAttributes {
+  id: string;
+  version: string;
+  publishedBy: string;
+  packageVersion: string;
+  changeIds: string[];
+  snapshot: KnowledgeSnapshot;
+  active: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface KnowledgeBaseVersionCreationAttributes extends Optional<KnowledgeBaseVersionAttributes, 'id' | 'active' | 'createdAt' | 'updatedAt'> {}
+
+// KnowledgeBaseVersion Model
+class KnowledgeBaseVersion extends Model<KnowledgeBaseVersionAttributes, KnowledgeBaseVersionCreationAttributes> implements KnowledgeBaseVersionAttributes {
+  public id!: string;
+  public version!: string;
+  public publishedBy!: string;
+  public packageVersion!: string;
+  public changeIds!: string[];
+  public snapshot!: KnowledgeSnapshot;
+  public active!: boolean;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+KnowledgeBaseVersion.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    version: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      unique: true,
+    },
+    publishedBy: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'published_by',
+    },
+    packageVersion: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      field: 'package_version',
+    },
+    changeIds: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+      field: 'change_ids',
+    },
+    // Every row of the drug-database tables as published; a rollback restores it
+    snapshot: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'knowledge_base_versions',
+    timestamps: true,
+    underscored: true,
+  }
+);
+
+export { KnowledgeBaseVersion, KnowledgeBaseVersionAttributes, KnowledgeBaseVersionCreationAttributes };
@@ -0,0 +1,102 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+import { KnowledgeChangeStatus, KnowledgeEntry, KnowledgeEntryType } from '../types';
+
+// KnowledgeChange Attributes
+interface KnowledgeChangeAttributes {
+  id: string;
+  entryType: KnowledgeEntryType;
+  entry: KnowledgeEntry;
+  status: KnowledgeChangeStatus;
+  authorId: string;
+  authorName: string;
+  reviewerId: string | null;
+  reviewerName: string | null;
+  reviewedAt: Date | null;
+  publishedVersion: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface KnowledgeChangeCreationAttributes extends Optional<KnowledgeChangeAttributes, 'id' | 'status' | 'reviewerId' | 'reviewerName' | 'reviewedAt' | 'publishedVersion' | 'createdAt' | 'updatedAt'> {}
+
+// KnowledgeChange Model
+class KnowledgeChange extends Model<KnowledgeChangeAttributes, KnowledgeChangeCreationAttributes> implements KnowledgeChangeAttributes {
+  public id!: string;
+  public entryType!: KnowledgeEntryType;
+  public entry!: KnowledgeEntry;
+  public status!: KnowledgeChangeStatus;
+  public authorId!: string;
+  public authorName!: string;
+  public reviewerId!: string | null;
+  public reviewerName!: string | null;
+  public reviewedAt!: Date | null;
+  public publishedVersion!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+KnowledgeChange.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    entryType: {
+      type: DataTypes.ENUM('interaction', 'contraindication', 'dosage_guideline', 'allergy_group'),
+      allowNull: false,
+      field: 'entry_type',
+    },
+    entry: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('draft', 'reviewed', 'published'),
+      allowNull: false,
+      defaultValue: 'draft',
+    },
+    authorId: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'author_id',
+    },
+    authorName: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'author_name',
+    },
+    reviewerId: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'reviewer_id',
+    },
+    reviewerName: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'reviewer_name',
+    },
+    reviewedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'reviewed_at',
+    },
+    publishedVersion: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      field: 'published_version',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'knowledge_changes',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      { fields: ['status'] },
+    ],
+  }
+);
+
+export { KnowledgeChange, KnowledgeChangeAttributes, KnowledgeChangeCreationAttributes };
@@ -0,0 +1,90 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+
+// LabResult Attributes
+interface LabResultAttributes {
+  id: string;
+  patientId: string;
+  testCode: string;
+  value: number;
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  collectedAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface LabResultCreationAttributes extends Optional<LabResultAttributes, 'id' | 'referenceLow' | 'referenceHigh' | 'createdAt' | 'updatedAt'> {}
+
+// LabResult Model
+class LabResult extends Model<LabResultAttributes, LabResultCreationAttributes> implements LabResultAttributes {
+  public id!: string;
+  public patientId!: string;
+  public testCode!: string;
+  public value!: number;
+  public unit!: string;
+  public referenceLow!: number | null;
+  public referenceHigh!: number | null;
+  public collectedAt!: Date;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+LabResult.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    patientId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      field: 'patient_id',
+      references: {
+        model: 'patients',
+        key: 'id',
+      },
+    },
+    testCode: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      field: 'test_code',
+    },
+    value: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+    },
+    unit: {
+      type: DataTypes.STRING(30),
+      allowNull: false,
+    },
+    referenceLow: {
+      type: DataTypes.FLOAT,
+      allowNull: true,
+      field: 'reference_low',
+    },
+    referenceHigh: {
+      type: DataTypes.FLOAT,
+      allowNull: true,
+      field: 'reference_high',
+    },
+    collectedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'collected_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'lab_results',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      { fields: ['patient_id', 'test_code', 'collected_at'] },
+    ],
+  }
+);
+
+export { LabResult, LabResultAttributes, LabResultCreationAttributes };
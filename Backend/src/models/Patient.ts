@@ -1,4 +1,5 @@
 import { DataTypes, Model, Optional } from 'sequelize';
+import { PharmacogenomicProfile } from '@treatment-plan/clinical-knowledge';
 import { sequelize } from '../config/database';
 
 // Patient Attributes
@@ -13,11 +14,16 @@ interface PatientAttributes {
   diastolicBp: number;
   heartRate: number;
   temperature: number;
+  pregnant: boolean;
+  trimester: number | null;
+  lactating: boolean;
+  pharmacogenomics: PharmacogenomicProfile | null;
+  externalId: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-interface PatientCreationAttributes extends Optional<PatientAttributes, 'id' | 'createdAt' | 'updatedAt'> {}
+interface PatientCreationAttributes extends Optional<PatientAttributes, 'id' | 'pregnant' | 'trimester' | 'lactating' | 'pharmacogenomics' | 'externalId' | 'createdAt' | 'updatedAt'> {}
 
 // Patient Model
 class Patient extends Model<PatientAttributes, PatientCreationAttributes> implements PatientAttributes {
@@ -31,6 +37,11 @@ class Patient extends Model<PatientAttributes, PatientCreationAttributes> implem
   public diastolicBp!: number;
   public heartRate!: number;
   public temperature!: number;
+  public pregnant!: boolean;
+  public trimester!: number | null;
+  public lactating!: boolean;
+  public pharmacogenomics!: PharmacogenomicProfile | null;
+  public externalId!: string | null;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -92,6 +103,37 @@ Patient.init(
       type: DataTypes.FLOAT,
       allowNull: false,
     },
+    pregnant: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    // Null when not pregnant or the trimester is unknown
+    trimester: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 1,
+        max: 3,
+      },
+    },
+    lactating: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    // Genotype-derived phenotypes; null when the patient has not been tested
+    pharmacogenomics: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    // Identifier in the sending system (HL7 PID-3), used to match later messages
+    externalId: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      unique: true,
+      field: 'external_id',
+    },
   },
   {
     sequelize,
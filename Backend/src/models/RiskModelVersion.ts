@@ -0,0 +1,77 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+
+// RiskModelVersion Attributes
+interface RiskModelVersionAttributes {
+  id: string;
+  version: string;
+  sampleCount: number;
+  metrics: object;
+  artifact: object;
+  trainedBy: string;
+  pinned: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface RiskModelVersionCreationAttributes extends Optional<RiskModelVersionAttributes, 'id' | 'pinned' | 'createdAt' | 'updatedAt'> {}
+
+// RiskModelVersion Model
+class RiskModelVersion extends Model<RiskModelVersionAttributes, RiskModelVersionCreationAttributes> implements RiskModelVersionAttributes {
+  public id!: string;
+  public version!: string;
+  public sampleCount!: number;
+  public metrics!: object;
+  public artifact!: object;
+  public trainedBy!: string;
+  public pinned!: boolean;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+RiskModelVersion.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    version: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      unique: true,
+    },
+    sampleCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'sample_count',
+    },
+    metrics: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    // Layer shapes, feature ranges and weights, loadable by the frontend model
+    artifact: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    trainedBy: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      field: 'trained_by',
+    },
+    pinned: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'risk_model_versions',
+    timestamps: true,
+    underscored: true,
+  }
+);
+
+export { RiskModelVersion, RiskModelVersionAttributes, RiskModelVersionCreationAttributes };
@@ -0,0 +1,145 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+import { AdverseEventSeverity, DiscontinuationReason, OutcomeEfficacy } from '../types';
+
+// TreatmentOutcome Attributes
+interface TreatmentOutcomeAttributes {
+  id: string;
+  treatmentPlanId: string;
+  patientId: string;
+  efficacy: OutcomeEfficacy;
+  adverseEventSeverity: AdverseEventSeverity | null;
+  adverseEventDescription: string | null;
+  discontinued: boolean;
+  discontinuationReason: DiscontinuationReason | null;
+  hospitalized: boolean;
+  observedAt: Date;
+  notes: string | null;
+  riskLabel: number;
+  recordedById: string;
+  recordedByName: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface TreatmentOutcomeCreationAttributes extends Optional<
+  TreatmentOutcomeAttributes,
+  'id' | 'adverseEventSeverity' | 'adverseEventDescription' | 'discontinuationReason' | 'notes' | 'createdAt' | 'updatedAt'
+> {}
+
+// TreatmentOutcome Model
+class TreatmentOutcome extends Model<TreatmentOutcomeAttributes, TreatmentOutcomeCreationAttributes> implements TreatmentOutcomeAttributes {
+  public id!: string;
+  public treatmentPlanId!: string;
+  public patientId!: string;
+  public efficacy!: OutcomeEfficacy;
+  public adverseEventSeverity!: AdverseEventSeverity | null;
+  public adverseEventDescription!: string | null;
+  public discontinued!: boolean;
+  public discontinuationReason!: DiscontinuationReason | null;
+  public hospitalized!: boolean;
+  public observedAt!: Date;
+  public notes!: string | null;
+  public riskLabel!: number;
+  public recordedById!: string;
+  public recordedByName!: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+TreatmentOutcome.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    treatmentPlanId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      field: 'treatment_plan_id',
+      references: {
+        model: 'treatment_plans',
+        key: 'id',
+      },
+    },
+    patientId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      field: 'patient_id',
+      references: {
+        model: 'patients',
+        key: 'id',
+      },
+    },
+    efficacy: {
+      type: DataTypes.ENUM('effective', 'partially_effective', 'ineffective'),
+      allowNull: false,
+    },
+    adverseEventSeverity: {
+      type: DataTypes.ENUM('mild', 'moderate', 'severe', 'life_threatening'),
+      allowNull: true,
+      field: 'adverse_event_severity',
+    },
+    adverseEventDescription: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'adverse_event_description',
+    },
+    discontinued: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    discontinuationReason: {
+      type: DataTypes.ENUM('adverse_event', 'ineffective', 'patient_choice', 'cost', 'completed', 'other'),
+      allowNull: true,
+      field: 'discontinuation_reason',
+    },
+    hospitalized: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    observedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'observed_at',
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    riskLabel: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'risk_label',
+      validate: {
+        min: 0,
+        max: 100,
+      },
+    },
+    recordedById: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'recorded_by_id',
+    },
+    recordedByName: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'recorded_by_name',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'treatment_outcomes',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      { fields: ['treatment_plan_id', 'observed_at'] },
+      { fields: ['patient_id'] },
+    ],
+  }
+);
+
+export { TreatmentOutcome, TreatmentOutcomeAttributes, TreatmentOutcomeCreationAttributes };
@@ -15,11 +15,12 @@ interface TreatmentPlanAttributes {
   approvedAt: Date | null;
   rejectionReason: string | null;
   modifications: object | null;
+  knowledgeBaseVersion: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-interface TreatmentPlanCreationAttributes extends Optional<TreatmentPlanAttributes, 'id' | 'status' | 'approvedBy' | 'approvedAt' | 'rejectionReason' | 'modifications' | 'createdAt' | 'updatedAt'> {}
+interface TreatmentPlanCreationAttributes extends Optional<TreatmentPlanAttributes, 'id' | 'status' | 'approvedBy' | 'approvedAt' | 'rejectionReason' | 'modifications' | 'knowledgeBaseVersion' | 'createdAt' | 'updatedAt'> {}
 
 // TreatmentPlan Model
 class TreatmentPlan extends Model<TreatmentPlanAttributes, TreatmentPlanCreationAttributes> implements TreatmentPlanAttributes {
@@ -34,6 +35,7 @@ class TreatmentPlan extends Model<TreatmentPlanAttributes, TreatmentPlanCreation
   public approvedAt!: Date | null;
   public rejectionReason!: string | null;
   public modifications!: object | null;
+  public knowledgeBaseVersion!: string | null;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -106,6 +108,12 @@ TreatmentPlan.init(
       type: DataTypes.JSONB,
       allowNull: true,
     },
+    // Published drug-database version the plan was last safety-checked against
+    knowledgeBaseVersion: {
+      type: DataTypes.STRING(40),
+      allowNull: true,
+      field: 'knowledge_base_version',
+    },
   },
   {
     sequelize,
@@ -0,0 +1,84 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+import { TreatmentPlanReport } from '../types';
+
+// TreatmentPlanReportSnapshot Attributes
+interface TreatmentPlanReportSnapshotAttributes {
+  id: string;
+  treatmentPlanId: string;
+  report: TreatmentPlanReport;
+  html: string;
+  pdf: Buffer;
+  pdfSha256: string;
+  createdAt?: Date;
+}
+
+interface TreatmentPlanReportSnapshotCreationAttributes extends Optional<TreatmentPlanReportSnapshotAttributes, 'id' | 'createdAt'> {}
+
+// TreatmentPlanReportSnapshot Model
+class TreatmentPlanReportSnapshot extends Model<TreatmentPlanReportSnapshotAttributes, TreatmentPlanReportSnapshotCreationAttributes> implements TreatmentPlanReportSnapshotAttributes {
+  public id!: string;
+  public treatmentPlanId!: string;
+  public report!: TreatmentPlanReport;
+  public html!: string;
+  public pdf!: Buffer;
+  public pdfSha256!: string;
+  public readonly createdAt!: Date;
+}
+
+TreatmentPlanReportSnapshot.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    treatmentPlanId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      field: 'treatment_plan_id',
+      references: {
+        model: 'treatment_plans',
+        key: 'id',
+      },
+    },
+    report: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    html: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    pdf: {
+      type: DataTypes.BLOB,
+      allowNull: false,
+    },
+    pdfSha256: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      field: 'pdf_sha256',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'treatment_plan_report_snapshots',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      { fields: ['treatment_plan_id', 'created_at'] },
+    ],
+  }
+);
+
+// Snapshots are retained as signed; a re-approval stores a new one
+const rejectMutation = (): never => {
+  throw new Error('Treatment plan report snapshots are immutable');
+};
+TreatmentPlanReportSnapshot.beforeUpdate(rejectMutation);
+TreatmentPlanReportSnapshot.beforeDestroy(rejectMutation);
+TreatmentPlanReportSnapshot.beforeBulkUpdate(rejectMutation);
+TreatmentPlanReportSnapshot.beforeBulkDestroy(rejectMutation);
+
+export { TreatmentPlanReportSnapshot, TreatmentPlanReportSnapshotAttributes, TreatmentPlanReportSnapshotCreationAttributes };
@@ -0,0 +1,101 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+import { TreatmentPlanDiff, TreatmentPlanResponse } from '../types';
+
+// TreatmentPlanRevision Attributes
+interface TreatmentPlanRevisionAttributes {
+  id: string;
+  treatmentPlanId: string;
+  revisionNumber: number;
+  authorId: string;
+  authorName: string;
+  reason: string | null;
+  snapshot: TreatmentPlanResponse;
+  diff: TreatmentPlanDiff | null;
+  createdAt?: Date;
+}
+
+interface TreatmentPlanRevisionCreationAttributes extends Optional<TreatmentPlanRevisionAttributes, 'id' | 'reason' | 'diff' | 'createdAt'> {}
+
+// TreatmentPlanRevision Model
+class TreatmentPlanRevision extends Model<TreatmentPlanRevisionAttributes, TreatmentPlanRevisionCreationAttributes> implements TreatmentPlanRevisionAttributes {
+  public id!: string;
+  public treatmentPlanId!: string;
+  public revisionNumber!: number;
+  public authorId!: string;
+  public authorName!: string;
+  public reason!: string | null;
+  public snapshot!: TreatmentPlanResponse;
+  public diff!: TreatmentPlanDiff | null;
+  public readonly createdAt!: Date;
+}
+
+TreatmentPlanRevision.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    treatmentPlanId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      field: 'treatment_plan_id',
+      references: {
+        model: 'treatment_plans',
+        key: 'id',
+      },
+    },
+    revisionNumber: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'revision_number',
+      validate: {
+        min: 1,
+      },
+    },
+    authorId: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'author_id',
+    },
+    authorName: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'author_name',
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    snapshot: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    diff: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'treatment_plan_revisions',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      { unique: true, fields: ['treatment_plan_id', 'revision_number'] },
+    ],
+  }
+);
+
+// Revisions are immutable; a correction is recorded as a new revision
+const rejectMutation = (): never => {
+  throw new Error('Treatment plan revisions are immutable');
+};
+TreatmentPlanRevision.beforeUpdate(rejectMutation);
+TreatmentPlanRevision.beforeDestroy(rejectMutation);
+TreatmentPlanRevision.beforeBulkUpdate(rejectMutation);
+TreatmentPlanRevision.beforeBulkDestroy(rejectMutation);
+
+export { TreatmentPlanRevision, TreatmentPlanRevisionAttributes, TreatmentPlanRevisionCreationAttributes };
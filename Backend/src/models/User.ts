@@ -0,0 +1,82 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+import { UserRole, USER_ROLES } from '../types';
+
+// User Attributes
+interface UserAttributes {
+  id: string;
+  username: string;
+  passwordHash: string;
+  fullName: string;
+  role: UserRole;
+  active: boolean;
+  lastLoginAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface UserCreationAttributes extends Optional<UserAttributes, 'id' | 'active' | 'lastLoginAt' | 'createdAt' | 'updatedAt'> {}
+
+// User Model
+class User extends Model<UserAttributes, UserCreationAttributes> implements UserAttributes {
+  public id!: string;
+  public username!: string;
+  public passwordHash!: string;
+  public fullName!: string;
+  public role!: UserRole;
+  public active!: boolean;
+  public lastLoginAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+User.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    username: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true,
+    },
+    passwordHash: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'password_hash',
+    },
+    fullName: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'full_name',
+    },
+    role: {
+      type: DataTypes.ENUM(...USER_ROLES),
+      allowNull: false,
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    lastLoginAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'last_login_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'users',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      { unique: true, fields: ['username'] },
+      { fields: ['role'] },
+    ],
+  }
+);
+
+export { User, UserAttributes, UserCreationAttributes };
@@ -2,11 +2,22 @@ import { Patient } from './Patient';
 import { MedicalHistory } from './MedicalHistory';
 import { CurrentMedication } from './CurrentMedication';
 import { LifestyleFactors } from './LifestyleFactors';
+import { LabResult } from './LabResult';
 import { TreatmentPlan } from './TreatmentPlan';
+import { TreatmentPlanRevision } from './TreatmentPlanRevision';
+import { TreatmentPlanReportSnapshot } from './TreatmentPlanReportSnapshot';
+import { TreatmentOutcome } from './TreatmentOutcome';
 import { AuditLog } from './AuditLog';
 import { DrugInteraction } from './DrugInteraction';
 import { Contraindication } from './Contraindication';
 import { DosageGuideline } from './DosageGuideline';
+import { AllergyGroup } from './AllergyGroup';
+import { User } from './User';
+import { AdaptiveSample } from './AdaptiveSample';
+import { RiskModelVersion } from './RiskModelVersion';
+import { KnowledgeChange } from './KnowledgeChange';
+import { KnowledgeBaseVersion } from './KnowledgeBaseVersion';
+import { Hl7DeadLetter } from './Hl7DeadLetter';
 
 // Define associations
 Patient.hasOne(MedicalHistory, { foreignKey: 'patientId', as: 'medicalHistory' });
@@ -18,17 +29,40 @@ CurrentMedication.belongsTo(Patient, { foreignKey: 'patientId', as: 'patient' })
 Patient.hasOne(LifestyleFactors, { foreignKey: 'patientId', as: 'lifestyleFactors' });
 LifestyleFactors.belongsTo(Patient, { foreignKey: 'patientId', as: 'patient' });
 
+Patient.hasMany(LabResult, { foreignKey: 'patientId', as: 'labResults' });
+LabResult.belongsTo(Patient, { foreignKey: 'patientId', as: 'patient' });
+
 Patient.hasMany(TreatmentPlan, { foreignKey: 'patientId', as: 'treatmentPlans' });
 TreatmentPlan.belongsTo(Patient, { foreignKey: 'patientId', as: 'patient' });
 
+TreatmentPlan.hasMany(TreatmentPlanRevision, { foreignKey: 'treatmentPlanId', as: 'revisions' });
+TreatmentPlanRevision.belongsTo(TreatmentPlan, { foreignKey: 'treatmentPlanId', as: 'treatmentPlan' });
+
+TreatmentPlan.hasMany(TreatmentPlanReportSnapshot, { foreignKey: 'treatmentPlanId', as: 'reportSnapshots' });
+TreatmentPlanReportSnapshot.belongsTo(TreatmentPlan, { foreignKey: 'treatmentPlanId', as: 'treatmentPlan' });
+
+TreatmentPlan.hasMany(TreatmentOutcome, { foreignKey: 'treatmentPlanId', as: 'outcomes' });
+TreatmentOutcome.belongsTo(TreatmentPlan, { foreignKey: 'treatmentPlanId', as: 'treatmentPlan' });
+
 export {
   Patient,
   MedicalHistory,
   CurrentMedication,
   LifestyleFactors,
+  LabResult,
   TreatmentPlan,
+  TreatmentPlanRevision,
+  TreatmentPlanReportSnapshot,
+  TreatmentOutcome,
   AuditLog,
   DrugInteraction,
   Contraindication,
   DosageGuideline,
+  AllergyGroup,
+  User,
+  AdaptiveSample,
+  RiskModelVersion,
+  KnowledgeChange,
+  KnowledgeBaseVersion,
+  Hl7DeadLetter,
 };
@@ -0,0 +1,62 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { v1Router } from '../index';
+import { authService } from '../../services/auth.service';
+import { UserRole } from '../../types';
+
+const tokenFor = (role: UserRole) =>
+  authService.issueTokens({ id: `user-${role}`, username: role, fullName: `Test ${role}`, role }).accessToken;
+
+describe('v1 role guards', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/v1', v1Router);
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  const call = async (method: string, route: string, role?: UserRole) => {
+    const response = await fetch(`${baseUrl}${route}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...(role && { Authorization: `Bearer ${tokenFor(role)}` }) },
+      body: method === 'GET' ? undefined : '{}',
+    });
+    return { status: response.status, body: await response.json() as { success: boolean; message: string } };
+  };
+
+  it('answers 401 without a token or with a bad one', async () => {
+    expect(await call('GET', '/patients')).toEqual({ status: 401, body: { success: false, message: 'Authentication required' } });
+
+    const forged = await fetch(`${baseUrl}/patients`, { headers: { Authorization: 'Bearer not-a-token' } });
+    expect(forged.status).toBe(401);
+  });
+
+  it('keeps nurses from approving plans', async () => {
+    expect(await call('POST', '/treatment-plans/plan-1/approve', 'nurse')).toEqual({
+      status: 403,
+      body: { success: false, message: 'This action requires one of the following roles: physician, admin' },
+    });
+  });
+
+  it('keeps non-admins from dead letters and knowledge base publishing', async () => {
+    for (const role of ['physician', 'pharmacist', 'nurse'] as UserRole[]) {
+      expect((await call('GET', '/hl7/dead-letters', role)).status).toBe(403);
+      expect((await call('POST', '/drug-database/knowledge-base/publish', role)).status).toBe(403);
+    }
+  });
+
+  it('lets an allowed role through to the route', async () => {
+    expect(await call('GET', '/hl7/dead-letters', 'admin')).toMatchObject({ status: 200, body: { success: true } });
+  });
+});
@@ -3,12 +3,14 @@ import {
   getPatientAuditLogs,
   getTreatmentPlanAuditLogs,
   getAllAuditLogs,
+  verifyAuditLogChain,
 } from '../controllers/audit.controller';
 
 const router = Router();
 
 // Audit log routes
 router.get('/', getAllAuditLogs);
+router.get('/verify', verifyAuditLogChain);
 router.get('/patient/:patientId', getPatientAuditLogs);
 router.get('/treatment-plan/:treatmentPlanId', getTreatmentPlanAuditLogs);
 
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { login, refresh, getCurrentUser } from '../controllers/auth.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Public — these issue the tokens every other /api/v1 route requires
+router.post('/login', login);
+router.post('/refresh', refresh);
+
+router.get('/me', authenticate, getCurrentUser);
+
+export default router;
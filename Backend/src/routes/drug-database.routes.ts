@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import {
   getDrugInteractions,
   checkDrugInteraction,
@@ -11,6 +11,14 @@ import {
   checkMultiDrugInteractions,
   checkAllergyCrossReactivity,
   getKnowledgeBaseStats,
+  listKnowledgeChanges,
+  reviewKnowledgeChange,
+  publishKnowledgeBase,
+  listKnowledgeBaseVersions,
+  getKnowledgeBaseVersion,
+  rollbackKnowledgeBase,
+  exportKnowledgeBase,
+  importKnowledgeBase,
 } from '../controllers/drug-database.controller';
 import { cacheResponse } from '../middleware/cache.middleware';
 
@@ -31,6 +39,18 @@ router.post('/contraindications', createContraindication);
 router.get('/dosage-guidelines', cacheResponse({ ttlMs: 30000, tags: ['drug-db'] }), getDosageGuidelines);
 router.post('/dosage-guidelines', createDosageGuideline);
 
+// Knowledge-base authoring: draft -> reviewed -> published, with versioned rollback
+router.get('/knowledge-base/changes', listKnowledgeChanges);
+router.post('/knowledge-base/changes/:id/review', reviewKnowledgeChange);
+router.post('/knowledge-base/publish', publishKnowledgeBase);
+router.get('/knowledge-base/versions', listKnowledgeBaseVersions);
+router.get('/knowledge-base/versions/:version', getKnowledgeBaseVersion);
+router.post('/knowledge-base/rollback', rollbackKnowledgeBase);
+
+// Bulk import/export (JSON, or CSV per dataset); imports become drafts
+router.get('/export', exportKnowledgeBase);
+router.post('/import', express.text({ type: 'text/csv', limit: '10mb' }), importKnowledgeBase);
+
 // Real-time drug lookup (OpenFDA/RxNorm/DailyMed)
 router.get('/lookup/:drugName', cacheResponse({ ttlMs: 120000, tags: ['drug-db', 'drug-lookup'] }), lookupDrug);
 
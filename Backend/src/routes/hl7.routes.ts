@@ -0,0 +1,24 @@
+import express, { Router } from 'express';
+import {
+  receiveHl7Messages,
+  listHl7DeadLetters,
+  replayHl7DeadLetter,
+  deleteHl7DeadLetter,
+} from '../controllers/hl7.controller';
+
+const router = Router();
+
+// ER7 messages are plain text; the JSON body parser leaves them alone
+const hl7Body = express.text({
+  limit: '5mb',
+  type: ['x-application/hl7-v2+er7', 'application/hl7-v2', 'text/plain'],
+});
+
+router.post('/messages', hl7Body, receiveHl7Messages);
+
+// Messages that were not accepted
+router.get('/dead-letters', listHl7DeadLetters);
+router.post('/dead-letters/:id/replay', replayHl7DeadLetter);
+router.delete('/dead-letters/:id', deleteHl7DeadLetter);
+
+export default router;
@@ -7,6 +7,11 @@ import auditRoutes from './audit.routes';
 import drugDatabaseRoutes from './drug-database.routes';
 import realtimeRoutes from './realtime.routes';
 import mlRoutes from './ml.routes';
+import authRoutes from './auth.routes';
+import hl7Routes from './hl7.routes';
+import { authenticate, requireRole } from '../middleware/auth.middleware';
+import { UserRole } from '../types';
+import { getLlmProvider } from '../services/openai.service';
 
 const startTime = Date.now();
 
@@ -43,6 +48,7 @@ infrastructureRouter.get('/health', (_req, res) => {
     version: '1.0.0',
     node: process.version,
     openaiConfigured: Boolean(config.openai.apiKey && config.openai.apiKey !== 'your_openai_api_key_here'),
+    llmProvider: getLlmProvider()?.name ?? 'rule-based',
     serverStartedAt: new Date(startTime).toISOString(),
   });
 });
@@ -72,6 +78,64 @@ v1Router.use((req, res, next) => {
 });
 v1Router.use(versionHeaders);
 
+// Authentication endpoints are the only public part of v1
+v1Router.use('/auth', authRoutes);
+
+// Everything below requires a valid access token
+v1Router.use(authenticate);
+
+// ---------------------------------------------------------------------------
+// Role-based access control
+//
+// Guards are registered ahead of the domain routers, so a request must pass
+// the matching guard before it ever reaches a controller.
+// ---------------------------------------------------------------------------
+const ALL_STAFF: UserRole[] = ['physician', 'pharmacist', 'nurse', 'admin'];
+const PRESCRIBERS: UserRole[] = ['physician', 'admin'];
+const MEDICATION_REVIEWERS: UserRole[] = ['physician', 'pharmacist', 'admin'];
+const ADMINS: UserRole[] = ['admin'];
+
+// Patients — nurses handle intake; only admins may delete records
+v1Router.get('/patients*', requireRole(...ALL_STAFF));
+v1Router.post(['/patients', '/patients/import/fhir', '/patients/:id/labs'], requireRole(...ALL_STAFF));
+v1Router.delete('/patients/:id', requireRole(...ADMINS));
+
+// Treatment plans — pharmacists may propose modifications, only prescribers sign off
+v1Router.get('/treatment-plans*', requireRole(...ALL_STAFF));
+v1Router.post(['/treatment-plans/analyze', '/treatment-plans/analyze/:patientId'], requireRole(...PRESCRIBERS));
+v1Router.post('/treatment-plans/:patientId/approve', requireRole(...PRESCRIBERS));
+v1Router.post('/treatment-plans/:patientId/reject', requireRole(...PRESCRIBERS));
+v1Router.post('/treatment-plans/:patientId/modify', requireRole(...MEDICATION_REVIEWERS));
+// Any clinician seeing the patient at follow-up can report what happened
+v1Router.post('/treatment-plans/:id/outcomes', requireRole(...ALL_STAFF));
+// Nurses and pharmacists hand the patient their copy at discharge or pickup
+v1Router.post('/treatment-plans/:id/handout', requireRole(...ALL_STAFF));
+
+// Audit trail — reviewers only
+v1Router.use('/audit-logs', requireRole(...MEDICATION_REVIEWERS));
+
+// Drug database — everyone can look up, pharmacists and admins curate
+v1Router.get('/drug-database*', requireRole(...ALL_STAFF));
+v1Router.post('/drug-database/interactions/multi-check', requireRole(...ALL_STAFF));
+v1Router.post(
+  ['/drug-database/interactions', '/drug-database/contraindications', '/drug-database/dosage-guidelines', '/drug-database/import'],
+  requireRole('pharmacist', 'admin'),
+);
+// Drafts go live only once reviewed and then published by an admin
+v1Router.post('/drug-database/knowledge-base/changes/:id/review', requireRole('pharmacist', 'admin'));
+v1Router.post(['/drug-database/knowledge-base/publish', '/drug-database/knowledge-base/rollback'], requireRole(...ADMINS));
+
+// Realtime telemetry and ML
+v1Router.use('/realtime', requireRole(...ALL_STAFF));
+v1Router.get('/ml*', requireRole(...ALL_STAFF));
+v1Router.post('/ml/feedback', requireRole(...PRESCRIBERS));
+v1Router.post('/ml/models/train', requireRole(...ADMINS));
+v1Router.put('/ml/models/pinned', requireRole(...ADMINS));
+
+// HL7 v2 interface — intake staff (or an interface account) send messages, admins work the dead letters
+v1Router.post('/hl7/messages', requireRole(...ALL_STAFF));
+v1Router.use('/hl7/dead-letters', requireRole(...ADMINS));
+
 // Mount domain routes
 v1Router.use('/patients', patientRoutes);
 v1Router.use('/treatment-plans', treatmentRoutes);
@@ -79,6 +143,7 @@ v1Router.use('/audit-logs', auditRoutes);
 v1Router.use('/drug-database', drugDatabaseRoutes);
 v1Router.use('/realtime', realtimeRoutes);
 v1Router.use('/ml', mlRoutes);
+v1Router.use('/hl7', hl7Routes);
 
 // Default export kept for backward compatibility (points to v1)
 export default v1Router;
@@ -3,6 +3,11 @@ import {
   getAdaptiveTrainingData,
   getAdaptiveLearningStats,
   ingestAdaptiveSample,
+  listRiskModels,
+  getRiskModel,
+  startRiskModelTraining,
+  getTrainingJob,
+  pinRiskModel,
 } from '../controllers/ml.controller';
 
 const router = Router();
@@ -11,4 +16,11 @@ router.get('/training-data', getAdaptiveTrainingData);
 router.get('/stats', getAdaptiveLearningStats);
 router.post('/feedback', ingestAdaptiveSample);
 
+// Model registry; "pinned" and "latest" are accepted as version aliases
+router.get('/models', listRiskModels);
+router.post('/models/train', startRiskModelTraining);
+router.put('/models/pinned', pinRiskModel);
+router.get('/models/jobs/:jobId', getTrainingJob);
+router.get('/models/:version', getRiskModel);
+
 export default router;
@@ -1,9 +1,12 @@
 import { Router } from 'express';
 import {
   createPatient,
+  importFhirPatient,
   getPatient,
   getAllPatients,
   deletePatient,
+  getPatientLabResults,
+  addPatientLabResults,
   searchPatients,
   getPatientStatistics,
   getComprehensiveAnalytics,
@@ -21,10 +24,17 @@ router.get('/analytics', cacheResponse({ ttlMs: 10000, tags: ['patients', 'analy
 // Search route
 router.get('/search', cacheResponse({ ttlMs: 10000, tags: ['patients'] }), searchPatients);
 
+// FHIR R4 import (must be before /:id)
+router.post('/import/fhir', importFhirPatient);
+
 // Patient routes
 router.post('/', createPatient);
 router.get('/', cacheResponse({ ttlMs: 15000, tags: ['patients'] }), getAllPatients);
 router.get('/:id', cacheResponse({ ttlMs: 10000, tags: ['patients'] }), getPatient);
 router.delete('/:id', deletePatient);
 
+// Lab results
+router.get('/:id/labs', cacheResponse({ ttlMs: 10000, tags: ['patients'] }), getPatientLabResults);
+router.post('/:id/labs', addPatientLabResults);
+
 export default router;
@@ -7,6 +7,13 @@ import {
   approveTreatmentPlan,
   modifyTreatmentPlan,
   rejectTreatmentPlan,
+  getTreatmentPlanRevisions,
+  diffTreatmentPlanRevisions,
+  exportTreatmentPlanFhir,
+  getTreatmentPlanReport,
+  generatePatientHandout,
+  getTreatmentOutcomes,
+  recordTreatmentOutcome,
 } from '../controllers/treatment.controller';
 import { cacheResponse } from '../middleware/cache.middleware';
 
@@ -17,6 +24,13 @@ router.post('/analyze', analyzeNewPatient); // For new patient intake
 router.post('/analyze/:patientId', analyzePatient); // For existing patient
 router.get('/:id', cacheResponse({ ttlMs: 10000, tags: ['treatment-plans', 'analytics', 'patients'] }), getTreatmentPlan);
 router.get('/patient/:patientId', cacheResponse({ ttlMs: 10000, tags: ['treatment-plans', 'analytics', 'patients'] }), getPatientTreatmentPlans);
+router.get('/:id/revisions', cacheResponse({ ttlMs: 10000, tags: ['treatment-plans'] }), getTreatmentPlanRevisions);
+router.get('/:id/revisions/:a/diff/:b', cacheResponse({ ttlMs: 10000, tags: ['treatment-plans'] }), diffTreatmentPlanRevisions);
+router.get('/:id/fhir', exportTreatmentPlanFhir);
+router.get('/:id/report', getTreatmentPlanReport);
+router.post('/:id/handout', generatePatientHandout);
+router.get('/:id/outcomes', cacheResponse({ ttlMs: 10000, tags: ['treatment-plans'] }), getTreatmentOutcomes);
+router.post('/:id/outcomes', recordTreatmentOutcome);
 router.post('/:patientId/approve', approveTreatmentPlan);
 router.post('/:patientId/modify', modifyTreatmentPlan);
 router.post('/:patientId/reject', rejectTreatmentPlan);
@@ -0,0 +1,43 @@
+/**
+ * Offline Drug Vocabulary Loader
+ * Builds the snapshot used with DRUG_DATA_SOURCE=snapshot from local RxNorm and OpenFDA downloads.
+ *
+ *   npm run drug-data:load -- --rxnorm ./RxNorm_full/rrf --openfda ./drug-label-0001-of-0012.json [--openfda ...] [--out dir]
+ *
+ * The output directory defaults to DRUG_SNAPSHOT_DIR.
+ */
+
+import { config } from '../config';
+import { buildDrugVocabularySnapshot, DrugVocabularySources } from '../services/drug-vocabulary-loader.service';
+
+function parseArgs(args: string[]): { sources: DrugVocabularySources; outDir: string } {
+    const sources: DrugVocabularySources = { openFdaFiles: [] };
+    let outDir = config.drugData.snapshotDir;
+
+    for (let i = 0; i < args.length; i += 2) {
+        const [flag, value] = [args[i], args[i + 1]];
+        if (!value) throw new Error(`Missing value for ${flag}`);
+        if (flag === '--rxnorm') sources.rxnormDir = value;
+        else if (flag === '--openfda') sources.openFdaFiles.push(value);
+        else if (flag === '--out') outDir = value;
+        else throw new Error(`Unknown option ${flag}`);
+    }
+    if (!sources.rxnormDir && sources.openFdaFiles.length === 0) {
+        throw new Error('Give an RxNorm folder (--rxnorm) and/or OpenFDA files (--openfda)');
+    }
+    return { sources, outDir };
+}
+
+async function main(): Promise<void> {
+    try {
+        const { sources, outDir } = parseArgs(process.argv.slice(2));
+        const manifest = await buildDrugVocabularySnapshot(sources, outDir);
+        console.log(`Snapshot written to ${outDir}:`, manifest.counts);
+        process.exit(0);
+    } catch (err) {
+        console.error('Loading the drug vocabulary failed:', (err as Error).message);
+        process.exit(1);
+    }
+}
+
+void main(); // NOSONAR -- tsconfig module:commonjs does not support top-level await
@@ -199,7 +199,7 @@ async function testHighRiskPatient(): Promise<{ results: ValidationResult[]; res
         const response = await analyzePatientData(HIGH_RISK_PATIENT);
         const responseTime = Date.now() - startTime;
 
-        console.log(`   Response time: ${responseTime}ms ${responseTime > 2000 ? '(Real AI)' : '(Fast - likely mock)'}`);
+        console.log(`   Response time: ${responseTime}ms (generated by ${response.generatedBy?.provider ?? 'unknown'})`);
         console.log(`   Risk Level: ${response.riskAssessment.overallRisk}`);
         console.log(`   Risk Score: ${response.riskAssessment.riskScore}`);
         console.log(`   Flagged Issues: ${response.flaggedIssues.length}`);
@@ -1,44 +1,14 @@
-import { DrugInteraction, Contraindication, DosageGuideline } from '../models';
+import { DrugInteraction, Contraindication, DosageGuideline, AllergyGroup, User } from '../models';
 import { testConnection, syncDatabase } from '../config/database';
 import logger from '../config/logger';
+import { authService } from '../services/auth.service';
+import { knowledgeBaseService } from '../services/knowledge-base.service';
 import {
   COMPREHENSIVE_DRUG_INTERACTIONS,
   COMPREHENSIVE_CONTRAINDICATIONS,
   COMPREHENSIVE_DOSAGE_GUIDELINES,
-} from '../data/medical-knowledge-base';
-
-/**
- * Transform comprehensive knowledge base entries for Sequelize models.
- * Maps the rich typed data to the simpler model format used by Sequelize.
- */
-
-const drugInteractions = COMPREHENSIVE_DRUG_INTERACTIONS.map(entry => ({
-  drug1: entry.drug1,
-  drug2: entry.drug2,
-  severity: entry.severity,
-  effect: entry.effect,
-  mechanism: entry.mechanism,
-  management: entry.management,
-  evidence: entry.evidence === 'suspected' ? 'probable' : entry.evidence,
-}));
-
-const contraindications = COMPREHENSIVE_CONTRAINDICATIONS.map(entry => ({
-  drug: entry.drug,
-  condition: entry.condition,
-  type: entry.type === 'pregnancy' ? 'absolute' as const : entry.type,
-  reason: entry.reason,
-  alternatives: entry.alternatives,
-}));
-
-const dosageGuidelines = COMPREHENSIVE_DOSAGE_GUIDELINES.map(entry => ({
-  drug: entry.drug,
-  indication: entry.indication,
-  standardDose: entry.standardDose,
-  maxDose: entry.maxDose,
-  renalAdjustment: entry.renalAdjustment,
-  hepaticAdjustment: entry.hepaticAdjustment,
-  geriatricAdjustment: entry.geriatricAdjustment,
-}));
+  ALLERGY_CROSS_REACTIVITY,
+} from '@treatment-plan/clinical-knowledge';
 
 // Seed function
 export const seedDatabase = async (): Promise<void> => {
@@ -51,18 +21,40 @@ export const seedDatabase = async (): Promise<void> => {
     
     // Seed drug interactions
     logger.info('Seeding drug interactions');
-    await DrugInteraction.bulkCreate(drugInteractions);
-    logger.info('Created drug interactions', { count: drugInteractions.length });
+    await DrugInteraction.bulkCreate(COMPREHENSIVE_DRUG_INTERACTIONS);
+    logger.info('Created drug interactions', { count: COMPREHENSIVE_DRUG_INTERACTIONS.length });
     
     // Seed contraindications
     logger.info('Seeding contraindications');
-    await Contraindication.bulkCreate(contraindications);
-    logger.info('Created contraindications', { count: contraindications.length });
+    await Contraindication.bulkCreate(COMPREHENSIVE_CONTRAINDICATIONS);
+    logger.info('Created contraindications', { count: COMPREHENSIVE_CONTRAINDICATIONS.length });
     
     // Seed dosage guidelines
     logger.info('Seeding dosage guidelines');
-    await DosageGuideline.bulkCreate(dosageGuidelines);
-    logger.info('Created dosage guidelines', { count: dosageGuidelines.length });
+    await DosageGuideline.bulkCreate(COMPREHENSIVE_DOSAGE_GUIDELINES);
+    logger.info('Created dosage guidelines', { count: COMPREHENSIVE_DOSAGE_GUIDELINES.length });
+
+    // Seed allergy cross-reactivity groups
+    logger.info('Seeding allergy groups');
+    await AllergyGroup.bulkCreate(ALLERGY_CROSS_REACTIVITY);
+    logger.info('Created allergy groups', { count: ALLERGY_CROSS_REACTIVITY.length });
+
+    // The seeded tables become knowledge-base v1, the first version curated changes build on
+    const baseline = await knowledgeBaseService.ensureBaseline('seed');
+    logger.info('Recorded knowledge-base version', { version: baseline.version });
+    
+    // Bootstrap an administrator account so the API can be logged into
+    if (process.env.ADMIN_USERNAME && process.env.ADMIN_PASSWORD) {
+      await User.create({
+        username: process.env.ADMIN_USERNAME,
+        passwordHash: await authService.hashPassword(process.env.ADMIN_PASSWORD),
+        fullName: process.env.ADMIN_FULL_NAME || 'Administrator',
+        role: 'admin',
+      });
+      logger.info('Created admin user', { username: process.env.ADMIN_USERNAME });
+    } else {
+      logger.warn('ADMIN_USERNAME/ADMIN_PASSWORD not set — no user accounts were created');
+    }
     
     logger.info('Database seeding completed successfully');
   } catch (error) {
@@ -14,6 +14,11 @@ import { testConnection, syncDatabase } from './config/database';
 import { v1Router, infrastructureRouter } from './routes';
 import { CURRENT_VERSION, SUPPORTED_VERSIONS, deprecatedUnversionedProxy } from './middleware/api-version.middleware';
 import { seedDemoData } from './seeds/demo-seeder';
+import { authService } from './services/auth.service';
+import { getLlmProvider } from './services/openai.service';
+import { adaptiveLearningService } from './services/adaptive-learning.service';
+import { modelRegistryService } from './services/model-registry.service';
+import { hl7IngestService } from './services/hl7-ingest.service';
 
 // Import models to ensure they're initialized
 import './models';
@@ -43,6 +48,7 @@ app.use(cors({
   origin: config.cors.origin,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
   allowedHeaders: ['Content-Type', 'Authorization'],
+  exposedHeaders: ['X-Reading-Grade', 'X-Reading-Target-Grade'], // the dashboard warns when a handout reads above target
   credentials: true,
 }));
 
@@ -57,8 +63,8 @@ const limiter = rateLimit({
 });
 app.use('/api/', limiter);
 
-// Body parsing
-app.use(express.json({ limit: '10mb' }));
+// Body parsing (FHIR clients send application/fhir+json)
+app.use(express.json({ limit: '10mb', type: ['application/json', 'application/fhir+json'] }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Request logging — structured, includes correlation ID
@@ -107,6 +113,7 @@ app.get('/', (req: Request, res: Response) => {
     demoMode: config.demoMode,
     endpoints: {
       health: '/api/health',
+      auth: '/api/v1/auth',
       docs: '/api/docs',
       patients: '/api/v1/patients',
       treatmentPlans: '/api/v1/treatment-plans',
@@ -195,6 +202,7 @@ const startServer = async (): Promise<void> => {
       // Seed demo data with 1000+ patients
       logger.info('Initializing demo data...');
       await seedDemoData(1000);
+      await authService.seedDemoUsers();
     } else {
       // Test database connection
       await testConnection();
@@ -203,6 +211,13 @@ const startServer = async (): Promise<void> => {
       await syncDatabase();
     }
 
+    // Reload persisted adaptive learning samples and start scheduled retraining
+    await adaptiveLearningService.initialize();
+    modelRegistryService.scheduleRetraining(config.ml.retrainIntervalHours);
+
+    // Pick up HL7 files dropped by interfaces that cannot post over HTTP
+    hl7IngestService.watchDropFolder(config.hl7.dropDir, config.hl7.pollSeconds);
+
     // Start listening
     const server = app.listen(config.port, () => {
       logger.info(`Server running on http://localhost:${config.port}`, {
@@ -211,10 +226,11 @@ const startServer = async (): Promise<void> => {
         port: config.port,
       });
 
-      if (!config.openai.apiKey || config.openai.apiKey === 'your_openai_api_key_here') {
-        logger.warn('OpenAI API key not configured - AI analysis will use mock data');
+      const llmProvider = getLlmProvider();
+      if (llmProvider) {
+        logger.info(`LLM provider: ${llmProvider.name} (${llmProvider.model})`);
       } else {
-        logger.info('OpenAI API key configured - using GPT-4o for analysis');
+        logger.warn('No LLM provider configured - treatment plans will be rule-based');
       }
     });
     registerShutdownHandlers(server);
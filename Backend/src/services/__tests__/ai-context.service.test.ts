@@ -97,6 +97,7 @@ function buildLookupResult(drugName: string): DrugLookupResult {
     dailyMedInfo: { setId: 'set-1', title: `${drugName} label`, publishedDate: '2025-01-01' },
     scrapedAt: new Date('2026-01-01T00:00:00.000Z'),
     sources: ['OpenFDA', 'RxNorm', 'DailyMed'],
+    skippedSources: [],
   };
 }
 
@@ -127,6 +128,20 @@ describe('ai-context.service', () => {
     expect(context.summary).toContain('RxNorm interactions');
   });
 
+  it('records sources skipped because their circuit breaker was open', async () => {
+    const patientData = buildPatientData();
+    const lookupDrug = jest.fn(async (drugName: string) => ({
+      ...buildLookupResult(drugName),
+      sources: ['RxNorm'],
+      skippedSources: drugName === 'metformin' ? ['OpenFDA', 'DailyMed'] : ['OpenFDA'],
+    }));
+
+    const context = await buildRealtimeClinicalContext(patientData, { maxDrugLookups: 2, lookupDrug });
+
+    expect(context.skippedSources).toEqual(['OpenFDA', 'DailyMed']);
+    expect(context.summary).toContain('Not consulted (source unavailable): OpenFDA, DailyMed.');
+  });
+
   it('returns fallback summary when no candidate drugs are available', async () => {
     const patientData = buildPatientData({
       currentMedications: { medications: [] },
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { GENESIS_HASH, verifyAuditChain, ChainedAuditEntry } from '../audit-chain.service';
+import { demoStorage } from '../demo-storage.service';
+
+function appendEntries(count: number): void {
+  for (let i = 0; i < count; i++) {
+    demoStorage.createAuditLog({
+      timestamp: new Date(Date.UTC(2025, 0, 1, 12, i)),
+      userId: 'user-1',
+      userName: 'Dr. Test',
+      action: i === 1 ? 'modified' : 'approved',
+      patientId: 'patient-1',
+      treatmentPlanId: 'plan-1',
+      changes: i === 1 ? { before: { dosage: '5mg' }, after: { dosage: '10mg' } } : undefined,
+    });
+  }
+}
+
+describe('audit hash chain', () => {
+  beforeEach(() => {
+    demoStorage.clearAll();
+  });
+
+  it('links each entry to its predecessor starting from the genesis hash', () => {
+    appendEntries(3);
+    const chain = demoStorage.getAuditChain();
+
+    expect(chain[0].previousHash).toBe(GENESIS_HASH);
+    expect(chain[1].previousHash).toBe(chain[0].hash);
+    expect(chain.map(e => e.sequence)).toEqual([1, 2, 3]);
+
+    const result = demoStorage.verifyAuditChain();
+    expect(result.valid).toBe(true);
+    expect(result.checkedEntries).toBe(3);
+    expect(result.headHash).toBe(chain[2].hash);
+  });
+
+  it('detects an edited field at the entry that was changed', () => {
+    appendEntries(3);
+    const chain: ChainedAuditEntry[] = demoStorage.getAuditChain().map(e => ({ ...e }));
+    chain[1] = { ...chain[1], userName: 'Someone Else' };
+
+    const result = verifyAuditChain(chain);
+
+    expect(result.valid).toBe(false);
+    expect(result.firstBrokenLink).toMatchObject({ sequence: 2, reason: 'content_hash_mismatch' });
+  });
+
+  it('detects a deleted entry as a sequence gap', () => {
+    appendEntries(4);
+    const chain = demoStorage.getAuditChain().filter(e => e.sequence !== 2);
+
+    const result = verifyAuditChain(chain);
+
+    expect(result.firstBrokenLink).toMatchObject({ sequence: 3, reason: 'sequence_gap', expected: '2' });
+  });
+
+  it('detects a re-hashed entry because the successor no longer links to it', () => {
+    appendEntries(3);
+    const chain = demoStorage.getAuditChain().map(e => ({ ...e }));
+    chain[0] = { ...chain[0], hash: 'f'.repeat(64) };
+
+    const result = verifyAuditChain(chain);
+
+    expect(result.firstBrokenLink?.sequence).toBe(1);
+  });
+
+  it('is insensitive to JSONB key reordering and ISO-string timestamps', () => {
+    appendEntries(2);
+    const roundTripped = demoStorage.getAuditChain().map(e => ({
+      ...e,
+      timestamp: e.timestamp.toISOString(),
+      changes: e.changes ? { after: e.changes.after, before: e.changes.before } : undefined,
+    })) as unknown as ChainedAuditEntry[];
+
+    expect(verifyAuditChain(roundTripped).valid).toBe(true);
+  });
+});
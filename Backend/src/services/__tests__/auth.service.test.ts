@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import { authService, AuthError } from '../auth.service';
+import { demoStorage } from '../demo-storage.service';
+import { config } from '../../config';
+
+describe('authService (demo mode)', () => {
+  beforeAll(async () => {
+    demoStorage.clearAll();
+    await authService.seedDemoUsers();
+  });
+
+  it('logs in a seeded account and returns a verifiable access token', async () => {
+    const { user, tokens } = await authService.login('dr.demo', config.auth.demoPassword);
+
+    expect(user.role).toBe('physician');
+    expect(tokens.tokenType).toBe('Bearer');
+
+    const verified = authService.verifyToken(tokens.accessToken, 'access');
+    expect(verified).toEqual(user);
+  });
+
+  it('rejects a wrong password without revealing which field was wrong', async () => {
+    await expect(authService.login('dr.demo', 'not-the-password')).rejects.toThrow('Invalid username or password');
+    await expect(authService.login('nobody', 'whatever')).rejects.toThrow('Invalid username or password');
+  });
+
+  it('refuses to accept a refresh token where an access token is expected', async () => {
+    const { tokens } = await authService.login('rx.demo', config.auth.demoPassword);
+
+    expect(() => authService.verifyToken(tokens.refreshToken, 'access')).toThrow(AuthError);
+
+    const refreshed = await authService.refresh(tokens.refreshToken);
+    expect(refreshed.user.role).toBe('pharmacist');
+  });
+
+  it('stops refreshing tokens for deactivated accounts', async () => {
+    const { user, tokens } = await authService.login('rn.demo', config.auth.demoPassword);
+    demoStorage.updateUser(user.id, { active: false });
+
+    await expect(authService.refresh(tokens.refreshToken)).rejects.toThrow(AuthError);
+  });
+});
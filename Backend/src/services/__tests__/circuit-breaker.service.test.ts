@@ -0,0 +1,150 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { CircuitBreaker, CircuitOpenError, CircuitTimeoutError } from '../circuit-breaker.service';
+import { MedicalDataScraper, OpenFDAService } from '../medical-data-scraper.service';
+import { MemoryLruStore, ScraperCache, scraperCachePolicy } from '../scraper-cache.service';
+
+const SETTINGS = { failureThreshold: 2, openMs: 60_000, timeoutMs: 50 };
+
+const fail = () => Promise.reject(new Error('HTTP 503'));
+
+async function openBreaker(breaker: CircuitBreaker): Promise<void> {
+  for (let i = 0; i < SETTINGS.failureThreshold; i++) {
+    await breaker.execute(fail).catch(() => undefined);
+  }
+}
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and refuses calls without running them', async () => {
+    const breaker = new CircuitBreaker('OpenFDA', SETTINGS);
+    let calls = 0;
+
+    await openBreaker(breaker);
+    await expect(breaker.execute(async () => { calls++; return 'label'; })).rejects.toBeInstanceOf(CircuitOpenError);
+
+    expect(calls).toBe(0);
+    expect(breaker.status()).toMatchObject({ state: 'open', consecutiveFailures: 2, totalFailures: 2, rejected: 1 });
+    expect(breaker.status().lastFailure?.message).toBe('HTTP 503');
+  });
+
+  it('counts a slow call as a timeout failure', async () => {
+    const breaker = new CircuitBreaker('RxNorm', SETTINGS);
+
+    const slow = () => new Promise<string>(resolve => setTimeout(() => resolve('late'), 200));
+    await expect(breaker.execute(slow)).rejects.toBeInstanceOf(CircuitTimeoutError);
+
+    expect(breaker.status()).toMatchObject({ state: 'closed', timeouts: 1, consecutiveFailures: 1 });
+  });
+
+  it('lets one probe through after the open period and closes or reopens on its result', async () => {
+    let now = 0;
+    const breaker = new CircuitBreaker('DailyMed', SETTINGS, () => now);
+    await openBreaker(breaker);
+
+    now = SETTINGS.openMs;
+    let releaseProbe: (value: string) => void = () => undefined;
+    const probe = breaker.execute(() => new Promise<string>(resolve => { releaseProbe = resolve; }));
+    expect(breaker.status().state).toBe('half-open');
+    await expect(breaker.execute(async () => 'second')).rejects.toBeInstanceOf(CircuitOpenError);
+    releaseProbe('ok');
+    await expect(probe).resolves.toBe('ok');
+    expect(breaker.status()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+
+    await openBreaker(breaker);
+    now += SETTINGS.openMs;
+    await breaker.execute(fail).catch(() => undefined);
+    expect(breaker.status()).toMatchObject({ state: 'open', nextProbeAt: new Date(now + SETTINGS.openMs).toISOString() });
+  });
+});
+
+describe('MedicalDataScraper with open circuit breakers', () => {
+  it('skips the unavailable APIs, still serving what is cached, and reports them', async () => {
+    const breakers = {
+      openfda: new CircuitBreaker('OpenFDA', SETTINGS),
+      rxnorm: new CircuitBreaker('RxNorm', SETTINGS),
+      dailymed: new CircuitBreaker('DailyMed', SETTINGS),
+    };
+    await Promise.all(Object.values(breakers).map(openBreaker));
+    const cache = new ScraperCache(new MemoryLruStore(100), scraperCachePolicy());
+    await cache.getOrFetch('dailymed', 'search:warfarin', async () => [{ setId: 'set-1', title: 'WARFARIN SODIUM', publishedDate: '2025-01-01' }]);
+    const scraper = new MedicalDataScraper(null, cache, breakers);
+
+    const result = await scraper.lookupDrug('Warfarin');
+
+    expect(result.dailyMedInfo?.setId).toBe('set-1');
+    expect(result.sources).toEqual(['DailyMed']);
+    expect(result.skippedSources.sort()).toEqual(['OpenFDA', 'RxNorm']);
+    expect(await scraper.checkMultiDrugInteractions(['warfarin', 'aspirin'])).toEqual({
+      interactions: [],
+      unresolvedDrugs: ['warfarin', 'aspirin'],
+      skippedSources: ['RxNorm'],
+    });
+  });
+});
+
+describe('drug API services and the circuit breaker', () => {
+  const breakersFor = () => ({
+    openfda: new CircuitBreaker('OpenFDA', SETTINGS),
+    rxnorm: new CircuitBreaker('RxNorm', SETTINGS),
+    dailymed: new CircuitBreaker('DailyMed', SETTINGS),
+  });
+
+  async function withServer(status: number, run: (baseUrl: string) => Promise<void>): Promise<void> {
+    const server = http.createServer((_req, res) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 'NOT_FOUND', message: 'No matches found!' } }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('treats an OpenFDA 404 as no match rather than a failure', async () => {
+    const breakers = breakersFor();
+    await withServer(404, async baseUrl => {
+      const openFDA = new OpenFDAService(null, breakers, baseUrl);
+      for (let i = 0; i < SETTINGS.failureThreshold; i++) {
+        expect(await openFDA.searchDrugLabels('notadrug')).toEqual([]);
+      }
+      expect(await openFDA.getDrugRecalls('notadrug')).toEqual([]);
+    });
+
+    expect(breakers.openfda.status()).toMatchObject({ state: 'closed', consecutiveFailures: 0, totalFailures: 0 });
+  });
+
+  it('rethrows once the breaker opens instead of answering empty', async () => {
+    const breakers = breakersFor();
+    await withServer(503, async baseUrl => {
+      const openFDA = new OpenFDAService(null, breakers, baseUrl);
+      for (let i = 0; i < SETTINGS.failureThreshold; i++) {
+        expect(await openFDA.searchDrugLabels('warfarin')).toEqual([]);
+      }
+      await expect(openFDA.searchDrugLabels('warfarin')).rejects.toBeInstanceOf(CircuitOpenError);
+    });
+
+    expect(breakers.openfda.status().state).toBe('open');
+  });
+
+  it('does not cache a timed-out lookup and reports the source as skipped', async () => {
+    const search = jest.spyOn(OpenFDAService.prototype, 'searchDrugLabels')
+      .mockRejectedValueOnce(new CircuitTimeoutError('OpenFDA', SETTINGS.timeoutMs))
+      .mockResolvedValueOnce([]);
+    jest.spyOn(OpenFDAService.prototype, 'getAdverseEvents').mockResolvedValue([]);
+    const cache = new ScraperCache(new MemoryLruStore(100), scraperCachePolicy());
+    const breakers = breakersFor();
+    await Promise.all([breakers.rxnorm, breakers.dailymed].map(openBreaker));
+    const scraper = new MedicalDataScraper(null, cache, breakers);
+
+    expect((await scraper.lookupDrug('Warfarin')).skippedSources).toContain('OpenFDA');
+    expect((await scraper.lookupDrug('Warfarin')).skippedSources).not.toContain('OpenFDA');
+    expect(search).toHaveBeenCalledTimes(2);
+  });
+});
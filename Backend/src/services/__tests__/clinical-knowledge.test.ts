@@ -0,0 +1,75 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it, expect } from '@jest/globals';
+import {
+  CLINICAL_KNOWLEDGE_VERSION,
+  MEDICAL_KNOWLEDGE_BASE,
+  findRenalDosingGuideline,
+} from '@treatment-plan/clinical-knowledge';
+
+const REPO_ROOT = path.resolve(__dirname, '../../../..');
+const CONSUMER_ROOTS = ['Backend/src', 'Frontend/src'];
+
+// Names the shared datasets have, or had while each app kept its own copy
+const DATASET_DECLARATION = new RegExp(
+  String.raw`\b(?:const|let|var)\s+(` + [
+    'DRUG_CLASSES', 'DRUG_CONCEPTS', 'DRUG_ONTOLOGY', 'LAB_TESTS',
+    'COMPREHENSIVE_DRUG_INTERACTIONS', 'COMPREHENSIVE_CONTRAINDICATIONS', 'COMPREHENSIVE_DOSAGE_GUIDELINES',
+    'ALLERGY_CROSS_REACTIVITY', 'CROSS_REACTIVITY_GROUPS', 'RENAL_DOSING_GUIDELINES',
+    'DRUG_INTERACTION_DB', 'DOSAGE_GUIDELINES', 'MEDICAL_KNOWLEDGE_BASE', 'PHARMACOGENOMIC_RULES', 'LACTATION_RISKS',
+    'PEDIATRIC_DOSING_RULES', 'THERAPEUTIC_DUPLICATION_RULES', 'PATIENT_COUNSELING_RULES',
+  ].join('|') + String.raw`)\b`,
+);
+
+// Literal dataset rows, whatever the variable holding them is called
+const DATASET_ROWS: Array<[string, RegExp]> = [
+  ['drug interaction', /\bdrug1:\s*'[^']*',\s*drug2:\s*'/],
+  ['dosage guideline', /\bstandardDose:\s*'[^']*',\s*maxDose:\s*'/],
+  ['renal dosing tier', /\bmoderateImpairment:\s*'/],
+  ['allergy cross-reactivity group', /\bcrossReactiveDrugs:\s*\[/],
+  ['lab test', /\bcode:\s*'[^']*',\s*name:\s*'[^']*',\s*(?:loinc|unit):/],
+  ['drug concept', /\bgeneric:\s*'[^']*',\s*(?:brands|classes):\s*\[/],
+];
+
+function sourceFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return entry.name === '__tests__' || entry.name === 'node_modules' ? [] : sourceFiles(fullPath);
+    }
+    return /\.tsx?$/.test(entry.name) ? [fullPath] : [];
+  });
+}
+
+describe('shared clinical knowledge package', () => {
+  it('reports the version it is published under', () => {
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(REPO_ROOT, 'packages/clinical-knowledge/package.json'), 'utf8'),
+    ) as { version: string };
+
+    expect(CLINICAL_KNOWLEDGE_VERSION).toBe(manifest.version);
+  });
+
+  it('is the only copy of the clinical datasets', () => {
+    const copies: string[] = [];
+    for (const root of CONSUMER_ROOTS) {
+      for (const file of sourceFiles(path.join(REPO_ROOT, root))) {
+        const source = fs.readFileSync(file, 'utf8');
+        const relative = path.relative(REPO_ROOT, file);
+        const declaration = DATASET_DECLARATION.exec(source);
+        if (declaration) copies.push(`${relative} declares ${declaration[1]}`);
+        for (const [kind, row] of DATASET_ROWS) {
+          if (row.test(source)) copies.push(`${relative} embeds ${kind} rows`);
+        }
+      }
+    }
+
+    expect(copies).toEqual([]);
+  });
+
+  it('resolves brand names in renal dosing and cross-reactivity lookups', () => {
+    expect(findRenalDosingGuideline('Glucophage')?.severeImpairment).toBe('CONTRAINDICATED');
+    expect(MEDICAL_KNOWLEDGE_BASE.checkCrossReactivity('Amoxil').map(g => g.groupName))
+      .toContain('Penicillin / Beta-Lactam');
+  });
+});
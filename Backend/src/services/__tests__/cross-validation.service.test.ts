@@ -0,0 +1,318 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { CompletePatientData, RawPharmacogenomicInput, TreatmentPlanResponse } from '../../types';
+
+jest.mock('../../models', () => ({
+  DrugInteraction: { findAll: async () => [] },
+  Contraindication: { findAll: async () => [] },
+  DosageGuideline: { findAll: async () => [] },
+}));
+
+import {
+  checkPediatricSafety,
+  checkPharmacogenomics,
+  checkReproductiveSafety,
+  checkTherapeuticDuplication,
+  crossValidateWithLocalDB,
+  withholdPediatricRestrictedTreatments,
+} from '../cross-validation.service';
+import { normalizePharmacogenomicProfile } from '../pharmacogenomics.service';
+import { normalizeReproductiveStatus } from '../reproductive-status.service';
+import { DRUG_ONTOLOGY, evaluateReproductiveSafety } from '@treatment-plan/clinical-knowledge';
+
+function buildPatientData(
+  medications: Array<{ drugName: string; genericName: string }>,
+  conditions: string[],
+): CompletePatientData {
+  return {
+    demographics: {
+      patientId: 'PT-002',
+      age: 54,
+      sex: 'female',
+      weight: 70,
+      height: 165,
+      bmi: 25.7,
+      bloodPressure: { systolic: 132, diastolic: 84 },
+      heartRate: 72,
+      temperature: 98.4,
+    },
+    medicalHistory: {
+      conditions: conditions.map(condition => ({ condition, diagnosisDate: '2021-03-01', severity: 'severe', controlled: false })),
+      allergies: [],
+      pastSurgeries: [],
+      familyHistory: [],
+    },
+    currentMedications: {
+      medications: medications.map(m => ({
+        ...m,
+        dosage: '50mg',
+        frequency: 'daily',
+        route: 'oral',
+        startDate: '2024-01-01',
+        prescribedBy: 'Dr. Chen',
+      })),
+    },
+    lifestyle: {
+      smoking: { status: 'never' },
+      alcohol: { frequency: 'none' },
+      exercise: { frequency: 'moderate', minutesPerWeek: 150 },
+      diet: 'standard',
+      chiefComplaint: { complaint: 'Knee pain', duration: '2 weeks', severity: 4, symptoms: ['pain'] },
+    },
+  } as CompletePatientData;
+}
+
+function buildAiResponse(medication: string, genericName: string): TreatmentPlanResponse {
+  return {
+    treatmentPlan: {
+      primaryTreatment: {
+        medication, genericName, dosage: '200mg', frequency: 'TID', duration: '7 days', route: 'oral', instructions: 'With food',
+      },
+      alternativeTreatments: [],
+      supportiveCare: [],
+    },
+    riskAssessment: { overallRisk: 'LOW', riskScore: 10, confidenceScore: 90, riskFactors: [] },
+    flaggedIssues: [],
+    drugInteractions: [],
+    contraindications: [],
+    rationale: { primaryChoice: '', riskBenefit: '', alternativeRationale: '', monitoringPlan: '', patientEducation: '' },
+  };
+}
+
+describe('drug ontology resolution', () => {
+  it('resolves brand names and synonyms to the generic and its class ancestry', () => {
+    const resolved = DRUG_ONTOLOGY.resolve('Toprol-XL 50mg');
+    expect(resolved.generic).toBe('metoprolol');
+    expect(resolved.classes).toEqual(expect.arrayContaining(['beta-blockers', 'cardiovascular-agents']));
+    expect(DRUG_ONTOLOGY.canonicalName('paracetamol')).toBe('acetaminophen');
+  });
+
+  it('matches class rules written in any of the knowledge-base spellings', () => {
+    expect(DRUG_ONTOLOGY.matches('metoprolol', 'beta-blockers')).toBe(true);
+    expect(DRUG_ONTOLOGY.matches('Coreg', 'beta_blockers')).toBe(true);
+    expect(DRUG_ONTOLOGY.matches('Advil', 'NSAIDs')).toBe(true);
+    expect(DRUG_ONTOLOGY.matches('Bactrim', 'trimethoprim')).toBe(true);
+    expect(DRUG_ONTOLOGY.matches('amlodipine', 'beta-blockers')).toBe(false);
+    expect(DRUG_ONTOLOGY.matches('grapefruit juice', 'grapefruit_juice')).toBe(true);
+  });
+});
+
+describe('crossValidateWithLocalDB', () => {
+  it('flags a class contraindication against a concrete drug', async () => {
+    const patient = buildPatientData([{ drugName: 'Lopressor', genericName: 'metoprolol' }], ['severe asthma']);
+    const report = await crossValidateWithLocalDB(buildAiResponse('Acetaminophen', 'acetaminophen'), patient);
+
+    expect(report.isValid).toBe(false);
+    expect(report.issues.some(i => i.description.startsWith('KB contraindication: beta-blockers in severe asthma'))).toBe(true);
+  });
+
+  it('finds knowledge-base interactions for brand-name medications', async () => {
+    const patient = buildPatientData([{ drugName: 'Coumadin', genericName: 'warfarin' }], []);
+    const report = await crossValidateWithLocalDB(buildAiResponse('Advil', 'ibuprofen'), patient);
+
+    expect(report.issues.some(i => i.description.includes('warfarin + ibuprofen'))).toBe(true);
+  });
+
+  it('flags a proposed dose above the knowledge-base maximum and names the drug', async () => {
+    const aiResponse = buildAiResponse('Norvasc', 'amlodipine');
+    aiResponse.treatmentPlan.primaryTreatment.dosage = '20mg';
+    const report = await crossValidateWithLocalDB(aiResponse, buildPatientData([], []));
+
+    const dosageIssue = report.issues.find(i => i.type === 'dosage_exceeds_max');
+    expect(dosageIssue?.severity).toBe('critical');
+    expect(dosageIssue?.affectedDrugs).toEqual(['amlodipine']);
+    expect(report.isValid).toBe(false);
+  });
+});
+
+describe('pharmacogenomic checks', () => {
+  it('flags clopidogrel once for a CYP2C19 poor metabolizer, however it is named', async () => {
+    const patient = buildPatientData([{ drugName: 'Plavix', genericName: 'clopidogrel' }], []);
+    patient.pharmacogenomics = { cyp2c19: 'poor', cyp2d6: 'normal' };
+    const report = await crossValidateWithLocalDB(buildAiResponse('Acetaminophen', 'acetaminophen'), patient);
+
+    const issues = report.issues.filter(i => i.type === 'pharmacogenomic');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: 'critical', affectedDrugs: ['plavix'] });
+    expect(issues[0].description).toContain('CYP2C19 poor metabolizer');
+    expect(issues[0].recommendation).toContain('prasugrel or ticagrelor');
+    expect(report.isValid).toBe(false);
+  });
+
+  it('gives the genotype-guided warfarin dose from VKORC1 and CYP2C9', () => {
+    const patient = buildPatientData([{ drugName: 'Coumadin', genericName: 'warfarin' }], []);
+    patient.pharmacogenomics = { vkorc1: 'AA', cyp2c9: 'intermediate' };
+
+    const [issue] = checkPharmacogenomics(buildAiResponse('Acetaminophen', 'acetaminophen'), patient);
+    expect(issue).toMatchObject({ severity: 'high', doseAdjustment: 'Expected maintenance dose 0.5-4mg/day' });
+
+    patient.pharmacogenomics = { cyp2c9: 'poor' };
+    expect(checkPharmacogenomics(buildAiResponse('Acetaminophen', 'acetaminophen'), patient)).toEqual([]);
+  });
+
+  it('skips findings the plan already flagged', () => {
+    const patient = buildPatientData([], []);
+    patient.pharmacogenomics = { hlaB5701: 'positive' };
+    const aiResponse = buildAiResponse('Ziagen', 'abacavir');
+
+    expect(checkPharmacogenomics(aiResponse, patient)[0].severity).toBe('critical');
+    aiResponse.flaggedIssues = [{
+      type: 'pharmacogenomic', severity: 'critical', description: 'HLA-B*57:01 positive', recommendation: 'Avoid', affectedDrugs: ['abacavir'],
+    }];
+    expect(checkPharmacogenomics(aiResponse, patient)).toEqual([]);
+  });
+
+  it('normalizes the submitted profile and rejects unknown phenotypes', () => {
+    expect(normalizePharmacogenomicProfile({ cyp2d6: 'Ultrarapid', vkorc1: 'ga', slco1b1: '', testedAt: '2025-03-04' }))
+      .toEqual({ profile: { cyp2d6: 'ultrarapid', vkorc1: 'GA', testedAt: '2025-03-04' }, errors: [] });
+    expect(normalizePharmacogenomicProfile({ hlaB5701: '', cyp2c9: null })).toEqual({ profile: undefined, errors: [] });
+    expect(normalizePharmacogenomicProfile({ cyp2c19: 'slow' }).errors)
+      .toEqual(['pharmacogenomics.cyp2c19: CYP2C19 must be one of ultrarapid, rapid, normal, intermediate, poor']);
+  });
+
+  it('rejects phenotypes that are not strings instead of throwing', () => {
+    const input = { cyp2c19: 2, cyp2d6: 'normal' } as unknown as RawPharmacogenomicInput;
+    expect(normalizePharmacogenomicProfile(input))
+      .toEqual({ profile: { cyp2d6: 'normal' }, errors: ['pharmacogenomics.cyp2c19: CYP2C19 must be one of ultrarapid, rapid, normal, intermediate, poor'] });
+  });
+});
+
+describe('pregnancy and lactation checks', () => {
+  it('leaves low-dose aspirin out of the third-trimester NSAID rule', () => {
+    const status = { pregnant: true, trimester: 3 as const };
+    expect(evaluateReproductiveSafety(status, ['Aspirin 81mg daily'])).toEqual([]);
+    expect(evaluateReproductiveSafety(status, ['Ibuprofen 600mg'])).toMatchObject([
+      { drug: 'Ibuprofen 600mg', context: 'pregnancy', severity: 'critical', rule: 'NSAIDs' },
+    ]);
+  });
+
+  it('grades pregnancy contraindications by trimester', async () => {
+    const patient = buildPatientData([{ drugName: 'Zestril', genericName: 'lisinopril' }], []);
+    patient.demographics = { ...patient.demographics, pregnant: true, trimester: 2 };
+    const report = await crossValidateWithLocalDB(buildAiResponse('Acetaminophen', 'acetaminophen'), patient);
+
+    const issues = report.issues.filter(i => i.type === 'pregnancy');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: 'critical', affectedDrugs: ['zestril'] });
+    expect(issues[0].description).toContain('ACE inhibitors in pregnancy (2nd/3rd trimester)');
+    expect(issues[0].recommendation).toContain('labetalol');
+
+    patient.demographics.trimester = 1;
+    expect(checkReproductiveSafety(buildAiResponse('Acetaminophen', 'acetaminophen'), patient)[0].severity).toBe('high');
+  });
+
+  it('flags drugs that are unsafe while breastfeeding only for a lactating patient', () => {
+    const patient = buildPatientData([], []);
+    const aiResponse = buildAiResponse('Tylenol #3', 'codeine');
+
+    expect(checkReproductiveSafety(aiResponse, patient)).toEqual([]);
+    patient.demographics.lactating = true;
+    const [issue] = checkReproductiveSafety(aiResponse, patient);
+    expect(issue).toMatchObject({ type: 'lactation', severity: 'critical', affectedDrugs: ['codeine'] });
+  });
+
+  it('rejects a trimester without a pregnancy and pregnancy for a male patient', () => {
+    expect(normalizeReproductiveStatus({ pregnant: true, trimester: 3, lactating: false }, 'female'))
+      .toEqual({ status: { pregnant: true, trimester: 3 }, errors: [] });
+    expect(normalizeReproductiveStatus({ trimester: 2 }, 'female').errors)
+      .toEqual(['demographics.trimester: only recorded for a pregnant patient']);
+    expect(normalizeReproductiveStatus({ pregnant: true, trimester: 4 }, 'male').errors).toEqual([
+      'demographics.trimester: must be 1, 2 or 3',
+      'demographics.pregnant: pregnancy and lactation cannot be recorded for a male patient',
+    ]);
+  });
+});
+
+describe('pediatric checks', () => {
+  it('flags an adult-only proposal and a drug below its minimum age for a child', async () => {
+    const patient = buildPatientData([{ drugName: 'Tylenol #3', genericName: 'codeine' }], []);
+    patient.demographics = { ...patient.demographics, age: 9, weight: 28 };
+    const report = await crossValidateWithLocalDB(buildAiResponse('Cipro', 'ciprofloxacin'), patient);
+
+    const issues = report.issues.filter(i => i.description.startsWith('Pediatric restriction'));
+    expect(issues.map(i => [i.affectedDrugs?.[0], i.severity])).toEqual([
+      ['cipro', 'high'],
+      ['codeine', 'critical'],
+    ]);
+    expect(issues[0].description).toContain('(adult-only) in a 9-year-old');
+    expect(issues[1].description).toContain('minimum age 12 years');
+    expect(report.isValid).toBe(false);
+  });
+
+  it('leaves adults and age-appropriate drugs alone', () => {
+    const adult = buildPatientData([{ drugName: 'Tylenol #3', genericName: 'codeine' }], []);
+    expect(checkPediatricSafety(buildAiResponse('Cipro', 'ciprofloxacin'), adult)).toEqual([]);
+
+    const child = buildPatientData([], []);
+    child.demographics = { ...child.demographics, age: 6, weight: 21 };
+    expect(checkPediatricSafety(buildAiResponse('Amoxil', 'amoxicillin'), child)).toEqual([]);
+
+    // Age 0 is any infant, so minimums in months are not applied to it
+    child.demographics = { ...child.demographics, age: 0, weight: 8 };
+    expect(checkPediatricSafety(buildAiResponse('Advil', 'ibuprofen'), child)).toEqual([]);
+  });
+});
+
+describe('withholdPediatricRestrictedTreatments', () => {
+  const hairLoss = () => {
+    const { treatmentPlan } = buildAiResponse('Propecia', 'finasteride');
+    treatmentPlan.alternativeTreatments = [
+      { ...treatmentPlan.primaryTreatment, medication: 'Avodart', genericName: 'dutasteride', reason: 'More potent' },
+      { ...treatmentPlan.primaryTreatment, medication: 'Minoxidil 5%', genericName: 'minoxidil', route: 'topical', reason: 'Non-systemic' },
+    ];
+    return treatmentPlan;
+  };
+
+  it('promotes the first suitable alternative when the primary is adult-only', () => {
+    const { treatmentPlan, withheld } = withholdPediatricRestrictedTreatments(hairLoss(), 15);
+
+    expect(withheld.map(finding => [finding.drug, finding.adultOnly])).toEqual([['finasteride', true], ['dutasteride', true]]);
+    expect(treatmentPlan.primaryTreatment).toMatchObject({ medication: 'Minoxidil 5%', route: 'topical' });
+    expect(treatmentPlan.primaryTreatment).not.toHaveProperty('reason');
+    expect(treatmentPlan.alternativeTreatments).toEqual([]);
+  });
+
+  it('withholds the primary when nothing suitable is left, and leaves adults alone', () => {
+    const { treatmentPlan } = withholdPediatricRestrictedTreatments(buildAiResponse('Tylenol #3', 'codeine').treatmentPlan, 8);
+    expect(treatmentPlan.primaryTreatment).toMatchObject({ genericName: 'contraindicated', dosage: 'N/A' });
+    expect(treatmentPlan.primaryTreatment.instructions).toContain('Consider acetaminophen, ibuprofen');
+
+    const adultPlan = hairLoss();
+    expect(withholdPediatricRestrictedTreatments(adultPlan, 30)).toEqual({ treatmentPlan: adultPlan, withheld: [] });
+  });
+});
+
+describe('therapeutic duplication checks', () => {
+  it('flags an ARB proposed on top of an ACE inhibitor', async () => {
+    const patient = buildPatientData([{ drugName: 'Zestril', genericName: 'lisinopril' }], []);
+    const report = await crossValidateWithLocalDB(buildAiResponse('Cozaar', 'losartan'), patient);
+
+    const issues = report.issues.filter(i => i.type === 'therapeutic_duplication');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: 'high', affectedDrugs: ['lisinopril', 'losartan'] });
+    expect(issues[0].description).toContain('are both ACE inhibitors / ARBs');
+  });
+
+  it('flags the same ingredient under brand and combination names', () => {
+    const patient = buildPatientData([{ drugName: 'Percocet', genericName: 'oxycodone-acetaminophen' }], []);
+    const [issue] = checkTherapeuticDuplication(buildAiResponse('Tylenol', 'acetaminophen'), patient);
+
+    expect(issue.description).toContain('both contain acetaminophen');
+    expect(issue.affectedDrugs).toEqual(['oxycodone-acetaminophen', 'acetaminophen']);
+  });
+
+  it('checks each alternative separately and does not count low-dose aspirin as an NSAID', () => {
+    const patient = buildPatientData([{ drugName: 'Ecotrin', genericName: 'aspirin' }], []);
+    const aiResponse = buildAiResponse('Advil', 'ibuprofen');
+    aiResponse.treatmentPlan.alternativeTreatments = [
+      { ...aiResponse.treatmentPlan.primaryTreatment, medication: 'Aleve', genericName: 'naproxen', reason: 'Twice-daily dosing' },
+    ];
+
+    expect(checkTherapeuticDuplication(aiResponse, patient)).toEqual([]);
+
+    patient.currentMedications.medications[0] = { ...patient.currentMedications.medications[0], drugName: 'Mobic', genericName: 'meloxicam' };
+    expect(checkTherapeuticDuplication(aiResponse, patient).map(i => i.affectedDrugs)).toEqual([
+      ['meloxicam', 'ibuprofen'],
+      ['meloxicam', 'naproxen'],
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { buildDrugVocabularySnapshot } from '../drug-vocabulary-loader.service';
+import { DrugVocabularySnapshot } from '../drug-vocabulary-snapshot.service';
+import { DailyMedService, MedicalDataScraper, OpenFDAService, RxNormService } from '../medical-data-scraper.service';
+
+// RXNCONSO.RRF: RXCUI|LAT|TS|LUI|STT|SUI|ISPREF|RXAUI|SAUI|SCUI|SDUI|SAB|TTY|CODE|STR|SRL|SUPPRESS|CVF|
+const conso = (rxcui: string, tty: string, name: string, suppress = 'N') =>
+  [rxcui, 'ENG', '', '', '', '', '', `A${rxcui}${tty}`, '', '', '', 'RXNORM', tty, rxcui, name, '', suppress, '4096', ''].join('|');
+
+// RXNREL.RRF: RXCUI1|RXAUI1|STYPE1|REL|RXCUI2|RXAUI2|STYPE2|RELA|RUI|SRUI|SAB|SL|RG|DIR|SUPPRESS|CVF|
+const rel = (rxcui1: string, rela: string, rxcui2: string) =>
+  [rxcui1, '', 'CUI', 'RO', rxcui2, '', 'CUI', rela, `R${rxcui1}${rxcui2}`, '', 'RXNORM', 'RXNORM', '', '', 'N', '', ''].join('|');
+
+const RXNCONSO = [
+  conso('83367', 'IN', 'atorvastatin'),
+  conso('21212', 'IN', 'clarithromycin'),
+  conso('153165', 'BN', 'Lipitor'),
+  conso('329297', 'SCDC', 'atorvastatin 10 MG'),
+  conso('617312', 'SCD', 'atorvastatin 10 MG Oral Tablet'),
+  conso('617312', 'PSN', 'Atorvastatin 10mg tablet'),
+  conso('617314', 'SBD', 'atorvastatin 10 MG Oral Tablet [Lipitor]'),
+  conso('99999', 'IN', 'withdrawnstatin', 'O'),
+];
+
+// SBD -> SCD -> SCDC -> IN, and SBD -> BN -> IN, as in the full release
+const RXNREL = [
+  rel('617314', 'tradename_of', '617312'),
+  rel('617312', 'consists_of', '329297'),
+  rel('329297', 'has_ingredient', '83367'),
+  rel('617314', 'has_ingredient', '153165'),
+  rel('153165', 'tradename_of', '83367'),
+];
+
+const LABELS = {
+  meta: {},
+  results: [{
+    set_id: 'set-lipitor',
+    version: '12',
+    effective_time: '20240115',
+    openfda: {
+      brand_name: ['Lipitor'],
+      generic_name: ['ATORVASTATIN CALCIUM'],
+      manufacturer_name: ['Parke-Davis'],
+      rxcui: ['617314'],
+      substance_name: ['ATORVASTATIN CALCIUM TRIHYDRATE'],
+      dosage_form: ['TABLET, FILM COATED'],
+      pharm_class_epc: ['HMG-CoA Reductase Inhibitor [EPC]'],
+    },
+    warnings: ['Myopathy and rhabdomyolysis have been reported.'],
+    drug_interactions: ['Avoid clarithromycin with atorvastatin doses above 20 mg. Grapefruit juice raises levels.'],
+  }],
+};
+
+const RECALLS = {
+  meta: {},
+  results: [{
+    recall_number: 'D-0123-2024',
+    reason_for_recall: 'Failed dissolution specifications',
+    status: 'Ongoing',
+    classification: 'Class II',
+    recalling_firm: 'Example Pharma',
+    report_date: '20240301',
+    openfda: { generic_name: ['ATORVASTATIN CALCIUM'] },
+  }],
+};
+
+describe('offline drug vocabulary snapshot', () => {
+  let workDir: string;
+  let snapshot: DrugVocabularySnapshot;
+
+  beforeAll(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drug-snapshot-'));
+    const rrfDir = path.join(workDir, 'rrf');
+    fs.mkdirSync(rrfDir);
+    fs.writeFileSync(path.join(rrfDir, 'RXNCONSO.RRF'), `${RXNCONSO.join('\n')}\n`);
+    fs.writeFileSync(path.join(rrfDir, 'RXNREL.RRF'), `${RXNREL.join('\n')}\n`);
+    fs.writeFileSync(path.join(workDir, 'drug-label.json'), JSON.stringify(LABELS));
+    fs.writeFileSync(path.join(workDir, 'drug-enforcement.json'), JSON.stringify(RECALLS));
+
+    const manifest = await buildDrugVocabularySnapshot({
+      rxnormDir: rrfDir,
+      openFdaFiles: [path.join(workDir, 'drug-label.json'), path.join(workDir, 'drug-enforcement.json')],
+    }, path.join(workDir, 'snapshot'));
+    expect(manifest.counts).toEqual({ concepts: 5, labels: 1, recalls: 1, interactions: 1 });
+
+    snapshot = new DrugVocabularySnapshot(path.join(workDir, 'snapshot'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('resolves ingredients, brands and synonyms to RxCUIs and skips obsolete concepts', async () => {
+    const rxNorm = new RxNormService(snapshot);
+
+    expect(await rxNorm.getRxCUI('Atorvastatin')).toBe('83367');
+    expect(await rxNorm.getRxCUI('lipitor')).toBe('153165');
+    expect(await rxNorm.getRxCUI('Atorvastatin 10mg tablet')).toBe('617312');
+    expect(await rxNorm.getRxCUI('withdrawnstatin')).toBeNull();
+    expect((await rxNorm.findDrugByName('atorvastatin')).map(d => d.rxcui).sort()).toEqual(['617312', '617314']);
+  });
+
+  it('derives interactions from label text and answers them by product or ingredient', async () => {
+    const rxNorm = new RxNormService(snapshot);
+
+    const [interaction] = await rxNorm.checkMultiDrugInteractions(['617314', '21212']);
+    expect(interaction).toMatchObject({
+      drug1: { rxcui: '83367', name: 'atorvastatin' },
+      drug2: { rxcui: '21212', name: 'clarithromycin' },
+      description: 'Avoid clarithromycin with atorvastatin doses above 20 mg.',
+    });
+    expect(await rxNorm.checkInteractions('153165')).toHaveLength(1);
+    expect(await rxNorm.getDrugClasses('153165')).toEqual([
+      { className: 'HMG-CoA Reductase Inhibitor [EPC]', classId: '', classType: 'EPC' },
+    ]);
+  });
+
+  it('serves labels, recalls and DailyMed entries from the OpenFDA files', async () => {
+    const openFDA = new OpenFDAService(snapshot);
+    const dailyMed = new DailyMedService(snapshot);
+
+    expect((await openFDA.searchDrugLabels('Lipitor'))[0]).toMatchObject({ brandName: 'Lipitor', warnings: ['Myopathy and rhabdomyolysis have been reported.'] });
+    expect(await openFDA.getAdverseEvents('lipitor')).toEqual([]);
+    expect((await openFDA.getDrugRecalls('atorvastatin calcium'))[0]).toMatchObject({ recallNumber: 'D-0123-2024', classification: 'Class II' });
+
+    expect(await dailyMed.searchDrug('atorvastatin')).toEqual([{
+      setId: 'set-lipitor',
+      title: 'LIPITOR (ATORVASTATIN CALCIUM) TABLET, FILM COATED [PARKE-DAVIS]',
+      publishedDate: '2024-01-15',
+    }]);
+    const label = await dailyMed.getDrugLabel('set-lipitor');
+    expect(label?.splVersion).toBe(12);
+    expect(label?.sections.map(s => s.name)).toEqual(['Warnings', 'Drug Interactions']);
+  });
+
+  it('labels lookup sources as offline and reports the snapshot state', async () => {
+    const scraper = new MedicalDataScraper(snapshot);
+
+    const result = await scraper.lookupDrug('Lipitor');
+
+    expect(result.rxcui).toBe('153165');
+    expect(result.interactions).toHaveLength(1);
+    expect(result.sources).toEqual(expect.arrayContaining(['RxNorm (offline snapshot)', 'OpenFDA (offline snapshot)', 'DailyMed (offline snapshot)']));
+    expect(scraper.getDataSourceStatus()).toMatchObject({ source: 'snapshot', snapshot: { loaded: true, error: null } });
+  });
+
+  it('answers empty instead of calling the APIs when the snapshot is missing', async () => {
+    const missing = new DrugVocabularySnapshot(path.join(workDir, 'not-built'));
+
+    expect(await new RxNormService(missing).getRxCUI('atorvastatin')).toBeNull();
+    expect(missing.status()).toMatchObject({ loaded: false });
+    expect(missing.status().error).toContain('manifest.json');
+  });
+
+  it('keeps no half-built index from a failed load and reads the snapshot again later', async () => {
+    const built = path.join(workDir, 'snapshot');
+    const directory = path.join(workDir, 'half-written');
+    fs.cpSync(built, directory, { recursive: true });
+    const [firstConcept] = fs.readFileSync(path.join(built, 'concepts.jsonl'), 'utf8').split('\n');
+    fs.writeFileSync(path.join(directory, 'concepts.jsonl'), `${firstConcept}\n{"rxcui":`);
+    const retried = new DrugVocabularySnapshot(directory);
+    const rxNorm = new RxNormService(retried);
+
+    expect(await rxNorm.getRxCUI(JSON.parse(firstConcept).name)).toBeNull();
+    expect(retried.status()).toMatchObject({ loaded: false, error: expect.stringContaining('JSON') });
+
+    fs.copyFileSync(path.join(built, 'concepts.jsonl'), path.join(directory, 'concepts.jsonl'));
+    expect(await rxNorm.getRxCUI('Atorvastatin')).toBe('83367');
+    expect(retried.status()).toMatchObject({ loaded: true, error: null });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from '@jest/globals';
+import { ExportableTreatmentPlan, buildTreatmentPlanBundle } from '../fhir-export.service';
+import { FhirCarePlan, FhirDetectedIssue, FhirMedicationRequest, FhirProvenance } from '../../types';
+
+const PLAN_ID = '8a1f4c52-1d3e-4c0b-9d57-2f6a0c1e9b11';
+const NOW = new Date('2026-03-02T08:00:00.000Z');
+
+const plan: ExportableTreatmentPlan = {
+  id: PLAN_ID,
+  patientId: 'c0ffee00-0000-4000-8000-000000000001',
+  approvedBy: 'Dr. Rivera',
+  approvedAt: new Date('2026-03-01T15:30:00.000Z'),
+  knowledgeBaseVersion: '12',
+  createdAt: new Date('2026-03-01T15:00:00.000Z'),
+  treatmentData: {
+    treatmentPlan: {
+      primaryTreatment: {
+        medication: 'Lisinopril',
+        genericName: 'lisinopril',
+        dosage: '10mg',
+        frequency: 'once daily',
+        duration: '90 days',
+        route: 'oral',
+        instructions: 'Take in the morning',
+      },
+      alternativeTreatments: [],
+      supportiveCare: ['Low-sodium diet'],
+    },
+    riskAssessment: { overallRisk: 'MEDIUM', riskScore: 40, confidenceScore: 85, riskFactors: [] },
+    flaggedIssues: [
+      {
+        type: 'interaction',
+        severity: 'high',
+        description: 'Hyperkalemia risk with potassium-sparing diuretic',
+        recommendation: 'Check potassium in 1 week',
+        affectedDrugs: ['lisinopril', 'spironolactone'],
+      },
+      { type: 'monitoring', severity: 'low', description: 'Renal function', recommendation: 'BMP at 2 weeks', affectedDrugs: [] },
+    ],
+    drugInteractions: [],
+    contraindications: [],
+    rationale: {
+      primaryChoice: 'First-line ACE inhibitor for hypertension',
+      riskBenefit: 'Blood pressure control outweighs hyperkalemia risk with monitoring',
+      alternativeRationale: '',
+      monitoringPlan: 'Blood pressure log for 4 weeks',
+      patientEducation: 'Report lip or tongue swelling',
+    },
+    generatedBy: { provider: 'rule-based', model: 'local-rules' },
+  },
+};
+
+const auditEntries = [
+  { id: 'a-1', timestamp: new Date('2026-03-01T15:00:00.000Z'), userId: 'u-7', userName: 'Dr. Rivera', action: 'created', sequence: 41, hash: 'abc' },
+  { id: 'a-2', timestamp: new Date('2026-03-01T15:30:00.000Z'), userId: 'u-7', userName: 'Dr. Rivera', action: 'approved', sequence: 42, hash: 'def' },
+];
+
+describe('buildTreatmentPlanBundle', () => {
+  const bundle = buildTreatmentPlanBundle(plan, auditEntries, NOW);
+  const resources = (bundle.entry ?? []).map(entry => entry.resource);
+  const byType = <T>(type: string) => resources.filter(r => r?.resourceType === type) as T[];
+
+  it('emits a transaction that updates resources keyed by the plan id', () => {
+    expect(bundle).toMatchObject({ resourceType: 'Bundle', type: 'transaction', timestamp: NOW.toISOString() });
+    expect(resources.map(r => r?.resourceType)).toEqual([
+      'MedicationRequest', 'CarePlan', 'DetectedIssue', 'DetectedIssue', 'Provenance',
+    ]);
+    expect(bundle.entry?.[0].request).toEqual({ method: 'PUT', url: `MedicationRequest/${PLAN_ID}-primary` });
+  });
+
+  it('orders the primary treatment and puts supportive care and monitoring in the care plan', () => {
+    const [request] = byType<FhirMedicationRequest>('MedicationRequest');
+    expect(request).toMatchObject({
+      status: 'active',
+      intent: 'order',
+      medicationCodeableConcept: { text: 'Lisinopril' },
+      subject: { reference: `Patient/${plan.patientId}` },
+      authoredOn: '2026-03-01T15:30:00.000Z',
+      requester: { display: 'Dr. Rivera', identifier: { value: 'u-7' } },
+      dosageInstruction: [{ text: '10mg once daily for 90 days', route: { text: 'oral' }, patientInstruction: 'Take in the morning' }],
+    });
+
+    const [carePlan] = byType<FhirCarePlan>('CarePlan');
+    expect(carePlan.activity).toEqual([
+      { reference: { reference: `MedicationRequest/${PLAN_ID}-primary` } },
+      { detail: { code: { text: 'Supportive care' }, status: 'not-started', description: 'Low-sodium diet' } },
+      { detail: { code: { text: 'Monitoring' }, status: 'not-started', description: 'Blood pressure log for 4 weeks' } },
+      { detail: { code: { text: 'Monitoring' }, status: 'not-started', description: 'BMP at 2 weeks' } },
+    ]);
+  });
+
+  it('codes flagged issues and implicates the order when the primary drug is involved', () => {
+    const [interaction, monitoring] = byType<FhirDetectedIssue>('DetectedIssue');
+    expect(interaction).toMatchObject({
+      code: { coding: [{ code: 'DRG', display: 'Drug Interaction Alert' }], text: 'interaction' },
+      severity: 'high',
+      implicated: [{ reference: `MedicationRequest/${PLAN_ID}-primary` }],
+      detail: 'Hyperkalemia risk with potassium-sparing diuretic (lisinopril, spironolactone)',
+      mitigation: [{ action: { text: 'Check potassium in 1 week' } }],
+    });
+    expect(monitoring.code).toEqual({ text: 'monitoring' });
+    expect(monitoring.implicated).toBeUndefined();
+  });
+
+  it('records the approver, generator, knowledge-base version and audit entries as provenance', () => {
+    const [provenance] = byType<FhirProvenance>('Provenance');
+    expect(provenance.target).toHaveLength(4);
+    expect(provenance.recorded).toBe('2026-03-01T15:30:00.000Z');
+    expect(provenance.policy).toEqual(['urn:treatment-plan-assistant:knowledge-base:12']);
+    expect(provenance.agent.map(agent => agent.type?.coding?.[0].code)).toEqual(['approver', 'assembler']);
+    expect(provenance.entity?.map(entity => entity.what.identifier?.value)).toEqual(['a-1', 'a-2']);
+    expect(provenance.entity?.[1].what.display).toBe('#42 approved by Dr. Rivera at 2026-03-01T15:30:00.000Z (hash def)');
+  });
+});
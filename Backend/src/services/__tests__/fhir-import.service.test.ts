@@ -0,0 +1,177 @@
+import { describe, it, expect } from '@jest/globals';
+import { FhirImportError, importFhirBundle } from '../fhir-import.service';
+import { FhirResource } from '../../types';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+const LOINC = 'http://loinc.org';
+const SNOMED = 'http://snomed.info/sct';
+
+const bundle = (...resources: FhirResource[]) => ({
+  resourceType: 'Bundle',
+  type: 'collection',
+  entry: resources.map(resource => ({ resource })),
+});
+
+const patient: FhirResource = { resourceType: 'Patient', id: 'ehr-42', gender: 'female', birthDate: '1960-06-15' };
+
+const vital = (id: string, code: string, value: number, unit: string, at = '2026-02-20T09:00:00Z'): FhirResource => ({
+  resourceType: 'Observation',
+  id,
+  status: 'final',
+  code: { coding: [{ system: LOINC, code }] },
+  effectiveDateTime: at,
+  valueQuantity: { value, unit, code: unit },
+});
+
+describe('importFhirBundle', () => {
+  it('maps demographics, vitals and labs into the intake shape', () => {
+    const { patientData, labResults, report } = importFhirBundle(bundle(
+      patient,
+      vital('wt', '29463-7', 176, '[lb_av]'),
+      vital('ht', '8302-2', 165, 'cm'),
+      vital('temp', '8310-5', 37, 'Cel'),
+      {
+        resourceType: 'Observation',
+        id: 'bp',
+        code: { coding: [{ system: LOINC, code: '85354-9' }] },
+        component: [
+          { code: { coding: [{ system: LOINC, code: '8480-6' }] }, valueQuantity: { value: 142, unit: 'mm[Hg]' } },
+          { code: { coding: [{ system: LOINC, code: '8462-4' }] }, valueQuantity: { value: 88, unit: 'mm[Hg]' } },
+        ],
+      },
+      vital('egfr', '62238-1', 48, 'mL/min/{1.73_m2}'),
+      vital('creat-old', '2160-0', 1.2, 'mg/dL', '2025-11-01T09:00:00Z'),
+      vital('creat', '2160-0', 1.5, 'mg/dL'),
+      {
+        resourceType: 'Observation',
+        id: 'smoke',
+        code: { coding: [{ system: LOINC, code: '72166-2' }] },
+        valueCodeableConcept: { coding: [{ system: SNOMED, code: '8517006', display: 'Ex-smoker' }] },
+      },
+    ), NOW);
+
+    expect(patientData.demographics).toMatchObject({
+      patientId: '',
+      age: 65,
+      sex: 'female',
+      weight: 79.8,
+      height: 165,
+      temperature: 98.6,
+      bloodPressure: { systolic: 142, diastolic: 88 },
+    });
+    expect(patientData.lifestyle.smoking).toEqual({ status: 'former' });
+    expect(labResults.map(r => [r.testCode, r.value])).toEqual([['EGFR', 48], ['CREAT', 1.2], ['CREAT', 1.5]]);
+    expect(patientData.labs?.map(r => [r.testCode, r.value])).toEqual([['CREAT', 1.5], ['EGFR', 48]]);
+    expect(report.unmapped).toEqual([]);
+    expect(report.missing).toEqual(['lifestyle.alcohol', 'lifestyle.exercise', 'lifestyle.diet', 'lifestyle.chiefComplaint']);
+    expect(report.ambiguous).toEqual([{
+      resource: 'Patient/ehr-42',
+      target: 'demographics.patientId',
+      reason: 'FHIR id is not a UUID; a new patient id is assigned',
+    }]);
+  });
+
+  it('maps history and medications, resolving medication references in the bundle', () => {
+    const { patientData, report } = importFhirBundle(bundle(
+      patient,
+      {
+        resourceType: 'Condition',
+        id: 'htn',
+        clinicalStatus: { coding: [{ code: 'active' }] },
+        code: { text: 'Hypertension' },
+        severity: { coding: [{ system: SNOMED, code: '24484000' }] },
+        onsetDateTime: '2015-04-02',
+      },
+      { resourceType: 'Condition', id: 'old', clinicalStatus: { coding: [{ code: 'resolved' }] }, code: { text: 'Pneumonia' } },
+      {
+        resourceType: 'AllergyIntolerance',
+        id: 'pcn',
+        code: { text: 'Penicillin' },
+        reaction: [{ manifestation: [{ text: 'Anaphylaxis' }], severity: 'severe' }],
+      },
+      { resourceType: 'Medication', id: 'med-1', code: { coding: [{ display: 'Lisinopril 10 MG Oral Tablet' }] } },
+      {
+        resourceType: 'MedicationStatement',
+        id: 'ms-1',
+        status: 'active',
+        medicationReference: { reference: 'Medication/med-1' },
+        effectivePeriod: { start: '2024-01-10T00:00:00Z' },
+        dosage: [{
+          timing: { repeat: { frequency: 1, period: 1, periodUnit: 'd' } },
+          route: { coding: [{ system: SNOMED, code: '26643006' }] },
+          doseAndRate: [{ doseQuantity: { value: 10, unit: 'mg' } }],
+        }],
+      },
+      { resourceType: 'MedicationStatement', id: 'ms-2', status: 'stopped', medicationCodeableConcept: { text: 'Warfarin' } },
+      { resourceType: 'Procedure', id: 'chole', status: 'completed', code: { text: 'Cholecystectomy' }, performedDateTime: '2019-08-01' },
+      { resourceType: 'Immunization', id: 'flu' },
+    ), NOW);
+
+    expect(patientData.medicalHistory.conditions).toEqual([
+      { condition: 'Hypertension', diagnosisDate: '2015-04-02', severity: 'severe', controlled: false },
+    ]);
+    expect(patientData.medicalHistory.allergies).toEqual([
+      { allergen: 'Penicillin', reaction: 'Anaphylaxis', severity: 'anaphylaxis' },
+    ]);
+    expect(patientData.currentMedications.medications).toEqual([{
+      drugName: 'Lisinopril 10 MG Oral Tablet',
+      genericName: 'lisinopril',
+      dosage: '10 mg',
+      frequency: 'once daily',
+      route: 'oral',
+      startDate: '2024-01-10',
+      prescribedBy: '',
+    }]);
+    expect(patientData.medicalHistory.pastSurgeries).toEqual([{ procedure: 'Cholecystectomy', date: '2019-08-01' }]);
+    expect(report.unmapped).toEqual([
+      { resource: 'Condition/old', reason: 'clinical status is resolved' },
+      { resource: 'MedicationStatement/ms-2', reason: 'status is stopped' },
+      { resource: 'Immunization/flu', reason: 'Immunization resources are not part of the intake' },
+    ]);
+    expect(report.missing).toEqual([
+      'demographics.weight',
+      'demographics.height',
+      'lifestyle.smoking',
+      'lifestyle.alcohol',
+      'lifestyle.exercise',
+      'lifestyle.diet',
+      'lifestyle.chiefComplaint',
+    ]);
+  });
+
+  it('keeps the latest vital and reports defaulted or unusable values as ambiguous or unmapped', () => {
+    const { patientData, report } = importFhirBundle(bundle(
+      patient,
+      vital('wt-new', '29463-7', 82, 'kg', '2026-02-20T09:00:00Z'),
+      vital('wt-old', '29463-7', 85, 'kg', '2025-06-01T09:00:00Z'),
+      vital('creat', '2160-0', 140, 'umol/L'),
+      vital('ldl', '18262-6', 130, 'mg/dL'),
+      { resourceType: 'MedicationStatement', id: 'ms', status: 'active', medicationCodeableConcept: { text: 'Metformin' } },
+    ), NOW);
+
+    expect(patientData.demographics.weight).toBe(82);
+    expect(report.ambiguous).toEqual(expect.arrayContaining([
+      { resource: 'Observation/wt-old', target: 'demographics.weight', reason: 'superseded by the later reading in Observation/wt-new' },
+      { resource: 'MedicationStatement/ms', target: 'currentMedications.medications', reason: 'no dosage given' },
+    ]));
+    expect(report.unmapped).toEqual([
+      { resource: 'Observation/creat', reason: 'Serum creatinine must be reported in mg/dL' },
+      { resource: 'Observation/ldl', reason: 'no intake field for LOINC 18262-6 (unnamed)' },
+    ]);
+  });
+
+  it('rejects input that is not a single-patient bundle', () => {
+    expect(() => importFhirBundle({ resourceType: 'Patient' })).toThrow(FhirImportError);
+    expect(() => importFhirBundle(bundle())).toThrow('Bundle has no Patient resource');
+    expect(() => importFhirBundle(bundle(patient, { ...patient, id: 'other' })))
+      .toThrow('Bundle has 2 Patient resources; import one patient at a time');
+  });
+
+  it('rejects a malformed entry list or coding instead of failing partway', () => {
+    expect(() => importFhirBundle({ resourceType: 'Bundle', entry: { resource: patient } }))
+      .toThrow(new FhirImportError('Bundle entry must be an array'));
+    const badCoding = { ...vital('obs-bad', '29463-7', 72, 'kg'), code: { coding: { system: LOINC, code: '29463-7' } } };
+    expect(() => importFhirBundle(bundle(patient, badCoding as FhirResource)))
+      .toThrow(new FhirImportError('Observation/obs-bad has a coding that is not an array of codings'));
+  });
+});
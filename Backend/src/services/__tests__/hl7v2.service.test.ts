@@ -0,0 +1,252 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  Hl7Error,
+  buildAck,
+  mapAdtMessage,
+  mapOruMessage,
+  parseHl7Date,
+  parseHl7Message,
+  splitHl7Messages,
+} from '../hl7v2.service';
+import { hl7IngestService } from '../hl7-ingest.service';
+import { demoStorage } from '../demo-storage.service';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+const AUDIT = { userId: 'u-9', userName: 'Registration Interface' };
+
+const message = (...segments: string[]) => segments.join('\r');
+
+const adt = (event: string, controlId: string, ...body: string[]) => message(
+  `MSH|^~\\&|REGADT|MERCY|TPA|MERCY|20260301115500||ADT^${event}^ADT_A01|${controlId}|P|2.5.1`,
+  'EVN|A04|20260301115500',
+  'PID|1||MRN-1001^^^MERCY^MR||Doe^Jane||19600615|F',
+  ...body,
+);
+
+const registration = adt(
+  'A04',
+  'MSG0001',
+  'OBX|1|NM|29463-7^Body weight^LN||176|[lb_av]|||||F',
+  'OBX|2|NM|8302-2^Body height^LN||165|cm|||||F',
+  'DG1|1||I10^Essential hypertension^I10||20180301|F',
+  'AL1|1|DA|70618^Penicillin^RXNORM|SV|Hives~Wheezing',
+  'AL1|2|DA|2670^Codeine^RXNORM|MI|Anaphylaxis',
+);
+
+const labs = message(
+  'MSH|^~\\&|LAB|MERCY|TPA|MERCY|20260301110000||ORU^R01^ORU_R01|LAB0001|P|2.5.1',
+  'PID|1||MRN-1001^^^MERCY^MR',
+  'OBR|1|||BMP^Basic metabolic panel|||20260301083000',
+  'OBX|1|NM|2160-0^Creatinine^LN||1.4|mg/dL|0.6-1.3|H|||F',
+  'OBX|2|NM|2823-3^Potassium^LN||4.1|mmol/L|3.5-5.0||||F|||20260301090000',
+  'OBX|3|NM|2345-7^Glucose^LN||98|mg/dL|70-99||||F',
+  'OBX|4|NM|6301-6^INR^LN||2.1|{INR}|||||X',
+  'OBX|5|TX|EGFR^eGFR comment^L||See note||||||F',
+);
+
+describe('parseHl7Message', () => {
+  it('reads the header, unescapes values and tolerates MLLP framing and LF terminators', () => {
+    const parsed = parseHl7Message(`\u000b${registration.replace(/\r/g, '\n')}\u001c\r`);
+
+    expect(parsed).toMatchObject({
+      messageType: 'ADT',
+      triggerEvent: 'A04',
+      controlId: 'MSG0001',
+      sendingApplication: 'REGADT',
+      sendingFacility: 'MERCY',
+      version: '2.5.1',
+    });
+    expect(parsed.sentAt?.toISOString()).toBe('2026-03-01T11:55:00.000Z');
+    expect(parsed.segments.map(segment => segment.name)).toEqual(['MSH', 'EVN', 'PID', 'OBX', 'OBX', 'DG1', 'AL1', 'AL1']);
+
+    const escaped = parseHl7Message(adt('A08', 'MSG0002', 'DG1|1||I50^Heart failure \\T\\ edema\\F\\NYHA II'));
+    expect(mapAdtMessage(escaped, NOW).medicalHistory.conditions).toEqual([{ condition: 'Heart failure & edema|NYHA II' }]);
+  });
+
+  it('rejects input without a usable MSH', () => {
+    expect(() => parseHl7Message('PID|1||MRN-1')).toThrow(Hl7Error);
+    expect(() => parseHl7Message('MSH|^~\\&|A|B|C|D|20260301||ADT^A04|')).toThrow('MSH-10 message control id is required');
+  });
+
+  it('splits batch files at each MSH and drops the envelopes', () => {
+    const batch = ['FHS|^~\\&', 'BHS|^~\\&', registration, labs, 'BTS|2', 'FTS|1'].join('\n');
+    expect(splitHl7Messages(batch).map(text => parseHl7Message(text).controlId)).toEqual(['MSG0001', 'LAB0001']);
+  });
+
+  it('reads dates with and without an offset', () => {
+    expect(parseHl7Date('19600615')?.toISOString()).toBe('1960-06-15T00:00:00.000Z');
+    expect(parseHl7Date('202603010830-0500')?.toISOString()).toBe('2026-03-01T13:30:00.000Z');
+    expect(parseHl7Date('March 1')).toBeUndefined();
+  });
+});
+
+describe('mapAdtMessage', () => {
+  it('maps PID, OBX vitals, DG1 diagnoses and AL1 allergies to the raw intake shapes', () => {
+    const update = mapAdtMessage(parseHl7Message(registration), NOW);
+
+    expect(update.externalId).toBe('MRN-1001');
+    expect(update.demographics).toEqual({ externalId: 'MRN-1001', age: 65, sex: 'female', weight: 79.8, height: 165 });
+    expect(update.medicalHistory).toEqual({
+      conditions: [{ condition: 'Essential hypertension', diagnosisDate: '2018-03-01' }],
+      allergies: [
+        { allergen: 'Penicillin', reaction: 'Hives, Wheezing', severity: 'severe' },
+        { allergen: 'Codeine', reaction: 'Anaphylaxis', severity: 'anaphylaxis' },
+      ],
+    });
+    expect(update.warnings).toEqual([]);
+  });
+
+  it('leaves history untouched when the update carries no DG1 or AL1 segments', () => {
+    const update = mapAdtMessage(parseHl7Message(adt('A08', 'MSG0004')), NOW);
+    expect(update.medicalHistory).toEqual({});
+  });
+
+  it('requires a patient identifier', () => {
+    const withoutId = parseHl7Message(registration.replace('MRN-1001^^^MERCY^MR', ''));
+    expect(() => mapAdtMessage(withoutId, NOW)).toThrow('PID-3 patient identifier is required');
+  });
+});
+
+describe('mapOruMessage', () => {
+  it('takes numeric catalog results and reports what it skipped', () => {
+    const report = mapOruMessage(parseHl7Message(labs));
+
+    expect(report.labResults).toEqual([
+      { testCode: 'CREAT', value: '1.4', unit: 'mg/dL', referenceLow: 0.6, referenceHigh: 1.3, collectedAt: '2026-03-01T08:30:00.000Z' },
+      { testCode: 'K', value: '4.1', unit: 'mmol/L', referenceLow: 3.5, referenceHigh: 5, collectedAt: '2026-03-01T09:00:00.000Z' },
+    ]);
+    expect(report.warnings.map(warning => [warning.code, warning.location])).toEqual([
+      [103, 'OBX^3^3'],
+      [207, 'OBX^4^11'],
+      [102, 'OBX^5^2'],
+    ]);
+  });
+});
+
+describe('buildAck', () => {
+  it('answers the sender and lists errors with table 0357 codes', () => {
+    const ack = buildAck(parseHl7Message(registration), 'AE', {
+      application: 'TPA',
+      facility: 'MERCY',
+      controlId: 'ACK1',
+      now: NOW,
+      text: 'Patient MRN-1001 is not registered',
+      issues: [{ code: 101, severity: 'E', message: 'PID-7 date of birth is required', location: 'PID^1^7' }],
+    });
+
+    expect(ack.split('\r')).toEqual([
+      'MSH|^~\\&|TPA|MERCY|REGADT|MERCY|20260301120000+0000||ACK^A04^ACK|ACK1|P|2.5.1',
+      'MSA|AE|MSG0001|Patient MRN-1001 is not registered',
+      'ERR||PID^1^7|101^Required field missing^HL70357|E||||PID-7 date of birth is required',
+      '',
+    ]);
+  });
+});
+
+describe('hl7IngestService (demo mode)', () => {
+  beforeEach(() => {
+    demoStorage.clearAll();
+  });
+
+  it('registers on A04, updates on A08 and records ORU labs against the same patient', async () => {
+    const [registered] = await hl7IngestService.ingestBatch(registration, { source: 'http', audit: AUDIT }, NOW);
+    expect(registered.code).toBe('AA');
+    const patient = demoStorage.getPatient(registered.patientId!);
+    expect(patient).toMatchObject({ externalId: 'MRN-1001', age: 65, sex: 'female', weight: 79.8 });
+
+    const [updated] = await hl7IngestService.ingestBatch(
+      adt('A08', 'MSG0005', 'OBX|1|NM|29463-7^Body weight^LN||75|kg|||||F', 'AL1|1|FA|Peanut^Peanut'),
+      { source: 'http', audit: AUDIT },
+      NOW,
+    );
+    expect(updated).toMatchObject({ code: 'AA', patientId: registered.patientId });
+    expect(demoStorage.getPatient(registered.patientId!)).toMatchObject({ weight: 75, bmi: 27.5 });
+    expect(demoStorage.getMedicalHistory(registered.patientId!)).toMatchObject({
+      conditions: [{ condition: 'Essential hypertension' }],
+      allergies: [{ allergen: 'Penicillin' }, { allergen: 'Codeine' }, { allergen: 'Peanut', severity: 'moderate' }],
+    });
+
+    const [lab] = await hl7IngestService.ingestBatch(labs, { source: 'file', fileName: 'labs.hl7', audit: AUDIT }, NOW);
+    expect(lab.code).toBe('AA');
+    expect(demoStorage.getLabResults(registered.patientId!).map(result => result.testCode)).toEqual(['K', 'CREAT']);
+    expect(demoStorage.getAuditChain().filter(log => log.patientId === registered.patientId).map(log => log.action)).toEqual(['created', 'modified', 'modified']);
+  });
+
+  it('keeps stored allergies on A08, updating only what the AL1 carries', async () => {
+    const [registered] = await hl7IngestService.ingestBatch(registration, { source: 'http', audit: AUDIT }, NOW);
+    expect(registered.ack).toContain('|101^Required field missing^HL70357|W||||No lifestyle history in ADT');
+
+    const [updated] = await hl7IngestService.ingestBatch(
+      adt('A08', 'MSG0006', 'AL1|1|DA|70618^PENICILLIN^RXNORM|MI', 'DG1|1||E11^Type 2 diabetes^I10'),
+      { source: 'http', audit: AUDIT },
+      NOW,
+    );
+    expect(updated.code).toBe('AA');
+    expect(demoStorage.getMedicalHistory(registered.patientId!)).toMatchObject({
+      conditions: [{ condition: 'Essential hypertension' }, { condition: 'Type 2 diabetes' }],
+      allergies: [
+        { allergen: 'Penicillin', reaction: 'Hives, Wheezing', severity: 'mild' },
+        { allergen: 'Codeine', severity: 'anaphylaxis' },
+      ],
+    });
+  });
+
+  it('rejects an A08 that would fail intake validation and leaves the patient unchanged', async () => {
+    const [registered] = await hl7IngestService.ingestBatch(registration, { source: 'http', audit: AUDIT }, NOW);
+
+    const [invalid] = await hl7IngestService.ingestBatch(
+      adt('A08', 'MSG0007', 'AL1|1|FA|Peanut^Peanut').replace('||19600615|F', '||18000615|F'),
+      { source: 'http', audit: AUDIT },
+      NOW,
+    );
+    expect(invalid.code).toBe('AE');
+    expect(invalid.ack).toContain('ERR||PID^1^7|102^Data type error^HL70357|E||||demographics.age: Valid age is required (0-150)');
+    expect(demoStorage.getPatient(registered.patientId!)).toMatchObject({ age: 65 });
+    expect(demoStorage.getMedicalHistory(registered.patientId!)?.allergies).toHaveLength(2);
+  });
+
+  it('dead-letters what it cannot accept and replays it once the cause is fixed', async () => {
+    const [orphan] = await hl7IngestService.ingestBatch(labs, { source: 'http', audit: AUDIT }, NOW);
+    expect(orphan.code).toBe('AE');
+    expect(orphan.ack).toContain('ERR||PID^1^3|204^Unknown key identifier^HL70357|E');
+
+    const [unsupported] = await hl7IngestService.ingestBatch(
+      registration.replace('ADT^A04^ADT_A01', 'SIU^S12'),
+      { source: 'http', audit: AUDIT },
+      NOW,
+    );
+    expect(unsupported.code).toBe('AR');
+
+    const deadLetters = await hl7IngestService.listDeadLetters();
+    expect(deadLetters.map(letter => letter.messageType).sort()).toEqual(['ORU^R01', 'SIU^S12']);
+    const orphanLetter = deadLetters.find(letter => letter.id === orphan.deadLetterId)!;
+    expect(orphanLetter.error).toMatch(/No patient with identifier MRN-1001/);
+
+    await hl7IngestService.ingestBatch(registration, { source: 'http', audit: AUDIT }, NOW);
+    const replayed = await hl7IngestService.replayDeadLetter(orphanLetter.id, AUDIT, NOW);
+    expect(replayed?.code).toBe('AA');
+    expect(await hl7IngestService.getDeadLetter(orphanLetter.id)).toBeNull();
+    expect(await hl7IngestService.replayDeadLetter('missing', AUDIT, NOW)).toBeNull();
+  });
+
+  it('moves dropped files to processed or error and writes their ACKs', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hl7-drop-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'a-register.hl7'), registration);
+      fs.writeFileSync(path.join(dir, 'b-garbage.hl7'), 'not a message');
+      fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+      expect(await hl7IngestService.pollDropFolder(dir, NOW)).toBe(2);
+      expect(fs.readdirSync(path.join(dir, 'processed'))).toEqual(['a-register.hl7']);
+      expect(fs.readdirSync(path.join(dir, 'error'))).toEqual(['b-garbage.hl7']);
+      expect(fs.readFileSync(path.join(dir, 'ack', 'b-garbage.hl7.ack'), 'utf8')).toContain('MSA|AR||Message must start with an MSH segment');
+      expect(fs.existsSync(path.join(dir, 'notes.txt'))).toBe(true);
+      expect((await hl7IngestService.listDeadLetters())[0]).toMatchObject({ source: 'file', fileName: 'b-garbage.hl7', messageType: null });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
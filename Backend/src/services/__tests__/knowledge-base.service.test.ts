@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  KnowledgeActor,
+  KnowledgeBaseError,
+  KnowledgeBaseStore,
+  knowledgeBaseService,
+  knowledgeEntryKey,
+  normalizeKnowledgeEntry,
+} from '../knowledge-base.service';
+import {
+  KnowledgeBaseVersionRecord,
+  KnowledgeBaseVersionSummary,
+  KnowledgeChangeRecord,
+  KnowledgeChangeStatus,
+  KnowledgeInteractionEntry,
+  KnowledgeSnapshot,
+} from '../../types';
+
+// Keeps the live tables, changes and versions in memory, mirroring the database store
+class MemoryKnowledgeStore implements KnowledgeBaseStore {
+  live: KnowledgeSnapshot;
+  private readonly changes: KnowledgeChangeRecord[] = [];
+  private readonly versions: KnowledgeBaseVersionRecord[] = [];
+
+  constructor(live: KnowledgeSnapshot) {
+    this.live = live;
+  }
+
+  async listChanges(status?: KnowledgeChangeStatus) {
+    return this.changes.filter(c => !status || c.status === status).map(c => ({ ...c }));
+  }
+
+  async getChange(id: string) {
+    const change = this.changes.find(c => c.id === id);
+    return change ? { ...change } : null;
+  }
+
+  async createChange(change: Omit<KnowledgeChangeRecord, 'id' | 'createdAt'>) {
+    const record = { ...change, id: `change-${this.changes.length + 1}`, createdAt: new Date().toISOString() };
+    this.changes.push(record);
+    return { ...record };
+  }
+
+  async createChanges(changes: Omit<KnowledgeChangeRecord, 'id' | 'createdAt'>[]) {
+    const records = [];
+    for (const change of changes) records.push(await this.createChange(change));
+    return records;
+  }
+
+  async markReviewed(id: string, reviewer: KnowledgeActor, reviewedAt: string) {
+    const change = this.changes.find(c => c.id === id && c.status === 'draft');
+    if (!change) return false;
+    Object.assign(change, { status: 'reviewed', reviewerId: reviewer.userId, reviewerName: reviewer.userName, reviewedAt });
+    return true;
+  }
+
+  async listVersions(): Promise<KnowledgeBaseVersionSummary[]> {
+    return this.versions.map(({ snapshot: _snapshot, ...summary }) => summary);
+  }
+
+  async getVersion(version: string) {
+    return this.versions.find(v => v.version === version) ?? null;
+  }
+
+  async liveSnapshot() {
+    return this.live;
+  }
+
+  async publish(record: KnowledgeBaseVersionRecord) {
+    this.live = record.snapshot;
+    for (const v of this.versions) v.active = false;
+    this.versions.push({ ...record, active: true });
+    for (const change of this.changes.filter(c => record.changeIds.includes(c.id))) {
+      Object.assign(change, { status: 'published', publishedVersion: record.version });
+    }
+  }
+
+  async activate(version: string) {
+    const target = this.versions.find(v => v.version === version);
+    if (!target) return false;
+    this.live = target.snapshot;
+    for (const v of this.versions) v.active = v === target;
+    return true;
+  }
+}
+
+const AUTHOR: KnowledgeActor = { userId: 'rx-1', userName: 'Pharmacist One' };
+const REVIEWER: KnowledgeActor = { userId: 'rx-2', userName: 'Pharmacist Two' };
+const ADMIN: KnowledgeActor = { userId: 'admin-1', userName: 'Admin' };
+
+const SEEDED: KnowledgeSnapshot = {
+  interactions: [{
+    drug1: 'warfarin', drug2: 'aspirin', severity: 'major', effect: 'Bleeding risk',
+    mechanism: 'Additive anticoagulation', management: 'Avoid combination', evidence: 'definitive',
+    clinicalSignificance: 5,
+  }],
+  contraindications: [],
+  dosageGuidelines: [],
+  allergyGroups: [],
+};
+
+function interaction(drug1: string, drug2: string): KnowledgeInteractionEntry {
+  return normalizeKnowledgeEntry('interaction', {
+    drug1, drug2, severity: 'moderate', effect: 'Raised levels', mechanism: 'CYP3A4 inhibition',
+    management: 'Monitor', evidence: 'probable', clinicalSignificance: 3,
+  }).entry as KnowledgeInteractionEntry;
+}
+
+describe('normalizeKnowledgeEntry', () => {
+  it('lists every missing field and invalid value', () => {
+    const { entry, errors } = normalizeKnowledgeEntry('interaction', { drug1: 'simvastatin', severity: 'severe' });
+
+    expect(entry).toBeNull();
+    expect(errors).toEqual([
+      'drug2 is required',
+      'effect is required',
+      'mechanism is required',
+      'management is required',
+      'severity must be one of major, moderate, minor',
+      'evidence must be one of definitive, probable, suspected, theoretical',
+      'clinicalSignificance must be a whole number from 1 to 5',
+    ]);
+  });
+
+  it('trims text and fills optional columns', () => {
+    const { entry, errors } = normalizeKnowledgeEntry('dosage_guideline', {
+      drug: ' apixaban ', indication: 'Atrial fibrillation', standardDose: '5mg BID', maxDose: '10mg/day',
+    });
+
+    expect(errors).toEqual([]);
+    expect(entry).toEqual({
+      drug: 'apixaban',
+      indication: 'Atrial fibrillation',
+      standardDose: '5mg BID',
+      maxDose: '10mg/day',
+      renalAdjustment: {},
+      hepaticAdjustment: '',
+      geriatricAdjustment: '',
+      monitoringParameters: [],
+    });
+  });
+
+  it('requires at least one primary allergen for an allergy group', () => {
+    const { errors } = normalizeKnowledgeEntry('allergy_group', {
+      groupName: 'Sulfonamides', primaryAllergens: [], crossReactivityRate: '<10%', severity: 'moderate',
+      recommendation: 'Use with caution',
+    });
+
+    expect(errors).toEqual(['primaryAllergens must name at least one allergen']);
+  });
+});
+
+describe('knowledgeEntryKey', () => {
+  it('treats a reversed interaction pair as the same entry', () => {
+    expect(knowledgeEntryKey('interaction', interaction('Simvastatin', 'clarithromycin')))
+      .toBe(knowledgeEntryKey('interaction', interaction('clarithromycin', 'simvastatin')));
+  });
+});
+
+describe('knowledge-base authoring workflow', () => {
+  let store: MemoryKnowledgeStore;
+
+  beforeEach(() => {
+    store = new MemoryKnowledgeStore(SEEDED);
+    knowledgeBaseService.useStore(store);
+  });
+
+  it('records the existing tables as v1 before anything is published', async () => {
+    expect((await knowledgeBaseService.ensureBaseline()).version).toBe('v1');
+
+    const [baseline] = await knowledgeBaseService.listVersions();
+    expect(baseline).toMatchObject({ version: 'v1', publishedBy: 'system', changeIds: [], active: true });
+    expect((await knowledgeBaseService.getVersion('v1'))?.snapshot).toEqual(SEEDED);
+  });
+
+  it('keeps drafts out of the live tables until they are reviewed and published', async () => {
+    const draft = await knowledgeBaseService.submitDraft('interaction', interaction('clarithromycin', 'simvastatin'), AUTHOR);
+    await knowledgeBaseService.submitDraft('interaction', interaction('fluconazole', 'simvastatin'), AUTHOR);
+    expect(store.live.interactions).toHaveLength(1);
+
+    const reviewed = await knowledgeBaseService.review(draft.id, REVIEWER);
+    expect(reviewed).toMatchObject({ status: 'reviewed', reviewerName: 'Pharmacist Two' });
+
+    const published = await knowledgeBaseService.publish(ADMIN);
+    expect(published).toMatchObject({ version: 'v2', changeIds: [draft.id], active: true });
+    expect(store.live.interactions.map(i => i.drug1)).toEqual(['warfarin', 'clarithromycin']);
+    expect((await knowledgeBaseService.ensureBaseline()).version).toBe('v2');
+
+    const changes = await knowledgeBaseService.listChanges();
+    expect(changes.map(c => [c.status, c.publishedVersion])).toEqual([['published', 'v2'], ['draft', null]]);
+  });
+
+  it('refuses self-review, repeat review and empty publishes', async () => {
+    const draft = await knowledgeBaseService.submitDraft('interaction', interaction('clarithromycin', 'simvastatin'), AUTHOR);
+
+    await expect(knowledgeBaseService.review(draft.id, AUTHOR)).rejects.toThrow('someone other than its author');
+    await expect(knowledgeBaseService.publish(ADMIN)).rejects.toBeInstanceOf(KnowledgeBaseError);
+
+    await knowledgeBaseService.review(draft.id, REVIEWER);
+    await expect(knowledgeBaseService.review(draft.id, ADMIN)).rejects.toThrow('already reviewed');
+    expect(await knowledgeBaseService.review('missing', REVIEWER)).toBeNull();
+  });
+
+  it('rolls the live tables back to an earlier version', async () => {
+    const draft = await knowledgeBaseService.submitDraft('interaction', interaction('clarithromycin', 'simvastatin'), AUTHOR);
+    await knowledgeBaseService.review(draft.id, REVIEWER);
+    await knowledgeBaseService.publish(ADMIN);
+
+    const restored = await knowledgeBaseService.rollback('v1', ADMIN);
+
+    expect(restored).toMatchObject({ version: 'v1', active: true });
+    expect(store.live).toEqual(SEEDED);
+    expect((await knowledgeBaseService.ensureBaseline()).version).toBe('v1');
+    await expect(knowledgeBaseService.rollback('v1', ADMIN)).rejects.toThrow('already the active');
+    expect(await knowledgeBaseService.rollback('v9', ADMIN)).toBeNull();
+  });
+
+  it('builds the next version on top of the rolled-back tables', async () => {
+    for (const drug of ['clarithromycin', 'itraconazole']) {
+      const draft = await knowledgeBaseService.submitDraft('interaction', interaction(drug, 'simvastatin'), AUTHOR);
+      await knowledgeBaseService.review(draft.id, REVIEWER);
+      await knowledgeBaseService.publish(ADMIN);
+    }
+    await knowledgeBaseService.rollback('v2', ADMIN);
+
+    const draft = await knowledgeBaseService.submitDraft('interaction', interaction('verapamil', 'simvastatin'), AUTHOR);
+    await knowledgeBaseService.review(draft.id, REVIEWER);
+    const published = await knowledgeBaseService.publish(ADMIN);
+
+    expect(published.version).toBe('v4');
+    expect(store.live.interactions.map(i => i.drug1)).toEqual(['warfarin', 'clarithromycin', 'verapamil']);
+  });
+
+  it('replaces an existing entry instead of adding a duplicate', async () => {
+    const draft = await knowledgeBaseService.submitDraft('interaction', {
+      ...interaction('aspirin', 'warfarin'), severity: 'major', management: 'Avoid unless clearly indicated',
+    }, AUTHOR);
+    await knowledgeBaseService.review(draft.id, REVIEWER);
+    await knowledgeBaseService.publish(ADMIN);
+
+    expect(store.live.interactions).toHaveLength(1);
+    expect(store.live.interactions[0]).toMatchObject({ drug1: 'aspirin', management: 'Avoid unless clearly indicated' });
+  });
+});
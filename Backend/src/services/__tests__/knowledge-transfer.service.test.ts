@@ -0,0 +1,90 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCsv, planKnowledgeImport, toCsv } from '../knowledge-transfer.service';
+import { KnowledgeSnapshot } from '../../types';
+
+const LIVE: KnowledgeSnapshot = {
+  interactions: [{
+    drug1: 'warfarin', drug2: 'aspirin', severity: 'major', effect: 'Bleeding risk',
+    mechanism: 'Additive anticoagulation', management: 'Avoid combination', evidence: 'definitive',
+    clinicalSignificance: 5,
+  }],
+  contraindications: [],
+  dosageGuidelines: [{
+    drug: 'metformin', indication: 'Type 2 diabetes', standardDose: '500mg BID', maxDose: '2550mg/day',
+    renalAdjustment: { 'eGFR 30-45': 'Max 1000mg/day', 'eGFR <30': 'Contraindicated' },
+    hepaticAdjustment: 'Avoid', geriatricAdjustment: '', monitoringParameters: ['eGFR', 'B12'],
+  }],
+  allergyGroups: [],
+};
+
+const INTERACTION_HEADER = 'drug1,drug2,severity,effect,mechanism,management,evidence,clinicalSignificance';
+
+describe('parseCsv', () => {
+  it('handles quoted commas, escaped quotes and line breaks inside fields', () => {
+    const records = parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\r\n\r\nlast,row\r\n');
+
+    expect(records).toEqual([
+      { line: 1, fields: ['a', 'b'] },
+      { line: 2, fields: ['x, y', 'say "hi"\nthere'] },
+      { line: 5, fields: ['last', 'row'] },
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('writes lists and renal bands so the file imports back unchanged', () => {
+    const csv = toCsv(LIVE, 'dosage-guidelines');
+
+    expect(csv.split('\r\n')[1]).toBe(
+      'metformin,Type 2 diabetes,500mg BID,2550mg/day,"{""eGFR 30-45"":""Max 1000mg/day"",""eGFR <30"":""Contraindicated""}",Avoid,,,eGFR; B12,',
+    );
+    const { report } = planKnowledgeImport('csv', csv, LIVE, 'dosage-guidelines');
+    expect(report.summary).toMatchObject({ total: 1, unchanged: 1, inserts: 0, updates: 0 });
+  });
+});
+
+describe('planKnowledgeImport', () => {
+  it('counts inserts and updates, treating a reversed pair as the existing interaction', () => {
+    const { report, changes } = planKnowledgeImport('json', {
+      interactions: [
+        { ...LIVE.interactions[0], drug1: 'aspirin', drug2: 'warfarin', management: 'Avoid; monitor INR if used' },
+        { ...LIVE.interactions[0], drug1: 'simvastatin', drug2: 'clarithromycin' },
+      ],
+    }, LIVE);
+
+    expect(report).toMatchObject({ valid: true, issues: [] });
+    expect(report.summary).toMatchObject({ total: 2, inserts: 1, updates: 1, unchanged: 0 });
+    expect(changes.map(c => c.entry)).toMatchObject([{ drug1: 'aspirin' }, { drug1: 'simvastatin' }]);
+  });
+
+  it('reports invalid and duplicate rows by CSV line and drafts nothing', () => {
+    const csv = [
+      INTERACTION_HEADER,
+      'simvastatin,clarithromycin,major,Myopathy,CYP3A4 inhibition,Avoid,definitive,5',
+      'clarithromycin,Simvastatin,major,Myopathy,CYP3A4 inhibition,Avoid,definitive,5',
+      'fluconazole,simvastatin,severe,Myopathy,CYP3A4 inhibition,Avoid,definitive,high',
+    ].join('\n');
+
+    const { report, changes } = planKnowledgeImport('csv', csv, LIVE, 'interactions');
+
+    expect(report.valid).toBe(false);
+    expect(report.summary).toMatchObject({ total: 3, inserts: 1, invalid: 1, duplicates: 1 });
+    expect(report.issues).toEqual([
+      { dataset: 'interactions', row: 3, errors: ['Duplicates row 2 (same interaction)'] },
+      {
+        dataset: 'interactions',
+        row: 4,
+        errors: ['severity must be one of major, moderate, minor', 'clinicalSignificance must be a whole number from 1 to 5'],
+      },
+    ]);
+    expect(changes).toEqual([]);
+  });
+
+  it('rejects a CSV file with columns that do not belong to the dataset', () => {
+    const { report } = planKnowledgeImport('csv', 'drug,condition,dose\n', LIVE, 'contraindications');
+
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({ dataset: 'contraindications', row: 1 });
+    expect(report.issues[0].errors[0]).toContain('Unknown contraindication column(s): dose');
+  });
+});
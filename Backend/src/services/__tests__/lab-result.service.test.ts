@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { labResultService, latestLabResults, normalizeLabResults } from '../lab-result.service';
+import { demoStorage } from '../demo-storage.service';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+describe('normalizeLabResults', () => {
+  it('fills units and reference ranges from the catalog', () => {
+    const { results, errors } = normalizeLabResults(
+      [{ testCode: 'creat', value: '1.8', collectedAt: '2026-02-20' }],
+      NOW,
+    );
+
+    expect(errors).toEqual([]);
+    expect(results).toEqual([{
+      testCode: 'CREAT',
+      value: 1.8,
+      unit: 'mg/dL',
+      referenceLow: 0.6,
+      referenceHigh: 1.3,
+      collectedAt: '2026-02-20T00:00:00.000Z',
+    }]);
+  });
+
+  it('rejects unknown tests, bad values and units the dosing formulas cannot use', () => {
+    const { results, errors } = normalizeLabResults([
+      { testCode: 'XYZ', value: 1 },
+      { testCode: 'INR', value: 'high' },
+      { testCode: 'CREAT', value: 140, unit: 'umol/L' },
+      { testCode: 'ALB', value: 3.1 },
+    ], NOW);
+
+    expect(results.map(r => r.testCode)).toEqual(['ALB']);
+    expect(results[0].collectedAt).toBe(NOW.toISOString());
+    expect(errors).toEqual([
+      'labResults[0]: unknown test code "XYZ"',
+      'labResults[1]: INR value must be a non-negative number',
+      'labResults[2]: Serum creatinine must be reported in mg/dL',
+    ]);
+  });
+});
+
+describe('latestLabResults', () => {
+  it('keeps the most recently collected value of each test', () => {
+    const { results } = normalizeLabResults([
+      { testCode: 'CREAT', value: 1.1, collectedAt: '2026-01-05' },
+      { testCode: 'INR', value: 2.4, collectedAt: '2026-01-10' },
+      { testCode: 'CREAT', value: 2.1, collectedAt: '2026-02-15' },
+      { testCode: 'CREAT', value: 1.4, collectedAt: '2025-12-01' },
+    ], NOW);
+
+    expect(latestLabResults(results).map(r => [r.testCode, r.value])).toEqual([['CREAT', 2.1], ['INR', 2.4]]);
+  });
+});
+
+describe('labResultService (demo mode)', () => {
+  beforeEach(() => {
+    demoStorage.clearAll();
+  });
+
+  it('appends to the history and serves the latest values', async () => {
+    const patient = demoStorage.createPatient({
+      patientId: 'PT-LAB', age: 70, sex: 'male', weight: 80, height: 175, bmi: 26.1,
+      systolicBp: 130, diastolicBp: 80, heartRate: 70, temperature: 98.6,
+    });
+
+    await labResultService.record(patient.id, normalizeLabResults([{ testCode: 'CREAT', value: 1.0, collectedAt: '2026-01-01' }]).results);
+    await labResultService.record(patient.id, normalizeLabResults([{ testCode: 'CREAT', value: 2.3, collectedAt: '2026-02-01' }]).results);
+
+    const history = await labResultService.list(patient.id);
+    expect(history.map(r => r.value)).toEqual([2.3, 1.0]);
+    expect(history[0].patientId).toBe(patient.id);
+
+    const latest = await labResultService.latest(patient.id);
+    expect(latest).toHaveLength(1);
+    expect(latest[0]).not.toHaveProperty('id');
+    expect(latest[0].value).toBe(2.3);
+  });
+});
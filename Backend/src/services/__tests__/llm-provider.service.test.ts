@@ -0,0 +1,314 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  createLlmProvider,
+  FixtureReplayProvider,
+  fixtureKeyFor,
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmProviderError,
+  RecordingProvider,
+} from '../llm-provider.service';
+import { analyzeWithRetry, getLlmProvider, llmValidationMetrics, setLlmProvider } from '../openai.service';
+import { config } from '../../config';
+import { validateConfig } from '../../config/validate-config';
+import { CompletePatientData, TreatmentPlanResponse } from '../../types';
+
+function buildPatientData(patientId = 'PT-001'): CompletePatientData {
+  return {
+    demographics: {
+      patientId,
+      age: 58,
+      sex: 'female',
+      weight: 70,
+      height: 165,
+      bmi: 25.7,
+      bloodPressure: { systolic: 128, diastolic: 82 },
+      heartRate: 72,
+      temperature: 98.6,
+    },
+    medicalHistory: {
+      conditions: [{ condition: 'Hypertension', diagnosisDate: '2019-04-01', severity: 'mild', controlled: true }],
+      allergies: [],
+      pastSurgeries: [],
+      familyHistory: [],
+    },
+    currentMedications: { medications: [] },
+    lifestyle: {
+      smoking: { status: 'never' },
+      alcohol: { frequency: 'none' },
+      exercise: { frequency: 'moderate' },
+      diet: 'standard',
+      chiefComplaint: { complaint: 'Weight management', duration: '1 year', severity: 2, symptoms: [] },
+    },
+  };
+}
+
+const RECORDED_PLAN = {
+  treatmentPlan: {
+    primaryTreatment: {
+      medication: 'Orlistat', genericName: 'orlistat', dosage: '120mg', frequency: 'TID',
+      duration: 'Long-term', route: 'oral', instructions: 'Take with meals',
+    },
+    alternativeTreatments: [],
+    supportiveCare: [],
+  },
+  riskAssessment: { overallRisk: 'LOW', riskScore: 18, confidenceScore: 88, riskFactors: [] },
+  flaggedIssues: [],
+  drugInteractions: [],
+  contraindications: [],
+  rationale: { primaryChoice: 'Recorded', riskBenefit: '', alternativeRationale: '', monitoringPlan: '', patientEducation: '' },
+  evidenceSources: ['Clinical Guidelines'],
+};
+
+// Stands in for a live model so recordings can be made without the network
+class StubProvider implements LlmProvider {
+  readonly name = 'openai-compatible' as const;
+  readonly model = 'stub-model';
+  calls = 0;
+
+  async complete(_request: LlmCompletionRequest): Promise<LlmCompletion> {
+    this.calls += 1;
+    return { content: JSON.stringify(RECORDED_PLAN), model: 'stub-model:7b' };
+  }
+}
+
+// Answers each call with the next scripted response and keeps the requests
+class ScriptedProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+  readonly model = 'scripted';
+  readonly requests: LlmCompletionRequest[] = [];
+
+  constructor(private readonly responses: string[]) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    this.requests.push(request);
+    const content = this.responses[Math.min(this.requests.length, this.responses.length) - 1];
+    return { content, model: 'scripted' };
+  }
+}
+
+function request(patientData: CompletePatientData): LlmCompletionRequest {
+  return { systemPrompt: 'system', userMessage: 'user', fixtureKey: fixtureKeyFor(patientData) };
+}
+
+describe('fixtureKeyFor', () => {
+  it('ignores the generated patient id but not the clinical data', () => {
+    const first = buildPatientData('PT-1700000000001');
+    const second = buildPatientData('PT-1700000000002');
+    const older = { ...first, demographics: { ...first.demographics, age: 81 } };
+
+    expect(fixtureKeyFor(first)).toBe(fixtureKeyFor(second));
+    expect(fixtureKeyFor(first)).not.toBe(fixtureKeyFor(older));
+  });
+});
+
+describe('fixture recording and replay', () => {
+  let fixtureDir: string;
+
+  beforeEach(() => {
+    fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(fixtureDir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded completion and names the model it came from', async () => {
+    const stub = new StubProvider();
+    const recorder = new RecordingProvider(stub, fixtureDir);
+    expect(recorder.name).toBe('openai-compatible');
+
+    await recorder.complete(request(buildPatientData()));
+    const replayed = await new FixtureReplayProvider(fixtureDir).complete(request(buildPatientData('PT-OTHER')));
+
+    expect(stub.calls).toBe(1);
+    expect(JSON.parse(replayed.content)).toEqual(RECORDED_PLAN);
+    expect(replayed.model).toBe('openai-compatible:stub-model:7b');
+  });
+
+  it('fails without retry when no fixture was recorded for the case', async () => {
+    const replay = new FixtureReplayProvider(fixtureDir);
+
+    const error = await replay.complete(request(buildPatientData())).catch(e => e);
+    expect(error).toBeInstanceOf(LlmProviderError);
+    expect(error).toMatchObject({ provider: 'fixture', retryable: false });
+  });
+
+  it('fails without retry when the recorded fixture is corrupt', async () => {
+    await new RecordingProvider(new StubProvider(), fixtureDir).complete(request(buildPatientData()));
+    for (const file of fs.readdirSync(fixtureDir)) fs.writeFileSync(path.join(fixtureDir, file), '{"content": ');
+
+    const error = await new FixtureReplayProvider(fixtureDir).complete(request(buildPatientData())).catch(e => e);
+    expect(error).toBeInstanceOf(LlmProviderError);
+    expect(error).toMatchObject({ provider: 'fixture', retryable: false });
+  });
+});
+
+describe('createLlmProvider', () => {
+  const settings = { ...config.llm, provider: '', baseUrl: 'http://localhost:11434/v1', recordFixtures: false };
+
+  it('builds the configured provider', () => {
+    const local = createLlmProvider({ ...settings, provider: 'openai-compatible', model: 'llama3.1:8b' });
+    expect(local).toMatchObject({ name: 'openai-compatible', model: 'llama3.1:8b' });
+    expect(createLlmProvider({ ...settings, provider: 'fixture' })).toBeInstanceOf(FixtureReplayProvider);
+    expect(createLlmProvider({ ...settings, provider: 'openai-compatible', recordFixtures: true })).toBeInstanceOf(RecordingProvider);
+  });
+
+  it('returns null for rule-based and unknown providers', () => {
+    expect(createLlmProvider({ ...settings, provider: 'rule-based' })).toBeNull();
+    expect(createLlmProvider({ ...settings, provider: 'gpt-neo' })).toBeNull();
+  });
+
+  it('falls back to rule-based for an OpenAI-compatible provider without a base URL and reports it at startup', () => {
+    expect(createLlmProvider({ ...settings, provider: 'openai-compatible', baseUrl: '' })).toBeNull();
+
+    const original = { ...config.llm };
+    Object.assign(config.llm, { provider: 'openai-compatible', baseUrl: '' });
+    try {
+      expect(validateConfig().errors).toContain('LLM_BASE_URL is required when LLM_PROVIDER is openai-compatible');
+    } finally {
+      Object.assign(config.llm, original);
+    }
+  });
+});
+
+describe('analyzeWithRetry provenance', () => {
+  const originalProvider = getLlmProvider();
+  let fixtureDir: string;
+
+  beforeEach(() => {
+    fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+  });
+
+  afterEach(() => {
+    setLlmProvider(originalProvider);
+    fs.rmSync(fixtureDir, { recursive: true, force: true });
+  });
+
+  it('labels plans with the provider that produced them', async () => {
+    const patientData = buildPatientData();
+    await new RecordingProvider(new StubProvider(), fixtureDir).complete(request(patientData));
+    setLlmProvider(new FixtureReplayProvider(fixtureDir));
+
+    const plan: TreatmentPlanResponse = await analyzeWithRetry(patientData);
+
+    expect(plan.treatmentPlan.primaryTreatment.medication).toBe('Orlistat');
+    expect(plan.generatedBy).toEqual({ provider: 'fixture', model: 'openai-compatible:stub-model:7b' });
+  });
+
+  it('marks the rule-based fallback instead of passing it off as model output', async () => {
+    setLlmProvider(new FixtureReplayProvider(fixtureDir));
+
+    const plan = await analyzeWithRetry(buildPatientData());
+
+    expect(plan.generatedBy?.provider).toBe('rule-based');
+    expect(plan.generatedBy?.fallback?.from).toBe('fixture');
+    expect(plan.generatedBy?.fallback?.reason).toMatch(/No recorded response/);
+  });
+
+  it('labels rule-based plans when no provider is configured', async () => {
+    setLlmProvider(null);
+
+    const plan = await analyzeWithRetry(buildPatientData());
+
+    expect(plan.generatedBy).toEqual({ provider: 'rule-based', model: 'local-rules-v1' });
+  });
+});
+
+describe('rule-based plan safety', () => {
+  const originalProvider = getLlmProvider();
+
+  afterEach(() => {
+    setLlmProvider(originalProvider);
+  });
+
+  it('flags teratogenic medications for a pregnant patient', async () => {
+    setLlmProvider(null);
+    const patientData = buildPatientData();
+    patientData.demographics = { ...patientData.demographics, pregnant: true, trimester: 3 };
+    patientData.currentMedications.medications = [{
+      drugName: 'Lisinopril', genericName: 'lisinopril', dosage: '10mg', frequency: 'daily', route: 'oral', startDate: '2024-01-01', prescribedBy: 'Dr. Chen',
+    }];
+
+    const plan = await analyzeWithRetry(patientData);
+
+    const pregnancyIssues = plan.flaggedIssues.filter(issue => issue.type === 'pregnancy');
+    expect(pregnancyIssues.map(issue => [issue.affectedDrugs?.[0], issue.severity])).toEqual([
+      ['semaglutide', 'high'],
+      ['lisinopril', 'critical'],
+    ]);
+    expect(plan.riskAssessment.overallRisk).toBe('CRITICAL');
+  });
+
+  it('flags adult-only medications proposed for a child', async () => {
+    setLlmProvider(null);
+    const patientData = buildPatientData();
+    patientData.demographics = { ...patientData.demographics, age: 15, weight: 55 };
+    patientData.lifestyle.chiefComplaint = { complaint: 'Hair loss', duration: '6 months', severity: 2, symptoms: [] };
+
+    const plan = await analyzeWithRetry(patientData);
+
+    const pediatricIssue = plan.flaggedIssues.find(issue => issue.description.startsWith('PEDIATRIC CONTRAINDICATION'));
+    expect(pediatricIssue).toMatchObject({ type: 'contraindication', severity: 'critical', affectedDrugs: ['finasteride'] });
+    expect(plan.riskAssessment.overallRisk).toBe('CRITICAL');
+  });
+});
+
+describe('LLM output schema validation', () => {
+  const originalProvider = getLlmProvider();
+  const invalidPlan = JSON.stringify({
+    ...RECORDED_PLAN,
+    riskAssessment: { ...RECORDED_PLAN.riskAssessment, overallRisk: 'low' },
+  });
+
+  beforeEach(() => {
+    llmValidationMetrics.reset();
+  });
+
+  afterEach(() => {
+    setLlmProvider(originalProvider);
+  });
+
+  it('sends validation errors back to the model and uses the repaired plan', async () => {
+    const provider = new ScriptedProvider([invalidPlan, JSON.stringify(RECORDED_PLAN)]);
+    setLlmProvider(provider);
+
+    const plan = await analyzeWithRetry(buildPatientData());
+
+    expect(plan.riskAssessment.overallRisk).toBe('LOW');
+    expect(plan.generatedBy?.provider).toBe('openai');
+    expect(provider.requests).toHaveLength(2);
+
+    const repair = provider.requests[1];
+    expect(repair.fixtureKey).toBe(`${provider.requests[0].fixtureKey}.repair-1`);
+    expect(repair.followUp?.[0]).toEqual({ role: 'assistant', content: invalidPlan });
+    expect(repair.followUp?.[1].content).toContain('/riskAssessment/overallRisk');
+    expect(repair.followUp?.[1].content).toContain('LOW, MEDIUM, HIGH, CRITICAL');
+
+    expect(llmValidationMetrics.getStats()).toMatchObject({ responses: 1, repaired: 1, repairRequests: 1, repairRate: 1 });
+  });
+
+  it('gives up after the bounded number of repairs and falls back visibly', async () => {
+    const provider = new ScriptedProvider(['{"treatmentPlan": ']);
+    setLlmProvider(provider);
+
+    const plan = await analyzeWithRetry(buildPatientData());
+
+    expect(provider.requests).toHaveLength(1 + config.llm.maxRepairAttempts);
+    expect(plan.generatedBy?.provider).toBe('rule-based');
+    expect(plan.generatedBy?.fallback?.reason).toMatch(/failed schema validation/);
+    expect(llmValidationMetrics.getStats()).toMatchObject({ responses: 1, failed: 1, repairRate: 1 });
+  });
+
+  it('counts responses that were valid first time', async () => {
+    setLlmProvider(new ScriptedProvider([JSON.stringify(RECORDED_PLAN)]));
+
+    await analyzeWithRetry(buildPatientData());
+
+    expect(llmValidationMetrics.getStats()).toMatchObject({ responses: 1, validFirstTime: 1, repairRate: 0 });
+  });
+});
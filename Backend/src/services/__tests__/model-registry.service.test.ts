@@ -0,0 +1,159 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { adaptiveLearningService, AdaptiveTrainingSample, FileSampleStore } from '../adaptive-learning.service';
+import { FileModelStore, MAX_RETRAIN_INTERVAL_HOURS, modelRegistryService } from '../model-registry.service';
+import { predictRiskScore, RISK_MODEL_FORMAT, trainRiskModel, TrainingSample } from '../risk-model-trainer.service';
+import { config } from '../../config';
+
+// Risk rises with age and blood pressure; everything else is noise-free filler
+function buildSamples(count: number): TrainingSample[] {
+  return Array.from({ length: count }, (_, i) => {
+    const age = 20 + ((i * 37) % 70);
+    const systolic = 100 + ((i * 53) % 80);
+    const output = Math.round(10 + (age - 20) * 0.6 + (systolic - 100) * 0.4);
+    return { inputs: [age, 26, systolic, 80, 72, 1, 0, 2, 0, 0, 30], output };
+  });
+}
+
+function toStoredSample(sample: TrainingSample, i: number): AdaptiveTrainingSample {
+  return {
+    id: `sample-${i}`,
+    inputs: sample.inputs,
+    output: sample.output,
+    category: 'MEDIUM',
+    source: 'test',
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString(),
+  };
+}
+
+describe('trainRiskModel', () => {
+  it('produces an artifact in the frontend layer layout', async () => {
+    const { artifact, metrics } = await trainRiskModel(buildSamples(40), { epochs: 2 });
+
+    expect(artifact.format).toBe(RISK_MODEL_FORMAT);
+    expect(artifact.featureRanges).toHaveLength(11);
+    expect(artifact.weights.map(w => w.shape)).toEqual([[11, 64], [64], [64, 32], [32], [32, 16], [16], [16, 1], [1]]);
+    expect(artifact.weights[0].values).toHaveLength(11 * 64);
+    expect(metrics).toMatchObject({ trainingSamples: 34, validationSamples: 6, epochs: 2 });
+  });
+
+  it('is reproducible for the same seed', async () => {
+    const first = await trainRiskModel(buildSamples(40), { epochs: 3, seed: 7 });
+    const second = await trainRiskModel(buildSamples(40), { epochs: 3, seed: 7 });
+
+    expect(second.artifact.weights).toEqual(first.artifact.weights);
+  });
+
+  it('learns the relation in the samples', async () => {
+    const samples = buildSamples(300);
+    const { artifact, metrics } = await trainRiskModel(samples, { epochs: 40, learningRate: 0.005 });
+
+    expect(metrics.validationMae).not.toBeNull();
+    expect(metrics.validationMae!).toBeLessThan(6);
+    expect(predictRiskScore(artifact, [85, 26, 170, 80, 72, 1, 0, 2, 0, 0, 30]))
+      .toBeGreaterThan(predictRiskScore(artifact, [25, 26, 105, 80, 72, 1, 0, 2, 0, 0, 30]) + 30);
+  });
+});
+
+describe('FileSampleStore', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adaptive-samples-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('reloads the most recent samples and skips a torn last line', async () => {
+    const store = new FileSampleStore(dataDir);
+    const samples = buildSamples(5).map(toStoredSample);
+    for (const sample of samples) {
+      await store.append(sample);
+    }
+    fs.appendFileSync(path.join(dataDir, 'adaptive-samples.jsonl'), '{"id":"torn","inp');
+
+    const loaded = await new FileSampleStore(dataDir).load(3);
+
+    expect(loaded.map(s => s.id)).toEqual(['sample-2', 'sample-3', 'sample-4']);
+  });
+});
+
+describe('modelRegistryService', () => {
+  const originalMl = { ...config.ml };
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'risk-models-'));
+    Object.assign(config.ml, { minTrainingSamples: 20, trainingEpochs: 2 });
+    modelRegistryService.useStore(new FileModelStore(dataDir));
+  });
+
+  afterEach(() => {
+    Object.assign(config.ml, originalMl);
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function seedSamples(count: number): Promise<void> {
+    const store = new FileSampleStore(dataDir);
+    for (const [i, sample] of buildSamples(count).entries()) {
+      await store.append(toStoredSample(sample, i));
+    }
+    await adaptiveLearningService.initialize(store);
+  }
+
+  it('refuses to train on too few samples', async () => {
+    await seedSamples(5);
+
+    const { job } = modelRegistryService.startTraining('Test Admin');
+    const finished = await modelRegistryService.waitForJob(job.id);
+
+    expect(finished).toMatchObject({ status: 'failed', sampleCount: 5 });
+    expect(finished?.error).toMatch(/At least 20 adaptive samples/);
+    expect(await modelRegistryService.list()).toEqual([]);
+  });
+
+  it('versions each run and serves the pinned artifact', async () => {
+    await seedSamples(30);
+
+    const first = modelRegistryService.startTraining('Test Admin', true);
+    expect(first.started).toBe(true);
+    expect(modelRegistryService.startTraining('Test Admin').started).toBe(false);
+    await modelRegistryService.waitForJob(first.job.id);
+
+    const second = modelRegistryService.startTraining('Test Admin');
+    await modelRegistryService.waitForJob(second.job.id);
+
+    const versions = await modelRegistryService.list();
+    expect(versions.map(v => [v.version, v.pinned])).toEqual([['v1', true], ['v2', false]]);
+    expect(versions[1]).toMatchObject({ sampleCount: 30, trainedBy: 'Test Admin' });
+    expect((await modelRegistryService.get('pinned'))?.version).toBe('v1');
+    expect((await modelRegistryService.get('latest'))?.artifact.format).toBe(RISK_MODEL_FORMAT);
+
+    expect(await modelRegistryService.pin('v2')).toMatchObject({ version: 'v2', pinned: true });
+    expect((await modelRegistryService.get('pinned'))?.version).toBe('v2');
+    expect(await modelRegistryService.pin('v9')).toBeNull();
+  });
+});
+
+describe('scheduleRetraining', () => {
+  afterEach(() => {
+    modelRegistryService.scheduleRetraining(0);
+    jest.restoreAllMocks();
+  });
+
+  it('caps the interval below the timer limit and ignores invalid values', () => {
+    const setIntervalSpy = jest.spyOn(global, 'setInterval');
+
+    modelRegistryService.scheduleRetraining(24 * 365);
+    expect(setIntervalSpy).toHaveBeenLastCalledWith(expect.any(Function), MAX_RETRAIN_INTERVAL_HOURS * 60 * 60 * 1000);
+    expect(MAX_RETRAIN_INTERVAL_HOURS * 60 * 60 * 1000).toBeLessThanOrEqual(2 ** 31 - 1);
+
+    setIntervalSpy.mockClear();
+    for (const hours of [-1, Number.NaN, Number.POSITIVE_INFINITY, 0]) modelRegistryService.scheduleRetraining(hours);
+    expect(setIntervalSpy).not.toHaveBeenCalled();
+  });
+});
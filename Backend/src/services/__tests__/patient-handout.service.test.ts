@@ -0,0 +1,235 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  assessReadingLevel,
+  buildPatientHandout,
+  normalizeHandoutRequest,
+  parseDoseTimes,
+  renderHandoutPdf,
+} from '../patient-handout.service';
+import { CompletePatientData, TreatmentPlanResponse } from '../../types';
+
+const NOW = new Date('2026-03-01T15:30:00.000Z');
+
+const patient: CompletePatientData = {
+  demographics: {
+    patientId: 'c0ffee00-0000-4000-8000-000000000001',
+    age: 67,
+    sex: 'female',
+    weight: 72,
+    height: 160,
+    bmi: 28.125,
+    bloodPressure: { systolic: 152, diastolic: 94 },
+    heartRate: 78,
+    temperature: 98.4,
+  },
+  medicalHistory: {
+    conditions: [{ condition: 'Hypertension', diagnosisDate: '2019-04-01', severity: 'moderate', controlled: false }],
+    allergies: [{ allergen: 'Sulfa drugs', reaction: 'Rash', severity: 'moderate' }],
+    pastSurgeries: [],
+    familyHistory: [],
+  },
+  currentMedications: { medications: [] },
+  lifestyle: {
+    smoking: { status: 'never' },
+    alcohol: { frequency: 'occasional' },
+    exercise: { frequency: 'light' },
+    diet: 'standard',
+    chiefComplaint: { complaint: 'Elevated home BP readings', duration: '3 weeks', severity: 2, symptoms: [] },
+  },
+};
+
+const treatmentData: TreatmentPlanResponse = {
+  treatmentPlan: {
+    primaryTreatment: {
+      medication: 'Zestril',
+      genericName: 'lisinopril',
+      dosage: '10mg',
+      frequency: 'once daily',
+      duration: '14 days',
+      route: 'oral',
+      instructions: 'Take at bedtime with a glass of water.',
+    },
+    alternativeTreatments: [],
+    supportiveCare: ['Eat less salt', 'Walk for 30 minutes most days'],
+  },
+  riskAssessment: { overallRisk: 'MEDIUM', riskScore: 40, confidenceScore: 85, riskFactors: [] },
+  flaggedIssues: [],
+  drugInteractions: [],
+  contraindications: [],
+  rationale: {
+    primaryChoice: 'First-line ACE inhibitor',
+    riskBenefit: '',
+    alternativeRationale: '',
+    monitoringPlan: 'BMP at 1 week',
+    patientEducation: 'Maintain adequate hydration and monitor for symptomatic hypotension following initiation of antihypertensive pharmacotherapy.',
+  },
+};
+
+const plan = {
+  id: '8a1f4c52-1d3e-4c0b-9d57-2f6a0c1e9b11',
+  patientId: patient.demographics.patientId,
+  treatmentData,
+  approvedBy: 'Dr. Rivera',
+  approvedAt: NOW,
+  knowledgeBaseVersion: '12',
+  createdAt: NOW,
+};
+
+const followUps = [
+  { scheduledDate: '2026-03-08', type: 'lab-review' as const, description: 'Potassium check' },
+];
+
+describe('parseDoseTimes', () => {
+  it('maps frequencies to times of day and reads the time from the instructions for once-daily doses', () => {
+    expect(parseDoseTimes('once daily')).toEqual(['morning']);
+    expect(parseDoseTimes('once daily', 'Take at bedtime')).toEqual(['bedtime']);
+    expect(parseDoseTimes('BID')).toEqual(['morning', 'evening']);
+    expect(parseDoseTimes('Three times daily with meals')).toEqual(['morning', 'midday', 'evening']);
+    expect(parseDoseTimes('q6h')).toEqual(['morning', 'midday', 'evening', 'bedtime']);
+    expect(parseDoseTimes('every 6 hours as needed')).toEqual([]);
+    expect(parseDoseTimes('once weekly')).toEqual([]);
+  });
+});
+
+describe('assessReadingLevel', () => {
+  it('scores plain text below the target and lists long, hard sentences', () => {
+    expect(assessReadingLevel(['Take 1 pill every morning.', 'Call us if you feel dizzy.'])).toMatchObject({
+      targetGrade: 6,
+      meetsTarget: true,
+      hardSentences: [],
+    });
+
+    const dense = assessReadingLevel([treatmentData.rationale.patientEducation, 'Drinking alcohol']);
+    expect(dense.meetsTarget).toBe(false);
+    expect(dense.grade).toBeGreaterThan(12);
+    expect(dense.hardSentences).toEqual([treatmentData.rationale.patientEducation]);
+  });
+});
+
+describe('normalizeHandoutRequest', () => {
+  it('keeps upcoming follow-ups soonest first and defaults to a PDF starting today', () => {
+    const { options, errors } = normalizeHandoutRequest({
+      followUps: [
+        { scheduledDate: '2026-04-01T09:00:00.000Z', type: 'check-up', description: ' BP check ' },
+        { scheduledDate: '2026-02-20', type: 'lab-review' },
+        { scheduledDate: '2026-03-10', type: 'medication-review', completed: true },
+        { scheduledDate: '2026-03-08', type: 'lab-review' },
+      ],
+    }, NOW);
+
+    expect(errors).toEqual([]);
+    expect(options).toEqual({
+      followUps: [
+        { scheduledDate: '2026-03-08', type: 'lab-review', description: '' },
+        { scheduledDate: '2026-04-01', type: 'check-up', description: 'BP check' },
+      ],
+      largePrint: false,
+      startDate: '2026-03-01',
+      format: 'pdf',
+    });
+  });
+
+  it('keeps follow-ups due on the client\'s today when the server is already past midnight UTC', () => {
+    const { options } = normalizeHandoutRequest({
+      startDate: '2026-02-28',
+      followUps: [
+        { scheduledDate: '2026-02-27', type: 'check-up' },
+        { scheduledDate: '2026-02-28', type: 'lab-review', description: 'Potassium check' },
+      ],
+    }, new Date('2026-03-01T03:00:00.000Z'));
+
+    expect(options?.startDate).toBe('2026-02-28');
+    expect(options?.followUps).toEqual([{ scheduledDate: '2026-02-28', type: 'lab-review', description: 'Potassium check' }]);
+  });
+
+  it('reports every invalid field', () => {
+    const { options, errors } = normalizeHandoutRequest({
+      format: 'docx',
+      startDate: '2026-02-30',
+      followUps: [{ scheduledDate: 'next week', type: 'dentist' }],
+    }, NOW);
+
+    expect(options).toBeNull();
+    expect(errors).toEqual([
+      'format must be one of pdf, json',
+      'invalid startDate "2026-02-30"',
+      'followUps[0].scheduledDate must be a date',
+      'followUps[0].type must be one of check-up, lab-review, medication-review, specialist-referral',
+    ]);
+  });
+});
+
+describe('buildPatientHandout', () => {
+  const handout = buildPatientHandout(plan, patient, { followUps, startDate: '2026-03-02' }, NOW);
+
+  it('writes the schedule and warnings in plain language', () => {
+    expect(handout.dosing).toEqual({
+      medication: 'Zestril',
+      dose: '10mg',
+      times: ['bedtime'],
+      schedule: 'Take 10mg every night at bedtime.',
+      instructions: 'Take at bedtime with a glass of water.',
+      duration: '14 days',
+    });
+    expect(handout.avoid[0]).toBe('Anything you are allergic to: Sulfa drugs. Tell every doctor and pharmacist.');
+    expect(handout.avoid).toContain('Salt substitutes and potassium pills, unless your doctor says they are OK');
+    expect(handout.callDoctor).toEqual(['You feel dizzy or faint when you stand up', 'A dry cough that does not go away']);
+    expect(handout.emergency).toContain('Trouble breathing');
+    expect(handout.followUps).toEqual(followUps);
+    expect(handout.prescriber).toBe('Dr. Rivera');
+  });
+
+  it('covers the course with the calendar and flags only the clinician text', () => {
+    expect(handout.calendar?.times).toEqual(['bedtime']);
+    expect(handout.calendar?.dates).toHaveLength(14);
+    expect(handout.calendar?.dates[13]).toBe('2026-03-15');
+    expect(handout.readingLevel.hardSentences).toEqual([treatmentData.rationale.patientEducation]);
+
+    const asNeeded = { ...treatmentData.treatmentPlan.primaryTreatment, frequency: 'as needed' };
+    const prn = buildPatientHandout(
+      { ...plan, treatmentData: { ...treatmentData, treatmentPlan: { ...treatmentData.treatmentPlan, primaryTreatment: asNeeded } } },
+      patient,
+      { followUps: [], startDate: '2026-03-02' },
+      NOW,
+    );
+    expect(prn.dosing.schedule).toBe('Take 10mg only when you need it.');
+    expect(prn.calendar).toBeNull();
+  });
+
+  it('does not tell a patient on aspirin to avoid aspirin', () => {
+    const aspirin = {
+      ...treatmentData.treatmentPlan.primaryTreatment,
+      medication: 'Aspirin', genericName: 'aspirin', dosage: '81mg', frequency: 'once daily', instructions: 'Take with food.',
+    };
+    const handout = buildPatientHandout(
+      { ...plan, treatmentData: { ...treatmentData, treatmentPlan: { ...treatmentData.treatmentPlan, primaryTreatment: aspirin } } },
+      patient,
+      { followUps: [], startDate: '2026-03-02' },
+      NOW,
+    );
+
+    expect(handout.avoid.filter(item => /aspirin/i.test(item))).toEqual([]);
+    expect(handout.avoid).toContain('Other pain pills like ibuprofen (Advil, Motrin) or naproxen (Aleve), unless your doctor says so');
+    expect(handout.emergency).toContain('Red or black, tarry stools');
+  });
+});
+
+describe('renderHandoutPdf', () => {
+  const handout = buildPatientHandout(plan, patient, { followUps, startDate: '2026-03-02' }, NOW);
+
+  it('adds a calendar page and footers every page, with more pages in large print', () => {
+    const pageCount = (pdf: Buffer) => Number(/\/Count (\d+)/.exec(pdf.toString('latin1'))?.[1]);
+
+    const pdf = renderHandoutPdf(handout);
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(renderHandoutPdf(handout).equals(pdf)).toBe(true);
+
+    const text = pdf.toString('latin1');
+    expect(text).toContain('(My medicine calendar)');
+    expect(text).toContain('(Sunday, March 8, 2026: Potassium check)');
+    expect(text.match(/\(Questions about your medicine\? Call your care team\.\)/g)).toHaveLength(pageCount(pdf));
+
+    const largePrint = renderHandoutPdf(handout, { largePrint: true });
+    expect(pageCount(largePrint)).toBeGreaterThan(pageCount(pdf));
+  });
+});
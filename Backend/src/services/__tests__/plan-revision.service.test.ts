@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { diffTreatmentData, planRevisionService, BASELINE_REVISION_REASON } from '../plan-revision.service';
+import { demoStorage } from '../demo-storage.service';
+import { TreatmentPlanResponse, TreatmentRecommendation } from '../../types';
+
+function recommendation(medication: string, genericName: string, dosage: string, frequency = 'BID'): TreatmentRecommendation {
+  return { medication, genericName, dosage, frequency, duration: '14 days', route: 'oral', instructions: 'With food' };
+}
+
+function buildPlan(
+  primary: TreatmentRecommendation,
+  alternatives: TreatmentRecommendation[],
+  supportiveCare: string[] = ['Rest'],
+): TreatmentPlanResponse {
+  return {
+    treatmentPlan: { primaryTreatment: primary, alternativeTreatments: alternatives, supportiveCare },
+    riskAssessment: { overallRisk: 'LOW', riskScore: 15, confidenceScore: 88, riskFactors: [] },
+    flaggedIssues: [],
+    drugInteractions: [],
+    contraindications: [],
+    rationale: { primaryChoice: '', riskBenefit: '', alternativeRationale: '', monitoringPlan: '', patientEducation: '' },
+  };
+}
+
+const original = buildPlan(
+  recommendation('Ibuprofen', 'ibuprofen', '400mg'),
+  [recommendation('Naproxen', 'naproxen', '250mg'), recommendation('Celecoxib', 'celecoxib', '100mg')],
+);
+
+describe('diffTreatmentData', () => {
+  it('separates dosing edits from drug changes and matches alternatives by concept', () => {
+    const edited = buildPlan(
+      { ...recommendation('Advil', 'ibuprofen', '200mg', 'TID'), instructions: 'After meals' },
+      [recommendation('Aleve', 'naproxen', '500mg'), recommendation('Acetaminophen', 'acetaminophen', '500mg')],
+      ['Rest', 'Ice'],
+    );
+
+    const diff = diffTreatmentData(original, edited);
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.primaryTreatment).toEqual([
+      { field: 'medication', before: 'Ibuprofen', after: 'Advil' },
+      { field: 'instructions', before: 'With food', after: 'After meals' },
+    ]);
+    expect(diff.dosage).toEqual([
+      { medication: 'Advil', field: 'dosage', before: '400mg', after: '200mg' },
+      { medication: 'Advil', field: 'frequency', before: 'BID', after: 'TID' },
+      { medication: 'Aleve', field: 'dosage', before: '250mg', after: '500mg' },
+    ]);
+    expect(diff.alternatives.added.map(a => a.genericName)).toEqual(['acetaminophen']);
+    expect(diff.alternatives.removed.map(a => a.genericName)).toEqual(['celecoxib']);
+    expect(diff.alternatives.changed).toEqual([
+      { medication: 'Aleve', changes: [{ field: 'medication', before: 'Naproxen', after: 'Aleve' }] },
+    ]);
+    expect(diff.supportiveCare).toEqual({ added: ['Ice'], removed: [] });
+  });
+
+  it('reports a primary drug swap as a whole rather than as a dose change', () => {
+    const swapped = buildPlan(recommendation('Acetaminophen', 'acetaminophen', '400mg'), original.treatmentPlan.alternativeTreatments);
+
+    const diff = diffTreatmentData(original, swapped);
+
+    expect(diff.dosage).toEqual([]);
+    expect(diff.primaryTreatment.map(c => c.field)).toEqual(['medication', 'genericName']);
+    expect(diffTreatmentData(original, original).hasChanges).toBe(false);
+  });
+});
+
+describe('planRevisionService (demo mode)', () => {
+  beforeEach(() => {
+    demoStorage.clearAll();
+  });
+
+  it('numbers revisions sequentially and keeps the AI proposal as revision 1', async () => {
+    const author = { userId: 'u-1', userName: 'Dr. Demo Physician' };
+    await planRevisionService.recordBaseline('plan-1', original, author);
+
+    const edited = buildPlan(recommendation('Ibuprofen', 'ibuprofen', '200mg'), original.treatmentPlan.alternativeTreatments);
+    const revision = await planRevisionService.recordRevision(
+      { id: 'plan-1', treatmentData: original }, edited, author, 'Reduce dose for renal function',
+    );
+
+    expect(revision.revisionNumber).toBe(2);
+    expect(revision.diff?.dosage).toHaveLength(1);
+
+    const revisions = await planRevisionService.listRevisions('plan-1');
+    expect(revisions.map(r => r.reason)).toEqual([BASELINE_REVISION_REASON, 'Reduce dose for renal function']);
+    expect(revisions[0].snapshot.treatmentPlan.primaryTreatment.dosage).toBe('400mg');
+  });
+
+  it('seeds a baseline for plans that predate revision history', async () => {
+    const edited = buildPlan(recommendation('Ibuprofen', 'ibuprofen', '200mg'), []);
+    const revision = await planRevisionService.recordRevision(
+      { id: 'legacy-plan', treatmentData: original }, edited, { userId: 'u-2', userName: 'Demo Pharmacist' }, null,
+    );
+
+    expect(revision.revisionNumber).toBe(2);
+    const [baseline] = await planRevisionService.listRevisions('legacy-plan');
+    expect(baseline.authorId).toBe('system');
+    expect(baseline.snapshot).toEqual(original);
+  });
+
+  it('stores snapshots that cannot be changed through the live plan object', async () => {
+    const live = buildPlan(recommendation('Ibuprofen', 'ibuprofen', '400mg'), []);
+    await planRevisionService.recordBaseline('plan-2', live, { userId: 'u-1', userName: 'Dr. Demo Physician' });
+
+    live.treatmentPlan.primaryTreatment.dosage = '800mg';
+
+    const [baseline] = await planRevisionService.listRevisions('plan-2');
+    expect(baseline.snapshot.treatmentPlan.primaryTreatment.dosage).toBe('400mg');
+    expect(Object.isFrozen(baseline)).toBe(true);
+  });
+});
@@ -0,0 +1,162 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  MemoryLruStore,
+  RedisCacheStore,
+  RedisCommandClient,
+  ScraperCache,
+  ScraperCacheEntry,
+  ScraperCachePolicy,
+  SqliteCacheStore,
+} from '../scraper-cache.service';
+
+const HOUR = 60 * 60 * 1000;
+
+const POLICY: ScraperCachePolicy = {
+  ttlMs: { rxnorm: 7 * 24 * HOUR, openfdaLabels: 24 * HOUR, openfdaEvents: 6 * HOUR, dailymed: 24 * HOUR },
+  emptyTtlMs: HOUR,
+  staleMs: 24 * HOUR,
+};
+
+const entry = (value: unknown, storedAt = 0): ScraperCacheEntry => ({
+  value,
+  storedAt,
+  expiresAt: storedAt + HOUR,
+  staleUntil: storedAt + 2 * HOUR,
+});
+
+// Lets a background refresh finish writing to an in-memory store
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('MemoryLruStore', () => {
+  it('evicts the least recently used entry once full', async () => {
+    const store = new MemoryLruStore(2, () => 0);
+    await store.set('a', entry('A'));
+    await store.set('b', entry('B'));
+    await store.get('a');
+    await store.set('c', entry('C'));
+
+    expect(await store.get('b')).toBeNull();
+    expect((await store.get('a'))?.value).toBe('A');
+    expect(await store.stats()).toMatchObject({ entries: 2, maxEntries: 2, evictions: 1 });
+  });
+});
+
+describe('SqliteCacheStore', () => {
+  it('keeps entries across restarts and stays within maxEntries', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scraper-cache-'));
+    const file = path.join(dir, 'cache.sqlite');
+    try {
+      const first = new SqliteCacheStore(file, 2, () => 0);
+      await first.set('a', entry({ rxcui: '83367' }));
+      await first.set('b', entry(['label']));
+      await first.get('a');
+      await first.set('c', entry([]));
+      expect(await first.stats()).toMatchObject({ entries: 2, evictions: 1 });
+      await first.close();
+
+      const reopened = new SqliteCacheStore(file, 2, () => 0);
+      expect(await reopened.get('a')).toEqual(entry({ rxcui: '83367' }));
+      expect(await reopened.get('b')).toBeNull();
+      await reopened.close();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('RedisCacheStore', () => {
+  it('stores entries under a prefix with an expiry at the end of the stale window', async () => {
+    const data = new Map<string, string>();
+    const commands: string[][] = [];
+    const client: RedisCommandClient = {
+      async sendCommand(args) {
+        commands.push(args);
+        if (args[0] === 'SET') data.set(args[1], args[2]);
+        if (args[0] === 'GET') return data.get(args[1]) ?? null;
+        if (args[0] === 'SCAN') return ['0', [...data.keys()].filter(k => k.startsWith('test:'))];
+        if (args[0] === 'DEL') args.slice(1).forEach(k => data.delete(k));
+        return 'OK';
+      },
+    };
+    const store = new RedisCacheStore(client, 'test:', () => 0);
+
+    await store.set('rxnorm:rxcui:lipitor', entry('153165'));
+    expect(commands[0]).toEqual(['SET', 'test:rxnorm:rxcui:lipitor', JSON.stringify(entry('153165')), 'PX', String(2 * HOUR)]);
+    expect(await store.get('rxnorm:rxcui:lipitor')).toEqual(entry('153165'));
+
+    await store.clear();
+    expect(await store.get('rxnorm:rxcui:lipitor')).toBeNull();
+  });
+});
+
+describe('ScraperCache', () => {
+  it('uses per-source TTLs and serves stale answers while refreshing in the background', async () => {
+    let now = 0;
+    const cache = new ScraperCache(new MemoryLruStore(100, () => now), POLICY, () => now);
+    const fetchEvents = jest.fn<() => Promise<string[]>>()
+      .mockResolvedValueOnce(['nausea'])
+      .mockResolvedValueOnce(['nausea', 'rash']);
+
+    expect(await cache.getOrFetch('openfdaEvents', 'events:metformin', fetchEvents)).toEqual(['nausea']);
+    now = 5 * HOUR;
+    expect(await cache.getOrFetch('openfdaEvents', 'events:metformin', fetchEvents)).toEqual(['nausea']);
+    expect(fetchEvents).toHaveBeenCalledTimes(1);
+
+    // Past the 6 hour events TTL: the old answer comes back at once and a refresh runs
+    now = 7 * HOUR;
+    expect(await cache.getOrFetch('openfdaEvents', 'events:metformin', fetchEvents)).toEqual(['nausea']);
+    await flush();
+    expect(fetchEvents).toHaveBeenCalledTimes(2);
+    expect(await cache.getOrFetch('openfdaEvents', 'events:metformin', fetchEvents)).toEqual(['nausea', 'rash']);
+
+    const stats = await cache.getStats();
+    expect(stats).toMatchObject({ backend: 'memory', size: 1, hits: 2, staleHits: 1, misses: 1, refreshes: 1, hitRate: 0.75 });
+    expect(stats.bySource.openfdaEvents).toEqual({ hits: 2, staleHits: 1, misses: 1 });
+  });
+
+  it('keeps the stale answer when a refresh comes back empty and retries empty answers sooner', async () => {
+    let now = 0;
+    const cache = new ScraperCache(new MemoryLruStore(100, () => now), POLICY, () => now);
+    const fetchLabels = jest.fn<() => Promise<string[]>>()
+      .mockResolvedValueOnce(['label'])
+      .mockResolvedValue([]);
+    const fetchMissing = jest.fn<() => Promise<string | null>>().mockResolvedValue(null);
+
+    await cache.getOrFetch('openfdaLabels', 'labels:warfarin', fetchLabels);
+    now = 25 * HOUR;
+    await cache.getOrFetch('openfdaLabels', 'labels:warfarin', fetchLabels);
+    await flush();
+    expect((await cache.getStats()).refreshFailures).toBe(1);
+    expect(await cache.getOrFetch('openfdaLabels', 'labels:warfarin', fetchLabels)).toEqual(['label']);
+
+    await cache.getOrFetch('rxnorm', 'rxcui:unknown', fetchMissing);
+    now += 2 * HOUR + 24 * HOUR;
+    await cache.getOrFetch('rxnorm', 'rxcui:unknown', fetchMissing);
+    expect(fetchMissing).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one fetch between concurrent misses and treats store failures as misses', async () => {
+    const cache = new ScraperCache(new MemoryLruStore(100), POLICY);
+    const fetchRxcui = jest.fn<() => Promise<string>>().mockResolvedValue('11289');
+
+    const answers = await Promise.all([
+      cache.getOrFetch('rxnorm', 'rxcui:warfarin', fetchRxcui),
+      cache.getOrFetch('rxnorm', 'rxcui:warfarin', fetchRxcui),
+    ]);
+    expect(answers).toEqual(['11289', '11289']);
+    expect(fetchRxcui).toHaveBeenCalledTimes(1);
+
+    const broken = new ScraperCache({
+      backend: 'redis',
+      get: async () => { throw new Error('ECONNREFUSED'); },
+      set: async () => { throw new Error('ECONNREFUSED'); },
+      clear: async () => undefined,
+      stats: async () => ({ entries: null, maxEntries: null, oldestStoredAt: null, evictions: 0 }),
+    }, POLICY);
+    expect(await broken.getOrFetch('rxnorm', 'rxcui:warfarin', fetchRxcui)).toBe('11289');
+    expect((await broken.getStats()).storeErrors).toBe(2);
+  });
+});
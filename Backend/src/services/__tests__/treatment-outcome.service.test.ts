@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { normalizeTreatmentOutcome, outcomeRiskLabel, treatmentOutcomeService } from '../treatment-outcome.service';
+import { demoStorage } from '../demo-storage.service';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+describe('normalizeTreatmentOutcome', () => {
+  it('fills defaults for an uneventful follow-up', () => {
+    const { outcome, errors } = normalizeTreatmentOutcome({ efficacy: 'effective', notes: '  BP at goal ' }, NOW);
+
+    expect(errors).toEqual([]);
+    expect(outcome).toEqual({
+      efficacy: 'effective',
+      adverseEvent: null,
+      discontinued: false,
+      discontinuationReason: null,
+      hospitalized: false,
+      observedAt: NOW.toISOString(),
+      notes: 'BP at goal',
+    });
+  });
+
+  it('rejects unknown values, missing reasons and future observations', () => {
+    const { outcome, errors } = normalizeTreatmentOutcome({
+      efficacy: 'great',
+      adverseEvent: { severity: 'fatal' },
+      discontinued: true,
+      observedAt: '2026-04-01',
+    }, NOW);
+
+    expect(outcome).toBeNull();
+    expect(errors).toEqual([
+      'efficacy must be one of effective, partially_effective, ineffective',
+      'adverseEvent.severity must be one of mild, moderate, severe, life_threatening',
+      'discontinuationReason must be one of adverse_event, ineffective, patient_choice, cost, completed, other when the treatment was discontinued',
+      'observedAt cannot be in the future',
+    ]);
+  });
+
+  it('requires the adverse event when it was the reason to stop', () => {
+    const { errors } = normalizeTreatmentOutcome({
+      efficacy: 'partially_effective', discontinued: true, discontinuationReason: 'adverse_event',
+    }, NOW);
+
+    expect(errors).toEqual(['adverseEvent is required when the treatment was discontinued because of an adverse event']);
+  });
+
+  it('reports an adverse event description that is not text', () => {
+    const { outcome, errors } = normalizeTreatmentOutcome({
+      efficacy: 'effective',
+      adverseEvent: { severity: 'mild', description: { text: 'Dry cough' } as unknown as string },
+    }, NOW);
+
+    expect(outcome).toBeNull();
+    expect(errors).toEqual(['adverseEvent.description must be text']);
+  });
+});
+
+describe('outcomeRiskLabel', () => {
+  const base = normalizeTreatmentOutcome({ efficacy: 'effective' }, NOW).outcome!;
+
+  it('scores the worst finding of the outcome', () => {
+    expect(outcomeRiskLabel(base)).toBe(10);
+    expect(outcomeRiskLabel({ ...base, efficacy: 'ineffective' })).toBe(50);
+    expect(outcomeRiskLabel({ ...base, adverseEvent: { severity: 'mild', description: 'nausea' } })).toBe(40);
+    expect(outcomeRiskLabel({ ...base, adverseEvent: { severity: 'mild', description: 'rash' }, discontinued: true, discontinuationReason: 'adverse_event' })).toBe(65);
+    expect(outcomeRiskLabel({ ...base, adverseEvent: { severity: 'moderate', description: 'angioedema' }, hospitalized: true })).toBe(85);
+    expect(outcomeRiskLabel({ ...base, adverseEvent: { severity: 'life_threatening', description: 'anaphylaxis' } })).toBe(95);
+  });
+});
+
+describe('treatmentOutcomeService (demo mode)', () => {
+  beforeEach(() => {
+    demoStorage.clearAll();
+  });
+
+  it('keeps every follow-up of a plan with its label and recorder', async () => {
+    const plan = { id: 'demo-plan-1', patientId: 'patient-1' };
+    const recorder = { userId: 'u-1', userName: 'Dr. Demo Physician' };
+
+    await treatmentOutcomeService.record(plan, normalizeTreatmentOutcome({ efficacy: 'partially_effective', observedAt: '2026-01-15' }, NOW).outcome!, recorder);
+    await treatmentOutcomeService.record(plan, normalizeTreatmentOutcome({
+      efficacy: 'ineffective', discontinued: true, discontinuationReason: 'ineffective', observedAt: '2026-02-20',
+    }, NOW).outcome!, recorder);
+
+    const outcomes = await treatmentOutcomeService.list(plan.id);
+    expect(outcomes.map(o => [o.efficacy, o.riskLabel])).toEqual([['ineffective', 50], ['partially_effective', 30]]);
+    expect(outcomes[0]).toMatchObject({ treatmentPlanId: 'demo-plan-1', patientId: 'patient-1', recordedByName: 'Dr. Demo Physician' });
+    expect(await treatmentOutcomeService.list('demo-plan-2')).toEqual([]);
+  });
+});
@@ -0,0 +1,228 @@
+import { createHash } from 'node:crypto';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+  buildTreatmentPlanReport,
+  renderReportHtml,
+  renderReportPdf,
+  treatmentReportService,
+} from '../treatment-report.service';
+import { demoStorage } from '../demo-storage.service';
+import { labResultService } from '../lab-result.service';
+import { loadStoredPatientData } from '../patient-intake.service';
+import { CurrentMedication, LifestyleFactors, MedicalHistory, Patient } from '../../models';
+import { CompletePatientData, TreatmentPlanResponse } from '../../types';
+
+const NOW = new Date('2026-03-01T15:30:00.000Z');
+const PLAN_ID = '8a1f4c52-1d3e-4c0b-9d57-2f6a0c1e9b11';
+
+const patient: CompletePatientData = {
+  demographics: {
+    patientId: 'c0ffee00-0000-4000-8000-000000000001',
+    age: 67,
+    sex: 'female',
+    weight: 72,
+    height: 160,
+    bmi: 28.125,
+    bloodPressure: { systolic: 152, diastolic: 94 },
+    heartRate: 78,
+    temperature: 98.4,
+  },
+  medicalHistory: {
+    conditions: [{ condition: 'Hypertension', diagnosisDate: '2019-04-01', severity: 'moderate', controlled: false }],
+    allergies: [{ allergen: 'Sulfa <drugs>', reaction: 'Rash', severity: 'moderate' }],
+    pastSurgeries: [],
+    familyHistory: [],
+  },
+  currentMedications: {
+    medications: [{
+      drugName: 'Spironolactone',
+      genericName: 'spironolactone',
+      dosage: '25mg',
+      frequency: 'once daily',
+      route: 'oral',
+      startDate: '2025-01-10',
+      prescribedBy: 'Dr. Chen',
+    }],
+  },
+  lifestyle: {
+    smoking: { status: 'never' },
+    alcohol: { frequency: 'occasional' },
+    exercise: { frequency: 'light' },
+    diet: 'standard',
+    chiefComplaint: { complaint: 'Elevated home BP readings', duration: '3 weeks', severity: 2, symptoms: [] },
+  },
+};
+
+const treatmentData: TreatmentPlanResponse = {
+  treatmentPlan: {
+    primaryTreatment: {
+      medication: 'Lisinopril',
+      genericName: 'lisinopril',
+      dosage: '10mg',
+      frequency: 'once daily',
+      duration: '90 days',
+      route: 'oral',
+      instructions: 'Take in the morning – avoid potassium supplements',
+    },
+    alternativeTreatments: [{
+      medication: 'Amlodipine',
+      genericName: 'amlodipine',
+      dosage: '5mg',
+      frequency: 'once daily',
+      duration: '90 days',
+      route: 'oral',
+      instructions: '',
+      reason: 'No effect on potassium',
+    }],
+    supportiveCare: ['Low-sodium diet'],
+  },
+  riskAssessment: { overallRisk: 'HIGH', riskScore: 68, confidenceScore: 85, riskFactors: ['Uncontrolled hypertension'] },
+  flaggedIssues: [{
+    type: 'interaction',
+    severity: 'high',
+    description: 'Hyperkalemia risk with potassium-sparing diuretic',
+    recommendation: 'Check potassium in 1 week',
+    affectedDrugs: ['lisinopril', 'spironolactone'],
+  }],
+  drugInteractions: [],
+  contraindications: [],
+  rationale: {
+    primaryChoice: 'First-line ACE inhibitor',
+    riskBenefit: 'BP control outweighs hyperkalemia risk with monitoring',
+    alternativeRationale: '',
+    monitoringPlan: 'BMP at 1 and 4 weeks',
+    patientEducation: 'Report lip or tongue swelling',
+  },
+  generatedBy: { provider: 'rule-based', model: 'local-rules' },
+};
+
+const plan = {
+  id: PLAN_ID,
+  patientId: patient.demographics.patientId,
+  status: 'approved' as const,
+  treatmentData,
+  approvedBy: 'Dr. Rivera',
+  approvedAt: NOW,
+  knowledgeBaseVersion: '12',
+  createdAt: new Date('2026-03-01T15:00:00.000Z'),
+};
+
+describe('buildTreatmentPlanReport', () => {
+  it('fills the metadata from the plan and lets the caller add the NPI', () => {
+    const report = buildTreatmentPlanReport(plan, patient, { providerNPI: '1234567893' }, NOW);
+
+    expect(report).toMatchObject({
+      reportId: `TPR-${NOW.getTime().toString(36).toUpperCase()}`,
+      treatmentPlanId: PLAN_ID,
+      generatedAt: '2026-03-01T15:30:00.000Z',
+      approvedAt: '2026-03-01T15:30:00.000Z',
+      knowledgeBaseVersion: '12',
+      metadata: {
+        generatedBy: 'AI Treatment Plan Assistant (rule-based, local-rules)',
+        reviewedBy: 'Dr. Rivera',
+        approvalStatus: 'approved',
+        providerNPI: '1234567893',
+      },
+    });
+    expect(report.plan).toBe(treatmentData);
+
+    const pending = buildTreatmentPlanReport({ ...plan, status: 'pending', approvedBy: null, approvedAt: null }, patient, {}, NOW);
+    expect(pending.metadata).toEqual({ generatedBy: 'AI Treatment Plan Assistant (rule-based, local-rules)', approvalStatus: 'pending' });
+  });
+});
+
+describe('renderReportHtml', () => {
+  const html = renderReportHtml(buildTreatmentPlanReport(plan, patient, { providerNPI: '1234567893' }, NOW));
+
+  it('lays out the same sections as the PDF, in order', () => {
+    const sections = [...html.matchAll(/<section id="([a-z-]+)">/g)].map(match => match[1]);
+    expect(sections).toEqual([
+      'patient', 'chief-complaint', 'medical-history', 'current-medications', 'risk-assessment',
+      'flagged-issues', 'recommendations', 'alternatives', 'rationale', 'approval',
+    ]);
+    expect(html).toContain('<p class="banner">WARNING: HIGH RISK PATIENT - REVIEW CAREFULLY</p>');
+    expect(html).toContain('<dt>Provider NPI</dt><dd>1234567893</dd>');
+    expect(html).not.toContain('<dt>Alternatives</dt>');
+  });
+
+  it('escapes patient-entered text', () => {
+    expect(html).toContain('Sulfa &lt;drugs&gt;');
+    expect(html).not.toContain('<drugs>');
+  });
+});
+
+describe('renderReportPdf', () => {
+  const report = buildTreatmentPlanReport(plan, patient, { providerNPI: '1234567893' }, NOW);
+
+  it('produces the same bytes for the same report and footers every page', () => {
+    const pdf = renderReportPdf(report);
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(renderReportPdf(report).equals(pdf)).toBe(true);
+
+    const text = pdf.toString('latin1');
+    expect(text).toContain(`(Report ID: ${report.reportId})`);
+    expect(text).toContain('(Provider NPI: 1234567893)');
+    const pages = Number(/\/Count (\d+)/.exec(text)?.[1]);
+    expect(text.match(/\(CONFIDENTIAL - Protected Health Information\)/g)).toHaveLength(pages);
+    expect(text).toContain(`(Page ${pages} of ${pages})`);
+  });
+});
+
+describe('treatmentReportService (demo mode)', () => {
+  beforeEach(() => {
+    demoStorage.clearAll();
+  });
+
+  it('stores snapshots with the PDF hash and returns the latest', async () => {
+    expect(await treatmentReportService.latestSnapshot(PLAN_ID)).toBeNull();
+
+    await treatmentReportService.storeSnapshot(buildTreatmentPlanReport(plan, patient, {}, NOW));
+    const reapproved = await treatmentReportService.storeSnapshot(
+      buildTreatmentPlanReport(plan, patient, {}, new Date('2026-03-05T09:00:00.000Z')),
+    );
+
+    const latest = await treatmentReportService.latestSnapshot(PLAN_ID);
+    expect(latest?.id).toBe(reapproved.id);
+    expect(latest?.pdfSha256).toBe(createHash('sha256').update(latest!.pdf).digest('hex'));
+    expect(latest?.html).toContain(latest!.report.reportId);
+    expect(demoStorage.getTreatmentPlanReportSnapshots(PLAN_ID)).toHaveLength(2);
+  });
+});
+
+describe('reports built from a stored patient', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shows the patient sex', async () => {
+    const { medicalHistory, lifestyle } = patient;
+    jest.spyOn(MedicalHistory, 'findOne').mockResolvedValue({ ...medicalHistory } as unknown as MedicalHistory);
+    jest.spyOn(CurrentMedication, 'findAll').mockResolvedValue([]);
+    jest.spyOn(LifestyleFactors, 'findOne').mockResolvedValue({
+      smokingStatus: lifestyle.smoking.status,
+      alcoholFrequency: lifestyle.alcohol.frequency,
+      exerciseFrequency: lifestyle.exercise.frequency,
+      diet: lifestyle.diet,
+      chiefComplaint: lifestyle.chiefComplaint,
+    } as unknown as LifestyleFactors);
+    jest.spyOn(labResultService, 'latest').mockResolvedValue([]);
+
+    const { demographics } = patient;
+    const stored = await loadStoredPatientData({
+      id: demographics.patientId,
+      age: demographics.age,
+      sex: 'female',
+      weight: demographics.weight,
+      height: demographics.height,
+      bmi: demographics.bmi,
+      systolicBp: 152,
+      diastolicBp: 94,
+      heartRate: demographics.heartRate,
+      temperature: demographics.temperature,
+    } as Patient);
+
+    expect(stored?.demographics.sex).toBe('female');
+    const report = buildTreatmentPlanReport(plan, stored!, {}, NOW);
+    expect(renderReportHtml(report)).toContain('<tr><td>Sex</td><td>female</td></tr>');
+  });
+});
@@ -1,3 +1,9 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { config } from '../config';
+import logger from '../config/logger';
+import { AdaptiveSample } from '../models';
+
 export type RiskCategory = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
 
 export interface AdaptiveTrainingSample {
@@ -14,6 +20,77 @@ export interface AdaptiveLearningStats {
   sampleCount: number;
   byCategory: Record<RiskCategory, number>;
   latestTimestamp: string | null;
+  storage: AdaptiveSampleStore['kind'];
+}
+
+/** Durable home for samples; the service keeps a recent window in memory */
+export interface AdaptiveSampleStore {
+  readonly kind: 'file' | 'database' | 'memory';
+  append(sample: AdaptiveTrainingSample): Promise<void>;
+  // Most recent `limit` samples, oldest first
+  load(limit: number): Promise<AdaptiveTrainingSample[]>;
+}
+
+/** Demo mode: one JSON sample per line, appended */
+export class FileSampleStore implements AdaptiveSampleStore {
+  readonly kind = 'file' as const;
+  private readonly file: string;
+
+  constructor(dir: string) {
+    this.file = path.join(dir, 'adaptive-samples.jsonl');
+  }
+
+  async append(sample: AdaptiveTrainingSample): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.appendFile(this.file, `${JSON.stringify(sample)}\n`);
+  }
+
+  async load(limit: number): Promise<AdaptiveTrainingSample[]> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.file, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const samples: AdaptiveTrainingSample[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        samples.push(JSON.parse(line) as AdaptiveTrainingSample);
+      } catch {
+        // A torn final line from a crash mid-write; the rest of the file is fine
+      }
+    }
+    return samples.slice(Math.max(0, samples.length - limit));
+  }
+}
+
+export class DatabaseSampleStore implements AdaptiveSampleStore {
+  readonly kind = 'database' as const;
+
+  async append(sample: AdaptiveTrainingSample): Promise<void> {
+    await AdaptiveSample.create({
+      inputs: sample.inputs,
+      output: sample.output,
+      category: sample.category,
+      source: sample.source,
+      patientId: sample.patientId ?? null,
+    });
+  }
+
+  async load(limit: number): Promise<AdaptiveTrainingSample[]> {
+    const rows = await AdaptiveSample.findAll({ order: [['createdAt', 'DESC']], limit });
+    return rows.reverse().map(row => ({
+      id: row.id,
+      inputs: row.inputs,
+      output: row.output,
+      category: row.category as RiskCategory,
+      source: row.source,
+      timestamp: row.createdAt.toISOString(),
+      ...(row.patientId && { patientId: row.patientId }),
+    }));
+  }
 }
 
 interface IngestFromPatientPayload {
@@ -74,6 +151,27 @@ function computeExerciseRiskScore(frequency?: string): number {
 class AdaptiveLearningService {
   private readonly samples: AdaptiveTrainingSample[] = [];
   private readonly maxSamples = 5000;
+  private store: AdaptiveSampleStore | null = null;
+
+  /**
+   * Attach durable storage (a JSONL file in demo mode, the adaptive_samples
+   * table otherwise) and reload the most recent samples from it. Until this
+   * runs, samples live only in memory.
+   */
+  async initialize(store: AdaptiveSampleStore = config.demoMode
+    ? new FileSampleStore(config.ml.dataDir)
+    : new DatabaseSampleStore()): Promise<void> {
+    this.store = store;
+    const persisted = await store.load(this.maxSamples);
+    this.samples.splice(0, this.samples.length, ...persisted);
+    logger.info('Adaptive learning samples loaded', { storage: store.kind, samples: persisted.length });
+  }
+
+  /** Samples for a retraining run: the full persisted history up to `limit` */
+  async loadTrainingSamples(limit = config.ml.maxTrainingSamples): Promise<AdaptiveTrainingSample[]> {
+    if (!this.store) return this.getSamples(limit);
+    return this.store.load(limit);
+  }
 
   addSample(inputs: number[], output: number, source: string, patientId?: string): AdaptiveTrainingSample {
     const clampedOutput = clamp(Math.round(output), 0, 100);
@@ -92,6 +190,10 @@ class AdaptiveLearningService {
       this.samples.splice(0, this.samples.length - this.maxSamples);
     }
 
+    this.store?.append(sample).catch(error => {
+      logger.warn('Failed to persist adaptive learning sample', { id: sample.id, error: (error as Error).message });
+    });
+
     return sample;
   }
 
@@ -167,6 +269,7 @@ class AdaptiveLearningService {
       sampleCount: this.samples.length,
       byCategory,
       latestTimestamp: this.samples.length > 0 ? this.samples.at(-1)!.timestamp : null,
+      storage: this.store?.kind ?? 'memory',
     };
   }
 }
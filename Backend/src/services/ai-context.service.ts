@@ -8,6 +8,8 @@ export interface ClinicalContextSnapshot {
   generatedAt: string;
   drugsAnalyzed: string[];
   sources: string[];
+  // Live sources left out because their circuit breaker was open
+  skippedSources: string[];
   summary: string;
 }
 
@@ -139,6 +141,7 @@ export async function buildRealtimeClinicalContext(
       generatedAt: new Date().toISOString(),
       drugsAnalyzed: [],
       sources: [],
+      skippedSources: [],
       summary: 'No candidate medications available for real-time clinical evidence lookup.',
     };
   }
@@ -148,6 +151,7 @@ export async function buildRealtimeClinicalContext(
   );
 
   const sources = new Set<string>();
+  const skippedSources = new Set<string>();
   const summaryLines: string[] = [];
   const resolvedDrugs: string[] = [];
 
@@ -162,13 +166,19 @@ export async function buildRealtimeClinicalContext(
 
     resolvedDrugs.push(requestedDrug);
     result.value.sources.forEach(source => sources.add(source));
+    result.value.skippedSources.forEach(source => skippedSources.add(source));
     summaryLines.push(...summarizeLookup(result.value));
   }
 
+  if (skippedSources.size > 0) {
+    summaryLines.push(`Not consulted (source unavailable): ${Array.from(skippedSources).join(', ')}.`);
+  }
+
   return {
     generatedAt: new Date().toISOString(),
     drugsAnalyzed: resolvedDrugs,
     sources: Array.from(sources),
+    skippedSources: Array.from(skippedSources),
     summary: summaryLines.join('\n'),
   };
 }
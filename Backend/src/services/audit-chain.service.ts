@@ -0,0 +1,160 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Audit Chain
+ *
+ * Every audit entry stores `hash = sha256(previousHash + canonical(content))`
+ * together with the previous entry's hash and a gap-free sequence number.
+ * Editing any stored field, deleting a row or re-ordering rows therefore
+ * breaks the chain at a detectable point. Truncating the newest entries is
+ * only detectable against a previously recorded head hash, which is why
+ * verification reports it.
+ */
+
+// previousHash of the very first entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Fields covered by the content hash. Anything not listed here is metadata.
+export interface AuditChainContent {
+  id: string;
+  sequence: number;
+  timestamp: Date | string;
+  userId: string;
+  userName: string;
+  action: string;
+  patientId?: string | null;
+  treatmentPlanId?: string | null;
+  changes?: object | null;
+  reason?: string | null;
+  riskLevel?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface ChainedAuditEntry extends AuditChainContent {
+  previousHash: string;
+  hash: string;
+}
+
+export type AuditChainBreakReason =
+  | 'sequence_gap'
+  | 'previous_hash_mismatch'
+  | 'content_hash_mismatch';
+
+export interface AuditChainBreak {
+  entryId: string;
+  sequence: number;
+  reason: AuditChainBreakReason;
+  expected: string;
+  actual: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  headHash: string;
+  firstBrokenLink: AuditChainBreak | null;
+  verifiedAt: string;
+}
+
+/**
+ * Deterministic JSON: object keys sorted at every depth. JSONB columns do not
+ * preserve key order, so plain JSON.stringify would not survive a round-trip.
+ */
+function canonicalize(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function toIso(timestamp: Date | string): string {
+  return (timestamp instanceof Date ? timestamp : new Date(timestamp)).toISOString();
+}
+
+export function computeAuditEntryHash(entry: AuditChainContent, previousHash: string): string {
+  const content = canonicalize({
+    id: entry.id,
+    sequence: entry.sequence,
+    timestamp: toIso(entry.timestamp),
+    userId: entry.userId,
+    userName: entry.userName,
+    action: entry.action,
+    patientId: entry.patientId ?? null,
+    treatmentPlanId: entry.treatmentPlanId ?? null,
+    // Round-trip through JSON so Dates nested in `changes` hash the same before and after storage
+    changes: entry.changes ? JSON.parse(JSON.stringify(entry.changes)) : null,
+    reason: entry.reason ?? null,
+    riskLevel: entry.riskLevel ?? null,
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+  });
+
+  return createHash('sha256').update(previousHash).update(content).digest('hex');
+}
+
+/**
+ * Walks entries in sequence order and reports the first broken link.
+ * `entries` must already be sorted by ascending sequence.
+ */
+export function verifyAuditChain(entries: ChainedAuditEntry[]): AuditChainVerification {
+  let expectedPrevious = GENESIS_HASH;
+  let expectedSequence = 1;
+  let firstBrokenLink: AuditChainBreak | null = null;
+  let checkedEntries = 0;
+
+  for (const entry of entries) {
+    checkedEntries++;
+    if (entry.sequence !== expectedSequence) {
+      firstBrokenLink = {
+        entryId: entry.id,
+        sequence: entry.sequence,
+        reason: 'sequence_gap',
+        expected: String(expectedSequence),
+        actual: String(entry.sequence),
+      };
+      break;
+    }
+
+    if (entry.previousHash !== expectedPrevious) {
+      firstBrokenLink = {
+        entryId: entry.id,
+        sequence: entry.sequence,
+        reason: 'previous_hash_mismatch',
+        expected: expectedPrevious,
+        actual: entry.previousHash,
+      };
+      break;
+    }
+
+    const recomputed = computeAuditEntryHash(entry, entry.previousHash);
+    if (recomputed !== entry.hash) {
+      firstBrokenLink = {
+        entryId: entry.id,
+        sequence: entry.sequence,
+        reason: 'content_hash_mismatch',
+        expected: recomputed,
+        actual: entry.hash,
+      };
+      break;
+    }
+
+    expectedPrevious = entry.hash;
+    expectedSequence++;
+  }
+
+  return {
+    valid: firstBrokenLink === null,
+    checkedEntries,
+    headHash: expectedPrevious,
+    firstBrokenLink,
+    verifiedAt: new Date().toISOString(),
+  };
+}
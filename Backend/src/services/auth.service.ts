@@ -0,0 +1,167 @@
+import bcrypt from 'bcryptjs';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { config } from '../config';
+import logger from '../config/logger';
+import { User } from '../models';
+import { demoStorage } from './demo-storage.service';
+import { AuthenticatedUser, TokenClaims, TokenPair, UserRole } from '../types';
+
+/**
+ * Raised for any credential or token problem. Controllers and middleware map
+ * it to a 401 so callers never learn which part of the check failed.
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+interface StoredUser {
+  id: string;
+  username: string;
+  passwordHash: string;
+  fullName: string;
+  role: UserRole;
+  active: boolean;
+}
+
+// Accounts seeded into demo storage so every role can be exercised locally
+const DEMO_ACCOUNTS: Array<{ username: string; fullName: string; role: UserRole }> = [
+  { username: 'dr.demo', fullName: 'Dr. Demo Physician', role: 'physician' },
+  { username: 'rx.demo', fullName: 'Demo Pharmacist', role: 'pharmacist' },
+  { username: 'rn.demo', fullName: 'Demo Nurse', role: 'nurse' },
+  { username: 'admin.demo', fullName: 'Demo Administrator', role: 'admin' },
+];
+
+function toAuthenticatedUser(user: StoredUser): AuthenticatedUser {
+  return {
+    id: user.id,
+    username: user.username,
+    fullName: user.fullName,
+    role: user.role,
+  };
+}
+
+class AuthService {
+  async hashPassword(password: string): Promise<string> {
+    return bcrypt.hash(password, config.auth.bcryptRounds);
+  }
+
+  async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    return bcrypt.compare(password, passwordHash);
+  }
+
+  /**
+   * Checks a username/password pair and returns the matching identity.
+   * Throws AuthError for unknown users, wrong passwords and disabled accounts alike.
+   */
+  async login(username: string, password: string): Promise<{ user: AuthenticatedUser; tokens: TokenPair }> {
+    const stored = await this.findByUsername(username);
+    if (!stored?.active || !(await this.verifyPassword(password, stored.passwordHash))) {
+      throw new AuthError('Invalid username or password');
+    }
+
+    await this.recordLogin(stored.id);
+    const user = toAuthenticatedUser(stored);
+    return { user, tokens: this.issueTokens(user) };
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair. The account is re-read so
+   * role changes and deactivations take effect on the next refresh.
+   */
+  async refresh(refreshToken: string): Promise<{ user: AuthenticatedUser; tokens: TokenPair }> {
+    const claims = this.verifyToken(refreshToken, 'refresh');
+    const stored = await this.findById(claims.id);
+    if (!stored?.active) {
+      throw new AuthError('Account is no longer active');
+    }
+
+    const user = toAuthenticatedUser(stored);
+    return { user, tokens: this.issueTokens(user) };
+  }
+
+  issueTokens(user: AuthenticatedUser): TokenPair {
+    return {
+      accessToken: this.sign(user, 'access', config.jwt.expiresIn),
+      refreshToken: this.sign(user, 'refresh', config.jwt.refreshExpiresIn),
+      tokenType: 'Bearer',
+      expiresIn: config.jwt.expiresIn,
+    };
+  }
+
+  verifyToken(token: string, expectedType: TokenClaims['tokenType']): AuthenticatedUser {
+    let claims: TokenClaims;
+    try {
+      claims = jwt.verify(token, config.jwt.secret, { issuer: config.jwt.issuer }) as TokenClaims;
+    } catch (error) {
+      throw new AuthError(error instanceof jwt.TokenExpiredError ? 'Token expired' : 'Invalid token');
+    }
+
+    if (claims.tokenType !== expectedType) {
+      throw new AuthError('Invalid token type');
+    }
+
+    return {
+      id: claims.sub,
+      username: claims.username,
+      fullName: claims.fullName,
+      role: claims.role,
+    };
+  }
+
+  async getUser(id: string): Promise<AuthenticatedUser | null> {
+    const stored = await this.findById(id);
+    return stored?.active ? toAuthenticatedUser(stored) : null;
+  }
+
+  /** Seeds one demo account per role (idempotent). */
+  async seedDemoUsers(): Promise<void> {
+    if (demoStorage.getUserCount() > 0) return;
+
+    const passwordHash = await this.hashPassword(config.auth.demoPassword);
+    for (const account of DEMO_ACCOUNTS) {
+      demoStorage.createUser({ ...account, passwordHash, active: true });
+    }
+    logger.info('Seeded demo user accounts', { usernames: DEMO_ACCOUNTS.map(a => a.username) });
+  }
+
+  private sign(user: AuthenticatedUser, tokenType: TokenClaims['tokenType'], expiresIn: string): string {
+    const claims: Omit<TokenClaims, 'sub'> = {
+      username: user.username,
+      fullName: user.fullName,
+      role: user.role,
+      tokenType,
+    };
+    return jwt.sign(claims, config.jwt.secret, {
+      subject: user.id,
+      issuer: config.jwt.issuer,
+      expiresIn: expiresIn as SignOptions['expiresIn'],
+    });
+  }
+
+  private async findByUsername(username: string): Promise<StoredUser | null> {
+    if (config.demoMode) {
+      return demoStorage.getUserByUsername(username) ?? null;
+    }
+    return User.findOne({ where: { username } });
+  }
+
+  private async findById(id: string): Promise<StoredUser | null> {
+    if (config.demoMode) {
+      return demoStorage.getUser(id) ?? null;
+    }
+    return User.findByPk(id);
+  }
+
+  private async recordLogin(id: string): Promise<void> {
+    if (config.demoMode) {
+      demoStorage.updateUser(id, { lastLoginAt: new Date() });
+      return;
+    }
+    await User.update({ lastLoginAt: new Date() }, { where: { id } });
+  }
+}
+
+export const authService = new AuthService();
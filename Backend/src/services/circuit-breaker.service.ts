@@ -0,0 +1,141 @@
+/**
+ * Circuit Breaker
+ *
+ * Wraps calls to one upstream service. After `failureThreshold` consecutive
+ * failures or timeouts the circuit opens and calls fail at once with
+ * CircuitOpenError. Once `openMs` has passed a single probe call is let
+ * through (half-open): success closes the circuit, failure opens it again.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerSettings {
+  failureThreshold: number;
+  openMs: number;
+  timeoutMs: number;
+}
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalCalls: number;
+  totalFailures: number;
+  timeouts: number;
+  // Calls refused without reaching the upstream while the circuit was open
+  rejected: number;
+  lastFailure: { at: string; message: string } | null;
+  openedAt: string | null;
+  nextProbeAt: string | null;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(readonly source: string) {
+    super(`${source} is unavailable (circuit open)`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitTimeoutError extends Error {
+  constructor(readonly source: string, timeoutMs: number) {
+    super(`${source} did not answer within ${timeoutMs}ms`);
+    this.name = 'CircuitTimeoutError';
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalCalls = 0;
+  private totalFailures = 0;
+  private timeouts = 0;
+  private rejected = 0;
+  private lastFailure: { at: number; message: string } | null = null;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private readonly settings: CircuitBreakerSettings,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /** Whether a call made now would reach the upstream */
+  isAvailable(): boolean {
+    if (this.state === 'closed') return true;
+    if (this.state === 'open') return this.now() - (this.openedAt ?? 0) >= this.settings.openMs;
+    return !this.probeInFlight;
+  }
+
+  /** Count a call turned away because the circuit is open */
+  refuse(): CircuitOpenError {
+    this.rejected++;
+    return new CircuitOpenError(this.name);
+  }
+
+  /**
+   * Run `call` through the breaker. The call gets the breaker's timeout so it
+   * can abort its own request; the breaker also stops waiting at that point.
+   */
+  async execute<T>(call: (timeoutMs: number) => Promise<T>): Promise<T> {
+    if (!this.isAvailable()) throw this.refuse();
+
+    const probe = this.state !== 'closed';
+    if (probe) {
+      this.state = 'half-open';
+      this.probeInFlight = true;
+    }
+    this.totalCalls++;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new CircuitTimeoutError(this.name, this.settings.timeoutMs)), this.settings.timeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([call(this.settings.timeoutMs), timeout]);
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      this.onFailure(error as Error);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      if (probe) this.probeInFlight = false;
+    }
+  }
+
+  private onSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  private onFailure(error: Error): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    if (error instanceof CircuitTimeoutError) this.timeouts++;
+    this.lastFailure = { at: this.now(), message: error.message };
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.settings.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  status(): CircuitBreakerStatus {
+    const iso = (time: number | null) => (time === null ? null : new Date(time).toISOString());
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalCalls: this.totalCalls,
+      totalFailures: this.totalFailures,
+      timeouts: this.timeouts,
+      rejected: this.rejected,
+      lastFailure: this.lastFailure && { at: new Date(this.lastFailure.at).toISOString(), message: this.lastFailure.message },
+      openedAt: iso(this.openedAt),
+      nextProbeAt: this.state === 'open' ? iso((this.openedAt ?? 0) + this.settings.openMs) : null,
+    };
+  }
+}
@@ -1,4 +1,5 @@
-import { DrugInteraction, Contraindication, DosageGuideline } from '../models';
+import { DrugInteraction, Contraindication, DosageGuideline, AllergyGroup } from '../models';
+import { config } from '../config';
 import { 
   TreatmentPlanResponse, 
   CompletePatientData, 
@@ -8,10 +9,21 @@ import {
   DBDrugInteraction,
   DBContraindication,
   DBDosageGuideline,
+  TreatmentPlan,
+  TreatmentRecommendation,
 } from '../types';
 import {
+  ALLERGY_CROSS_REACTIVITY,
+  AllergyCrossReactivityGroup,
+  DRUG_ONTOLOGY,
   MEDICAL_KNOWLEDGE_BASE,
-} from '../data/medical-knowledge-base';
+  PediatricAgeFinding,
+  contraindicationCovers,
+  evaluatePediatricRestrictions,
+  evaluatePharmacogenomics,
+  evaluateReproductiveSafety,
+  findTherapeuticDuplications,
+} from '@treatment-plan/clinical-knowledge';
 
 // Parse dosage string to extract numeric value in mg
 const parseDosage = (dosageStr: string): number => {
@@ -55,18 +67,17 @@ function checkMissedInteractions(
       const drug1 = uniqueDrugs[i];
       const drug2 = uniqueDrugs[j];
 
+      // Same concept listed twice (brand + generic) is not an interaction
+      if (DRUG_ONTOLOGY.matches(drug1, drug2)) continue;
+
       const interaction = dbInteractions.find(
-        db =>
-          (db.drug1.toLowerCase() === drug1 && db.drug2.toLowerCase() === drug2) ||
-          (db.drug1.toLowerCase() === drug2 && db.drug2.toLowerCase() === drug1),
+        db => DRUG_ONTOLOGY.matchesPair(drug1, drug2, db.drug1, db.drug2),
       );
 
       if (!interaction) continue;
 
       const aiFoundIt = aiResponse.drugInteractions?.some(
-        ai =>
-          (ai.drug1.toLowerCase() === drug1 && ai.drug2.toLowerCase() === drug2) ||
-          (ai.drug1.toLowerCase() === drug2 && ai.drug2.toLowerCase() === drug1),
+        ai => DRUG_ONTOLOGY.matchesPair(ai.drug1, ai.drug2, drug1, drug2),
       );
 
       if (!aiFoundIt) {
@@ -75,6 +86,7 @@ function checkMissedInteractions(
           severity: interaction.severity as IssueSeverity,
           description: `AI missed interaction: ${interaction.drug1} + ${interaction.drug2} - ${interaction.effect}`,
           localDbEntry: interaction.toJSON(),
+          affectedDrugs: [drug1, drug2],
         });
       }
     }
@@ -92,11 +104,7 @@ function checkMissedContraindications(
   const issues: ValidationIssue[] = [];
   for (const condition of patientConditions) {
     const contra = dbContraindications.find(
-      c =>
-        c.condition.toLowerCase().includes(condition) &&
-        (c.drug.toLowerCase() === primaryDrug ||
-          c.drug.toLowerCase().includes(primaryDrug) ||
-          primaryDrug.includes(c.drug.toLowerCase())),
+      c => c.condition.toLowerCase().includes(condition) && DRUG_ONTOLOGY.matches(primaryDrug, c.drug),
     );
 
     if (!contra) continue;
@@ -104,15 +112,16 @@ function checkMissedContraindications(
     const aiFoundIt = aiResponse.contraindications?.some(
       ai =>
         ai.condition.toLowerCase().includes(condition) &&
-        ai.drug.toLowerCase().includes(contra.drug.toLowerCase()),
+        (DRUG_ONTOLOGY.matches(ai.drug, contra.drug) || DRUG_ONTOLOGY.matches(ai.drug, primaryDrug)),
     );
 
     if (!aiFoundIt) {
       issues.push({
         type: 'missed_contraindication',
-        severity: contra.type === 'absolute' ? 'critical' : 'high',
+        severity: getContraSeverity(contra),
         description: `AI missed contraindication: ${contra.drug} in ${contra.condition} - ${contra.reason}`,
         localDbEntry: contra.toJSON(),
+        affectedDrugs: [primaryDrug],
       });
     }
   }
@@ -127,12 +136,7 @@ function validateDosages(
   aiResponse: TreatmentPlanResponse,
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
-  const dosageGuideline = dbDosageGuidelines.find(
-    d =>
-      d.drug.toLowerCase() === primaryDrug ||
-      d.drug.toLowerCase().includes(primaryDrug) ||
-      primaryDrug.includes(d.drug.toLowerCase()),
-  );
+  const dosageGuideline = dbDosageGuidelines.find(d => DRUG_ONTOLOGY.matches(primaryDrug, d.drug));
 
   if (!dosageGuideline) return issues;
 
@@ -145,6 +149,7 @@ function validateDosages(
       severity: 'critical',
       description: `Proposed dose ${proposedDose}mg exceeds max ${maxDose}mg for ${dosageGuideline.drug}`,
       localDbEntry: dosageGuideline.toJSON(),
+      affectedDrugs: [primaryDrug],
     });
   }
 
@@ -160,6 +165,7 @@ function validateDosages(
         severity: 'medium',
         description: `Geriatric adjustment may be needed: ${dosageGuideline.geriatricAdjustment}`,
         localDbEntry: dosageGuideline.toJSON(),
+        affectedDrugs: [primaryDrug],
       });
     }
   }
@@ -171,6 +177,7 @@ function checkAllergyConflicts(
   patientData: CompletePatientData,
   primaryDrug: string,
   uniqueDrugs: string[],
+  allergyGroups: AllergyCrossReactivityGroup[],
   aiResponse: TreatmentPlanResponse,
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
@@ -179,7 +186,7 @@ function checkAllergyConflicts(
   for (const allergen of allergens) {
     issues.push(
       ...checkDirectAllergyMatch(allergen, primaryDrug, aiResponse),
-      ...checkCrossReactivity(allergen, uniqueDrugs, aiResponse),
+      ...checkCrossReactivity(allergen, uniqueDrugs, allergyGroups, aiResponse),
     );
   }
   return issues;
@@ -191,7 +198,7 @@ function checkDirectAllergyMatch(
   primaryDrug: string,
   aiResponse: TreatmentPlanResponse,
 ): ValidationIssue[] {
-  if (!primaryDrug.includes(allergen) && !allergen.includes(primaryDrug)) return [];
+  if (!DRUG_ONTOLOGY.matches(primaryDrug, allergen)) return [];
 
   const aiFoundIt = aiResponse.flaggedIssues?.some(
     issue => issue.type === 'allergy' && issue.description.toLowerCase().includes(allergen),
@@ -203,22 +210,36 @@ function checkDirectAllergyMatch(
     type: 'missed_contraindication',
     severity: 'critical',
     description: `Potential allergy conflict: Patient allergic to ${allergen}, proposed drug is ${primaryDrug}`,
+    affectedDrugs: [primaryDrug],
   }];
 }
 
+const CROSS_REACTIVITY_SEVERITY: Record<AllergyCrossReactivityGroup['severity'], IssueSeverity> = {
+  high: 'high',
+  moderate: 'medium',
+  low: 'low',
+};
+
 /** Check cross-reactivity for a single allergen */
 function checkCrossReactivity(
   allergen: string,
   uniqueDrugs: string[],
+  allergyGroups: AllergyCrossReactivityGroup[],
   aiResponse: TreatmentPlanResponse,
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
-  const crossReactiveGroups = MEDICAL_KNOWLEDGE_BASE.checkCrossReactivity(allergen);
+  const crossReactiveGroups = allergyGroups.filter(
+    g => [...g.primaryAllergens, ...g.crossReactiveDrugs].some(term => DRUG_ONTOLOGY.matches(allergen, term)),
+  );
 
   for (const group of crossReactiveGroups) {
-    for (const crossDrug of group.crossReactiveDrugs) {
-      const drugMatches = uniqueDrugs.some(d => d.includes(crossDrug.toLowerCase()) || crossDrug.toLowerCase().includes(d));
-      if (!drugMatches) continue;
+    // Other members of the allergen's own class count as cross-reactive too
+    const allergenName = DRUG_ONTOLOGY.canonicalName(allergen);
+    const relatedDrugs = [...group.primaryAllergens, ...group.crossReactiveDrugs]
+      .filter(term => DRUG_ONTOLOGY.canonicalName(term) !== allergenName);
+    for (const crossDrug of relatedDrugs) {
+      const matchedDrugs = uniqueDrugs.filter(d => DRUG_ONTOLOGY.matches(d, crossDrug));
+      if (matchedDrugs.length === 0) continue;
 
       const aiFoundCross = aiResponse.flaggedIssues?.some(
         issue => issue.description.toLowerCase().includes(crossDrug.toLowerCase()),
@@ -226,8 +247,9 @@ function checkCrossReactivity(
       if (!aiFoundCross) {
         issues.push({
           type: 'missed_contraindication',
-          severity: 'high',
+          severity: CROSS_REACTIVITY_SEVERITY[group.severity],
           description: `Cross-reactivity risk: Patient allergic to ${allergen} (${group.groupName}). Drug ${crossDrug} has ${group.crossReactivityRate} cross-reactivity. ${group.recommendation}`,
+          affectedDrugs: matchedDrugs,
         });
       }
     }
@@ -244,13 +266,13 @@ function checkKBInteractions(
   const issues: ValidationIssue[] = [];
   for (let i = 0; i < uniqueDrugs.length; i++) {
     for (let j = i + 1; j < uniqueDrugs.length; j++) {
+      if (DRUG_ONTOLOGY.matches(uniqueDrugs[i], uniqueDrugs[j])) continue;
+
       const kbInteraction = MEDICAL_KNOWLEDGE_BASE.checkDrugPair(uniqueDrugs[i], uniqueDrugs[j]);
       if (!kbInteraction || kbInteraction.clinicalSignificance < 4) continue;
 
       const aiFoundIt = aiResponse.drugInteractions?.some(
-        ai =>
-          (ai.drug1.toLowerCase().includes(uniqueDrugs[i]) && ai.drug2.toLowerCase().includes(uniqueDrugs[j])) ||
-          (ai.drug1.toLowerCase().includes(uniqueDrugs[j]) && ai.drug2.toLowerCase().includes(uniqueDrugs[i])),
+        ai => DRUG_ONTOLOGY.matchesPair(ai.drug1, ai.drug2, uniqueDrugs[i], uniqueDrugs[j]),
       );
       if (aiFoundIt) continue;
 
@@ -262,6 +284,7 @@ function checkKBInteractions(
           type: 'missed_interaction',
           severity: kbInteraction.severity as IssueSeverity,
           description: `Knowledge base flag: ${kbInteraction.drug1} + ${kbInteraction.drug2} — ${kbInteraction.effect}. Management: ${kbInteraction.management}`,
+          affectedDrugs: [uniqueDrugs[i], uniqueDrugs[j]],
         });
       }
     }
@@ -277,10 +300,12 @@ function checkKBContraindications(
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
   for (const condition of patientConditions) {
-    const kbContras = MEDICAL_KNOWLEDGE_BASE.findContraindications(condition);
+    const kbContras = MEDICAL_KNOWLEDGE_BASE.contraindications.filter(
+      c => c.condition.toLowerCase().includes(condition),
+    );
     for (const contra of kbContras) {
-      const drugMatches = uniqueDrugs.some(d => contra.drug.toLowerCase().includes(d) || d.includes(contra.drug.toLowerCase()));
-      if (!drugMatches) continue;
+      const matchedDrugs = uniqueDrugs.filter(d => contraindicationCovers(contra, d));
+      if (matchedDrugs.length === 0) continue;
 
       const alreadyFlagged = existingIssues.some(
         iss =>
@@ -292,6 +317,7 @@ function checkKBContraindications(
           type: 'missed_contraindication',
           severity: getContraSeverity(contra),
           description: `KB contraindication: ${contra.drug} in ${contra.condition} — ${contra.reason}. Alternatives: ${contra.alternatives.join(', ')}`,
+          affectedDrugs: matchedDrugs,
         });
       }
     }
@@ -299,14 +325,243 @@ function checkKBContraindications(
   return issues;
 }
 
+/** Validate every proposed dose against the knowledge-base dosage guidelines */
+function checkKBDosages(
+  aiResponse: TreatmentPlanResponse,
+  existingIssues: ValidationIssue[],
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { primaryTreatment, alternativeTreatments } = aiResponse.treatmentPlan;
+
+  for (const treatment of [primaryTreatment, ...(alternativeTreatments || [])]) {
+    const drugName = (treatment.genericName || treatment.medication).toLowerCase();
+    const guideline = MEDICAL_KNOWLEDGE_BASE.findDosageGuideline(drugName);
+    if (!guideline) continue;
+
+    const proposedDose = parseDosage(treatment.dosage);
+    const maxDose = parseDosage(guideline.maxDose);
+    if (proposedDose <= 0 || maxDose <= 0 || proposedDose <= maxDose) continue;
+
+    const alreadyFlagged = existingIssues.some(
+      iss => iss.type === 'dosage_exceeds_max' && iss.affectedDrugs?.some(d => DRUG_ONTOLOGY.matches(d, drugName)),
+    );
+    if (!alreadyFlagged) {
+      issues.push({
+        type: 'dosage_exceeds_max',
+        severity: 'critical',
+        description: `KB dosage limit: proposed ${treatment.medication} ${proposedDose}mg exceeds max ${guideline.maxDose} for ${guideline.drug}`,
+        affectedDrugs: [drugName],
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Gene–drug findings for the patient's pharmacogenomic profile, covering the
+ * proposed drugs and the current medications. Each finding carries the
+ * genotype-guided recommendation and, where the rule has one, a dose.
+ */
+export function checkPharmacogenomics(
+  aiResponse: TreatmentPlanResponse,
+  patientData: CompletePatientData,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const finding of evaluatePharmacogenomics(patientData.pharmacogenomics, gatherUniqueDrugs(aiResponse, patientData))) {
+    // Brand and generic of the same drug give the same finding
+    const key = `${finding.phenotype}|${DRUG_ONTOLOGY.canonicalName(finding.drug)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const aiFoundIt = aiResponse.flaggedIssues?.some(
+      issue => issue.type === 'pharmacogenomic' && issue.affectedDrugs?.some(d => DRUG_ONTOLOGY.matches(d, finding.drug)),
+    );
+    if (aiFoundIt) continue;
+
+    issues.push({
+      type: 'pharmacogenomic',
+      severity: finding.severity,
+      description: `Pharmacogenomic: ${finding.phenotype} — ${finding.drug}. ${finding.effect}`,
+      affectedDrugs: [finding.drug],
+      recommendation: finding.recommendation,
+      ...(finding.doseAdjustment && { doseAdjustment: finding.doseAdjustment }),
+    });
+  }
+  return issues;
+}
+
+/**
+ * Pregnancy contraindications, graded by the patient's trimester, and
+ * lactation risks for the proposed drugs and the current medications.
+ */
+export function checkReproductiveSafety(
+  aiResponse: TreatmentPlanResponse,
+  patientData: CompletePatientData,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const finding of evaluateReproductiveSafety(patientData.demographics, gatherUniqueDrugs(aiResponse, patientData))) {
+    const key = `${finding.context}|${finding.rule}|${DRUG_ONTOLOGY.canonicalName(finding.drug)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const aiFoundIt = aiResponse.flaggedIssues?.some(
+      issue => issue.type === finding.context && issue.affectedDrugs?.some(d => DRUG_ONTOLOGY.matches(d, finding.drug)),
+    );
+    if (aiFoundIt) continue;
+
+    issues.push({
+      type: finding.context,
+      severity: finding.severity,
+      description: `${finding.context === 'pregnancy' ? 'Pregnancy' : 'Lactation'} risk: ${finding.drug} (${finding.rule} in ${finding.condition}) — ${finding.reason}`,
+      affectedDrugs: [finding.drug],
+      recommendation: `Consider alternatives: ${finding.alternatives.join(', ')} (${finding.evidenceSource})`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Drugs a child is too young for, from the pediatric minimum ages. Adult-only
+ * drugs and age limits such as codeine under 12 are reported as missed
+ * contraindications.
+ */
+export function checkPediatricSafety(
+  aiResponse: TreatmentPlanResponse,
+  patientData: CompletePatientData,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const finding of evaluatePediatricRestrictions(patientData.demographics.age, gatherUniqueDrugs(aiResponse, patientData))) {
+    const key = `${finding.rule}|${DRUG_ONTOLOGY.canonicalName(finding.drug)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const aiFoundIt = aiResponse.flaggedIssues?.some(
+      issue => issue.type === 'contraindication' && issue.affectedDrugs?.some(d => DRUG_ONTOLOGY.matches(d, finding.drug)),
+    );
+    if (aiFoundIt) continue;
+
+    const limit = finding.adultOnly ? 'adult-only' : `minimum age ${finding.minAgeYears} years`;
+    issues.push({
+      type: 'missed_contraindication',
+      severity: finding.severity,
+      description: `Pediatric restriction: ${finding.drug} (${limit}) in a ${patientData.demographics.age}-year-old — ${finding.reason}`,
+      affectedDrugs: [finding.drug],
+      recommendation: `Consider alternatives: ${finding.alternatives.join(', ')} (${finding.evidenceSource})`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Takes the proposed treatments a child is too young for out of the plan,
+ * whether the rules or the model proposed them. The first remaining
+ * alternative becomes the primary treatment; with none left the primary is
+ * withheld for the prescriber to choose. Current medications stay, and are
+ * flagged by checkPediatricSafety.
+ */
+export function withholdPediatricRestrictedTreatments(
+  treatmentPlan: TreatmentPlan,
+  age: number,
+): { treatmentPlan: TreatmentPlan; withheld: PediatricAgeFinding[] } {
+  const withheld: PediatricAgeFinding[] = [];
+  const allowed = (treatment: TreatmentRecommendation): boolean => {
+    const [finding] = evaluatePediatricRestrictions(age, [treatment.genericName || treatment.medication]);
+    if (finding) withheld.push(finding);
+    return !finding;
+  };
+
+  const primaryAllowed = allowed(treatmentPlan.primaryTreatment);
+  const alternatives = treatmentPlan.alternativeTreatments.filter(allowed);
+  if (withheld.length === 0) return { treatmentPlan, withheld };
+  if (primaryAllowed) return { treatmentPlan: { ...treatmentPlan, alternativeTreatments: alternatives }, withheld };
+
+  const [replacement, ...rest] = alternatives;
+  if (replacement) {
+    const { medication, genericName, dosage, frequency, duration, route, instructions } = replacement;
+    const primaryTreatment = { medication, genericName, dosage, frequency, duration, route, instructions };
+    return { treatmentPlan: { ...treatmentPlan, primaryTreatment, alternativeTreatments: rest }, withheld };
+  }
+
+  const [finding] = withheld;
+  return {
+    treatmentPlan: {
+      ...treatmentPlan,
+      primaryTreatment: {
+        medication: `⚠️ ${treatmentPlan.primaryTreatment.medication} WITHHELD - PEDIATRIC CONTRAINDICATION`,
+        genericName: 'contraindicated',
+        dosage: 'N/A',
+        frequency: 'N/A',
+        duration: 'N/A',
+        route: 'N/A',
+        instructions: `Not for a ${age}-year-old: ${finding.reason}. Consider ${finding.alternatives.join(', ') || 'specialist referral'}.`,
+      },
+      alternativeTreatments: [],
+    },
+    withheld,
+  };
+}
+
+/**
+ * Two drugs doing the same job once a proposed treatment joins the current
+ * medications: the same ingredient under two names, or two drugs from classes
+ * that should not be combined. The primary and each alternative are checked
+ * separately, since only one of them will be prescribed.
+ */
+export function checkTherapeuticDuplication(
+  aiResponse: TreatmentPlanResponse,
+  patientData: CompletePatientData,
+): ValidationIssue[] {
+  const { primaryTreatment, alternativeTreatments } = aiResponse.treatmentPlan;
+  const currentDrugs = patientData.currentMedications.medications.map(m => m.genericName || m.drugName).filter(Boolean);
+  const proposedDrugs = [primaryTreatment, ...(alternativeTreatments || [])].map(t => t.genericName || t.medication).filter(Boolean);
+
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+  for (const regimen of proposedDrugs.map(drug => [...currentDrugs, drug])) {
+    for (const duplication of findTherapeuticDuplications(regimen)) {
+      const key = duplication.drugs.map(d => DRUG_ONTOLOGY.canonicalName(d)).sort((a, b) => a.localeCompare(b)).join('|');
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const aiFoundIt = aiResponse.flaggedIssues?.some(
+        issue => issue.type === 'duplication' &&
+          duplication.drugs.every(drug => issue.affectedDrugs?.some(d => DRUG_ONTOLOGY.matches(d, drug))),
+      );
+      if (aiFoundIt) continue;
+
+      const [first, second] = duplication.drugs;
+      const overlap = duplication.kind === 'same-ingredient'
+        ? `both contain ${duplication.label}`
+        : `are both ${duplication.label}`;
+      issues.push({
+        type: 'therapeutic_duplication',
+        severity: duplication.severity,
+        description: `Therapeutic duplication: ${first} and ${second} ${overlap} — ${duplication.reason}`,
+        affectedDrugs: duplication.drugs,
+        recommendation: `${duplication.recommendation} (${duplication.evidenceSource})`,
+      });
+    }
+  }
+  return issues;
+}
+
 // Cross-validate AI response with local database
 export const crossValidateWithLocalDB = async (
   aiResponse: TreatmentPlanResponse,
   patientData: CompletePatientData
 ): Promise<ValidationReport> => {
-  const dbInteractions = await DrugInteraction.findAll();
-  const dbContraindications = await Contraindication.findAll();
-  const dbDosageGuidelines = await DosageGuideline.findAll();
+  // Demo mode has no database; the knowledge-base checks below still run
+  const [dbInteractions, dbContraindications, dbDosageGuidelines, dbAllergyGroups] = config.demoMode
+    ? [[], [], [], []]
+    : await Promise.all([DrugInteraction.findAll(), Contraindication.findAll(), DosageGuideline.findAll(), AllergyGroup.findAll()]);
+  // Curated allergy groups replace the bundled ones once the table has been populated
+  const allergyGroups: AllergyCrossReactivityGroup[] = dbAllergyGroups.length > 0 ? dbAllergyGroups : ALLERGY_CROSS_REACTIVITY;
 
   const uniqueDrugs = gatherUniqueDrugs(aiResponse, patientData);
   const primaryDrug = aiResponse.treatmentPlan.primaryTreatment.medication.toLowerCase();
@@ -316,13 +571,18 @@ export const crossValidateWithLocalDB = async (
     ...checkMissedInteractions(uniqueDrugs, dbInteractions, aiResponse),
     ...checkMissedContraindications(patientConditions, primaryDrug, dbContraindications, aiResponse),
     ...validateDosages(primaryDrug, dbDosageGuidelines, patientData, aiResponse),
-    ...checkAllergyConflicts(patientData, primaryDrug, uniqueDrugs, aiResponse),
+    ...checkAllergyConflicts(patientData, primaryDrug, uniqueDrugs, allergyGroups, aiResponse),
+    ...checkPharmacogenomics(aiResponse, patientData),
+    ...checkReproductiveSafety(aiResponse, patientData),
+    ...checkPediatricSafety(aiResponse, patientData),
+    ...checkTherapeuticDuplication(aiResponse, patientData),
   ];
 
   // KB checks need existing issues for dedup
   const kbIssues = [
     ...checkKBInteractions(uniqueDrugs, aiResponse, issues),
     ...checkKBContraindications(patientConditions, uniqueDrugs, issues),
+    ...checkKBDosages(aiResponse, issues),
   ];
   issues.push(...kbIssues);
 
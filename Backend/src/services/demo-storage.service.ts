@@ -5,7 +5,9 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { FrontendTreatmentResponse, DemoCompletePatientData, DemoPatientSummary, TreatmentPlanResponse } from '../types';
+import { PharmacogenomicProfile, Trimester } from '@treatment-plan/clinical-knowledge';
+import { AuditChainVerification, GENESIS_HASH, computeAuditEntryHash, verifyAuditChain } from './audit-chain.service';
+import { FrontendTreatmentResponse, DemoCompletePatientData, DemoPatientSummary, Hl7DeadLetterRecord, LabResult, LabResultRecord, TreatmentOutcomeRecord, TreatmentPlanReportSnapshotRecord, TreatmentPlanResponse, TreatmentPlanRevisionRecord, UserRole } from '../types';
 
 // ==================== INTERFACES ====================
 
@@ -21,6 +23,11 @@ export interface DemoPatient {
     diastolicBp: number;
     heartRate: number;
     temperature: number;
+    pregnant?: boolean;
+    trimester?: Trimester;
+    lactating?: boolean;
+    pharmacogenomics?: PharmacogenomicProfile;
+    externalId?: string;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -73,6 +80,7 @@ export interface DemoTreatmentPlan {
     approvedAt?: Date;
     rejectionReason?: string;
     modifications?: Record<string, unknown>;
+    knowledgeBaseVersion?: string;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -90,6 +98,20 @@ export interface DemoAuditLog {
     reason?: string;
     ipAddress?: string;
     userAgent?: string;
+    sequence: number;
+    previousHash: string;
+    hash: string;
+}
+
+export interface DemoUser {
+    id: string;
+    username: string;
+    passwordHash: string;
+    fullName: string;
+    role: UserRole;
+    active: boolean;
+    lastLoginAt?: Date;
+    createdAt: Date;
 }
 
 // ==================== STORAGE MAPS ====================
@@ -99,8 +121,15 @@ class DemoStorageService {
     private readonly medicalHistories: Map<string, DemoMedicalHistory> = new Map();
     private readonly medications: Map<string, DemoMedication[]> = new Map();
     private readonly lifestyles: Map<string, DemoLifestyle> = new Map();
+    private readonly labResults: Map<string, LabResultRecord[]> = new Map();
     private readonly treatmentPlans: Map<string, DemoTreatmentPlan> = new Map();
+    private readonly planRevisions: Map<string, TreatmentPlanRevisionRecord[]> = new Map();
+    private readonly planOutcomes: Map<string, TreatmentOutcomeRecord[]> = new Map();
+    private readonly planReportSnapshots: Map<string, TreatmentPlanReportSnapshotRecord[]> = new Map();
     private readonly auditLogs: Map<string, DemoAuditLog> = new Map();
+    private readonly users: Map<string, DemoUser> = new Map();
+    private readonly hl7DeadLetters: Map<string, Hl7DeadLetterRecord> = new Map();
+    private readonly auditChain: DemoAuditLog[] = [];
 
     private patientIdCounter = 1;
     private planIdCounter = 1;
@@ -126,6 +155,19 @@ class DemoStorageService {
         return this.patients.get(id);
     }
 
+    findPatientByExternalId(externalId: string): DemoPatient | undefined {
+        return Array.from(this.patients.values()).find(patient => patient.externalId === externalId);
+    }
+
+    updatePatient(id: string, updates: Partial<Omit<DemoPatient, 'id' | 'createdAt'>>): DemoPatient | undefined {
+        const patient = this.patients.get(id);
+        if (!patient) return undefined;
+
+        const updated: DemoPatient = { ...patient, ...updates, updatedAt: new Date() };
+        this.patients.set(id, updated);
+        return updated;
+    }
+
     getAllPatients(): DemoPatient[] {
         return Array.from(this.patients.values()).sort(
             (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
@@ -140,10 +182,12 @@ class DemoStorageService {
         this.medicalHistories.delete(id);
         this.medications.delete(id);
         this.lifestyles.delete(id);
+        this.labResults.delete(id);
         // Delete associated treatment plans
         for (const [planId, plan] of this.treatmentPlans.entries()) {
             if (plan.patientId === id) {
                 this.treatmentPlans.delete(planId);
+                this.planOutcomes.delete(planId);
             }
         }
         return this.patients.delete(id);
@@ -201,6 +245,28 @@ class DemoStorageService {
         return this.lifestyles.get(patientId);
     }
 
+    // ==================== LAB RESULT METHODS ====================
+
+    addLabResult(patientId: string, data: LabResult): LabResultRecord {
+        const result: LabResultRecord = {
+            ...data,
+            id: uuidv4(),
+            patientId,
+            createdAt: new Date(),
+        };
+        const existing = this.labResults.get(patientId) || [];
+        existing.push(result);
+        this.labResults.set(patientId, existing);
+        return result;
+    }
+
+    /** Lab results for a patient, most recently collected first. */
+    getLabResults(patientId: string): LabResultRecord[] {
+        return [...(this.labResults.get(patientId) || [])].sort(
+            (a, b) => new Date(b.collectedAt).getTime() - new Date(a.collectedAt).getTime()
+        );
+    }
+
     // ==================== TREATMENT PLAN METHODS ====================
 
     createTreatmentPlan(data: Omit<DemoTreatmentPlan, 'id' | 'createdAt' | 'updatedAt'>): DemoTreatmentPlan {
@@ -254,17 +320,94 @@ class DemoStorageService {
         return updated;
     }
 
+    // ==================== TREATMENT PLAN REVISION METHODS ====================
+
+    createTreatmentPlanRevision(data: Omit<TreatmentPlanRevisionRecord, 'id' | 'createdAt'>): TreatmentPlanRevisionRecord {
+        const revisions = this.planRevisions.get(data.treatmentPlanId) ?? [];
+        if (revisions.some(r => r.revisionNumber === data.revisionNumber)) {
+            throw new Error(`Revision ${data.revisionNumber} already exists for plan ${data.treatmentPlanId}`);
+        }
+        // Deep copy so later edits to the live plan can never reach a stored snapshot
+        const revision: TreatmentPlanRevisionRecord = Object.freeze({
+            ...(JSON.parse(JSON.stringify(data)) as typeof data),
+            id: uuidv4(),
+            createdAt: new Date(),
+        });
+        this.planRevisions.set(data.treatmentPlanId, [...revisions, revision]);
+        return revision;
+    }
+
+    /** Revisions of one plan, oldest first. */
+    getTreatmentPlanRevisions(treatmentPlanId: string): TreatmentPlanRevisionRecord[] {
+        return [...(this.planRevisions.get(treatmentPlanId) ?? [])];
+    }
+
+    // ==================== TREATMENT PLAN REPORT METHODS ====================
+
+    createTreatmentPlanReportSnapshot(data: Omit<TreatmentPlanReportSnapshotRecord, 'id' | 'createdAt'>): TreatmentPlanReportSnapshotRecord {
+        const snapshot: TreatmentPlanReportSnapshotRecord = Object.freeze({
+            ...data,
+            report: JSON.parse(JSON.stringify(data.report)) as TreatmentPlanReportSnapshotRecord['report'],
+            pdf: Buffer.from(data.pdf),
+            id: uuidv4(),
+            createdAt: new Date(),
+        });
+        const snapshots = this.planReportSnapshots.get(data.treatmentPlanId) ?? [];
+        this.planReportSnapshots.set(data.treatmentPlanId, [...snapshots, snapshot]);
+        return snapshot;
+    }
+
+    /** Report snapshots of one plan, oldest first. */
+    getTreatmentPlanReportSnapshots(treatmentPlanId: string): TreatmentPlanReportSnapshotRecord[] {
+        return [...(this.planReportSnapshots.get(treatmentPlanId) ?? [])];
+    }
+
+    // ==================== TREATMENT OUTCOME METHODS ====================
+
+    addTreatmentOutcome(data: Omit<TreatmentOutcomeRecord, 'id' | 'createdAt'>): TreatmentOutcomeRecord {
+        const outcome: TreatmentOutcomeRecord = {
+            ...data,
+            id: uuidv4(),
+            createdAt: new Date(),
+        };
+        const existing = this.planOutcomes.get(data.treatmentPlanId) || [];
+        existing.push(outcome);
+        this.planOutcomes.set(data.treatmentPlanId, existing);
+        return outcome;
+    }
+
+    /** Outcomes recorded for a plan, most recently observed first. */
+    getTreatmentOutcomes(treatmentPlanId: string): TreatmentOutcomeRecord[] {
+        return [...(this.planOutcomes.get(treatmentPlanId) || [])].sort(
+            (a, b) => new Date(b.observedAt).getTime() - new Date(a.observedAt).getTime()
+        );
+    }
+
     // ==================== AUDIT LOG METHODS ====================
 
-    createAuditLog(data: Omit<DemoAuditLog, 'id'>): DemoAuditLog {
-        const log: DemoAuditLog = {
+    createAuditLog(data: Omit<DemoAuditLog, 'id' | 'sequence' | 'previousHash' | 'hash'>): DemoAuditLog {
+        const head = this.auditChain[this.auditChain.length - 1];
+        const entry = {
             ...data,
             id: uuidv4(),
+            sequence: (head?.sequence ?? 0) + 1,
+            previousHash: head?.hash ?? GENESIS_HASH,
         };
+        const log: DemoAuditLog = { ...entry, hash: computeAuditEntryHash(entry, entry.previousHash) };
         this.auditLogs.set(log.id, log);
+        this.auditChain.push(log);
         return log;
     }
 
+    /** Audit entries in chain (insertion) order, oldest first. */
+    getAuditChain(): DemoAuditLog[] {
+        return [...this.auditChain];
+    }
+
+    verifyAuditChain(): AuditChainVerification {
+        return verifyAuditChain(this.auditChain);
+    }
+
     getAuditLogs(patientId?: string): DemoAuditLog[] {
         const logs = Array.from(this.auditLogs.values());
         if (patientId) {
@@ -274,6 +417,62 @@ class DemoStorageService {
         return logs.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
     }
 
+    // ==================== HL7 DEAD LETTER METHODS ====================
+
+    addHl7DeadLetter(data: Omit<Hl7DeadLetterRecord, 'id'>): Hl7DeadLetterRecord {
+        const deadLetter: Hl7DeadLetterRecord = { ...data, id: uuidv4() };
+        this.hl7DeadLetters.set(deadLetter.id, deadLetter);
+        return deadLetter;
+    }
+
+    /** Dead letters, most recently received first. */
+    getHl7DeadLetters(): Hl7DeadLetterRecord[] {
+        return Array.from(this.hl7DeadLetters.values()).sort(
+            (a, b) => b.receivedAt.getTime() - a.receivedAt.getTime()
+        );
+    }
+
+    getHl7DeadLetter(id: string): Hl7DeadLetterRecord | undefined {
+        return this.hl7DeadLetters.get(id);
+    }
+
+    deleteHl7DeadLetter(id: string): boolean {
+        return this.hl7DeadLetters.delete(id);
+    }
+
+    // ==================== USER METHODS ====================
+
+    createUser(data: Omit<DemoUser, 'id' | 'createdAt'>): DemoUser {
+        const user: DemoUser = {
+            ...data,
+            id: uuidv4(),
+            createdAt: new Date(),
+        };
+        this.users.set(user.id, user);
+        return user;
+    }
+
+    getUser(id: string): DemoUser | undefined {
+        return this.users.get(id);
+    }
+
+    getUserByUsername(username: string): DemoUser | undefined {
+        const needle = username.toLowerCase();
+        return Array.from(this.users.values()).find(u => u.username.toLowerCase() === needle);
+    }
+
+    updateUser(id: string, updates: Partial<DemoUser>): DemoUser | undefined {
+        const user = this.users.get(id);
+        if (!user) return undefined;
+        const updated = { ...user, ...updates, id };
+        this.users.set(id, updated);
+        return updated;
+    }
+
+    getUserCount(): number {
+        return this.users.size;
+    }
+
     // ==================== COMPLETE PATIENT DATA ====================
 
     getCompletePatientData(patientId: string): DemoCompletePatientData | null {
@@ -285,6 +484,7 @@ class DemoStorageService {
             medicalHistory: this.medicalHistories.get(patientId),
             currentMedications: this.medications.get(patientId) || [],
             lifestyleFactors: this.lifestyles.get(patientId),
+            labResults: this.getLabResults(patientId),
             treatmentPlans: this.getPatientTreatmentPlans(patientId),
         };
     }
@@ -563,8 +763,15 @@ class DemoStorageService {
         this.medicalHistories.clear();
         this.medications.clear();
         this.lifestyles.clear();
+        this.labResults.clear();
         this.treatmentPlans.clear();
+        this.planRevisions.clear();
+        this.planOutcomes.clear();
+        this.planReportSnapshots.clear();
         this.auditLogs.clear();
+        this.auditChain.length = 0;
+        this.users.clear();
+        this.hl7DeadLetters.clear();
         this.patientIdCounter = 1;
         this.planIdCounter = 1;
         this.initialized = false;
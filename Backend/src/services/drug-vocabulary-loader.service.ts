@@ -0,0 +1,350 @@
+/**
+ * Offline Drug Vocabulary Loader
+ *
+ * Builds the snapshot read by drug-vocabulary-snapshot.service.ts from the
+ * public bulk downloads:
+ * - RxNorm full release (RXNCONSO.RRF and RXNREL.RRF from the `rrf` folder)
+ * - OpenFDA drug label and drug enforcement JSON files (unzipped)
+ *
+ * RxNorm gives the concepts and which ingredients each product contains.
+ * OpenFDA labels are linked to those ingredients through their RxCUIs and
+ * substance names; the label's drug-interactions section is scanned for
+ * other ingredients to derive interaction pairs. Adverse event counts are not
+ * part of the snapshot.
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import readline from 'node:readline';
+import logger from '../config/logger';
+import {
+  parseOpenFDALabel,
+  parseOpenFDARecall,
+  RxNormInteraction,
+} from './medical-data-scraper.service';
+import {
+  normalizeVocabularyName,
+  SNAPSHOT_FILES,
+  SNAPSHOT_FORMAT_VERSION,
+  SnapshotConcept,
+  SnapshotLabel,
+  SnapshotManifest,
+  SnapshotRecall,
+} from './drug-vocabulary-snapshot.service';
+
+export interface DrugVocabularySources {
+  // Folder holding RXNCONSO.RRF and RXNREL.RRF
+  rxnormDir?: string;
+  // OpenFDA drug label and enforcement downloads, in any order
+  openFdaFiles: string[];
+}
+
+// ===================== RXNORM RRF =====================
+
+// Distance from the ingredient: products resolve to ingredients by following relations downwards
+const TTY_LEVEL: Record<string, number> = {
+  IN: 0, PIN: 0, MIN: 0,
+  BN: 1, SCDC: 1, SBDC: 1,
+  SCD: 2, SBD: 3, GPCK: 4, BPCK: 5,
+};
+
+// Component concepts are only needed to link products to ingredients
+const STORED_TTYS = new Set(['IN', 'PIN', 'MIN', 'BN', 'SCD', 'SBD', 'GPCK', 'BPCK']);
+const SYNONYM_TTYS = new Set(['SY', 'TMSY', 'PSN']);
+
+const LINKING_RELATIONS = new Set([
+  'has_ingredient', 'ingredient_of',
+  'has_ingredients', 'ingredients_of',
+  'has_precise_ingredient', 'precise_ingredient_of',
+  'consists_of', 'constitutes',
+  'has_tradename', 'tradename_of',
+  'contains', 'contained_in',
+]);
+
+export interface RxnconsoRow {
+  rxcui: string;
+  sab: string;
+  tty: string;
+  name: string;
+  suppress: string;
+}
+
+/** One RXNCONSO.RRF line (pipe-delimited; RXCUI, SAB, TTY, STR and SUPPRESS are columns 1, 12, 13, 15 and 17) */
+export function parseRxnconsoRow(line: string): RxnconsoRow | null {
+  const columns = line.split('|');
+  if (columns.length < 17) return null;
+  return { rxcui: columns[0], sab: columns[11], tty: columns[12], name: columns[14], suppress: columns[16] };
+}
+
+/** One RXNREL.RRF line (RXCUI1, RELA and SAB are columns 1, 8 and 11; RXCUI2 is column 5) */
+export function parseRxnrelRow(line: string): { rxcui1: string; rxcui2: string; rela: string; sab: string } | null {
+  const columns = line.split('|');
+  if (columns.length < 11) return null;
+  return { rxcui1: columns[0], rxcui2: columns[4], rela: columns[7], sab: columns[10] };
+}
+
+async function forEachLine(file: string, onLine: (line: string) => void): Promise<void> {
+  const lines = readline.createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line) onLine(line);
+  }
+}
+
+async function readRxNorm(rxnormDir: string): Promise<Map<string, SnapshotConcept>> {
+  const concepts = new Map<string, { rxcui: string; name: string; tty: string; synonyms: Set<string> }>();
+  const synonyms = new Map<string, Set<string>>();
+
+  await forEachLine(path.join(rxnormDir, 'RXNCONSO.RRF'), line => {
+    const row = parseRxnconsoRow(line);
+    // Only current RxNorm-normalized names; other sources in the release use their own vocabularies
+    if (!row || row.sab !== 'RXNORM' || (row.suppress !== 'N' && row.suppress !== '')) return;
+    if (row.tty in TTY_LEVEL && !concepts.has(row.rxcui)) {
+      concepts.set(row.rxcui, { rxcui: row.rxcui, name: row.name, tty: row.tty, synonyms: new Set() });
+    } else if (SYNONYM_TTYS.has(row.tty)) {
+      const names = synonyms.get(row.rxcui) ?? new Set<string>();
+      names.add(row.name);
+      synonyms.set(row.rxcui, names);
+    }
+  });
+
+  const links = new Map<string, Set<string>>();
+  await forEachLine(path.join(rxnormDir, 'RXNREL.RRF'), line => {
+    const row = parseRxnrelRow(line);
+    if (!row || row.sab !== 'RXNORM' || !LINKING_RELATIONS.has(row.rela)) return;
+    if (!concepts.has(row.rxcui1) || !concepts.has(row.rxcui2)) return;
+    for (const [from, to] of [[row.rxcui1, row.rxcui2], [row.rxcui2, row.rxcui1]]) {
+      const linked = links.get(from) ?? new Set<string>();
+      linked.add(to);
+      links.set(from, linked);
+    }
+  });
+
+  const ingredients = new Map<string, string[]>();
+  const ingredientsOf = (rxcui: string): string[] => {
+    const known = ingredients.get(rxcui);
+    if (known) return known;
+    const level = TTY_LEVEL[concepts.get(rxcui)!.tty];
+    const found = level === 0
+      ? [rxcui]
+      : [...new Set([...(links.get(rxcui) ?? [])]
+        .filter(linked => TTY_LEVEL[concepts.get(linked)!.tty] < level)
+        .flatMap(ingredientsOf))];
+    ingredients.set(rxcui, found);
+    return found;
+  };
+
+  const stored = new Map<string, SnapshotConcept>();
+  for (const concept of concepts.values()) {
+    if (!STORED_TTYS.has(concept.tty)) continue;
+    stored.set(concept.rxcui, {
+      rxcui: concept.rxcui,
+      name: concept.name,
+      tty: concept.tty,
+      synonyms: [...(synonyms.get(concept.rxcui) ?? [])].filter(name => name !== concept.name),
+      ingredients: ingredientsOf(concept.rxcui),
+    });
+  }
+  return stored;
+}
+
+// ===================== OPENFDA =====================
+
+// Most recent labels kept per drug; older versions and repackager copies add size but no information
+const MAX_LABELS_PER_DRUG = 3;
+
+const openFdaList = (record: Record<string, unknown>, field: string): string[] => {
+  const value = (record.openfda as Record<string, unknown> | undefined)?.[field];
+  return Array.isArray(value) ? value.map(String) : [];
+};
+
+const PHARM_CLASS_FIELDS: Array<[string, string]> = [
+  ['pharm_class_epc', 'EPC'],
+  ['pharm_class_moa', 'MOA'],
+  ['pharm_class_pe', 'PE'],
+  ['pharm_class_cs', 'CHEM'],
+];
+
+// OpenFDA labels carry an effective date as YYYYMMDD
+const toIsoDate = (value: unknown): string => {
+  const text = typeof value === 'string' ? value : '';
+  return /^\d{8}$/.test(text) ? `${text.slice(0, 4)}-${text.slice(4, 6)}-${text.slice(6, 8)}` : text;
+};
+
+/** DailyMed-style title, e.g. "LIPITOR (ATORVASTATIN CALCIUM) TABLET [PFIZER]" */
+function labelTitle(brand: string, generic: string, form: string, manufacturer: string): string {
+  const name = brand || generic;
+  return [
+    name.toUpperCase(),
+    brand && generic ? `(${generic.toUpperCase()})` : '',
+    form.toUpperCase(),
+    manufacturer ? `[${manufacturer.toUpperCase()}]` : '',
+  ].filter(Boolean).join(' ');
+}
+
+function toSnapshotLabel(
+  record: Record<string, unknown>,
+  concepts: Map<string, SnapshotConcept>,
+  ingredientByName: Map<string, string>,
+): SnapshotLabel | null {
+  const label = parseOpenFDALabel(record);
+  const names = [...new Set([...openFdaList(record, 'generic_name'), ...openFdaList(record, 'brand_name')].map(normalizeVocabularyName))];
+  const ingredients = new Set<string>();
+  for (const rxcui of openFdaList(record, 'rxcui')) {
+    for (const ingredient of concepts.get(rxcui)?.ingredients ?? []) ingredients.add(ingredient);
+  }
+  // Labels whose product RxCUIs are missing from the release still match on substance names
+  if (ingredients.size === 0) {
+    for (const substance of label.activeIngredients) {
+      const rxcui = ingredientByName.get(normalizeVocabularyName(substance));
+      if (rxcui) ingredients.add(rxcui);
+    }
+  }
+  if (names.length === 0 && ingredients.size === 0) return null;
+
+  return {
+    setId: typeof record.set_id === 'string' ? record.set_id : String(record.id ?? ''),
+    splVersion: Number(record.version) || 0,
+    title: labelTitle(label.brandName, label.genericName, label.dosageForm, label.manufacturer),
+    publishedDate: toIsoDate(record.effective_time),
+    ingredients: [...ingredients],
+    names,
+    drugClasses: PHARM_CLASS_FIELDS.flatMap(([field, classType]) =>
+      openFdaList(record, field).map(className => ({ className, classId: '', classType }))),
+    label,
+  };
+}
+
+// ===================== INTERACTIONS =====================
+
+const MAX_NAME_WORDS = 3;
+
+/**
+ * Pairs from label drug-interaction sections: each sentence naming another
+ * ingredient becomes an interaction between it and the label's ingredient.
+ * Only single-ingredient labels are used so the pair is unambiguous.
+ */
+export function deriveLabelInteractions(
+  labels: SnapshotLabel[],
+  concepts: Map<string, SnapshotConcept>,
+): RxNormInteraction[] {
+  const ingredientByName = new Map<string, string>();
+  for (const concept of concepts.values()) {
+    const name = normalizeVocabularyName(concept.name);
+    // Names shorter than four letters match too many ordinary words
+    if (concept.tty === 'IN' && name.length >= 4 && name.split(' ').length <= MAX_NAME_WORDS) {
+      ingredientByName.set(name, concept.rxcui);
+    }
+  }
+
+  const interactions = new Map<string, RxNormInteraction>();
+  for (const entry of labels) {
+    if (entry.ingredients.length !== 1) continue;
+    const [own] = entry.ingredients;
+    const ownConcept = concepts.get(own);
+    if (!ownConcept) continue;
+
+    for (const section of entry.label.drugInteractions) {
+      for (const sentence of section.split(/(?<=[.;])\s+/)) {
+        const words = normalizeVocabularyName(sentence).split(/[^a-z0-9-]+/).filter(Boolean);
+        for (let start = 0; start < words.length; start++) {
+          for (let size = MAX_NAME_WORDS; size >= 1; size--) {
+            const other = ingredientByName.get(words.slice(start, start + size).join(' '));
+            if (!other || other === own) continue;
+            const key = [own, other].sort((a, b) => a.localeCompare(b)).join('+');
+            if (!interactions.has(key)) {
+              interactions.set(key, {
+                drug1: { rxcui: own, name: ownConcept.name },
+                drug2: { rxcui: other, name: concepts.get(other)!.name },
+                severity: 'unknown',
+                description: sentence.length > 300 ? `${sentence.slice(0, 297)}...` : sentence.trim(),
+                source: 'FDA label (offline snapshot)',
+              });
+            }
+            break;
+          }
+        }
+      }
+    }
+  }
+  return [...interactions.values()];
+}
+
+// ===================== BUILD =====================
+
+async function writeJsonLines(file: string, records: Iterable<unknown>): Promise<number> {
+  const out = createWriteStream(file, 'utf8');
+  let count = 0;
+  for (const record of records) {
+    if (!out.write(`${JSON.stringify(record)}\n`)) {
+      await new Promise<void>(resolve => out.once('drain', () => resolve()));
+    }
+    count++;
+  }
+  await new Promise<void>((resolve, reject) => {
+    out.on('error', reject);
+    out.end(() => resolve());
+  });
+  return count;
+}
+
+/**
+ * Build a snapshot in `outDir`, replacing any snapshot already there. The
+ * manifest is written last, so an interrupted build is never picked up.
+ */
+export async function buildDrugVocabularySnapshot(sources: DrugVocabularySources, outDir: string): Promise<SnapshotManifest> {
+  await mkdir(outDir, { recursive: true });
+  await rm(path.join(outDir, SNAPSHOT_FILES.manifest), { force: true });
+
+  const concepts = sources.rxnormDir ? await readRxNorm(sources.rxnormDir) : new Map<string, SnapshotConcept>();
+  logger.info('RxNorm concepts read', { count: concepts.size });
+
+  const ingredientByName = new Map<string, string>();
+  for (const concept of concepts.values()) {
+    if (concept.tty === 'IN') ingredientByName.set(normalizeVocabularyName(concept.name), concept.rxcui);
+  }
+
+  const labelsByDrug = new Map<string, SnapshotLabel[]>();
+  const recalls: SnapshotRecall[] = [];
+  for (const file of sources.openFdaFiles) {
+    // OpenFDA downloads are single JSON documents of the form { meta, results: [...] }
+    const { results = [] } = JSON.parse(await readFile(file, 'utf8')) as { results?: Array<Record<string, unknown>> };
+    for (const record of results) {
+      if ('recall_number' in record) {
+        const names = [...openFdaList(record, 'generic_name'), ...openFdaList(record, 'brand_name')].map(normalizeVocabularyName);
+        if (names.length > 0) recalls.push({ names: [...new Set(names)], recall: parseOpenFDARecall(record) });
+        continue;
+      }
+      const label = toSnapshotLabel(record, concepts, ingredientByName);
+      if (!label) continue;
+      const drugKey = label.ingredients.length > 0 ? [...label.ingredients].sort().join('+') : label.names[0];
+      const kept = [...(labelsByDrug.get(drugKey) ?? []), label]
+        .sort((a, b) => b.publishedDate.localeCompare(a.publishedDate))
+        .slice(0, MAX_LABELS_PER_DRUG);
+      labelsByDrug.set(drugKey, kept);
+    }
+    logger.info('OpenFDA file read', { file, records: results.length });
+  }
+
+  const labels = [...labelsByDrug.values()].flat();
+  const interactions = deriveLabelInteractions(labels, concepts);
+
+  const manifest: SnapshotManifest = {
+    formatVersion: SNAPSHOT_FORMAT_VERSION,
+    builtAt: new Date().toISOString(),
+    sources: [
+      ...(sources.rxnormDir ? ['RXNCONSO.RRF', 'RXNREL.RRF'].map(name => path.join(sources.rxnormDir!, name)) : []),
+      ...sources.openFdaFiles,
+    ].map(file => path.basename(file)),
+    counts: {
+      concepts: await writeJsonLines(path.join(outDir, SNAPSHOT_FILES.concepts), concepts.values()),
+      labels: await writeJsonLines(path.join(outDir, SNAPSHOT_FILES.labels), labels),
+      recalls: await writeJsonLines(path.join(outDir, SNAPSHOT_FILES.recalls), recalls),
+      interactions: await writeJsonLines(path.join(outDir, SNAPSHOT_FILES.interactions), interactions),
+    },
+  };
+  await writeFile(path.join(outDir, SNAPSHOT_FILES.manifest), `${JSON.stringify(manifest, null, 2)}\n`);
+
+  logger.info('Offline drug vocabulary snapshot built', { outDir, ...manifest.counts });
+  return manifest;
+}
@@ -0,0 +1,324 @@
+/**
+ * Offline Drug Vocabulary Snapshot
+ *
+ * A local copy of the RxNorm vocabulary and OpenFDA labels and recalls, built
+ * by `npm run drug-data:load` from the public bulk downloads (see
+ * drug-vocabulary-loader.service.ts). With DRUG_DATA_SOURCE=snapshot the
+ * OpenFDA, RxNorm and DailyMed services answer from it instead of calling the
+ * APIs, so deployments without internet access still resolve RxCUIs and get
+ * label warnings, drug classes and interactions.
+ *
+ * The snapshot is a directory of JSON Lines files plus a manifest, read into
+ * memory on first use.
+ */
+
+import { createReadStream } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import readline from 'node:readline';
+import { config } from '../config';
+import logger from '../config/logger';
+import type {
+  DailyMedDrugInfo,
+  DrugRecall,
+  OpenFDADrugLabel,
+  RxNormDrug,
+  RxNormInteraction,
+} from './medical-data-scraper.service';
+
+// ===================== FILE FORMAT =====================
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+export const SNAPSHOT_FILES = {
+  manifest: 'manifest.json',
+  concepts: 'concepts.jsonl',
+  labels: 'labels.jsonl',
+  recalls: 'recalls.jsonl',
+  interactions: 'interactions.jsonl',
+} as const;
+
+export interface SnapshotManifest {
+  formatVersion: number;
+  builtAt: string;
+  // Input files the snapshot was built from
+  sources: string[];
+  counts: { concepts: number; labels: number; recalls: number; interactions: number };
+}
+
+/** An RxNorm concept with the ingredient concepts it contains (its own RxCUI for an ingredient) */
+export interface SnapshotConcept {
+  rxcui: string;
+  name: string;
+  tty: string;
+  synonyms: string[];
+  ingredients: string[];
+}
+
+export interface SnapshotLabel {
+  setId: string;
+  splVersion: number;
+  title: string;
+  publishedDate: string;
+  ingredients: string[];
+  // Lowercased generic and brand names the label is found by
+  names: string[];
+  drugClasses: Array<{ className: string; classId: string; classType: string }>;
+  label: OpenFDADrugLabel;
+}
+
+export interface SnapshotRecall {
+  names: string[];
+  recall: DrugRecall;
+}
+
+// ===================== LOOKUPS =====================
+
+/** Lowercase with single spaces, the form every name index uses */
+export const normalizeVocabularyName = (name: string): string => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Preferred concept when several share a name: ingredients first, then brands, then products
+const TTY_PREFERENCE = ['IN', 'PIN', 'MIN', 'BN', 'SCD', 'SBD', 'GPCK', 'BPCK'];
+const ttyRank = (tty: string): number => {
+  const rank = TTY_PREFERENCE.indexOf(tty);
+  return rank === -1 ? TTY_PREFERENCE.length : rank;
+};
+
+// Product term types returned by drug searches and related-drug lookups, as RxNav does
+const PRODUCT_TTYS = new Set(['SCD', 'SBD', 'GPCK', 'BPCK']);
+
+export interface DrugSnapshotStatus {
+  directory: string;
+  loaded: boolean;
+  builtAt: string | null;
+  counts: SnapshotManifest['counts'] | null;
+  error: string | null;
+}
+
+async function readJsonLines<T>(file: string, onRecord: (record: T) => void): Promise<void> {
+  const lines = readline.createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line.trim()) onRecord(JSON.parse(line) as T);
+  }
+}
+
+const push = <K, V>(index: Map<K, V[]>, key: K, value: V) => {
+  const list = index.get(key);
+  if (list) list.push(value);
+  else index.set(key, [value]);
+};
+
+export class DrugVocabularySnapshot {
+  private loading: Promise<void> | null = null;
+  private manifest: SnapshotManifest | null = null;
+  private loadError: string | null = null;
+
+  private concepts = new Map<string, SnapshotConcept>();
+  private rxcuiByName = new Map<string, string>();
+  private productsByIngredient = new Map<string, SnapshotConcept[]>();
+  private labelsByName = new Map<string, SnapshotLabel[]>();
+  private labelsByIngredient = new Map<string, SnapshotLabel[]>();
+  private labelsBySetId = new Map<string, SnapshotLabel>();
+  private recallsByName = new Map<string, DrugRecall[]>();
+  private interactionsByRxcui = new Map<string, RxNormInteraction[]>();
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Read the snapshot once; a missing or broken snapshot is logged, answers
+   * the waiting lookups empty and is read again by the next one.
+   */
+  load(): Promise<void> {
+    this.loading ??= this.readFiles().catch(error => {
+      this.loadError = (error as Error).message;
+      this.loading = null;
+      logger.error('Offline drug vocabulary snapshot could not be loaded', { directory: this.directory, error: this.loadError });
+    });
+    return this.loading;
+  }
+
+  status(): DrugSnapshotStatus {
+    return {
+      directory: this.directory,
+      loaded: this.manifest !== null,
+      builtAt: this.manifest?.builtAt ?? null,
+      counts: this.manifest?.counts ?? null,
+      error: this.loadError,
+    };
+  }
+
+  private async readFiles(): Promise<void> {
+    const file = (name: string) => path.join(this.directory, name);
+    const manifest = JSON.parse(await readFile(file(SNAPSHOT_FILES.manifest), 'utf8')) as SnapshotManifest;
+    if (manifest.formatVersion !== SNAPSHOT_FORMAT_VERSION) {
+      throw new Error(`Snapshot format ${manifest.formatVersion} is not supported; rebuild it with npm run drug-data:load`);
+    }
+
+    // Indexes are built aside and swapped in whole, so a file that fails partway leaves none behind
+    const concepts = new Map<string, SnapshotConcept>();
+    const rxcuiByName = new Map<string, string>();
+    const productsByIngredient = new Map<string, SnapshotConcept[]>();
+    const labelsByName = new Map<string, SnapshotLabel[]>();
+    const labelsByIngredient = new Map<string, SnapshotLabel[]>();
+    const labelsBySetId = new Map<string, SnapshotLabel>();
+    const recallsByName = new Map<string, DrugRecall[]>();
+    const interactionsByRxcui = new Map<string, RxNormInteraction[]>();
+
+    await readJsonLines<SnapshotConcept>(file(SNAPSHOT_FILES.concepts), concept => {
+      concepts.set(concept.rxcui, concept);
+      for (const name of [concept.name, ...concept.synonyms]) {
+        const key = normalizeVocabularyName(name);
+        const current = rxcuiByName.get(key);
+        if (!current || ttyRank(concept.tty) < ttyRank(concepts.get(current)!.tty)) {
+          rxcuiByName.set(key, concept.rxcui);
+        }
+      }
+      if (PRODUCT_TTYS.has(concept.tty)) {
+        for (const ingredient of concept.ingredients) push(productsByIngredient, ingredient, concept);
+      }
+    });
+    await readJsonLines<SnapshotLabel>(file(SNAPSHOT_FILES.labels), label => {
+      labelsBySetId.set(label.setId, label);
+      for (const name of label.names) push(labelsByName, name, label);
+      for (const ingredient of label.ingredients) push(labelsByIngredient, ingredient, label);
+    });
+    await readJsonLines<SnapshotRecall>(file(SNAPSHOT_FILES.recalls), ({ names, recall }) => {
+      for (const name of names) push(recallsByName, name, recall);
+    });
+    await readJsonLines<RxNormInteraction>(file(SNAPSHOT_FILES.interactions), interaction => {
+      push(interactionsByRxcui, interaction.drug1.rxcui, interaction);
+      if (interaction.drug2.rxcui !== interaction.drug1.rxcui) push(interactionsByRxcui, interaction.drug2.rxcui, interaction);
+    });
+
+    this.concepts = concepts;
+    this.rxcuiByName = rxcuiByName;
+    this.productsByIngredient = productsByIngredient;
+    this.labelsByName = labelsByName;
+    this.labelsByIngredient = labelsByIngredient;
+    this.labelsBySetId = labelsBySetId;
+    this.recallsByName = recallsByName;
+    this.interactionsByRxcui = interactionsByRxcui;
+    this.loadError = null;
+    this.manifest = manifest;
+    logger.info('Offline drug vocabulary snapshot loaded', { directory: this.directory, builtAt: manifest.builtAt, ...manifest.counts });
+  }
+
+  private toRxNormDrug(concept: SnapshotConcept): RxNormDrug {
+    return { rxcui: concept.rxcui, name: concept.name, synonym: concept.synonyms.slice(0, 1), tty: concept.tty };
+  }
+
+  // Ingredients of a concept; an ingredient is its own
+  private ingredientsOf(rxcui: string): string[] {
+    return this.concepts.get(rxcui)?.ingredients ?? [];
+  }
+
+  private labelsFor(drugName: string): SnapshotLabel[] {
+    const byName = this.labelsByName.get(normalizeVocabularyName(drugName));
+    if (byName) return byName;
+    const rxcui = this.rxcuiByName.get(normalizeVocabularyName(drugName));
+    return rxcui ? this.ingredientsOf(rxcui).flatMap(ingredient => this.labelsByIngredient.get(ingredient) ?? []) : [];
+  }
+
+  // ── RxNorm ──
+
+  async getRxCUI(drugName: string): Promise<string | null> {
+    await this.load();
+    return this.rxcuiByName.get(normalizeVocabularyName(drugName)) ?? null;
+  }
+
+  /** The concept itself when it is a product, else the products containing its ingredients */
+  async findDrugByName(drugName: string): Promise<RxNormDrug[]> {
+    const rxcui = await this.getRxCUI(drugName);
+    const concept = rxcui ? this.concepts.get(rxcui) : undefined;
+    if (!concept) return [];
+    if (PRODUCT_TTYS.has(concept.tty)) return [this.toRxNormDrug(concept)];
+    return this.relatedProducts(concept.rxcui).map(product => this.toRxNormDrug(product));
+  }
+
+  async getRelatedDrugs(rxcui: string): Promise<RxNormDrug[]> {
+    await this.load();
+    return this.relatedProducts(rxcui)
+      .filter(product => product.tty === 'SCD' || product.tty === 'SBD')
+      .map(product => this.toRxNormDrug(product));
+  }
+
+  private relatedProducts(rxcui: string): SnapshotConcept[] {
+    const products = new Map<string, SnapshotConcept>();
+    for (const ingredient of this.ingredientsOf(rxcui)) {
+      for (const product of this.productsByIngredient.get(ingredient) ?? []) products.set(product.rxcui, product);
+    }
+    return [...products.values()];
+  }
+
+  async checkInteractions(rxcui: string): Promise<RxNormInteraction[]> {
+    await this.load();
+    const ingredients = new Set([rxcui, ...this.ingredientsOf(rxcui)]);
+    return [...new Set([...ingredients].flatMap(id => this.interactionsByRxcui.get(id) ?? []))];
+  }
+
+  async checkMultiDrugInteractions(rxcuis: string[]): Promise<RxNormInteraction[]> {
+    await this.load();
+    const ingredients = new Set(rxcuis.flatMap(rxcui => [rxcui, ...this.ingredientsOf(rxcui)]));
+    const candidates = new Set([...ingredients].flatMap(id => this.interactionsByRxcui.get(id) ?? []));
+    return [...candidates].filter(i => ingredients.has(i.drug1.rxcui) && ingredients.has(i.drug2.rxcui));
+  }
+
+  /** Pharmacologic classes from the FDA labels of the concept's ingredients */
+  async getDrugClasses(rxcui: string): Promise<Array<{ className: string; classId: string; classType: string }>> {
+    await this.load();
+    const classes = new Map<string, { className: string; classId: string; classType: string }>();
+    for (const ingredient of this.ingredientsOf(rxcui)) {
+      for (const label of this.labelsByIngredient.get(ingredient) ?? []) {
+        for (const drugClass of label.drugClasses) classes.set(`${drugClass.classType}:${drugClass.className}`, drugClass);
+      }
+    }
+    return [...classes.values()];
+  }
+
+  // ── OpenFDA ──
+
+  async searchDrugLabels(drugName: string, limit = 5): Promise<OpenFDADrugLabel[]> {
+    await this.load();
+    return this.labelsFor(drugName).slice(0, limit).map(entry => entry.label);
+  }
+
+  async getDrugRecalls(drugName: string, limit = 5): Promise<DrugRecall[]> {
+    await this.load();
+    return (this.recallsByName.get(normalizeVocabularyName(drugName)) ?? []).slice(0, limit);
+  }
+
+  // ── DailyMed (SPL set ids are shared with the OpenFDA labels) ──
+
+  async searchDailyMed(drugName: string, limit = 5): Promise<Array<{ setId: string; title: string; publishedDate: string }>> {
+    await this.load();
+    return this.labelsFor(drugName)
+      .slice(0, limit)
+      .map(({ setId, title, publishedDate }) => ({ setId, title, publishedDate }));
+  }
+
+  async getDailyMedLabel(setId: string): Promise<DailyMedDrugInfo | null> {
+    await this.load();
+    const entry = this.labelsBySetId.get(setId);
+    if (!entry) return null;
+
+    const { label } = entry;
+    const sections = [
+      { name: 'Boxed Warning', text: label.boxedWarning ?? '' },
+      { name: 'Indications and Usage', text: label.indicationsAndUsage.join('\n') },
+      { name: 'Contraindications', text: label.contraindications.join('\n') },
+      { name: 'Warnings', text: label.warnings.join('\n') },
+      { name: 'Drug Interactions', text: label.drugInteractions.join('\n') },
+      { name: 'Adverse Reactions', text: label.adverseReactions.join('\n') },
+    ].filter(section => section.text);
+    return { setId: entry.setId, title: entry.title, splVersion: entry.splVersion, publishedDate: entry.publishedDate, sections };
+  }
+}
+
+let snapshotInstance: DrugVocabularySnapshot | null = null;
+
+/** The configured snapshot when DRUG_DATA_SOURCE=snapshot, else null (live APIs) */
+export function getDrugVocabularySnapshot(): DrugVocabularySnapshot | null {
+  if (config.drugData.source !== 'snapshot') return null;
+  snapshotInstance ??= new DrugVocabularySnapshot(config.drugData.snapshotDir);
+  return snapshotInstance;
+}
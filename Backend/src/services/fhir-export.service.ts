@@ -0,0 +1,222 @@
+import { DRUG_ONTOLOGY } from '@treatment-plan/clinical-knowledge';
+import {
+  FhirBundle,
+  FhirCarePlan,
+  FhirCarePlanActivity,
+  FhirDetectedIssue,
+  FhirMedicationRequest,
+  FhirProvenance,
+  FhirReference,
+  FhirResource,
+  FlaggedIssue,
+  IssueType,
+  TreatmentPlanResponse,
+} from '../types';
+
+/**
+ * FHIR R4 Treatment Plan Export
+ *
+ * An approved plan as a transaction Bundle the EHR can apply: a
+ * MedicationRequest for the primary treatment, a CarePlan for supportive care
+ * and monitoring, a DetectedIssue per flagged issue, and a Provenance naming
+ * the approver and the audit-log entries behind the plan. Resource ids are
+ * derived from the plan id, so exporting the same plan twice updates the
+ * same resources instead of duplicating them.
+ */
+
+export interface ExportableTreatmentPlan {
+  id: string;
+  patientId: string;
+  treatmentData: TreatmentPlanResponse;
+  approvedBy: string | null;
+  approvedAt: Date | null;
+  knowledgeBaseVersion: string | null;
+  createdAt: Date;
+}
+
+export interface PlanAuditEntry {
+  id: string;
+  timestamp: Date;
+  userId: string;
+  userName: string;
+  action: string;
+  sequence: number;
+  hash: string;
+}
+
+const ACT_CODE = 'http://terminology.hl7.org/CodeSystem/v3-ActCode';
+const PARTICIPANT_TYPE = 'http://terminology.hl7.org/CodeSystem/provenance-participant-type';
+const AUDIT_LOG_SYSTEM = 'urn:treatment-plan-assistant:audit-log';
+const KNOWLEDGE_BASE_POLICY = 'urn:treatment-plan-assistant:knowledge-base';
+
+// v3 ActCode detected-issue codes; monitoring reminders have no equivalent
+const DETECTED_ISSUE_CODES: Partial<Record<IssueType, { code: string; display: string }>> = {
+  interaction: { code: 'DRG', display: 'Drug Interaction Alert' },
+  contraindication: { code: 'COND', display: 'Condition Alert' },
+  dosage: { code: 'DOSE', display: 'Dosage problem' },
+  allergy: { code: 'ALGY', display: 'Allergy Alert' },
+  pharmacogenomic: { code: 'GEN', display: 'Genetic Alert' },
+  pregnancy: { code: 'PREG', display: 'Pregnancy Alert' },
+  lactation: { code: 'LACT', display: 'Lactation Alert' },
+  duplication: { code: 'DUPTHPY', display: 'Duplicate Therapy Alert' },
+};
+
+const ISSUE_SEVERITY: Record<string, FhirDetectedIssue['severity']> = {
+  critical: 'high',
+  high: 'high',
+  medium: 'moderate',
+  low: 'low',
+};
+
+const ref = (resource: FhirResource): FhirReference => ({ reference: `${resource.resourceType}/${resource.id}` });
+
+function medicationRequest(plan: ExportableTreatmentPlan, subject: FhirReference, approver?: FhirReference): FhirMedicationRequest {
+  const { primaryTreatment } = plan.treatmentData.treatmentPlan;
+  const dosing = [primaryTreatment.dosage, primaryTreatment.frequency].filter(Boolean).join(' ');
+  const rationale = plan.treatmentData.rationale?.primaryChoice;
+  return {
+    resourceType: 'MedicationRequest',
+    id: `${plan.id}-primary`,
+    status: 'active',
+    intent: 'order',
+    medicationCodeableConcept: { text: primaryTreatment.medication },
+    subject,
+    ...(plan.approvedAt && { authoredOn: plan.approvedAt.toISOString() }),
+    ...(approver && { requester: approver }),
+    dosageInstruction: [{
+      text: primaryTreatment.duration ? `${dosing} for ${primaryTreatment.duration}` : dosing,
+      ...(primaryTreatment.route && { route: { text: primaryTreatment.route } }),
+      ...(primaryTreatment.instructions && { patientInstruction: primaryTreatment.instructions }),
+    }],
+    ...(rationale && { note: [{ text: rationale }] }),
+  };
+}
+
+function carePlan(
+  plan: ExportableTreatmentPlan,
+  subject: FhirReference,
+  request: FhirMedicationRequest,
+  approver?: FhirReference,
+): FhirCarePlan {
+  const { treatmentPlan, rationale, flaggedIssues } = plan.treatmentData;
+  const activity = (description: string, code: string): FhirCarePlanActivity => ({
+    detail: { code: { text: code }, status: 'not-started', description },
+  });
+  const monitoring = [
+    rationale?.monitoringPlan,
+    ...(flaggedIssues ?? []).filter(issue => issue.type === 'monitoring').map(issue => issue.recommendation || issue.description),
+  ].filter((text): text is string => !!text);
+
+  return {
+    resourceType: 'CarePlan',
+    id: `${plan.id}-careplan`,
+    status: 'active',
+    intent: 'plan',
+    title: `Treatment plan: ${treatmentPlan.primaryTreatment.medication}`,
+    ...(rationale?.riskBenefit && { description: rationale.riskBenefit }),
+    subject,
+    created: plan.createdAt.toISOString(),
+    ...(approver && { author: approver }),
+    activity: [
+      { reference: ref(request) },
+      ...(treatmentPlan.supportiveCare ?? []).map(item => activity(item, 'Supportive care')),
+      ...monitoring.map(item => activity(item, 'Monitoring')),
+    ],
+    ...(rationale?.patientEducation && { note: [{ text: rationale.patientEducation }] }),
+  };
+}
+
+function detectedIssue(
+  plan: ExportableTreatmentPlan,
+  issue: FlaggedIssue,
+  index: number,
+  subject: FhirReference,
+  request: FhirMedicationRequest,
+): FhirDetectedIssue {
+  const code = DETECTED_ISSUE_CODES[issue.type];
+  const primary = plan.treatmentData.treatmentPlan.primaryTreatment;
+  const primaryName = DRUG_ONTOLOGY.canonicalName(primary.genericName || primary.medication);
+  const implicatesPrimary = (issue.affectedDrugs ?? []).some(drug => DRUG_ONTOLOGY.canonicalName(drug) === primaryName);
+  const affected = issue.affectedDrugs?.length ? ` (${issue.affectedDrugs.join(', ')})` : '';
+
+  return {
+    resourceType: 'DetectedIssue',
+    id: `${plan.id}-issue-${index + 1}`,
+    status: 'final',
+    code: {
+      ...(code && { coding: [{ system: ACT_CODE, ...code }] }),
+      text: issue.type,
+    },
+    severity: ISSUE_SEVERITY[issue.severity] ?? 'moderate',
+    patient: subject,
+    ...(implicatesPrimary && { implicated: [ref(request)] }),
+    detail: `${issue.description}${affected}`,
+    ...(issue.recommendation && { mitigation: [{ action: { text: issue.recommendation } }] }),
+  };
+}
+
+function provenance(
+  plan: ExportableTreatmentPlan,
+  targets: FhirResource[],
+  auditEntries: PlanAuditEntry[],
+  approver?: FhirReference,
+): FhirProvenance {
+  const generatedBy = plan.treatmentData.generatedBy;
+  return {
+    resourceType: 'Provenance',
+    id: `${plan.id}-provenance`,
+    target: targets.map(ref),
+    recorded: (plan.approvedAt ?? plan.createdAt).toISOString(),
+    ...(plan.knowledgeBaseVersion && { policy: [`${KNOWLEDGE_BASE_POLICY}:${plan.knowledgeBaseVersion}`] }),
+    activity: { text: 'Treatment plan approved' },
+    agent: [
+      ...(approver ? [{ type: { coding: [{ system: PARTICIPANT_TYPE, code: 'approver' }] }, who: approver }] : []),
+      ...(generatedBy ? [{
+        type: { coding: [{ system: PARTICIPANT_TYPE, code: 'assembler' }] },
+        who: { display: `${generatedBy.provider} (${generatedBy.model})` },
+      }] : []),
+    ],
+    entity: auditEntries.map(entry => ({
+      role: 'source',
+      what: {
+        identifier: { system: AUDIT_LOG_SYSTEM, value: entry.id },
+        display: `#${entry.sequence} ${entry.action} by ${entry.userName} at ${entry.timestamp.toISOString()} (hash ${entry.hash})`,
+      },
+    })),
+  };
+}
+
+/** The plan as a FHIR R4 transaction Bundle; audit entries are listed oldest first. */
+export function buildTreatmentPlanBundle(
+  plan: ExportableTreatmentPlan,
+  auditEntries: PlanAuditEntry[] = [],
+  now = new Date(),
+): FhirBundle {
+  const subject: FhirReference = { reference: `Patient/${plan.patientId}` };
+  const approvalEntry = [...auditEntries].reverse().find(entry => entry.action === 'approved');
+  const approver: FhirReference | undefined = plan.approvedBy
+    ? {
+      display: plan.approvedBy,
+      ...(approvalEntry && { identifier: { system: 'urn:treatment-plan-assistant:user', value: approvalEntry.userId } }),
+    }
+    : undefined;
+
+  const request = medicationRequest(plan, subject, approver);
+  const resources: FhirResource[] = [
+    request,
+    carePlan(plan, subject, request, approver),
+    ...(plan.treatmentData.flaggedIssues ?? []).map((issue, index) => detectedIssue(plan, issue, index, subject, request)),
+  ];
+  resources.push(provenance(plan, resources, auditEntries, approver));
+
+  return {
+    resourceType: 'Bundle',
+    id: `${plan.id}-export`,
+    type: 'transaction',
+    timestamp: now.toISOString(),
+    entry: resources.map(resource => ({
+      resource,
+      request: { method: 'PUT', url: `${resource.resourceType}/${resource.id}` },
+    })),
+  };
+}
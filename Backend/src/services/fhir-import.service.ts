@@ -0,0 +1,536 @@
+import { validate as isUuid } from 'uuid';
+import { DRUG_ONTOLOGY, LAB_TESTS } from '@treatment-plan/clinical-knowledge';
+import {
+  Allergy,
+  CompletePatientData,
+  FhirAllergyIntolerance,
+  FhirBundle,
+  FhirCodeableConcept,
+  FhirCondition,
+  FhirDosage,
+  FhirMedication,
+  FhirMedicationStatement,
+  FhirObservation,
+  FhirPatient,
+  FhirProcedure,
+  FhirQuantity,
+  FhirResource,
+  LabResult,
+  MedicalCondition,
+  Medication,
+  SmokingStatus,
+  Surgery,
+} from '../types';
+import { latestLabResults, normalizeLabResults } from './lab-result.service';
+
+/**
+ * FHIR R4 Patient Import
+ *
+ * Maps a Bundle exported by an EHR onto the intake shape. Every resource in
+ * the bundle ends up in the mapping report: mapped to an intake field, left
+ * unmapped with the reason, or mapped with a caveat the clinician should
+ * check (an older duplicate vital, a defaulted route or severity). Intake
+ * fields the bundle gave no data for are listed as missing, including the
+ * lifestyle fields that are filled with intake defaults.
+ */
+
+export class FhirImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FhirImportError';
+  }
+}
+
+export interface FhirMappingEntry {
+  resource: string; // "Observation/abc"
+  target?: string; // intake field the resource was mapped to
+  reason?: string;
+}
+
+export interface FhirMappingReport {
+  mapped: FhirMappingEntry[];
+  unmapped: FhirMappingEntry[];
+  ambiguous: FhirMappingEntry[];
+  missing: string[]; // required intake fields the bundle had no data for
+}
+
+export interface FhirImportResult {
+  patientData: CompletePatientData;
+  labResults: LabResult[]; // every imported result; patientData.labs keeps the latest of each
+  report: FhirMappingReport;
+}
+
+const LOINC = 'http://loinc.org';
+const SNOMED = 'http://snomed.info/sct';
+
+// Also used for HL7 v2 OBX segments, which often carry the older measured-value codes
+export const VITAL_SIGNS: Record<string, string> = {
+  '29463-7': 'weight',
+  '3141-9': 'weight',
+  '8302-2': 'height',
+  '3137-7': 'height',
+  '39156-5': 'bmi',
+  '8867-4': 'heartRate',
+  '8310-5': 'temperature',
+  '8480-6': 'systolic',
+  '8462-4': 'diastolic',
+};
+const BLOOD_PRESSURE_PANEL = '85354-9';
+const SMOKING_STATUS = '72166-2';
+const PREGNANCY_STATUS = '82810-3';
+
+const SMOKING_CODES: Record<string, SmokingStatus['status']> = {
+  '266919005': 'never',
+  '8517006': 'former',
+  '449868002': 'current',
+  '77176002': 'current',
+  '428041000124106': 'current',
+  '428061000124105': 'current',
+  '428071000124103': 'current',
+};
+
+const PREGNANCY_CODES: Record<string, boolean> = { '77386006': true, '60001007': false };
+
+const CONDITION_SEVERITY: Record<string, MedicalCondition['severity']> = {
+  '255604002': 'mild',
+  '6736007': 'moderate',
+  '24484000': 'severe',
+};
+
+const ROUTES: Record<string, Medication['route']> = {
+  '26643006': 'oral',
+  '47625008': 'IV',
+  '6064005': 'topical',
+  '37839007': 'sublingual',
+  '78421000': 'injection',
+  '34206005': 'injection',
+};
+
+// EHRs send UCUM codes; the lab catalog uses display units
+export const UCUM_UNITS: Record<string, string> = {
+  'mL/min/{1.73_m2}': 'mL/min/1.73m2',
+  '{INR}': 'ratio',
+  '{ratio}': 'ratio',
+  '1': 'ratio',
+};
+
+const INACTIVE_STATUSES = ['inactive', 'remission', 'resolved', 'refuted', 'entered-in-error'];
+
+const resourceRef = (resource: FhirResource): string => `${resource.resourceType}/${resource.id ?? '(no id)'}`;
+
+const codeIn = (concept: FhirCodeableConcept | undefined, system: string): string | undefined =>
+  concept?.coding?.find(coding => coding.system === system)?.code;
+
+const conceptText = (concept: FhirCodeableConcept | undefined): string =>
+  (concept?.text ?? concept?.coding?.find(coding => coding.display)?.display ?? '').trim();
+
+const statusOf = (concept: FhirCodeableConcept | undefined): string | undefined =>
+  concept?.coding?.[0]?.code ?? concept?.text?.toLowerCase();
+
+const dateOnly = (value: string | undefined): string => value?.slice(0, 10) ?? '';
+
+// Whole years between a birth date and `now`
+export function ageFrom(birthDate: string, now: Date): number | undefined {
+  const born = new Date(birthDate);
+  if (Number.isNaN(born.getTime())) return undefined;
+  let age = now.getUTCFullYear() - born.getUTCFullYear();
+  const birthdayPassed = now.getUTCMonth() > born.getUTCMonth() ||
+    (now.getUTCMonth() === born.getUTCMonth() && now.getUTCDate() >= born.getUTCDate());
+  if (!birthdayPassed) age--;
+  return Math.max(age, 0);
+}
+
+// Converts a vital to the unit the intake form uses: kg, cm, °F
+export function vitalValue(vital: string, quantity: FhirQuantity): number | undefined {
+  if (typeof quantity.value !== 'number') return undefined;
+  const unit = (quantity.code ?? quantity.unit ?? '').toLowerCase();
+  const round = (value: number) => Math.round(value * 10) / 10;
+  switch (vital) {
+    case 'weight':
+      if (unit === '[lb_av]' || unit === 'lb' || unit === 'lbs') return round(quantity.value * 0.453592);
+      if (unit === 'g') return round(quantity.value / 1000);
+      return quantity.value;
+    case 'height':
+      if (unit === '[in_i]' || unit === 'in') return round(quantity.value * 2.54);
+      if (unit === 'm') return round(quantity.value * 100);
+      return quantity.value;
+    case 'temperature':
+      return unit === 'cel' || unit === '°c' ? round(quantity.value * 9 / 5 + 32) : quantity.value;
+    default:
+      return quantity.value;
+  }
+}
+
+function frequencyText(dosage: FhirDosage): string {
+  const timing = conceptText(dosage.timing?.code);
+  if (timing) return timing;
+  const repeat = dosage.timing?.repeat;
+  if (!repeat?.frequency) return '';
+  if ((repeat.period ?? 1) === 1 && repeat.periodUnit === 'd') {
+    return ['once daily', 'twice daily', 'three times daily', 'four times daily'][repeat.frequency - 1]
+      ?? `${repeat.frequency} times daily`;
+  }
+  return `${repeat.frequency} times every ${repeat.period ?? 1} ${repeat.periodUnit ?? 'd'}`;
+}
+
+function routeOf(dosage: FhirDosage | undefined): Medication['route'] | undefined {
+  const snomed = codeIn(dosage?.route, SNOMED);
+  if (snomed && ROUTES[snomed]) return ROUTES[snomed];
+  const text = conceptText(dosage?.route).toLowerCase();
+  if (!text) return undefined;
+  if (text.includes('oral') || text.includes('mouth')) return 'oral';
+  if (text.includes('intravenous') || text === 'iv') return 'IV';
+  if (text.includes('sublingual')) return 'sublingual';
+  if (text.includes('topical') || text.includes('skin')) return 'topical';
+  if (text.includes('intramuscular') || text.includes('subcutaneous') || text.includes('injection')) return 'injection';
+  return undefined;
+}
+
+class FhirBundleMapper {
+  private readonly report: FhirMappingReport = { mapped: [], unmapped: [], ambiguous: [], missing: [] };
+  private readonly vitals = new Map<string, { value: number; at: string; resource: string }>();
+  private readonly labResults: LabResult[] = [];
+  private smoking?: SmokingStatus;
+  private pregnant?: boolean;
+  private readonly conditions: MedicalCondition[] = [];
+  private readonly allergies: Allergy[] = [];
+  private readonly medications: Medication[] = [];
+  private readonly surgeries: Surgery[] = [];
+
+  constructor(private readonly resources: FhirResource[], private readonly now: Date) {}
+
+  map(): FhirImportResult {
+    const patients = this.resources.filter((r): r is FhirPatient => r.resourceType === 'Patient');
+    if (patients.length === 0) throw new FhirImportError('Bundle has no Patient resource');
+    if (patients.length > 1) {
+      throw new FhirImportError(`Bundle has ${patients.length} Patient resources; import one patient at a time`);
+    }
+
+    for (const resource of this.resources) {
+      switch (resource.resourceType) {
+        case 'Patient':
+        case 'Medication': // read through MedicationStatement.medicationReference
+          break;
+        case 'Observation':
+          this.observation(resource as FhirObservation);
+          break;
+        case 'Condition':
+          this.condition(resource as FhirCondition);
+          break;
+        case 'AllergyIntolerance':
+          this.allergy(resource as FhirAllergyIntolerance);
+          break;
+        case 'MedicationStatement':
+          this.medication(resource as FhirMedicationStatement);
+          break;
+        case 'Procedure':
+          this.procedure(resource as FhirProcedure);
+          break;
+        default:
+          this.unmapped(resource, `${resource.resourceType} resources are not part of the intake`);
+      }
+    }
+
+    return this.build(patients[0]);
+  }
+
+  private mapped(resource: FhirResource, target: string): void {
+    this.report.mapped.push({ resource: resourceRef(resource), target });
+  }
+
+  private unmapped(resource: FhirResource, reason: string): void {
+    this.report.unmapped.push({ resource: resourceRef(resource), reason });
+  }
+
+  private ambiguous(resource: FhirResource | string, target: string, reason: string): void {
+    const ref = typeof resource === 'string' ? resource : resourceRef(resource);
+    this.report.ambiguous.push({ resource: ref, target, reason });
+  }
+
+  private observation(observation: FhirObservation): void {
+    if (observation.status === 'entered-in-error' || observation.status === 'cancelled') {
+      this.unmapped(observation, `status is ${observation.status}`);
+      return;
+    }
+    const loinc = codeIn(observation.code, LOINC);
+    const at = observation.effectiveDateTime ?? observation.issued ?? '';
+
+    if (loinc === BLOOD_PRESSURE_PANEL) {
+      const found = (observation.component ?? [])
+        .map(component => [VITAL_SIGNS[codeIn(component.code, LOINC) ?? ''], component.valueQuantity] as const)
+        .filter(([vital, quantity]) => (vital === 'systolic' || vital === 'diastolic') && quantity);
+      if (found.length === 0) {
+        this.unmapped(observation, 'blood pressure panel has no systolic or diastolic component');
+        return;
+      }
+      found.forEach(([vital, quantity]) => this.vital(observation, vital, quantity as FhirQuantity, at));
+      return;
+    }
+    if (loinc && VITAL_SIGNS[loinc]) {
+      if (!observation.valueQuantity) {
+        this.unmapped(observation, 'vital sign has no value');
+        return;
+      }
+      this.vital(observation, VITAL_SIGNS[loinc], observation.valueQuantity, at);
+      return;
+    }
+    if (loinc === SMOKING_STATUS) {
+      const status = SMOKING_CODES[codeIn(observation.valueCodeableConcept, SNOMED) ?? ''];
+      if (!status) {
+        this.unmapped(observation, `smoking status "${conceptText(observation.valueCodeableConcept)}" is not recognized`);
+        return;
+      }
+      this.smoking = { status };
+      this.mapped(observation, 'lifestyle.smoking');
+      return;
+    }
+    if (loinc === PREGNANCY_STATUS) {
+      const pregnant = PREGNANCY_CODES[codeIn(observation.valueCodeableConcept, SNOMED) ?? ''];
+      if (pregnant === undefined) {
+        this.unmapped(observation, `pregnancy status "${conceptText(observation.valueCodeableConcept)}" is not recognized`);
+        return;
+      }
+      this.pregnant = pregnant;
+      this.mapped(observation, 'demographics.pregnant');
+      return;
+    }
+
+    const test = LAB_TESTS.find(candidate => candidate.loinc === loinc);
+    if (!test) {
+      this.unmapped(observation, `no intake field for ${loinc ? `LOINC ${loinc}` : 'this code'} (${conceptText(observation.code) || 'unnamed'})`);
+      return;
+    }
+    const quantity = observation.valueQuantity;
+    const unit = quantity?.code ?? quantity?.unit;
+    const range = observation.referenceRange?.[0];
+    const { results, errors } = normalizeLabResults([{
+      testCode: test.code,
+      value: quantity?.value ?? Number.NaN,
+      unit: unit ? UCUM_UNITS[unit] ?? unit : undefined,
+      referenceLow: range?.low?.value,
+      referenceHigh: range?.high?.value,
+      collectedAt: at || undefined,
+    }], this.now);
+    if (errors.length > 0) {
+      this.unmapped(observation, errors[0].replace(/^labResults\[0\]: /, ''));
+      return;
+    }
+    this.labResults.push(...results);
+    this.mapped(observation, `labs.${test.code}`);
+  }
+
+  // Single-valued vitals keep the latest reading; older readings are reported
+  private vital(observation: FhirObservation, vital: string, quantity: FhirQuantity, at: string): void {
+    const value = vitalValue(vital, quantity);
+    if (value === undefined) {
+      this.unmapped(observation, `${vital} has no numeric value`);
+      return;
+    }
+    const target = vital === 'systolic' || vital === 'diastolic'
+      ? `demographics.bloodPressure.${vital}`
+      : `demographics.${vital}`;
+    const current = this.vitals.get(vital);
+    const resource = resourceRef(observation);
+    if (current && current.at >= at) {
+      this.ambiguous(resource, target, `superseded by the later reading in ${current.resource}`);
+      return;
+    }
+    if (current) this.ambiguous(current.resource, target, `superseded by the later reading in ${resource}`);
+    this.vitals.set(vital, { value, at, resource });
+    this.mapped(observation, target);
+  }
+
+  private condition(condition: FhirCondition): void {
+    const name = conceptText(condition.code);
+    const status = statusOf(condition.clinicalStatus);
+    if (!name) {
+      this.unmapped(condition, 'condition has no code or text');
+      return;
+    }
+    if (status && INACTIVE_STATUSES.includes(status)) {
+      this.unmapped(condition, `clinical status is ${status}`);
+      return;
+    }
+    const severity = CONDITION_SEVERITY[codeIn(condition.severity, SNOMED) ?? ''] ??
+      (['mild', 'moderate', 'severe'] as const).find(level => conceptText(condition.severity).toLowerCase() === level);
+    this.conditions.push({
+      condition: name,
+      diagnosisDate: dateOnly(condition.onsetDateTime ?? condition.recordedDate),
+      severity: severity ?? 'moderate',
+      controlled: false,
+    });
+    this.mapped(condition, 'medicalHistory.conditions');
+    if (!status) this.ambiguous(condition, 'medicalHistory.conditions', 'no clinical status; imported as active');
+    if (!severity) this.ambiguous(condition, 'medicalHistory.conditions', 'no severity; recorded as moderate');
+  }
+
+  private allergy(allergy: FhirAllergyIntolerance): void {
+    const allergen = conceptText(allergy.code);
+    const status = statusOf(allergy.clinicalStatus);
+    if (!allergen) {
+      this.unmapped(allergy, 'allergy has no substance code or text');
+      return;
+    }
+    if (status && INACTIVE_STATUSES.includes(status)) {
+      this.unmapped(allergy, `clinical status is ${status}`);
+      return;
+    }
+    const reactions = allergy.reaction ?? [];
+    const manifestations = reactions.flatMap(r => (r.manifestation ?? []).map(conceptText)).filter(Boolean);
+    const severities = reactions.map(r => r.severity);
+    let severity: Allergy['severity'] | undefined;
+    if (manifestations.some(m => m.toLowerCase().includes('anaphyla'))) severity = 'anaphylaxis';
+    else if (severities.includes('severe') || allergy.criticality === 'high') severity = 'severe';
+    else if (severities.includes('moderate')) severity = 'moderate';
+    else if (severities.includes('mild')) severity = 'mild';
+
+    this.allergies.push({ allergen, reaction: manifestations.join(', '), severity: severity ?? 'moderate' });
+    this.mapped(allergy, 'medicalHistory.allergies');
+    if (!severity) this.ambiguous(allergy, 'medicalHistory.allergies', 'no reaction severity or criticality; recorded as moderate');
+  }
+
+  private medicationName(statement: FhirMedicationStatement): string {
+    if (statement.medicationCodeableConcept) return conceptText(statement.medicationCodeableConcept);
+    const reference = statement.medicationReference?.reference;
+    if (!reference) return '';
+    const medication = this.resources.find((r): r is FhirMedication =>
+      r.resourceType === 'Medication' && (reference === `Medication/${r.id}` || reference.endsWith(`/Medication/${r.id}`)),
+    );
+    return medication ? conceptText(medication.code) : statement.medicationReference?.display ?? '';
+  }
+
+  private medication(statement: FhirMedicationStatement): void {
+    const status = statement.status ?? 'unknown';
+    if (!['active', 'intended', 'on-hold', 'unknown'].includes(status)) {
+      this.unmapped(statement, `status is ${status}`);
+      return;
+    }
+    const drugName = this.medicationName(statement);
+    if (!drugName) {
+      this.unmapped(statement, 'medication could not be resolved to a name');
+      return;
+    }
+    const dosage = statement.dosage?.[0];
+    const dose = dosage?.doseAndRate?.[0]?.doseQuantity;
+    const route = routeOf(dosage);
+    this.medications.push({
+      drugName,
+      genericName: DRUG_ONTOLOGY.canonicalName(drugName),
+      dosage: dose?.value !== undefined ? `${dose.value} ${dose.unit ?? dose.code ?? ''}`.trim() : dosage?.text ?? '',
+      frequency: dosage ? frequencyText(dosage) : '',
+      route: route ?? 'oral',
+      startDate: dateOnly(statement.effectivePeriod?.start ?? statement.effectiveDateTime),
+      prescribedBy: statement.informationSource?.display ?? '',
+    });
+
+    const target = 'currentMedications.medications';
+    this.mapped(statement, target);
+    if (status === 'on-hold' || status === 'unknown') this.ambiguous(statement, target, `status is ${status}; imported as current`);
+    if (!dosage) this.ambiguous(statement, target, 'no dosage given');
+    else if (!route) this.ambiguous(statement, target, 'route not given or not recognized; recorded as oral');
+  }
+
+  private procedure(procedure: FhirProcedure): void {
+    const name = conceptText(procedure.code);
+    if (!name) {
+      this.unmapped(procedure, 'procedure has no code or text');
+      return;
+    }
+    if (procedure.status && procedure.status !== 'completed') {
+      this.unmapped(procedure, `status is ${procedure.status}`);
+      return;
+    }
+    this.surgeries.push({
+      procedure: name,
+      date: dateOnly(procedure.performedDateTime ?? procedure.performedPeriod?.start),
+    });
+    this.mapped(procedure, 'medicalHistory.pastSurgeries');
+  }
+
+  private build(patient: FhirPatient): FhirImportResult {
+    const vital = (name: string) => this.vitals.get(name)?.value;
+    const age = patient.birthDate ? ageFrom(patient.birthDate, this.now) : undefined;
+    const sex = patient.gender === 'unknown' ? undefined : patient.gender;
+    this.mapped(patient, 'demographics');
+    if (patient.id && !isUuid(patient.id)) {
+      this.ambiguous(patient, 'demographics.patientId', 'FHIR id is not a UUID; a new patient id is assigned');
+    }
+
+    const missing: Array<[string, unknown]> = [
+      ['demographics.age', age],
+      ['demographics.weight', vital('weight')],
+      ['demographics.height', vital('height')],
+      ['lifestyle.smoking', this.smoking],
+      // No intake mapping for these; the record holds intake defaults until the clinician confirms them
+      ['lifestyle.alcohol', undefined],
+      ['lifestyle.exercise', undefined],
+      ['lifestyle.diet', undefined],
+      ['lifestyle.chiefComplaint', undefined], // FHIR has no chief complaint; the clinician enters it
+    ];
+    this.report.missing = missing.filter(([, value]) => value === undefined).map(([field]) => field);
+
+    const patientData: CompletePatientData = {
+      demographics: {
+        patientId: patient.id && isUuid(patient.id) ? patient.id : '',
+        age: age as number,
+        ...(sex && { sex }),
+        weight: vital('weight') as number,
+        height: vital('height') as number,
+        bmi: vital('bmi') ?? 0,
+        bloodPressure: { systolic: vital('systolic') ?? 0, diastolic: vital('diastolic') ?? 0 },
+        heartRate: vital('heartRate') ?? 0,
+        temperature: vital('temperature') ?? 0,
+        ...(this.pregnant && { pregnant: true }),
+      },
+      medicalHistory: {
+        conditions: this.conditions,
+        allergies: this.allergies,
+        pastSurgeries: this.surgeries,
+        familyHistory: [],
+      },
+      currentMedications: { medications: this.medications },
+      lifestyle: {
+        smoking: this.smoking ?? { status: 'never' },
+        alcohol: { frequency: 'none' },
+        exercise: { frequency: 'sedentary' },
+        diet: 'standard',
+        chiefComplaint: { complaint: '', duration: '', severity: 1, symptoms: [] },
+      },
+      labs: latestLabResults(this.labResults),
+    };
+
+    return { patientData, labResults: this.labResults, report: this.report };
+  }
+}
+
+// A `coding` anywhere in the value that is not an array of objects
+function hasMalformedCoding(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(hasMalformedCoding);
+  if (!value || typeof value !== 'object') return false;
+  return Object.entries(value).some(([key, child]) => key === 'coding'
+    ? !Array.isArray(child) || child.some(coding => !coding || typeof coding !== 'object')
+    : hasMalformedCoding(child));
+}
+
+/**
+ * Maps a FHIR R4 Bundle onto CompletePatientData. Throws FhirImportError when
+ * the input is not a well-formed Bundle or does not hold exactly one Patient;
+ * anything else that cannot be used is listed in the report rather than rejected.
+ */
+export function importFhirBundle(bundle: unknown, now = new Date()): FhirImportResult {
+  const candidate = bundle as FhirBundle | undefined;
+  if (!candidate || typeof candidate !== 'object' || candidate.resourceType !== 'Bundle') {
+    throw new FhirImportError('Expected a FHIR R4 Bundle');
+  }
+  if (candidate.entry !== undefined && !Array.isArray(candidate.entry)) {
+    throw new FhirImportError('Bundle entry must be an array');
+  }
+  const resources = (candidate.entry ?? [])
+    .map(entry => entry?.resource)
+    .filter((resource): resource is FhirResource => !!resource && typeof resource.resourceType === 'string');
+  const malformed = resources.find(hasMalformedCoding);
+  if (malformed) {
+    throw new FhirImportError(`${resourceRef(malformed)} has a coding that is not an array of codings`);
+  }
+  return new FhirBundleMapper(resources, now).map();
+}
@@ -0,0 +1,599 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { sequelize } from '../config/database';
+import { config } from '../config';
+import logger from '../config/logger';
+import { AuditLog, Hl7DeadLetter, MedicalHistory, Patient } from '../models';
+import { CompletePatientData, Hl7DeadLetterRecord, Hl7MessageSource, LabResult, RawDemographicsInput } from '../types';
+import { demoStorage } from './demo-storage.service';
+import {
+  Hl7AckCode,
+  Hl7Error,
+  Hl7Issue,
+  Hl7Message,
+  Hl7PatientUpdate,
+  buildAck,
+  mapAdtMessage,
+  mapOruMessage,
+  parseHl7Message,
+  splitHl7Messages,
+} from './hl7v2.service';
+import { labResultService, normalizeLabResults } from './lab-result.service';
+import {
+  IntakeAuditContext,
+  buildCompletePatientData,
+  normalizeAllergies,
+  normalizeConditions,
+  normalizeSex,
+  storePatient,
+} from './patient-intake.service';
+import { responseCache } from './response-cache.service';
+import { validatePatientData } from './validation.service';
+
+/**
+ * HL7 v2 Ingest
+ *
+ * Applies parsed HL7 messages to the patient store. ADT^A04 and ADT^A08 are
+ * both upserts keyed on the sender's patient identifier (PID-3): senders
+ * re-send registrations and send updates for patients we have not seen, so
+ * the trigger event does not decide between create and update. ORU^R01 lab
+ * results need a patient registered earlier. Every message is answered with
+ * an ACK; anything not accepted (AE/AR) is kept as a dead letter so an
+ * admin can fix the cause and replay it.
+ *
+ * Updates are checked like registrations before anything is written, and
+ * DG1/AL1 segments add to or update the stored conditions and allergies
+ * rather than replace them: a feed's list is not the whole record.
+ *
+ * Messages arrive over HTTP or as *.hl7 files dropped into a folder that is
+ * polled on a timer. Processed files move to `processed/` or `error/` with
+ * the ACKs written next to them in `ack/`.
+ */
+
+export interface Hl7IngestOptions {
+  source: Hl7MessageSource;
+  fileName?: string;
+  audit: IntakeAuditContext;
+}
+
+export interface Hl7IngestResult {
+  code: Hl7AckCode;
+  ack: string;
+  messageType: string | null;
+  controlId: string | null;
+  patientId?: string;
+  deadLetterId?: string;
+}
+
+interface Hl7Outcome {
+  code: Hl7AckCode;
+  text: string;
+  issues: Hl7Issue[];
+  patientId?: string;
+}
+
+// Patient columns an ADT message can change
+interface PatientChanges {
+  age?: number;
+  sex?: 'male' | 'female' | 'other';
+  weight?: number;
+  height?: number;
+  bmi?: number;
+  systolicBp?: number;
+  diastolicBp?: number;
+  heartRate?: number;
+  temperature?: number;
+}
+
+type StoredHistory = Pick<CompletePatientData['medicalHistory'], 'conditions' | 'allergies'>;
+
+// Audit actor for messages picked up from the drop folder
+const FILE_DROP_ACTOR: IntakeAuditContext = { userId: 'system', userName: 'HL7 file drop' };
+
+// Errors that reject the message as a whole rather than its content
+const REJECTION_CODES = new Set([200, 201, 203]);
+
+const SUPPORTED_EVENTS: Record<string, string[]> = { ADT: ['A04', 'A08'], ORU: ['R01'] };
+
+// ERR-2 locations for intake validation errors on fields an ADT message sets
+const FIELD_LOCATIONS: Record<string, string> = {
+  'demographics.age': 'PID^1^7',
+  'demographics.weight': 'OBX',
+  'demographics.height': 'OBX',
+};
+
+// ADT carries no social history, so a registration stores the intake defaults
+const LIFESTYLE_DEFAULTS_WARNING: Hl7Issue = {
+  code: 101,
+  severity: 'W',
+  message: 'No lifestyle history in ADT; smoking, alcohol, exercise and diet recorded as never, none, sedentary and standard until confirmed with the patient',
+};
+
+const messageTypeOf = (message: Hl7Message) =>
+  message.triggerEvent ? `${message.messageType}^${message.triggerEvent}` : message.messageType;
+
+function toDeadLetterRecord(row: Hl7DeadLetter): Hl7DeadLetterRecord {
+  const plain = row.get({ plain: true });
+  return {
+    id: plain.id,
+    source: plain.source,
+    fileName: plain.fileName,
+    messageType: plain.messageType,
+    controlId: plain.controlId,
+    rawMessage: plain.rawMessage,
+    error: plain.error,
+    receivedAt: plain.receivedAt,
+  };
+}
+
+// BMI follows weight and height unless the message sent one
+function patientChanges(
+  demographics: Partial<RawDemographicsInput>,
+  current: { weight: number; height: number },
+): PatientChanges {
+  const changes: PatientChanges = {};
+  if (demographics.age !== undefined) changes.age = demographics.age;
+  if (demographics.sex) changes.sex = normalizeSex(demographics.sex);
+  if (demographics.weight) changes.weight = demographics.weight;
+  if (demographics.height) changes.height = demographics.height;
+  if (demographics.bmi) {
+    changes.bmi = demographics.bmi;
+  } else if (demographics.weight || demographics.height) {
+    const weight = demographics.weight || current.weight;
+    const heightInMeters = (demographics.height || current.height) / 100;
+    changes.bmi = Math.round((weight / (heightInMeters * heightInMeters)) * 10) / 10;
+  }
+  if (demographics.bloodPressure?.systolic) changes.systolicBp = demographics.bloodPressure.systolic;
+  if (demographics.bloodPressure?.diastolic) changes.diastolicBp = demographics.bloodPressure.diastolic;
+  if (demographics.heartRate) changes.heartRate = demographics.heartRate;
+  if (demographics.temperature) changes.temperature = demographics.temperature;
+  return changes;
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// A DG1 or AL1 for a condition or allergen already on file updates only the fields the segment carries
+function historyChanges(update: Hl7PatientUpdate, current: StoredHistory): Partial<StoredHistory> {
+  const { conditions, allergies } = update.medicalHistory;
+  const changes: Partial<StoredHistory> = {};
+
+  if (conditions) {
+    const merged = [...current.conditions];
+    normalizeConditions({ conditions }).forEach((condition, index) => {
+      const stored = merged.findIndex(entry => sameName(entry.condition, condition.condition));
+      if (stored < 0) {
+        merged.push(condition);
+      } else if (conditions[index].diagnosisDate) {
+        merged[stored] = { ...merged[stored], diagnosisDate: condition.diagnosisDate };
+      }
+    });
+    changes.conditions = merged;
+  }
+
+  if (allergies) {
+    const merged = [...current.allergies];
+    normalizeAllergies({ allergies }).forEach((allergy, index) => {
+      const stored = merged.findIndex(entry => sameName(entry.allergen, allergy.allergen));
+      if (stored < 0) {
+        merged.push(allergy);
+      } else {
+        merged[stored] = {
+          ...merged[stored],
+          ...(allergies[index].reaction && { reaction: allergy.reaction }),
+          ...(allergies[index].severity && { severity: allergy.severity }),
+        };
+      }
+    });
+    changes.allergies = merged;
+  }
+
+  return changes;
+}
+
+function validationIssues(patientData: CompletePatientData): Hl7Issue[] {
+  return (validatePatientData(patientData).errors ?? []).map((error): Hl7Issue => ({
+    code: 102,
+    severity: 'E',
+    message: `${error.field}: ${error.message}`,
+    ...(FIELD_LOCATIONS[error.field] && { location: FIELD_LOCATIONS[error.field] }),
+  }));
+}
+
+// The stored patient with the message applied, checked the way a registration is
+function updateIssues(
+  patient: { age: number; sex: string; weight: number; height: number; bmi: number },
+  changes: PatientChanges,
+  history: StoredHistory,
+): Hl7Issue[] {
+  const demographics = {
+    age: changes.age ?? patient.age,
+    sex: changes.sex ?? patient.sex,
+    weight: changes.weight ?? patient.weight,
+    height: changes.height ?? patient.height,
+    bmi: changes.bmi ?? patient.bmi,
+  };
+  return validationIssues(buildCompletePatientData('', demographics, history, undefined, { chiefComplaint: '' }));
+}
+
+class Hl7IngestService {
+  private watcher: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  /** Processes every message in `text` (a single message or a batch file), in order. */
+  async ingestBatch(text: string, options: Hl7IngestOptions, now = new Date()): Promise<Hl7IngestResult[]> {
+    const results: Hl7IngestResult[] = [];
+    for (const raw of splitHl7Messages(text)) {
+      results.push(await this.ingest(raw, options, now));
+    }
+    return results;
+  }
+
+  async ingest(raw: string, options: Hl7IngestOptions, now = new Date()): Promise<Hl7IngestResult> {
+    const { result, outcome } = await this.process(raw, options.audit, now);
+    if (result.code === 'AA') return result;
+
+    const deadLetter = await this.addDeadLetter({
+      source: options.source,
+      fileName: options.fileName ?? null,
+      messageType: result.messageType,
+      controlId: result.controlId,
+      rawMessage: raw,
+      error: [outcome.text, ...outcome.issues.filter(issue => issue.severity === 'E').map(issue => issue.message)]
+        .filter((line, index, lines) => lines.indexOf(line) === index)
+        .join('\n'),
+      receivedAt: now,
+    });
+    logger.warn('HL7 message dead-lettered', {
+      deadLetterId: deadLetter.id,
+      messageType: result.messageType,
+      controlId: result.controlId,
+      source: options.source,
+    });
+    return { ...result, deadLetterId: deadLetter.id };
+  }
+
+  // ==================== DEAD LETTERS ====================
+
+  /** Dead letters, most recently received first. */
+  async listDeadLetters(): Promise<Hl7DeadLetterRecord[]> {
+    if (config.demoMode) {
+      return demoStorage.getHl7DeadLetters();
+    }
+    const rows = await Hl7DeadLetter.findAll({ order: [['receivedAt', 'DESC']] });
+    return rows.map(toDeadLetterRecord);
+  }
+
+  async getDeadLetter(id: string): Promise<Hl7DeadLetterRecord | null> {
+    if (config.demoMode) {
+      return demoStorage.getHl7DeadLetter(id) ?? null;
+    }
+    const row = await Hl7DeadLetter.findByPk(id);
+    return row ? toDeadLetterRecord(row) : null;
+  }
+
+  async removeDeadLetter(id: string): Promise<boolean> {
+    if (config.demoMode) {
+      return demoStorage.deleteHl7DeadLetter(id);
+    }
+    return (await Hl7DeadLetter.destroy({ where: { id } })) > 0;
+  }
+
+  /**
+   * Runs a dead letter through ingest again. It is removed once accepted and
+   * kept otherwise; the returned ACK says why. Null when there is no such
+   * dead letter.
+   */
+  async replayDeadLetter(id: string, audit: IntakeAuditContext, now = new Date()): Promise<Hl7IngestResult | null> {
+    const deadLetter = await this.getDeadLetter(id);
+    if (!deadLetter) return null;
+
+    const { result } = await this.process(deadLetter.rawMessage, audit, now);
+    if (result.code === 'AA') {
+      await this.removeDeadLetter(id);
+      return result;
+    }
+    return { ...result, deadLetterId: id };
+  }
+
+  // ==================== FILE DROP ====================
+
+  /**
+   * Polls `dir` for *.hl7 files every `seconds` seconds. An empty directory
+   * name or a non-positive interval disables the watcher.
+   */
+  watchDropFolder(dir: string, seconds: number): void {
+    if (this.watcher) clearInterval(this.watcher);
+    this.watcher = null;
+    if (!dir || !(seconds > 0)) return;
+
+    this.watcher = setInterval(() => {
+      this.pollDropFolder(dir).catch(error => {
+        logger.warn('HL7 drop folder poll failed', { dir, error: (error as Error).message });
+      });
+    }, seconds * 1000);
+    this.watcher.unref();
+    logger.info('Watching HL7 drop folder', { dir, everySeconds: seconds });
+  }
+
+  /** Ingests the files waiting in `dir`; returns how many were picked up. */
+  async pollDropFolder(dir: string, now = new Date()): Promise<number> {
+    // A slow poll must not overlap the next tick and read the same files twice
+    if (this.polling) return 0;
+    this.polling = true;
+
+    try {
+      const files = (await readdir(dir, { withFileTypes: true }))
+        .filter(entry => entry.isFile() && entry.name.toLowerCase().endsWith('.hl7'))
+        .map(entry => entry.name)
+        .sort((a, b) => a.localeCompare(b));
+      if (files.length === 0) return 0;
+
+      for (const folder of ['ack', 'processed', 'error']) {
+        await mkdir(path.join(dir, folder), { recursive: true });
+      }
+
+      for (const fileName of files) {
+        const source = path.join(dir, fileName);
+        const results = await this.ingestBatch(await readFile(source, 'utf8'), { source: 'file', fileName, audit: FILE_DROP_ACTOR }, now);
+        const accepted = results.length > 0 && results.every(result => result.code === 'AA');
+
+        await writeFile(path.join(dir, 'ack', `${fileName}.ack`), results.map(result => result.ack).join('\n'));
+        await rename(source, path.join(dir, accepted ? 'processed' : 'error', fileName));
+        logger.info('HL7 file processed', { fileName, messages: results.length, accepted });
+      }
+      return files.length;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // ==================== PROCESSING ====================
+
+  private async process(
+    raw: string,
+    audit: IntakeAuditContext,
+    now: Date,
+  ): Promise<{ result: Hl7IngestResult; outcome: Hl7Outcome }> {
+    let message: Hl7Message | null = null;
+    let outcome: Hl7Outcome;
+
+    try {
+      message = parseHl7Message(raw);
+      outcome = await this.apply(message, audit, now);
+    } catch (error) {
+      if (error instanceof Hl7Error) {
+        const code: Hl7AckCode = !message || REJECTION_CODES.has(error.code) ? 'AR' : 'AE';
+        outcome = { code, text: error.message, issues: [{ code: error.code, severity: 'E', message: error.message, location: error.location }] };
+      } else {
+        logger.error('HL7 message processing error', { controlId: message?.controlId, error: (error as Error).message });
+        outcome = { code: 'AE', text: 'Message could not be stored', issues: [{ code: 207, severity: 'E', message: (error as Error).message }] };
+      }
+    }
+
+    const ack = buildAck(message, outcome.code, {
+      application: config.hl7.applicationName,
+      facility: config.hl7.facilityName,
+      controlId: randomUUID().replace(/-/g, '').slice(0, 20),
+      now,
+      text: outcome.text,
+      issues: outcome.issues,
+    });
+
+    const result: Hl7IngestResult = {
+      code: outcome.code,
+      ack,
+      messageType: message ? messageTypeOf(message) : null,
+      controlId: message?.controlId || null,
+      ...(outcome.patientId && { patientId: outcome.patientId }),
+    };
+    return { result, outcome };
+  }
+
+  private async apply(message: Hl7Message, audit: IntakeAuditContext, now: Date): Promise<Hl7Outcome> {
+    const events = SUPPORTED_EVENTS[message.messageType];
+    if (!events) {
+      throw new Hl7Error(`Message type ${message.messageType} is not supported (expected ADT or ORU)`, 200, 'MSH^1^9');
+    }
+    if (!events.includes(message.triggerEvent)) {
+      throw new Hl7Error(`Event ${messageTypeOf(message)} is not supported (expected ${events.map(event => `${message.messageType}^${event}`).join(' or ')})`, 201, 'MSH^1^9');
+    }
+
+    const outcome = message.messageType === 'ADT'
+      ? await this.applyAdt(message, audit, now)
+      : await this.applyOru(message, audit, now);
+    responseCache.invalidateByTag('patients');
+    responseCache.invalidateByTag('analytics');
+    return outcome;
+  }
+
+  private async applyAdt(message: Hl7Message, audit: IntakeAuditContext, now: Date): Promise<Hl7Outcome> {
+    const update = mapAdtMessage(message, now);
+    const existingId = await this.findPatientId(update.externalId);
+    if (existingId) {
+      const invalid = await this.updatePatient(existingId, update, message, audit);
+      if (invalid.length > 0) {
+        return { code: 'AE', text: `Patient ${update.externalId} failed intake validation`, issues: [...invalid, ...update.warnings], patientId: existingId };
+      }
+      return { code: 'AA', text: `Patient ${update.externalId} updated`, issues: update.warnings, patientId: existingId };
+    }
+
+    // New patients need what the intake form requires
+    const { demographics } = update;
+    const missing: Hl7Issue[] = [];
+    if (demographics.age === undefined) {
+      missing.push({ code: 101, severity: 'E', message: 'PID-7 date of birth is required to register a patient', location: 'PID^1^7' });
+    }
+    if (!demographics.weight) {
+      missing.push({ code: 101, severity: 'E', message: 'A body weight OBX (LOINC 29463-7) is required to register a patient', location: 'OBX' });
+    }
+    if (!demographics.height) {
+      missing.push({ code: 101, severity: 'E', message: 'A body height OBX (LOINC 8302-2) is required to register a patient', location: 'OBX' });
+    }
+    if (missing.length > 0) {
+      return { code: 'AE', text: `Patient ${update.externalId} is not registered and cannot be created`, issues: [...missing, ...update.warnings] };
+    }
+
+    const patientData = buildCompletePatientData(
+      '',
+      demographics as RawDemographicsInput,
+      update.medicalHistory,
+      undefined,
+      { chiefComplaint: '' },
+    );
+    const issues = validationIssues(patientData);
+    if (issues.length > 0) {
+      return { code: 'AE', text: `Patient ${update.externalId} failed intake validation`, issues: [...issues, ...update.warnings] };
+    }
+
+    const patientId = await storePatient(patientData, audit);
+    return { code: 'AA', text: `Patient ${update.externalId} registered`, issues: [...update.warnings, LIFESTYLE_DEFAULTS_WARNING], patientId };
+  }
+
+  private async applyOru(message: Hl7Message, audit: IntakeAuditContext, now: Date): Promise<Hl7Outcome> {
+    const report = mapOruMessage(message);
+    const patientId = await this.findPatientId(report.externalId);
+    if (!patientId) {
+      throw new Hl7Error(`No patient with identifier ${report.externalId}; send an ADT^A04 first`, 204, 'PID^1^3');
+    }
+
+    const { results, errors } = normalizeLabResults(report.labResults, now);
+    const issues: Hl7Issue[] = [
+      ...report.warnings,
+      ...errors.map((error): Hl7Issue => ({ code: 102, severity: 'W', message: error })),
+    ];
+    if (results.length > 0) {
+      await this.recordLabResults(patientId, results, message, audit);
+    }
+    return { code: 'AA', text: `${results.length} lab result(s) recorded for ${report.externalId}`, issues, patientId };
+  }
+
+  private async findPatientId(externalId: string): Promise<string | null> {
+    if (config.demoMode) {
+      return demoStorage.findPatientByExternalId(externalId)?.id ?? null;
+    }
+    const patient = await Patient.findOne({ where: { externalId }, attributes: ['id'] });
+    return patient?.id ?? null;
+  }
+
+  /** Applies an ADT update unless the result fails intake validation; returns the validation errors. */
+  private async updatePatient(patientId: string, update: Hl7PatientUpdate, message: Hl7Message, audit: IntakeAuditContext): Promise<Hl7Issue[]> {
+    const hl7 = `${messageTypeOf(message)} ${message.controlId}`;
+
+    if (config.demoMode) {
+      const patient = demoStorage.getPatient(patientId);
+      if (!patient) return [];
+      const current = demoStorage.getMedicalHistory(patientId);
+      const stored = { conditions: current?.conditions ?? [], allergies: current?.allergies ?? [] } as StoredHistory;
+      const changes = patientChanges(update.demographics, patient);
+      const history = historyChanges(update, stored);
+      const invalid = updateIssues(patient, changes, { ...stored, ...history });
+      if (invalid.length > 0) return invalid;
+
+      demoStorage.updatePatient(patientId, changes);
+      if (Object.keys(history).length > 0) {
+        demoStorage.createMedicalHistory({
+          patientId,
+          conditions: current?.conditions ?? [],
+          allergies: current?.allergies ?? [],
+          pastSurgeries: current?.pastSurgeries ?? [],
+          familyHistory: current?.familyHistory ?? [],
+          ...history,
+        });
+      }
+      demoStorage.createAuditLog({
+        timestamp: new Date(),
+        ...audit,
+        action: 'modified',
+        patientId,
+        changes: { hl7, ...changes, ...history },
+      });
+      return [];
+    }
+
+    const transaction = await sequelize.transaction();
+    try {
+      const patient = await Patient.findByPk(patientId, { transaction });
+      if (!patient) {
+        await transaction.rollback();
+        return [];
+      }
+      const current = await MedicalHistory.findOne({ where: { patientId }, transaction });
+      const stored = { conditions: current?.conditions ?? [], allergies: current?.allergies ?? [] } as StoredHistory;
+      const changes = patientChanges(update.demographics, patient);
+      const history = historyChanges(update, stored);
+      const invalid = updateIssues(patient, changes, { ...stored, ...history });
+      if (invalid.length > 0) {
+        await transaction.rollback();
+        return invalid;
+      }
+
+      await patient.update(changes, { transaction });
+      if (Object.keys(history).length > 0) {
+        if (current) {
+          await current.update(history, { transaction });
+        } else {
+          await MedicalHistory.create({ patientId, conditions: [], allergies: [], pastSurgeries: [], familyHistory: [], ...history }, { transaction });
+        }
+      }
+      await AuditLog.create({
+        timestamp: new Date(),
+        userId: audit.userId,
+        userName: audit.userName,
+        action: 'modified',
+        patientId,
+        changes: { hl7, ...changes, ...history },
+        ipAddress: audit.ipAddress ?? null,
+        userAgent: audit.userAgent ?? null,
+      }, { transaction });
+      await transaction.commit();
+      return [];
+    } catch (dbError) {
+      await transaction.rollback();
+      throw dbError;
+    }
+  }
+
+  private async recordLabResults(
+    patientId: string,
+    results: LabResult[],
+    message: Hl7Message,
+    audit: IntakeAuditContext,
+  ): Promise<void> {
+    const changes = { hl7: `${messageTypeOf(message)} ${message.controlId}`, labResults: results };
+
+    if (config.demoMode) {
+      await labResultService.record(patientId, results);
+      demoStorage.createAuditLog({ timestamp: new Date(), ...audit, action: 'modified', patientId, changes });
+      return;
+    }
+
+    const transaction = await sequelize.transaction();
+    try {
+      await labResultService.record(patientId, results, transaction);
+      await AuditLog.create({
+        timestamp: new Date(),
+        userId: audit.userId,
+        userName: audit.userName,
+        action: 'modified',
+        patientId,
+        changes,
+        ipAddress: audit.ipAddress ?? null,
+        userAgent: audit.userAgent ?? null,
+      }, { transaction });
+      await transaction.commit();
+    } catch (dbError) {
+      await transaction.rollback();
+      throw dbError;
+    }
+  }
+
+  private async addDeadLetter(data: Omit<Hl7DeadLetterRecord, 'id'>): Promise<Hl7DeadLetterRecord> {
+    if (config.demoMode) {
+      return demoStorage.addHl7DeadLetter(data);
+    }
+    return toDeadLetterRecord(await Hl7DeadLetter.create(data));
+  }
+}
+
+export const hl7IngestService = new Hl7IngestService();
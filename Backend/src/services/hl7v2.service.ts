@@ -0,0 +1,479 @@
+import { LAB_TESTS, LabTestDefinition, findLabTest } from '@treatment-plan/clinical-knowledge';
+import { RawAllergyInput, RawConditionInput, RawDemographicsInput, RawLabResultInput } from '../types';
+import { UCUM_UNITS, VITAL_SIGNS, ageFrom, vitalValue } from './fhir-import.service';
+
+/**
+ * HL7 v2 Messages
+ *
+ * Parses the ER7 (pipe-delimited) messages older EHR interfaces send and maps
+ * ADT^A04/A08 and ORU^R01 onto the raw intake shapes, so HL7 patients go
+ * through buildCompletePatientData like any other intake. Also builds the
+ * ACK the sender expects back. Storage lives in hl7-ingest.service.
+ */
+
+export type Hl7AckCode = 'AA' | 'AE' | 'AR';
+
+// HL7 table 0357 (message error condition codes) used in ERR-3
+export type Hl7ErrorCode = 100 | 101 | 102 | 103 | 200 | 201 | 203 | 204 | 207;
+
+const ERROR_CODE_TEXT: Record<Hl7ErrorCode, string> = {
+  100: 'Segment sequence error',
+  101: 'Required field missing',
+  102: 'Data type error',
+  103: 'Table value not found',
+  200: 'Unsupported message type',
+  201: 'Unsupported event code',
+  203: 'Unsupported version id',
+  204: 'Unknown key identifier',
+  207: 'Application internal error',
+};
+
+/**
+ * A message the interface cannot accept. `location` is the ERR-2 error
+ * location ("PID^1^3": segment, occurrence, field).
+ */
+export class Hl7Error extends Error {
+  constructor(message: string, readonly code: Hl7ErrorCode, readonly location?: string) {
+    super(message);
+    this.name = 'Hl7Error';
+  }
+}
+
+/** One ERR segment of an ACK; warnings accompany an AA, errors an AE or AR. */
+export interface Hl7Issue {
+  code: Hl7ErrorCode;
+  severity: 'E' | 'W';
+  message: string;
+  location?: string;
+}
+
+export interface Hl7Delimiters {
+  field: string;
+  component: string;
+  repetition: string;
+  escape: string;
+  subcomponent: string;
+}
+
+// fields[n] is field n, still escaped; for MSH, fields[1] is the field separator
+export interface Hl7Segment {
+  name: string;
+  fields: string[];
+}
+
+export interface Hl7Message {
+  delimiters: Hl7Delimiters;
+  segments: Hl7Segment[];
+  messageType: string;
+  triggerEvent: string;
+  controlId: string;
+  sendingApplication: string;
+  sendingFacility: string;
+  receivingApplication: string;
+  receivingFacility: string;
+  sentAt?: Date;
+  processingId: string;
+  version: string;
+}
+
+/** Demographics and history carried by an ADT message; only the sections it sent are set. */
+export interface Hl7PatientUpdate {
+  externalId: string;
+  demographics: Partial<RawDemographicsInput>;
+  medicalHistory: { conditions?: RawConditionInput[]; allergies?: RawAllergyInput[] };
+  warnings: Hl7Issue[];
+}
+
+export interface Hl7LabReport {
+  externalId: string;
+  labResults: RawLabResultInput[];
+  warnings: Hl7Issue[];
+}
+
+const STANDARD_DELIMITERS: Hl7Delimiters = { field: '|', component: '^', repetition: '~', escape: '\\', subcomponent: '&' };
+
+// Start and end block characters of the minimal lower layer protocol (MLLP)
+const MLLP_START_BLOCK = '\u000b';
+const MLLP_END_BLOCK = '\u001c';
+
+// Batch and file envelopes around the messages of a drop file
+const ENVELOPE_SEGMENTS = ['FHS', 'BHS', 'BTS', 'FTS'];
+
+const ALLERGY_SEVERITY: Record<string, RawAllergyInput['severity']> = { SV: 'severe', MO: 'moderate', MI: 'mild' };
+
+// Result statuses (OBX-11) that withdraw a value rather than report one
+const WITHDRAWN_RESULT_STATUSES: Record<string, string> = { X: 'could not be obtained', D: 'deleted', W: 'posted in error' };
+
+// Segments of a message or file, without MLLP framing and blank lines
+const segmentLines = (text: string): string[] => text
+  .replaceAll(MLLP_START_BLOCK, '')
+  .replaceAll(MLLP_END_BLOCK, '')
+  .split(/\r\n|\r|\n/)
+  .filter(line => line.trim().length > 0);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function unescapeText(value: string, delimiters: Hl7Delimiters): string {
+  if (!value.includes(delimiters.escape)) return value;
+  const escape = escapeRegExp(delimiters.escape);
+  const sequence = new RegExp(`${escape}(F|S|T|R|E|\\.br|H|N|X[0-9A-Fa-f]+)${escape}`, 'g');
+  return value.replace(sequence, (_match, code: string) => {
+    switch (code) {
+      case 'F': return delimiters.field;
+      case 'S': return delimiters.component;
+      case 'T': return delimiters.subcomponent;
+      case 'R': return delimiters.repetition;
+      case 'E': return delimiters.escape;
+      case '.br': return '\n';
+      case 'H':
+      case 'N': return '';
+      default: return (code.slice(1).match(/../g) ?? []).map(hex => String.fromCharCode(Number.parseInt(hex, 16))).join('');
+    }
+  });
+}
+
+/** Escapes text for a field of an outgoing message (standard delimiters). */
+export function escapeHl7Text(value: string): string {
+  return value
+    .replace(/\\/g, '\\E\\')
+    .replace(/\|/g, '\\F\\')
+    .replace(/\^/g, '\\S\\')
+    .replace(/~/g, '\\R\\')
+    .replace(/&/g, '\\T\\')
+    .replace(/\r\n|\r|\n/g, '\\.br\\');
+}
+
+/**
+ * Reads an HL7 DTM value (YYYY[MM[DD[HH[MM[SS[.S]]]]]][+/-ZZZZ]). Values
+ * without an offset are taken as UTC.
+ */
+export function parseHl7Date(value: string): Date | undefined {
+  const match = /^(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:\.\d+)?([+-]\d{4})?$/.exec(value.trim());
+  if (!match) return undefined;
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', offset] = match;
+  const utc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  const offsetMinutes = offset
+    ? (offset.startsWith('-') ? -1 : 1) * (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(3, 5)))
+    : 0;
+  const date = new Date(utc - offsetMinutes * 60_000);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+export function formatHl7Date(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-T:]/g, '')}+0000`;
+}
+
+/** Field `field` of a segment: the given component of the given repetition, unescaped. */
+export function hl7Value(message: Hl7Message, segment: Hl7Segment | undefined, field: number, component = 1, repetition = 0): string {
+  const raw = segment?.fields[field] ?? '';
+  if (segment?.name === 'MSH' && field <= 2) return raw;
+  const { delimiters } = message;
+  const components = (raw.split(delimiters.repetition)[repetition] ?? '').split(delimiters.component);
+  const value = (components[component - 1] ?? '').split(delimiters.subcomponent)[0];
+  return unescapeText(value, delimiters).trim();
+}
+
+export function hl7Segments(message: Hl7Message, name: string): Hl7Segment[] {
+  return message.segments.filter(segment => segment.name === name);
+}
+
+/**
+ * Parses one ER7-encoded message. MLLP framing and any mix of CR/LF segment
+ * terminators are accepted; the message must start with an MSH that names
+ * the message type and control id.
+ */
+export function parseHl7Message(text: string): Hl7Message {
+  const lines = segmentLines(text);
+  const header = lines[0];
+  if (!header?.startsWith('MSH') || header.length < 8) {
+    throw new Hl7Error('Message must start with an MSH segment', 100, 'MSH^1');
+  }
+
+  const fieldSeparator = header[3];
+  const encoding = header.slice(4, header.indexOf(fieldSeparator, 4));
+  if (encoding.length < 4) {
+    throw new Hl7Error('MSH-2 must list the component, repetition, escape and subcomponent characters', 102, 'MSH^1^2');
+  }
+  const delimiters: Hl7Delimiters = {
+    field: fieldSeparator,
+    component: encoding[0],
+    repetition: encoding[1],
+    escape: encoding[2],
+    subcomponent: encoding[3],
+  };
+
+  const segments = lines.map((line, index): Hl7Segment => {
+    const parts = line.split(fieldSeparator);
+    const name = parts[0];
+    if (!/^[A-Z][A-Z0-9]{2}$/.test(name)) {
+      throw new Hl7Error(`Line ${index + 1} is not a segment ("${line.slice(0, 12)}")`, 100);
+    }
+    return { name, fields: name === 'MSH' ? ['MSH', fieldSeparator, ...parts.slice(1)] : parts };
+  });
+
+  const message: Hl7Message = {
+    delimiters,
+    segments,
+    messageType: '',
+    triggerEvent: '',
+    controlId: '',
+    sendingApplication: '',
+    sendingFacility: '',
+    receivingApplication: '',
+    receivingFacility: '',
+    processingId: '',
+    version: '',
+  };
+  const msh = segments[0];
+  message.messageType = hl7Value(message, msh, 9, 1);
+  message.triggerEvent = hl7Value(message, msh, 9, 2);
+  message.controlId = hl7Value(message, msh, 10);
+  message.sendingApplication = hl7Value(message, msh, 3);
+  message.sendingFacility = hl7Value(message, msh, 4);
+  message.receivingApplication = hl7Value(message, msh, 5);
+  message.receivingFacility = hl7Value(message, msh, 6);
+  message.sentAt = parseHl7Date(hl7Value(message, msh, 7));
+  message.processingId = hl7Value(message, msh, 11);
+  message.version = hl7Value(message, msh, 12);
+
+  if (!message.messageType) throw new Hl7Error('MSH-9 message type is required', 101, 'MSH^1^9');
+  if (!message.controlId) throw new Hl7Error('MSH-10 message control id is required', 101, 'MSH^1^10');
+  return message;
+}
+
+/**
+ * Splits a file or stream holding several messages at each MSH, dropping
+ * FHS/BHS batch envelopes. Text before the first MSH is kept as its own
+ * chunk so the parser can reject it.
+ */
+export function splitHl7Messages(text: string): string[] {
+  const lines = segmentLines(text);
+  const messages: string[][] = [];
+  for (const line of lines) {
+    if (ENVELOPE_SEGMENTS.includes(line.slice(0, 3))) continue;
+    if (line.startsWith('MSH') || messages.length === 0) {
+      messages.push([line]);
+    } else {
+      messages[messages.length - 1].push(line);
+    }
+  }
+  return messages.map(message => message.join('\r'));
+}
+
+function externalIdOf(message: Hl7Message): string {
+  const pid = hl7Segments(message, 'PID')[0];
+  if (!pid) throw new Hl7Error('PID segment is required', 100, 'PID');
+  const externalId = hl7Value(message, pid, 3);
+  if (!externalId) throw new Hl7Error('PID-3 patient identifier is required', 101, 'PID^1^3');
+  return externalId;
+}
+
+// Vitals reported in OBX segments of an ADT message (weight and height at registration)
+function mapVitals(message: Hl7Message, demographics: Partial<RawDemographicsInput>, warnings: Hl7Issue[]): void {
+  hl7Segments(message, 'OBX').forEach((obx, index) => {
+    const code = hl7Value(message, obx, 3, 1);
+    const vital = VITAL_SIGNS[code];
+    const value = Number.parseFloat(hl7Value(message, obx, 5));
+    const location = `OBX^${index + 1}^5`;
+    if (!vital) {
+      warnings.push({ code: 207, severity: 'W', message: `Observation ${code || '(no code)'} is not an intake vital; ignored`, location: `OBX^${index + 1}^3` });
+      return;
+    }
+    const converted = vitalValue(vital, { value: Number.isFinite(value) ? value : undefined, code: hl7Value(message, obx, 6, 1) });
+    if (converted === undefined) {
+      warnings.push({ code: 102, severity: 'W', message: `${vital} is not numeric; ignored`, location });
+      return;
+    }
+    if (vital === 'systolic' || vital === 'diastolic') {
+      demographics.bloodPressure = { ...demographics.bloodPressure, [vital]: converted };
+    } else {
+      Object.assign(demographics, { [vital]: converted });
+    }
+  });
+}
+
+/**
+ * Maps an ADT^A04 (register) or ADT^A08 (update) message: PID demographics,
+ * OBX weight and height, DG1 diagnoses and AL1 allergies. Conditions and
+ * allergies are only set when the message carries DG1 or AL1 segments, so an
+ * update without them leaves the stored lists alone.
+ */
+export function mapAdtMessage(message: Hl7Message, now = new Date()): Hl7PatientUpdate {
+  const externalId = externalIdOf(message);
+  const pid = hl7Segments(message, 'PID')[0];
+  const warnings: Hl7Issue[] = [];
+  const demographics: Partial<RawDemographicsInput> = { externalId };
+
+  const birthDate = parseHl7Date(hl7Value(message, pid, 7));
+  const age = birthDate ? ageFrom(birthDate.toISOString(), now) : undefined;
+  if (age !== undefined) demographics.age = age;
+
+  const sex = hl7Value(message, pid, 8).toUpperCase();
+  if (sex) demographics.sex = sex === 'M' ? 'male' : sex === 'F' ? 'female' : 'other';
+
+  mapVitals(message, demographics, warnings);
+
+  const medicalHistory: Hl7PatientUpdate['medicalHistory'] = {};
+  const dg1 = hl7Segments(message, 'DG1');
+  if (dg1.length > 0) {
+    medicalHistory.conditions = [];
+    dg1.forEach((segment, index) => {
+      const condition = hl7Value(message, segment, 3, 2) || hl7Value(message, segment, 3, 1) || hl7Value(message, segment, 4);
+      if (!condition) {
+        warnings.push({ code: 101, severity: 'W', message: 'Diagnosis has no code or description; ignored', location: `DG1^${index + 1}^3` });
+        return;
+      }
+      const diagnosedAt = parseHl7Date(hl7Value(message, segment, 5));
+      medicalHistory.conditions?.push({
+        condition,
+        ...(diagnosedAt && { diagnosisDate: diagnosedAt.toISOString().slice(0, 10) }),
+      });
+    });
+  }
+
+  const al1 = hl7Segments(message, 'AL1');
+  if (al1.length > 0) {
+    medicalHistory.allergies = [];
+    al1.forEach((segment, index) => {
+      const allergen = hl7Value(message, segment, 3, 2) || hl7Value(message, segment, 3, 1);
+      if (!allergen) {
+        warnings.push({ code: 101, severity: 'W', message: 'Allergy has no allergen; ignored', location: `AL1^${index + 1}^3` });
+        return;
+      }
+      const reactions = (segment.fields[5] ?? '').split(message.delimiters.repetition)
+        .map((_, repetition) => hl7Value(message, segment, 5, 1, repetition))
+        .filter(Boolean);
+      const reaction = reactions.join(', ');
+      const severity = /anaphyla/i.test(reaction)
+        ? 'anaphylaxis'
+        : ALLERGY_SEVERITY[hl7Value(message, segment, 4).toUpperCase()];
+      medicalHistory.allergies?.push({ allergen, ...(reaction && { reaction }), ...(severity && { severity }) });
+    });
+  }
+
+  return { externalId, demographics, medicalHistory, warnings };
+}
+
+// OBX-3 holds a LOINC code (coding system LN) or the sender's local code, possibly as the alternate identifier
+function labTestOf(message: Hl7Message, obx: Hl7Segment): LabTestDefinition | undefined {
+  for (const offset of [0, 3]) {
+    const code = hl7Value(message, obx, 3, 1 + offset);
+    if (!code) continue;
+    const test = hl7Value(message, obx, 3, 3 + offset).toUpperCase() === 'LN'
+      ? LAB_TESTS.find(candidate => candidate.loinc === code)
+      : findLabTest(code) ?? LAB_TESTS.find(candidate => candidate.loinc === code);
+    if (test) return test;
+  }
+  return undefined;
+}
+
+// OBX-7 reference range: "0.6-1.3", ">60" or "<5"
+function referenceRange(range: string): Pick<RawLabResultInput, 'referenceLow' | 'referenceHigh'> {
+  const between = /^(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)$/.exec(range);
+  if (between) return { referenceLow: Number(between[1]), referenceHigh: Number(between[2]) };
+  const bound = /^([<>])=?\s*(\d+(?:\.\d+)?)$/.exec(range);
+  if (bound) return bound[1] === '>' ? { referenceLow: Number(bound[2]), referenceHigh: null } : { referenceLow: null, referenceHigh: Number(bound[2]) };
+  return {};
+}
+
+/**
+ * Maps an ORU^R01 message onto lab results. Only numeric (NM) observations
+ * of catalog tests are taken; the collection time comes from OBX-14, then
+ * the order's OBR-7, then the message time. Everything skipped is returned
+ * as a warning for the ACK.
+ */
+export function mapOruMessage(message: Hl7Message): Hl7LabReport {
+  const externalId = externalIdOf(message);
+  const warnings: Hl7Issue[] = [];
+  const labResults: RawLabResultInput[] = [];
+  let orderTime: Date | undefined;
+  let obxIndex = 0;
+
+  for (const segment of message.segments) {
+    if (segment.name === 'OBR') {
+      orderTime = parseHl7Date(hl7Value(message, segment, 7));
+      continue;
+    }
+    if (segment.name !== 'OBX') continue;
+
+    obxIndex++;
+    const location = `OBX^${obxIndex}`;
+    const name = hl7Value(message, segment, 3, 2) || hl7Value(message, segment, 3, 1) || '(no code)';
+    const withdrawn = WITHDRAWN_RESULT_STATUSES[hl7Value(message, segment, 11).toUpperCase()];
+    if (withdrawn) {
+      warnings.push({ code: 207, severity: 'W', message: `${name}: result ${withdrawn}; ignored`, location: `${location}^11` });
+      continue;
+    }
+    const valueType = hl7Value(message, segment, 2).toUpperCase();
+    if (valueType && valueType !== 'NM' && valueType !== 'SN') {
+      warnings.push({ code: 102, severity: 'W', message: `${name}: ${valueType} results are not recorded`, location: `${location}^2` });
+      continue;
+    }
+    const test = labTestOf(message, segment);
+    if (!test) {
+      warnings.push({ code: 103, severity: 'W', message: `${name}: not a tracked lab test`, location: `${location}^3` });
+      continue;
+    }
+
+    // SN values arrive as "<comparator>^<number>"; the number is what is kept
+    const value = valueType === 'SN' ? hl7Value(message, segment, 5, 2) : hl7Value(message, segment, 5);
+    const unit = hl7Value(message, segment, 6, 1);
+    const collectedAt = parseHl7Date(hl7Value(message, segment, 14)) ?? orderTime ?? message.sentAt;
+    labResults.push({
+      testCode: test.code,
+      value,
+      ...(unit && { unit: UCUM_UNITS[unit] ?? unit }),
+      ...referenceRange(hl7Value(message, segment, 7)),
+      ...(collectedAt && { collectedAt: collectedAt.toISOString() }),
+    });
+  }
+
+  return { externalId, labResults, warnings };
+}
+
+export interface Hl7AckOptions {
+  application: string;
+  facility: string;
+  controlId: string;
+  now?: Date;
+  text?: string;
+  issues?: Hl7Issue[];
+}
+
+/**
+ * The acknowledgment for a message, addressed back to its sender. `message`
+ * is null when the input could not be parsed at all; the ACK then carries
+ * no control id to echo.
+ */
+export function buildAck(message: Hl7Message | null, code: Hl7AckCode, options: Hl7AckOptions): string {
+  const { field, component, repetition, escape, subcomponent } = STANDARD_DELIMITERS;
+  const text = (value: string | undefined) => escapeHl7Text(value ?? '');
+  const msh = [
+    'MSH',
+    `${component}${repetition}${escape}${subcomponent}`,
+    text(options.application),
+    text(options.facility),
+    text(message?.sendingApplication),
+    text(message?.sendingFacility),
+    formatHl7Date(options.now ?? new Date()),
+    '',
+    ['ACK', text(message?.triggerEvent), 'ACK'].join(component),
+    text(options.controlId),
+    text(message?.processingId || 'P'),
+    text(message?.version || '2.5.1'),
+  ].join(field);
+  const msa = ['MSA', code, text(message?.controlId), text(options.text)].join(field);
+  const errors = (options.issues ?? []).map(issue => [
+    'ERR',
+    '',
+    issue.location ?? '',
+    [issue.code, ERROR_CODE_TEXT[issue.code], 'HL70357'].join(component),
+    issue.severity,
+    '',
+    '',
+    '',
+    text(issue.message),
+  ].join(field));
+
+  return [msh, msa, ...errors].join('\r') + '\r';
+}
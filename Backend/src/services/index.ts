@@ -1,4 +1,5 @@
 export * from './openai.service';
+export * from './llm-provider.service';
 export * from './validation.service';
 export * from './cross-validation.service';
 export * from './demo-storage.service';
@@ -0,0 +1,579 @@
+import { Transaction } from 'sequelize';
+import { CLINICAL_KNOWLEDGE_VERSION, DRUG_ONTOLOGY, normalizeDrugTerm } from '@treatment-plan/clinical-knowledge';
+import { config } from '../config';
+import logger from '../config/logger';
+import { sequelize } from '../config/database';
+import { AllergyGroup, Contraindication, DosageGuideline, DrugInteraction, KnowledgeBaseVersion, KnowledgeChange } from '../models';
+import {
+  KnowledgeAllergyGroupEntry,
+  KnowledgeBaseVersionRecord,
+  KnowledgeBaseVersionSummary,
+  KnowledgeChangeRecord,
+  KnowledgeChangeStatus,
+  KnowledgeContraindicationEntry,
+  KnowledgeDosageGuidelineEntry,
+  KnowledgeEntry,
+  KnowledgeEntryType,
+  KnowledgeInteractionEntry,
+  KnowledgeSnapshot,
+} from '../types';
+
+/**
+ * Knowledge-Base Authoring
+ *
+ * Curators never write to the live drug-database tables directly. Each new
+ * interaction, contraindication or dosage guideline is saved as a draft,
+ * approved by a second curator, and goes live when an admin publishes the
+ * reviewed changes as a new numbered version (v1, v2, ...). Every version
+ * keeps a snapshot of the tables it produced, so an admin can roll the live
+ * tables back to any earlier version.
+ */
+
+/** Version stamped on plans checked against the bundled package alone (demo mode has no tables) */
+export const BUNDLED_KNOWLEDGE_VERSION = `bundled-${CLINICAL_KNOWLEDGE_VERSION}`;
+
+/**
+ * Raised when a workflow step does not apply to a change or version in its
+ * current state (reviewing a published change, publishing nothing, ...).
+ * Controllers map it to a 409.
+ */
+export class KnowledgeBaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KnowledgeBaseError';
+  }
+}
+
+export interface KnowledgeActor {
+  userId: string;
+  userName: string;
+}
+
+export interface KnowledgeBaseStore {
+  // Oldest first
+  listChanges(status?: KnowledgeChangeStatus): Promise<KnowledgeChangeRecord[]>;
+  getChange(id: string): Promise<KnowledgeChangeRecord | null>;
+  createChange(change: Omit<KnowledgeChangeRecord, 'id' | 'createdAt'>): Promise<KnowledgeChangeRecord>;
+  // All or nothing, in the given order
+  createChanges(changes: Omit<KnowledgeChangeRecord, 'id' | 'createdAt'>[]): Promise<KnowledgeChangeRecord[]>;
+  // False when the change is no longer a draft, so two reviewers cannot both approve it
+  markReviewed(id: string, reviewer: KnowledgeActor, reviewedAt: string): Promise<boolean>;
+  // Oldest first
+  listVersions(): Promise<KnowledgeBaseVersionSummary[]>;
+  getVersion(version: string): Promise<KnowledgeBaseVersionRecord | null>;
+  liveSnapshot(): Promise<KnowledgeSnapshot>;
+  // Rewrites the live tables from the record, stores it as the active version and marks its changes published
+  publish(record: KnowledgeBaseVersionRecord): Promise<void>;
+  // Rewrites the live tables from a stored version and makes it active; false when it does not exist
+  activate(version: string): Promise<boolean>;
+}
+
+// ── Entry validation ─────────────────────────────────────────────────────────
+
+const REQUIRED_TEXT: Record<KnowledgeEntryType, string[]> = {
+  interaction: ['drug1', 'drug2', 'effect', 'mechanism', 'management'],
+  contraindication: ['drug', 'condition', 'reason'],
+  dosage_guideline: ['drug', 'indication', 'standardDose', 'maxDose'],
+  allergy_group: ['groupName', 'crossReactivityRate', 'recommendation'],
+};
+
+const ENUM_FIELDS: Record<KnowledgeEntryType, Record<string, readonly string[]>> = {
+  interaction: {
+    severity: ['major', 'moderate', 'minor'],
+    evidence: ['definitive', 'probable', 'suspected', 'theoretical'],
+  },
+  contraindication: {
+    type: ['absolute', 'relative', 'pregnancy'],
+    severity: ['critical', 'high', 'moderate'],
+  },
+  dosage_guideline: {},
+  allergy_group: {
+    severity: ['high', 'moderate', 'low'],
+  },
+};
+
+const LIST_FIELDS: Record<KnowledgeEntryType, string[]> = {
+  interaction: [],
+  contraindication: ['alternatives'],
+  dosage_guideline: ['monitoringParameters', 'blackBoxWarnings'],
+  allergy_group: ['primaryAllergens', 'crossReactiveDrugs'],
+};
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+const list = (value: unknown): string[] => (Array.isArray(value) ? value.map(text).filter(Boolean) : []);
+
+/**
+ * Checks a submitted entry against the shared package's entry shape and
+ * returns it trimmed, with optional fields defaulted. `entry` is null when
+ * there are errors.
+ */
+export function normalizeKnowledgeEntry(
+  entryType: KnowledgeEntryType,
+  input: Record<string, unknown> | undefined,
+): { entry: KnowledgeEntry | null; errors: string[] } {
+  const body = input ?? {};
+  const errors: string[] = [];
+
+  for (const field of REQUIRED_TEXT[entryType]) {
+    if (!text(body[field])) errors.push(`${field} is required`);
+  }
+  for (const [field, allowed] of Object.entries(ENUM_FIELDS[entryType])) {
+    if (!allowed.includes(body[field] as string)) {
+      errors.push(`${field} must be one of ${allowed.join(', ')}`);
+    }
+  }
+  for (const field of LIST_FIELDS[entryType]) {
+    const value = body[field];
+    if (value !== undefined && !(Array.isArray(value) && value.every(item => typeof item === 'string'))) {
+      errors.push(`${field} must be a list of names`);
+    }
+  }
+  if (entryType === 'interaction') {
+    const significance = body.clinicalSignificance;
+    if (!Number.isInteger(significance) || (significance as number) < 1 || (significance as number) > 5) {
+      errors.push('clinicalSignificance must be a whole number from 1 to 5');
+    }
+  }
+  if (entryType === 'dosage_guideline' && body.renalAdjustment !== undefined) {
+    const renal = body.renalAdjustment;
+    if (typeof renal !== 'object' || renal === null || Array.isArray(renal)
+      || !Object.values(renal).every(dose => typeof dose === 'string')) {
+      errors.push('renalAdjustment must map creatinine clearance bands to doses');
+    }
+  }
+  if (entryType === 'allergy_group' && list(body.primaryAllergens).length === 0) {
+    errors.push('primaryAllergens must name at least one allergen');
+  }
+
+  if (errors.length > 0) {
+    return { entry: null, errors };
+  }
+
+  switch (entryType) {
+    case 'interaction':
+      return {
+        entry: {
+          drug1: text(body.drug1),
+          drug2: text(body.drug2),
+          severity: body.severity as KnowledgeInteractionEntry['severity'],
+          effect: text(body.effect),
+          mechanism: text(body.mechanism),
+          management: text(body.management),
+          evidence: body.evidence as KnowledgeInteractionEntry['evidence'],
+          clinicalSignificance: body.clinicalSignificance as number,
+        },
+        errors,
+      };
+    case 'contraindication':
+      return {
+        entry: {
+          drug: text(body.drug),
+          condition: text(body.condition),
+          type: body.type as KnowledgeContraindicationEntry['type'],
+          severity: body.severity as KnowledgeContraindicationEntry['severity'],
+          reason: text(body.reason),
+          alternatives: list(body.alternatives),
+          evidenceSource: text(body.evidenceSource),
+        },
+        errors,
+      };
+    case 'dosage_guideline': {
+      const entry: KnowledgeDosageGuidelineEntry = {
+        drug: text(body.drug),
+        indication: text(body.indication),
+        standardDose: text(body.standardDose),
+        maxDose: text(body.maxDose),
+        renalAdjustment: Object.fromEntries(
+          Object.entries((body.renalAdjustment as Record<string, string> | undefined) ?? {}).map(([band, dose]) => [band.trim(), dose.trim()]),
+        ),
+        hepaticAdjustment: text(body.hepaticAdjustment),
+        geriatricAdjustment: text(body.geriatricAdjustment),
+        monitoringParameters: list(body.monitoringParameters),
+      };
+      // The optional package fields are left out rather than stored empty
+      if (text(body.pediatricNote)) entry.pediatricNote = text(body.pediatricNote);
+      if (list(body.blackBoxWarnings).length > 0) entry.blackBoxWarnings = list(body.blackBoxWarnings);
+      return { entry, errors };
+    }
+    case 'allergy_group':
+      return {
+        entry: {
+          groupName: text(body.groupName),
+          primaryAllergens: list(body.primaryAllergens),
+          crossReactiveDrugs: list(body.crossReactiveDrugs),
+          crossReactivityRate: text(body.crossReactivityRate),
+          severity: body.severity as KnowledgeAllergyGroupEntry['severity'],
+          recommendation: text(body.recommendation),
+        },
+        errors,
+      };
+  }
+}
+
+const drugKey = (name: string) => normalizeDrugTerm(DRUG_ONTOLOGY.canonicalName(name));
+
+/**
+ * Identity of an entry within its table: a new entry with the same key
+ * replaces the old one. Interaction pairs are unordered, so a reversed
+ * drug1/drug2 pair is the same interaction.
+ */
+export function knowledgeEntryKey(entryType: KnowledgeEntryType, entry: KnowledgeEntry): string {
+  switch (entryType) {
+    case 'interaction': {
+      const { drug1, drug2 } = entry as KnowledgeInteractionEntry;
+      return [drugKey(drug1), drugKey(drug2)].sort((a, b) => a.localeCompare(b)).join(' + ');
+    }
+    case 'contraindication': {
+      const { drug, condition } = entry as KnowledgeContraindicationEntry;
+      return `${drugKey(drug)} in ${condition.toLowerCase().trim()}`;
+    }
+    case 'dosage_guideline': {
+      const { drug, indication } = entry as KnowledgeDosageGuidelineEntry;
+      return `${drugKey(drug)} for ${indication.toLowerCase().trim()}`;
+    }
+    case 'allergy_group':
+      return (entry as KnowledgeAllergyGroupEntry).groupName.toLowerCase().trim();
+  }
+}
+
+/** Snapshot field holding each entry type */
+export const SNAPSHOT_FIELDS = {
+  interaction: 'interactions',
+  contraindication: 'contraindications',
+  dosage_guideline: 'dosageGuidelines',
+  allergy_group: 'allergyGroups',
+} as const satisfies Record<KnowledgeEntryType, keyof KnowledgeSnapshot>;
+
+/** The live tables after applying the given changes; an entry replaces the one with the same key */
+export function applyChanges(snapshot: KnowledgeSnapshot, changes: KnowledgeChangeRecord[]): KnowledgeSnapshot {
+  const next: KnowledgeSnapshot = {
+    interactions: [...snapshot.interactions],
+    contraindications: [...snapshot.contraindications],
+    dosageGuidelines: [...snapshot.dosageGuidelines],
+    allergyGroups: [...snapshot.allergyGroups],
+  };
+  for (const change of changes) {
+    const rows = next[SNAPSHOT_FIELDS[change.entryType]] as KnowledgeEntry[];
+    const key = knowledgeEntryKey(change.entryType, change.entry);
+    const existing = rows.findIndex(row => knowledgeEntryKey(change.entryType, row) === key);
+    if (existing >= 0) {
+      rows[existing] = change.entry;
+    } else {
+      rows.push(change.entry);
+    }
+  }
+  return next;
+}
+
+const versionNumber = (version: string) => Number.parseInt(version.replace(/^v/, ''), 10) || 0;
+
+function toSummary(record: KnowledgeBaseVersionSummary): KnowledgeBaseVersionSummary {
+  const { version, publishedAt, publishedBy, packageVersion, changeIds, active } = record;
+  return { version, publishedAt, publishedBy, packageVersion, changeIds, active };
+}
+
+// ── Database store ───────────────────────────────────────────────────────────
+
+function toChangeRecord(row: KnowledgeChange): KnowledgeChangeRecord {
+  return {
+    id: row.id,
+    entryType: row.entryType,
+    entry: row.entry,
+    status: row.status,
+    authorId: row.authorId,
+    authorName: row.authorName,
+    reviewerId: row.reviewerId,
+    reviewerName: row.reviewerName,
+    reviewedAt: row.reviewedAt ? row.reviewedAt.toISOString() : null,
+    publishedVersion: row.publishedVersion,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toVersionSummary(row: KnowledgeBaseVersion): KnowledgeBaseVersionSummary {
+  return {
+    version: row.version,
+    publishedAt: row.createdAt.toISOString(),
+    publishedBy: row.publishedBy,
+    packageVersion: row.packageVersion,
+    changeIds: row.changeIds,
+    active: row.active,
+  };
+}
+
+// Versions published before allergy groups were curated have no allergyGroups table in their snapshot
+const withAllergyGroups = (snapshot: KnowledgeSnapshot): KnowledgeSnapshot => ({
+  ...snapshot,
+  allergyGroups: snapshot.allergyGroups ?? [],
+});
+
+export class DatabaseKnowledgeStore implements KnowledgeBaseStore {
+  async listChanges(status?: KnowledgeChangeStatus): Promise<KnowledgeChangeRecord[]> {
+    const rows = await KnowledgeChange.findAll({
+      where: status ? { status } : undefined,
+      order: [['createdAt', 'ASC']],
+    });
+    return rows.map(toChangeRecord);
+  }
+
+  async getChange(id: string): Promise<KnowledgeChangeRecord | null> {
+    const row = await KnowledgeChange.findByPk(id);
+    return row ? toChangeRecord(row) : null;
+  }
+
+  async createChange(change: Omit<KnowledgeChangeRecord, 'id' | 'createdAt'>): Promise<KnowledgeChangeRecord> {
+    const row = await KnowledgeChange.create({
+      ...change,
+      reviewedAt: change.reviewedAt ? new Date(change.reviewedAt) : null,
+    });
+    return toChangeRecord(row);
+  }
+
+  async createChanges(changes: Omit<KnowledgeChangeRecord, 'id' | 'createdAt'>[]): Promise<KnowledgeChangeRecord[]> {
+    const rows = await sequelize.transaction(transaction => KnowledgeChange.bulkCreate(
+      changes.map(change => ({ ...change, reviewedAt: change.reviewedAt ? new Date(change.reviewedAt) : null })),
+      { transaction },
+    ));
+    return rows.map(toChangeRecord);
+  }
+
+  async markReviewed(id: string, reviewer: KnowledgeActor, reviewedAt: string): Promise<boolean> {
+    const [updated] = await KnowledgeChange.update(
+      { status: 'reviewed', reviewerId: reviewer.userId, reviewerName: reviewer.userName, reviewedAt: new Date(reviewedAt) },
+      { where: { id, status: 'draft' } },
+    );
+    return updated > 0;
+  }
+
+  async listVersions(): Promise<KnowledgeBaseVersionSummary[]> {
+    // Snapshots hold every table row; the listing only needs the metadata
+    const rows = await KnowledgeBaseVersion.findAll({ attributes: { exclude: ['snapshot'] } });
+    return rows
+      .map(toVersionSummary)
+      .sort((a, b) => versionNumber(a.version) - versionNumber(b.version));
+  }
+
+  async getVersion(version: string): Promise<KnowledgeBaseVersionRecord | null> {
+    const row = await KnowledgeBaseVersion.findOne({ where: { version } });
+    return row ? { ...toVersionSummary(row), snapshot: withAllergyGroups(row.snapshot) } : null;
+  }
+
+  async liveSnapshot(): Promise<KnowledgeSnapshot> {
+    const order: [string, string][] = [['createdAt', 'ASC']];
+    const [interactions, contraindications, dosageGuidelines, allergyGroups] = await Promise.all([
+      DrugInteraction.findAll({ order }),
+      Contraindication.findAll({ order }),
+      DosageGuideline.findAll({ order }),
+      AllergyGroup.findAll({ order }),
+    ]);
+    // Rows go through the same normalization as submitted entries, so unchanged imports compare equal
+    const entries = <T extends KnowledgeEntry>(entryType: KnowledgeEntryType, rows: Array<{ get(options: { plain: true }): object }>) =>
+      rows.map(row => normalizeKnowledgeEntry(entryType, row.get({ plain: true }) as Record<string, unknown>).entry as T);
+    return {
+      interactions: entries<KnowledgeInteractionEntry>('interaction', interactions),
+      contraindications: entries<KnowledgeContraindicationEntry>('contraindication', contraindications),
+      dosageGuidelines: entries<KnowledgeDosageGuidelineEntry>('dosage_guideline', dosageGuidelines),
+      allergyGroups: entries<KnowledgeAllergyGroupEntry>('allergy_group', allergyGroups),
+    };
+  }
+
+  private async replaceLiveRows(snapshot: KnowledgeSnapshot, transaction: Transaction): Promise<void> {
+    await DrugInteraction.destroy({ where: {}, transaction });
+    await Contraindication.destroy({ where: {}, transaction });
+    await DosageGuideline.destroy({ where: {}, transaction });
+    await AllergyGroup.destroy({ where: {}, transaction });
+    await DrugInteraction.bulkCreate(snapshot.interactions, { transaction });
+    await Contraindication.bulkCreate(snapshot.contraindications, { transaction });
+    await DosageGuideline.bulkCreate(snapshot.dosageGuidelines, { transaction });
+    await AllergyGroup.bulkCreate(snapshot.allergyGroups, { transaction });
+  }
+
+  async publish(record: KnowledgeBaseVersionRecord): Promise<void> {
+    await sequelize.transaction(async transaction => {
+      await this.replaceLiveRows(record.snapshot, transaction);
+      await KnowledgeBaseVersion.update({ active: false }, { where: { active: true }, transaction });
+      await KnowledgeBaseVersion.create({
+        version: record.version,
+        publishedBy: record.publishedBy,
+        packageVersion: record.packageVersion,
+        changeIds: record.changeIds,
+        snapshot: record.snapshot,
+        active: true,
+      }, { transaction });
+      if (record.changeIds.length > 0) {
+        await KnowledgeChange.update(
+          { status: 'published', publishedVersion: record.version },
+          { where: { id: record.changeIds }, transaction },
+        );
+      }
+    });
+  }
+
+  async activate(version: string): Promise<boolean> {
+    return sequelize.transaction(async transaction => {
+      const row = await KnowledgeBaseVersion.findOne({ where: { version }, transaction });
+      if (!row) return false;
+      await this.replaceLiveRows(withAllergyGroups(row.snapshot), transaction);
+      await KnowledgeBaseVersion.update({ active: false }, { where: { active: true }, transaction });
+      await row.update({ active: true }, { transaction });
+      return true;
+    });
+  }
+}
+
+const draftOf = (
+  entryType: KnowledgeEntryType,
+  entry: KnowledgeEntry,
+  author: KnowledgeActor,
+): Omit<KnowledgeChangeRecord, 'id' | 'createdAt'> => ({
+  entryType,
+  entry,
+  status: 'draft',
+  authorId: author.userId,
+  authorName: author.userName,
+  reviewerId: null,
+  reviewerName: null,
+  reviewedAt: null,
+  publishedVersion: null,
+});
+
+// ── Service ──────────────────────────────────────────────────────────────────
+
+class KnowledgeBaseService {
+  private store: KnowledgeBaseStore | null = null;
+
+  /** Swap the storage backend (tests) */
+  useStore(store: KnowledgeBaseStore): void {
+    this.store = store;
+  }
+
+  private get backend(): KnowledgeBaseStore {
+    this.store ??= new DatabaseKnowledgeStore();
+    return this.store;
+  }
+
+  /**
+   * The active version, recording the current tables as v1 the first time a
+   * database without any published version is used.
+   */
+  async ensureBaseline(publishedBy = 'system'): Promise<KnowledgeBaseVersionSummary> {
+    const versions = await this.backend.listVersions();
+    const active = versions.find(v => v.active);
+    if (active) return active;
+
+    const record: KnowledgeBaseVersionRecord = {
+      version: 'v1',
+      publishedAt: new Date().toISOString(),
+      publishedBy,
+      packageVersion: CLINICAL_KNOWLEDGE_VERSION,
+      changeIds: [],
+      active: true,
+      snapshot: await this.backend.liveSnapshot(),
+    };
+    await this.backend.publish(record);
+    logger.info('Recorded baseline knowledge-base version', { version: record.version });
+    return toSummary(record);
+  }
+
+  /** Version to stamp on a plan that is safety-checked now */
+  async activeVersion(): Promise<string> {
+    if (config.demoMode) return BUNDLED_KNOWLEDGE_VERSION;
+    return (await this.ensureBaseline()).version;
+  }
+
+  async submitDraft(entryType: KnowledgeEntryType, entry: KnowledgeEntry, author: KnowledgeActor): Promise<KnowledgeChangeRecord> {
+    const change = await this.backend.createChange(draftOf(entryType, entry, author));
+    logger.info('Knowledge-base change drafted', { changeId: change.id, entryType, author: author.userId });
+    return change;
+  }
+
+  /** Save a batch of entries (a bulk import) as drafts; none are saved if any fails */
+  async submitDrafts(
+    entries: { entryType: KnowledgeEntryType; entry: KnowledgeEntry }[],
+    author: KnowledgeActor,
+  ): Promise<KnowledgeChangeRecord[]> {
+    const changes = await this.backend.createChanges(entries.map(({ entryType, entry }) => draftOf(entryType, entry, author)));
+    logger.info('Knowledge-base changes drafted', { count: changes.length, author: author.userId });
+    return changes;
+  }
+
+  /** The entries curated changes currently apply to */
+  async liveSnapshot(): Promise<KnowledgeSnapshot> {
+    return this.backend.liveSnapshot();
+  }
+
+  async listChanges(status?: KnowledgeChangeStatus): Promise<KnowledgeChangeRecord[]> {
+    return this.backend.listChanges(status);
+  }
+
+  /** Approve a draft for publishing; null when it does not exist */
+  async review(id: string, reviewer: KnowledgeActor): Promise<KnowledgeChangeRecord | null> {
+    const change = await this.backend.getChange(id);
+    if (!change) return null;
+    if (change.status !== 'draft') {
+      throw new KnowledgeBaseError(`Change ${id} is already ${change.status}`);
+    }
+    if (change.authorId === reviewer.userId) {
+      throw new KnowledgeBaseError('A change must be reviewed by someone other than its author');
+    }
+    if (!(await this.backend.markReviewed(id, reviewer, new Date().toISOString()))) {
+      throw new KnowledgeBaseError(`Change ${id} was reviewed by someone else in the meantime`);
+    }
+
+    logger.info('Knowledge-base change reviewed', { changeId: id, reviewer: reviewer.userId });
+    return this.backend.getChange(id);
+  }
+
+  /** Put every reviewed change live as the next version */
+  async publish(publisher: KnowledgeActor): Promise<KnowledgeBaseVersionSummary> {
+    const reviewed = await this.backend.listChanges('reviewed');
+    if (reviewed.length === 0) {
+      throw new KnowledgeBaseError('There are no reviewed changes to publish');
+    }
+
+    await this.ensureBaseline();
+    const versions = await this.backend.listVersions();
+    const record: KnowledgeBaseVersionRecord = {
+      version: `v${versions.reduce((max, v) => Math.max(max, versionNumber(v.version)), 0) + 1}`,
+      publishedAt: new Date().toISOString(),
+      publishedBy: publisher.userName,
+      packageVersion: CLINICAL_KNOWLEDGE_VERSION,
+      changeIds: reviewed.map(change => change.id),
+      active: true,
+      snapshot: applyChanges(await this.backend.liveSnapshot(), reviewed),
+    };
+    await this.backend.publish(record);
+
+    logger.info('Knowledge-base version published', { version: record.version, changes: record.changeIds.length, by: publisher.userId });
+    return toSummary(record);
+  }
+
+  async listVersions(): Promise<KnowledgeBaseVersionSummary[]> {
+    await this.ensureBaseline();
+    return this.backend.listVersions();
+  }
+
+  async getVersion(version: string): Promise<KnowledgeBaseVersionRecord | null> {
+    return this.backend.getVersion(version);
+  }
+
+  /**
+   * Restore the tables of an earlier version and make it the active one.
+   * Changes published after it stay marked as published in their version;
+   * to bring one back, submit it again as a new draft. Null when the version
+   * does not exist.
+   */
+  async rollback(version: string, by: KnowledgeActor): Promise<KnowledgeBaseVersionSummary | null> {
+    const target = await this.backend.getVersion(version);
+    if (!target) return null;
+    if (target.active) {
+      throw new KnowledgeBaseError(`${version} is already the active knowledge-base version`);
+    }
+    if (!(await this.backend.activate(version))) return null;
+
+    logger.warn('Knowledge base rolled back', { version, by: by.userId });
+    return { ...toSummary(target), active: true };
+  }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
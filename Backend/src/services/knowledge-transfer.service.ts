@@ -0,0 +1,334 @@
+import {
+  ALLERGY_CROSS_REACTIVITY,
+  COMPREHENSIVE_CONTRAINDICATIONS,
+  COMPREHENSIVE_DOSAGE_GUIDELINES,
+  COMPREHENSIVE_DRUG_INTERACTIONS,
+} from '@treatment-plan/clinical-knowledge';
+import {
+  KnowledgeEntry,
+  KnowledgeEntryType,
+  KnowledgeImportIssue,
+  KnowledgeImportReport,
+  KnowledgeSnapshot,
+} from '../types';
+import { knowledgeEntryKey, normalizeKnowledgeEntry, SNAPSHOT_FIELDS } from './knowledge-base.service';
+
+/**
+ * Knowledge-Base Import/Export
+ *
+ * Moves the drug-database tables in and out as JSON (every table in one
+ * document, shaped like the shared package) or CSV (one table per file).
+ * Imported rows are checked with the same validation as single submissions,
+ * matched against the live tables by entry key, and become draft changes
+ * that go through the usual review and publish steps.
+ */
+
+export type KnowledgeTransferFormat = 'json' | 'csv';
+
+/** Dataset names used in URLs, one per table */
+export const KNOWLEDGE_DATASETS = {
+  interactions: 'interaction',
+  contraindications: 'contraindication',
+  'dosage-guidelines': 'dosage_guideline',
+  'allergy-groups': 'allergy_group',
+} as const satisfies Record<string, KnowledgeEntryType>;
+
+export type KnowledgeDataset = keyof typeof KNOWLEDGE_DATASETS;
+
+export const isKnowledgeDataset = (value: unknown): value is KnowledgeDataset =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(KNOWLEDGE_DATASETS, value);
+
+type ColumnKind = 'text' | 'list' | 'integer' | 'json';
+
+// CSV columns in file order; lists are `;`-separated and renal bands are a JSON object
+const CSV_COLUMNS: Record<KnowledgeEntryType, [string, ColumnKind][]> = {
+  interaction: [
+    ['drug1', 'text'], ['drug2', 'text'], ['severity', 'text'], ['effect', 'text'], ['mechanism', 'text'],
+    ['management', 'text'], ['evidence', 'text'], ['clinicalSignificance', 'integer'],
+  ],
+  contraindication: [
+    ['drug', 'text'], ['condition', 'text'], ['type', 'text'], ['severity', 'text'], ['reason', 'text'],
+    ['alternatives', 'list'], ['evidenceSource', 'text'],
+  ],
+  dosage_guideline: [
+    ['drug', 'text'], ['indication', 'text'], ['standardDose', 'text'], ['maxDose', 'text'],
+    ['renalAdjustment', 'json'], ['hepaticAdjustment', 'text'], ['geriatricAdjustment', 'text'],
+    ['pediatricNote', 'text'], ['monitoringParameters', 'list'], ['blackBoxWarnings', 'list'],
+  ],
+  allergy_group: [
+    ['groupName', 'text'], ['primaryAllergens', 'list'], ['crossReactiveDrugs', 'list'],
+    ['crossReactivityRate', 'text'], ['severity', 'text'], ['recommendation', 'text'],
+  ],
+};
+
+const DATASET_LABELS: Record<KnowledgeEntryType, string> = {
+  interaction: 'interaction',
+  contraindication: 'contraindication',
+  dosage_guideline: 'dosage guideline',
+  allergy_group: 'allergy group',
+};
+
+/** The tables as shipped in the shared package (what demo mode checks against) */
+export function bundledSnapshot(): KnowledgeSnapshot {
+  return {
+    interactions: COMPREHENSIVE_DRUG_INTERACTIONS,
+    contraindications: COMPREHENSIVE_CONTRAINDICATIONS,
+    dosageGuidelines: COMPREHENSIVE_DOSAGE_GUIDELINES,
+    allergyGroups: ALLERGY_CROSS_REACTIVITY,
+  };
+}
+
+// ── CSV ──────────────────────────────────────────────────────────────────────
+
+/** RFC 4180 records, each with the 1-based line it starts on */
+export function parseCsv(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    // Blank lines are skipped rather than read as a row of empty fields
+    if (fields.length > 1 || fields[0] !== '') records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+  return records;
+}
+
+const csvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+
+function toCsvCell(value: unknown, kind: ColumnKind): string {
+  if (value === undefined || value === null) return '';
+  switch (kind) {
+    case 'list':
+      return (value as string[]).join('; ');
+    case 'json':
+      return Object.keys(value as object).length > 0 ? JSON.stringify(value) : '';
+    default:
+      return String(value);
+  }
+}
+
+function fromCsvCell(value: string, kind: ColumnKind, column: string): { value: unknown; error?: string } {
+  const trimmed = value.trim();
+  if (trimmed === '') return { value: undefined };
+  switch (kind) {
+    case 'list':
+      return { value: trimmed.split(';').map(item => item.trim()).filter(Boolean) };
+    case 'integer':
+      // Anything that is not a whole number is passed through for validation to reject
+      return { value: /^-?\d+$/.test(trimmed) ? Number(trimmed) : trimmed };
+    case 'json':
+      try {
+        return { value: JSON.parse(trimmed) };
+      } catch {
+        return { value: undefined, error: `${column} is not valid JSON` };
+      }
+    default:
+      return { value: trimmed };
+  }
+}
+
+/** One table as CSV, header first */
+export function toCsv(snapshot: KnowledgeSnapshot, dataset: KnowledgeDataset): string {
+  const entryType = KNOWLEDGE_DATASETS[dataset];
+  const columns = CSV_COLUMNS[entryType];
+  const rows = snapshot[SNAPSHOT_FIELDS[entryType]] as KnowledgeEntry[];
+  const lines = [
+    columns.map(([name]) => name).join(','),
+    ...rows.map(row => columns
+      .map(([name, kind]) => csvField(toCsvCell((row as unknown as Record<string, unknown>)[name], kind)))
+      .join(',')),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+// ── Import ───────────────────────────────────────────────────────────────────
+
+/** An uploaded row before validation, with where it came from for the report */
+interface ImportRow {
+  entryType: KnowledgeEntryType;
+  row: number;
+  input: Record<string, unknown>;
+  errors: string[];
+}
+
+function readCsv(text: string, dataset: KnowledgeDataset): { rows: ImportRow[]; issues: KnowledgeImportIssue[] } {
+  const entryType = KNOWLEDGE_DATASETS[dataset];
+  const columns = new Map(CSV_COLUMNS[entryType]);
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    return { rows: [], issues: [{ dataset, row: null, errors: ['The file is empty'] }] };
+  }
+
+  const names = header.fields.map(name => name.trim());
+  const unknown = names.filter(name => !columns.has(name));
+  if (unknown.length > 0) {
+    return {
+      rows: [],
+      issues: [{
+        dataset,
+        row: header.line,
+        errors: [`Unknown ${DATASET_LABELS[entryType]} column(s): ${unknown.join(', ')}. Expected ${[...columns.keys()].join(', ')}`],
+      }],
+    };
+  }
+
+  const rows = records.map(({ line, fields }): ImportRow => {
+    const input: Record<string, unknown> = {};
+    const errors: string[] = [];
+    if (fields.length !== names.length) {
+      errors.push(`Expected ${names.length} fields but found ${fields.length}`);
+    }
+    names.forEach((name, index) => {
+      const cell = fromCsvCell(fields[index] ?? '', columns.get(name)!, name);
+      if (cell.error) errors.push(cell.error);
+      if (cell.value !== undefined) input[name] = cell.value;
+    });
+    return { entryType, row: line, input, errors };
+  });
+  return { rows, issues: [] };
+}
+
+function readJson(body: unknown, dataset?: KnowledgeDataset): { rows: ImportRow[]; issues: KnowledgeImportIssue[] } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return {
+      rows: [],
+      issues: [{ dataset: null, row: null, errors: ['Expected an object with interactions, contraindications, dosageGuidelines and/or allergyGroups lists'] }],
+    };
+  }
+
+  const rows: ImportRow[] = [];
+  const issues: KnowledgeImportIssue[] = [];
+  const datasets = dataset ? [dataset] : (Object.keys(KNOWLEDGE_DATASETS) as KnowledgeDataset[]);
+  for (const name of datasets) {
+    const entryType = KNOWLEDGE_DATASETS[name];
+    const list = (body as Record<string, unknown>)[SNAPSHOT_FIELDS[entryType]];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) {
+      issues.push({ dataset: name, row: null, errors: [`${SNAPSHOT_FIELDS[entryType]} must be a list`] });
+      continue;
+    }
+    list.forEach((item: unknown, index) => {
+      const isObject = typeof item === 'object' && item !== null && !Array.isArray(item);
+      rows.push({
+        entryType,
+        row: index + 1,
+        input: isObject ? item as Record<string, unknown> : {},
+        errors: isObject ? [] : ['Each entry must be an object'],
+      });
+    });
+  }
+  if (rows.length === 0 && issues.length === 0) {
+    issues.push({ dataset: dataset ?? null, row: null, errors: ['The file contains no entries'] });
+  }
+  return { rows, issues };
+}
+
+const datasetOf = (entryType: KnowledgeEntryType): KnowledgeDataset =>
+  (Object.keys(KNOWLEDGE_DATASETS) as KnowledgeDataset[]).find(name => KNOWLEDGE_DATASETS[name] === entryType)!;
+
+// Compared after normalization so field order and defaulted fields do not count as a change
+const sameEntry = (entryType: KnowledgeEntryType, a: KnowledgeEntry, b: KnowledgeEntry): boolean =>
+  JSON.stringify(normalizeKnowledgeEntry(entryType, a as unknown as Record<string, unknown>).entry)
+    === JSON.stringify(normalizeKnowledgeEntry(entryType, b as unknown as Record<string, unknown>).entry);
+
+/**
+ * Validate an upload against the current tables. Returns the report and, when
+ * every row is valid, the entries that are new or differ from the live ones.
+ * Rows identical to a live entry are counted as unchanged and left out.
+ */
+export function planKnowledgeImport(
+  format: KnowledgeTransferFormat,
+  body: unknown,
+  current: KnowledgeSnapshot,
+  dataset?: KnowledgeDataset,
+): { report: KnowledgeImportReport; changes: { entryType: KnowledgeEntryType; entry: KnowledgeEntry }[] } {
+  const { rows, issues } = format === 'csv'
+    ? readCsv(typeof body === 'string' ? body : '', dataset!)
+    : readJson(body, dataset);
+
+  const summary = { total: rows.length, inserts: 0, updates: 0, unchanged: 0, invalid: 0, duplicates: 0 };
+  const changes: { entryType: KnowledgeEntryType; entry: KnowledgeEntry }[] = [];
+  const seen = new Map<string, number>();
+  const liveByKey = new Map<string, KnowledgeEntry>();
+  for (const entryType of Object.values(KNOWLEDGE_DATASETS)) {
+    for (const entry of current[SNAPSHOT_FIELDS[entryType]] as KnowledgeEntry[]) {
+      liveByKey.set(`${entryType}:${knowledgeEntryKey(entryType, entry)}`, entry);
+    }
+  }
+
+  for (const row of rows) {
+    const { entry, errors } = normalizeKnowledgeEntry(row.entryType, row.input);
+    const rowErrors = [...row.errors, ...errors];
+    if (!entry || rowErrors.length > 0) {
+      summary.invalid++;
+      issues.push({ dataset: datasetOf(row.entryType), row: row.row, errors: rowErrors });
+      continue;
+    }
+
+    const key = `${row.entryType}:${knowledgeEntryKey(row.entryType, entry)}`;
+    const firstRow = seen.get(key);
+    if (firstRow !== undefined) {
+      summary.duplicates++;
+      issues.push({
+        dataset: datasetOf(row.entryType),
+        row: row.row,
+        errors: [`Duplicates row ${firstRow} (same ${DATASET_LABELS[row.entryType]})`],
+      });
+      continue;
+    }
+    seen.set(key, row.row);
+
+    const live = liveByKey.get(key);
+    if (!live) {
+      summary.inserts++;
+      changes.push({ entryType: row.entryType, entry });
+    } else if (sameEntry(row.entryType, live, entry)) {
+      summary.unchanged++;
+    } else {
+      summary.updates++;
+      changes.push({ entryType: row.entryType, entry });
+    }
+  }
+
+  const valid = issues.length === 0;
+  return {
+    report: { format, valid, summary, issues },
+    changes: valid ? changes : [],
+  };
+}
@@ -0,0 +1,142 @@
+import { Transaction } from 'sequelize';
+import { config } from '../config';
+import { LabResult as LabResultModel } from '../models';
+import { demoStorage } from './demo-storage.service';
+import { LAB_TESTS, findLabTest } from '@treatment-plan/clinical-knowledge';
+import { LabResult, LabResultRecord, RawLabResultInput } from '../types';
+
+/**
+ * Lab Results
+ *
+ * Structured laboratory values captured at intake or reported later. Results
+ * are kept as history; dosing and risk logic only look at the most recent
+ * value of each test, which is what `latestLabResults` selects.
+ */
+
+export interface NormalizedLabResults {
+  results: LabResult[];
+  errors: string[];
+}
+
+/**
+ * Validates raw lab input against the test catalog. Units must match the
+ * catalog unit because downstream formulas (Cockcroft-Gault, Child-Pugh)
+ * assume them; missing units and reference ranges are filled from it.
+ */
+export function normalizeLabResults(inputs: RawLabResultInput[] | undefined, now = new Date()): NormalizedLabResults {
+  const results: LabResult[] = [];
+  const errors: string[] = [];
+
+  (inputs ?? []).forEach((input, index) => {
+    const label = `labResults[${index}]`;
+    const test = typeof input?.testCode === 'string' ? findLabTest(input.testCode) : undefined;
+    if (!test) {
+      errors.push(`${label}: unknown test code "${input?.testCode ?? ''}"`);
+      return;
+    }
+
+    const value = typeof input.value === 'number' ? input.value : Number.parseFloat(input.value);
+    if (!Number.isFinite(value) || value < 0) {
+      errors.push(`${label}: ${test.name} value must be a non-negative number`);
+      return;
+    }
+
+    const unit = input.unit?.trim() || test.unit;
+    if (unit.toLowerCase() !== test.unit.toLowerCase()) {
+      errors.push(`${label}: ${test.name} must be reported in ${test.unit}`);
+      return;
+    }
+
+    const collectedAt = input.collectedAt ? new Date(input.collectedAt) : now;
+    if (Number.isNaN(collectedAt.getTime())) {
+      errors.push(`${label}: invalid collection date "${input.collectedAt}"`);
+      return;
+    }
+
+    results.push({
+      testCode: test.code,
+      value,
+      unit: test.unit,
+      referenceLow: input.referenceLow ?? test.referenceLow,
+      referenceHigh: input.referenceHigh ?? test.referenceHigh,
+      collectedAt: collectedAt.toISOString(),
+    });
+  });
+
+  return { results, errors };
+}
+
+/** The most recently collected result of each test, in catalog order. */
+export function latestLabResults(results: LabResult[]): LabResult[] {
+  const latest = new Map<string, LabResult>();
+  for (const result of results) {
+    const current = latest.get(result.testCode);
+    if (!current || new Date(result.collectedAt).getTime() > new Date(current.collectedAt).getTime()) {
+      latest.set(result.testCode, result);
+    }
+  }
+
+  return LAB_TESTS
+    .map(test => latest.get(test.code))
+    .filter((result): result is LabResult => result !== undefined)
+    .map(({ testCode, value, unit, referenceLow, referenceHigh, collectedAt }) => ({
+      testCode, value, unit, referenceLow, referenceHigh, collectedAt,
+    }));
+}
+
+function toRecord(result: LabResultModel): LabResultRecord {
+  const plain = result.get({ plain: true });
+  return {
+    id: plain.id,
+    patientId: plain.patientId,
+    testCode: plain.testCode,
+    value: plain.value,
+    unit: plain.unit,
+    referenceLow: plain.referenceLow,
+    referenceHigh: plain.referenceHigh,
+    collectedAt: new Date(plain.collectedAt).toISOString(),
+    createdAt: result.createdAt,
+  };
+}
+
+class LabResultService {
+  async record(patientId: string, results: LabResult[], transaction?: Transaction): Promise<LabResultRecord[]> {
+    if (config.demoMode) {
+      return results.map(result => demoStorage.addLabResult(patientId, result));
+    }
+
+    const records: LabResultRecord[] = [];
+    for (const result of results) {
+      const created = await LabResultModel.create({
+        patientId,
+        testCode: result.testCode,
+        value: result.value,
+        unit: result.unit,
+        referenceLow: result.referenceLow,
+        referenceHigh: result.referenceHigh,
+        collectedAt: new Date(result.collectedAt),
+      }, { transaction });
+      records.push(toRecord(created));
+    }
+    return records;
+  }
+
+  /** All results for a patient, most recently collected first. */
+  async list(patientId: string, transaction?: Transaction): Promise<LabResultRecord[]> {
+    if (config.demoMode) {
+      return demoStorage.getLabResults(patientId);
+    }
+    const results = await LabResultModel.findAll({
+      where: { patientId },
+      order: [['collectedAt', 'DESC']],
+      transaction,
+    });
+    return results.map(toRecord);
+  }
+
+  async latest(patientId: string, transaction?: Transaction): Promise<LabResult[]> {
+    return latestLabResults(await this.list(patientId, transaction));
+  }
+}
+
+export const labResultService = new LabResultService();
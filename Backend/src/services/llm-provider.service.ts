@@ -0,0 +1,239 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import OpenAI from 'openai';
+import { config } from '../config';
+import logger from '../config/logger';
+import { CompletePatientData, LlmProviderName } from '../types';
+
+/**
+ * LLM Providers
+ *
+ * Treatment analysis talks to a language model only through `LlmProvider`,
+ * so the hosted OpenAI API, a self-hosted OpenAI-compatible server and
+ * recorded fixtures are interchangeable. The provider is a deployment
+ * setting (LLM_PROVIDER) and every generated plan is stamped with the
+ * provider and model that actually produced it.
+ */
+
+export const LLM_PROVIDER_NAMES: ReadonlyArray<LlmProviderName | 'rule-based'> = [
+  'openai',
+  'openai-compatible',
+  'fixture',
+  'rule-based',
+];
+
+/**
+ * Raised when a provider cannot produce a completion. `retryable` is false
+ * for failures that repeating the call cannot fix, such as a missing fixture.
+ */
+export class LlmProviderError extends Error {
+  constructor(
+    readonly provider: LlmProviderName,
+    message: string,
+    readonly retryable = true,
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  systemPrompt: string;
+  userMessage: string;
+  // Further turns after the user message, e.g. a rejected answer and the correction request
+  followUp?: LlmMessage[];
+  // Stable identifier of the request, used to find recorded fixtures
+  fixtureKey: string;
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+interface LlmFixture {
+  key: string;
+  recordedAt: string;
+  provider: LlmProviderName;
+  model: string;
+  content: string;
+}
+
+export function isOpenAiKeyConfigured(): boolean {
+  const apiKey = config.openai.apiKey;
+  return Boolean(apiKey && apiKey !== 'your_openai_api_key_here' && apiKey.startsWith('sk-'));
+}
+
+// JSON with sorted keys, so logically equal cases hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Fixture key for a patient case. The generated patient id is left out so a
+ * recorded case replays no matter which id the intake assigned.
+ */
+export function fixtureKeyFor(patientData: CompletePatientData): string {
+  const caseData = {
+    ...patientData,
+    demographics: { ...patientData.demographics, patientId: undefined },
+  };
+  return createHash('sha256').update(stableStringify(caseData)).digest('hex').slice(0, 16);
+}
+
+function fixturePath(dir: string, key: string): string {
+  return path.join(dir, `${key}.json`);
+}
+
+/** OpenAI chat completions, hosted or through any OpenAI-compatible server */
+export class OpenAiChatProvider implements LlmProvider {
+  constructor(
+    readonly name: 'openai' | 'openai-compatible',
+    private readonly client: OpenAI,
+    readonly model: string,
+  ) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      max_tokens: config.openai.maxTokens,
+      temperature: config.openai.temperature,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userMessage },
+        ...(request.followUp ?? []),
+      ],
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new LlmProviderError(this.name, `No response content from ${this.name}`);
+    }
+    return { content, model: response.model || this.model };
+  }
+}
+
+/** Replays responses recorded by `RecordingProvider`; never touches the network */
+export class FixtureReplayProvider implements LlmProvider {
+  readonly name = 'fixture' as const;
+  readonly model = 'recorded';
+
+  constructor(private readonly dir: string) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(fixturePath(this.dir, request.fixtureKey), 'utf8');
+    } catch {
+      throw new LlmProviderError('fixture', `No recorded response for case ${request.fixtureKey} in ${this.dir}`, false);
+    }
+
+    let fixture: LlmFixture;
+    try {
+      fixture = JSON.parse(raw) as LlmFixture;
+    } catch {
+      // Replaying the same file cannot fix it
+      throw new LlmProviderError('fixture', `Recorded response for case ${request.fixtureKey} in ${this.dir} is not valid JSON`, false);
+    }
+    return { content: fixture.content, model: `${fixture.provider}:${fixture.model}` };
+  }
+}
+
+/** Saves every completion of the wrapped provider as a replayable fixture */
+export class RecordingProvider implements LlmProvider {
+  constructor(
+    private readonly inner: LlmProvider,
+    private readonly dir: string,
+  ) {}
+
+  get name(): LlmProviderName {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const completion = await this.inner.complete(request);
+    const fixture: LlmFixture = {
+      key: request.fixtureKey,
+      recordedAt: new Date().toISOString(),
+      provider: this.inner.name,
+      model: completion.model,
+      content: completion.content,
+    };
+
+    try {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(fixturePath(this.dir, request.fixtureKey), JSON.stringify(fixture, null, 2));
+    } catch (error) {
+      logger.warn('Failed to record LLM fixture', { key: request.fixtureKey, error: (error as Error).message });
+    }
+    return completion;
+  }
+}
+
+/**
+ * Provider named by LLM_PROVIDER, or null for the rule-based generator.
+ * Without an explicit setting OpenAI is used when a key is configured.
+ */
+export function createLlmProvider(settings: typeof config.llm = config.llm): LlmProvider | null {
+  const name = settings.provider || (isOpenAiKeyConfigured() ? 'openai' : 'rule-based');
+
+  let provider: LlmProvider;
+  switch (name) {
+    case 'openai':
+      if (!isOpenAiKeyConfigured()) {
+        logger.warn('LLM_PROVIDER is openai but OPENAI_API_KEY is not configured - using rule-based analysis');
+        return null;
+      }
+      provider = new OpenAiChatProvider('openai', new OpenAI({ apiKey: config.openai.apiKey }), config.openai.model);
+      break;
+    case 'openai-compatible':
+      if (!settings.baseUrl) {
+        logger.error('LLM_PROVIDER is openai-compatible but LLM_BASE_URL is not set - using rule-based analysis');
+        return null;
+      }
+      provider = new OpenAiChatProvider(
+        'openai-compatible',
+        // Local servers ignore the key, but the SDK refuses to start without one
+        new OpenAI({ apiKey: settings.apiKey || 'not-required', baseURL: settings.baseUrl }),
+        settings.model,
+      );
+      break;
+    case 'fixture':
+      return new FixtureReplayProvider(settings.fixtureDir);
+    case 'rule-based':
+      return null;
+    default:
+      logger.error(`Unknown LLM_PROVIDER "${name}" - using rule-based analysis`);
+      return null;
+  }
+
+  return settings.recordFixtures ? new RecordingProvider(provider, settings.fixtureDir) : provider;
+}
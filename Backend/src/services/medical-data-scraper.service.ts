@@ -8,12 +8,20 @@
  * - WHO ATC Classification: Drug therapeutic classification
  * 
  * All data sources are public, free, and do not require API keys.
- * Rate-limited to respect API usage policies.
+ * Rate-limited to respect API usage policies, and answers are cached per
+ * source (scraper-cache.service.ts).
+ *
+ * With DRUG_DATA_SOURCE=snapshot each service answers from the offline
+ * vocabulary snapshot instead (drug-vocabulary-snapshot.service.ts).
  */
 
 import https from 'node:https';
 import http from 'node:http';
+import { config } from '../config';
 import logger from '../config/logger';
+import { CircuitBreaker, CircuitBreakerStatus, CircuitOpenError, CircuitTimeoutError } from './circuit-breaker.service';
+import { DrugSnapshotStatus, DrugVocabularySnapshot, getDrugVocabularySnapshot } from './drug-vocabulary-snapshot.service';
+import { ScraperCache, ScraperCacheSource, ScraperCacheStats } from './scraper-cache.service';
 
 // ===================== TYPES =====================
 
@@ -56,6 +64,15 @@ export interface DrugAdverseEvent {
   outcome: string;
 }
 
+export interface DrugRecall {
+  recallNumber: string;
+  reason: string;
+  status: string;
+  classification: string;
+  recallingFirm: string;
+  reportDate: string;
+}
+
 export interface DailyMedDrugInfo {
   setId: string;
   title: string;
@@ -129,6 +146,20 @@ class RateLimiter {
 
 // ===================== HTTP HELPER =====================
 
+class HttpStatusError extends Error {
+  constructor(readonly status: number, url: string) {
+    super(`HTTP ${status}: ${url}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+class FetchTimeoutError extends Error {
+  constructor(url: string) {
+    super(`Timeout fetching ${url}`);
+    this.name = 'FetchTimeoutError';
+  }
+}
+
 function fetchJSON(url: string, timeoutMs = 15000): Promise<unknown> {
   return new Promise((resolve, reject) => {
     const protocol = url.startsWith('https') ? https : http;
@@ -142,7 +173,7 @@ function fetchJSON(url: string, timeoutMs = 15000): Promise<unknown> {
       }
 
       if (res.statusCode && (res.statusCode < 200 || res.statusCode >= 300)) {
-        reject(new Error(`HTTP ${res.statusCode}: ${url}`));
+        reject(new HttpStatusError(res.statusCode, url));
         return;
       }
 
@@ -159,236 +190,305 @@ function fetchJSON(url: string, timeoutMs = 15000): Promise<unknown> {
     req.on('error', reject);
     req.on('timeout', () => {
       req.destroy();
-      reject(new Error(`Timeout fetching ${url}`));
+      reject(new FetchTimeoutError(url));
     });
   });
 }
 
+// ===================== SOURCE HEALTH =====================
+
+export type DrugDataSource = 'openfda' | 'rxnorm' | 'dailymed';
+
+const limiters: Record<DrugDataSource, RateLimiter> = {
+  openfda: new RateLimiter(2, 500), // OpenFDA: max 240 req/min
+  rxnorm: new RateLimiter(3, 300), // RxNorm: 20 req/sec max
+  dailymed: new RateLimiter(2, 500),
+};
+
+// A failing API opens its breaker, so lookups skip it instead of waiting on every call
+export const drugSourceBreakers: Record<DrugDataSource, CircuitBreaker> = {
+  openfda: new CircuitBreaker('OpenFDA', config.drugData.circuitBreaker),
+  rxnorm: new CircuitBreaker('RxNorm', config.drugData.circuitBreaker),
+  dailymed: new CircuitBreaker('DailyMed', config.drugData.circuitBreaker),
+};
+
+export function getDrugSourceHealth(): Record<DrugDataSource, CircuitBreakerStatus> {
+  return {
+    openfda: drugSourceBreakers.openfda.status(),
+    rxnorm: drugSourceBreakers.rxnorm.status(),
+    dailymed: drugSourceBreakers.dailymed.status(),
+  };
+}
+
+interface RequestOptions {
+  // OpenFDA searches answer 404 when nothing matches: an empty result, not an outage
+  notFoundIsEmpty?: boolean;
+}
+
+// The breaker is checked before the rate limiter so refused calls never wait in its queue
+function requestJSON(
+  source: DrugDataSource,
+  url: string,
+  breaker: CircuitBreaker,
+  { notFoundIsEmpty = false }: RequestOptions = {},
+): Promise<unknown> {
+  if (!breaker.isAvailable()) return Promise.reject(breaker.refuse());
+  return limiters[source].execute(() => breaker.execute(timeoutMs => fetchJSON(url, timeoutMs).catch((error: unknown) => {
+    if (notFoundIsEmpty && error instanceof HttpStatusError && error.status === 404) return { results: [] };
+    if (error instanceof FetchTimeoutError) throw new CircuitTimeoutError(breaker.name, timeoutMs);
+    throw error;
+  })));
+}
+
+/**
+ * An open breaker or a timeout says nothing about the drug, so the services
+ * rethrow them instead of answering empty: the cache must not keep them and
+ * the lookup reports the source as skipped.
+ */
+function isSourceUnavailable(error: unknown): error is CircuitOpenError | CircuitTimeoutError {
+  return error instanceof CircuitOpenError || error instanceof CircuitTimeoutError;
+}
+
 // ===================== OPENFDA SERVICE =====================
 
-const openFDALimiter = new RateLimiter(2, 500); // OpenFDA: max 240 req/min
+function extractArrayField(result: Record<string, unknown>, field: string): string[] {
+  const value = result[field];
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string') return [value];
+  return [];
+}
+
+function extractStringField(result: Record<string, unknown>, field: string): string | undefined {
+  const value = result[field];
+  if (Array.isArray(value)) return value[0] as string;
+  if (typeof value === 'string') return value;
+  return undefined;
+}
+
+/** Map one OpenFDA enforcement (recall) record */
+export function parseOpenFDARecall(result: Record<string, unknown>): DrugRecall {
+  const text = (field: string) => (typeof result[field] === 'string' ? result[field] as string : '');
+  return {
+    recallNumber: text('recall_number'),
+    reason: text('reason_for_recall'),
+    status: text('status'),
+    classification: text('classification'),
+    recallingFirm: text('recalling_firm'),
+    reportDate: text('report_date'),
+  };
+}
+
+/** Map one OpenFDA label record (API response or bulk download) to our label shape */
+export function parseOpenFDALabel(result: Record<string, unknown>): OpenFDADrugLabel {
+  const openfda = (result.openfda || {}) as Record<string, string[]>;
+
+  return {
+    brandName: openfda.brand_name?.[0] || '',
+    genericName: openfda.generic_name?.[0] || '',
+    manufacturer: openfda.manufacturer_name?.[0] || '',
+    route: openfda.route || [],
+    dosageForm: openfda.dosage_form?.[0] || '',
+    activeIngredients: openfda.substance_name || [],
+    warnings: extractArrayField(result, 'warnings'),
+    contraindications: extractArrayField(result, 'contraindications'),
+    drugInteractions: extractArrayField(result, 'drug_interactions'),
+    adverseReactions: extractArrayField(result, 'adverse_reactions'),
+    boxedWarning: extractStringField(result, 'boxed_warning'),
+    pregnancyCategory: openfda.pregnancy_category?.[0],
+    indicationsAndUsage: extractArrayField(result, 'indications_and_usage'),
+  };
+}
 
 export class OpenFDAService {
-  private readonly baseUrl = 'https://api.fda.gov';
+  // snapshot is set in snapshot mode: lookups are answered offline and never reach the API
+  constructor(
+    private readonly snapshot: DrugVocabularySnapshot | null = getDrugVocabularySnapshot(),
+    private readonly breakers: Record<DrugDataSource, CircuitBreaker> = drugSourceBreakers,
+    private readonly baseUrl = 'https://api.fda.gov',
+  ) {}
 
   /**
    * Search for drug labels by name
    */
   async searchDrugLabels(drugName: string, limit = 5): Promise<OpenFDADrugLabel[]> {
-    return openFDALimiter.execute(async () => {
-      const encodedName = encodeURIComponent(drugName);
-      const url = `${this.baseUrl}/drug/label.json?search=openfda.generic_name:"${encodedName}"+openfda.brand_name:"${encodedName}"&limit=${limit}`;
+    if (this.snapshot) return this.snapshot.searchDrugLabels(drugName, limit);
 
-      try {
-        const response = await fetchJSON(url) as { results?: Array<Record<string, unknown>> };
-        if (!response.results) return [];
+    const encodedName = encodeURIComponent(drugName);
+    const url = `${this.baseUrl}/drug/label.json?search=openfda.generic_name:"${encodedName}"+openfda.brand_name:"${encodedName}"&limit=${limit}`;
 
-        return response.results.map((result: Record<string, unknown>) => this.parseDrugLabel(result));
-      } catch (error) {
-        logger.warn('OpenFDA label search failed', { drugName, error: (error as Error).message });
-        return [];
-      }
-    });
+    try {
+      const response = await requestJSON('openfda', url, this.breakers.openfda, { notFoundIsEmpty: true }) as { results?: Array<Record<string, unknown>> };
+      if (!response.results) return [];
+
+      return response.results.map((result: Record<string, unknown>) => parseOpenFDALabel(result));
+    } catch (error) {
+      if (isSourceUnavailable(error)) throw error;
+      logger.warn('OpenFDA label search failed', { drugName, error: (error as Error).message });
+      return [];
+    }
   }
 
   /**
    * Get adverse event reports for a drug
    */
   async getAdverseEvents(drugName: string, limit = 20): Promise<DrugAdverseEvent[]> {
-    return openFDALimiter.execute(async () => {
-      const encodedName = encodeURIComponent(drugName);
-      const url = `${this.baseUrl}/drug/event.json?search=patient.drug.medicinalproduct:"${encodedName}"&count=patient.reaction.reactionmeddrapt.exact&limit=${limit}`;
+    // Adverse event counts are not part of the snapshot
+    if (this.snapshot) return [];
 
-      try {
-        const response = await fetchJSON(url) as { results?: Array<{ term: string; count: number }> };
-        if (!response.results) return [];
-
-        return response.results.map(r => ({
-          drugName,
-          reactionName: r.term,
-          count: r.count,
-          serious: false,
-          outcome: 'reported',
-        }));
-      } catch (error) {
-        logger.warn('OpenFDA adverse events failed', { drugName, error: (error as Error).message });
-        return [];
-      }
-    });
+    const encodedName = encodeURIComponent(drugName);
+    const url = `${this.baseUrl}/drug/event.json?search=patient.drug.medicinalproduct:"${encodedName}"&count=patient.reaction.reactionmeddrapt.exact&limit=${limit}`;
+
+    try {
+      const response = await requestJSON('openfda', url, this.breakers.openfda, { notFoundIsEmpty: true }) as { results?: Array<{ term: string; count: number }> };
+      if (!response.results) return [];
+
+      return response.results.map(r => ({
+        drugName,
+        reactionName: r.term,
+        count: r.count,
+        serious: false,
+        outcome: 'reported',
+      }));
+    } catch (error) {
+      if (isSourceUnavailable(error)) throw error;
+      logger.warn('OpenFDA adverse events failed', { drugName, error: (error as Error).message });
+      return [];
+    }
   }
 
   /**
    * Get drug recall information
    */
-  async getDrugRecalls(drugName: string, limit = 5): Promise<Array<{
-    recallNumber: string;
-    reason: string;
-    status: string;
-    classification: string;
-    recallingFirm: string;
-    reportDate: string;
-  }>> {
-    return openFDALimiter.execute(async () => {
-      const encodedName = encodeURIComponent(drugName);
-      const url = `${this.baseUrl}/drug/enforcement.json?search=openfda.generic_name:"${encodedName}"&limit=${limit}`;
-
-      try {
-        const response = await fetchJSON(url) as { results?: Array<Record<string, string>> };
-        if (!response.results) return [];
-
-        return response.results.map(r => ({
-          recallNumber: r.recall_number || '',
-          reason: r.reason_for_recall || '',
-          status: r.status || '',
-          classification: r.classification || '',
-          recallingFirm: r.recalling_firm || '',
-          reportDate: r.report_date || '',
-        }));
-      } catch (error) {
-        logger.warn('OpenFDA recalls failed', { drugName, error: (error as Error).message });
-        return [];
-      }
-    });
-  }
+  async getDrugRecalls(drugName: string, limit = 5): Promise<DrugRecall[]> {
+    if (this.snapshot) return this.snapshot.getDrugRecalls(drugName, limit);
 
-  private parseDrugLabel(result: Record<string, unknown>): OpenFDADrugLabel {
-    const openfda = (result.openfda || {}) as Record<string, string[]>;
-
-    return {
-      brandName: openfda.brand_name?.[0] || '',
-      genericName: openfda.generic_name?.[0] || '',
-      manufacturer: openfda.manufacturer_name?.[0] || '',
-      route: openfda.route || [],
-      dosageForm: openfda.dosage_form?.[0] || '',
-      activeIngredients: openfda.substance_name || [],
-      warnings: this.extractArrayField(result, 'warnings'),
-      contraindications: this.extractArrayField(result, 'contraindications'),
-      drugInteractions: this.extractArrayField(result, 'drug_interactions'),
-      adverseReactions: this.extractArrayField(result, 'adverse_reactions'),
-      boxedWarning: this.extractStringField(result, 'boxed_warning'),
-      pregnancyCategory: openfda.pregnancy_category?.[0],
-      indicationsAndUsage: this.extractArrayField(result, 'indications_and_usage'),
-    };
-  }
+    const encodedName = encodeURIComponent(drugName);
+    const url = `${this.baseUrl}/drug/enforcement.json?search=openfda.generic_name:"${encodedName}"&limit=${limit}`;
 
-  private extractArrayField(result: Record<string, unknown>, field: string): string[] {
-    const value = result[field];
-    if (Array.isArray(value)) return value.map(String);
-    if (typeof value === 'string') return [value];
-    return [];
-  }
-
-  private extractStringField(result: Record<string, unknown>, field: string): string | undefined {
-    const value = result[field];
-    if (Array.isArray(value)) return value[0] as string;
-    if (typeof value === 'string') return value;
-    return undefined;
+    try {
+      const response = await requestJSON('openfda', url, this.breakers.openfda, { notFoundIsEmpty: true }) as { results?: Array<Record<string, string>> };
+      if (!response.results) return [];
+
+      return response.results.map(parseOpenFDARecall);
+    } catch (error) {
+      if (isSourceUnavailable(error)) throw error;
+      logger.warn('OpenFDA recalls failed', { drugName, error: (error as Error).message });
+      return [];
+    }
   }
 }
 
 // ===================== RXNORM SERVICE =====================
 
-const rxNormLimiter = new RateLimiter(3, 300); // RxNorm: 20 req/sec max
-
 export class RxNormService {
-  private readonly baseUrl = 'https://rxnav.nlm.nih.gov/REST';
-  private readonly interactionUrl = 'https://rxnav.nlm.nih.gov/REST/interaction';
+  private readonly interactionUrl: string;
+
+  constructor(
+    private readonly snapshot: DrugVocabularySnapshot | null = getDrugVocabularySnapshot(),
+    private readonly breakers: Record<DrugDataSource, CircuitBreaker> = drugSourceBreakers,
+    private readonly baseUrl = 'https://rxnav.nlm.nih.gov/REST',
+  ) {
+    this.interactionUrl = `${baseUrl}/interaction`;
+  }
 
   /**
    * Search for a drug by name and get its RxCUI 
    */
   async findDrugByName(drugName: string): Promise<RxNormDrug[]> {
-    return rxNormLimiter.execute(async () => {
-      const encodedName = encodeURIComponent(drugName);
-      const url = `${this.baseUrl}/drugs.json?name=${encodedName}`;
+    if (this.snapshot) return this.snapshot.findDrugByName(drugName);
 
-      try {
-        const response = await fetchJSON(url) as { drugGroup?: { conceptGroup?: Array<{ conceptProperties?: Array<{ rxcui: string; name: string; synonym: string; tty: string }> }> } };
-        const groups = response.drugGroup?.conceptGroup || [];
-        const drugs: RxNormDrug[] = [];
-
-        for (const group of groups) {
-          if (group.conceptProperties) {
-            for (const prop of group.conceptProperties) {
-              drugs.push({
-                rxcui: prop.rxcui,
-                name: prop.name,
-                synonym: prop.synonym ? [prop.synonym] : [],
-                tty: prop.tty,
-              });
-            }
+    const encodedName = encodeURIComponent(drugName);
+    const url = `${this.baseUrl}/drugs.json?name=${encodedName}`;
+
+    try {
+      const response = await requestJSON('rxnorm', url, this.breakers.rxnorm) as { drugGroup?: { conceptGroup?: Array<{ conceptProperties?: Array<{ rxcui: string; name: string; synonym: string; tty: string }> }> } };
+      const groups = response.drugGroup?.conceptGroup || [];
+      const drugs: RxNormDrug[] = [];
+
+      for (const group of groups) {
+        if (group.conceptProperties) {
+          for (const prop of group.conceptProperties) {
+            drugs.push({
+              rxcui: prop.rxcui,
+              name: prop.name,
+              synonym: prop.synonym ? [prop.synonym] : [],
+              tty: prop.tty,
+            });
           }
         }
-
-        return drugs;
-      } catch (error) {
-        logger.warn('RxNorm search failed', { drugName, error: (error as Error).message });
-        return [];
       }
-    });
+
+      return drugs;
+    } catch (error) {
+      if (isSourceUnavailable(error)) throw error;
+      logger.warn('RxNorm search failed', { drugName, error: (error as Error).message });
+      return [];
+    }
   }
 
   /**
    * Get RxCUI for a drug name (returns first match)
    */
   async getRxCUI(drugName: string): Promise<string | null> {
-    return rxNormLimiter.execute(async () => {
-      const encodedName = encodeURIComponent(drugName);
-      const url = `${this.baseUrl}/rxcui.json?name=${encodedName}&search=1`;
+    if (this.snapshot) return this.snapshot.getRxCUI(drugName);
 
-      try {
-        const response = await fetchJSON(url) as { idGroup?: { rxnormId?: string[] } };
-        const ids = response.idGroup?.rxnormId;
-        return ids && ids.length > 0 ? ids[0] : null;
-      } catch (error) {
-        logger.warn('RxNorm RxCUI lookup failed', { drugName, error: (error as Error).message });
-        return null;
-      }
-    });
+    const encodedName = encodeURIComponent(drugName);
+    const url = `${this.baseUrl}/rxcui.json?name=${encodedName}&search=1`;
+
+    try {
+      const response = await requestJSON('rxnorm', url, this.breakers.rxnorm) as { idGroup?: { rxnormId?: string[] } };
+      const ids = response.idGroup?.rxnormId;
+      return ids && ids.length > 0 ? ids[0] : null;
+    } catch (error) {
+      if (isSourceUnavailable(error)) throw error;
+      logger.warn('RxNorm RxCUI lookup failed', { drugName, error: (error as Error).message });
+      return null;
+    }
   }
 
   /**
    * Check drug-drug interactions by RxCUI
    */
   async checkInteractions(rxcui: string): Promise<RxNormInteraction[]> {
-    return rxNormLimiter.execute(async () => {
-      const url = `${this.interactionUrl}/interaction.json?rxcui=${rxcui}&sources=DrugBank`;
+    if (this.snapshot) return this.snapshot.checkInteractions(rxcui);
 
-      try {
-        const response = await fetchJSON(url) as { interactionTypeGroup?: Array<{ interactionType?: Array<{ interactionPair?: Array<{ interactionConcept: Array<{ minConceptItem: { rxcui: string; name: string } }>; severity: string; description: string }> }> }> };
-        const interactions: RxNormInteraction[] = [];
-
-        const groups = response.interactionTypeGroup || [];
-        for (const group of groups) {
-          const types = group.interactionType || [];
-          for (const type of types) {
-            const pairs = type.interactionPair || [];
-            for (const pair of pairs) {
-              if (pair.interactionConcept?.length >= 2) {
-                interactions.push({
-                  drug1: {
-                    rxcui: pair.interactionConcept[0].minConceptItem.rxcui,
-                    name: pair.interactionConcept[0].minConceptItem.name,
-                  },
-                  drug2: {
-                    rxcui: pair.interactionConcept[1].minConceptItem.rxcui,
-                    name: pair.interactionConcept[1].minConceptItem.name,
-                  },
-                  severity: pair.severity || 'unknown',
-                  description: pair.description || '',
-                  source: 'DrugBank via RxNorm',
-                });
-              }
+    const url = `${this.interactionUrl}/interaction.json?rxcui=${rxcui}&sources=DrugBank`;
+
+    try {
+      const response = await requestJSON('rxnorm', url, this.breakers.rxnorm) as { interactionTypeGroup?: Array<{ interactionType?: Array<{ interactionPair?: Array<{ interactionConcept: Array<{ minConceptItem: { rxcui: string; name: string } }>; severity: string; description: string }> }> }> };
+      const interactions: RxNormInteraction[] = [];
+
+      const groups = response.interactionTypeGroup || [];
+      for (const group of groups) {
+        const types = group.interactionType || [];
+        for (const type of types) {
+          const pairs = type.interactionPair || [];
+          for (const pair of pairs) {
+            if (pair.interactionConcept?.length >= 2) {
+              interactions.push({
+                drug1: {
+                  rxcui: pair.interactionConcept[0].minConceptItem.rxcui,
+                  name: pair.interactionConcept[0].minConceptItem.name,
+                },
+                drug2: {
+                  rxcui: pair.interactionConcept[1].minConceptItem.rxcui,
+                  name: pair.interactionConcept[1].minConceptItem.name,
+                },
+                severity: pair.severity || 'unknown',
+                description: pair.description || '',
+                source: 'DrugBank via RxNorm',
+              });
             }
           }
         }
-
-        return interactions;
-      } catch (error) {
-        logger.warn('RxNorm interaction check failed', { rxcui, error: (error as Error).message });
-        return [];
       }
-    });
+
+      return interactions;
+    } catch (error) {
+      if (isSourceUnavailable(error)) throw error;
+      logger.warn('RxNorm interaction check failed', { rxcui, error: (error as Error).message });
+      return [];
+    }
   }
 
   /**
@@ -396,158 +496,164 @@ export class RxNormService {
    */
   async checkMultiDrugInteractions(rxcuis: string[]): Promise<RxNormInteraction[]> {
     if (rxcuis.length < 2) return [];
+    if (this.snapshot) return this.snapshot.checkMultiDrugInteractions(rxcuis);
 
-    return rxNormLimiter.execute(async () => {
-      const url = `${this.interactionUrl}/list.json?rxcuis=${rxcuis.join('+')}`;
+    const url = `${this.interactionUrl}/list.json?rxcuis=${rxcuis.join('+')}`;
 
-      try {
-        const response = await fetchJSON(url) as { fullInteractionTypeGroup?: Array<{ fullInteractionType?: Array<{ interactionPair?: Array<{ interactionConcept: Array<{ minConceptItem: { rxcui: string; name: string } }>; severity: string; description: string }> }> }> };
-        const interactions: RxNormInteraction[] = [];
-
-        const groups = response.fullInteractionTypeGroup || [];
-        for (const group of groups) {
-          const types = group.fullInteractionType || [];
-          for (const type of types) {
-            const pairs = type.interactionPair || [];
-            for (const pair of pairs) {
-              if (pair.interactionConcept?.length >= 2) {
-                interactions.push({
-                  drug1: {
-                    rxcui: pair.interactionConcept[0].minConceptItem.rxcui,
-                    name: pair.interactionConcept[0].minConceptItem.name,
-                  },
-                  drug2: {
-                    rxcui: pair.interactionConcept[1].minConceptItem.rxcui,
-                    name: pair.interactionConcept[1].minConceptItem.name,
-                  },
-                  severity: pair.severity || 'unknown',
-                  description: pair.description || '',
-                  source: 'RxNorm Interactions API',
-                });
-              }
+    try {
+      const response = await requestJSON('rxnorm', url, this.breakers.rxnorm) as { fullInteractionTypeGroup?: Array<{ fullInteractionType?: Array<{ interactionPair?: Array<{ interactionConcept: Array<{ minConceptItem: { rxcui: string; name: string } }>; severity: string; description: string }> }> }> };
+      const interactions: RxNormInteraction[] = [];
+
+      const groups = response.fullInteractionTypeGroup || [];
+      for (const group of groups) {
+        const types = group.fullInteractionType || [];
+        for (const type of types) {
+          const pairs = type.interactionPair || [];
+          for (const pair of pairs) {
+            if (pair.interactionConcept?.length >= 2) {
+              interactions.push({
+                drug1: {
+                  rxcui: pair.interactionConcept[0].minConceptItem.rxcui,
+                  name: pair.interactionConcept[0].minConceptItem.name,
+                },
+                drug2: {
+                  rxcui: pair.interactionConcept[1].minConceptItem.rxcui,
+                  name: pair.interactionConcept[1].minConceptItem.name,
+                },
+                severity: pair.severity || 'unknown',
+                description: pair.description || '',
+                source: 'RxNorm Interactions API',
+              });
             }
           }
         }
-
-        return interactions;
-      } catch (error) {
-        logger.warn('RxNorm multi-drug interaction check failed', { error: (error as Error).message });
-        return [];
       }
-    });
+
+      return interactions;
+    } catch (error) {
+      if (isSourceUnavailable(error)) throw error;
+      logger.warn('RxNorm multi-drug interaction check failed', { error: (error as Error).message });
+      return [];
+    }
   }
 
   /**
    * Get drug class information
    */
   async getDrugClasses(rxcui: string): Promise<Array<{ className: string; classId: string; classType: string }>> {
-    return rxNormLimiter.execute(async () => {
-      const url = `${this.baseUrl}/rxclass/class/byRxcui.json?rxcui=${rxcui}`;
+    if (this.snapshot) return this.snapshot.getDrugClasses(rxcui);
 
-      try {
-        const response = await fetchJSON(url) as { rxclassDrugInfoList?: { rxclassDrugInfo?: Array<{ rxclassMinConceptItem: { className: string; classId: string; classType: string } }> } };
-        const infos = response.rxclassDrugInfoList?.rxclassDrugInfo || [];
-
-        return infos.map(info => ({
-          className: info.rxclassMinConceptItem.className,
-          classId: info.rxclassMinConceptItem.classId,
-          classType: info.rxclassMinConceptItem.classType,
-        }));
-      } catch (error) {
-        logger.warn('RxNorm drug class lookup failed', { rxcui, error: (error as Error).message });
-        return [];
-      }
-    });
+    const url = `${this.baseUrl}/rxclass/class/byRxcui.json?rxcui=${rxcui}`;
+
+    try {
+      const response = await requestJSON('rxnorm', url, this.breakers.rxnorm) as { rxclassDrugInfoList?: { rxclassDrugInfo?: Array<{ rxclassMinConceptItem: { className: string; classId: string; classType: string } }> } };
+      const infos = response.rxclassDrugInfoList?.rxclassDrugInfo || [];
+
+      return infos.map(info => ({
+        className: info.rxclassMinConceptItem.className,
+        classId: info.rxclassMinConceptItem.classId,
+        classType: info.rxclassMinConceptItem.classType,
+      }));
+    } catch (error) {
+      if (isSourceUnavailable(error)) throw error;
+      logger.warn('RxNorm drug class lookup failed', { rxcui, error: (error as Error).message });
+      return [];
+    }
   }
 
   /**
    * Get related drugs (same ingredient, different forms/strengths)
    */
   async getRelatedDrugs(rxcui: string): Promise<RxNormDrug[]> {
-    return rxNormLimiter.execute(async () => {
-      const url = `${this.baseUrl}/rxcui/${rxcui}/related.json?tty=SBD+SCD`;
+    if (this.snapshot) return this.snapshot.getRelatedDrugs(rxcui);
 
-      try {
-        const response = await fetchJSON(url) as { relatedGroup?: { conceptGroup?: Array<{ conceptProperties?: Array<{ rxcui: string; name: string; synonym: string; tty: string }> }> } };
-        const groups = response.relatedGroup?.conceptGroup || [];
-        const drugs: RxNormDrug[] = [];
-
-        for (const group of groups) {
-          if (group.conceptProperties) {
-            for (const prop of group.conceptProperties) {
-              drugs.push({
-                rxcui: prop.rxcui,
-                name: prop.name,
-                synonym: prop.synonym ? [prop.synonym] : [],
-                tty: prop.tty,
-              });
-            }
+    const url = `${this.baseUrl}/rxcui/${rxcui}/related.json?tty=SBD+SCD`;
+
+    try {
+      const response = await requestJSON('rxnorm', url, this.breakers.rxnorm) as { relatedGroup?: { conceptGroup?: Array<{ conceptProperties?: Array<{ rxcui: string; name: string; synonym: string; tty: string }> }> } };
+      const groups = response.relatedGroup?.conceptGroup || [];
+      const drugs: RxNormDrug[] = [];
+
+      for (const group of groups) {
+        if (group.conceptProperties) {
+          for (const prop of group.conceptProperties) {
+            drugs.push({
+              rxcui: prop.rxcui,
+              name: prop.name,
+              synonym: prop.synonym ? [prop.synonym] : [],
+              tty: prop.tty,
+            });
           }
         }
-
-        return drugs;
-      } catch (error) {
-        logger.warn('RxNorm related drugs failed', { rxcui, error: (error as Error).message });
-        return [];
       }
-    });
+
+      return drugs;
+    } catch (error) {
+      if (isSourceUnavailable(error)) throw error;
+      logger.warn('RxNorm related drugs failed', { rxcui, error: (error as Error).message });
+      return [];
+    }
   }
 }
 
 // ===================== DAILYMED SERVICE =====================
 
-const dailyMedLimiter = new RateLimiter(2, 500);
-
 export class DailyMedService {
-  private readonly baseUrl = 'https://dailymed.nlm.nih.gov/dailymed/services/v2';
+  constructor(
+    private readonly snapshot: DrugVocabularySnapshot | null = getDrugVocabularySnapshot(),
+    private readonly breakers: Record<DrugDataSource, CircuitBreaker> = drugSourceBreakers,
+    private readonly baseUrl = 'https://dailymed.nlm.nih.gov/dailymed/services/v2',
+  ) {}
 
   /**
    * Search for drug information by name
    */
   async searchDrug(drugName: string, limit = 5): Promise<Array<{ setId: string; title: string; publishedDate: string }>> {
-    return dailyMedLimiter.execute(async () => {
-      const encodedName = encodeURIComponent(drugName);
-      const url = `${this.baseUrl}/spls.json?drug_name=${encodedName}&page=1&pagesize=${limit}`;
+    if (this.snapshot) return this.snapshot.searchDailyMed(drugName, limit);
 
-      try {
-        const response = await fetchJSON(url) as { data?: Array<{ setid: string; title: string; published_date: string }> };
-        if (!response.data) return [];
-
-        return response.data.map(d => ({
-          setId: d.setid,
-          title: d.title,
-          publishedDate: d.published_date,
-        }));
-      } catch (error) {
-        logger.warn('DailyMed search failed', { drugName, error: (error as Error).message });
-        return [];
-      }
-    });
+    const encodedName = encodeURIComponent(drugName);
+    const url = `${this.baseUrl}/spls.json?drug_name=${encodedName}&page=1&pagesize=${limit}`;
+
+    try {
+      const response = await requestJSON('dailymed', url, this.breakers.dailymed) as { data?: Array<{ setid: string; title: string; published_date: string }> };
+      if (!response.data) return [];
+
+      return response.data.map(d => ({
+        setId: d.setid,
+        title: d.title,
+        publishedDate: d.published_date,
+      }));
+    } catch (error) {
+      if (isSourceUnavailable(error)) throw error;
+      logger.warn('DailyMed search failed', { drugName, error: (error as Error).message });
+      return [];
+    }
   }
 
   /**
    * Get detailed drug label by setId 
    */
   async getDrugLabel(setId: string): Promise<DailyMedDrugInfo | null> {
-    return dailyMedLimiter.execute(async () => {
-      const url = `${this.baseUrl}/spls/${setId}.json`;
+    if (this.snapshot) return this.snapshot.getDailyMedLabel(setId);
 
-      try {
-        const response = await fetchJSON(url) as { data?: { setid: string; title: string; spl_version: number; published_date: string } };
-        if (!response.data) return null;
-
-        return {
-          setId: response.data.setid,
-          title: response.data.title,
-          splVersion: response.data.spl_version,
-          publishedDate: response.data.published_date,
-          sections: [],
-        };
-      } catch (error) {
-        logger.warn('DailyMed label failed', { setId, error: (error as Error).message });
-        return null;
-      }
-    });
+    const url = `${this.baseUrl}/spls/${setId}.json`;
+
+    try {
+      const response = await requestJSON('dailymed', url, this.breakers.dailymed) as { data?: { setid: string; title: string; spl_version: number; published_date: string } };
+      if (!response.data) return null;
+
+      return {
+        setId: response.data.setid,
+        title: response.data.title,
+        splVersion: response.data.spl_version,
+        publishedDate: response.data.published_date,
+        sections: [],
+      };
+    } catch (error) {
+      if (isSourceUnavailable(error)) throw error;
+      logger.warn('DailyMed label failed', { setId, error: (error as Error).message });
+      return null;
+    }
   }
 }
 
@@ -563,14 +669,60 @@ export interface DrugLookupResult {
   dailyMedInfo: { setId: string; title: string; publishedDate: string } | null;
   scrapedAt: Date;
   sources: string[];
+  // APIs left out of this lookup because their circuit breaker was open or they timed out
+  skippedSources: string[];
 }
 
+const CACHE_SOURCE_API: Record<ScraperCacheSource, DrugDataSource> = {
+  rxnorm: 'rxnorm',
+  openfdaLabels: 'openfda',
+  openfdaEvents: 'openfda',
+  dailymed: 'dailymed',
+};
+
 export class MedicalDataScraper {
-  private readonly openFDA = new OpenFDAService();
-  private readonly rxNorm = new RxNormService();
-  private readonly dailyMed = new DailyMedService();
-  private readonly cache = new Map<string, { data: DrugLookupResult; timestamp: number }>();
-  private readonly cacheTTL = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly openFDA: OpenFDAService;
+  private readonly rxNorm: RxNormService;
+  private readonly dailyMed: DailyMedService;
+  private readonly cache: ScraperCache;
+
+  constructor(
+    private readonly snapshot: DrugVocabularySnapshot | null = getDrugVocabularySnapshot(),
+    cache?: ScraperCache,
+    private readonly breakers: Record<DrugDataSource, CircuitBreaker> = drugSourceBreakers,
+  ) {
+    this.openFDA = new OpenFDAService(snapshot, breakers);
+    this.rxNorm = new RxNormService(snapshot, breakers);
+    this.dailyMed = new DailyMedService(snapshot, breakers);
+    this.cache = cache ?? new ScraperCache();
+  }
+
+  // Snapshot answers are already local, so only live API calls go through the cache.
+  // A cached answer is still served while its API's breaker is open; a miss fails with CircuitOpenError,
+  // and a call that times out fails with CircuitTimeoutError. Neither is cached.
+  private cached<T>(source: ScraperCacheSource, key: string, fetch: () => Promise<T>, useCache: boolean): Promise<T> {
+    if (this.snapshot) return fetch();
+
+    const breaker = this.breakers[CACHE_SOURCE_API[source]];
+    const guarded = () => (breaker.isAvailable() ? fetch() : Promise.reject(breaker.refuse()));
+    return this.cache.getOrFetch(source, key, guarded, useCache);
+  }
+
+  private resolveRxCUI(drugName: string, useCache = true): Promise<string | null> {
+    return this.cached('rxnorm', `rxcui:${drugName.toLowerCase().trim()}`, () => this.rxNorm.getRxCUI(drugName), useCache);
+  }
+
+  // Results from the snapshot are labelled as such so the clinical context does not present them as live
+  private sourceName(name: string): string {
+    return this.snapshot ? `${name} (offline snapshot)` : name;
+  }
+
+  /** Where drug reference data comes from, with the snapshot's state in snapshot mode */
+  getDataSourceStatus(): { source: 'live' | 'snapshot'; snapshot: DrugSnapshotStatus | null } {
+    return this.snapshot
+      ? { source: 'snapshot', snapshot: this.snapshot.status() }
+      : { source: 'live', snapshot: null };
+  }
 
   /**
    * Comprehensive drug lookup across all data sources
@@ -578,15 +730,11 @@ export class MedicalDataScraper {
   async lookupDrug(drugName: string, useCache = true): Promise<DrugLookupResult> {
     const cacheKey = drugName.toLowerCase().trim();
 
-    // Check cache
-    if (useCache) {
-      const cached = this.cache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
-        return cached.data;
-      }
-    }
-
     const sources: string[] = [];
+    const skipped = new Set<string>();
+    const noteSkipped = (error: unknown) => {
+      if (isSourceUnavailable(error)) skipped.add(error.source);
+    };
     const result: DrugLookupResult = {
       drugName,
       rxcui: null,
@@ -597,56 +745,58 @@ export class MedicalDataScraper {
       dailyMedInfo: null,
       scrapedAt: new Date(),
       sources: [],
+      skippedSources: [],
     };
 
     // Step 1: Get RxCUI (needed for interaction checking)
     try {
-      result.rxcui = await this.rxNorm.getRxCUI(drugName);
-      if (result.rxcui) sources.push('RxNorm');
-    } catch { /* continue without RxCUI */ }
+      result.rxcui = await this.resolveRxCUI(drugName, useCache);
+      if (result.rxcui) sources.push(this.sourceName('RxNorm'));
+    } catch (error) {
+      noteSkipped(error); // continue without RxCUI
+    }
 
     // Step 2: Parallel fetch from all sources
     const promises: Promise<void>[] = [];
 
     // OpenFDA label + adverse events + DailyMed
     promises.push(
-      this.openFDA.searchDrugLabels(drugName, 1).then(labels => {
+      this.cached('openfdaLabels', `labels:${cacheKey}`, () => this.openFDA.searchDrugLabels(drugName, 1), useCache).then(labels => {
         if (labels.length > 0) {
           result.fdaLabel = labels[0];
-          sources.push('OpenFDA');
+          sources.push(this.sourceName('OpenFDA'));
         }
-      }).catch(() => { /* non-fatal */ }),
-      this.openFDA.getAdverseEvents(drugName, 10).then(events => {
+      }).catch(noteSkipped),
+      this.cached('openfdaEvents', `events:${cacheKey}`, () => this.openFDA.getAdverseEvents(drugName, 10), useCache).then(events => {
         result.adverseEvents = events;
-        if (events.length > 0) sources.push('OpenFDA Adverse Events');
-      }).catch(() => { /* non-fatal */ }),
-      this.dailyMed.searchDrug(drugName, 1).then(results => {
+        if (events.length > 0) sources.push(this.sourceName('OpenFDA Adverse Events'));
+      }).catch(noteSkipped),
+      this.cached('dailymed', `search:${cacheKey}`, () => this.dailyMed.searchDrug(drugName, 1), useCache).then(results => {
         if (results.length > 0) {
           result.dailyMedInfo = results[0];
-          sources.push('DailyMed');
+          sources.push(this.sourceName('DailyMed'));
         }
-      }).catch(() => { /* non-fatal */ })
+      }).catch(noteSkipped)
     );
 
     // RxNorm interactions (if RxCUI available)
-    if (result.rxcui) {
+    const rxcui = result.rxcui;
+    if (rxcui) {
       promises.push(
-        this.rxNorm.checkInteractions(result.rxcui).then(interactions => {
+        this.cached('rxnorm', `interactions:${rxcui}`, () => this.rxNorm.checkInteractions(rxcui), useCache).then(interactions => {
           result.interactions = interactions;
-          if (interactions.length > 0) sources.push('RxNorm Interactions');
-        }).catch(() => { /* non-fatal */ }),
-        this.rxNorm.getDrugClasses(result.rxcui).then(classes => {
+          if (interactions.length > 0) sources.push(this.sourceName('RxNorm Interactions'));
+        }).catch(noteSkipped),
+        this.cached('rxnorm', `classes:${rxcui}`, () => this.rxNorm.getDrugClasses(rxcui), useCache).then(classes => {
           result.drugClasses = classes;
-          if (classes.length > 0) sources.push('RxNorm Drug Classes');
-        }).catch(() => { /* non-fatal */ })
+          if (classes.length > 0) sources.push(this.sourceName('RxNorm Drug Classes'));
+        }).catch(noteSkipped)
       );
     }
 
     await Promise.allSettled(promises);
     result.sources = sources;
-
-    // Cache the result
-    this.cache.set(cacheKey, { data: result, timestamp: Date.now() });
+    result.skippedSources = Array.from(skipped);
 
     return result;
   }
@@ -657,13 +807,19 @@ export class MedicalDataScraper {
   async checkMultiDrugInteractions(drugNames: string[]): Promise<{
     interactions: RxNormInteraction[];
     unresolvedDrugs: string[];
+    skippedSources: string[];
   }> {
     const rxcuis: string[] = [];
     const unresolvedDrugs: string[] = [];
+    const skippedSources = new Set<string>();
 
     // Resolve all drug names to RxCUIs
     for (const name of drugNames) {
-      const rxcui = await this.rxNorm.getRxCUI(name);
+      const rxcui = await this.resolveRxCUI(name).catch((error: unknown) => {
+        if (!isSourceUnavailable(error)) throw error;
+        skippedSources.add(error.source);
+        return null;
+      });
       if (rxcui) {
         rxcuis.push(rxcui);
       } else {
@@ -674,10 +830,14 @@ export class MedicalDataScraper {
     // Check interactions between resolved drugs
     let interactions: RxNormInteraction[] = [];
     if (rxcuis.length >= 2) {
-      interactions = await this.rxNorm.checkMultiDrugInteractions(rxcuis);
+      interactions = await this.rxNorm.checkMultiDrugInteractions(rxcuis).catch((error: unknown) => {
+        if (!isSourceUnavailable(error)) throw error;
+        skippedSources.add(error.source);
+        return [];
+      });
     }
 
-    return { interactions, unresolvedDrugs };
+    return { interactions, unresolvedDrugs, skippedSources: Array.from(skippedSources) };
   }
 
   /**
@@ -701,22 +861,15 @@ export class MedicalDataScraper {
   /**
    * Clear the cache
    */
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
   }
 
   /**
    * Get cache statistics
    */
-  getCacheStats(): { size: number; oldestEntry: Date | null } {
-    let oldest = Infinity;
-    for (const entry of this.cache.values()) {
-      if (entry.timestamp < oldest) oldest = entry.timestamp;
-    }
-    return {
-      size: this.cache.size,
-      oldestEntry: oldest === Infinity ? null : new Date(oldest),
-    };
+  getCacheStats(): Promise<ScraperCacheStats> {
+    return this.cache.getStats();
   }
 }
 
@@ -0,0 +1,319 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { config } from '../config';
+import logger from '../config/logger';
+import { sequelize } from '../config/database';
+import { RiskModelVersion } from '../models';
+import { adaptiveLearningService } from './adaptive-learning.service';
+import { RiskModelArtifact, RiskModelMetrics, trainRiskModel } from './risk-model-trainer.service';
+
+/**
+ * Risk Model Registry
+ *
+ * Retraining jobs turn the persisted adaptive learning samples into numbered
+ * model versions (v1, v2, ...), each stored with its weights and evaluation
+ * metrics. An admin pins one version; the dashboard loads the pinned weights
+ * rather than training its own copy on every page load.
+ */
+
+export interface RiskModelVersionSummary {
+  version: string;
+  createdAt: string;
+  sampleCount: number;
+  metrics: RiskModelMetrics;
+  trainedBy: string;
+  pinned: boolean;
+}
+
+export interface RiskModelVersionRecord extends RiskModelVersionSummary {
+  artifact: RiskModelArtifact;
+}
+
+export type TrainingJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface TrainingJob {
+  id: string;
+  status: TrainingJobStatus;
+  requestedBy: string;
+  pinOnSuccess: boolean;
+  queuedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  sampleCount?: number;
+  version?: string;
+  error?: string;
+}
+
+export interface ModelVersionStore {
+  // Oldest first
+  list(): Promise<RiskModelVersionSummary[]>;
+  get(version: string): Promise<RiskModelVersionRecord | null>;
+  save(record: RiskModelVersionRecord): Promise<void>;
+  // False when the version does not exist
+  pin(version: string): Promise<boolean>;
+}
+
+const MAX_TRACKED_JOBS = 20;
+
+// setInterval fires after 1 ms for delays past 2^31-1 ms, so longer schedules are capped
+export const MAX_RETRAIN_INTERVAL_HOURS = Math.floor((2 ** 31 - 1) / (60 * 60 * 1000));
+
+const versionNumber = (version: string) => Number.parseInt(version.replace(/^v/, ''), 10) || 0;
+
+function toSummary(record: RiskModelVersionSummary): RiskModelVersionSummary {
+  const { version, createdAt, sampleCount, metrics, trainedBy, pinned } = record;
+  return { version, createdAt, sampleCount, metrics, trainedBy, pinned };
+}
+
+/** Demo mode: one JSON file per version plus a small index naming the pinned one */
+export class FileModelStore implements ModelVersionStore {
+  private readonly dir: string;
+  private readonly indexFile: string;
+
+  constructor(dataDir: string) {
+    this.dir = path.join(dataDir, 'models');
+    this.indexFile = path.join(this.dir, 'registry.json');
+  }
+
+  private async pinnedVersion(): Promise<string | null> {
+    try {
+      const index = JSON.parse(await fs.promises.readFile(this.indexFile, 'utf8')) as { pinnedVersion?: string };
+      return index.pinnedVersion ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async readRecord(version: string, pinned: string | null): Promise<RiskModelVersionRecord | null> {
+    try {
+      const record = JSON.parse(await fs.promises.readFile(path.join(this.dir, `${version}.json`), 'utf8')) as RiskModelVersionRecord;
+      return { ...record, pinned: record.version === pinned };
+    } catch {
+      return null;
+    }
+  }
+
+  async list(): Promise<RiskModelVersionSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const pinned = await this.pinnedVersion();
+    const versions = files
+      .filter(file => /^v\d+\.json$/.test(file))
+      .map(file => file.replace(/\.json$/, ''))
+      .sort((a, b) => versionNumber(a) - versionNumber(b));
+    const records = await Promise.all(versions.map(version => this.readRecord(version, pinned)));
+    return records.filter((r): r is RiskModelVersionRecord => r !== null).map(toSummary);
+  }
+
+  async get(version: string): Promise<RiskModelVersionRecord | null> {
+    if (!/^v\d+$/.test(version)) return null;
+    return this.readRecord(version, await this.pinnedVersion());
+  }
+
+  async save(record: RiskModelVersionRecord): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(path.join(this.dir, `${record.version}.json`), JSON.stringify({ ...record, pinned: false }));
+    if (record.pinned) await this.pin(record.version);
+  }
+
+  async pin(version: string): Promise<boolean> {
+    if (!(await this.get(version))) return false;
+    await fs.promises.writeFile(this.indexFile, JSON.stringify({ pinnedVersion: version }, null, 2));
+    return true;
+  }
+}
+
+export class DatabaseModelStore implements ModelVersionStore {
+  private toSummary(row: RiskModelVersion): RiskModelVersionSummary {
+    return {
+      version: row.version,
+      createdAt: row.createdAt.toISOString(),
+      sampleCount: row.sampleCount,
+      metrics: row.metrics as RiskModelMetrics,
+      trainedBy: row.trainedBy,
+      pinned: row.pinned,
+    };
+  }
+
+  async list(): Promise<RiskModelVersionSummary[]> {
+    // Artifacts are large; the listing only needs the metadata
+    const rows = await RiskModelVersion.findAll({ attributes: { exclude: ['artifact'] } });
+    return rows
+      .map(row => this.toSummary(row))
+      .sort((a, b) => versionNumber(a.version) - versionNumber(b.version));
+  }
+
+  async get(version: string): Promise<RiskModelVersionRecord | null> {
+    const row = await RiskModelVersion.findOne({ where: { version } });
+    return row ? { ...this.toSummary(row), artifact: row.artifact as RiskModelArtifact } : null;
+  }
+
+  async save(record: RiskModelVersionRecord): Promise<void> {
+    await RiskModelVersion.create({
+      version: record.version,
+      sampleCount: record.sampleCount,
+      metrics: record.metrics,
+      artifact: record.artifact,
+      trainedBy: record.trainedBy,
+    });
+    if (record.pinned) await this.pin(record.version);
+  }
+
+  async pin(version: string): Promise<boolean> {
+    return sequelize.transaction(async transaction => {
+      const row = await RiskModelVersion.findOne({ where: { version }, transaction });
+      if (!row) return false;
+      await RiskModelVersion.update({ pinned: false }, { where: { pinned: true }, transaction });
+      await row.update({ pinned: true }, { transaction });
+      return true;
+    });
+  }
+}
+
+class ModelRegistryService {
+  private store: ModelVersionStore | null = null;
+  private readonly jobs = new Map<string, TrainingJob>();
+  private activeJob: TrainingJob | null = null;
+  private schedule: NodeJS.Timeout | null = null;
+
+  /** Swap the storage backend (tests); by default it follows the demo/production mode */
+  useStore(store: ModelVersionStore): void {
+    this.store = store;
+  }
+
+  private get versions(): ModelVersionStore {
+    this.store ??= config.demoMode ? new FileModelStore(config.ml.dataDir) : new DatabaseModelStore();
+    return this.store;
+  }
+
+  async list(): Promise<RiskModelVersionSummary[]> {
+    return this.versions.list();
+  }
+
+  /** A version like "v3", or the aliases "pinned" and "latest" */
+  async get(versionOrAlias: string): Promise<RiskModelVersionRecord | null> {
+    if (versionOrAlias === 'pinned' || versionOrAlias === 'latest') {
+      const versions = await this.versions.list();
+      const match = versionOrAlias === 'pinned' ? versions.find(v => v.pinned) : versions.at(-1);
+      return match ? this.versions.get(match.version) : null;
+    }
+    return this.versions.get(versionOrAlias);
+  }
+
+  async pin(version: string): Promise<RiskModelVersionSummary | null> {
+    if (!(await this.versions.pin(version))) return null;
+    logger.info('Risk model version pinned', { version });
+    const record = await this.versions.get(version);
+    return record ? toSummary(record) : null;
+  }
+
+  getJob(id: string): TrainingJob | null {
+    return this.jobs.get(id) ?? null;
+  }
+
+  getActiveJob(): TrainingJob | null {
+    return this.activeJob;
+  }
+
+  /**
+   * Queue a retraining run. Only one job runs at a time; while one is active
+   * the existing job is returned with `started: false`.
+   */
+  startTraining(requestedBy: string, pinOnSuccess = false): { job: TrainingJob; started: boolean } {
+    if (this.activeJob) {
+      return { job: this.activeJob, started: false };
+    }
+
+    const job: TrainingJob = {
+      id: randomUUID(),
+      status: 'queued',
+      requestedBy,
+      pinOnSuccess,
+      queuedAt: new Date().toISOString(),
+    };
+    this.jobs.set(job.id, job);
+    for (const id of [...this.jobs.keys()].slice(0, Math.max(0, this.jobs.size - MAX_TRACKED_JOBS))) {
+      this.jobs.delete(id);
+    }
+
+    this.activeJob = job;
+    void this.runJob(job).finally(() => {
+      this.activeJob = null;
+    });
+    return { job, started: true };
+  }
+
+  /** Resolves when the job has finished (tests and the scheduler) */
+  async waitForJob(id: string, pollMs = 50): Promise<TrainingJob | null> {
+    while (this.jobs.get(id)?.status === 'queued' || this.jobs.get(id)?.status === 'running') {
+      await new Promise(resolve => setTimeout(resolve, pollMs));
+    }
+    return this.getJob(id);
+  }
+
+  private async runJob(job: TrainingJob): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+
+    try {
+      const samples = await adaptiveLearningService.loadTrainingSamples();
+      job.sampleCount = samples.length;
+      if (samples.length < config.ml.minTrainingSamples) {
+        throw new Error(`At least ${config.ml.minTrainingSamples} adaptive samples are required, found ${samples.length}`);
+      }
+
+      const { artifact, metrics } = await trainRiskModel(samples, { epochs: config.ml.trainingEpochs });
+      const existing = await this.versions.list();
+      const version = `v${existing.reduce((max, v) => Math.max(max, versionNumber(v.version)), 0) + 1}`;
+
+      await this.versions.save({
+        version,
+        createdAt: new Date().toISOString(),
+        sampleCount: samples.length,
+        metrics,
+        trainedBy: job.requestedBy,
+        pinned: job.pinOnSuccess,
+        artifact,
+      });
+
+      job.version = version;
+      job.status = 'succeeded';
+      logger.info('Risk model retrained', { version, samples: samples.length, validationMae: metrics.validationMae });
+    } catch (error) {
+      job.status = 'failed';
+      job.error = (error as Error).message;
+      logger.warn('Risk model retraining failed', { jobId: job.id, error: job.error });
+    } finally {
+      job.finishedAt = new Date().toISOString();
+    }
+  }
+
+  /**
+   * Retrain every `hours` hours, at most every MAX_RETRAIN_INTERVAL_HOURS; 0
+   * disables the schedule, and a negative or non-numeric value is ignored.
+   */
+  scheduleRetraining(hours: number): void {
+    if (this.schedule) clearInterval(this.schedule);
+    this.schedule = null;
+    if (hours === 0) return;
+    if (!Number.isFinite(hours) || hours < 0) {
+      logger.warn('Ignoring invalid risk model retraining interval', { hours });
+      return;
+    }
+
+    const everyHours = Math.min(hours, MAX_RETRAIN_INTERVAL_HOURS);
+    this.schedule = setInterval(() => {
+      this.startTraining('scheduler');
+    }, everyHours * 60 * 60 * 1000);
+    this.schedule.unref();
+    logger.info('Scheduled risk model retraining', { everyHours });
+  }
+}
+
+export const modelRegistryService = new ModelRegistryService();
@@ -0,0 +1,542 @@
+import { createHash } from 'node:crypto';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { GENERAL_EMERGENCY_SIGNS, findPatientCounseling } from '@treatment-plan/clinical-knowledge';
+import { config } from '../config';
+import { ExportableTreatmentPlan } from './fhir-export.service';
+import { pdfText } from './treatment-report.service';
+import {
+  CompletePatientData,
+  DoseTime,
+  FollowUpType,
+  HandoutDosing,
+  HandoutFollowUp,
+  HandoutFormat,
+  PatientHandout,
+  PatientHandoutRequestBody,
+  ReadingLevel,
+  TreatmentRecommendation,
+} from '../types';
+
+/**
+ * Patient Handouts
+ *
+ * The patient's copy of an approved plan: how and when to take the
+ * medicine, what to stay away from, which signs mean "call us" and which
+ * mean "get help now", and the follow-up visits booked on the dashboard.
+ * Warning text comes from the curated counseling rules rather than the
+ * clinician report, and the whole handout is scored for reading level so
+ * clinicians can see when their own notes make it hard to read.
+ */
+
+export const HANDOUT_FORMATS: readonly HandoutFormat[] = ['pdf', 'json'];
+export const FOLLOW_UP_TYPES: readonly FollowUpType[] = ['check-up', 'lab-review', 'medication-review', 'specialist-referral'];
+
+// Health literacy guidance asks for patient materials at or below 6th grade
+export const TARGET_READING_GRADE = 6;
+
+// Flesch-Kincaid says little about a two-word list item, so shorter sentences are never flagged
+const MIN_FLAGGED_SENTENCE_WORDS = 8;
+
+// A printed calendar is for the first weeks; refills come with a new one
+const CALENDAR_DAYS = 28;
+
+const FOLLOW_UP_LABELS: Record<FollowUpType, string> = {
+  'check-up': 'Check-up visit',
+  'lab-review': 'Blood test review',
+  'medication-review': 'Medicine review',
+  'specialist-referral': 'Visit with a specialist',
+};
+
+const DOSE_TIME_LABELS: Record<DoseTime, string> = {
+  morning: 'Morning',
+  midday: 'Midday',
+  evening: 'Evening',
+  bedtime: 'Bedtime',
+};
+
+// "Take 10mg every morning." / "Take 10mg 2 times a day: in the morning and in the evening."
+const ONCE_A_DAY: Record<DoseTime, string> = {
+  morning: 'every morning',
+  midday: 'every day at midday',
+  evening: 'every evening',
+  bedtime: 'every night at bedtime',
+};
+const AT_TIME: Record<DoseTime, string> = {
+  morning: 'in the morning',
+  midday: 'at midday',
+  evening: 'in the evening',
+  bedtime: 'at bedtime',
+};
+
+// First match wins; an empty list means there is no fixed daily schedule
+const FREQUENCY_TIMES: Array<[RegExp, DoseTime[]]> = [
+  [/\b(as needed|when needed|prn)\b/i, []],
+  [/\b(weekly|a week|every other day|monthly|a month)\b/i, []],
+  [/\b(qid|four times|4 times|q6h|every 6 hours)\b/i, ['morning', 'midday', 'evening', 'bedtime']],
+  [/\b(tid|three times|3 times|q8h|every 8 hours)\b/i, ['morning', 'midday', 'evening']],
+  [/\b(bid|twice|two times|2 times|q12h|every 12 hours)\b/i, ['morning', 'evening']],
+  [/\b(qhs|bedtime|nightly|at night)\b/i, ['bedtime']],
+  [/\b(qpm|evening)\b/i, ['evening']],
+  [/\b(daily|once a day|every day|qd|qam|morning)\b/i, ['morning']],
+];
+
+/**
+ * Fixed times of day for a frequency. Once-daily doses follow the
+ * instructions when they name a time ("take at bedtime").
+ */
+export function parseDoseTimes(frequency: string, instructions = ''): DoseTime[] {
+  const match = FREQUENCY_TIMES.find(([pattern]) => pattern.test(frequency));
+  if (!match) return [];
+  const times = match[1];
+  if (times.length === 1 && times[0] === 'morning') {
+    if (/\b(bedtime|at night)\b/i.test(instructions)) return ['bedtime'];
+    if (/\bevening\b/i.test(instructions)) return ['evening'];
+  }
+  return times;
+}
+
+function scheduleSentence(dose: string, frequency: string, times: DoseTime[]): string {
+  const amount = dose || 'your dose';
+  if (times.length === 1) return `Take ${amount} ${ONCE_A_DAY[times[0]]}.`;
+  if (times.length > 1) {
+    const phrases = times.map(time => AT_TIME[time]);
+    const last = phrases.pop();
+    return `Take ${amount} ${times.length} times a day: ${phrases.join(', ')} and ${last}.`;
+  }
+  if (/\b(as needed|when needed|prn)\b/i.test(frequency)) return `Take ${amount} only when you need it.`;
+  return frequency ? `Take ${amount} ${frequency.toLowerCase()}.` : `Take ${amount} the way your doctor told you.`;
+}
+
+export function buildDosing(treatment: TreatmentRecommendation): HandoutDosing {
+  const frequency = treatment.frequency?.trim() ?? '';
+  const instructions = treatment.instructions?.trim() || null;
+  const times = parseDoseTimes(frequency, instructions ?? '');
+  return {
+    medication: treatment.medication,
+    dose: treatment.dosage?.trim() ?? '',
+    times,
+    schedule: scheduleSentence(treatment.dosage?.trim() ?? '', frequency, times),
+    instructions,
+    duration: treatment.duration?.trim() || null,
+  };
+}
+
+/** Days covered by a duration such as "90 days" or "2 weeks"; null when open-ended. */
+function durationDays(duration: string | null): number | null {
+  const match = duration ? /(\d+)\s*(day|week|month)/i.exec(duration) : null;
+  if (!match) return null;
+  const unit = match[2].toLowerCase();
+  return Number(match[1]) * (unit === 'week' ? 7 : unit === 'month' ? 30 : 1);
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+// ============================================
+// Reading level
+// ============================================
+
+/** Vowel-group count with the usual silent-e and -ed corrections; good enough for grading. */
+function countSyllables(word: string): number {
+  const lower = word.toLowerCase();
+  if (lower.length <= 3) return 1;
+  const stripped = lower.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, stripped.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => /[A-Za-z]/.test(sentence));
+}
+
+function wordsOf(text: string): string[] {
+  return text.match(/[A-Za-z]+(?:'[A-Za-z]+)*/g) ?? [];
+}
+
+function fleschKincaidGrade(sentences: string[]): number {
+  const words = sentences.flatMap(wordsOf);
+  if (words.length === 0) return 0;
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade = 0.39 * (words.length / sentences.length) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.max(0, Math.round(grade * 10) / 10);
+}
+
+/**
+ * Flesch-Kincaid grade of the handout text. Each list item counts as a
+ * sentence, which is how patients read them.
+ */
+export function assessReadingLevel(texts: string[], targetGrade = TARGET_READING_GRADE): ReadingLevel {
+  const sentences = texts.flatMap(splitSentences);
+  const grade = fleschKincaidGrade(sentences);
+  const hardSentences = sentences
+    .filter(sentence => wordsOf(sentence).length >= MIN_FLAGGED_SENTENCE_WORDS)
+    .map(sentence => ({ sentence, grade: fleschKincaidGrade([sentence]) }))
+    .filter(scored => scored.grade > targetGrade)
+    .sort((a, b) => b.grade - a.grade)
+    .map(scored => scored.sentence);
+  return { grade, targetGrade, meetsTarget: grade <= targetGrade, hardSentences: [...new Set(hardSentences)] };
+}
+
+// ============================================
+// Requests
+// ============================================
+
+export interface HandoutOptions {
+  followUps: HandoutFollowUp[];
+  largePrint: boolean;
+  startDate: string; // YYYY-MM-DD
+  format: HandoutFormat;
+}
+
+export interface NormalizedHandoutRequest {
+  options: HandoutOptions | null;
+  errors: string[];
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value);
+}
+
+// YYYY-MM-DD, also taken from the front of an ISO timestamp
+function toCalendarDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const date = value.slice(0, 10);
+  return new Date(`${date}T00:00:00.000Z`).toISOString().slice(0, 10) === date ? date : null;
+}
+
+/**
+ * Validates a handout request. Completed follow-ups and those before the
+ * start date (the client's today, else the server's) are left off the
+ * handout; the rest are sorted soonest first.
+ */
+export function normalizeHandoutRequest(
+  input: PatientHandoutRequestBody | undefined,
+  now = new Date(),
+): NormalizedHandoutRequest {
+  const errors: string[] = [];
+  const body = input ?? {};
+
+  const format = body.format ?? 'pdf';
+  if (!isOneOf(HANDOUT_FORMATS, format)) {
+    errors.push(`format must be one of ${HANDOUT_FORMATS.join(', ')}`);
+  }
+
+  let startDate = now.toISOString().slice(0, 10);
+  if (body.startDate !== undefined) {
+    const date = toCalendarDate(body.startDate);
+    if (date) {
+      startDate = date;
+    } else {
+      errors.push(`invalid startDate "${body.startDate}"`);
+    }
+  }
+
+  if (body.followUps !== undefined && !Array.isArray(body.followUps)) {
+    errors.push('followUps must be an array');
+  }
+  const followUps: HandoutFollowUp[] = [];
+  (Array.isArray(body.followUps) ? body.followUps : []).forEach((followUp, index) => {
+    const scheduledDate = toCalendarDate(followUp?.scheduledDate);
+    if (!scheduledDate) {
+      errors.push(`followUps[${index}].scheduledDate must be a date`);
+    }
+    if (!isOneOf(FOLLOW_UP_TYPES, followUp?.type)) {
+      errors.push(`followUps[${index}].type must be one of ${FOLLOW_UP_TYPES.join(', ')}`);
+      return;
+    }
+    if (!scheduledDate || followUp.completed === true || scheduledDate < startDate) return;
+    followUps.push({
+      scheduledDate,
+      type: followUp.type,
+      description: typeof followUp.description === 'string' ? followUp.description.trim() : '',
+    });
+  });
+
+  if (errors.length > 0) {
+    return { options: null, errors };
+  }
+
+  return {
+    options: {
+      followUps: followUps.sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate)),
+      largePrint: body.largePrint === true,
+      startDate,
+      format: format as HandoutFormat,
+    },
+    errors,
+  };
+}
+
+// ============================================
+// Handout
+// ============================================
+
+function unique(items: string[]): string[] {
+  return [...new Set(items.map(item => item.trim()).filter(Boolean))];
+}
+
+/** The handout for an approved plan, with warnings for the primary medicine. */
+export function buildPatientHandout(
+  plan: ExportableTreatmentPlan,
+  patient: CompletePatientData,
+  options: Pick<HandoutOptions, 'followUps' | 'startDate'>,
+  now: Date = new Date(),
+): PatientHandout {
+  const treatment = plan.treatmentData.treatmentPlan.primaryTreatment;
+  const dosing = buildDosing(treatment);
+  const rules = findPatientCounseling(treatment.genericName || treatment.medication);
+
+  const allergens = unique(patient.medicalHistory.allergies.map(allergy => allergy.allergen));
+  const avoid = unique([
+    ...(allergens.length > 0 ? [`Anything you are allergic to: ${allergens.join(', ')}. Tell every doctor and pharmacist.`] : []),
+    ...rules.flatMap(rule => rule.avoid),
+  ]);
+  const callDoctor = unique(rules.flatMap(rule => rule.callDoctor));
+  const emergency = unique([...rules.flatMap(rule => rule.emergency), ...GENERAL_EMERGENCY_SIGNS]);
+  const otherCare = unique(plan.treatmentData.treatmentPlan.supportiveCare ?? []);
+  const education = plan.treatmentData.rationale?.patientEducation?.trim() || null;
+  const followUps = options.followUps.map(followUp => ({
+    ...followUp,
+    description: followUp.description || FOLLOW_UP_LABELS[followUp.type],
+  }));
+
+  const days = Math.min(durationDays(dosing.duration) ?? CALENDAR_DAYS, CALENDAR_DAYS);
+  const calendar = dosing.times.length > 0 && days > 0
+    ? { dates: Array.from({ length: days }, (_, day) => addDays(options.startDate, day)), times: dosing.times }
+    : null;
+
+  // The counseling rules are written for patients once; only the clinician's own text is flagged for rewording
+  const clinicianText = [dosing.instructions ?? '', ...otherCare, education ?? ''];
+  const readingLevel = assessReadingLevel([dosing.schedule, ...avoid, ...callDoctor, ...emergency, ...clinicianText]);
+  readingLevel.hardSentences = assessReadingLevel(clinicianText).hardSentences;
+
+  return {
+    treatmentPlanId: plan.id,
+    generatedAt: now.toISOString(),
+    clinicName: config.reports.clinicName || null,
+    prescriber: plan.approvedBy,
+    dosing,
+    avoid,
+    callDoctor,
+    emergency,
+    otherCare,
+    education,
+    followUps,
+    calendar,
+    readingLevel,
+  };
+}
+
+// ============================================
+// PDF
+// ============================================
+
+type Rgb = [number, number, number];
+
+const TEAL: Rgb = [0, 128, 128];
+const EMERGENCY_RED: Rgb = [180, 0, 0];
+
+// Font sizes in points; line heights in mm
+const PRINT_SIZES = {
+  standard: { title: 20, heading: 14, body: 11, line: 6, calendar: 10, box: 4 },
+  large: { title: 26, heading: 20, body: 16, line: 8.5, calendar: 15, box: 6 },
+};
+
+/** "Monday, March 9, 2026" */
+function formatDay(date: string, style: 'long' | 'short' = 'long'): string {
+  return new Date(`${date}T00:00:00.000Z`).toLocaleDateString('en-US', {
+    weekday: style,
+    month: style,
+    day: 'numeric',
+    ...(style === 'long' && { year: 'numeric' }),
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Renders the handout on its own pages, followed by a daily dosing calendar
+ * when the medicine has fixed times. Large print scales every font and
+ * spacing up rather than shrinking content to fit.
+ */
+export function renderHandoutPdf(handout: PatientHandout, { largePrint = false } = {}): Buffer {
+  const size = largePrint ? PRINT_SIZES.large : PRINT_SIZES.standard;
+  const { dosing } = handout;
+
+  const doc = new jsPDF();
+  doc.setCreationDate(new Date(handout.generatedAt));
+  doc.setFileId(createHash('sha256').update(JSON.stringify({ handout, largePrint })).digest('hex').slice(0, 32).toUpperCase());
+  doc.setProperties({
+    title: `Your Medicine Guide: ${pdfText(dosing.medication)}`,
+    subject: `Treatment plan ${handout.treatmentPlanId}`,
+    ...(handout.clinicName && { author: pdfText(handout.clinicName) }),
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 15;
+  const contentWidth = pageWidth - 2 * margin;
+  const bottom = 275;
+  let yPos = 20;
+
+  const checkPageBreak = (requiredSpace: number) => {
+    if (yPos + requiredSpace > bottom) {
+      doc.addPage();
+      yPos = 20;
+    }
+  };
+  const heading = (text: string, color: Rgb = TEAL) => {
+    checkPageBreak(size.line * 3);
+    doc.setFontSize(size.heading);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...color);
+    doc.text(text, margin, yPos);
+    doc.setTextColor(0, 0, 0);
+    yPos += size.line * 1.4;
+  };
+  const paragraph = (text: string, style: 'normal' | 'bold' = 'normal') => {
+    doc.setFontSize(size.body);
+    doc.setFont('helvetica', style);
+    const lines: string[] = doc.splitTextToSize(pdfText(text), contentWidth);
+    for (const line of lines) {
+      checkPageBreak(size.line);
+      doc.text(line, margin, yPos);
+      yPos += size.line;
+    }
+  };
+  const wrapBullet = (item: string, width: number): string[] => {
+    doc.setFontSize(size.body);
+    doc.setFont('helvetica', 'normal');
+    return doc.splitTextToSize(pdfText(item), width);
+  };
+  const bullets = (items: string[]) => {
+    for (const item of items) {
+      const lines = wrapBullet(item, contentWidth - 8);
+      checkPageBreak(lines.length * size.line);
+      doc.text('-', margin + 2, yPos);
+      doc.text(lines, margin + 8, yPos);
+      yPos += lines.length * size.line + size.line * 0.25;
+    }
+    yPos += size.line * 0.5;
+  };
+
+  // Header
+  const headerHeight = largePrint ? 44 : 34;
+  doc.setFillColor(...TEAL);
+  doc.rect(0, 0, pageWidth, headerHeight, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(size.title);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Your Medicine Guide', margin, largePrint ? 18 : 15);
+  doc.setFontSize(size.body);
+  doc.setFont('helvetica', 'normal');
+  const byline = [
+    handout.clinicName && pdfText(handout.clinicName),
+    handout.prescriber && `From ${pdfText(handout.prescriber)}`,
+    `Printed ${formatDay(handout.generatedAt.slice(0, 10))}`,
+  ].filter(Boolean).join('  |  ');
+  doc.text(byline, margin, largePrint ? 32 : 26);
+  doc.setTextColor(0, 0, 0);
+  yPos = headerHeight + 12;
+
+  // How to take it
+  doc.setFontSize(size.title);
+  doc.setFont('helvetica', 'bold');
+  doc.text(pdfText(dosing.medication, 'Your medicine'), margin, yPos);
+  yPos += size.line * 1.6;
+  paragraph(dosing.schedule, 'bold');
+  if (dosing.instructions) paragraph(dosing.instructions);
+  if (dosing.duration) paragraph(`How long: ${dosing.duration}`);
+  yPos += size.line * 0.5;
+
+  if (handout.avoid.length > 0) {
+    heading('Things to avoid');
+    bullets(handout.avoid);
+  }
+
+  if (handout.callDoctor.length > 0) {
+    heading('Call your doctor if you have');
+    bullets(handout.callDoctor);
+  }
+
+  // Emergency box, kept on one page
+  const emergencyLines = handout.emergency.map(item => wrapBullet(item, contentWidth - 18));
+  const boxHeight = size.line * (2.2 + emergencyLines.reduce((sum, lines) => sum + lines.length + 0.25, 0));
+  checkPageBreak(boxHeight + size.line);
+  doc.setFillColor(255, 225, 225);
+  doc.setDrawColor(...EMERGENCY_RED);
+  doc.rect(margin, yPos - size.line * 0.8, contentWidth, boxHeight, 'FD');
+  doc.setTextColor(...EMERGENCY_RED);
+  doc.setFontSize(size.heading);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Call 911 or go to the ER if you have', margin + 5, yPos + size.line * 0.3);
+  yPos += size.line * 1.6;
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(size.body);
+  doc.setFont('helvetica', 'normal');
+  for (const lines of emergencyLines) {
+    doc.text('-', margin + 7, yPos);
+    doc.text(lines, margin + 13, yPos);
+    yPos += (lines.length + 0.25) * size.line;
+  }
+  yPos += size.line * 1.2;
+
+  if (handout.followUps.length > 0) {
+    heading('Your next visits');
+    bullets(handout.followUps.map(followUp => `${formatDay(followUp.scheduledDate)}: ${followUp.description}`));
+  }
+
+  if (handout.otherCare.length > 0) {
+    heading('Other things that help');
+    bullets(handout.otherCare);
+  }
+
+  if (handout.education) {
+    heading('More about your medicine');
+    paragraph(handout.education);
+  }
+
+  // Daily dosing calendar
+  if (handout.calendar) {
+    const { dates, times } = handout.calendar;
+    doc.addPage();
+    yPos = 20;
+    heading('My medicine calendar');
+    paragraph(`${dosing.medication}${dosing.dose ? ` ${dosing.dose}` : ''}. ${dosing.schedule}`);
+    paragraph('Check a box each time you take a dose.');
+    yPos += size.line * 0.5;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Day', ...times.map(time => DOSE_TIME_LABELS[time])]],
+      body: dates.map(date => [formatDay(date, 'short'), ...times.map(() => '')]),
+      theme: 'grid',
+      headStyles: { fillColor: TEAL, fontSize: size.calendar },
+      styles: { fontSize: size.calendar, minCellHeight: size.box + 4, valign: 'middle' },
+      columnStyles: { 0: { cellWidth: largePrint ? 70 : 50 } },
+      margin: { left: margin, right: margin, bottom: 20 },
+      didDrawCell: data => {
+        if (data.section !== 'body' || data.column.index === 0) return;
+        const { x, y, width, height } = data.cell;
+        doc.setDrawColor(0, 0, 0);
+        doc.rect(x + (width - size.box) / 2, y + (height - size.box) / 2, size.box, size.box);
+      },
+    });
+  }
+
+  // Page footer
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    doc.setFontSize(largePrint ? 12 : 9);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Questions about your medicine? Call your care team.', margin, 287);
+    doc.text(`Page ${i} of ${totalPages}`, pageWidth - margin, 287, { align: 'right' });
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
@@ -0,0 +1,450 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PharmacogenomicProfile } from '@treatment-plan/clinical-knowledge';
+import { sequelize } from '../config/database';
+import { config } from '../config';
+import { Patient, MedicalHistory, CurrentMedication, LifestyleFactors, AuditLog } from '../models';
+import {
+  CompletePatientData,
+  LabResult,
+  RawAllergyInput,
+  RawConditionInput,
+  RawCurrentMedicationsInput,
+  RawDemographicsInput,
+  RawLifestyleInput,
+  RawMedicalHistoryInput,
+  RawMedicationInput,
+  RawSurgeryInput,
+} from '../types';
+import { demoStorage } from './demo-storage.service';
+import { labResultService, latestLabResults } from './lab-result.service';
+import { normalizeReproductiveStatus } from './reproductive-status.service';
+
+/**
+ * Patient Intake
+ *
+ * Turns the raw intake shapes into CompletePatientData and stores new
+ * patients. Shared by the patient and treatment-plan endpoints and by the
+ * HL7 interface, which has no request to take the audit actor from.
+ */
+
+export interface IntakeAuditContext {
+  userId: string;
+  userName: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Helper to build family history array from non-array value
+function buildFamilyHistoryArray(value: unknown): string[] {
+  if (value) return [value as string];
+  return [];
+}
+
+type PatientSex = 'male' | 'female' | 'other';
+type MedicationRoute = 'oral' | 'IV' | 'topical' | 'injection' | 'sublingual';
+type SmokingStatus = 'never' | 'former' | 'current';
+type AlcoholFrequency = 'none' | 'occasional' | 'moderate' | 'heavy';
+type ExerciseFrequency = 'sedentary' | 'light' | 'moderate' | 'active';
+type DietType = 'standard' | 'vegetarian' | 'vegan' | 'keto' | 'other';
+type ConditionSeverity = 'mild' | 'moderate' | 'severe';
+type AllergySeverity = 'mild' | 'moderate' | 'severe' | 'anaphylaxis';
+
+export function normalizeSex(value?: string): PatientSex {
+  if (value === 'male' || value === 'female') return value;
+  return 'other';
+}
+
+function normalizeRoute(value?: string): MedicationRoute {
+  if (value === 'IV' || value === 'topical' || value === 'injection' || value === 'sublingual') {
+    return value;
+  }
+  return 'oral';
+}
+
+export function normalizeSmokingStatus(value?: string): SmokingStatus {
+  if (value === 'former' || value === 'current') return value;
+  return 'never';
+}
+
+export function normalizeAlcoholFrequency(value?: string): AlcoholFrequency {
+  if (value === 'occasional' || value === 'moderate' || value === 'heavy') return value;
+  return 'none';
+}
+
+export function normalizeExerciseFrequency(value?: string): ExerciseFrequency {
+  if (value === 'light' || value === 'moderate' || value === 'active') return value;
+  return 'sedentary';
+}
+
+export function normalizeDiet(value?: string): DietType {
+  if (value === 'vegetarian' || value === 'vegan' || value === 'keto' || value === 'other') return value;
+  return 'standard';
+}
+
+function normalizeConditionSeverity(value?: string): ConditionSeverity {
+  if (value === 'mild' || value === 'severe') return value;
+  return 'moderate';
+}
+
+function normalizeAllergySeverity(value?: string): AllergySeverity {
+  if (value === 'mild' || value === 'severe' || value === 'anaphylaxis') return value;
+  return 'moderate';
+}
+
+export function normalizeConditions(medicalHistory?: RawMedicalHistoryInput) {
+  return (medicalHistory?.conditions || []).map((condition: RawConditionInput | string) => ({
+    condition: typeof condition === 'string' ? condition : (condition.name || condition.condition || ''),
+    diagnosisDate: typeof condition === 'string' ? '' : (condition.diagnosisDate || ''),
+    severity: normalizeConditionSeverity(typeof condition === 'string' ? undefined : condition.severity),
+    controlled: typeof condition === 'string' ? false : (condition.isControlled ?? condition.controlled ?? false),
+  }));
+}
+
+export function normalizeAllergies(medicalHistory?: RawMedicalHistoryInput) {
+  return (medicalHistory?.allergies || []).map((allergy: RawAllergyInput | string) => ({
+    allergen: typeof allergy === 'string' ? allergy : allergy.allergen,
+    reaction: typeof allergy === 'string' ? '' : (allergy.reaction || ''),
+    severity: normalizeAllergySeverity(typeof allergy === 'string' ? undefined : allergy.severity),
+  }));
+}
+
+export function normalizeSurgeries(medicalHistory?: RawMedicalHistoryInput) {
+  return (medicalHistory?.surgeries || medicalHistory?.pastSurgeries || []).map((surgery: RawSurgeryInput | string) => ({
+    procedure: typeof surgery === 'string' ? surgery : surgery.procedure,
+    date: typeof surgery === 'string' ? '' : (surgery.date || ''),
+  }));
+}
+
+export function normalizeFamilyHistory(medicalHistory?: RawMedicalHistoryInput): string[] {
+  return Array.isArray(medicalHistory?.familyHistory)
+    ? medicalHistory.familyHistory
+    : buildFamilyHistoryArray(medicalHistory?.familyHistory);
+}
+
+export function normalizeCurrentMedications(currentMedications?: RawCurrentMedicationsInput) {
+  return (currentMedications?.medications || []).map((medication: RawMedicationInput) => ({
+    drugName: medication.drugName,
+    genericName: medication.genericName || medication.drugName.toLowerCase(),
+    dosage: medication.dosage,
+    frequency: medication.frequency,
+    route: normalizeRoute(medication.route),
+    startDate: medication.startDate || '',
+    prescribedBy: medication.prescribedBy || '',
+  }));
+}
+
+// Complete patient data from the raw intake shapes (wizard, sample data or HL7 messages)
+export function buildCompletePatientData(
+  patientId: string,
+  demographics: RawDemographicsInput,
+  medicalHistory: RawMedicalHistoryInput | undefined,
+  currentMedications: RawCurrentMedicationsInput | undefined,
+  lifestyleFactors: RawLifestyleInput,
+  labResults: LabResult[] = [],
+  pharmacogenomics?: PharmacogenomicProfile,
+): CompletePatientData {
+  const conditions = normalizeConditions(medicalHistory);
+  const allergies = normalizeAllergies(medicalHistory);
+  const pastSurgeries = normalizeSurgeries(medicalHistory);
+  const familyHistory = normalizeFamilyHistory(medicalHistory);
+  const medications = normalizeCurrentMedications(currentMedications);
+
+  return {
+    demographics: {
+      patientId,
+      age: demographics.age,
+      sex: normalizeSex(demographics.sex),
+      weight: demographics.weight,
+      height: demographics.height,
+      bmi: demographics.bmi || (demographics.weight / Math.pow(demographics.height / 100, 2)),
+      bloodPressure: {
+        systolic: demographics.bloodPressure?.systolic ?? 120,
+        diastolic: demographics.bloodPressure?.diastolic ?? 80,
+      },
+      heartRate: demographics.heartRate || 72,
+      temperature: demographics.temperature || 98.6,
+      ...normalizeReproductiveStatus(demographics, demographics.sex).status,
+      ...(demographics.externalId && { externalId: demographics.externalId }),
+    },
+    medicalHistory: {
+      conditions,
+      allergies,
+      pastSurgeries,
+      familyHistory,
+    },
+    currentMedications: {
+      medications,
+    },
+    lifestyle: {
+      smoking: {
+        status: normalizeSmokingStatus(lifestyleFactors.smokingStatus),
+        packsPerDay: lifestyleFactors.packsPerDay,
+        years: lifestyleFactors.packYears,
+      },
+      alcohol: {
+        frequency: normalizeAlcoholFrequency(lifestyleFactors.alcoholUse),
+        drinksPerWeek: lifestyleFactors.drinksPerWeek,
+      },
+      exercise: {
+        frequency: normalizeExerciseFrequency(lifestyleFactors.exerciseLevel),
+        minutesPerWeek: lifestyleFactors.exerciseMinutesPerWeek,
+      },
+      diet: normalizeDiet(lifestyleFactors.dietType),
+      chiefComplaint: {
+        complaint: lifestyleFactors.chiefComplaint || '',
+        duration: lifestyleFactors.symptomDuration || '',
+        severity: (lifestyleFactors.severity || 3) as 1 | 2 | 3 | 4 | 5,
+        symptoms: lifestyleFactors.symptoms || [],
+      },
+    },
+    labs: latestLabResults(labResults),
+    ...(pharmacogenomics && { pharmacogenomics }),
+  };
+}
+
+
+// BMI from height and weight unless one was provided
+function patientBmi(patientData: CompletePatientData): number {
+  const heightInMeters = patientData.demographics.height / 100;
+  return patientData.demographics.bmi ||
+    (patientData.demographics.weight / (heightInMeters * heightInMeters));
+}
+
+function createPatientDemo(patientData: CompletePatientData, bmi: number, audit: IntakeAuditContext): string {
+  const patientId = patientData.demographics.patientId || `PT-${Date.now()}`;
+
+  const patient = demoStorage.createPatient({
+    patientId,
+    age: patientData.demographics.age,
+    sex: patientData.demographics.sex || 'other',
+    weight: patientData.demographics.weight,
+    height: patientData.demographics.height,
+    bmi: Math.round(bmi * 10) / 10,
+    systolicBp: patientData.demographics.bloodPressure?.systolic || 120,
+    diastolicBp: patientData.demographics.bloodPressure?.diastolic || 80,
+    heartRate: patientData.demographics.heartRate || 72,
+    temperature: patientData.demographics.temperature || 98.6,
+    pregnant: patientData.demographics.pregnant,
+    trimester: patientData.demographics.trimester,
+    lactating: patientData.demographics.lactating,
+    pharmacogenomics: patientData.pharmacogenomics,
+    externalId: patientData.demographics.externalId,
+  });
+
+  if (patientData.medicalHistory) {
+    demoStorage.createMedicalHistory({
+      patientId: patient.id,
+      conditions: patientData.medicalHistory.conditions || [],
+      allergies: patientData.medicalHistory.allergies || [],
+      pastSurgeries: patientData.medicalHistory.pastSurgeries || [],
+      familyHistory: patientData.medicalHistory.familyHistory || [],
+    });
+  }
+
+  if (patientData.currentMedications?.medications) {
+    for (const med of patientData.currentMedications.medications) {
+      demoStorage.addMedication(patient.id, {
+        drugName: med.drugName,
+        genericName: med.genericName || med.drugName.toLowerCase(),
+        dosage: med.dosage,
+        frequency: med.frequency,
+        route: med.route || 'oral',
+        startDate: med.startDate || '',
+        prescribedBy: med.prescribedBy || '',
+      });
+    }
+  }
+
+  if (patientData.lifestyle) {
+    demoStorage.createLifestyle({
+      patientId: patient.id,
+      smokingStatus: patientData.lifestyle.smoking?.status || 'never',
+      smokingPacksPerDay: patientData.lifestyle.smoking?.packsPerDay,
+      smokingYears: patientData.lifestyle.smoking?.years,
+      alcoholFrequency: patientData.lifestyle.alcohol?.frequency || 'none',
+      alcoholDrinksPerWeek: patientData.lifestyle.alcohol?.drinksPerWeek,
+      exerciseFrequency: patientData.lifestyle.exercise?.frequency || 'sedentary',
+      exerciseMinutesPerWeek: patientData.lifestyle.exercise?.minutesPerWeek,
+      diet: patientData.lifestyle.diet || 'standard',
+      chiefComplaint: patientData.lifestyle.chiefComplaint?.complaint || '',
+      symptomDuration: patientData.lifestyle.chiefComplaint?.duration,
+    });
+  }
+
+  demoStorage.createAuditLog({
+    timestamp: new Date(),
+    ...audit,
+    action: 'created',
+    patientId: patient.id,
+  });
+
+  return patient.id;
+}
+
+async function createPatientProduction(
+  patientData: CompletePatientData,
+  bmi: number,
+  audit: IntakeAuditContext,
+  labResults: LabResult[],
+): Promise<string> {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const patient = await Patient.create({
+      id: patientData.demographics.patientId || uuidv4(),
+      age: patientData.demographics.age,
+      sex: patientData.demographics.sex || 'other',
+      weight: patientData.demographics.weight,
+      height: patientData.demographics.height,
+      bmi: Math.round(bmi * 10) / 10,
+      systolicBp: patientData.demographics.bloodPressure?.systolic || 120,
+      diastolicBp: patientData.demographics.bloodPressure?.diastolic || 80,
+      heartRate: patientData.demographics.heartRate || 72,
+      temperature: patientData.demographics.temperature || 98.6,
+      pregnant: patientData.demographics.pregnant ?? false,
+      trimester: patientData.demographics.trimester ?? null,
+      lactating: patientData.demographics.lactating ?? false,
+      pharmacogenomics: patientData.pharmacogenomics ?? null,
+      externalId: patientData.demographics.externalId ?? null,
+    }, { transaction });
+
+    await MedicalHistory.create({
+      patientId: patient.id,
+      conditions: patientData.medicalHistory?.conditions || [],
+      allergies: patientData.medicalHistory?.allergies || [],
+      pastSurgeries: patientData.medicalHistory?.pastSurgeries || [],
+      familyHistory: patientData.medicalHistory?.familyHistory || [],
+    }, { transaction });
+
+    if (patientData.currentMedications?.medications) {
+      for (const med of patientData.currentMedications.medications) {
+        await CurrentMedication.create({
+          patientId: patient.id,
+          drugName: med.drugName,
+          genericName: med.genericName || med.drugName.toLowerCase(),
+          dosage: med.dosage,
+          frequency: med.frequency,
+          route: med.route || 'oral',
+          startDate: med.startDate || '',
+          prescribedBy: med.prescribedBy || '',
+        }, { transaction });
+      }
+    }
+
+    if (patientData.lifestyle) {
+      await LifestyleFactors.create({
+        patientId: patient.id,
+        smokingStatus: patientData.lifestyle.smoking?.status || 'never',
+        smokingPacksPerDay: patientData.lifestyle.smoking?.packsPerDay || null,
+        smokingYears: patientData.lifestyle.smoking?.years || null,
+        alcoholFrequency: patientData.lifestyle.alcohol?.frequency || 'none',
+        alcoholDrinksPerWeek: patientData.lifestyle.alcohol?.drinksPerWeek || null,
+        exerciseFrequency: patientData.lifestyle.exercise?.frequency || 'sedentary',
+        exerciseMinutesPerWeek: patientData.lifestyle.exercise?.minutesPerWeek || null,
+        diet: patientData.lifestyle.diet || 'standard',
+        chiefComplaint: patientData.lifestyle.chiefComplaint || { complaint: '', duration: '', severity: 0, symptoms: [] },
+      }, { transaction });
+    }
+
+    await labResultService.record(patient.id, labResults, transaction);
+
+    await AuditLog.create({
+      timestamp: new Date(),
+      userId: audit.userId,
+      userName: audit.userName,
+      action: 'created',
+      patientId: patient.id,
+      ipAddress: audit.ipAddress ?? null,
+      userAgent: audit.userAgent ?? null,
+    }, { transaction });
+
+    await transaction.commit();
+    return patient.id;
+  } catch (dbError) {
+    await transaction.rollback();
+    throw dbError;
+  }
+}
+
+// Complete patient data from the database; null when history or lifestyle is missing
+export async function loadStoredPatientData(patient: Patient): Promise<CompletePatientData | null> {
+  const patientId = patient.id;
+  const medicalHistory = await MedicalHistory.findOne({ where: { patientId } });
+  const medications = await CurrentMedication.findAll({ where: { patientId } });
+  const lifestyle = await LifestyleFactors.findOne({ where: { patientId } });
+  const labs = await labResultService.latest(patientId);
+
+  if (!medicalHistory || !lifestyle) return null;
+
+  return {
+    demographics: {
+      patientId: patient.id,
+      age: patient.age,
+      sex: patient.sex,
+      weight: patient.weight,
+      height: patient.height,
+      bmi: patient.bmi,
+      bloodPressure: {
+        systolic: patient.systolicBp,
+        diastolic: patient.diastolicBp,
+      },
+      heartRate: patient.heartRate,
+      temperature: patient.temperature,
+      ...normalizeReproductiveStatus(patient, patient.sex).status,
+    },
+    medicalHistory: {
+      conditions: medicalHistory.conditions as CompletePatientData['medicalHistory']['conditions'],
+      allergies: medicalHistory.allergies as CompletePatientData['medicalHistory']['allergies'],
+      pastSurgeries: medicalHistory.pastSurgeries as CompletePatientData['medicalHistory']['pastSurgeries'],
+      familyHistory: medicalHistory.familyHistory,
+    },
+    currentMedications: {
+      medications: medications.map(m => ({
+        drugName: m.drugName,
+        genericName: m.genericName,
+        dosage: m.dosage,
+        frequency: m.frequency,
+        route: m.route,
+        startDate: m.startDate,
+        prescribedBy: m.prescribedBy,
+      })),
+    },
+    lifestyle: {
+      smoking: {
+        status: lifestyle.smokingStatus,
+        packsPerDay: lifestyle.smokingPacksPerDay || undefined,
+        years: lifestyle.smokingYears || undefined,
+      },
+      alcohol: {
+        frequency: lifestyle.alcoholFrequency,
+        drinksPerWeek: lifestyle.alcoholDrinksPerWeek || undefined,
+      },
+      exercise: {
+        frequency: lifestyle.exerciseFrequency,
+        minutesPerWeek: lifestyle.exerciseMinutesPerWeek || undefined,
+      },
+      diet: lifestyle.diet,
+      chiefComplaint: lifestyle.chiefComplaint as CompletePatientData['lifestyle']['chiefComplaint'],
+    },
+    labs,
+    ...(patient.pharmacogenomics && { pharmacogenomics: patient.pharmacogenomics }),
+  };
+}
+
+/**
+ * Stores a validated patient with its history, medications, lifestyle and
+ * lab results, and writes the 'created' audit entry. Returns the patient id.
+ */
+export async function storePatient(
+  patientData: CompletePatientData,
+  audit: IntakeAuditContext,
+  labResults: LabResult[] = [],
+): Promise<string> {
+  const bmi = patientBmi(patientData);
+  if (config.demoMode) {
+    const patientId = createPatientDemo(patientData, bmi, audit);
+    await labResultService.record(patientId, labResults);
+    return patientId;
+  }
+  return createPatientProduction(patientData, bmi, audit, labResults);
+}
@@ -0,0 +1,52 @@
+import { PHARMACOGENOMIC_GENES, PharmacogenomicProfile } from '@treatment-plan/clinical-knowledge';
+import { RawPharmacogenomicInput } from '../types';
+
+/**
+ * Pharmacogenomic Profile
+ *
+ * Phenotypes from a genotyping report, captured at intake. The gene–drug
+ * rules themselves live in the shared clinical-knowledge package and are
+ * applied during cross-validation.
+ */
+
+export interface NormalizedPharmacogenomics {
+  profile?: PharmacogenomicProfile;
+  errors: string[];
+}
+
+/**
+ * Validates each phenotype against the values its gene allows. Blank genes
+ * are left out, and a profile with no tested gene comes back undefined.
+ */
+export function normalizePharmacogenomicProfile(input: RawPharmacogenomicInput | null | undefined): NormalizedPharmacogenomics {
+  if (!input) return { errors: [] };
+
+  const profile: PharmacogenomicProfile = {};
+  const errors: string[] = [];
+
+  for (const gene of PHARMACOGENOMIC_GENES) {
+    const raw = input[gene.key];
+    if (raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '')) continue;
+
+    const value = typeof raw === 'string'
+      ? gene.values.find(allowed => allowed.toLowerCase() === raw.trim().toLowerCase())
+      : undefined;
+    if (!value) {
+      errors.push(`pharmacogenomics.${gene.key}: ${gene.label} must be one of ${gene.values.join(', ')}`);
+      continue;
+    }
+    Object.assign(profile, { [gene.key]: value });
+  }
+
+  if (input.testedAt) {
+    const testedAt = new Date(input.testedAt);
+    if (Number.isNaN(testedAt.getTime())) {
+      errors.push(`pharmacogenomics.testedAt: invalid date "${input.testedAt}"`);
+    } else {
+      profile.testedAt = testedAt.toISOString().slice(0, 10);
+    }
+  }
+
+  const tested = PHARMACOGENOMIC_GENES.some(gene => profile[gene.key]);
+  return { profile: tested ? profile : undefined, errors };
+}
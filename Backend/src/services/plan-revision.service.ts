@@ -0,0 +1,205 @@
+import { Transaction } from 'sequelize';
+import { config } from '../config';
+import { TreatmentPlanRevision } from '../models';
+import { demoStorage } from './demo-storage.service';
+import { DRUG_ONTOLOGY } from '@treatment-plan/clinical-knowledge';
+import {
+  AlternativeTreatmentChange,
+  DosageChange,
+  PlanFieldChange,
+  TreatmentPlanDiff,
+  TreatmentPlanResponse,
+  TreatmentPlanRevisionRecord,
+  TreatmentRecommendation,
+} from '../types';
+
+/**
+ * Treatment Plan Revisions
+ *
+ * Every change to a plan's treatment section is stored as a numbered,
+ * immutable snapshot. Revision 1 is always the AI's original proposal, so
+ * the history answers "what did the model suggest and who changed what,
+ * when and why" without replaying audit entries.
+ */
+
+const DOSING_FIELDS = ['dosage', 'frequency', 'route', 'duration'] as const;
+const DESCRIPTIVE_FIELDS = ['medication', 'genericName', 'instructions', 'reason'] as const;
+
+export const BASELINE_REVISION_REASON = 'Original AI-generated proposal';
+
+export interface RevisionAuthor {
+  userId: string;
+  userName: string;
+}
+
+// Drugs are matched across revisions by concept, so "Advil" -> "ibuprofen" is an edit, not a swap
+function drugKey(recommendation: TreatmentRecommendation): string {
+  return DRUG_ONTOLOGY.canonicalName(recommendation.genericName || recommendation.medication || '');
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function fieldChanges(
+  before: TreatmentRecommendation,
+  after: TreatmentRecommendation,
+  fields: readonly (keyof TreatmentRecommendation)[],
+): PlanFieldChange[] {
+  return fields
+    .filter(field => !sameValue(before[field], after[field]))
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+function dosageChanges(before: TreatmentRecommendation, after: TreatmentRecommendation): DosageChange[] {
+  return fieldChanges(before, after, DOSING_FIELDS).map(change => ({ ...change, medication: after.medication }));
+}
+
+/**
+ * Structured diff of the treatment section of two plan snapshots: the primary
+ * treatment, alternatives matched by drug concept, dosing changes for drugs
+ * present in both, and supportive care.
+ */
+export function diffTreatmentData(before: TreatmentPlanResponse, after: TreatmentPlanResponse): TreatmentPlanDiff {
+  const beforePlan = before.treatmentPlan;
+  const afterPlan = after.treatmentPlan;
+  const dosage: DosageChange[] = [];
+
+  let primaryTreatment: PlanFieldChange[];
+  if (drugKey(beforePlan.primaryTreatment) === drugKey(afterPlan.primaryTreatment)) {
+    primaryTreatment = fieldChanges(beforePlan.primaryTreatment, afterPlan.primaryTreatment, DESCRIPTIVE_FIELDS);
+    dosage.push(...dosageChanges(beforePlan.primaryTreatment, afterPlan.primaryTreatment));
+  } else {
+    // A different drug: dosing changes are meaningless on their own, report the whole swap
+    primaryTreatment = fieldChanges(
+      beforePlan.primaryTreatment,
+      afterPlan.primaryTreatment,
+      [...DESCRIPTIVE_FIELDS, ...DOSING_FIELDS],
+    );
+  }
+
+  const beforeAlternatives = new Map((beforePlan.alternativeTreatments ?? []).map(t => [drugKey(t), t]));
+  const afterAlternatives = new Map((afterPlan.alternativeTreatments ?? []).map(t => [drugKey(t), t]));
+  const added: TreatmentRecommendation[] = [];
+  const removed: TreatmentRecommendation[] = [];
+  const changed: AlternativeTreatmentChange[] = [];
+
+  for (const [key, alternative] of afterAlternatives) {
+    const previous = beforeAlternatives.get(key);
+    if (!previous) {
+      added.push(alternative);
+      continue;
+    }
+    const changes = fieldChanges(previous, alternative, DESCRIPTIVE_FIELDS);
+    if (changes.length > 0) {
+      changed.push({ medication: alternative.medication, changes });
+    }
+    dosage.push(...dosageChanges(previous, alternative));
+  }
+  for (const [key, alternative] of beforeAlternatives) {
+    if (!afterAlternatives.has(key)) removed.push(alternative);
+  }
+
+  const beforeCare = beforePlan.supportiveCare ?? [];
+  const afterCare = afterPlan.supportiveCare ?? [];
+  const supportiveCare = {
+    added: afterCare.filter(item => !beforeCare.includes(item)),
+    removed: beforeCare.filter(item => !afterCare.includes(item)),
+  };
+
+  return {
+    primaryTreatment,
+    alternatives: { added, removed, changed },
+    dosage,
+    supportiveCare,
+    hasChanges: primaryTreatment.length > 0
+      || added.length > 0
+      || removed.length > 0
+      || changed.length > 0
+      || dosage.length > 0
+      || supportiveCare.added.length > 0
+      || supportiveCare.removed.length > 0,
+  };
+}
+
+function toRecord(revision: TreatmentPlanRevision): TreatmentPlanRevisionRecord {
+  return revision.get({ plain: true }) as TreatmentPlanRevisionRecord;
+}
+
+class PlanRevisionService {
+  /** Revisions of a plan, oldest first. */
+  async listRevisions(treatmentPlanId: string, transaction?: Transaction): Promise<TreatmentPlanRevisionRecord[]> {
+    if (config.demoMode) {
+      return demoStorage.getTreatmentPlanRevisions(treatmentPlanId);
+    }
+    const revisions = await TreatmentPlanRevision.findAll({
+      where: { treatmentPlanId },
+      order: [['revisionNumber', 'ASC']],
+      transaction,
+    });
+    return revisions.map(toRecord);
+  }
+
+  async getRevision(treatmentPlanId: string, revisionNumber: number): Promise<TreatmentPlanRevisionRecord | undefined> {
+    const revisions = await this.listRevisions(treatmentPlanId);
+    return revisions.find(r => r.revisionNumber === revisionNumber);
+  }
+
+  /** Stores revision 1, the plan exactly as the AI proposed it. */
+  async recordBaseline(
+    treatmentPlanId: string,
+    treatmentData: TreatmentPlanResponse,
+    author: RevisionAuthor,
+    transaction?: Transaction,
+  ): Promise<TreatmentPlanRevisionRecord> {
+    return this.store({
+      treatmentPlanId,
+      revisionNumber: 1,
+      authorId: author.userId,
+      authorName: author.userName,
+      reason: BASELINE_REVISION_REASON,
+      snapshot: treatmentData,
+      diff: null,
+    }, transaction);
+  }
+
+  /**
+   * Appends a revision holding `nextData` and its diff against the latest
+   * revision. Plans created before revisions existed get their current data
+   * recorded as the baseline first. The caller must hold a lock on the plan
+   * row in production so revision numbers stay gap-free.
+   */
+  async recordRevision(
+    plan: { id: string; treatmentData: TreatmentPlanResponse },
+    nextData: TreatmentPlanResponse,
+    author: RevisionAuthor,
+    reason: string | null,
+    transaction?: Transaction,
+  ): Promise<TreatmentPlanRevisionRecord> {
+    const revisions = await this.listRevisions(plan.id, transaction);
+    const latest = revisions[revisions.length - 1]
+      ?? await this.recordBaseline(plan.id, plan.treatmentData, { userId: 'system', userName: 'System' }, transaction);
+
+    return this.store({
+      treatmentPlanId: plan.id,
+      revisionNumber: latest.revisionNumber + 1,
+      authorId: author.userId,
+      authorName: author.userName,
+      reason,
+      snapshot: nextData,
+      diff: diffTreatmentData(latest.snapshot, nextData),
+    }, transaction);
+  }
+
+  private async store(
+    data: Omit<TreatmentPlanRevisionRecord, 'id' | 'createdAt'>,
+    transaction?: Transaction,
+  ): Promise<TreatmentPlanRevisionRecord> {
+    if (config.demoMode) {
+      return demoStorage.createTreatmentPlanRevision(data);
+    }
+    return toRecord(await TreatmentPlanRevision.create(data, { transaction }));
+  }
+}
+
+export const planRevisionService = new PlanRevisionService();
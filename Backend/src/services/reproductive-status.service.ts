@@ -0,0 +1,47 @@
+import { ReproductiveStatus, Trimester } from '@treatment-plan/clinical-knowledge';
+import { RawReproductiveInput } from '../types';
+
+/**
+ * Pregnancy and Lactation Status
+ *
+ * Recorded with the demographics at intake. Pregnancy contraindications and
+ * lactation risks are applied during cross-validation and by the rule-based
+ * plan generator.
+ */
+
+export interface NormalizedReproductiveStatus {
+  status: ReproductiveStatus;
+  errors: string[];
+}
+
+const isTrimester = (value: unknown): value is Trimester => value === 1 || value === 2 || value === 3;
+
+/**
+ * Checks the flags against each other and the patient's sex. Only the flags
+ * that are set are kept, so a non-pregnant, non-breastfeeding patient comes
+ * back with an empty status.
+ */
+export function normalizeReproductiveStatus(input: RawReproductiveInput, sex?: string): NormalizedReproductiveStatus {
+  const errors: string[] = [];
+  const { pregnant, trimester, lactating } = input;
+
+  for (const [field, value] of Object.entries({ pregnant, lactating })) {
+    if (value !== undefined && value !== null && typeof value !== 'boolean') {
+      errors.push(`demographics.${field}: must be true or false`);
+    }
+  }
+  if (trimester !== undefined && trimester !== null) {
+    if (!isTrimester(trimester)) errors.push('demographics.trimester: must be 1, 2 or 3');
+    else if (pregnant !== true) errors.push('demographics.trimester: only recorded for a pregnant patient');
+  }
+  if (sex === 'male' && (pregnant === true || lactating === true)) {
+    errors.push('demographics.pregnant: pregnancy and lactation cannot be recorded for a male patient');
+  }
+
+  const status: ReproductiveStatus = {
+    ...(pregnant === true && { pregnant: true }),
+    ...(pregnant === true && isTrimester(trimester) && { trimester }),
+    ...(lactating === true && { lactating: true }),
+  };
+  return { status, errors };
+}
@@ -0,0 +1,308 @@
+/**
+ * Risk Model Trainer
+ *
+ * Server-side training for the risk prediction network the dashboard runs
+ * with TensorFlow.js. The layer stack, feature ranges and weight layout
+ * match RiskPredictionModel in the frontend, so a trained artifact loads
+ * there with `model.setWeights` instead of being retrained in every browser.
+ */
+
+export const RISK_MODEL_FORMAT = 'risk-mlp/v1';
+
+// [min, max] per input feature, in order: age, BMI, systolic BP, diastolic BP,
+// heart rate, conditions, allergies, medications, smoking, alcohol, exercise
+export const RISK_FEATURE_RANGES: ReadonlyArray<[number, number]> = [
+  [0, 120],
+  [10, 50],
+  [70, 220],
+  [40, 140],
+  [30, 200],
+  [0, 20],
+  [0, 15],
+  [0, 30],
+  [0, 100],
+  [0, 100],
+  [0, 100],
+];
+
+type Activation = 'relu' | 'sigmoid';
+
+interface LayerSpec {
+  units: number;
+  activation: Activation;
+  // L2 kernel regularisation, as in the frontend model
+  l2: number;
+}
+
+// Dropout layers in the frontend model carry no weights and are skipped here
+const RISK_MODEL_LAYERS: LayerSpec[] = [
+  { units: 64, activation: 'relu', l2: 0.01 },
+  { units: 32, activation: 'relu', l2: 0.01 },
+  { units: 16, activation: 'relu', l2: 0 },
+  { units: 1, activation: 'sigmoid', l2: 0 },
+];
+
+export interface RiskModelArtifact {
+  format: typeof RISK_MODEL_FORMAT;
+  inputSize: number;
+  layers: Array<{ units: number; activation: Activation }>;
+  featureRanges: Array<[number, number]>;
+  // Kernel then bias for each dense layer, kernels row-major [inputs, units]
+  weights: Array<{ shape: number[]; values: number[] }>;
+}
+
+export interface RiskModelMetrics {
+  trainingSamples: number;
+  validationSamples: number;
+  epochs: number;
+  // Mean squared error on the 0-1 output scale, as reported by TensorFlow.js
+  trainMse: number;
+  validationMse: number | null;
+  // Mean absolute error in risk score points (0-100)
+  validationMae: number | null;
+}
+
+export interface TrainingSample {
+  inputs: number[];
+  output: number;
+}
+
+export interface TrainingOptions {
+  epochs?: number;
+  batchSize?: number;
+  learningRate?: number;
+  validationSplit?: number;
+  seed?: number;
+}
+
+interface DenseLayer extends LayerSpec {
+  inputs: number;
+  kernel: Float64Array;
+  bias: Float64Array;
+  kernelGrad: Float64Array;
+  biasGrad: Float64Array;
+  kernelM: Float64Array;
+  kernelV: Float64Array;
+  biasM: Float64Array;
+  biasV: Float64Array;
+}
+
+// Small seeded PRNG so a training run is reproducible
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+export function normalizeFeatures(inputs: number[]): Float64Array {
+  return Float64Array.from(RISK_FEATURE_RANGES, ([min, max], i) =>
+    Math.max(0, Math.min(1, ((inputs[i] ?? 0) - min) / (max - min))),
+  );
+}
+
+function createLayers(random: () => number): DenseLayer[] {
+  let inputs = RISK_FEATURE_RANGES.length;
+  return RISK_MODEL_LAYERS.map(spec => {
+    // Glorot uniform, the TensorFlow.js default for dense kernels
+    const limit = Math.sqrt(6 / (inputs + spec.units));
+    const size = inputs * spec.units;
+    const layer: DenseLayer = {
+      ...spec,
+      inputs,
+      kernel: Float64Array.from({ length: size }, () => (random() * 2 - 1) * limit),
+      bias: new Float64Array(spec.units),
+      kernelGrad: new Float64Array(size),
+      biasGrad: new Float64Array(spec.units),
+      kernelM: new Float64Array(size),
+      kernelV: new Float64Array(size),
+      biasM: new Float64Array(spec.units),
+      biasV: new Float64Array(spec.units),
+    };
+    inputs = spec.units;
+    return layer;
+  });
+}
+
+// Activations of every layer, input first
+function forward(layers: DenseLayer[], input: Float64Array): Float64Array[] {
+  const activations = [input];
+  let current = input;
+  for (const layer of layers) {
+    const next = new Float64Array(layer.units);
+    for (let j = 0; j < layer.units; j++) {
+      let sum = layer.bias[j];
+      for (let i = 0; i < layer.inputs; i++) {
+        sum += current[i] * layer.kernel[i * layer.units + j];
+      }
+      next[j] = layer.activation === 'relu' ? Math.max(0, sum) : 1 / (1 + Math.exp(-sum));
+    }
+    activations.push(next);
+    current = next;
+  }
+  return activations;
+}
+
+function accumulateGradients(layers: DenseLayer[], activations: Float64Array[], outputGrad: number): void {
+  let upstream = Float64Array.of(outputGrad);
+  for (let l = layers.length - 1; l >= 0; l--) {
+    const layer = layers[l];
+    const input = activations[l];
+    const output = activations[l + 1];
+    const delta = new Float64Array(layer.units);
+    for (let j = 0; j < layer.units; j++) {
+      const derivative = layer.activation === 'relu'
+        ? (output[j] > 0 ? 1 : 0)
+        : output[j] * (1 - output[j]);
+      delta[j] = upstream[j] * derivative;
+      layer.biasGrad[j] += delta[j];
+    }
+
+    const downstream = new Float64Array(layer.inputs);
+    for (let i = 0; i < layer.inputs; i++) {
+      let sum = 0;
+      for (let j = 0; j < layer.units; j++) {
+        const k = i * layer.units + j;
+        layer.kernelGrad[k] += input[i] * delta[j];
+        sum += layer.kernel[k] * delta[j];
+      }
+      downstream[i] = sum;
+    }
+    upstream = downstream;
+  }
+}
+
+function adamStep(layers: DenseLayer[], step: number, learningRate: number): void {
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+  const epsilon = 1e-7;
+  const correctedRate = learningRate * Math.sqrt(1 - beta2 ** step) / (1 - beta1 ** step);
+
+  const update = (params: Float64Array, grads: Float64Array, m: Float64Array, v: Float64Array, l2: number) => {
+    for (let i = 0; i < params.length; i++) {
+      const g = grads[i] + 2 * l2 * params[i];
+      m[i] = beta1 * m[i] + (1 - beta1) * g;
+      v[i] = beta2 * v[i] + (1 - beta2) * g * g;
+      params[i] -= correctedRate * m[i] / (Math.sqrt(v[i]) + epsilon);
+      grads[i] = 0;
+    }
+  };
+
+  for (const layer of layers) {
+    update(layer.kernel, layer.kernelGrad, layer.kernelM, layer.kernelV, layer.l2);
+    update(layer.bias, layer.biasGrad, layer.biasM, layer.biasV, 0);
+  }
+}
+
+function evaluate(layers: DenseLayer[], data: Array<{ x: Float64Array; y: number }>): { mse: number; mae: number } {
+  let squared = 0;
+  let absolute = 0;
+  for (const { x, y } of data) {
+    const prediction = forward(layers, x).at(-1)![0];
+    squared += (prediction - y) ** 2;
+    absolute += Math.abs(prediction - y);
+  }
+  return { mse: squared / data.length, mae: (absolute / data.length) * 100 };
+}
+
+const round = (value: number, digits = 6) => Number(value.toFixed(digits));
+
+function toArtifact(layers: DenseLayer[]): RiskModelArtifact {
+  return {
+    format: RISK_MODEL_FORMAT,
+    inputSize: RISK_FEATURE_RANGES.length,
+    layers: layers.map(({ units, activation }) => ({ units, activation })),
+    featureRanges: RISK_FEATURE_RANGES.map(([min, max]) => [min, max]),
+    weights: layers.flatMap(layer => [
+      { shape: [layer.inputs, layer.units], values: Array.from(layer.kernel, v => round(v, 8)) },
+      { shape: [layer.units], values: Array.from(layer.bias, v => round(v, 8)) },
+    ]),
+  };
+}
+
+/**
+ * Trains the risk network with Adam on mean squared error. Yields to the
+ * event loop after every epoch so a retraining job does not stall requests.
+ */
+export async function trainRiskModel(
+  samples: TrainingSample[],
+  options: TrainingOptions = {},
+): Promise<{ artifact: RiskModelArtifact; metrics: RiskModelMetrics }> {
+  const { epochs = 150, batchSize = 16, learningRate = 0.001, validationSplit = 0.15, seed = 42 } = options;
+  if (samples.length === 0) {
+    throw new Error('Cannot train the risk model without samples');
+  }
+
+  const random = mulberry32(seed);
+  const data = shuffle(
+    samples.map(sample => ({ x: normalizeFeatures(sample.inputs), y: Math.max(0, Math.min(100, sample.output)) / 100 })),
+    random,
+  );
+  const validationCount = Math.floor(data.length * validationSplit);
+  const validation = data.slice(data.length - validationCount);
+  const training = data.slice(0, data.length - validationCount);
+
+  const layers = createLayers(random);
+  let step = 0;
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    shuffle(training, random);
+    for (let start = 0; start < training.length; start += batchSize) {
+      const batch = training.slice(start, start + batchSize);
+      for (const { x, y } of batch) {
+        const activations = forward(layers, x);
+        const prediction = activations.at(-1)![0];
+        accumulateGradients(layers, activations, (2 * (prediction - y)) / batch.length);
+      }
+      step += 1;
+      adamStep(layers, step, learningRate);
+    }
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  const trainScore = evaluate(layers, training);
+  const validationScore = validation.length > 0 ? evaluate(layers, validation) : null;
+
+  return {
+    artifact: toArtifact(layers),
+    metrics: {
+      trainingSamples: training.length,
+      validationSamples: validation.length,
+      epochs,
+      trainMse: round(trainScore.mse),
+      validationMse: validationScore ? round(validationScore.mse) : null,
+      validationMae: validationScore ? round(validationScore.mae, 2) : null,
+    },
+  };
+}
+
+/** Risk score (0-100) for raw feature inputs, using a trained artifact */
+export function predictRiskScore(artifact: RiskModelArtifact, inputs: number[]): number {
+  let current = normalizeFeatures(inputs);
+  artifact.layers.forEach((layer, l) => {
+    const kernel = artifact.weights[l * 2];
+    const bias = artifact.weights[l * 2 + 1];
+    const [inputSize, units] = kernel.shape;
+    const next = new Float64Array(units);
+    for (let j = 0; j < units; j++) {
+      let sum = bias.values[j];
+      for (let i = 0; i < inputSize; i++) {
+        sum += current[i] * kernel.values[i * units + j];
+      }
+      next[j] = layer.activation === 'relu' ? Math.max(0, sum) : 1 / (1 + Math.exp(-sum));
+    }
+    current = next;
+  });
+  return Math.round(current[0] * 100);
+}
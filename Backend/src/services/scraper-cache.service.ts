@@ -0,0 +1,566 @@
+import fs from 'node:fs';
+import net from 'node:net';
+import path from 'node:path';
+import sqlite3 from 'sqlite3';
+import { config } from '../config';
+import logger from '../config/logger';
+
+/**
+ * Medical Data Scraper Cache
+ *
+ * Answers from OpenFDA, RxNorm and DailyMed are cached per source call, each
+ * source with its own freshness window. Past that window an entry is still
+ * served for a while (stale-while-revalidate) and refreshed in the background,
+ * so a slow or unreachable API does not hold up a clinical context lookup.
+ * Entries live in a pluggable store chosen by SCRAPER_CACHE_BACKEND: an
+ * in-process LRU, an SQLite file that survives restarts, or any server that
+ * speaks the Redis protocol and can be shared between instances.
+ */
+
+export type ScraperCacheSource = 'rxnorm' | 'openfdaLabels' | 'openfdaEvents' | 'dailymed';
+export type ScraperCacheBackend = 'memory' | 'sqlite' | 'redis';
+
+export const SCRAPER_CACHE_BACKENDS: readonly ScraperCacheBackend[] = ['memory', 'sqlite', 'redis'];
+export const SCRAPER_CACHE_SOURCES: readonly ScraperCacheSource[] = ['rxnorm', 'openfdaLabels', 'openfdaEvents', 'dailymed'];
+
+export interface ScraperCacheEntry {
+  value: unknown;
+  storedAt: number;
+  // Served as fresh until expiresAt, then served stale and refreshed until staleUntil
+  expiresAt: number;
+  staleUntil: number;
+}
+
+export interface ScraperCacheStoreStats {
+  // null when the backend cannot count cheaply (Redis)
+  entries: number | null;
+  maxEntries: number | null;
+  oldestStoredAt: number | null;
+  evictions: number;
+}
+
+export interface ScraperCacheStore {
+  readonly backend: ScraperCacheBackend;
+  get(key: string): Promise<ScraperCacheEntry | null>;
+  set(key: string, entry: ScraperCacheEntry): Promise<void>;
+  clear(): Promise<void>;
+  stats(): Promise<ScraperCacheStoreStats>;
+}
+
+export interface ScraperCachePolicy {
+  ttlMs: Record<ScraperCacheSource, number>;
+  // Empty answers are usually a failed or rate-limited call, so they are retried sooner
+  emptyTtlMs: number;
+  staleMs: number;
+}
+
+interface SourceCounters {
+  hits: number;
+  staleHits: number;
+  misses: number;
+}
+
+export interface ScraperCacheStats {
+  backend: ScraperCacheBackend;
+  size: number | null;
+  maxEntries: number | null;
+  oldestEntry: Date | null;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  hitRate: number;
+  refreshes: number;
+  refreshFailures: number;
+  evictions: number;
+  storeErrors: number;
+  bySource: Record<ScraperCacheSource, SourceCounters>;
+}
+
+// ===================== STORES =====================
+
+/** Least-recently-used entries are dropped once maxEntries is reached; lost on restart */
+export class MemoryLruStore implements ScraperCacheStore {
+  readonly backend = 'memory';
+  private readonly entries = new Map<string, ScraperCacheEntry>();
+  private evictions = 0;
+
+  constructor(private readonly maxEntries: number, private readonly now: () => number = Date.now) {}
+
+  async get(key: string): Promise<ScraperCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.staleUntil <= this.now()) return null;
+    // Map keeps insertion order, so re-inserting marks the entry as most recently used
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: ScraperCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const leastRecent = this.entries.keys().next().value as string;
+      this.entries.delete(leastRecent);
+      this.evictions++;
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async stats(): Promise<ScraperCacheStoreStats> {
+    let oldest: number | null = null;
+    for (const entry of this.entries.values()) {
+      if (oldest === null || entry.storedAt < oldest) oldest = entry.storedAt;
+    }
+    return { entries: this.entries.size, maxEntries: this.maxEntries, oldestStoredAt: oldest, evictions: this.evictions };
+  }
+}
+
+interface SqliteCacheRow {
+  value: string;
+  stored_at: number;
+  expires_at: number;
+  stale_until: number;
+}
+
+/** One SQLite file on disk, so the cache survives restarts; bounded like the LRU store */
+export class SqliteCacheStore implements ScraperCacheStore {
+  readonly backend = 'sqlite';
+  private db: Promise<sqlite3.Database> | null = null;
+  private evictions = 0;
+  // Access order for eviction; strictly increasing even within one millisecond
+  private lastAccess = 0;
+
+  constructor(
+    private readonly file: string,
+    private readonly maxEntries: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  private open(): Promise<sqlite3.Database> {
+    this.db ??= (async () => {
+      if (this.file !== ':memory:') await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+      const db = await new Promise<sqlite3.Database>((resolve, reject) => {
+        const opened = new sqlite3.Database(this.file, error => (error ? reject(error) : resolve(opened)));
+      });
+      await this.run(db, `CREATE TABLE IF NOT EXISTS scraper_cache (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        stored_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        stale_until INTEGER NOT NULL,
+        accessed_at INTEGER NOT NULL
+      )`);
+      await this.run(db, 'CREATE INDEX IF NOT EXISTS scraper_cache_accessed_at ON scraper_cache (accessed_at)');
+      return db;
+    })();
+    // A failed open is retried on the next call instead of failing forever
+    this.db.catch(() => { this.db = null; });
+    return this.db;
+  }
+
+  private run(db: sqlite3.Database, sql: string, params: unknown[] = []): Promise<number> {
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, function (error) {
+        if (error) reject(error);
+        else resolve(this.changes);
+      });
+    });
+  }
+
+  private query<T>(db: sqlite3.Database, sql: string, params: unknown[] = []): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      db.get(sql, params, (error, row) => (error ? reject(error) : resolve(row as T | undefined)));
+    });
+  }
+
+  private accessTick(): number {
+    this.lastAccess = Math.max(this.now(), this.lastAccess + 1);
+    return this.lastAccess;
+  }
+
+  async get(key: string): Promise<ScraperCacheEntry | null> {
+    const db = await this.open();
+    const row = await this.query<SqliteCacheRow>(db, 'SELECT value, stored_at, expires_at, stale_until FROM scraper_cache WHERE key = ?', [key]);
+    if (!row) return null;
+
+    if (row.stale_until <= this.now()) {
+      await this.run(db, 'DELETE FROM scraper_cache WHERE key = ?', [key]);
+      return null;
+    }
+    await this.run(db, 'UPDATE scraper_cache SET accessed_at = ? WHERE key = ?', [this.accessTick(), key]);
+    return { value: JSON.parse(row.value), storedAt: row.stored_at, expiresAt: row.expires_at, staleUntil: row.stale_until };
+  }
+
+  async set(key: string, entry: ScraperCacheEntry): Promise<void> {
+    const db = await this.open();
+    await this.run(
+      db,
+      'INSERT OR REPLACE INTO scraper_cache (key, value, stored_at, expires_at, stale_until, accessed_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [key, JSON.stringify(entry.value), entry.storedAt, entry.expiresAt, entry.staleUntil, this.accessTick()],
+    );
+
+    await this.run(db, 'DELETE FROM scraper_cache WHERE stale_until <= ?', [this.now()]);
+    const { count } = await this.query<{ count: number }>(db, 'SELECT COUNT(*) AS count FROM scraper_cache') ?? { count: 0 };
+    if (count > this.maxEntries) {
+      this.evictions += await this.run(
+        db,
+        'DELETE FROM scraper_cache WHERE key IN (SELECT key FROM scraper_cache ORDER BY accessed_at LIMIT ?)',
+        [count - this.maxEntries],
+      );
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.run(await this.open(), 'DELETE FROM scraper_cache');
+  }
+
+  async close(): Promise<void> {
+    if (!this.db) return;
+    const db = await this.db;
+    this.db = null;
+    await new Promise<void>((resolve, reject) => db.close(error => (error ? reject(error) : resolve())));
+  }
+
+  async stats(): Promise<ScraperCacheStoreStats> {
+    const row = await this.query<{ count: number; oldest: number | null }>(
+      await this.open(),
+      'SELECT COUNT(*) AS count, MIN(stored_at) AS oldest FROM scraper_cache',
+    );
+    return { entries: row?.count ?? 0, maxEntries: this.maxEntries, oldestStoredAt: row?.oldest ?? null, evictions: this.evictions };
+  }
+}
+
+/**
+ * Anything that can send a raw Redis command. node-redis clients satisfy this
+ * as they are; `RespClient` below is used when no client is passed in.
+ */
+export interface RedisCommandClient {
+  sendCommand(args: string[]): Promise<unknown>;
+}
+
+/**
+ * Entries are stored under a key prefix with a PX expiry at the end of the
+ * stale window. Size is bounded by the server's maxmemory policy, not here.
+ */
+export class RedisCacheStore implements ScraperCacheStore {
+  readonly backend = 'redis';
+
+  constructor(
+    private readonly client: RedisCommandClient,
+    private readonly prefix = 'treatment-plan:scraper:',
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async get(key: string): Promise<ScraperCacheEntry | null> {
+    const raw = await this.client.sendCommand(['GET', this.prefix + key]);
+    return typeof raw === 'string' ? JSON.parse(raw) as ScraperCacheEntry : null;
+  }
+
+  async set(key: string, entry: ScraperCacheEntry): Promise<void> {
+    const ttlMs = Math.max(1, entry.staleUntil - this.now());
+    await this.client.sendCommand(['SET', this.prefix + key, JSON.stringify(entry), 'PX', String(ttlMs)]);
+  }
+
+  async clear(): Promise<void> {
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.client.sendCommand(['SCAN', cursor, 'MATCH', `${this.prefix}*`, 'COUNT', '500']) as [string, string[]];
+      if (keys.length > 0) await this.client.sendCommand(['DEL', ...keys]);
+      cursor = next;
+    } while (cursor !== '0');
+  }
+
+  async stats(): Promise<ScraperCacheStoreStats> {
+    return { entries: null, maxEntries: null, oldestStoredAt: null, evictions: 0 };
+  }
+}
+
+type RespValue = string | number | null | Error | RespValue[];
+
+// Returns the value and the offset after it, or null while the reply is incomplete
+function parseResp(buffer: Buffer, offset: number): [RespValue, number] | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (String.fromCharCode(buffer[offset])) {
+    case '+':
+      return [line, next];
+    case '-':
+      return [new Error(line), next];
+    case ':':
+      return [Number(line), next];
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return [null, next];
+      if (buffer.length < next + length + 2) return null;
+      return [buffer.toString('utf8', next, next + length), next + length + 2];
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return [null, next];
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseResp(buffer, position);
+        if (!item) return null;
+        items.push(item[0]);
+        position = item[1];
+      }
+      return [items, position];
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${String.fromCharCode(buffer[offset])}"`);
+  }
+}
+
+/**
+ * Minimal Redis protocol client for redis:// URLs (password and database
+ * number supported). Connects on first use and again after a dropped connection.
+ */
+export class RespClient implements RedisCommandClient {
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: Array<{ resolve: (value: unknown) => void; reject: (error: Error) => void }> = [];
+  private readonly url: URL;
+
+  constructor(url: string, private readonly timeoutMs = 2000) {
+    this.url = new URL(url);
+  }
+
+  private connect(): net.Socket {
+    const socket = net.createConnection({
+      host: this.url.hostname || 'localhost',
+      port: Number(this.url.port) || 6379,
+    });
+    socket.setTimeout(this.timeoutMs);
+    socket.unref();
+    socket.on('data', chunk => this.onData(chunk));
+    socket.on('timeout', () => socket.destroy(new Error('Redis connection timed out')));
+    socket.on('error', error => this.failPending(error));
+    socket.on('close', () => {
+      if (this.socket === socket) this.socket = null;
+      this.failPending(new Error('Redis connection closed'));
+    });
+    this.socket = socket;
+
+    // Queued ahead of the caller's command; their replies arrive first
+    const password = decodeURIComponent(this.url.password);
+    if (password) {
+      const username = decodeURIComponent(this.url.username);
+      this.write(username ? ['AUTH', username, password] : ['AUTH', password]).catch(() => { /* surfaces on the next command */ });
+    }
+    const database = this.url.pathname.replace('/', '');
+    if (database) this.write(['SELECT', database]).catch(() => { /* surfaces on the next command */ });
+    return socket;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    let offset = 0;
+    let parsed: [RespValue, number] | null;
+    while (offset < this.buffer.length && (parsed = parseResp(this.buffer, offset))) {
+      const [value, next] = parsed;
+      offset = next;
+      const waiter = this.pending.shift();
+      if (value instanceof Error) waiter?.reject(value);
+      else waiter?.resolve(value);
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private failPending(error: Error): void {
+    const waiting = this.pending;
+    this.pending = [];
+    this.buffer = Buffer.alloc(0);
+    for (const waiter of waiting) waiter.reject(error);
+  }
+
+  private write(args: string[]): Promise<unknown> {
+    const socket = this.socket ?? this.connect();
+    const command = `*${args.length}\r\n${args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')}`;
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(command);
+    });
+  }
+
+  sendCommand(args: string[]): Promise<unknown> {
+    return this.write(args);
+  }
+}
+
+/**
+ * Store named by SCRAPER_CACHE_BACKEND. Unknown names fall back to the
+ * in-memory LRU so a typo does not disable caching.
+ */
+export function createScraperCacheStore(settings: typeof config.scraperCache = config.scraperCache): ScraperCacheStore {
+  switch (settings.backend) {
+    case 'memory':
+      return new MemoryLruStore(settings.maxEntries);
+    case 'sqlite':
+      return new SqliteCacheStore(settings.sqlitePath, settings.maxEntries);
+    case 'redis':
+      return new RedisCacheStore(new RespClient(settings.redisUrl));
+    default:
+      logger.error(`Unknown SCRAPER_CACHE_BACKEND "${settings.backend}" - using the in-memory cache`);
+      return new MemoryLruStore(settings.maxEntries);
+  }
+}
+
+export function scraperCachePolicy(settings: typeof config.scraperCache = config.scraperCache): ScraperCachePolicy {
+  const hours = (value: number) => value * 60 * 60 * 1000;
+  return {
+    ttlMs: {
+      rxnorm: hours(settings.ttlHours.rxnorm),
+      openfdaLabels: hours(settings.ttlHours.openfdaLabels),
+      openfdaEvents: hours(settings.ttlHours.openfdaEvents),
+      dailymed: hours(settings.ttlHours.dailymed),
+    },
+    emptyTtlMs: hours(settings.emptyTtlHours),
+    staleMs: hours(settings.staleHours),
+  };
+}
+
+// ===================== CACHE =====================
+
+const isEmptyAnswer = (value: unknown) => value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+
+export class ScraperCache {
+  private readonly counters = new Map<ScraperCacheSource, SourceCounters>(
+    SCRAPER_CACHE_SOURCES.map(source => [source, { hits: 0, staleHits: 0, misses: 0 }]),
+  );
+  // One fetch per key at a time, whether it is a miss or a background refresh
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  private refreshes = 0;
+  private refreshFailures = 0;
+  private storeErrors = 0;
+
+  constructor(
+    private readonly store: ScraperCacheStore = createScraperCacheStore(),
+    private readonly policy: ScraperCachePolicy = scraperCachePolicy(),
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Cached answer for `key`, calling `fetch` on a miss. A stale entry is
+   * returned at once while `fetch` refreshes it in the background.
+   * With `useCache` false the source is always called and the answer stored.
+   */
+  async getOrFetch<T>(source: ScraperCacheSource, key: string, fetch: () => Promise<T>, useCache = true): Promise<T> {
+    const cacheKey = `${source}:${key}`;
+    const counters = this.counters.get(source)!;
+
+    const entry = useCache ? await this.read(cacheKey) : null;
+    const now = this.now();
+    if (entry && now < entry.expiresAt) {
+      counters.hits++;
+      return entry.value as T;
+    }
+    if (entry && now < entry.staleUntil) {
+      counters.staleHits++;
+      this.refresh(source, cacheKey, entry, fetch);
+      return entry.value as T;
+    }
+
+    counters.misses++;
+    return this.fetchOnce(cacheKey, async () => {
+      const value = await fetch();
+      await this.write(source, cacheKey, value);
+      return value;
+    });
+  }
+
+  private fetchOnce<T>(cacheKey: string, fetch: () => Promise<T>): Promise<T> {
+    const running = this.inFlight.get(cacheKey);
+    if (running) return running as Promise<T>;
+
+    const promise = fetch().finally(() => this.inFlight.delete(cacheKey));
+    this.inFlight.set(cacheKey, promise);
+    return promise;
+  }
+
+  private refresh<T>(source: ScraperCacheSource, cacheKey: string, stale: ScraperCacheEntry, fetch: () => Promise<T>): void {
+    if (this.inFlight.has(cacheKey)) return;
+    this.refreshes++;
+
+    this.fetchOnce(cacheKey, async () => {
+      const value = await fetch();
+      // The source services answer empty when the API call fails; keep serving what we had
+      if (isEmptyAnswer(value) && !isEmptyAnswer(stale.value)) {
+        this.refreshFailures++;
+        return value;
+      }
+      await this.write(source, cacheKey, value);
+      return value;
+    }).catch(error => {
+      this.refreshFailures++;
+      logger.warn('Scraper cache refresh failed', { key: cacheKey, error: (error as Error).message });
+    });
+  }
+
+  // Store failures are logged and treated as misses; the cache never breaks a lookup
+  private async read(cacheKey: string): Promise<ScraperCacheEntry | null> {
+    try {
+      return await this.store.get(cacheKey);
+    } catch (error) {
+      this.storeErrors++;
+      logger.warn('Scraper cache read failed', { backend: this.store.backend, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  private async write(source: ScraperCacheSource, cacheKey: string, value: unknown): Promise<void> {
+    const now = this.now();
+    const ttl = isEmptyAnswer(value) ? Math.min(this.policy.emptyTtlMs, this.policy.ttlMs[source]) : this.policy.ttlMs[source];
+    try {
+      await this.store.set(cacheKey, { value, storedAt: now, expiresAt: now + ttl, staleUntil: now + ttl + this.policy.staleMs });
+    } catch (error) {
+      this.storeErrors++;
+      logger.warn('Scraper cache write failed', { backend: this.store.backend, error: (error as Error).message });
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  async getStats(): Promise<ScraperCacheStats> {
+    let storeStats: ScraperCacheStoreStats = { entries: null, maxEntries: null, oldestStoredAt: null, evictions: 0 };
+    try {
+      storeStats = await this.store.stats();
+    } catch (error) {
+      this.storeErrors++;
+      logger.warn('Scraper cache stats failed', { backend: this.store.backend, error: (error as Error).message });
+    }
+
+    const bySource = Object.fromEntries(
+      SCRAPER_CACHE_SOURCES.map(source => [source, { ...this.counters.get(source)! }]),
+    ) as Record<ScraperCacheSource, SourceCounters>;
+    const totals = Object.values(bySource).reduce(
+      (sum, c) => ({ hits: sum.hits + c.hits, staleHits: sum.staleHits + c.staleHits, misses: sum.misses + c.misses }),
+      { hits: 0, staleHits: 0, misses: 0 },
+    );
+    const lookups = totals.hits + totals.staleHits + totals.misses;
+
+    return {
+      backend: this.store.backend,
+      size: storeStats.entries,
+      maxEntries: storeStats.maxEntries,
+      oldestEntry: storeStats.oldestStoredAt === null ? null : new Date(storeStats.oldestStoredAt),
+      ...totals,
+      hitRate: lookups > 0 ? Number(((totals.hits + totals.staleHits) / lookups).toFixed(4)) : 0,
+      refreshes: this.refreshes,
+      refreshFailures: this.refreshFailures,
+      evictions: storeStats.evictions,
+      storeErrors: this.storeErrors,
+      bySource,
+    };
+  }
+}
@@ -0,0 +1,212 @@
+import { Transaction } from 'sequelize';
+import { config } from '../config';
+import { TreatmentOutcome as TreatmentOutcomeModel } from '../models';
+import { demoStorage } from './demo-storage.service';
+import {
+  AdverseEventSeverity,
+  DiscontinuationReason,
+  OutcomeEfficacy,
+  RawTreatmentOutcomeInput,
+  TreatmentOutcome,
+  TreatmentOutcomeRecord,
+} from '../types';
+
+/**
+ * Treatment Outcomes
+ *
+ * Follow-up observations on approved plans: did the treatment work, was
+ * there an adverse event, was it stopped and why. Each outcome is turned
+ * into a realised risk score that adaptive learning uses as its label, so
+ * the risk model learns from what happened to patients rather than from
+ * the risk scores it produced itself.
+ */
+
+export const OUTCOME_EFFICACY: readonly OutcomeEfficacy[] = ['effective', 'partially_effective', 'ineffective'];
+export const ADVERSE_EVENT_SEVERITIES: readonly AdverseEventSeverity[] = ['mild', 'moderate', 'severe', 'life_threatening'];
+export const DISCONTINUATION_REASONS: readonly DiscontinuationReason[] = [
+  'adverse_event', 'ineffective', 'patient_choice', 'cost', 'completed', 'other',
+];
+
+const MAX_NOTES_LENGTH = 2000;
+
+// Realised risk for each finding; an outcome scores the worst that applies
+const EFFICACY_RISK: Record<OutcomeEfficacy, number> = {
+  effective: 10,
+  partially_effective: 30,
+  ineffective: 50,
+};
+const ADVERSE_EVENT_RISK: Record<AdverseEventSeverity, number> = {
+  mild: 40,
+  moderate: 60,
+  severe: 85,
+  life_threatening: 95,
+};
+const HOSPITALIZATION_RISK = 85;
+const STOPPED_FOR_ADVERSE_EVENT_RISK = 65;
+
+export interface NormalizedTreatmentOutcome {
+  outcome: TreatmentOutcome | null;
+  errors: string[];
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value);
+}
+
+/** Validates an outcome report; observation dates may not lie in the future. */
+export function normalizeTreatmentOutcome(
+  input: RawTreatmentOutcomeInput | undefined,
+  now = new Date(),
+): NormalizedTreatmentOutcome {
+  const errors: string[] = [];
+  const body = input ?? {};
+
+  if (!isOneOf(OUTCOME_EFFICACY, body.efficacy)) {
+    errors.push(`efficacy must be one of ${OUTCOME_EFFICACY.join(', ')}`);
+  }
+
+  let adverseEvent: TreatmentOutcome['adverseEvent'] = null;
+  if (body.adverseEvent) {
+    const { severity, description } = body.adverseEvent;
+    const describedAs = typeof description === 'string' ? description.trim() : '';
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      errors.push('adverseEvent.description must be text');
+    }
+    if (isOneOf(ADVERSE_EVENT_SEVERITIES, severity)) {
+      adverseEvent = { severity, description: describedAs };
+    } else {
+      errors.push(`adverseEvent.severity must be one of ${ADVERSE_EVENT_SEVERITIES.join(', ')}`);
+    }
+  }
+
+  const discontinued = body.discontinued === true;
+  let discontinuationReason: DiscontinuationReason | null = null;
+  if (discontinued) {
+    if (isOneOf(DISCONTINUATION_REASONS, body.discontinuationReason)) {
+      discontinuationReason = body.discontinuationReason;
+    } else {
+      errors.push(`discontinuationReason must be one of ${DISCONTINUATION_REASONS.join(', ')} when the treatment was discontinued`);
+    }
+  }
+  if (discontinuationReason === 'adverse_event' && !adverseEvent) {
+    errors.push('adverseEvent is required when the treatment was discontinued because of an adverse event');
+  }
+
+  const observedAt = body.observedAt ? new Date(body.observedAt) : now;
+  if (Number.isNaN(observedAt.getTime())) {
+    errors.push(`invalid observation date "${body.observedAt}"`);
+  } else if (observedAt.getTime() > now.getTime()) {
+    errors.push('observedAt cannot be in the future');
+  }
+
+  const notes = typeof body.notes === 'string' ? body.notes.trim() : '';
+  if (notes.length > MAX_NOTES_LENGTH) {
+    errors.push(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+  }
+
+  if (errors.length > 0) {
+    return { outcome: null, errors };
+  }
+
+  return {
+    outcome: {
+      efficacy: body.efficacy as OutcomeEfficacy,
+      adverseEvent,
+      discontinued,
+      discontinuationReason,
+      hospitalized: body.hospitalized === true,
+      observedAt: observedAt.toISOString(),
+      notes: notes || null,
+    },
+    errors,
+  };
+}
+
+/** Realised risk score (0-100) of an outcome, used as the training label. */
+export function outcomeRiskLabel(outcome: TreatmentOutcome): number {
+  const scores = [EFFICACY_RISK[outcome.efficacy]];
+  if (outcome.adverseEvent) scores.push(ADVERSE_EVENT_RISK[outcome.adverseEvent.severity]);
+  if (outcome.hospitalized) scores.push(HOSPITALIZATION_RISK);
+  if (outcome.discontinuationReason === 'adverse_event') scores.push(STOPPED_FOR_ADVERSE_EVENT_RISK);
+  return Math.max(...scores);
+}
+
+function toRecord(row: TreatmentOutcomeModel): TreatmentOutcomeRecord {
+  const plain = row.get({ plain: true });
+  return {
+    id: plain.id,
+    treatmentPlanId: plain.treatmentPlanId,
+    patientId: plain.patientId,
+    efficacy: plain.efficacy,
+    adverseEvent: plain.adverseEventSeverity
+      ? { severity: plain.adverseEventSeverity, description: plain.adverseEventDescription ?? '' }
+      : null,
+    discontinued: plain.discontinued,
+    discontinuationReason: plain.discontinuationReason,
+    hospitalized: plain.hospitalized,
+    observedAt: new Date(plain.observedAt).toISOString(),
+    notes: plain.notes,
+    riskLabel: plain.riskLabel,
+    recordedById: plain.recordedById,
+    recordedByName: plain.recordedByName,
+    createdAt: row.createdAt,
+  };
+}
+
+export interface OutcomeRecorder {
+  userId: string;
+  userName: string;
+}
+
+class TreatmentOutcomeService {
+  async record(
+    plan: { id: string; patientId: string },
+    outcome: TreatmentOutcome,
+    recorder: OutcomeRecorder,
+    transaction?: Transaction,
+  ): Promise<TreatmentOutcomeRecord> {
+    const riskLabel = outcomeRiskLabel(outcome);
+
+    if (config.demoMode) {
+      return demoStorage.addTreatmentOutcome({
+        ...outcome,
+        treatmentPlanId: plan.id,
+        patientId: plan.patientId,
+        riskLabel,
+        recordedById: recorder.userId,
+        recordedByName: recorder.userName,
+      });
+    }
+
+    const created = await TreatmentOutcomeModel.create({
+      treatmentPlanId: plan.id,
+      patientId: plan.patientId,
+      efficacy: outcome.efficacy,
+      adverseEventSeverity: outcome.adverseEvent?.severity ?? null,
+      adverseEventDescription: outcome.adverseEvent?.description || null,
+      discontinued: outcome.discontinued,
+      discontinuationReason: outcome.discontinuationReason,
+      hospitalized: outcome.hospitalized,
+      observedAt: new Date(outcome.observedAt),
+      notes: outcome.notes,
+      riskLabel,
+      recordedById: recorder.userId,
+      recordedByName: recorder.userName,
+    }, { transaction });
+    return toRecord(created);
+  }
+
+  /** Outcomes of one plan, most recently observed first. */
+  async list(treatmentPlanId: string): Promise<TreatmentOutcomeRecord[]> {
+    if (config.demoMode) {
+      return demoStorage.getTreatmentOutcomes(treatmentPlanId);
+    }
+    const rows = await TreatmentOutcomeModel.findAll({
+      where: { treatmentPlanId },
+      order: [['observedAt', 'DESC']],
+    });
+    return rows.map(toRecord);
+  }
+}
+
+export const treatmentOutcomeService = new TreatmentOutcomeService();
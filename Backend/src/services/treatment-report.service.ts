@@ -0,0 +1,672 @@
+import { createHash } from 'node:crypto';
+import { Transaction } from 'sequelize';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { config } from '../config';
+import { TreatmentPlanReportSnapshot } from '../models';
+import { demoStorage } from './demo-storage.service';
+import { ExportableTreatmentPlan } from './fhir-export.service';
+import {
+  CompletePatientData,
+  FlaggedIssue,
+  ReportMetadata,
+  TreatmentPlanReport,
+  TreatmentPlanReportSnapshotRecord,
+} from '../types';
+
+/**
+ * Treatment Plan Reports
+ *
+ * Server-side counterpart of the dashboard's PDF export: the same sections
+ * (patient, history, medications, risk, flagged issues, recommendations,
+ * rationale, provider approval) built once as a structured report and
+ * rendered to PDF and HTML. Approval stores all three as an immutable
+ * snapshot, so the plan can later be shown exactly as it was signed.
+ */
+
+declare module 'jspdf' {
+  interface jsPDF {
+    lastAutoTable?: { finalY: number };
+  }
+}
+
+const DISCLAIMER = 'DISCLAIMER: This treatment plan was generated using AI-assisted clinical decision support. '
+  + 'All recommendations should be reviewed and validated by a licensed healthcare provider. '
+  + 'This document is not a substitute for professional medical judgment. '
+  + 'The AI system is designed to assist, not replace, clinical decision-making.';
+
+const CONFIDENTIAL = 'CONFIDENTIAL - Protected Health Information';
+
+type Rgb = [number, number, number];
+
+const TEAL: Rgb = [0, 128, 128];
+
+const RISK_COLORS: Record<string, Rgb> = {
+  CRITICAL: [180, 0, 0],
+  HIGH: [200, 100, 0],
+  MEDIUM: [200, 180, 0],
+  LOW: [0, 150, 0],
+};
+
+const ISSUE_FILLS: Record<string, Rgb> = {
+  critical: [255, 200, 200],
+  high: [255, 220, 200],
+};
+
+const RATIONALE_SECTIONS = [
+  ['primaryChoice', 'Primary choice'],
+  ['riskBenefit', 'Risk/benefit'],
+  ['alternativeRationale', 'Alternatives'],
+  ['monitoringPlan', 'Monitoring plan'],
+  ['patientEducation', 'Patient education'],
+] as const;
+
+/** "2026-03-01 15:30 UTC"; reports are archived, so never in server-local time. */
+function formatTimestamp(iso: string): string {
+  return `${iso.slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function generatorLabel(plan: ExportableTreatmentPlan): string {
+  const provenance = plan.treatmentData.generatedBy;
+  return provenance
+    ? `AI Treatment Plan Assistant (${provenance.provider}, ${provenance.model})`
+    : 'AI Treatment Plan Assistant';
+}
+
+function isHighRisk(report: TreatmentPlanReport): boolean {
+  return ['HIGH', 'CRITICAL'].includes(report.plan.riskAssessment.overallRisk);
+}
+
+/**
+ * The structured report for a plan. `metadata` defaults to the plan's own
+ * provenance and approver; pass it to override, e.g. with the signing
+ * provider's NPI.
+ */
+export function buildTreatmentPlanReport(
+  plan: ExportableTreatmentPlan & { status: ReportMetadata['approvalStatus'] },
+  patient: CompletePatientData,
+  metadata: Partial<ReportMetadata> = {},
+  now: Date = new Date(),
+): TreatmentPlanReport {
+  return {
+    reportId: `TPR-${now.getTime().toString(36).toUpperCase()}`,
+    treatmentPlanId: plan.id,
+    generatedAt: now.toISOString(),
+    approvedAt: plan.approvedAt?.toISOString() ?? null,
+    knowledgeBaseVersion: plan.knowledgeBaseVersion,
+    metadata: {
+      generatedBy: generatorLabel(plan),
+      approvalStatus: plan.status,
+      ...(plan.approvedBy && { reviewedBy: plan.approvedBy }),
+      ...(config.reports.clinicName && { clinicName: config.reports.clinicName }),
+      ...metadata,
+    },
+    patient,
+    plan: plan.treatmentData,
+  };
+}
+
+// ============================================
+// PDF
+// ============================================
+
+/**
+ * jsPDF's standard fonts only cover Latin-1 reliably, so accents are folded
+ * and typographic punctuation replaced before anything is drawn.
+ */
+export function pdfText(value: unknown, fallback = ''): string {
+  if (value === null || value === undefined) return fallback;
+  const text = String(value)
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/•/g, '-')
+    .replace(/²/g, '2')
+    .replace(/°/g, ' deg ')
+    .replace(/≥/g, '>=')
+    .replace(/≤/g, '<=')
+    .normalize('NFKD')
+    .replace(/[^ -~\n]/g, '')
+    .replace(/[ ]{2,}/g, ' ')
+    .trim();
+  return text || fallback;
+}
+
+/** Renders the report in the layout of the dashboard PDF export. */
+export function renderReportPdf(report: TreatmentPlanReport): Buffer {
+  const { patient, plan, metadata } = report;
+  const { demographics, medicalHistory, currentMedications, lifestyle } = patient;
+  const risk = plan.riskAssessment;
+
+  const doc = new jsPDF();
+  // Same report in, same bytes out: the archived hash can be re-derived
+  doc.setCreationDate(new Date(report.generatedAt));
+  doc.setFileId(createHash('sha256').update(JSON.stringify(report)).digest('hex').slice(0, 32).toUpperCase());
+  doc.setProperties({
+    title: `Treatment Plan Report ${report.reportId}`,
+    subject: `Treatment plan ${report.treatmentPlanId}`,
+    creator: metadata.generatedBy,
+    ...(metadata.reviewedBy && { author: metadata.reviewedBy }),
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 15;
+  const contentWidth = pageWidth - 2 * margin;
+  let yPos = 20;
+
+  const checkPageBreak = (requiredSpace: number) => {
+    if (yPos + requiredSpace > 270) {
+      doc.addPage();
+      yPos = 20;
+    }
+  };
+  const heading = (text: string, size = 14, gap = 7) => {
+    doc.setFontSize(size);
+    doc.setFont('helvetica', 'bold');
+    doc.text(text, margin, yPos);
+    yPos += gap;
+  };
+  const table = (head: string[], body: string[][], fillColor: Rgb, gap = 10) => {
+    autoTable(doc, {
+      startY: yPos,
+      head: [head],
+      body,
+      theme: 'striped',
+      headStyles: { fillColor },
+      styles: { fontSize: 9 },
+      margin: { left: margin, right: margin },
+    });
+    yPos = (doc.lastAutoTable?.finalY ?? yPos) + gap;
+  };
+
+  // Header
+  doc.setFillColor(...TEAL);
+  doc.rect(0, 0, pageWidth, 35, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text('AI-Powered Treatment Plan Report', margin, 15);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Generated: ${formatTimestamp(report.generatedAt)}`, margin, 25);
+  doc.text(`Report ID: ${report.reportId}`, pageWidth - margin - 50, 25);
+  if (metadata.clinicName) {
+    doc.text(pdfText(metadata.clinicName), margin, 31);
+  }
+  yPos = 45;
+  doc.setTextColor(0, 0, 0);
+
+  // High-risk banner
+  if (isHighRisk(report)) {
+    doc.setFillColor(255, 200, 200);
+    doc.rect(margin, yPos, contentWidth, 15, 'F');
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(180, 0, 0);
+    doc.text(`WARNING: ${risk.overallRisk} RISK PATIENT - REVIEW CAREFULLY`, margin + 5, yPos + 10);
+    doc.setTextColor(0, 0, 0);
+    yPos += 20;
+  }
+
+  // Patient information
+  heading('Patient Information');
+  const bp = demographics.bloodPressure;
+  table(['Parameter', 'Value', 'Parameter', 'Value'], [
+    ['Patient ID', pdfText(demographics.patientId, 'N/A'), 'Age', `${demographics.age} years`],
+    ['Sex', pdfText(demographics.sex, 'N/A'), 'BMI', demographics.bmi ? `${demographics.bmi.toFixed(1)} kg/m2` : 'N/A'],
+    ['Weight', `${demographics.weight} kg`, 'Height', `${demographics.height} cm`],
+    ['Blood Pressure', bp ? `${bp.systolic}/${bp.diastolic} mmHg` : 'N/A', 'Heart Rate', `${demographics.heartRate} bpm`],
+    ['Temperature', `${demographics.temperature} F`, '', ''],
+  ], TEAL);
+
+  // Chief complaint
+  checkPageBreak(30);
+  heading('Chief Complaint');
+  const complaint = lifestyle.chiefComplaint;
+  const complaintLines: string[] = doc.splitTextToSize(
+    pdfText([complaint?.complaint, complaint?.duration && `for ${complaint.duration}`].filter(Boolean).join(' '), 'Not specified'),
+    contentWidth - 10,
+  );
+  const complaintBoxHeight = Math.max(15, complaintLines.length * 5 + 6);
+  doc.setFillColor(245, 245, 245);
+  doc.rect(margin, yPos, contentWidth, complaintBoxHeight, 'F');
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(complaintLines, margin + 5, yPos + 7);
+  yPos += complaintBoxHeight + 5;
+
+  // Medical history
+  checkPageBreak(50);
+  heading('Medical History');
+  if (medicalHistory.conditions.length > 0) {
+    table(['Condition', 'Severity', 'Controlled'], medicalHistory.conditions.map(c => [
+      pdfText(c.condition, 'Unknown'),
+      pdfText(c.severity, 'N/A'),
+      c.controlled ? 'Yes' : 'No',
+    ]), [100, 100, 100], 5);
+  }
+  checkPageBreak(30);
+  if (medicalHistory.allergies.length > 0) {
+    heading('Allergies', 11, 5);
+    table(['Allergen', 'Reaction', 'Severity'], medicalHistory.allergies.map(a => [
+      pdfText(a.allergen, 'Unknown'),
+      pdfText(a.reaction, 'N/A'),
+      pdfText(a.severity, 'N/A'),
+    ]), [200, 100, 100]);
+  }
+
+  // Current medications
+  checkPageBreak(50);
+  heading('Current Medications');
+  if (currentMedications.medications.length > 0) {
+    table(['Medication', 'Dosage', 'Frequency', 'Route'], currentMedications.medications.map(m => [
+      pdfText(m.drugName, 'Unknown'),
+      pdfText(m.dosage, 'N/A'),
+      pdfText(m.frequency, 'N/A'),
+      pdfText(m.route, 'Oral'),
+    ]), [0, 100, 150]);
+  } else {
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'italic');
+    doc.text('No current medications reported', margin, yPos);
+    yPos += 10;
+  }
+
+  // Risk assessment
+  checkPageBreak(60);
+  heading('Risk Assessment');
+  const boxes: Array<[string, string, Rgb]> = [
+    ['Risk Level', risk.overallRisk, RISK_COLORS[risk.overallRisk] ?? RISK_COLORS.LOW],
+    ['Risk Score', `${risk.riskScore}/100`, [60, 60, 60]],
+    ['Confidence', `${risk.confidenceScore}%`, [100, 100, 100]],
+  ];
+  boxes.forEach(([label, value, color], index) => {
+    const x = margin + index * 55;
+    doc.setFillColor(...color);
+    doc.roundedRect(x, yPos, 50, 25, 3, 3, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(label, x + 5, yPos + 8);
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text(value, x + 5, yPos + 20);
+  });
+  doc.setTextColor(0, 0, 0);
+  yPos += 35;
+
+  const riskFactors = risk.riskFactors.map(factor => pdfText(factor)).filter(Boolean);
+  if (riskFactors.length > 0) {
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Risk Factors:', margin, yPos);
+    yPos += 5;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    for (const factor of riskFactors) {
+      checkPageBreak(8);
+      doc.text(`- ${factor}`, margin + 5, yPos);
+      yPos += 5;
+    }
+    yPos += 5;
+  }
+
+  // Flagged issues
+  if (plan.flaggedIssues.length > 0) {
+    checkPageBreak(50);
+    doc.setTextColor(180, 0, 0);
+    heading('Flagged Safety Issues');
+    doc.setTextColor(0, 0, 0);
+
+    plan.flaggedIssues.forEach((issue, index) => {
+      const lines: string[] = doc.splitTextToSize(issueText(issue), contentWidth - 15);
+      const boxHeight = Math.max(20, 14 + lines.length * 4);
+      checkPageBreak(boxHeight + 5);
+
+      doc.setFillColor(...(ISSUE_FILLS[issue.severity] ?? [255, 255, 200]));
+      doc.rect(margin, yPos, contentWidth, boxHeight, 'F');
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.text(`${index + 1}. [${issue.severity.toUpperCase()}] ${issue.type}`, margin + 5, yPos + 7);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      doc.text(lines, margin + 5, yPos + 13);
+      yPos += boxHeight + 5;
+    });
+    yPos += 5;
+  }
+
+  // Treatment recommendations
+  doc.addPage();
+  yPos = 20;
+  heading('Treatment Recommendations', 16, 10);
+  const primary = plan.treatmentPlan.primaryTreatment;
+  const instructionLines: string[] = primary.instructions
+    ? doc.splitTextToSize(pdfText(primary.instructions), contentWidth - 15)
+    : [];
+  const cardHeight = Math.max(35, 24 + instructionLines.length * 4);
+  doc.setFillColor(...TEAL);
+  doc.roundedRect(margin, yPos, contentWidth, cardHeight, 3, 3, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`1. ${pdfText(primary.medication, 'Unknown Medication')}`, margin + 5, yPos + 10);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(
+    `Dosage: ${pdfText(primary.dosage, 'N/A')} | Frequency: ${pdfText(primary.frequency, 'N/A')} | Route: ${pdfText(primary.route, 'Oral')} | Duration: ${pdfText(primary.duration, 'N/A')}`,
+    margin + 5,
+    yPos + 20,
+  );
+  if (instructionLines.length > 0) {
+    doc.setFontSize(9);
+    doc.text(instructionLines, margin + 5, yPos + 28);
+  }
+  doc.setTextColor(0, 0, 0);
+  yPos += cardHeight + 10;
+
+  const supportiveCare = plan.treatmentPlan.supportiveCare.map(item => pdfText(item)).filter(Boolean);
+  if (supportiveCare.length > 0) {
+    checkPageBreak(20);
+    heading('Supportive Care', 11, 5);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    for (const item of supportiveCare) {
+      const lines: string[] = doc.splitTextToSize(`- ${item}`, contentWidth - 5);
+      checkPageBreak(lines.length * 5);
+      doc.text(lines, margin + 5, yPos);
+      yPos += lines.length * 5;
+    }
+    yPos += 5;
+  }
+
+  // Alternative treatments
+  const alternatives = plan.treatmentPlan.alternativeTreatments;
+  if (alternatives.length > 0) {
+    checkPageBreak(50);
+    heading('Alternative Treatments');
+    table(['Medication', 'Dosage', 'Reason'], alternatives.map(alt => [
+      pdfText(alt.medication, 'N/A'),
+      pdfText([alt.dosage, alt.frequency].filter(Boolean).join(' '), 'N/A'),
+      pdfText(alt.reason, 'Alternative option'),
+    ]), [100, 150, 100]);
+  }
+
+  // Clinical rationale
+  const rationale = RATIONALE_SECTIONS
+    .map(([key, label]) => [label, pdfText(plan.rationale?.[key])] as const)
+    .filter(([, text]) => text);
+  if (rationale.length > 0) {
+    checkPageBreak(40);
+    heading('Clinical Rationale');
+    for (const [label, text] of rationale) {
+      const lines: string[] = doc.splitTextToSize(text, contentWidth);
+      checkPageBreak(lines.length * 5 + 10);
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.text(label, margin, yPos);
+      yPos += 5;
+      doc.setFont('helvetica', 'normal');
+      doc.text(lines, margin, yPos);
+      yPos += lines.length * 5 + 5;
+    }
+  }
+
+  // Provider approval
+  doc.addPage();
+  yPos = 20;
+  heading('Provider Approval', 16, 15);
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'normal');
+  const approvalLines = [
+    `Report Status: ${metadata.approvalStatus.toUpperCase()}`,
+    `Generated By: ${pdfText(metadata.generatedBy, 'AI Treatment Plan Assistant')}`,
+    metadata.reviewedBy && `Reviewed By: ${pdfText(metadata.reviewedBy)}`,
+    metadata.providerNPI && `Provider NPI: ${pdfText(metadata.providerNPI)}`,
+    report.approvedAt && `Approved At: ${formatTimestamp(report.approvedAt)}`,
+    report.knowledgeBaseVersion && `Drug Knowledge Base: version ${pdfText(report.knowledgeBaseVersion)}`,
+  ].filter((line): line is string => Boolean(line));
+  for (const line of approvalLines) {
+    doc.text(line, margin, yPos);
+    yPos += 10;
+  }
+  yPos += 10;
+
+  doc.setDrawColor(0, 0, 0);
+  doc.line(margin, yPos + 15, margin + 80, yPos + 15);
+  doc.text('Provider Signature', margin, yPos + 22);
+  doc.line(margin + 100, yPos + 15, margin + 160, yPos + 15);
+  doc.text('Date', margin + 100, yPos + 22);
+  yPos += 40;
+
+  doc.setFillColor(245, 245, 245);
+  doc.rect(margin, yPos, contentWidth, 40, 'F');
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'italic');
+  doc.text(doc.splitTextToSize(DISCLAIMER, contentWidth - 10), margin + 5, yPos + 8);
+
+  // Page footer
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Page ${i} of ${totalPages}`, pageWidth - margin - 20, 287);
+    doc.text(CONFIDENTIAL, margin, 287);
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+function issueText(issue: FlaggedIssue): string {
+  const drugs = issue.affectedDrugs.length > 0 ? ` (${issue.affectedDrugs.join(', ')})` : '';
+  const parts = [
+    `${issue.description}${drugs}`,
+    issue.recommendation && `Recommendation: ${issue.recommendation}`,
+    issue.doseAdjustment && `Dose adjustment: ${issue.doseAdjustment}`,
+  ];
+  return pdfText(parts.filter(Boolean).join('\n'), 'No description available');
+}
+
+// ============================================
+// HTML
+// ============================================
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+function esc(value: unknown): string {
+  return String(value ?? '').replace(/[&<>"']/g, ch => HTML_ESCAPES[ch]);
+}
+
+function htmlTable(head: string[], rows: unknown[][]): string {
+  const headRow = head.map(cell => `<th>${esc(cell)}</th>`).join('');
+  const bodyRows = rows.map(row => `<tr>${row.map(cell => `<td>${esc(cell)}</td>`).join('')}</tr>`).join('\n');
+  return `<table>\n<thead><tr>${headRow}</tr></thead>\n<tbody>\n${bodyRows}\n</tbody>\n</table>`;
+}
+
+const HTML_STYLE = `
+body { font-family: Helvetica, Arial, sans-serif; color: #000; max-width: 60rem; margin: 0 auto; padding: 1rem; }
+header { background: #008080; color: #fff; padding: 1rem; }
+header h1 { margin: 0 0 .5rem; }
+.banner { background: #ffc8c8; color: #b40000; font-weight: bold; padding: .75rem; margin: 1rem 0; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 1rem; }
+th, td { border: 1px solid #ccc; padding: .25rem .5rem; text-align: left; }
+th { background: #eee; }
+.issue { padding: .5rem .75rem; margin-bottom: .5rem; background: #ffffc8; }
+.issue.critical { background: #ffc8c8; }
+.issue.high { background: #ffdcc8; }
+.disclaimer { background: #f5f5f5; font-style: italic; font-size: .8rem; padding: .75rem; }
+footer { font-size: .8rem; margin-top: 2rem; }
+`;
+
+/** Standalone, script-free HTML document with the same sections as the PDF. */
+export function renderReportHtml(report: TreatmentPlanReport): string {
+  const { patient, plan, metadata } = report;
+  const { demographics, medicalHistory, currentMedications, lifestyle } = patient;
+  const risk = plan.riskAssessment;
+  const primary = plan.treatmentPlan.primaryTreatment;
+  const bp = demographics.bloodPressure;
+  const complaint = lifestyle.chiefComplaint;
+  const sections: string[] = [];
+
+  if (isHighRisk(report)) {
+    sections.push(`<p class="banner">WARNING: ${esc(risk.overallRisk)} RISK PATIENT - REVIEW CAREFULLY</p>`);
+  }
+
+  sections.push('<section id="patient">\n<h2>Patient Information</h2>\n' + htmlTable(['Parameter', 'Value'], [
+    ['Patient ID', demographics.patientId],
+    ['Age', `${demographics.age} years`],
+    ['Sex', demographics.sex ?? 'N/A'],
+    ['Weight', `${demographics.weight} kg`],
+    ['Height', `${demographics.height} cm`],
+    ['BMI', demographics.bmi ? `${demographics.bmi.toFixed(1)} kg/m²` : 'N/A'],
+    ['Blood Pressure', bp ? `${bp.systolic}/${bp.diastolic} mmHg` : 'N/A'],
+    ['Heart Rate', `${demographics.heartRate} bpm`],
+    ['Temperature', `${demographics.temperature} °F`],
+  ]) + '\n</section>');
+
+  sections.push('<section id="chief-complaint">\n<h2>Chief Complaint</h2>\n'
+    + `<p>${esc([complaint?.complaint, complaint?.duration && `for ${complaint.duration}`].filter(Boolean).join(' ') || 'Not specified')}</p>\n</section>`);
+
+  const history = ['<section id="medical-history">', '<h2>Medical History</h2>'];
+  if (medicalHistory.conditions.length > 0) {
+    history.push(htmlTable(['Condition', 'Severity', 'Controlled'], medicalHistory.conditions.map(c => [
+      c.condition, c.severity ?? 'N/A', c.controlled ? 'Yes' : 'No',
+    ])));
+  }
+  if (medicalHistory.allergies.length > 0) {
+    history.push('<h3>Allergies</h3>', htmlTable(['Allergen', 'Reaction', 'Severity'], medicalHistory.allergies.map(a => [
+      a.allergen, a.reaction || 'N/A', a.severity ?? 'N/A',
+    ])));
+  }
+  sections.push([...history, '</section>'].join('\n'));
+
+  sections.push('<section id="current-medications">\n<h2>Current Medications</h2>\n' + (currentMedications.medications.length > 0
+    ? htmlTable(['Medication', 'Dosage', 'Frequency', 'Route'], currentMedications.medications.map(m => [
+      m.drugName, m.dosage || 'N/A', m.frequency || 'N/A', m.route || 'oral',
+    ]))
+    : '<p><em>No current medications reported</em></p>') + '\n</section>');
+
+  const riskSection = [
+    '<section id="risk-assessment">',
+    '<h2>Risk Assessment</h2>',
+    htmlTable(['Risk Level', 'Risk Score', 'Confidence'], [[risk.overallRisk, `${risk.riskScore}/100`, `${risk.confidenceScore}%`]]),
+  ];
+  if (risk.riskFactors.length > 0) {
+    riskSection.push('<h3>Risk Factors</h3>', `<ul>${risk.riskFactors.map(factor => `<li>${esc(factor)}</li>`).join('')}</ul>`);
+  }
+  sections.push([...riskSection, '</section>'].join('\n'));
+
+  if (plan.flaggedIssues.length > 0) {
+    sections.push('<section id="flagged-issues">\n<h2>Flagged Safety Issues</h2>\n' + plan.flaggedIssues.map((issue, index) => [
+      `<div class="issue ${esc(issue.severity)}">`,
+      `<strong>${index + 1}. [${esc(issue.severity.toUpperCase())}] ${esc(issue.type)}</strong>`,
+      `<p>${esc(issue.description)}${issue.affectedDrugs.length > 0 ? ` (${esc(issue.affectedDrugs.join(', '))})` : ''}</p>`,
+      issue.recommendation ? `<p>Recommendation: ${esc(issue.recommendation)}</p>` : '',
+      issue.doseAdjustment ? `<p>Dose adjustment: ${esc(issue.doseAdjustment)}</p>` : '',
+      '</div>',
+    ].filter(Boolean).join('\n')).join('\n') + '\n</section>');
+  }
+
+  const recommendations = [
+    '<section id="recommendations">',
+    '<h2>Treatment Recommendations</h2>',
+    `<h3>${esc(primary.medication)}</h3>`,
+    htmlTable(['Dosage', 'Frequency', 'Route', 'Duration'], [[primary.dosage, primary.frequency, primary.route || 'oral', primary.duration]]),
+  ];
+  if (primary.instructions) recommendations.push(`<p>${esc(primary.instructions)}</p>`);
+  if (plan.treatmentPlan.supportiveCare.length > 0) {
+    recommendations.push('<h3>Supportive Care</h3>', `<ul>${plan.treatmentPlan.supportiveCare.map(item => `<li>${esc(item)}</li>`).join('')}</ul>`);
+  }
+  sections.push([...recommendations, '</section>'].join('\n'));
+
+  if (plan.treatmentPlan.alternativeTreatments.length > 0) {
+    sections.push('<section id="alternatives">\n<h2>Alternative Treatments</h2>\n'
+      + htmlTable(['Medication', 'Dosage', 'Reason'], plan.treatmentPlan.alternativeTreatments.map(alt => [
+        alt.medication, [alt.dosage, alt.frequency].filter(Boolean).join(' ') || 'N/A', alt.reason || 'Alternative option',
+      ])) + '\n</section>');
+  }
+
+  const rationale = RATIONALE_SECTIONS.filter(([key]) => plan.rationale?.[key]);
+  if (rationale.length > 0) {
+    sections.push('<section id="rationale">\n<h2>Clinical Rationale</h2>\n<dl>\n'
+      + rationale.map(([key, label]) => `<dt>${esc(label)}</dt><dd>${esc(plan.rationale[key])}</dd>`).join('\n')
+      + '\n</dl>\n</section>');
+  }
+
+  const approval: Array<[string, string | null | undefined]> = [
+    ['Report Status', metadata.approvalStatus.toUpperCase()],
+    ['Generated By', metadata.generatedBy],
+    ['Reviewed By', metadata.reviewedBy],
+    ['Provider NPI', metadata.providerNPI],
+    ['Approved At', report.approvedAt && formatTimestamp(report.approvedAt)],
+    ['Drug Knowledge Base', report.knowledgeBaseVersion && `version ${report.knowledgeBaseVersion}`],
+  ];
+  sections.push('<section id="approval">\n<h2>Provider Approval</h2>\n<dl>\n'
+    + approval.filter(([, value]) => value).map(([label, value]) => `<dt>${esc(label)}</dt><dd>${esc(value)}</dd>`).join('\n')
+    + `\n</dl>\n<p class="disclaimer">${esc(DISCLAIMER)}</p>\n</section>`);
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<meta name="report-id" content="${esc(report.reportId)}">`,
+    `<meta name="treatment-plan-id" content="${esc(report.treatmentPlanId)}">`,
+    `<title>Treatment Plan Report ${esc(report.reportId)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    '<h1>AI-Powered Treatment Plan Report</h1>',
+    `<p>Generated: ${esc(formatTimestamp(report.generatedAt))} · Report ID: ${esc(report.reportId)}${metadata.clinicName ? ` · ${esc(metadata.clinicName)}` : ''}</p>`,
+    '</header>',
+    ...sections,
+    `<footer>${esc(CONFIDENTIAL)}</footer>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+// ============================================
+// Snapshots
+// ============================================
+
+function toRecord(snapshot: TreatmentPlanReportSnapshot): TreatmentPlanReportSnapshotRecord {
+  return snapshot.get({ plain: true }) as TreatmentPlanReportSnapshotRecord;
+}
+
+class TreatmentReportService {
+  /** Renders the report both ways and stores it with the plan. */
+  async storeSnapshot(report: TreatmentPlanReport, transaction?: Transaction): Promise<TreatmentPlanReportSnapshotRecord> {
+    const pdf = renderReportPdf(report);
+    const data = {
+      treatmentPlanId: report.treatmentPlanId,
+      report,
+      html: renderReportHtml(report),
+      pdf,
+      pdfSha256: createHash('sha256').update(pdf).digest('hex'),
+    };
+    if (config.demoMode) {
+      return demoStorage.createTreatmentPlanReportSnapshot(data);
+    }
+    return toRecord(await TreatmentPlanReportSnapshot.create(data, { transaction }));
+  }
+
+  /** The snapshot taken at the plan's most recent approval, if any. */
+  async latestSnapshot(treatmentPlanId: string): Promise<TreatmentPlanReportSnapshotRecord | null> {
+    if (config.demoMode) {
+      const snapshots = demoStorage.getTreatmentPlanReportSnapshots(treatmentPlanId);
+      return snapshots[snapshots.length - 1] ?? null;
+    }
+    const snapshot = await TreatmentPlanReportSnapshot.findOne({
+      where: { treatmentPlanId },
+      order: [['createdAt', 'DESC']],
+    });
+    return snapshot ? toRecord(snapshot) : null;
+  }
+}
+
+export const treatmentReportService = new TreatmentReportService();
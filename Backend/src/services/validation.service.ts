@@ -64,12 +64,13 @@ const TREATMENT_PLAN_SCHEMA = {
         required: ['type', 'severity', 'description', 'recommendation'],
         properties: {
           type: {
-            enum: ['interaction', 'contraindication', 'dosage', 'allergy', 'monitoring'],
+            enum: ['interaction', 'contraindication', 'dosage', 'allergy', 'monitoring', 'pharmacogenomic', 'pregnancy', 'lactation', 'duplication'],
           },
           severity: { enum: ['critical', 'high', 'medium', 'low'] },
           description: { type: 'string' },
           recommendation: { type: 'string' },
           affectedDrugs: { type: 'array', items: { type: 'string' } },
+          doseAdjustment: { type: 'string' },
         },
       },
     },
@@ -124,7 +125,9 @@ export const validateTreatmentPlan = (response: unknown): ValidationResult => {
       isValid: false,
       errors: validateSchema.errors?.map(err => ({
         field: err.instancePath || err.schemaPath,
-        message: err.message || 'Validation error',
+        message: err.keyword === 'enum'
+          ? `${err.message}: ${(err.params as { allowedValues: unknown[] }).allowedValues.join(', ')}`
+          : err.message || 'Validation error',
       })),
     };
   }
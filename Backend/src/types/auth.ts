@@ -0,0 +1,29 @@
+// Authentication & Authorization Types
+
+export const USER_ROLES = ['physician', 'pharmacist', 'nurse', 'admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+// Identity attached to a request once its bearer token has been verified
+export interface AuthenticatedUser {
+  id: string;
+  username: string;
+  fullName: string;
+  role: UserRole;
+}
+
+// Claims carried inside every token we sign
+export interface TokenClaims {
+  sub: string;
+  username: string;
+  fullName: string;
+  role: UserRole;
+  tokenType: 'access' | 'refresh';
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: string;
+}
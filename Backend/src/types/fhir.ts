@@ -0,0 +1,184 @@
+// FHIR R4 Types
+//
+// Only the elements the importer reads and the exporter writes; unknown
+// elements pass through untouched and are ignored.
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirIdentifier {
+  system?: string;
+  value?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  identifier?: FhirIdentifier;
+  display?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [element: string]: unknown;
+}
+
+export interface FhirPatient extends FhirResource {
+  resourceType: 'Patient';
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+}
+
+export interface FhirObservationComponent {
+  code: FhirCodeableConcept;
+  valueQuantity?: FhirQuantity;
+}
+
+export interface FhirObservation extends FhirResource {
+  resourceType: 'Observation';
+  status?: string;
+  code: FhirCodeableConcept;
+  effectiveDateTime?: string;
+  issued?: string;
+  valueQuantity?: FhirQuantity;
+  valueCodeableConcept?: FhirCodeableConcept;
+  valueBoolean?: boolean;
+  referenceRange?: Array<{ low?: FhirQuantity; high?: FhirQuantity }>;
+  component?: FhirObservationComponent[];
+}
+
+export interface FhirCondition extends FhirResource {
+  resourceType: 'Condition';
+  clinicalStatus?: FhirCodeableConcept;
+  code?: FhirCodeableConcept;
+  severity?: FhirCodeableConcept;
+  onsetDateTime?: string;
+  recordedDate?: string;
+}
+
+export interface FhirAllergyIntolerance extends FhirResource {
+  resourceType: 'AllergyIntolerance';
+  clinicalStatus?: FhirCodeableConcept;
+  criticality?: 'low' | 'high' | 'unable-to-assess';
+  code?: FhirCodeableConcept;
+  reaction?: Array<{
+    manifestation?: FhirCodeableConcept[];
+    severity?: 'mild' | 'moderate' | 'severe';
+  }>;
+}
+
+export interface FhirDosage {
+  text?: string;
+  timing?: { code?: FhirCodeableConcept; repeat?: { frequency?: number; period?: number; periodUnit?: string } };
+  route?: FhirCodeableConcept;
+  doseAndRate?: Array<{ doseQuantity?: FhirQuantity }>;
+}
+
+export interface FhirMedication extends FhirResource {
+  resourceType: 'Medication';
+  code?: FhirCodeableConcept;
+}
+
+export interface FhirMedicationStatement extends FhirResource {
+  resourceType: 'MedicationStatement';
+  status?: string;
+  medicationCodeableConcept?: FhirCodeableConcept;
+  medicationReference?: FhirReference;
+  effectivePeriod?: FhirPeriod;
+  effectiveDateTime?: string;
+  informationSource?: FhirReference;
+  dosage?: FhirDosage[];
+}
+
+export interface FhirProcedure extends FhirResource {
+  resourceType: 'Procedure';
+  status?: string;
+  code?: FhirCodeableConcept;
+  performedDateTime?: string;
+  performedPeriod?: FhirPeriod;
+}
+
+export interface FhirMedicationRequest extends FhirResource {
+  resourceType: 'MedicationRequest';
+  status: string;
+  intent: string;
+  medicationCodeableConcept: FhirCodeableConcept;
+  subject: FhirReference;
+  authoredOn?: string;
+  requester?: FhirReference;
+  dosageInstruction?: Array<FhirDosage & { patientInstruction?: string }>;
+  note?: Array<{ text: string }>;
+}
+
+export interface FhirCarePlanActivity {
+  reference?: FhirReference;
+  detail?: { kind?: string; code?: FhirCodeableConcept; status: string; description?: string };
+}
+
+export interface FhirCarePlan extends FhirResource {
+  resourceType: 'CarePlan';
+  status: string;
+  intent: string;
+  title?: string;
+  description?: string;
+  subject: FhirReference;
+  created?: string;
+  author?: FhirReference;
+  activity?: FhirCarePlanActivity[];
+  note?: Array<{ text: string }>;
+}
+
+export interface FhirDetectedIssue extends FhirResource {
+  resourceType: 'DetectedIssue';
+  status: string;
+  code?: FhirCodeableConcept;
+  severity?: 'high' | 'moderate' | 'low';
+  patient?: FhirReference;
+  implicated?: FhirReference[];
+  detail?: string;
+  mitigation?: Array<{ action: FhirCodeableConcept }>;
+}
+
+export interface FhirProvenance extends FhirResource {
+  resourceType: 'Provenance';
+  target: FhirReference[];
+  recorded: string;
+  policy?: string[];
+  activity?: FhirCodeableConcept;
+  agent: Array<{ type?: FhirCodeableConcept; who: FhirReference }>;
+  entity?: Array<{ role: string; what: FhirReference }>;
+}
+
+export interface FhirBundleEntry {
+  fullUrl?: string;
+  resource?: FhirResource;
+  request?: { method: 'POST' | 'PUT'; url: string };
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id?: string;
+  type?: string;
+  timestamp?: string;
+  entry?: FhirBundleEntry[];
+}
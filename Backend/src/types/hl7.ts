@@ -0,0 +1,15 @@
+// HL7 v2 Interface
+
+export type Hl7MessageSource = 'http' | 'file';
+
+/** A message that was not accepted (ACK other than AA), kept for review and replay */
+export interface Hl7DeadLetterRecord {
+  id: string;
+  source: Hl7MessageSource;
+  fileName: string | null;
+  messageType: string | null; // "ADT^A04"; null when the MSH could not be read
+  controlId: string | null;
+  rawMessage: string;
+  error: string;
+  receivedAt: Date;
+}
@@ -1,3 +1,8 @@
 export * from './patient';
 export * from './treatment-plan';
 export * from './request-types';
+export * from './auth';
+export * from './knowledge-base';
+export * from './fhir';
+export * from './hl7';
+export * from './report';
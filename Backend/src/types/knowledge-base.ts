@@ -0,0 +1,90 @@
+// Knowledge-Base Authoring Types
+
+import {
+  AllergyCrossReactivityGroup,
+  ContraindicationEntry,
+  DosageGuidelineEntry,
+  DrugInteractionEntry,
+} from '@treatment-plan/clinical-knowledge';
+
+export const KNOWLEDGE_ENTRY_TYPES = ['interaction', 'contraindication', 'dosage_guideline', 'allergy_group'] as const;
+
+export type KnowledgeEntryType = typeof KNOWLEDGE_ENTRY_TYPES[number];
+
+// Lifecycle of a curated change: authored as a draft, approved by a second curator, then published
+export const KNOWLEDGE_CHANGE_STATUSES = ['draft', 'reviewed', 'published'] as const;
+
+export type KnowledgeChangeStatus = typeof KNOWLEDGE_CHANGE_STATUSES[number];
+
+// Rows of the live lookup tables use the shared package's entry shapes, so imports and exports round-trip
+export type KnowledgeInteractionEntry = DrugInteractionEntry;
+export type KnowledgeContraindicationEntry = ContraindicationEntry;
+export type KnowledgeDosageGuidelineEntry = DosageGuidelineEntry;
+export type KnowledgeAllergyGroupEntry = AllergyCrossReactivityGroup;
+
+export type KnowledgeEntry =
+  | KnowledgeInteractionEntry
+  | KnowledgeContraindicationEntry
+  | KnowledgeDosageGuidelineEntry
+  | KnowledgeAllergyGroupEntry;
+
+// The full contents of the live drug-database tables at one point in time
+export interface KnowledgeSnapshot {
+  interactions: KnowledgeInteractionEntry[];
+  contraindications: KnowledgeContraindicationEntry[];
+  dosageGuidelines: KnowledgeDosageGuidelineEntry[];
+  allergyGroups: KnowledgeAllergyGroupEntry[];
+}
+
+export interface KnowledgeChangeRecord {
+  id: string;
+  entryType: KnowledgeEntryType;
+  entry: KnowledgeEntry;
+  status: KnowledgeChangeStatus;
+  authorId: string;
+  authorName: string;
+  reviewerId: string | null;
+  reviewerName: string | null;
+  reviewedAt: string | null;
+  // Knowledge-base version the change first went live in
+  publishedVersion: string | null;
+  createdAt: string;
+}
+
+export interface KnowledgeBaseVersionSummary {
+  version: string;
+  publishedAt: string;
+  publishedBy: string;
+  // Release of the bundled clinical-knowledge package when this version was published
+  packageVersion: string;
+  changeIds: string[];
+  active: boolean;
+}
+
+export interface KnowledgeBaseVersionRecord extends KnowledgeBaseVersionSummary {
+  snapshot: KnowledgeSnapshot;
+}
+
+// A problem with one imported row, or with the whole file when `row` is null
+export interface KnowledgeImportIssue {
+  // URL dataset name (interactions, dosage-guidelines, ...); null when the file shape is wrong
+  dataset: string | null;
+  // CSV line number, or 1-based position in the JSON list
+  row: number | null;
+  errors: string[];
+}
+
+export interface KnowledgeImportReport {
+  format: 'json' | 'csv';
+  // True when there are no issues; only a valid file is turned into drafts
+  valid: boolean;
+  summary: {
+    total: number;
+    inserts: number;
+    updates: number;
+    unchanged: number;
+    invalid: number;
+    duplicates: number;
+  };
+  issues: KnowledgeImportIssue[];
+}
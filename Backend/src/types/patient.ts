@@ -1,3 +1,5 @@
+import { PharmacogenomicProfile, Trimester } from '@treatment-plan/clinical-knowledge';
+
 // Patient Demographics
 export interface PatientDemographics {
   patientId: string;
@@ -12,6 +14,10 @@ export interface PatientDemographics {
   };
   heartRate: number;
   temperature: number;
+  pregnant?: boolean;
+  trimester?: Trimester; // undefined when unknown
+  lactating?: boolean;
+  externalId?: string; // identifier in the sending system, for records received over HL7
 }
 
 // Medical History
@@ -87,10 +93,28 @@ export interface LifestyleFactors {
   chiefComplaint: ChiefComplaint;
 }
 
+// Lab Results
+export interface LabResult {
+  testCode: string; // see LAB_TESTS, e.g. CREAT, INR
+  value: number;
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  collectedAt: string; // ISO timestamp
+}
+
+export interface LabResultRecord extends LabResult {
+  id: string;
+  patientId: string;
+  createdAt: Date;
+}
+
 // Complete Patient Data
 export interface CompletePatientData {
   demographics: PatientDemographics;
   medicalHistory: MedicalHistory;
   currentMedications: CurrentMedications;
   lifestyle: LifestyleFactors;
+  labs?: LabResult[]; // most recent result per test
+  pharmacogenomics?: PharmacogenomicProfile;
 }
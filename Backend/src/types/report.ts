@@ -0,0 +1,85 @@
+import { CompletePatientData } from './patient';
+import { TreatmentPlanResponse } from './treatment-plan';
+
+// Treatment Plan Reports
+
+export type ReportFormat = 'pdf' | 'json' | 'html';
+
+export interface ReportMetadata {
+  generatedBy: string;
+  reviewedBy?: string;
+  approvalStatus: 'pending' | 'approved' | 'modified' | 'rejected';
+  clinicName?: string;
+  providerNPI?: string;
+}
+
+/** Everything the clinician report shows; also served as-is as the JSON variant */
+export interface TreatmentPlanReport {
+  reportId: string; // TPR-..., printed in the PDF header
+  treatmentPlanId: string;
+  generatedAt: string; // ISO timestamp
+  approvedAt: string | null;
+  knowledgeBaseVersion: string | null;
+  metadata: ReportMetadata;
+  patient: CompletePatientData;
+  plan: TreatmentPlanResponse;
+}
+
+/** Rendered report kept with a plan at approval time, for medico-legal retention */
+export interface TreatmentPlanReportSnapshotRecord {
+  id: string;
+  treatmentPlanId: string;
+  report: TreatmentPlanReport;
+  html: string;
+  pdf: Buffer;
+  pdfSha256: string;
+  createdAt: Date;
+}
+
+// Patient Handouts
+
+export type HandoutFormat = 'pdf' | 'json';
+
+export type FollowUpType = 'check-up' | 'lab-review' | 'medication-review' | 'specialist-referral';
+
+/** A visit scheduled with the dashboard's follow-up scheduler */
+export interface HandoutFollowUp {
+  scheduledDate: string; // YYYY-MM-DD
+  type: FollowUpType;
+  description: string;
+}
+
+export type DoseTime = 'morning' | 'midday' | 'evening' | 'bedtime';
+
+export interface HandoutDosing {
+  medication: string;
+  dose: string;
+  times: DoseTime[]; // empty when the medicine is not taken at fixed times every day
+  schedule: string; // "Take 10mg every morning."
+  instructions: string | null;
+  duration: string | null;
+}
+
+export interface ReadingLevel {
+  grade: number; // Flesch-Kincaid grade of the handout text
+  targetGrade: number;
+  meetsTarget: boolean;
+  hardSentences: string[]; // clinician-written sentences above the target, hardest first
+}
+
+/** Plain-language handout for the patient; also served as-is as the JSON variant */
+export interface PatientHandout {
+  treatmentPlanId: string;
+  generatedAt: string; // ISO timestamp
+  clinicName: string | null;
+  prescriber: string | null;
+  dosing: HandoutDosing;
+  avoid: string[];
+  callDoctor: string[];
+  emergency: string[];
+  otherCare: string[];
+  education: string | null;
+  followUps: HandoutFollowUp[]; // upcoming visits, soonest first
+  calendar: { dates: string[]; times: DoseTime[] } | null; // null when there is no daily schedule to tick off
+  readingLevel: ReadingLevel;
+}
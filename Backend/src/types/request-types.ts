@@ -5,11 +5,20 @@
  * They intentionally use optional fields and union types to handle
  * both wizard-entered data and sample-loaded data formats.
  */
-import { TreatmentPlanResponse } from './treatment-plan';
+import { TreatmentPlanResponse, TreatmentRecommendation } from './treatment-plan';
+import { LabResultRecord } from './patient';
+import { PharmacogenomicGene, PharmacogenomicProfile, Trimester } from '@treatment-plan/clinical-knowledge';
 
 // ── Raw Demographics Input ──────────────────────────────────────────────────
 
-export interface RawDemographicsInput {
+// Pregnancy and lactation flags; the trimester is 1-3 and only set during a pregnancy
+export interface RawReproductiveInput {
+  pregnant?: boolean | null;
+  trimester?: number | null;
+  lactating?: boolean | null;
+}
+
+export interface RawDemographicsInput extends RawReproductiveInput {
   patientId?: string;
   age: number;
   sex?: string;
@@ -23,6 +32,7 @@ export interface RawDemographicsInput {
   heartRate?: number;
   temperature?: number;
   serumCreatinine?: number;
+  externalId?: string; // identifier in the sending system (HL7 PID-3)
 }
 
 // ── Raw Medical History Input ───────────────────────────────────────────────
@@ -93,6 +103,22 @@ export interface RawLifestyleInput {
   additionalNotes?: string;
 }
 
+// ── Raw Lab Result Input ────────────────────────────────────────────────────
+
+export interface RawLabResultInput {
+  testCode: string;
+  value: number | string;
+  unit?: string;
+  referenceLow?: number | null;
+  referenceHigh?: number | null;
+  collectedAt?: string;
+}
+
+// ── Raw Pharmacogenomic Input ───────────────────────────────────────────────
+
+// Phenotype per gene; empty or null means the gene was not tested
+export type RawPharmacogenomicInput = Partial<Record<PharmacogenomicGene | 'testedAt', string | null>>;
+
 // ── Raw Blood Pressure Input ────────────────────────────────────────────────
 
 export interface RawBloodPressureInput {
@@ -100,6 +126,53 @@ export interface RawBloodPressureInput {
   diastolic?: number;
 }
 
+// ── Plan Modification Input ─────────────────────────────────────────────────
+
+/** Partial treatment section sent to POST /treatment-plans/:id/modify */
+export interface PlanModificationsInput {
+  primaryTreatment?: Partial<TreatmentRecommendation>;
+  alternativeTreatments?: TreatmentRecommendation[];
+  supportiveCare?: string[];
+}
+
+export interface ModifyTreatmentPlanBody {
+  reason?: string;
+  // Legacy clients send a free-text note here; it is recorded as the reason
+  modifications?: PlanModificationsInput | string;
+  // The dashboard's edited plan in frontend shape: recommendations[0] is the primary treatment
+  treatmentPlan?: { recommendations?: Array<Partial<FrontendRecommendation>> };
+  // Required to save a modification that the safety re-check flags as critical
+  overrideReason?: string;
+}
+
+/** Body of POST /treatment-plans/:id/approve */
+export interface ApproveTreatmentPlanBody {
+  notes?: string;
+  // 10-digit National Provider Identifier printed on the archived report
+  providerNPI?: string;
+}
+
+/** Body of POST /treatment-plans/:id/handout */
+export interface PatientHandoutRequestBody {
+  followUps?: Array<{ scheduledDate?: string; type?: string; description?: string; completed?: boolean }>;
+  largePrint?: boolean;
+  startDate?: string; // first day of the dosing calendar, YYYY-MM-DD
+  format?: string;
+}
+
+// ── Treatment Outcome Input ─────────────────────────────────────────────────
+
+/** Body of POST /treatment-plans/:id/outcomes */
+export interface RawTreatmentOutcomeInput {
+  efficacy?: string;
+  adverseEvent?: { severity?: string; description?: string } | null;
+  discontinued?: boolean;
+  discontinuationReason?: string | null;
+  hospitalized?: boolean;
+  observedAt?: string;
+  notes?: string | null;
+}
+
 // ── Frontend Response Types (what the backend sends back) ───────────────────
 
 export interface FrontendFlaggedIssue {
@@ -110,6 +183,7 @@ export interface FrontendFlaggedIssue {
   recommendation: string;
   affectedDrugs: string[];
   clinicalEvidence: string;
+  doseAdjustment?: string;
 }
 
 export interface FrontendRiskAssessment {
@@ -145,6 +219,7 @@ export interface FrontendContraindication {
   drug: string;
   condition: string;
   type: string;
+  severity?: string;
   reason: string;
   alternatives: string[];
 }
@@ -190,6 +265,11 @@ export interface DemoCompletePatientData {
     diet: string;
     chiefComplaint: string;
   };
+  pregnant?: boolean;
+  trimester?: Trimester;
+  lactating?: boolean;
+  labResults: LabResultRecord[];
+  pharmacogenomics?: PharmacogenomicProfile;
   treatmentPlans: DemoTreatmentPlanData[];
 }
 
@@ -250,6 +330,7 @@ export interface DBContraindication {
   drug: string;
   condition: string;
   type: string;
+  severity?: string;
   reason: string;
   alternatives?: string[];
   toJSON: () => Record<string, unknown>;
@@ -32,7 +32,7 @@ export interface RiskAssessment {
 }
 
 // Flagged Issues
-export type IssueType = 'interaction' | 'contraindication' | 'dosage' | 'allergy' | 'monitoring';
+export type IssueType = 'interaction' | 'contraindication' | 'dosage' | 'allergy' | 'monitoring' | 'pharmacogenomic' | 'pregnancy' | 'lactation' | 'duplication';
 export type IssueSeverity = 'critical' | 'high' | 'medium' | 'low';
 
 export interface FlaggedIssue {
@@ -41,6 +41,7 @@ export interface FlaggedIssue {
   description: string;
   recommendation: string;
   affectedDrugs: string[];
+  doseAdjustment?: string; // genotype-guided dose, on pharmacogenomic issues
 }
 
 // Drug Interaction
@@ -70,6 +71,19 @@ export interface Rationale {
   patientEducation: string;
 }
 
+// Which backend produced a plan. 'rule-based' is the local deterministic
+// generator used when no LLM is configured or the configured one failed.
+export type LlmProviderName = 'openai' | 'openai-compatible' | 'fixture';
+
+export interface PlanProvenance {
+  provider: LlmProviderName | 'rule-based';
+  model: string;
+  fallback?: {
+    from: LlmProviderName;
+    reason: string;
+  };
+}
+
 // Complete Treatment Plan Response
 export interface TreatmentPlanResponse {
   treatmentPlan: TreatmentPlan;
@@ -79,6 +93,79 @@ export interface TreatmentPlanResponse {
   contraindications: ContraindicationResult[];
   rationale: Rationale;
   evidenceSources?: string[];
+  generatedBy?: PlanProvenance;
+}
+
+// Treatment Plan Revisions
+export interface PlanFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface DosageChange extends PlanFieldChange {
+  medication: string;
+}
+
+export interface AlternativeTreatmentChange {
+  medication: string;
+  changes: PlanFieldChange[];
+}
+
+export interface TreatmentPlanDiff {
+  // Non-dosing fields of the primary treatment, or every field when the drug itself was swapped
+  primaryTreatment: PlanFieldChange[];
+  alternatives: {
+    added: TreatmentRecommendation[];
+    removed: TreatmentRecommendation[];
+    changed: AlternativeTreatmentChange[];
+  };
+  // Dose, frequency, route and duration changes for drugs kept between revisions
+  dosage: DosageChange[];
+  supportiveCare: {
+    added: string[];
+    removed: string[];
+  };
+  hasChanges: boolean;
+}
+
+export interface TreatmentPlanRevisionRecord {
+  id: string;
+  treatmentPlanId: string;
+  revisionNumber: number;
+  authorId: string;
+  authorName: string;
+  reason: string | null;
+  snapshot: TreatmentPlanResponse;
+  diff: TreatmentPlanDiff | null;
+  createdAt: Date;
+}
+
+// Treatment Outcomes
+export type OutcomeEfficacy = 'effective' | 'partially_effective' | 'ineffective';
+export type AdverseEventSeverity = 'mild' | 'moderate' | 'severe' | 'life_threatening';
+export type DiscontinuationReason = 'adverse_event' | 'ineffective' | 'patient_choice' | 'cost' | 'completed' | 'other';
+
+/** What actually happened to the patient after an approved plan was started */
+export interface TreatmentOutcome {
+  efficacy: OutcomeEfficacy;
+  adverseEvent: { severity: AdverseEventSeverity; description: string } | null;
+  discontinued: boolean;
+  discontinuationReason: DiscontinuationReason | null;
+  hospitalized: boolean;
+  observedAt: string; // ISO timestamp
+  notes: string | null;
+}
+
+export interface TreatmentOutcomeRecord extends TreatmentOutcome {
+  id: string;
+  treatmentPlanId: string;
+  patientId: string;
+  // Realised risk (0-100) derived from the outcome; the adaptive learning label
+  riskLabel: number;
+  recordedById: string;
+  recordedByName: string;
+  createdAt: Date;
 }
 
 // Validation Result
@@ -92,10 +179,14 @@ export interface ValidationResult {
 
 // Validation Issue
 export interface ValidationIssue {
-  type: 'missed_interaction' | 'missed_contraindication' | 'dosage_exceeds_max';
+  type: 'missed_interaction' | 'missed_contraindication' | 'dosage_exceeds_max' | 'pharmacogenomic' | 'pregnancy' | 'lactation' | 'therapeutic_duplication';
   severity: IssueSeverity | 'major' | 'moderate' | 'minor';
   description: string;
   localDbEntry?: object;
+  // Patient or plan drugs the issue involves, as named in the plan or medication list
+  affectedDrugs?: string[];
+  recommendation?: string;
+  doseAdjustment?: string;
 }
 
 // Validation Report
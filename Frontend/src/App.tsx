@@ -1,5 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { apiUrl } from './config/api';
+import { authFetch, getSession, logout, onSessionChange } from './services/auth-client';
+import LoginScreen from './components/auth/LoginScreen';
 import { AppProvider, useAppContext } from './context/AppContext';
 import PatientIntakeWizard from './components/wizard/PatientIntakeWizard';
 import TreatmentDashboard from './components/dashboard/TreatmentDashboard';
@@ -29,7 +31,8 @@ import {
   Sparkles,
   Calculator,
   Download,
-  Calendar
+  Calendar,
+  LogOut
 } from 'lucide-react';
 
 // Type for real-time stats
@@ -78,7 +81,7 @@ const AppContent: React.FC = () => {
   useEffect(() => {
     const fetchSystemStats = async () => {
       try {
-        const response = await fetch(apiUrl('/patients/analytics'));
+        const response = await authFetch(apiUrl('/patients/analytics'));
         if (!response.ok) return;
         const result = await response.json();
         if (result.success && result.data) {
@@ -292,6 +295,14 @@ const AppContent: React.FC = () => {
               >
                 Start Assessment
               </Button>
+              <button
+                onClick={logout}
+                title={`Signed in as ${getSession()?.user.fullName ?? ''} (${getSession()?.user.role ?? ''})`}
+                className="text-slate-400 hover:text-rose-400 transition-colors font-medium flex items-center gap-1"
+              >
+                <LogOut className="w-4 h-4" />
+                Sign Out
+              </button>
             </nav>
           </div>
         </div>
@@ -870,6 +881,14 @@ const AppContent: React.FC = () => {
 };
 
 const App: React.FC = () => {
+  const [session, setSession] = useState(getSession());
+
+  useEffect(() => onSessionChange(setSession), []);
+
+  if (!session) {
+    return <LoginScreen />;
+  }
+
   return (
     <AppProvider>
       <AppContent />
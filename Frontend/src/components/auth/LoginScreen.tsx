@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Activity, LogIn } from 'lucide-react';
+import { Button, Input, Alert } from '../ui';
+import { login } from '../../services/auth-client';
+
+const LoginScreen: React.FC = () => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await login(username.trim(), password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-obsidian-950 dot-grid flex items-center justify-center px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-obsidian-800/60 backdrop-blur-sm rounded-xl shadow-lg border border-obsidian-600/30 p-6 space-y-5"
+      >
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-cyan-400 to-cyan-600 rounded-xl flex items-center justify-center shadow-lg shadow-cyan-500/20">
+            <Activity className="w-5 h-5 text-obsidian-950" />
+          </div>
+          <div>
+            <h1 className="text-xl font-display font-bold text-slate-100">MedAssist<span className="text-cyan-400">AI</span></h1>
+            <p className="text-xs text-slate-500">Sign in to continue</p>
+          </div>
+        </div>
+
+        {error && (
+          <Alert type="error" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Input
+          label="Username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          required
+        />
+        <Input
+          label="Password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+
+        <Button type="submit" className="w-full" isLoading={isSubmitting} disabled={!username.trim() || !password}>
+          <LogIn className="w-4 h-4" /> Sign In
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
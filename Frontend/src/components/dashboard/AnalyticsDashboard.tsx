@@ -10,6 +10,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { apiUrl } from '../../config/api';
+import { authFetch, withAccessToken } from '../../services/auth-client';
 import {
     BarChart,
     Bar,
@@ -211,7 +212,7 @@ const AnalyticsDashboard: React.FC = () => {
         }
         setError(null);
         try {
-            const response = await fetch(apiUrl('/patients/analytics'));
+            const response = await authFetch(apiUrl('/patients/analytics'));
             if (!response.ok) {
                 setError('Server returned an error. Please try again.');
                 return;
@@ -250,7 +251,7 @@ const AnalyticsDashboard: React.FC = () => {
         let isUnmounted = false;
 
         const connectRealtime = () => {
-            eventSource = new EventSource(apiUrl('/realtime/stream'));
+            eventSource = new EventSource(withAccessToken(apiUrl('/realtime/stream')));
 
             eventSource.addEventListener('snapshot', (event) => {
                 try {
@@ -3,7 +3,7 @@ import { Card } from '../ui';
 import { FlaggedIssue } from '../../types';
 import { 
   AlertTriangle, AlertCircle, Info, 
-  ChevronDown, ChevronUp, Shield, Pill, Calculator 
+  ChevronDown, ChevronUp, Shield, Pill, Calculator, Dna, Baby, Copy
 } from 'lucide-react';
 
 interface FlaggedIssuesPanelProps {
@@ -70,6 +70,13 @@ const FlaggedIssuesPanel: React.FC<FlaggedIssuesPanelProps> = ({ issues }) => {
         return <Shield className="w-4 h-4" />;
       case 'dosage-issue':
         return <Calculator className="w-4 h-4" />;
+      case 'pharmacogenomic':
+        return <Dna className="w-4 h-4" />;
+      case 'pregnancy':
+      case 'lactation':
+        return <Baby className="w-4 h-4" />;
+      case 'duplication':
+        return <Copy className="w-4 h-4" />;
       default:
         return <AlertCircle className="w-4 h-4" />;
     }
@@ -91,6 +98,86 @@ const FlaggedIssuesPanel: React.FC<FlaggedIssuesPanelProps> = ({ issues }) => {
   const moderateCount = issues.filter((i) => i.severity === 'moderate').length;
   const lowCount = issues.filter((i) => i.severity === 'low' || i.severity === 'minor').length;
 
+  // Duplicate-therapy findings are listed as their own group below the others
+  const indexedIssues = filteredIssues.map((issue, index) => ({ issue, index }));
+  const duplicationIssues = indexedIssues.filter(({ issue }) => issue.type === 'duplication');
+  const otherIssues = indexedIssues.filter(({ issue }) => issue.type !== 'duplication');
+
+  const renderIssue = (issue: FlaggedIssue, index: number) => {
+    const config = getSeverityConfig(issue.severity);
+    const isExpanded = expandedIssues.has(index);
+
+    return (
+      <div
+        key={`${issue.title}-${index}`}
+        className={`rounded-lg border ${config.borderColor} ${config.bgColor} overflow-hidden`}
+      >
+        <button
+          onClick={() => toggleExpand(index)}
+          className="w-full p-4 text-left flex items-start gap-3"
+        >
+          {config.icon}
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className={`text-xs px-2 py-0.5 rounded ${config.badgeColor} flex items-center gap-1`}>
+                {getTypeIcon(issue.type)}
+                {issue.type.replace('-', ' ')}
+              </span>
+              <span className={`text-xs px-2 py-0.5 rounded ${config.badgeColor} capitalize`}>
+                {issue.severity}
+              </span>
+            </div>
+            <p className={`mt-1 font-medium ${config.textColor}`}>{issue.title}</p>
+            <p className="text-sm text-slate-400 mt-1 line-clamp-2">{issue.description}</p>
+          </div>
+          {isExpanded ? (
+            <ChevronUp className="w-5 h-5 text-slate-500" />
+          ) : (
+            <ChevronDown className="w-5 h-5 text-slate-500" />
+          )}
+        </button>
+
+        {isExpanded && (
+          <div className="px-4 pb-4 pt-2 border-t border-obsidian-600/20">
+            {issue.affectedDrugs && issue.affectedDrugs.length > 0 && (
+              <div className="mb-3">
+                <p className="text-xs font-medium text-slate-500 mb-1">Affected Medications</p>
+                <div className="flex flex-wrap gap-1">
+                  {issue.affectedDrugs.map((drug, i) => (
+                    <span key={drug} className="px-2 py-0.5 bg-obsidian-700/60 rounded text-sm text-slate-300">
+                      {drug}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {issue.recommendation && (
+              <div className="mb-3">
+                <p className="text-xs font-medium text-slate-500 mb-1">Recommendation</p>
+                <p className="text-sm text-slate-300">{issue.recommendation}</p>
+              </div>
+            )}
+
+            {issue.doseAdjustment && (
+              <div className="mb-3">
+                <p className="text-xs font-medium text-slate-500 mb-1">Genotype-Guided Dose</p>
+                <p className="text-sm text-violet-300">{issue.doseAdjustment}</p>
+              </div>
+            )}
+
+            {issue.clinicalEvidence && (
+              <div>
+                <p className="text-xs font-medium text-slate-500 mb-1">Clinical Evidence</p>
+                <p className="text-sm text-slate-400 italic">{issue.clinicalEvidence}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <Card>
       <div className="p-4 border-b border-obsidian-600/30">
@@ -151,73 +238,24 @@ const FlaggedIssuesPanel: React.FC<FlaggedIssuesPanelProps> = ({ issues }) => {
             <p>No issues found for this filter</p>
           </div>
         ) : (
-          filteredIssues.map((issue, index) => {
-            const config = getSeverityConfig(issue.severity);
-            const isExpanded = expandedIssues.has(index);
-
-            return (
-              <div
-                key={`${issue.title}-${index}`}
-                className={`rounded-lg border ${config.borderColor} ${config.bgColor} overflow-hidden`}
-              >
-                <button
-                  onClick={() => toggleExpand(index)}
-                  className="w-full p-4 text-left flex items-start gap-3"
-                >
-                  {config.icon}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 flex-wrap">
-                      <span className={`text-xs px-2 py-0.5 rounded ${config.badgeColor} flex items-center gap-1`}>
-                        {getTypeIcon(issue.type)}
-                        {issue.type.replace('-', ' ')}
-                      </span>
-                      <span className={`text-xs px-2 py-0.5 rounded ${config.badgeColor} capitalize`}>
-                        {issue.severity}
-                      </span>
-                    </div>
-                    <p className={`mt-1 font-medium ${config.textColor}`}>{issue.title}</p>
-                    <p className="text-sm text-slate-400 mt-1 line-clamp-2">{issue.description}</p>
-                  </div>
-                  {isExpanded ? (
-                    <ChevronUp className="w-5 h-5 text-slate-500" />
-                  ) : (
-                    <ChevronDown className="w-5 h-5 text-slate-500" />
-                  )}
-                </button>
-
-                {isExpanded && (
-                  <div className="px-4 pb-4 pt-2 border-t border-obsidian-600/20">
-                    {issue.affectedDrugs && issue.affectedDrugs.length > 0 && (
-                      <div className="mb-3">
-                        <p className="text-xs font-medium text-slate-500 mb-1">Affected Medications</p>
-                        <div className="flex flex-wrap gap-1">
-                          {issue.affectedDrugs.map((drug, i) => (
-                            <span key={drug} className="px-2 py-0.5 bg-obsidian-700/60 rounded text-sm text-slate-300">
-                              {drug}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-
-                    {issue.recommendation && (
-                      <div className="mb-3">
-                        <p className="text-xs font-medium text-slate-500 mb-1">Recommendation</p>
-                        <p className="text-sm text-slate-300">{issue.recommendation}</p>
-                      </div>
-                    )}
-
-                    {issue.clinicalEvidence && (
-                      <div>
-                        <p className="text-xs font-medium text-slate-500 mb-1">Clinical Evidence</p>
-                        <p className="text-sm text-slate-400 italic">{issue.clinicalEvidence}</p>
-                      </div>
-                    )}
-                  </div>
-                )}
+          <>
+            {otherIssues.map(({ issue, index }) => renderIssue(issue, index))}
+            {duplicationIssues.length > 0 && (
+              <div className="pt-2">
+                <div className="flex items-center gap-2 mb-1 text-sm font-medium text-slate-300">
+                  <Copy className="w-4 h-4 text-amber-400" />
+                  Therapeutic Duplication
+                  <span className="text-xs text-slate-500">({duplicationIssues.length})</span>
+                </div>
+                <p className="text-xs text-slate-500 mb-3">
+                  Two medications with the same ingredient or from classes that should not be combined
+                </p>
+                <div className="space-y-3">
+                  {duplicationIssues.map(({ issue, index }) => renderIssue(issue, index))}
+                </div>
               </div>
-            );
-          })
+            )}
+          </>
         )}
       </div>
     </Card>
@@ -13,6 +13,8 @@ interface ModelInfo {
   totalEpochs: number;
   loss: number;
   accuracy?: number;
+  // Registry version when the weights were loaded instead of trained here
+  pinnedVersion?: string;
   icon: React.ReactNode;
 }
 
@@ -54,10 +56,14 @@ const MLTrainingProgress: React.FC = () => {
     // Train risk model
     updateModel('risk', { status: 'training' });
     try {
-      await initializeRiskModel((epoch, loss) => {
+      const riskModel = await initializeRiskModel((epoch, loss) => {
         updateModel('risk', { epoch, loss, status: 'training' });
       });
-      updateModel('risk', { status: 'trained' });
+      const source = riskModel.getModelSource();
+      updateModel('risk', {
+        status: 'trained',
+        pinnedVersion: source?.kind === 'pinned' ? source.version : undefined,
+      });
     } catch {
       updateModel('risk', { status: 'error' });
     }
@@ -197,7 +203,8 @@ const MLTrainingProgress: React.FC = () => {
 
                 {/* Metrics row */}
                 <div className="flex items-center gap-4 text-xs text-slate-500">
-                  {model.status !== 'idle' && (
+                  {model.pinnedVersion && <span>Pinned server model {model.pinnedVersion}</span>}
+                  {model.status !== 'idle' && !model.pinnedVersion && (
                     <>
                       <span>Epoch: {model.epoch}/{model.totalEpochs}</span>
                       <span>Loss: {model.loss.toFixed(4)}</span>
@@ -0,0 +1,234 @@
+/**
+ * Outcome Panel Component
+ *
+ * Follow-up on an approved plan: records whether the treatment worked, any
+ * adverse event and whether it was stopped, and lists earlier reports. The
+ * backend turns each report into a training label for the risk model.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ClipboardCheck, Loader2, User } from 'lucide-react';
+import { apiUrl } from '../../config/api';
+import { authFetch } from '../../services/auth-client';
+import { Button, Card, Input, Select } from '../ui';
+import type {
+  AdverseEventSeverity,
+  DiscontinuationReason,
+  OutcomeEfficacy,
+  TreatmentOutcome,
+} from '../../types';
+
+interface OutcomePanelProps {
+  treatmentPlanId: string;
+}
+
+const EFFICACY_OPTIONS: { value: OutcomeEfficacy; label: string }[] = [
+  { value: 'effective', label: 'Effective' },
+  { value: 'partially_effective', label: 'Partially effective' },
+  { value: 'ineffective', label: 'Ineffective' },
+];
+
+const SEVERITY_OPTIONS: { value: AdverseEventSeverity; label: string }[] = [
+  { value: 'mild', label: 'Mild' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'severe', label: 'Severe' },
+  { value: 'life_threatening', label: 'Life-threatening' },
+];
+
+const DISCONTINUATION_OPTIONS: { value: DiscontinuationReason; label: string }[] = [
+  { value: 'adverse_event', label: 'Adverse event' },
+  { value: 'ineffective', label: 'Not effective' },
+  { value: 'patient_choice', label: 'Patient choice' },
+  { value: 'cost', label: 'Cost' },
+  { value: 'completed', label: 'Course completed' },
+  { value: 'other', label: 'Other' },
+];
+
+const labelOf = <T extends string>(options: { value: T; label: string }[], value: T) =>
+  options.find(option => option.value === value)?.label ?? value;
+
+const EMPTY_FORM = {
+  efficacy: '' as OutcomeEfficacy | '',
+  adverseSeverity: '' as AdverseEventSeverity | '',
+  adverseDescription: '',
+  discontinuationReason: '' as DiscontinuationReason | '',
+  hospitalized: false,
+  observedAt: '',
+  notes: '',
+};
+
+const OutcomePanel: React.FC<OutcomePanelProps> = ({ treatmentPlanId }) => {
+  const [outcomes, setOutcomes] = useState<TreatmentOutcome[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [loading, setLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const fetchOutcomes = useCallback(async () => {
+    if (!treatmentPlanId) return;
+    setLoading(true);
+    try {
+      const response = await authFetch(apiUrl(`/treatment-plans/${treatmentPlanId}/outcomes`));
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.success) {
+        setErrors([data.message || 'Failed to load outcomes']);
+        return;
+      }
+      setOutcomes(data.data?.outcomes ?? []);
+    } catch (err) {
+      console.error('Failed to fetch treatment outcomes:', err);
+      setErrors(['Failed to connect to server. Please try again.']);
+    } finally {
+      setLoading(false);
+    }
+  }, [treatmentPlanId]);
+
+  useEffect(() => {
+    fetchOutcomes();
+  }, [fetchOutcomes]);
+
+  const update = (changes: Partial<typeof EMPTY_FORM>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setErrors([]);
+    try {
+      const response = await authFetch(apiUrl(`/treatment-plans/${treatmentPlanId}/outcomes`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          efficacy: form.efficacy,
+          adverseEvent: form.adverseSeverity
+            ? { severity: form.adverseSeverity, description: form.adverseDescription }
+            : null,
+          discontinued: form.discontinuationReason !== '',
+          discontinuationReason: form.discontinuationReason || null,
+          hospitalized: form.hospitalized,
+          observedAt: form.observedAt || undefined,
+          notes: form.notes || null,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.success) {
+        setErrors(data.errors ?? [data.message || 'Failed to record outcome']);
+        return;
+      }
+      setForm(EMPTY_FORM);
+      await fetchOutcomes();
+    } catch (err) {
+      console.error('Failed to record treatment outcome:', err);
+      setErrors(['Failed to connect to server. Please try again.']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card
+      title="Treatment Outcome"
+      subtitle={outcomes.length > 0 ? `${outcomes.length} follow-up${outcomes.length === 1 ? '' : 's'} recorded` : 'What happened after approval?'}
+      icon={<ClipboardCheck className="w-5 h-5" />}
+    >
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <Select
+          label="Efficacy"
+          required
+          options={EFFICACY_OPTIONS}
+          value={form.efficacy}
+          onChange={e => update({ efficacy: e.target.value as OutcomeEfficacy | '' })}
+        />
+        <Select
+          label="Adverse event"
+          options={SEVERITY_OPTIONS}
+          value={form.adverseSeverity}
+          onChange={e => update({ adverseSeverity: e.target.value as AdverseEventSeverity | '' })}
+        />
+        {form.adverseSeverity && (
+          <Input
+            label="Adverse event description"
+            value={form.adverseDescription}
+            onChange={e => update({ adverseDescription: e.target.value })}
+            placeholder="e.g. dry cough, angioedema"
+          />
+        )}
+        <Select
+          label="Discontinued because"
+          options={DISCONTINUATION_OPTIONS}
+          value={form.discontinuationReason}
+          onChange={e => update({ discontinuationReason: e.target.value as DiscontinuationReason | '' })}
+        />
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={form.hospitalized}
+            onChange={e => update({ hospitalized: e.target.checked })}
+          />
+          Hospitalized
+        </label>
+        <Input
+          label="Observed on"
+          type="date"
+          value={form.observedAt}
+          onChange={e => update({ observedAt: e.target.value })}
+          hint="Defaults to today"
+        />
+        <Input
+          label="Notes"
+          value={form.notes}
+          onChange={e => update({ notes: e.target.value })}
+        />
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-rose-300 space-y-1">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        )}
+
+        <Button type="submit" variant="primary" size="sm" isLoading={isSubmitting} disabled={!form.efficacy}>
+          Record outcome
+        </Button>
+      </form>
+
+      {loading && (
+        <div className="flex items-center gap-2 text-slate-400 text-sm mt-4">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading outcomes…
+        </div>
+      )}
+
+      {outcomes.length > 0 && (
+        <ul className="mt-6 pt-4 border-t border-obsidian-600/30 space-y-3">
+          {outcomes.map(outcome => (
+            <li key={outcome.id} className="text-sm">
+              <div className="flex flex-wrap items-baseline gap-x-2">
+                <span className="font-medium text-slate-100">{labelOf(EFFICACY_OPTIONS, outcome.efficacy)}</span>
+                <span className="text-xs text-slate-500">{format(new Date(outcome.observedAt), 'MMM d, yyyy')}</span>
+              </div>
+              <div className="flex items-center gap-1 text-xs text-slate-400 mt-0.5">
+                <User className="w-3 h-3" />
+                {outcome.recordedByName}
+              </div>
+              {outcome.adverseEvent && (
+                <p className="text-rose-300 mt-1">
+                  {labelOf(SEVERITY_OPTIONS, outcome.adverseEvent.severity)} adverse event
+                  {outcome.adverseEvent.description && `: ${outcome.adverseEvent.description}`}
+                </p>
+              )}
+              {outcome.discontinuationReason && (
+                <p className="text-amber-300 mt-1">
+                  Discontinued: {labelOf(DISCONTINUATION_OPTIONS, outcome.discontinuationReason)}
+                </p>
+              )}
+              {outcome.hospitalized && <p className="text-rose-300 mt-1">Hospitalized</p>}
+              {outcome.notes && <p className="text-slate-300 mt-1 italic">“{outcome.notes}”</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+export default OutcomePanel;
@@ -0,0 +1,76 @@
+/**
+ * Patient Handout Panel Component
+ *
+ * Downloads the plain-language medicine guide for an approved plan, with the
+ * follow-ups scheduled on the dashboard and an optional large-print layout,
+ * and warns when the handout reads above its target grade.
+ */
+
+import React, { useState } from 'react';
+import { BookOpen } from 'lucide-react';
+import { Alert, Button, Card } from '../ui';
+import {
+  downloadPatientHandout,
+  readingGradeWarning,
+  type HandoutFollowUpInput,
+  type HandoutReadingGrade,
+} from '../../services/patient-handout';
+
+interface PatientHandoutPanelProps {
+  treatmentPlanId: string;
+  followUps: HandoutFollowUpInput[];
+}
+
+const PatientHandoutPanel: React.FC<PatientHandoutPanelProps> = ({ treatmentPlanId, followUps }) => {
+  const [largePrint, setLargePrint] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [reading, setReading] = useState<HandoutReadingGrade | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const upcoming = followUps.filter(followUp => !followUp.completed).length;
+  const warning = readingGradeWarning(reading);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    setError(null);
+    try {
+      setReading(await downloadPatientHandout(treatmentPlanId, followUps, largePrint));
+    } catch (err) {
+      console.error('Failed to download patient handout:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate patient handout');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Card
+      title="Patient Handout"
+      subtitle={upcoming > 0 ? `Includes ${upcoming} upcoming follow-up${upcoming === 1 ? '' : 's'}` : 'Plain-language medicine guide'}
+      icon={<BookOpen className="w-5 h-5" />}
+    >
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={largePrint}
+            onChange={e => setLargePrint(e.target.checked)}
+          />
+          Large print
+        </label>
+
+        {reading && !warning && (
+          <p className="text-sm text-emerald-300">Reads at grade {reading.grade}</p>
+        )}
+        {warning && <Alert type="warning" title="Reading level" message={warning} />}
+        {error && <p className="text-sm text-rose-300">{error}</p>}
+
+        <Button variant="primary" size="sm" onClick={handleDownload} isLoading={isDownloading}>
+          Download handout
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default PatientHandoutPanel;
@@ -8,6 +8,7 @@
 
 import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { apiUrl } from '../../config/api';
+import { authFetch } from '../../services/auth-client';
 import {
     Search,
     Filter,
@@ -239,7 +240,7 @@ const PatientSearch: React.FC<PatientSearchProps> = ({ onSelectPatient }) => {
         setLoading(true);
         setError(null);
         try {
-            const response = await fetch(apiUrl('/patients'));
+            const response = await authFetch(apiUrl('/patients'));
             if (!response.ok) {
                 setError('Server returned an error. Please try again.');
                 return;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Baby } from 'lucide-react';
+import { describeReproductiveStatus } from '@treatment-plan/clinical-knowledge';
+import type { PatientDemographics } from '../../context/AppContext';
+import type { FlaggedIssue } from '../../types';
+
+interface PregnancySafetyBannerProps {
+  demographics: PatientDemographics;
+  issues: FlaggedIssue[];
+}
+
+/**
+ * Shown above the plan for pregnant or breastfeeding patients, listing the
+ * pregnancy and lactation findings so they are not lost among the other
+ * flagged issues. Renders nothing for other patients.
+ */
+const PregnancySafetyBanner: React.FC<PregnancySafetyBannerProps> = ({ demographics, issues }) => {
+  if (!demographics.pregnant && !demographics.lactating) return null;
+
+  const findings = issues.filter(issue => issue.type === 'pregnancy' || issue.type === 'lactation');
+  const hasCritical = findings.some(issue => issue.severity === 'critical');
+  const tone = hasCritical
+    ? 'border-rose-500/40 bg-rose-500/10 text-rose-300'
+    : 'border-violet-500/30 bg-violet-500/10 text-violet-300';
+
+  return (
+    <div className={`mb-6 rounded-xl border p-5 ${tone}`}>
+      <div className="flex items-center gap-2 font-display font-semibold">
+        <Baby className="w-5 h-5" />
+        Pregnancy &amp; lactation safety: {describeReproductiveStatus(demographics)}
+      </div>
+      {findings.length === 0 ? (
+        <p className="mt-2 text-sm text-slate-400">
+          No pregnancy or lactation risks found for the proposed plan or the current medications.
+        </p>
+      ) : (
+        <ul className="mt-3 space-y-2">
+          {findings.map(issue => (
+            <li key={issue.description} className="text-sm">
+              <span className={issue.severity === 'critical' ? 'text-rose-300 font-medium' : 'text-amber-300 font-medium'}>
+                {issue.affectedDrugs?.join(', ') || issue.title}
+                <span className="ml-2 text-xs uppercase tracking-wide opacity-75">{issue.severity}</span>
+              </span>
+              <p className="text-slate-400">{issue.description}</p>
+              {issue.recommendation && <p className="text-slate-300">{issue.recommendation}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PregnancySafetyBanner;
@@ -0,0 +1,232 @@
+/**
+ * Revision Timeline Component
+ *
+ * Shows every stored revision of a treatment plan, from the original AI
+ * proposal onward, with who changed what and why. Any two revisions can be
+ * compared through the backend diff endpoint.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { GitCompare, History, Loader2, User } from 'lucide-react';
+import { apiUrl } from '../../config/api';
+import { authFetch } from '../../services/auth-client';
+import { Button, Card } from '../ui';
+import type { PlanFieldChange, TreatmentPlanDiff, TreatmentPlanRevision } from '../../types';
+
+interface RevisionTimelineProps {
+  treatmentPlanId: string;
+  // Bumped by the dashboard after a modification so the list reloads
+  refreshKey?: number;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  medication: 'Medication',
+  genericName: 'Generic name',
+  dosage: 'Dose',
+  frequency: 'Frequency',
+  route: 'Route',
+  duration: 'Duration',
+  instructions: 'Instructions',
+  reason: 'Reason',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+}
+
+const ChangeLine: React.FC<{ label: string; change: PlanFieldChange }> = ({ label, change }) => (
+  <li className="text-sm text-slate-300">
+    <span className="text-slate-400">{label} {FIELD_LABELS[change.field] ?? change.field}: </span>
+    <span className="line-through text-rose-300/80">{formatValue(change.before)}</span>
+    <span className="text-slate-500"> → </span>
+    <span className="text-emerald-300">{formatValue(change.after)}</span>
+  </li>
+);
+
+const DiffSummary: React.FC<{ diff: TreatmentPlanDiff }> = ({ diff }) => {
+  if (!diff.hasChanges) {
+    return <p className="text-sm text-slate-500">No changes to the treatment section.</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {diff.primaryTreatment.map(change => (
+        <ChangeLine key={`primary-${change.field}`} label="Primary" change={change} />
+      ))}
+      {diff.dosage.map(change => (
+        <ChangeLine key={`dosage-${change.medication}-${change.field}`} label={change.medication} change={change} />
+      ))}
+      {diff.alternatives.changed.flatMap(alt =>
+        alt.changes.map(change => (
+          <ChangeLine key={`alt-${alt.medication}-${change.field}`} label={alt.medication} change={change} />
+        ))
+      )}
+      {diff.alternatives.added.map(alt => (
+        <li key={`added-${alt.medication}`} className="text-sm text-emerald-300">
+          + Alternative {alt.medication} {alt.dosage} {alt.frequency}
+        </li>
+      ))}
+      {diff.alternatives.removed.map(alt => (
+        <li key={`removed-${alt.medication}`} className="text-sm text-rose-300">
+          − Alternative {alt.medication}
+        </li>
+      ))}
+      {diff.supportiveCare.added.map(item => (
+        <li key={`care-added-${item}`} className="text-sm text-emerald-300">+ Supportive care: {item}</li>
+      ))}
+      {diff.supportiveCare.removed.map(item => (
+        <li key={`care-removed-${item}`} className="text-sm text-rose-300">− Supportive care: {item}</li>
+      ))}
+    </ul>
+  );
+};
+
+const RevisionTimeline: React.FC<RevisionTimelineProps> = ({ treatmentPlanId, refreshKey = 0 }) => {
+  const [revisions, setRevisions] = useState<TreatmentPlanRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [comparison, setComparison] = useState<TreatmentPlanDiff | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!treatmentPlanId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await authFetch(apiUrl(`/treatment-plans/${treatmentPlanId}/revisions`));
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.success) {
+        setError(data.message || 'Failed to load revision history');
+        return;
+      }
+      const loaded: TreatmentPlanRevision[] = data.data?.revisions ?? [];
+      setRevisions(loaded);
+      setComparison(null);
+      if (loaded.length >= 2) {
+        setCompareFrom(loaded[0].revisionNumber);
+        setCompareTo(loaded[loaded.length - 1].revisionNumber);
+      }
+    } catch (err) {
+      console.error('Failed to fetch plan revisions:', err);
+      setError('Failed to connect to server. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [treatmentPlanId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions, refreshKey]);
+
+  const handleCompare = async () => {
+    if (compareFrom === null || compareTo === null) return;
+    try {
+      const response = await authFetch(
+        apiUrl(`/treatment-plans/${treatmentPlanId}/revisions/${compareFrom}/diff/${compareTo}`)
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.success) {
+        setError(data.message || 'Failed to compare revisions');
+        return;
+      }
+      setComparison(data.data.diff);
+    } catch (err) {
+      console.error('Failed to diff plan revisions:', err);
+      setError('Failed to connect to server. Please try again.');
+    }
+  };
+
+  const selectClass = 'bg-obsidian-900/60 border border-obsidian-600/40 rounded-lg px-2 py-1 text-sm text-slate-200';
+
+  return (
+    <Card
+      title="Revision History"
+      subtitle={revisions.length > 0 ? `${revisions.length} revision${revisions.length === 1 ? '' : 's'}` : undefined}
+      icon={<History className="w-5 h-5" />}
+    >
+      {loading && (
+        <div className="flex items-center gap-2 text-slate-400 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading revisions…
+        </div>
+      )}
+
+      {error && <p className="text-sm text-rose-300 mb-3">{error}</p>}
+
+      {!loading && revisions.length === 0 && !error && (
+        <p className="text-sm text-slate-500">No revisions recorded for this plan yet.</p>
+      )}
+
+      {revisions.length > 0 && (
+        <ol className="relative border-l border-obsidian-600/50 ml-2 space-y-5">
+          {[...revisions].reverse().map(revision => (
+            <li key={revision.id} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-cyan-500/70 border border-obsidian-800" />
+              <div className="flex flex-wrap items-baseline gap-x-2">
+                <span className="font-medium text-slate-100">Revision {revision.revisionNumber}</span>
+                <span className="text-xs text-slate-500">
+                  {format(new Date(revision.createdAt), 'MMM d, yyyy HH:mm')}
+                </span>
+              </div>
+              <div className="flex items-center gap-1 text-xs text-slate-400 mt-0.5">
+                <User className="w-3 h-3" />
+                {revision.authorName}
+              </div>
+              {revision.reason && (
+                <p className="text-sm text-slate-300 mt-1 italic">“{revision.reason}”</p>
+              )}
+              {revision.diff && (
+                <div className="mt-2">
+                  <DiffSummary diff={revision.diff} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {revisions.length >= 2 && (
+        <div className="mt-6 pt-4 border-t border-obsidian-600/30">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-400">
+            <span>Compare</span>
+            <select
+              className={selectClass}
+              value={compareFrom ?? ''}
+              onChange={e => setCompareFrom(Number(e.target.value))}
+              aria-label="Compare from revision"
+            >
+              {revisions.map(r => (
+                <option key={r.id} value={r.revisionNumber}>Rev {r.revisionNumber}</option>
+              ))}
+            </select>
+            <span>with</span>
+            <select
+              className={selectClass}
+              value={compareTo ?? ''}
+              onChange={e => setCompareTo(Number(e.target.value))}
+              aria-label="Compare to revision"
+            >
+              {revisions.map(r => (
+                <option key={r.id} value={r.revisionNumber}>Rev {r.revisionNumber}</option>
+              ))}
+            </select>
+            <Button variant="secondary" size="sm" onClick={handleCompare}>
+              <GitCompare className="w-4 h-4" />
+              Compare
+            </Button>
+          </div>
+          {comparison && (
+            <div className="mt-3">
+              <DiffSummary diff={comparison} />
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default RevisionTimeline;
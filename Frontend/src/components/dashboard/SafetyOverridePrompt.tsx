@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Button } from '../ui';
+import { ShieldAlert } from 'lucide-react';
+import type { FlaggedIssue } from '../../types';
+
+interface SafetyOverridePromptProps {
+  issues: FlaggedIssue[];
+  onOverride: (overrideReason: string) => Promise<void>;
+  onCancel: () => void;
+  isSubmitting: boolean;
+}
+
+/**
+ * Shown when the backend refuses to save a modification because the
+ * re-run safety checks found critical issues. Saving anyway requires a
+ * documented reason, which is recorded in the audit log.
+ */
+const SafetyOverridePrompt: React.FC<SafetyOverridePromptProps> = ({
+  issues,
+  onOverride,
+  onCancel,
+  isSubmitting,
+}) => {
+  const [overrideReason, setOverrideReason] = useState('');
+
+  return (
+    <div className="mb-6 rounded-xl border border-rose-500/40 bg-rose-500/10 p-5">
+      <div className="flex items-center gap-2 text-rose-300 font-display font-semibold">
+        <ShieldAlert className="w-5 h-5" />
+        Modification not saved: critical safety issues
+      </div>
+      <ul className="mt-3 space-y-2">
+        {issues.map(issue => (
+          <li key={issue.description} className="text-sm text-slate-300">
+            <span className={issue.severity === 'critical' ? 'text-rose-300 font-medium' : 'text-amber-300 font-medium'}>
+              {issue.title}
+            </span>
+            <p className="text-slate-400">{issue.description}</p>
+          </li>
+        ))}
+      </ul>
+      <label htmlFor="safety-override-reason" className="block mt-4 text-sm text-slate-300">
+        Clinical justification for overriding (recorded in the audit log)
+      </label>
+      <textarea
+        id="safety-override-reason"
+        value={overrideReason}
+        onChange={e => setOverrideReason(e.target.value)}
+        rows={3}
+        className="mt-1 w-full rounded-lg bg-obsidian-900/60 border border-obsidian-600/40 px-3 py-2 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-rose-500/50"
+        placeholder="e.g. Cardiology consulted; benefit outweighs risk with monitoring..."
+      />
+      <div className="mt-3 flex gap-3 justify-end">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+          Revise plan
+        </Button>
+        <Button
+          variant="danger"
+          size="sm"
+          onClick={() => onOverride(overrideReason.trim())}
+          disabled={!overrideReason.trim()}
+          isLoading={isSubmitting}
+        >
+          Save with override
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SafetyOverridePrompt;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { apiUrl } from '../../config/api';
+import { authFetch, getSession } from '../../services/auth-client';
 import { useAppContext } from '../../context/AppContext';
 import { Button, Alert, BackNavigation } from '../ui';
 import {
@@ -11,9 +12,14 @@ import {
   ActionPanel,
   ProviderNotesPanel,
   FollowUpScheduler,
+  RevisionTimeline,
+  OutcomePanel,
+  PatientHandoutPanel,
+  SafetyOverridePrompt,
+  PregnancySafetyBanner,
 } from './index';
 import EnhancedRiskVisualization from './EnhancedRiskVisualization';
-import { AlternativeTreatment, TreatmentRecommendation } from '../../types';
+import { AlternativeTreatment, FlaggedIssue, TreatmentRecommendation } from '../../types';
 import { ArrowLeft, FileText, Download, FileDown, Brain, Calculator, Activity, ChevronDown, ChevronUp } from 'lucide-react';
 import { downloadTreatmentPlanPDF } from '../../services/pdf-generator';
 import { getRiskPredictionModel } from '../../services/ml-risk-predictor';
@@ -51,6 +57,9 @@ const TreatmentDashboard: React.FC = () => {
   const [providerNotes, setProviderNotes] = useState<ProviderNote[]>([]);
   const [followUps, setFollowUps] = useState<ScheduledFollowUp[]>([]);
   const [showExtras, setShowExtras] = useState(false);
+  const [revisionRefreshKey, setRevisionRefreshKey] = useState(0);
+  // A modification the backend refused because the safety re-check found critical issues
+  const [blockedModification, setBlockedModification] = useState<{ notes: string; issues: FlaggedIssue[] } | null>(null);
   const [ensembleResult, setEnsembleResult] = useState<EnsembleRiskResult | null>(null);
   const [mlPrediction, setMlPrediction] = useState<{
     riskScore: number;
@@ -111,6 +120,7 @@ const TreatmentDashboard: React.FC = () => {
           height: patientData.demographics?.height || 170,
           sex: (patientData.demographics?.sex as 'male' | 'female' | 'other') || 'other',
           serumCreatinine: patientData.demographics?.serumCreatinine || 1, // Uses patient lab value, falls back to 1.0
+          labs: patientData.labResults, // Latest creatinine from the Labs step takes precedence
         };
         const renal = assessRenalFunction(params);
         setRenalFunction(renal);
@@ -146,6 +156,7 @@ const TreatmentDashboard: React.FC = () => {
             exerciseLevel: patientData.lifestyleFactors?.exerciseLevel || 'moderate',
             chiefComplaint: patientData.lifestyleFactors?.chiefComplaint,
           },
+          labResults: patientData.labResults,
         };
         const result = await computeEnsembleRisk(ensembleInput);
         setEnsembleResult(result);
@@ -230,7 +241,7 @@ const TreatmentDashboard: React.FC = () => {
 
     setIsSubmitting(true);
     try {
-      const response = await fetch(apiUrl(`/treatment-plans/${currentPatientId}/approve`), {
+      const response = await authFetch(apiUrl(`/treatment-plans/${currentPatientId}/approve`), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ notes, treatmentPlan }),
@@ -256,27 +267,38 @@ const TreatmentDashboard: React.FC = () => {
     }
   };
 
-  const handleModify = async (modifications: string) => {
+  const handleModify = async (modifications: string, overrideReason?: string) => {
     if (!currentPatientId) return;
 
     setIsSubmitting(true);
     try {
-      const response = await fetch(apiUrl(`/treatment-plans/${currentPatientId}/modify`), {
+      const response = await authFetch(apiUrl(`/treatment-plans/${currentPatientId}/modify`), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ modifications, treatmentPlan }),
+        // The notes become the revision reason; the edited plan is diffed against the last revision
+        body: JSON.stringify({ reason: modifications, treatmentPlan, overrideReason }),
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
+        if (errorData.requiresOverride) {
+          setBlockedModification({ notes: modifications, issues: errorData.flaggedIssues || [] });
+          return;
+        }
         throw new Error(errorData.message || 'Failed to submit modifications');
       }
 
       const data = await response.json();
-      setSuccessMessage('Treatment plan modifications submitted');
+      setBlockedModification(null);
+      setSuccessMessage(
+        data.safety?.overridden
+          ? 'Treatment plan modifications saved with a documented safety override'
+          : 'Treatment plan modifications submitted'
+      );
       if (data.treatmentPlan) {
         dispatch({ type: 'SET_TREATMENT_PLAN', payload: data.treatmentPlan });
       }
+      setRevisionRefreshKey(key => key + 1);
     } catch (error) {
       dispatch({
         type: 'SET_ERROR',
@@ -292,7 +314,7 @@ const TreatmentDashboard: React.FC = () => {
 
     setIsSubmitting(true);
     try {
-      const response = await fetch(apiUrl(`/treatment-plans/${currentPatientId}/reject`), {
+      const response = await authFetch(apiUrl(`/treatment-plans/${currentPatientId}/reject`), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ reason }),
@@ -450,10 +472,27 @@ const TreatmentDashboard: React.FC = () => {
         {/* Header */}
         <div className="flex items-center justify-between mb-8">
           <div>
-            <div className="inline-flex items-center gap-2 bg-cyan-500/10 text-cyan-400 px-4 py-2 rounded-full text-sm font-display font-medium mb-3 border border-cyan-500/20">
-              <FileText className="w-4 h-4" />
-              AI Analysis Complete
-            </div>
+            {treatmentPlan.generatedBy?.provider === 'rule-based' ? (
+              <div
+                className="inline-flex items-center gap-2 bg-amber-500/10 text-amber-300 px-4 py-2 rounded-full text-sm font-display font-medium mb-3 border border-amber-500/20"
+                title={treatmentPlan.generatedBy.fallback?.reason}
+              >
+                <FileText className="w-4 h-4" />
+                {treatmentPlan.generatedBy.fallback
+                  ? `Rule-based plan (${treatmentPlan.generatedBy.fallback.from} unavailable)`
+                  : 'Rule-based plan (no language model)'}
+              </div>
+            ) : (
+              <div className="inline-flex items-center gap-2 bg-cyan-500/10 text-cyan-400 px-4 py-2 rounded-full text-sm font-display font-medium mb-3 border border-cyan-500/20">
+                <FileText className="w-4 h-4" />
+                AI Analysis Complete
+                {treatmentPlan.generatedBy && (
+                  <span className="text-cyan-400/70">
+                    · {treatmentPlan.generatedBy.provider} ({treatmentPlan.generatedBy.model})
+                  </span>
+                )}
+              </div>
+            )}
             <h1 className="text-3xl font-display font-bold text-white">Treatment Plan Dashboard</h1>
             <p className="text-slate-400 mt-1">
               AI-generated treatment recommendations based on patient analysis
@@ -559,6 +598,17 @@ const TreatmentDashboard: React.FC = () => {
           </Alert>
         )}
 
+        {blockedModification && (
+          <SafetyOverridePrompt
+            issues={blockedModification.issues}
+            onOverride={reason => handleModify(blockedModification.notes, reason)}
+            onCancel={() => setBlockedModification(null)}
+            isSubmitting={isSubmitting}
+          />
+        )}
+
+        <PregnancySafetyBanner demographics={patientData.demographics} issues={treatmentPlan.flaggedIssues} />
+
         {/* Status Badge */}
         {treatmentPlan.status && treatmentPlan.status !== 'pending' && (
           <div className="mb-6">
@@ -620,6 +670,18 @@ const TreatmentDashboard: React.FC = () => {
                 isSubmitting={isSubmitting}
               />
             )}
+
+            {currentPatientId && treatmentPlan.status === 'approved' && (
+              <OutcomePanel treatmentPlanId={currentPatientId} />
+            )}
+
+            {currentPatientId && treatmentPlan.status === 'approved' && (
+              <PatientHandoutPanel treatmentPlanId={currentPatientId} followUps={followUps} />
+            )}
+
+            {currentPatientId && (
+              <RevisionTimeline treatmentPlanId={currentPatientId} refreshKey={revisionRefreshKey} />
+            )}
           </div>
         </div>
 
@@ -648,8 +710,8 @@ const TreatmentDashboard: React.FC = () => {
               notes={providerNotes}
               onAddNote={handleAddNote}
               currentProvider={{
-                id: 'provider-001',
-                name: 'Dr. Demo Provider',
+                id: getSession()?.user.id ?? 'unknown',
+                name: getSession()?.user.fullName ?? 'Unknown Provider',
               }}
             />
 
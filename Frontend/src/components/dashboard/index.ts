@@ -12,6 +12,11 @@ export { default as AnalyticsDashboard } from './AnalyticsDashboard';
 export { default as ProviderNotesPanel } from './ProviderNotesPanel';
 export { default as FollowUpScheduler } from './FollowUpScheduler';
 export { default as PatientSearch } from './PatientSearch';
+export { default as RevisionTimeline } from './RevisionTimeline';
+export { default as OutcomePanel } from './OutcomePanel';
+export { default as PatientHandoutPanel } from './PatientHandoutPanel';
+export { default as SafetyOverridePrompt } from './SafetyOverridePrompt';
+export { default as PregnancySafetyBanner } from './PregnancySafetyBanner';
 
 // ML & Enhanced components
 export { default as MLTrainingProgress } from './MLTrainingProgress';
@@ -1,5 +1,5 @@
 import React, { useState, useCallback } from 'react';
-import { useAppContext } from '../../context/AppContext';
+import { PatientDemographics, useAppContext } from '../../context/AppContext';
 import { Input, Select, Alert } from '../ui';
 
 interface ValidationErrors {
@@ -58,6 +58,11 @@ const DemographicsStep: React.FC = () => {
 
     const updatedDemographics = { ...demographics, [field]: processedValue };
 
+    // Pregnancy and lactation are not recorded for male patients
+    if (field === 'sex' && processedValue === 'male') {
+      Object.assign(updatedDemographics, { pregnant: undefined, trimester: undefined, lactating: undefined });
+    }
+
     // Auto-calculate BMI when height and weight are provided and valid
     if ((field === 'height' || field === 'weight') &&
       updatedDemographics.height > 0 &&
@@ -96,6 +101,17 @@ const DemographicsStep: React.FC = () => {
     });
   };
 
+  const handleReproductiveChange = (update: Pick<PatientDemographics, 'pregnant' | 'trimester' | 'lactating'>) => {
+    dispatch({ type: 'UPDATE_DEMOGRAPHICS', payload: update });
+  };
+
+  const trimesterOptions = [
+    { value: '', label: 'Unknown' },
+    { value: '1', label: '1st trimester (weeks 1-13)' },
+    { value: '2', label: '2nd trimester (weeks 14-27)' },
+    { value: '3', label: '3rd trimester (week 28 onwards)' },
+  ];
+
   const sexOptions = [
     { value: 'male', label: 'Male' },
     { value: 'female', label: 'Female' },
@@ -228,9 +244,52 @@ const DemographicsStep: React.FC = () => {
           min={0.1}
           max={30}
           step={0.1}
-          helperText="Used for renal dosing calculations (CrCl/eGFR). Defaults to 1.0 if not provided."
+          helperText="Used for renal dosing (CrCl/eGFR) when no creatinine is entered in the Labs step. Defaults to 1.0."
         />
       </div>
+
+      {demographics.sex !== 'male' && (
+        <div className="border-t border-obsidian-600/30 pt-6">
+          <h3 className="text-lg font-display font-semibold text-white">Pregnancy & Lactation</h3>
+          <p className="text-slate-400 text-sm mt-1 mb-4">
+            Teratogenic drugs are flagged with severity for the trimester; breastfeeding adds checks for drugs that pass into milk.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-center">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!demographics.pregnant}
+                onChange={(e) => handleReproductiveChange({
+                  pregnant: e.target.checked || undefined,
+                  trimester: e.target.checked ? demographics.trimester : undefined,
+                })}
+                className="w-4 h-4 text-cyan-500 rounded focus:ring-cyan-500 bg-obsidian-700 border-obsidian-500"
+              />
+              <span className="text-sm text-slate-300">Currently pregnant</span>
+            </label>
+
+            <Select
+              label="Trimester"
+              value={demographics.trimester ? String(demographics.trimester) : ''}
+              onChange={(e) => handleReproductiveChange({
+                trimester: e.target.value ? Number(e.target.value) as PatientDemographics['trimester'] : undefined,
+              })}
+              options={trimesterOptions}
+              disabled={!demographics.pregnant}
+            />
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!demographics.lactating}
+                onChange={(e) => handleReproductiveChange({ lactating: e.target.checked || undefined })}
+                className="w-4 h-4 text-cyan-500 rounded focus:ring-cyan-500 bg-obsidian-700 border-obsidian-500"
+              />
+              <span className="text-sm text-slate-300">Breastfeeding</span>
+            </label>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
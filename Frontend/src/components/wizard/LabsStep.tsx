@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { useAppContext } from '../../context/AppContext';
+import { Button, Input, Select, Card } from '../ui';
+import { LabResult } from '../../types';
+import { Dna, FlaskConical, Plus, Trash2 } from 'lucide-react';
+import {
+  LAB_TESTS,
+  PHARMACOGENOMIC_GENES,
+  PharmacogenomicGene,
+  PharmacogenomicProfile,
+  findLabTest,
+} from '@treatment-plan/clinical-knowledge';
+import { getLatestLabs, isOutOfRange } from '../../services/lab-results';
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const LabsStep: React.FC = () => {
+  const { state, dispatch } = useAppContext();
+  const { labResults, pharmacogenomics } = state.patientData;
+
+  const [testCode, setTestCode] = useState(LAB_TESTS[0].code);
+  const [value, setValue] = useState('');
+  const [collectedAt, setCollectedAt] = useState(today);
+
+  const selectedTest = findLabTest(testCode) ?? LAB_TESTS[0];
+  const latest = getLatestLabs(labResults);
+  const parsedValue = Number.parseFloat(value);
+
+  const formatRange = (low?: number | null, high?: number | null): string => {
+    if (low != null && high != null) return `${low}–${high}`;
+    if (low != null) return `≥ ${low}`;
+    if (high != null) return `≤ ${high}`;
+    return '-';
+  };
+
+  const addLabResult = () => {
+    if (!Number.isFinite(parsedValue) || parsedValue < 0 || !collectedAt) return;
+
+    const result: LabResult = {
+      testCode: selectedTest.code,
+      value: parsedValue,
+      unit: selectedTest.unit,
+      referenceLow: selectedTest.referenceLow,
+      referenceHigh: selectedTest.referenceHigh,
+      collectedAt,
+    };
+    dispatch({ type: 'UPDATE_LAB_RESULTS', payload: [...labResults, result] });
+    setValue('');
+  };
+
+  const removeLabResult = (index: number) => {
+    dispatch({ type: 'UPDATE_LAB_RESULTS', payload: labResults.filter((_, i) => i !== index) });
+  };
+
+  // An empty selection means the gene was not tested and is dropped from the profile
+  const updatePharmacogenomics = (key: PharmacogenomicGene | 'testedAt', value: string) => {
+    const profile = { ...pharmacogenomics, [key]: value || undefined } as PharmacogenomicProfile;
+    dispatch({ type: 'UPDATE_PHARMACOGENOMICS', payload: profile });
+  };
+
+  const sortedResults = labResults
+    .map((lab, index) => ({ lab, index }))
+    .sort((a, b) => new Date(b.lab.collectedAt).getTime() - new Date(a.lab.collectedAt).getTime());
+
+  return (
+    <div className="space-y-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-display font-bold text-white">Lab Results</h2>
+        <p className="text-slate-400 mt-1">
+          Recent labs drive renal and hepatic dose adjustments. The most recent value of each test is used.
+        </p>
+      </div>
+
+      <Card title="Add Lab Result">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <Select
+            label="Test"
+            value={testCode}
+            onChange={(e) => setTestCode(e.target.value)}
+            options={LAB_TESTS.map((test) => ({ value: test.code, label: `${test.name} (${test.category})` }))}
+          />
+          <Input
+            label={`Value (${selectedTest.unit})`}
+            type="number"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            min={0}
+            step={0.1}
+            hint={`Reference ${formatRange(selectedTest.referenceLow, selectedTest.referenceHigh)}`}
+          />
+          <Input
+            label="Collected"
+            type="date"
+            value={collectedAt}
+            max={today()}
+            onChange={(e) => setCollectedAt(e.target.value)}
+          />
+          <div className="flex items-end">
+            <Button
+              onClick={addLabResult}
+              disabled={!Number.isFinite(parsedValue) || parsedValue < 0 || !collectedAt}
+              className="w-full"
+            >
+              <Plus className="w-4 h-4" /> Add Result
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card title="Lab Results" subtitle={`${labResults.length} result(s)`}>
+        {labResults.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">
+            <FlaskConical className="w-12 h-12 mx-auto mb-3 text-slate-600" />
+            <p>No lab results added</p>
+            <p className="text-sm">Optional — without a creatinine, renal dosing assumes 1.0 mg/dL</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr className="border-b border-obsidian-600/30">
+                  <th className="text-left py-2 px-3 text-sm font-medium text-slate-400">Test</th>
+                  <th className="text-left py-2 px-3 text-sm font-medium text-slate-400">Value</th>
+                  <th className="text-left py-2 px-3 text-sm font-medium text-slate-400">Reference</th>
+                  <th className="text-left py-2 px-3 text-sm font-medium text-slate-400">Collected</th>
+                  <th className="py-2 px-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {sortedResults.map(({ lab, index }) => {
+                  const isLatest = latest[lab.testCode] === lab;
+                  return (
+                    <tr key={`${lab.testCode}-${lab.collectedAt}-${index}`} className="border-b border-obsidian-700/50">
+                      <td className="py-2 px-3 text-sm text-slate-200">
+                        {findLabTest(lab.testCode)?.name ?? lab.testCode}
+                        {isLatest && <span className="ml-2 text-xs text-cyan-400">latest</span>}
+                      </td>
+                      <td className={`py-2 px-3 text-sm font-medium ${isOutOfRange(lab) ? 'text-amber-300' : 'text-slate-300'}`}>
+                        {lab.value} {lab.unit}
+                      </td>
+                      <td className="py-2 px-3 text-sm text-slate-500">{formatRange(lab.referenceLow, lab.referenceHigh)}</td>
+                      <td className="py-2 px-3 text-sm text-slate-400">{lab.collectedAt}</td>
+                      <td className="py-2 px-3 text-right">
+                        <Button variant="danger" size="sm" onClick={() => removeLabResult(index)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      <Card
+        title="Pharmacogenomics"
+        subtitle="Phenotypes from a genotyping report; leave genes that were not tested empty"
+        icon={<Dna className="w-5 h-5 text-violet-400" />}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {PHARMACOGENOMIC_GENES.map((gene) => (
+            <Select
+              key={gene.key}
+              label={gene.label}
+              value={pharmacogenomics[gene.key] ?? ''}
+              onChange={(e) => updatePharmacogenomics(gene.key, e.target.value)}
+              options={[
+                { value: '', label: 'Not tested' },
+                ...gene.values.map((value) => ({ value, label: value })),
+              ]}
+            />
+          ))}
+          <Input
+            label="Report date"
+            type="date"
+            value={pharmacogenomics.testedAt ?? ''}
+            max={today()}
+            onChange={(e) => updatePharmacogenomics('testedAt', e.target.value)}
+          />
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default LabsStep;
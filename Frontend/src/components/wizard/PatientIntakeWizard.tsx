@@ -1,11 +1,14 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { apiUrl } from '../../config/api';
+import { authFetch } from '../../services/auth-client';
+import { describeMappingEntries, toIntakeData, type FhirImportPreview, type FhirMappingReport } from '../../services/fhir-import';
 import { useAppContext } from '../../context/AppContext';
 import { Button, Card, Alert, BackNavigation } from '../ui';
 import {
   DemographicsStep,
   MedicalHistoryStep,
   MedicationsStep,
+  LabsStep,
   LifestyleStep,
   ReviewStep,
 } from './index';
@@ -13,12 +16,14 @@ import {
   User,
   Heart,
   Pill,
+  FlaskConical,
   Activity,
   ClipboardCheck,
   ChevronLeft,
   ChevronRight,
   Loader2,
   CheckCircle,
+  Upload,
 } from 'lucide-react';
 
 interface WizardStep {
@@ -32,6 +37,9 @@ interface WizardStep {
 const PatientIntakeWizard: React.FC = () => {
   const { state, dispatch } = useAppContext();
   const [currentStep, setCurrentStep] = useState(0);
+  const [importing, setImporting] = useState(false);
+  const [importReport, setImportReport] = useState<FhirMappingReport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const steps: WizardStep[] = [
     {
@@ -57,13 +65,20 @@ const PatientIntakeWizard: React.FC = () => {
     },
     {
       id: 4,
+      title: 'Labs',
+      description: 'Lab results and genotype',
+      icon: <FlaskConical className="w-5 h-5" />,
+      component: <LabsStep />,
+    },
+    {
+      id: 5,
       title: 'Lifestyle',
       description: 'Lifestyle and chief complaint',
       icon: <Activity className="w-5 h-5" />,
       component: <LifestyleStep />,
     },
     {
-      id: 5,
+      id: 6,
       title: 'Review',
       description: 'Review and submit',
       icon: <ClipboardCheck className="w-5 h-5" />,
@@ -101,7 +116,7 @@ const PatientIntakeWizard: React.FC = () => {
 
     try {
       // Call API to analyze patient
-      const response = await fetch(apiUrl('/treatment-plans/analyze'), {
+      const response = await authFetch(apiUrl('/treatment-plans/analyze'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(state.patientData),
@@ -127,6 +142,49 @@ const PatientIntakeWizard: React.FC = () => {
     }
   };
 
+  // Maps a FHIR R4 Bundle into the form without saving it; the clinician reviews and submits as usual
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    setImportReport(null);
+    dispatch({ type: 'SET_ERROR', payload: null });
+
+    try {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a JSON file`);
+      }
+
+      const response = await authFetch(apiUrl('/patients/import/fhir?dryRun=true'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/fhir+json' },
+        body: JSON.stringify(bundle),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error((errorData as Record<string, string>).message || 'Import failed');
+      }
+
+      const { data } = await response.json() as { data: FhirImportPreview };
+      dispatch({ type: 'SET_PATIENT_DATA', payload: toIntakeData(data, state.patientData) });
+      setImportReport(data.report);
+      setCurrentStep(0);
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleStepClick = (index: number) => {
     setCurrentStep(index);
   };
@@ -162,8 +220,55 @@ const PatientIntakeWizard: React.FC = () => {
           <p className="text-slate-400 mt-2">
             Complete the following steps to generate an AI-powered treatment plan
           </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json,application/fhir+json"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <Button
+            variant="secondary"
+            size="sm"
+            className="mt-4"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+          >
+            {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Import from file
+          </Button>
         </div>
 
+        {/* FHIR Import Report */}
+        {importReport && (
+          <Alert
+            type={importReport.unmapped.length + importReport.ambiguous.length > 0 ? 'warning' : 'success'}
+            title={`Imported ${importReport.mapped.length} FHIR resources`}
+            className="mb-6"
+            onClose={() => setImportReport(null)}
+          >
+            {importReport.missing.length > 0 && (
+              <p>Still needed: {importReport.missing.join(', ')}</p>
+            )}
+            {importReport.ambiguous.length > 0 && (
+              <div className="mt-2">
+                <p className="font-medium">Check these ({importReport.ambiguous.length})</p>
+                <ul className="list-disc list-inside text-sm">
+                  {describeMappingEntries(importReport.ambiguous).map((line, i) => <li key={`${i}-${line}`}>{line}</li>)}
+                </ul>
+              </div>
+            )}
+            {importReport.unmapped.length > 0 && (
+              <div className="mt-2">
+                <p className="font-medium">Not imported ({importReport.unmapped.length})</p>
+                <ul className="list-disc list-inside text-sm">
+                  {describeMappingEntries(importReport.unmapped).map((line, i) => <li key={`${i}-${line}`}>{line}</li>)}
+                </ul>
+              </div>
+            )}
+          </Alert>
+        )}
+
         {/* Progress Stepper */}
         <div className="mb-8">
           <div className="flex items-center justify-between">
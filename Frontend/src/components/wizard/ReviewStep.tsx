@@ -2,13 +2,25 @@ import React from 'react';
 import { useAppContext } from '../../context/AppContext';
 import { Card, Alert } from '../ui';
 import { 
-  User, Heart, Pill, Activity, 
+  User, Heart, Pill, Activity, FlaskConical, Dna,
   AlertTriangle, CheckCircle, Info 
 } from 'lucide-react';
+import {
+  PHARMACOGENOMIC_GENES,
+  describePhenotype,
+  describeReproductiveStatus,
+  evaluatePharmacogenomics,
+  evaluateReproductiveSafety,
+  findLabTest,
+} from '@treatment-plan/clinical-knowledge';
+import { getLatestLabs, isOutOfRange } from '../../services/lab-results';
 
 const ReviewStep: React.FC = () => {
   const { state } = useAppContext();
-  const { demographics, medicalHistory, currentMedications, lifestyleFactors } = state.patientData;
+  const { demographics, medicalHistory, currentMedications, lifestyleFactors, labResults, pharmacogenomics } = state.patientData;
+  const latestLabs = Object.values(getLatestLabs(labResults));
+  const testedGenes = PHARMACOGENOMIC_GENES.filter(gene => pharmacogenomics[gene.key]);
+  const currentDrugNames = currentMedications.medications.map(med => med.genericName || med.drugName);
 
   const isValid = (): boolean => {
     return !!(
@@ -34,6 +46,18 @@ const ReviewStep: React.FC = () => {
     if (medicalHistory.conditions.some(c => (c.name || c.condition || '').toLowerCase().includes('hepatic') || (c.name || c.condition || '').toLowerCase().includes('liver'))) {
       risks.push('Hepatic impairment - dosage adjustments may be needed');
     }
+    const abnormalLabs = latestLabs.filter(isOutOfRange);
+    if (abnormalLabs.length > 0) {
+      risks.push(`Abnormal labs: ${abnormalLabs.map(lab => findLabTest(lab.testCode)?.name ?? lab.testCode).join(', ')}`);
+    }
+    for (const finding of evaluateReproductiveSafety(demographics, currentDrugNames)) {
+      risks.push(`${finding.drug} while ${finding.context === 'pregnancy' ? 'pregnant' : 'breastfeeding'} - ${finding.reason}`);
+    }
+    const geneDrugFindings = evaluatePharmacogenomics(pharmacogenomics, currentDrugNames)
+      .filter(finding => finding.severity !== 'low');
+    for (const finding of geneDrugFindings) {
+      risks.push(`${finding.phenotype} on ${finding.drug} - ${finding.doseAdjustment ?? finding.recommendation}`);
+    }
     if (medicalHistory.allergies.length > 0) {
       risks.push(`${medicalHistory.allergies.length} known drug allergies`);
     }
@@ -91,6 +115,9 @@ const ReviewStep: React.FC = () => {
           />
           <SummaryItem label="Heart Rate" value={demographics.heartRate ? `${demographics.heartRate} bpm` : '-'} />
           <SummaryItem label="Temperature" value={demographics.temperature ? `${demographics.temperature}°F` : '-'} />
+          {(demographics.pregnant || demographics.lactating) && (
+            <SummaryItem label="Pregnancy / Lactation" value={describeReproductiveStatus(demographics)} />
+          )}
         </div>
       </Card>
 
@@ -184,6 +211,43 @@ const ReviewStep: React.FC = () => {
         )}
       </Card>
 
+      {/* Lab Results Summary */}
+      <Card title="Lab Results" subtitle="Most recent value per test" icon={<FlaskConical className="w-5 h-5 text-amber-400" />}>
+        {latestLabs.length > 0 ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {latestLabs.map(lab => (
+              <div key={lab.testCode}>
+                <p className="text-xs text-slate-500 uppercase tracking-wide">{findLabTest(lab.testCode)?.name ?? lab.testCode}</p>
+                <p className={`text-sm font-medium ${isOutOfRange(lab) ? 'text-amber-300' : 'text-slate-200'}`}>
+                  {lab.value} {lab.unit}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-slate-500 text-sm text-center py-4">No lab results entered</p>
+        )}
+      </Card>
+
+      {/* Pharmacogenomics Summary */}
+      <Card
+        title="Pharmacogenomics"
+        subtitle={pharmacogenomics.testedAt ? `Reported ${pharmacogenomics.testedAt}` : undefined}
+        icon={<Dna className="w-5 h-5 text-violet-400" />}
+      >
+        {testedGenes.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {testedGenes.map(gene => (
+              <span key={gene.key} className="px-3 py-1 bg-violet-500/10 text-violet-300 rounded-full text-sm border border-violet-500/20">
+                {describePhenotype(gene.key, pharmacogenomics[gene.key] ?? '')}
+              </span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-slate-500 text-sm text-center py-4">No genotype results entered</p>
+        )}
+      </Card>
+
       {/* Lifestyle Summary */}
       <Card title="Lifestyle Factors" icon={<Activity className="w-5 h-5 text-emerald-400" />}>
         <div className="space-y-4">
@@ -1,6 +1,7 @@
 export { default as DemographicsStep } from './DemographicsStep';
 export { default as MedicalHistoryStep } from './MedicalHistoryStep';
 export { default as MedicationsStep } from './MedicationsStep';
+export { default as LabsStep } from './LabsStep';
 export { default as LifestyleStep } from './LifestyleStep';
 export { default as ReviewStep } from './ReviewStep';
 export { default as PatientIntakeWizard } from './PatientIntakeWizard';
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useReducer, useMemo, ReactNode } from 'react';
 import { TreatmentPlanResponse, TreatmentRecommendation } from '../types';
+import type { PharmacogenomicProfile, Trimester } from '@treatment-plan/clinical-knowledge';
 
 // Patient Demographics interface
 export interface PatientDemographics {
@@ -16,6 +17,9 @@ export interface PatientDemographics {
   heartRate?: number;
   temperature?: number;
   serumCreatinine?: number; // mg/dL — used by dosing calculator for CrCl/eGFR
+  pregnant?: boolean;
+  trimester?: Trimester; // unknown while undefined
+  lactating?: boolean;
 }
 
 // Medical condition interface
@@ -86,12 +90,24 @@ export interface LifestyleFactors {
   additionalNotes?: string;
 }
 
+// Lab Result interface — testCode is one of the codes in data/lab-tests
+export interface LabResult {
+  testCode: string;
+  value: number;
+  unit: string;
+  referenceLow?: number | null;
+  referenceHigh?: number | null;
+  collectedAt: string; // ISO date
+}
+
 // Complete Patient Data interface
 export interface PatientData {
   demographics: PatientDemographics;
   medicalHistory: MedicalHistory;
   currentMedications: CurrentMedications;
   lifestyleFactors: LifestyleFactors;
+  labResults: LabResult[];
+  pharmacogenomics: PharmacogenomicProfile; // untested genes are left out
 }
 
 // Initial empty patient data
@@ -124,6 +140,8 @@ const initialPatientData: PatientData = {
     dietType: 'regular',
     stressLevel: 'moderate',
   },
+  labResults: [],
+  pharmacogenomics: {},
 };
 
 // App State Interface
@@ -153,6 +171,8 @@ type AppAction =
   | { type: 'UPDATE_MEDICAL_HISTORY'; payload: Partial<MedicalHistory> }
   | { type: 'UPDATE_MEDICATIONS'; payload: Partial<CurrentMedications> }
   | { type: 'UPDATE_LIFESTYLE'; payload: Partial<LifestyleFactors> }
+  | { type: 'UPDATE_LAB_RESULTS'; payload: LabResult[] }
+  | { type: 'UPDATE_PHARMACOGENOMICS'; payload: PharmacogenomicProfile }
   | { type: 'SET_PATIENT_DATA'; payload: PatientData }
   | { type: 'SET_CURRENT_PATIENT_ID'; payload: string }
   | { type: 'SET_TREATMENT_PLAN'; payload: TreatmentPlanResponse }
@@ -203,6 +223,18 @@ const appReducer = (state: AppState, action: AppAction): AppState => {
         },
       };
 
+    case 'UPDATE_LAB_RESULTS':
+      return {
+        ...state,
+        patientData: { ...state.patientData, labResults: action.payload },
+      };
+
+    case 'UPDATE_PHARMACOGENOMICS':
+      return {
+        ...state,
+        patientData: { ...state.patientData, pharmacogenomics: action.payload },
+      };
+
     case 'SET_PATIENT_DATA':
       return {
         ...state,
@@ -52,6 +52,14 @@ export const SAMPLE_PATIENTS: Record<string, PatientData> = {
       sleepHours: 6,
       stressLevel: 'moderate',
     },
+    labResults: [
+      { testCode: 'CREAT', value: 1.4, unit: 'mg/dL', referenceLow: 0.6, referenceHigh: 1.3, collectedAt: '2025-05-12' },
+      { testCode: 'CREAT', value: 1.8, unit: 'mg/dL', referenceLow: 0.6, referenceHigh: 1.3, collectedAt: '2025-11-04' },
+      { testCode: 'EGFR', value: 38, unit: 'mL/min/1.73m2', referenceLow: 60, referenceHigh: null, collectedAt: '2025-11-04' },
+      { testCode: 'K', value: 4.9, unit: 'mmol/L', referenceLow: 3.5, referenceHigh: 5.0, collectedAt: '2025-11-04' },
+      { testCode: 'HBA1C', value: 7.8, unit: '%', referenceLow: 4.0, referenceHigh: 5.6, collectedAt: '2025-11-04' },
+    ],
+    pharmacogenomics: {},
   },
   mediumRisk: {
     demographics: {
@@ -89,6 +97,12 @@ export const SAMPLE_PATIENTS: Record<string, PatientData> = {
       sleepHours: 7,
       stressLevel: 'moderate',
     },
+    labResults: [
+      { testCode: 'CREAT', value: 1.0, unit: 'mg/dL', referenceLow: 0.6, referenceHigh: 1.3, collectedAt: '2025-09-18' },
+      { testCode: 'ALT', value: 34, unit: 'U/L', referenceLow: 7, referenceHigh: 56, collectedAt: '2025-09-18' },
+      { testCode: 'AST', value: 28, unit: 'U/L', referenceLow: 10, referenceHigh: 40, collectedAt: '2025-09-18' },
+    ],
+    pharmacogenomics: { slco1b1: 'decreased', cyp2c19: 'normal', cyp2d6: 'normal', testedAt: '2024-08-20' },
   },
   lowRisk: {
     demographics: {
@@ -122,6 +136,8 @@ export const SAMPLE_PATIENTS: Record<string, PatientData> = {
       sleepHours: 8,
       stressLevel: 'low',
     },
+    labResults: [],
+    pharmacogenomics: {},
   },
 };
 
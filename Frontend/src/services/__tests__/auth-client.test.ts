@@ -0,0 +1,80 @@
+/**
+ * Auth Client Tests
+ *
+ * Verifies bearer-token propagation, single-shot refresh on 401 and
+ * session teardown when the refresh token is rejected.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { authFetch, getSession, login, logout, withAccessToken } from '../auth-client';
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function tokenPayload(accessToken: string, refreshToken: string) {
+  return {
+    success: true,
+    data: {
+      user: { id: 'u-1', username: 'dr.demo', fullName: 'Dr. Demo Physician', role: 'physician' },
+      accessToken,
+      refreshToken,
+    },
+  };
+}
+
+function authHeader(call: unknown[]): string | null {
+  return new Headers((call[1] as RequestInit | undefined)?.headers).get('Authorization');
+}
+
+describe('auth-client', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(async () => {
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, tokenPayload('access-1', 'refresh-1')));
+    await login('dr.demo', 'secret');
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    logout();
+    vi.unstubAllGlobals();
+  });
+
+  it('stores the session and attaches the bearer token', async () => {
+    expect(getSession()?.user.role).toBe('physician');
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { success: true }));
+    await authFetch('/api/v1/patients');
+
+    expect(authHeader(fetchMock.mock.calls[0])).toBe('Bearer access-1');
+  });
+
+  it('refreshes once on 401 and retries with the new token', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(401, { success: false }))
+      .mockResolvedValueOnce(jsonResponse(200, tokenPayload('access-2', 'refresh-2')))
+      .mockResolvedValueOnce(jsonResponse(200, { success: true }));
+
+    const response = await authFetch('/api/v1/patients');
+
+    expect(response.status).toBe(200);
+    expect(authHeader(fetchMock.mock.calls[2])).toBe('Bearer access-2');
+    expect(getSession()?.refreshToken).toBe('refresh-2');
+  });
+
+  it('clears the session when the refresh token is rejected', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(401, { success: false }))
+      .mockResolvedValueOnce(jsonResponse(401, { success: false, message: 'Token expired' }));
+
+    const response = await authFetch('/api/v1/patients');
+
+    expect(response.status).toBe(401);
+    expect(getSession()).toBeNull();
+  });
+
+  it('appends the access token for EventSource URLs', () => {
+    expect(withAccessToken('/api/v1/realtime/stream')).toBe('/api/v1/realtime/stream?access_token=access-1');
+  });
+});
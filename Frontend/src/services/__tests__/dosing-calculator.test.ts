@@ -11,6 +11,7 @@
  * - Child-Pugh hepatic scoring
  * - Renal-adjusted dosing (8 drugs)
  * - Weight-based & BSA-based dosing
+ * - Pediatric mg/kg, mg/m², weight- and age-band dosing
  * - Comprehensive dosing report
  */
 import { describe, it, expect } from 'vitest';
@@ -23,9 +24,11 @@ import {
   getCKDStage,
   assessRenalFunction,
   calculateChildPugh,
+  assessHepaticFunction,
   getRenalAdjustedDose,
   calculateWeightBasedDose,
   calculateBSABasedDose,
+  getPediatricDose,
   generateDosingReport,
   type PatientParameters,
 } from '../dosing-calculator';
@@ -72,6 +75,14 @@ const severeRenalPatient: PatientParameters = {
   serumCreatinine: 4.5,
 };
 
+const childPatient: PatientParameters = {
+  age: 4,
+  weight: 16,
+  height: 102,
+  sex: 'female',
+  serumCreatinine: 0.4,
+};
+
 const obesePatient: PatientParameters = {
   age: 40,
   weight: 130,
@@ -517,6 +528,47 @@ describe('getRenalAdjustedDose', () => {
     const tidResult = getRenalAdjustedDose('gabapentin', normalRenal);
     expect(tidResult!.frequency).toBe('Three times daily');
   });
+
+  it('assesses renal function from the latest creatinine result when given patient parameters', () => {
+    // Intake value says normal, but the newest lab shows 4.0 mg/dL: CrCl = 25 mL/min
+    const patient: PatientParameters = {
+      ...malePatient,
+      labs: [
+        { testCode: 'CREAT', value: 1.0, unit: 'mg/dL', collectedAt: '2025-01-10' },
+        { testCode: 'CREAT', value: 4.0, unit: 'mg/dL', collectedAt: '2026-02-01' },
+      ],
+    };
+    const result = getRenalAdjustedDose('metformin', patient);
+    expect(result!.adjustedDose).toBe('CONTRAINDICATED');
+    expect(result!.adjustmentReason).toContain('severe renal impairment');
+  });
+});
+
+// ── assessHepaticFunction ───────────────────────────────────────────────────
+
+describe('assessHepaticFunction', () => {
+  it('returns null until bilirubin, albumin and INR are all known', () => {
+    expect(assessHepaticFunction(malePatient)).toBeNull();
+    expect(assessHepaticFunction({ ...malePatient, bilirubin: 1, albumin: 4 })).toBeNull();
+  });
+
+  it('scores Child-Pugh from the latest labs', () => {
+    const patient: PatientParameters = {
+      ...malePatient,
+      labs: [
+        { testCode: 'BILI', value: 2.5, unit: 'mg/dL', collectedAt: '2026-02-01' },
+        { testCode: 'ALB', value: 3.0, unit: 'g/dL', collectedAt: '2026-02-01' },
+        { testCode: 'INR', value: 1.1, unit: 'ratio', collectedAt: '2025-11-01' },
+        { testCode: 'INR', value: 2.0, unit: 'ratio', collectedAt: '2026-02-01' },
+      ],
+    };
+    // bilirubin 2 + albumin 2 + INR 2 + no ascites 1 + no encephalopathy 1
+    const hepatic = assessHepaticFunction(patient);
+    expect(hepatic).toEqual({ childPughScore: 8, childPughClass: 'B', hepaticAdjustmentRequired: true });
+    expect(generateDosingReport(patient, []).generalWarnings).toContain(
+      'Child-Pugh class B - hepatic dose adjustment required',
+    );
+  });
 });
 
 // ── calculateWeightBasedDose ────────────────────────────────────────────────
@@ -571,6 +623,71 @@ describe('calculateBSABasedDose', () => {
   });
 });
 
+// ── getPediatricDose ────────────────────────────────────────────────────────
+
+describe('getPediatricDose', () => {
+  it('calculates a mg/kg dose from body weight', () => {
+    const rec = getPediatricDose('acetaminophen', childPatient);
+    expect(rec?.adjustedDose).toBe('240 mg every 6 hours as needed');
+    expect(rec?.adjustmentReason).toContain('15 mg/kg × 16 kg');
+    expect(rec?.warnings).toEqual([]);
+  });
+
+  it('caps the dose at the maximum per dose', () => {
+    const teen: PatientParameters = { ...childPatient, age: 15, weight: 60 };
+    const rec = getPediatricDose('Advil', teen);
+    expect(rec?.adjustedDose).toBe('400 mg every 6-8 hours as needed');
+    expect(rec?.warnings.some(w => w.includes('maximum single dose of 400 mg'))).toBe(true);
+  });
+
+  it('caps the dose so the daily total stays within the maximum per day', () => {
+    const teen: PatientParameters = { ...childPatient, age: 16, weight: 70 };
+    const rec = getPediatricDose('amoxicillin', teen);
+    // 45 mg/kg × 70 kg = 3150 mg, capped at 2000 mg/dose, then at 4000 mg/day over 2 doses
+    expect(rec?.adjustedDose).toBe('2000 mg every 12 hours');
+  });
+
+  it('picks the dose from the weight band', () => {
+    expect(getPediatricDose('omeprazole', childPatient)?.adjustedDose).toBe('10 mg once daily');
+    expect(getPediatricDose('omeprazole', { ...childPatient, age: 9, weight: 28 })?.adjustedDose).toBe('20 mg once daily');
+  });
+
+  it('picks the dose from the age band', () => {
+    expect(getPediatricDose('albuterol', childPatient)?.adjustedDose).toBe('1.25 mg nebulized every 4-6 hours as needed');
+    expect(getPediatricDose('sertraline', { ...childPatient, age: 14, weight: 50 })?.adjustedDose).toBe('50 mg once daily');
+  });
+
+  it('calculates a mg/m² dose from body surface area', () => {
+    const rec = getPediatricDose('6-MP', childPatient);
+    const bsa = calculateBSA(childPatient);
+    expect(rec?.adjustedDose).toBe(`${calculateBSABasedDose(75, childPatient)} mg once daily in the evening`);
+    expect(rec?.adjustmentReason).toContain(`75 mg/m² × ${bsa} m²`);
+    expect(rec?.monitoringRequired).toEqual(['Recalculate the dose when the weight or height changes']);
+  });
+
+  it('doses infants recorded as age 0 and asks to confirm month-based minimums', () => {
+    const infant: PatientParameters = { ...childPatient, age: 0, weight: 8, height: 70 };
+    const rec = getPediatricDose('ibuprofen', infant);
+    expect(rec?.adjustedDose).toBe('80 mg every 6-8 hours as needed');
+    expect(rec?.warnings).toContain("Not established under 6 months - confirm the infant's age in months");
+  });
+
+  it('marks drugs below their minimum age as contraindicated', () => {
+    const codeine = getPediatricDose('codeine', childPatient);
+    expect(codeine?.adjustedDose).toBe('CONTRAINDICATED');
+    expect(codeine?.adjustmentReason).toBe('Minimum age 12 years');
+
+    const cipro = getPediatricDose('Cipro', { ...childPatient, age: 16, weight: 55 });
+    expect(cipro?.adjustedDose).toBe('CONTRAINDICATED');
+    expect(cipro?.adjustmentReason).toBe('Adult-only medication');
+    expect(cipro?.standardDose).toBe('Adults only');
+  });
+
+  it('returns null for drugs without a pediatric rule', () => {
+    expect(getPediatricDose('lisinopril', childPatient)).toBeNull();
+  });
+});
+
 // ── generateDosingReport ────────────────────────────────────────────────────
 
 describe('generateDosingReport', () => {
@@ -631,6 +748,18 @@ describe('generateDosingReport', () => {
     expect(report.generalWarnings.some(w => w.includes('nephrology'))).toBe(true);
   });
 
+  it('doses children from the pediatric rules instead of the renal tiers', () => {
+    const report = generateDosingReport(childPatient, ['amoxicillin', 'finasteride', 'lisinopril']);
+
+    expect(report.dosingRecommendations.map(r => [r.drug, r.adjustedDose])).toEqual([
+      ['amoxicillin', '720 mg every 12 hours'],
+      ['finasteride', 'CONTRAINDICATED'],
+    ]);
+    expect(report.generalWarnings.some(w => w.includes('Pediatric patient'))).toBe(true);
+    expect(report.generalWarnings).toContain('No pediatric dosing rule for lisinopril - verify against a pediatric reference');
+    expect(report.generalWarnings.some(w => w.includes('Underweight') || w.includes('nephrotoxic'))).toBe(false);
+  });
+
   it('report patient parameters are consistent with individual calculations', () => {
     const report = generateDosingReport(malePatient, []);
     const renal = assessRenalFunction(malePatient);
@@ -69,6 +69,21 @@ describe('Drug Interaction Predictor', () => {
     });
   });
 
+  // ─── Drug-Class Ontology Resolution ─────────────────────────────────────
+  describe('Brand and Class Resolution', () => {
+    it('should score brand names the same as their generics', async () => {
+      const brand = await predictor.predict('Nardil', 'Prozac');
+      const generic = await predictor.predict('phenelzine', 'fluoxetine');
+      expect(brand.predictedSeverity).toBe(generic.predictedSeverity);
+    });
+
+    it('should apply class rules to drugs without their own profile', async () => {
+      // Eliquis -> apixaban has a profile; meloxicam only resolves to the NSAID class
+      const result = await predictor.predict('Eliquis', 'meloxicam');
+      expect(['moderate', 'major']).toContain(result.predictedSeverity);
+    });
+  });
+
   // ─── Prediction Result Structure ────────────────────────────────────────
   describe('Prediction Result Format', () => {
     it('should include all required fields', async () => {
@@ -38,6 +38,7 @@ const createBasePatient = (overrides?: Partial<EnsemblePatientInput>): EnsembleP
     ...overrides?.lifestyleFactors,
   },
   labs: overrides?.labs,
+  labResults: overrides?.labResults,
 });
 
 describe('Ensemble Risk Scorer', () => {
@@ -335,5 +336,16 @@ describe('Ensemble Risk Scorer', () => {
       );
       expect(inrFlags.length).toBeGreaterThan(0);
     });
+
+    it('should score the latest structured lab result, not an older one', async () => {
+      const patient = createBasePatient({
+        labResults: [
+          { testCode: 'CREAT', value: 0.9, unit: 'mg/dL', collectedAt: '2025-06-01' },
+          { testCode: 'CREAT', value: 2.6, unit: 'mg/dL', collectedAt: '2026-01-15' },
+        ],
+      });
+      const result = await computeEnsembleRisk(patient);
+      expect(result.flags.some(f => f.category === 'renal' && f.message.includes('Creatinine 2.6'))).toBe(true);
+    });
   });
 });
@@ -0,0 +1,82 @@
+/**
+ * Unit Tests: FHIR Import Helpers
+ *
+ * Turning a backend import preview into intake form data.
+ */
+import { describe, it, expect } from 'vitest';
+import { describeMappingEntries, toIntakeData, type FhirImportPreview } from '../fhir-import';
+import type { PatientData } from '../../types';
+
+const form: PatientData = {
+  demographics: { age: 0, weight: 0, height: 0, bmi: 0, bloodPressure: { systolic: 0, diastolic: 0 } },
+  medicalHistory: { conditions: [], allergies: [], surgeries: [], pastSurgeries: [], familyHistory: [] },
+  currentMedications: { medications: [] },
+  lifestyleFactors: { chiefComplaint: 'Chest pain on exertion', smokingStatus: 'never', alcoholUse: 'occasional' },
+  labResults: [],
+  pharmacogenomics: { cyp2c19: 'poor' },
+};
+
+const preview: FhirImportPreview = {
+  patientData: {
+    demographics: {
+      patientId: '',
+      age: 65,
+      sex: 'female',
+      weight: 79.8,
+      height: 165,
+      bmi: 0,
+      bloodPressure: { systolic: 142, diastolic: 88 },
+      heartRate: 0,
+      temperature: 98.6,
+    },
+    medicalHistory: {
+      conditions: [{ condition: 'Hypertension', diagnosisDate: '', severity: 'moderate', controlled: false }],
+      allergies: [{ allergen: 'Penicillin', reaction: 'Hives', severity: 'mild' }],
+      pastSurgeries: [{ procedure: 'Cholecystectomy', date: '2019-08-01' }],
+      familyHistory: [],
+    },
+    currentMedications: {
+      medications: [{ drugName: 'Lisinopril', genericName: 'lisinopril', dosage: '10 mg', frequency: 'once daily', route: 'oral' }],
+    },
+    lifestyle: { smoking: { status: 'former' } },
+  },
+  labResults: [
+    { testCode: 'CREAT', value: 1.2, unit: 'mg/dL', collectedAt: '2025-11-01T09:00:00.000Z' },
+    { testCode: 'CREAT', value: 1.5, unit: 'mg/dL', collectedAt: '2026-02-20T09:00:00.000Z' },
+  ],
+  report: { mapped: [], unmapped: [], ambiguous: [], missing: ['lifestyle.chiefComplaint'] },
+};
+
+describe('toIntakeData', () => {
+  it('fills the form from the import and keeps fields FHIR does not carry', () => {
+    const data = toIntakeData(preview, form);
+
+    expect(data.demographics).toMatchObject({ age: 65, sex: 'female', weight: 79.8, temperature: 98.6, serumCreatinine: 1.5 });
+    expect(data.demographics.patientId).toBeUndefined();
+    expect(data.demographics.heartRate).toBeUndefined();
+    expect(data.medicalHistory.conditions[0].diagnosisDate).toBeUndefined();
+    expect(data.medicalHistory.surgeries).toEqual([{ procedure: 'Cholecystectomy', date: '2019-08-01' }]);
+    expect(data.medicalHistory.pastSurgeries).toEqual(data.medicalHistory.surgeries);
+    expect(data.currentMedications.medications).toHaveLength(1);
+    expect(data.lifestyleFactors).toMatchObject({ chiefComplaint: 'Chest pain on exertion', smokingStatus: 'former', alcoholUse: 'occasional' });
+    expect(data.labResults).toHaveLength(2);
+    expect(data.pharmacogenomics).toEqual({ cyp2c19: 'poor' });
+  });
+
+  it('keeps the form smoking status when the bundle did not record one', () => {
+    const withoutSmoking = { ...preview, report: { ...preview.report, missing: ['lifestyle.smoking', 'lifestyle.chiefComplaint'] } };
+    expect(toIntakeData(withoutSmoking, form).lifestyleFactors).toEqual(form.lifestyleFactors);
+  });
+});
+
+describe('describeMappingEntries', () => {
+  it('prefers the reason over the target', () => {
+    expect(describeMappingEntries([
+      { resource: 'Observation/ldl', reason: 'no intake field for LOINC 18262-6 (LDL)' },
+      { resource: 'Condition/htn', target: 'medicalHistory.conditions' },
+    ])).toEqual([
+      'Observation/ldl: no intake field for LOINC 18262-6 (LDL)',
+      'Condition/htn: mapped to medicalHistory.conditions',
+    ]);
+  });
+});
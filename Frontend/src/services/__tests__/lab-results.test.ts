@@ -0,0 +1,36 @@
+/**
+ * Unit Tests: Lab Result Helpers
+ *
+ * Latest-value selection across a lab history and reference-range checks.
+ */
+import { describe, it, expect } from 'vitest';
+import { getLatestLabs, latestLabValue, isOutOfRange } from '../lab-results';
+import type { LabResult } from '../../types';
+
+const history: LabResult[] = [
+  { testCode: 'CREAT', value: 1.1, unit: 'mg/dL', collectedAt: '2025-09-01' },
+  { testCode: 'creat', value: 1.9, unit: 'mg/dL', collectedAt: '2026-01-20' },
+  { testCode: 'INR', value: 1.0, unit: 'ratio', referenceLow: 0.8, referenceHigh: 1.2, collectedAt: '2026-01-05' },
+];
+
+describe('getLatestLabs', () => {
+  it('keeps the most recently collected result per test code', () => {
+    const latest = getLatestLabs(history);
+    expect(Object.keys(latest).sort()).toEqual(['CREAT', 'INR']);
+    expect(latest.CREAT.value).toBe(1.9);
+  });
+
+  it('handles a missing lab list', () => {
+    expect(getLatestLabs(undefined)).toEqual({});
+    expect(latestLabValue(undefined, 'CREAT')).toBeUndefined();
+  });
+});
+
+describe('isOutOfRange', () => {
+  it('compares against whichever bounds are present', () => {
+    expect(isOutOfRange(history[2])).toBe(false);
+    expect(isOutOfRange({ ...history[2], value: 2.6 })).toBe(true);
+    expect(isOutOfRange({ testCode: 'EGFR', value: 45, unit: 'mL/min/1.73m2', referenceLow: 60, referenceHigh: null, collectedAt: '2026-01-05' })).toBe(true);
+    expect(isOutOfRange(history[0])).toBe(false);
+  });
+});
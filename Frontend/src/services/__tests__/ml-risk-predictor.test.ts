@@ -0,0 +1,102 @@
+/**
+ * ML Risk Predictor Tests
+ *
+ * Covers loading a pinned model version from the server registry in place
+ * of training in the browser, and rejecting artifacts that do not fit.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { isCompatibleRiskModel, RiskPredictionModel, type RiskModelArtifact } from '../ml-risk-predictor';
+
+const FEATURE_RANGES: Array<[number, number]> = [
+  [0, 120], [10, 50], [70, 220], [40, 140], [30, 200], [0, 20], [0, 15], [0, 30], [0, 100], [0, 100], [0, 100],
+];
+
+// All-zero weights with an output bias, so every patient scores sigmoid(bias)
+function buildArtifact(outputBias = 0): RiskModelArtifact {
+  const units = [64, 32, 16, 1];
+  let inputs = 11;
+  const weights = units.flatMap(n => {
+    const layer = [
+      { shape: [inputs, n], values: new Array(inputs * n).fill(0) },
+      { shape: [n], values: new Array(n).fill(0) },
+    ];
+    inputs = n;
+    return layer;
+  });
+  weights[7].values = [outputBias];
+
+  return {
+    format: 'risk-mlp/v1',
+    inputSize: 11,
+    layers: units.map((n, i) => ({ units: n, activation: i === units.length - 1 ? 'sigmoid' : 'relu' })),
+    featureRanges: FEATURE_RANGES,
+    weights,
+  };
+}
+
+const PATIENT = {
+  demographics: { age: 60, bmi: 27, bloodPressure: { systolic: 130, diastolic: 85 }, heartRate: 75 },
+  medicalHistory: { conditions: [], allergies: [] },
+  currentMedications: { medications: [] },
+  lifestyleFactors: { smokingStatus: 'never', alcoholUse: 'none', exerciseLevel: 'moderate' },
+};
+
+describe('isCompatibleRiskModel', () => {
+  it('accepts an artifact matching the network and feature scaling', () => {
+    expect(isCompatibleRiskModel(buildArtifact())).toBe(true);
+  });
+
+  it('rejects artifacts trained with other ranges, layers or weight shapes', () => {
+    const otherRanges = { ...buildArtifact(), featureRanges: FEATURE_RANGES.map(([min, max], i) => [min, i === 0 ? 100 : max] as [number, number]) };
+    const otherLayers = { ...buildArtifact(), layers: buildArtifact().layers.map(l => ({ ...l, activation: 'sigmoid' })) };
+    const truncated = buildArtifact();
+    truncated.weights[0].values.pop();
+
+    expect(isCompatibleRiskModel(otherRanges)).toBe(false);
+    expect(isCompatibleRiskModel(otherLayers)).toBe(false);
+    expect(isCompatibleRiskModel(truncated)).toBe(false);
+    expect(isCompatibleRiskModel({ ...buildArtifact(), format: 'risk-mlp/v2' })).toBe(false);
+  });
+});
+
+describe('RiskPredictionModel.loadPinnedModel', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function respondWith(status: number, body: unknown) {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } }));
+  }
+
+  it('uses the pinned weights instead of training', async () => {
+    // sigmoid(ln 3) = 0.75
+    respondWith(200, { success: true, data: { version: 'v4', artifact: buildArtifact(Math.log(3)) } });
+    const model = new RiskPredictionModel();
+
+    expect(await model.loadPinnedModel()).toBe('v4');
+    expect(model.isModelTrained()).toBe(true);
+    expect(model.getModelSource()).toEqual({ kind: 'pinned', version: 'v4' });
+    expect(String(fetchMock.mock.calls[0][0])).toContain('/ml/models/pinned');
+    expect((await model.predict(PATIENT)).riskScore).toBe(75);
+    model.dispose();
+  });
+
+  it('leaves the model untrained when nothing is pinned or the artifact does not fit', async () => {
+    respondWith(404, { success: false, message: 'Risk model version pinned not found' });
+    const model = new RiskPredictionModel();
+    expect(await model.loadPinnedModel()).toBeNull();
+
+    respondWith(200, { success: true, data: { version: 'v5', artifact: { ...buildArtifact(), inputSize: 12 } } });
+    expect(await model.loadPinnedModel()).toBeNull();
+
+    expect(model.isModelTrained()).toBe(false);
+    expect(model.getModelSource()).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Unit Tests: Patient Handout Helpers
+ *
+ * The handout request built from dashboard follow-ups, and the reading-level warning.
+ */
+import { describe, it, expect } from 'vitest';
+import { buildHandoutRequest, readingGradeWarning } from '../patient-handout';
+
+describe('buildHandoutRequest', () => {
+  it('sends open follow-ups as calendar days and starts the calendar today', () => {
+    const request = buildHandoutRequest([
+      { scheduledDate: '2026-03-08T00:00:00.000Z', type: 'lab-review', description: 'Potassium check', completed: false },
+      { scheduledDate: '2026-03-02T00:00:00.000Z', type: 'check-up', description: '', completed: true },
+    ], true, new Date(2026, 2, 1, 23, 30));
+
+    expect(request).toEqual({
+      followUps: [{ scheduledDate: '2026-03-08', type: 'lab-review', description: 'Potassium check' }],
+      largePrint: true,
+      startDate: '2026-03-01',
+      format: 'pdf',
+    });
+  });
+});
+
+describe('readingGradeWarning', () => {
+  it('warns only above the target grade', () => {
+    expect(readingGradeWarning(null)).toBeNull();
+    expect(readingGradeWarning({ grade: 5.4, targetGrade: 6 })).toBeNull();
+    expect(readingGradeWarning({ grade: 9.2, targetGrade: 6 })).toMatch(/^This handout reads at grade 9.2, above the grade 6 target\./);
+  });
+});
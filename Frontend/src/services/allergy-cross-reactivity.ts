@@ -7,9 +7,13 @@
  *   - Excipient / inactive ingredient allergies
  *   - Class-level alerts (e.g. penicillin → cephalosporin)
  * 
- * Works entirely offline — no API calls required.
+ * Works entirely offline — no API calls required. The cross-reactivity
+ * groups come from the shared clinical knowledge package, the same ones the
+ * backend cross-validation uses.
  */
 
+import { ALLERGY_CROSS_REACTIVITY, type AllergyCrossReactivityGroup } from '@treatment-plan/clinical-knowledge';
+
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 export interface AllergyAlert {
@@ -29,100 +33,6 @@ export interface AllergyCheckResult {
   checkedAllergens: string[];
 }
 
-// ─── Cross-reactivity Groups ─────────────────────────────────────────────────
-
-interface CrossReactivityGroup {
-  groupName: string;
-  primaryAllergens: string[];
-  crossReactiveDrugs: string[];
-  crossReactivityRate: string;
-  severity: 'high' | 'moderate' | 'low';
-  recommendation: string;
-}
-
-const CROSS_REACTIVITY_GROUPS: CrossReactivityGroup[] = [
-  {
-    groupName: 'Penicillin / Beta-Lactam',
-    primaryAllergens: ['penicillin', 'amoxicillin', 'ampicillin', 'piperacillin', 'nafcillin', 'oxacillin', 'dicloxacillin'],
-    crossReactiveDrugs: ['cephalexin', 'cefazolin', 'ceftriaxone', 'cefepime', 'cefuroxime', 'cefdinir', 'cefpodoxime', 'imipenem', 'meropenem', 'ertapenem'],
-    crossReactivityRate: '1-10%',
-    severity: 'high',
-    recommendation: 'Cephalosporin use requires careful risk-benefit analysis. Graded challenge or skin testing recommended. Carbapenems generally safe (<1% cross-reactivity).',
-  },
-  {
-    groupName: 'Sulfonamide Antibiotics',
-    primaryAllergens: ['sulfa', 'sulfamethoxazole', 'trimethoprim-sulfamethoxazole', 'bactrim', 'septra', 'sulfasalazine'],
-    crossReactiveDrugs: ['sulfadiazine', 'dapsone', 'sulfacetamide'],
-    crossReactivityRate: '10-15%',
-    severity: 'moderate',
-    recommendation: 'Non-antibiotic sulfonamides (furosemide, thiazides, celecoxib) have very low cross-reactivity. Antibiotic sulfonamides should be avoided.',
-  },
-  {
-    groupName: 'Sulfonamide → Non-Antibiotic Sulfonamides',
-    primaryAllergens: ['sulfa', 'sulfamethoxazole', 'bactrim'],
-    crossReactiveDrugs: ['furosemide', 'hydrochlorothiazide', 'celecoxib', 'sumatriptan', 'glipizide', 'glyburide'],
-    crossReactivityRate: '<2%',
-    severity: 'low',
-    recommendation: 'Very low cross-reactivity. Generally safe to use with monitoring. True sulfonamide allergy is to the arylamine group absent in these drugs.',
-  },
-  {
-    groupName: 'NSAID',
-    primaryAllergens: ['aspirin', 'ibuprofen', 'naproxen', 'nsaid', 'ketorolac', 'indomethacin', 'piroxicam'],
-    crossReactiveDrugs: ['diclofenac', 'meloxicam', 'ketoprofen', 'flurbiprofen', 'etodolac', 'nabumetone'],
-    crossReactivityRate: '20-30% (COX-1 mediated)',
-    severity: 'high',
-    recommendation: 'COX-2 selective NSAIDs (celecoxib) have low cross-reactivity (~4%). Acetaminophen is generally safe at standard doses.',
-  },
-  {
-    groupName: 'Opioid',
-    primaryAllergens: ['morphine', 'codeine', 'hydrocodone', 'oxycodone'],
-    crossReactiveDrugs: ['hydromorphone', 'oxymorphone', 'tramadol', 'fentanyl', 'methadone', 'meperidine', 'tapentadol'],
-    crossReactivityRate: 'Variable (structural similarity)',
-    severity: 'moderate',
-    recommendation: 'True opioid allergy is rare; most reactions are pseudo-allergic (histamine release). Fentanyl and methadone are structurally dissimilar and may be tolerated.',
-  },
-  {
-    groupName: 'ACE Inhibitor Angioedema',
-    primaryAllergens: ['lisinopril', 'enalapril', 'ramipril', 'captopril', 'benazepril', 'fosinopril', 'quinapril'],
-    crossReactiveDrugs: ['other ace inhibitors'],
-    crossReactivityRate: 'Class-wide (~100%)',
-    severity: 'high',
-    recommendation: 'All ACE inhibitors are contraindicated after angioedema. ARBs have ~10% cross-reactivity for angioedema. Use with extreme caution or avoid.',
-  },
-  {
-    groupName: 'Fluoroquinolone',
-    primaryAllergens: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin', 'ofloxacin'],
-    crossReactiveDrugs: ['gemifloxacin', 'delafloxacin', 'norfloxacin'],
-    crossReactivityRate: '~10%',
-    severity: 'moderate',
-    recommendation: 'Cross-reactivity within fluoroquinolones is possible. True IgE-mediated allergy is uncommon. Alternatives: azithromycin, doxycycline, or amoxicillin depending on indication.',
-  },
-  {
-    groupName: 'Local Anesthetics (Amide)',
-    primaryAllergens: ['lidocaine', 'bupivacaine', 'mepivacaine', 'prilocaine', 'ropivacaine'],
-    crossReactiveDrugs: ['articaine', 'etidocaine'],
-    crossReactivityRate: '<1% (usually preservative allergy)',
-    severity: 'low',
-    recommendation: 'True allergy to amide local anesthetics is extremely rare. Reactions are usually vasovagal or due to epinephrine/preservatives. Ester class (procaine) can be substituted.',
-  },
-  {
-    groupName: 'Statin',
-    primaryAllergens: ['atorvastatin', 'simvastatin', 'lovastatin', 'rosuvastatin', 'pravastatin', 'fluvastatin'],
-    crossReactiveDrugs: ['pitavastatin'],
-    crossReactivityRate: 'Variable (myopathy risk)',
-    severity: 'moderate',
-    recommendation: 'Statin intolerance (myopathy) varies by agent. Try a different statin (pravastatin/fluvastatin have lower myopathy risk), lower dose, or alternate-day dosing.',
-  },
-  {
-    groupName: 'Iodinated Contrast Media',
-    primaryAllergens: ['contrast dye', 'iodine contrast', 'iodinated contrast', 'ct contrast', 'iv contrast'],
-    crossReactiveDrugs: ['iopamidol', 'iohexol', 'iodixanol', 'ioversol'],
-    crossReactivityRate: '~10-35% re-reaction',
-    severity: 'high',
-    recommendation: 'Premedicate with corticosteroids and antihistamines (Lasser protocol). Use non-ionic, low/iso-osmolar contrast. Iodine allergy ≠ shellfish allergy — this is a myth.',
-  },
-];
-
 // ─── Excipient Allergies ─────────────────────────────────────────────────────
 
 interface ExcipientMapping {
@@ -193,7 +103,7 @@ function checkDirectMatches(allergen: string, normalizedDrugs: string[]): Allerg
 /** Check cross-reactivity group matches for a single allergen */
 function checkCrossReactivityMatches(allergen: string, normalizedDrugs: string[]): AllergyAlert[] {
   const results: AllergyAlert[] = [];
-  for (const group of CROSS_REACTIVITY_GROUPS) {
+  for (const group of ALLERGY_CROSS_REACTIVITY) {
     const isAllergenInGroup = group.primaryAllergens.some(pa => fuzzyMatch(pa, allergen));
     if (!isAllergenInGroup) continue;
 
@@ -304,9 +214,9 @@ export function isDrugSafeForPatient(
 /**
  * Get known cross-reactivity information for a given allergen.
  */
-export function getCrossReactivityInfo(allergen: string): CrossReactivityGroup[] {
+export function getCrossReactivityInfo(allergen: string): AllergyCrossReactivityGroup[] {
   const lower = allergen.toLowerCase().trim();
-  return CROSS_REACTIVITY_GROUPS.filter(g =>
+  return ALLERGY_CROSS_REACTIVITY.filter(g =>
     g.primaryAllergens.some(pa => fuzzyMatch(pa, lower)),
   );
 }
@@ -0,0 +1,158 @@
+/**
+ * Authentication Client
+ *
+ * Holds the signed-in clinician's JWT session and wraps `fetch` so every
+ * API call carries a bearer token. An expired access token is refreshed
+ * once transparently; if that fails the session is cleared and listeners
+ * (the app shell) fall back to the login screen.
+ */
+
+import { apiUrl } from '../config/api';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type UserRole = 'physician' | 'pharmacist' | 'nurse' | 'admin';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  fullName: string;
+  role: UserRole;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+}
+
+type SessionListener = (session: AuthSession | null) => void;
+
+// ─── Session storage ──────────────────────────────────────────────────────────
+
+const STORAGE_KEY = 'medassist.auth';
+
+let currentSession: AuthSession | null = readStoredSession();
+const listeners = new Set<SessionListener>();
+
+function readStoredSession(): AuthSession | null {
+  if (typeof sessionStorage === 'undefined') return null;
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as AuthSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+function setSession(session: AuthSession | null): void {
+  currentSession = session;
+  if (typeof sessionStorage !== 'undefined') {
+    if (session) {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    } else {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+  }
+  listeners.forEach(listener => listener(session));
+}
+
+export function getSession(): AuthSession | null {
+  return currentSession;
+}
+
+export function onSessionChange(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ─── Login / refresh / logout ─────────────────────────────────────────────────
+
+async function requestTokens(path: string, body: Record<string, string>): Promise<AuthSession> {
+  const response = await fetch(apiUrl(path), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const payload = await response.json().catch(() => ({}));
+
+  if (!response.ok || !payload.success) {
+    throw new Error(payload.message || 'Authentication failed');
+  }
+
+  return {
+    user: payload.data.user,
+    accessToken: payload.data.accessToken,
+    refreshToken: payload.data.refreshToken,
+  };
+}
+
+export async function login(username: string, password: string): Promise<AuthSession> {
+  const session = await requestTokens('/auth/login', { username, password });
+  setSession(session);
+  return session;
+}
+
+export function logout(): void {
+  setSession(null);
+}
+
+// Concurrent 401s share a single refresh request
+let refreshInFlight: Promise<AuthSession | null> | null = null;
+
+function refreshSession(): Promise<AuthSession | null> {
+  const refreshToken = currentSession?.refreshToken;
+  if (!refreshToken) return Promise.resolve(null);
+
+  refreshInFlight ??= requestTokens('/auth/refresh', { refreshToken })
+    .then(session => {
+      setSession(session);
+      return session;
+    })
+    .catch(() => {
+      setSession(null);
+      return null;
+    })
+    .finally(() => {
+      refreshInFlight = null;
+    });
+
+  return refreshInFlight;
+}
+
+// ─── Authenticated requests ───────────────────────────────────────────────────
+
+function withBearer(init: RequestInit, token: string | undefined): RequestInit {
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  return { ...init, headers };
+}
+
+/**
+ * Drop-in replacement for `fetch` against the API. Retries once with a
+ * refreshed token when the server answers 401.
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(input, withBearer(init, currentSession?.accessToken));
+  if (response.status !== 401 || !currentSession) {
+    return response;
+  }
+
+  const refreshed = await refreshSession();
+  if (!refreshed) return response;
+
+  return fetch(input, withBearer(init, refreshed.accessToken));
+}
+
+/**
+ * EventSource cannot send headers, so the access token travels as a query
+ * parameter (the backend only accepts this form on GET requests).
+ */
+export function withAccessToken(url: string): string {
+  const token = currentSession?.accessToken;
+  if (!token) return url;
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}access_token=${encodeURIComponent(token)}`;
+}
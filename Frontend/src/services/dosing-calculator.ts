@@ -8,8 +8,26 @@
  * - Ideal Body Weight (IBW)
  * - Renal-adjusted dosing recommendations
  * - Hepatic-adjusted dosing recommendations
+ * - Pediatric mg/kg, mg/m² and weight/age-band dosing
+ *
+ * When structured lab results are supplied, the latest value of each test
+ * takes precedence over the single-value fields. Renal dosing tiers and
+ * pediatric dosing rules come from the shared clinical knowledge package.
  */
 
+import {
+    PEDIATRIC_AGE_LIMIT,
+    PediatricBaseDose,
+    PediatricDosingRule,
+    calculatePediatricDose,
+    evaluatePediatricRestrictions,
+    findPediatricDosingRule,
+    findRenalDosingGuideline,
+    isAdultOnly,
+} from '@treatment-plan/clinical-knowledge';
+import type { LabResult } from '../types';
+import { latestLabValue } from './lab-results';
+
 // Types
 export interface PatientParameters {
     age: number; // years
@@ -20,6 +38,7 @@ export interface PatientParameters {
     bilirubin?: number; // mg/dL
     inr?: number;
     albumin?: number; // g/dL
+    labs?: LabResult[]; // CREAT, BILI, INR, ALB override the fields above
 }
 
 export interface RenalFunction {
@@ -46,87 +65,30 @@ export interface DosingRecommendation {
     warnings: string[];
 }
 
-// Drug-specific renal dosing guidelines
-const RENAL_DOSING_GUIDELINES: Record<string, {
-    normalDose: string;
-    mildImpairment: string; // CrCl 50-80
-    moderateImpairment: string; // CrCl 30-50
-    severeImpairment: string; // CrCl 15-30
-    esrd: string; // CrCl <15
-    dialysis: string;
-}> = {
-    metformin: {
-        normalDose: '500-1000mg BID',
-        mildImpairment: '500-1000mg BID',
-        moderateImpairment: '500mg BID (max 1000mg/day)',
-        severeImpairment: 'CONTRAINDICATED',
-        esrd: 'CONTRAINDICATED',
-        dialysis: 'CONTRAINDICATED',
-    },
-    gabapentin: {
-        normalDose: '300-600mg TID',
-        mildImpairment: '200-400mg TID',
-        moderateImpairment: '200-300mg BID',
-        severeImpairment: '100-200mg daily',
-        esrd: '100-200mg every other day',
-        dialysis: '125-350mg post-dialysis',
-    },
-    lisinopril: {
-        normalDose: '10-40mg daily',
-        mildImpairment: '10-40mg daily',
-        moderateImpairment: '5-20mg daily',
-        severeImpairment: '2.5-10mg daily',
-        esrd: '2.5-5mg daily',
-        dialysis: '2.5mg daily',
-    },
-    ciprofloxacin: {
-        normalDose: '500-750mg BID',
-        mildImpairment: '250-500mg BID',
-        moderateImpairment: '250-500mg Q12-18h',
-        severeImpairment: '250-500mg Q24h',
-        esrd: '250-500mg Q24h',
-        dialysis: '250-500mg post-dialysis',
-    },
-    enoxaparin: {
-        normalDose: '1mg/kg Q12h',
-        mildImpairment: '1mg/kg Q12h',
-        moderateImpairment: '1mg/kg Q12h (monitor anti-Xa)',
-        severeImpairment: '1mg/kg Q24h',
-        esrd: 'USE UNFRACTIONATED HEPARIN',
-        dialysis: 'USE UNFRACTIONATED HEPARIN',
-    },
-    sildenafil: {
-        normalDose: '50mg PRN',
-        mildImpairment: '50mg PRN',
-        moderateImpairment: '25mg PRN',
-        severeImpairment: '25mg PRN',
-        esrd: '25mg PRN',
-        dialysis: '25mg PRN',
-    },
-    amoxicillin: {
-        normalDose: '500mg TID',
-        mildImpairment: '500mg TID',
-        moderateImpairment: '500mg BID',
-        severeImpairment: '500mg daily',
-        esrd: '500mg daily',
-        dialysis: '500mg post-dialysis',
-    },
-    atorvastatin: {
-        normalDose: '10-80mg daily',
-        mildImpairment: '10-80mg daily',
-        moderateImpairment: '10-80mg daily',
-        severeImpairment: '10-80mg daily',
-        esrd: '10-80mg daily',
-        dialysis: '10-80mg daily',
-    },
-};
+/**
+ * Apply the latest lab results to the single-value lab fields
+ */
+export function resolveLabParameters(params: PatientParameters): PatientParameters {
+    const { labs } = params;
+    if (!labs || labs.length === 0) {
+        return params;
+    }
+
+    return {
+        ...params,
+        serumCreatinine: latestLabValue(labs, 'CREAT') ?? params.serumCreatinine,
+        bilirubin: latestLabValue(labs, 'BILI') ?? params.bilirubin,
+        inr: latestLabValue(labs, 'INR') ?? params.inr,
+        albumin: latestLabValue(labs, 'ALB') ?? params.albumin,
+    };
+}
 
 /**
  * Calculate Creatinine Clearance using Cockcroft-Gault equation
  * CrCl = ((140 - age) × weight × (0.85 if female)) / (72 × SCr)
  */
 export function calculateCrCl(params: PatientParameters): number {
-    const { age, weight, sex, serumCreatinine = 1.0 } = params;
+    const { age, weight, sex, serumCreatinine = 1.0 } = resolveLabParameters(params);
 
     let crCl = ((140 - age) * weight) / (72 * serumCreatinine);
 
@@ -141,7 +103,7 @@ export function calculateCrCl(params: PatientParameters): number {
  * Calculate eGFR using CKD-EPI equation (2021 update - race-free)
  */
 export function calculateEGFR(params: PatientParameters): number {
-    const { age, sex, serumCreatinine = 1.0 } = params;
+    const { age, sex, serumCreatinine = 1.0 } = resolveLabParameters(params);
 
     let kappa: number;
     let alpha: number;
@@ -297,20 +259,41 @@ export function calculateChildPugh(params: {
 }
 
 /**
- * Get renal-adjusted dosing recommendation for a drug
+ * Child-Pugh assessment from the patient's latest bilirubin, albumin and INR.
+ * Returns null when any of the three is unknown.
+ */
+export function assessHepaticFunction(
+    params: PatientParameters,
+    clinical: {
+        ascites: 'none' | 'mild' | 'moderate';
+        encephalopathy: 'none' | 'grade1-2' | 'grade3-4';
+    } = { ascites: 'none', encephalopathy: 'none' }
+): HepaticFunction | null {
+    const { bilirubin, albumin, inr } = resolveLabParameters(params);
+    if (bilirubin === undefined || albumin === undefined || inr === undefined) {
+        return null;
+    }
+    return calculateChildPugh({ bilirubin, albumin, inr, ...clinical });
+}
+
+/**
+ * Get renal-adjusted dosing recommendation for a drug.
+ * Accepts a precomputed renal function or the patient parameters, in which
+ * case renal function is assessed from the latest creatinine.
  */
 export function getRenalAdjustedDose(
     drugName: string,
-    renalFunction: RenalFunction,
+    renal: RenalFunction | PatientParameters,
     onDialysis = false
 ): DosingRecommendation | null {
-    const drugKey = drugName.toLowerCase().replace(/\s+/g, '');
-    const guidelines = RENAL_DOSING_GUIDELINES[drugKey];
+    const guidelines = findRenalDosingGuideline(drugName);
 
     if (!guidelines) {
         return null;
     }
 
+    const renalFunction = 'creatinineClearance' in renal ? renal : assessRenalFunction(renal);
+
     let adjustedDose: string;
     let adjustmentReason: string;
     const warnings: string[] = [];
@@ -378,8 +361,103 @@ export function calculateBSABasedDose(dosePerM2: number, params: PatientParamete
     return Math.round(dosePerM2 * bsa * 10) / 10;
 }
 
+function describePediatricRule(rule: PediatricDosingRule): string {
+    if (isAdultOnly(rule)) return 'Adults only';
+    const limits = [
+        rule.maxPerDoseMg !== undefined && `max ${rule.maxPerDoseMg} mg/dose`,
+        rule.maxPerDayMg !== undefined && `max ${rule.maxPerDayMg} mg/day`,
+    ].filter(Boolean).join(', ');
+    const dose = rule.mgPerKgPerDose !== undefined
+        ? `${rule.mgPerKgPerDose} mg/kg/dose ${rule.frequency ?? 'once daily'}`
+        : `Weight/age-band dose ${rule.frequency ?? 'once daily'}`;
+    return limits ? `${dose} (${limits})` : dose;
+}
+
+/**
+ * Get pediatric dosing recommendation for a drug: a mg/kg dose or a weight-
+ * or age-band dose, capped by the rule's maximums. Drugs the patient is too
+ * young for come back as CONTRAINDICATED; returns null when there is no
+ * pediatric rule for the drug.
+ */
+export function getPediatricDose(drugName: string, params: PatientParameters): DosingRecommendation | null {
+    const rule = findPediatricDosingRule(drugName);
+    if (!rule) {
+        return null;
+    }
+    const bsa = calculateBSA(params);
+
+    const standardDose = describePediatricRule(rule);
+    const warnings: string[] = [];
+    const monitoringRequired: string[] = [];
+
+    const [restriction] = evaluatePediatricRestrictions(params.age, [drugName]);
+    if (restriction) {
+        warnings.push(`⚠️ ${drugName} is CONTRAINDICATED under ${rule.minAgeYears} years - ${restriction.reason}`);
+        if (restriction.alternatives.length > 0) {
+            warnings.push(`Consider: ${restriction.alternatives.join(', ')}`);
+        }
+        return {
+            drug: drugName,
+            standardDose,
+            adjustedDose: 'CONTRAINDICATED',
+            frequency: 'Not applicable',
+            adjustmentReason: restriction.adultOnly ? 'Adult-only medication' : `Minimum age ${rule.minAgeYears} years`,
+            monitoringRequired,
+            warnings,
+        };
+    }
+
+    // mg/kg and mg/m² doses are sized here so they use the calculator's weight and BSA
+    let base: PediatricBaseDose | undefined;
+    if (rule.mgPerKgPerDose !== undefined) {
+        const doseMg = calculateWeightBasedDose(rule.mgPerKgPerDose, params);
+        base = { doseMg, basis: 'weight', calculation: `${rule.mgPerKgPerDose} mg/kg × ${params.weight} kg = ${doseMg} mg` };
+    } else if (rule.mgPerM2PerDose !== undefined) {
+        const doseMg = calculateBSABasedDose(rule.mgPerM2PerDose, params);
+        base = { doseMg, basis: 'bsa', calculation: `${rule.mgPerM2PerDose} mg/m² × ${bsa} m² = ${doseMg} mg` };
+    }
+
+    const dose = calculatePediatricDose(rule, { ageYears: params.age, weightKg: params.weight, bsaM2: bsa }, base);
+    if (!dose) {
+        warnings.push(`No ${drugName} dose band covers ${params.weight} kg at age ${params.age} - verify against a pediatric reference`);
+        return {
+            drug: drugName,
+            standardDose,
+            adjustedDose: 'See pediatric reference',
+            frequency: rule.frequency ?? 'Once daily',
+            adjustmentReason: 'Outside the pediatric dose bands',
+            monitoringRequired,
+            warnings,
+        };
+    }
+
+    if (dose.cappedAt === 'max-per-dose') {
+        warnings.push(`Capped at the maximum single dose of ${rule.maxPerDoseMg} mg`);
+    } else if (dose.cappedAt === 'max-per-day') {
+        warnings.push(`Capped so the daily total stays at ${dose.dailyDoseMg} mg`);
+    }
+    if (params.age === 0 && rule.minAgeYears > 0) {
+        warnings.push(`Not established under ${Math.round(rule.minAgeYears * 12)} months - confirm the infant's age in months`);
+    }
+    if (rule.note) {
+        warnings.push(rule.note);
+    }
+    monitoringRequired.push(dose.basis === 'bsa' ? 'Recalculate the dose when the weight or height changes' : 'Recalculate the dose when the weight changes');
+
+    return {
+        drug: drugName,
+        standardDose,
+        adjustedDose: `${dose.doseMg} mg ${dose.frequency}`,
+        frequency: dose.frequency,
+        adjustmentReason: `Pediatric ${dose.basis} dosing: ${dose.calculation}`,
+        monitoringRequired,
+        warnings,
+    };
+}
+
 /**
- * Generate comprehensive dosing report
+ * Generate comprehensive dosing report. Children are dosed from the pediatric
+ * rules instead of the adult renal tiers, which assume Cockcroft-Gault.
  */
 export function generateDosingReport(
     params: PatientParameters,
@@ -394,14 +472,21 @@ export function generateDosingReport(
         abw: number;
     };
     renalFunction: RenalFunction;
+    hepaticFunction: HepaticFunction | null;
     dosingRecommendations: DosingRecommendation[];
     generalWarnings: string[];
 } {
     const renalFunction = assessRenalFunction(params);
+    const hepaticFunction = assessHepaticFunction(params);
     const dosingRecommendations: DosingRecommendation[] = [];
     const generalWarnings: string[] = [];
+    const pediatric = params.age < PEDIATRIC_AGE_LIMIT;
 
     // Age-related warnings
+    if (pediatric) {
+        generalWarnings.push(`Pediatric patient - doses calculated from ${params.weight} kg body weight, body surface area and age`);
+        generalWarnings.push('Cockcroft-Gault is not validated in children - confirm renal function with the bedside Schwartz equation');
+    }
     if (params.age >= 65) {
         generalWarnings.push('Geriatric patient - consider lower starting doses and slower titration');
     }
@@ -409,26 +494,33 @@ export function generateDosingReport(
         generalWarnings.push('Very elderly patient - heightened risk of adverse drug reactions');
     }
 
-    // Weight-related warnings
+    // Weight-related warnings (the IBW formulas are for adults)
     const ibw = calculateIBW(params);
-    if (params.weight > ibw * 1.3) {
+    if (!pediatric && params.weight > ibw * 1.3) {
         generalWarnings.push('Obese patient - consider using adjusted body weight for dosing');
     }
-    if (params.weight < ibw * 0.8) {
+    if (!pediatric && params.weight < ibw * 0.8) {
         generalWarnings.push('Underweight patient - consider lower doses');
     }
 
     // Renal warnings
-    if (renalFunction.ckdStage >= 4) {
+    if (!pediatric && renalFunction.ckdStage >= 4) {
         generalWarnings.push('⚠️ Severe renal impairment - avoid nephrotoxic medications');
         generalWarnings.push('Consider nephrology consultation');
     }
 
+    // Hepatic warnings (labs only; ascites and encephalopathy are assumed absent)
+    if (hepaticFunction?.hepaticAdjustmentRequired) {
+        generalWarnings.push(`Child-Pugh class ${hepaticFunction.childPughClass} - hepatic dose adjustment required`);
+    }
+
     // Get dosing for each medication
     for (const med of medications) {
-        const recommendation = getRenalAdjustedDose(med, renalFunction);
+        const recommendation = pediatric ? getPediatricDose(med, params) : getRenalAdjustedDose(med, renalFunction);
         if (recommendation) {
             dosingRecommendations.push(recommendation);
+        } else if (pediatric) {
+            generalWarnings.push(`No pediatric dosing rule for ${med} - verify against a pediatric reference`);
         }
     }
 
@@ -442,6 +534,7 @@ export function generateDosingReport(
             abw: calculateABW(params),
         },
         renalFunction,
+        hepaticFunction,
         dosingRecommendations,
         generalWarnings,
     };
@@ -12,6 +12,7 @@
  */
 
 import * as tf from '@tensorflow/tfjs';
+import { DRUG_ONTOLOGY } from '@treatment-plan/clinical-knowledge';
 
 // â”€â”€â”€ Drug Property Encoding â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
 
@@ -157,9 +158,40 @@ const DEFAULT_PROFILE: DrugProfile = {
   hepatotoxicity: 0.1, nephrotoxicity: 0.1, qtProlongation: 0.1,
 };
 
+/** Ontology class id -> predictor class, most specific first */
+const ONTOLOGY_CLASS_TO_PREDICTOR: Array<[string, string]> = [
+  ['ace-inhibitors', 'ace_inhibitor'], ['arbs', 'arb'], ['beta-blockers', 'beta_blocker'],
+  ['calcium-channel-blockers', 'calcium_channel_blocker'], ['diuretics', 'diuretic'],
+  ['anticoagulants', 'anticoagulant'], ['antiplatelets', 'antiplatelet'], ['statins', 'statin'],
+  ['ssris', 'ssri'], ['snris', 'snri'], ['tcas', 'tca'], ['maois', 'maoi'],
+  ['benzodiazepines', 'benzodiazepine'], ['opioids', 'opioid'], ['anticonvulsants', 'anticonvulsant'],
+  ['antipsychotics', 'antipsychotic'], ['fluoroquinolones', 'fluoroquinolone'], ['macrolides', 'macrolide'],
+  ['penicillins', 'penicillin'], ['cephalosporins', 'cephalosporin'], ['azole-antifungals', 'antifungal_azole'],
+  ['biguanides', 'metformin'], ['sulfonylureas', 'sulfonylurea'], ['insulins', 'insulin'],
+  ['thyroid-hormones', 'thyroid'], ['corticosteroids', 'corticosteroid'], ['proton-pump-inhibitors', 'ppi'],
+  ['h2-blockers', 'h2_blocker'], ['nsaids', 'nsaid'], ['immunosuppressants', 'immunosuppressant'],
+  ['antihistamines', 'antihistamine'], ['muscle-relaxants', 'muscle_relaxant'],
+];
+
+const profileKey = (name: string): string => name.toLowerCase().replaceAll(/[^a-z]/g, '');
+
+/**
+ * Brand names and synonyms resolve to the generic's profile through the
+ * drug-class ontology. A drug without its own profile still gets its class,
+ * so class-combination rules apply to e.g. bisoprolol or Eliquis alike.
+ */
 function lookupProfile(drugName: string): DrugProfile {
-  const key = drugName.toLowerCase().replaceAll(/[^a-z]/g, '');
-  return DRUG_PROFILES[key] ?? DEFAULT_PROFILE;
+  const direct = DRUG_PROFILES[profileKey(drugName)];
+  if (direct) return direct;
+
+  const resolved = DRUG_ONTOLOGY.resolve(drugName);
+  for (const name of resolved.names) {
+    const profile = DRUG_PROFILES[profileKey(name)];
+    if (profile) return profile;
+  }
+
+  const mapped = ONTOLOGY_CLASS_TO_PREDICTOR.find(([classId]) => resolved.classes.includes(classId));
+  return mapped ? { ...DEFAULT_PROFILE, drugClass: mapped[1] } : DEFAULT_PROFILE;
 }
 
 /**
@@ -458,11 +490,9 @@ export class DrugInteractionPredictor {
     const predictedSeverity = SEVERITY_LABELS[maxIdx];
     const confidence = Math.round(probs[maxIdx] * 1000) / 10;
 
-    // Check if this pair was in the training set
+    // Check if this pair was in the training set (brand names count as their generic)
     const knownInteraction = INTERACTION_TRAINING_DATA.some(
-      ([a, b]) =>
-        (a.toLowerCase() === drug1.toLowerCase() && b.toLowerCase() === drug2.toLowerCase()) ||
-        (a.toLowerCase() === drug2.toLowerCase() && b.toLowerCase() === drug1.toLowerCase()),
+      ([a, b]) => DRUG_ONTOLOGY.matchesPair(drug1, drug2, a, b),
     );
 
     return {
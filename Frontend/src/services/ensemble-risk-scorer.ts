@@ -18,6 +18,8 @@
 import { getRiskPredictionModel, extractFeatures, RISK_THRESHOLDS } from './ml-risk-predictor';
 import { getDrugInteractionPredictor, type InteractionPrediction } from './drug-interaction-predictor';
 import { analyzeChiefComplaint, type ChiefComplaintAnalysis } from './nlp-complaint-analyzer';
+import { getLatestLabs } from './lab-results';
+import type { LabResult } from '../types';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -94,6 +96,8 @@ export interface EnsemblePatientInput {
     hba1c?: number;
     inr?: number;
   };
+  /** Structured lab history; the latest value of each test fills gaps in `labs` */
+  labResults?: LabResult[];
 }
 
 // ─── Heuristic Rules ──────────────────────────────────────────────────────────
@@ -194,6 +198,19 @@ function scoreLiverLabs(
   return 0;
 }
 
+function resolveLabs(patient: EnsemblePatientInput): EnsemblePatientInput['labs'] {
+  if (!patient.labResults?.length) return patient.labs;
+  const latest = getLatestLabs(patient.labResults);
+  return {
+    creatinine: patient.labs?.creatinine ?? latest.CREAT?.value,
+    gfr: patient.labs?.gfr ?? latest.EGFR?.value,
+    ast: patient.labs?.ast ?? latest.AST?.value,
+    alt: patient.labs?.alt ?? latest.ALT?.value,
+    hba1c: patient.labs?.hba1c ?? latest.HBA1C?.value,
+    inr: patient.labs?.inr ?? latest.INR?.value,
+  };
+}
+
 function scoreLabs(labs: EnsemblePatientInput['labs'], flags: ClinicalFlag[]): number {
   if (!labs) return 0;
   const { creatinine, gfr, ast, alt, hba1c, inr } = labs;
@@ -233,7 +250,7 @@ function heuristicScore(patient: EnsemblePatientInput, flags: ClinicalFlag[]): {
   score += scoreMedications(numMeds, flags);
   score += scoreComorbidities(numConditions, numAllergies, flags);
   score += scoreVitals(bloodPressure.systolic, bloodPressure.diastolic, bmi, flags);
-  score += scoreLabs(patient.labs, flags);
+  score += scoreLabs(resolveLabs(patient), flags);
   score += scoreLifestyle(patient.lifestyleFactors);
 
   return { score: Math.min(100, score), confidence: 80 };
@@ -0,0 +1,100 @@
+/**
+ * FHIR Import Helpers
+ *
+ * The backend maps a FHIR R4 Bundle onto its patient shape
+ * (POST /patients/import/fhir?dryRun=true). These helpers turn that response
+ * into intake form data so the clinician can review and complete it before
+ * generating a plan.
+ */
+
+import type { LabResult, PatientData } from '../types';
+import { latestLabValue } from './lab-results';
+
+export interface FhirMappingEntry {
+  resource: string;
+  target?: string;
+  reason?: string;
+}
+
+export interface FhirMappingReport {
+  mapped: FhirMappingEntry[];
+  unmapped: FhirMappingEntry[];
+  ambiguous: FhirMappingEntry[];
+  missing: string[];
+}
+
+// Patient record as the backend stores it
+export interface ImportedPatientData {
+  demographics: {
+    patientId?: string;
+    age?: number;
+    sex?: 'male' | 'female' | 'other';
+    weight?: number;
+    height?: number;
+    bmi?: number;
+    bloodPressure?: { systolic: number; diastolic: number };
+    heartRate?: number;
+    temperature?: number;
+    pregnant?: boolean;
+  };
+  medicalHistory: {
+    conditions: Array<{ condition: string; diagnosisDate: string; severity: 'mild' | 'moderate' | 'severe'; controlled: boolean }>;
+    allergies: Array<{ allergen: string; reaction: string; severity: 'mild' | 'moderate' | 'severe' | 'anaphylaxis' }>;
+    pastSurgeries: Array<{ procedure: string; date: string }>;
+    familyHistory: string[];
+  };
+  currentMedications: { medications: PatientData['currentMedications']['medications'] };
+  lifestyle: { smoking: { status: 'never' | 'former' | 'current' } };
+}
+
+export interface FhirImportPreview {
+  patientData: ImportedPatientData;
+  labResults: LabResult[];
+  report: FhirMappingReport;
+}
+
+const present = (value: number | undefined): number | undefined => (value ? value : undefined);
+
+/**
+ * Intake form data from an import preview. Fields FHIR has no equivalent for
+ * (chief complaint, alcohol, exercise, genotype), and a smoking status the
+ * bundle did not record, keep what is already in the form.
+ */
+export function toIntakeData(preview: FhirImportPreview, current: PatientData): PatientData {
+  const { demographics, medicalHistory, currentMedications, lifestyle } = preview.patientData;
+  const surgeries = medicalHistory.pastSurgeries.map(s => ({ procedure: s.procedure, date: s.date || undefined }));
+
+  return {
+    ...current,
+    demographics: {
+      patientId: demographics.patientId || undefined,
+      age: demographics.age ?? 0,
+      sex: demographics.sex,
+      weight: demographics.weight ?? 0,
+      height: demographics.height ?? 0,
+      bmi: demographics.bmi ?? 0,
+      bloodPressure: demographics.bloodPressure ?? { systolic: 0, diastolic: 0 },
+      heartRate: present(demographics.heartRate),
+      temperature: present(demographics.temperature),
+      serumCreatinine: latestLabValue(preview.labResults, 'CREAT'),
+      pregnant: demographics.pregnant,
+    },
+    medicalHistory: {
+      conditions: medicalHistory.conditions.map(c => ({ ...c, diagnosisDate: c.diagnosisDate || undefined })),
+      allergies: medicalHistory.allergies,
+      surgeries,
+      pastSurgeries: surgeries,
+      familyHistory: medicalHistory.familyHistory,
+    },
+    currentMedications: { medications: currentMedications.medications },
+    lifestyleFactors: preview.report.missing.includes('lifestyle.smoking')
+      ? current.lifestyleFactors
+      : { ...current.lifestyleFactors, smokingStatus: lifestyle.smoking.status },
+    labResults: preview.labResults,
+  };
+}
+
+/** One line per report entry, e.g. "Observation/ldl: no intake field for LOINC 18262-6". */
+export function describeMappingEntries(entries: FhirMappingEntry[]): string[] {
+  return entries.map(entry => `${entry.resource}: ${entry.reason ?? `mapped to ${entry.target}`}`);
+}
@@ -0,0 +1,33 @@
+/**
+ * Lab Result Helpers
+ *
+ * Intake can hold several results for the same test (e.g. a creatinine from
+ * last year and one from this week). Dosing and risk scoring always use the
+ * most recently collected value of each test.
+ */
+
+import type { LabResult } from '../types';
+
+/** Latest result per test code. */
+export function getLatestLabs(labs: LabResult[] | undefined): Record<string, LabResult> {
+  const latest: Record<string, LabResult> = {};
+  for (const lab of labs ?? []) {
+    const code = lab.testCode.toUpperCase();
+    const current = latest[code];
+    if (!current || new Date(lab.collectedAt).getTime() > new Date(current.collectedAt).getTime()) {
+      latest[code] = lab;
+    }
+  }
+  return latest;
+}
+
+/** Value of the most recent result for `testCode`, if any. */
+export function latestLabValue(labs: LabResult[] | undefined, testCode: string): number | undefined {
+  return getLatestLabs(labs)[testCode.toUpperCase()]?.value;
+}
+
+export function isOutOfRange(lab: LabResult): boolean {
+  if (lab.referenceLow != null && lab.value < lab.referenceLow) return true;
+  if (lab.referenceHigh != null && lab.value > lab.referenceHigh) return true;
+  return false;
+}
@@ -15,6 +15,7 @@
 import * as tf from '@tensorflow/tfjs';
 import { COMPREHENSIVE_TRAINING_DATA } from '../data/ml-training-data';
 import { API_BASE } from '../config/api';
+import { authFetch } from './auth-client';
 
 // Set up TensorFlow.js to use CPU backend as fallback if WebGL is not available
 const setupTensorFlowBackend = async (): Promise<void> => {
@@ -82,6 +83,31 @@ const TRAINING_DATA: RuntimeTrainingData = COMPREHENSIVE_TRAINING_DATA;
 
 const ADAPTIVE_DATASET_ENDPOINT = `${API_BASE}/ml/training-data?limit=1500`;
 const ADAPTIVE_FETCH_TIMEOUT_MS = 1500;
+const PINNED_MODEL_ENDPOINT = `${API_BASE}/ml/models/pinned`;
+const PINNED_MODEL_FETCH_TIMEOUT_MS = 3000;
+
+// Format of artifacts produced by the server-side retraining job
+const RISK_MODEL_FORMAT = 'risk-mlp/v1';
+
+// Dense layers of createModel(), in order (dropout layers carry no weights)
+const RISK_MODEL_LAYERS = [
+    { units: 64, activation: 'relu' },
+    { units: 32, activation: 'relu' },
+    { units: 16, activation: 'relu' },
+    { units: 1, activation: 'sigmoid' },
+];
+
+export interface RiskModelArtifact {
+    format: string;
+    inputSize: number;
+    layers: Array<{ units: number; activation: string }>;
+    featureRanges: Array<[number, number]>;
+    weights: Array<{ shape: number[]; values: number[] }>;
+}
+
+export type RiskModelSource =
+    | { kind: 'pinned'; version: string }
+    | { kind: 'browser' };
 
 function isFiniteNumber(value: unknown): value is number {
     return typeof value === 'number' && Number.isFinite(value);
@@ -121,7 +147,7 @@ async function fetchAdaptiveTrainingData(): Promise<RuntimeTrainingData> {
     const timeout = setTimeout(() => controller.abort(), ADAPTIVE_FETCH_TIMEOUT_MS);
 
     try {
-        const response = await fetch(ADAPTIVE_DATASET_ENDPOINT, { signal: controller.signal });
+        const response = await authFetch(ADAPTIVE_DATASET_ENDPOINT, { signal: controller.signal });
         if (!response.ok) {
             return { inputs: [], outputs: [] };
         }
@@ -166,6 +192,72 @@ async function fetchAdaptiveTrainingData(): Promise<RuntimeTrainingData> {
     }
 }
 
+/**
+ * Check that a server artifact was trained for exactly this network and
+ * feature scaling. Weights from a different layout or normalization would
+ * load without error and silently produce wrong scores.
+ */
+export function isCompatibleRiskModel(artifact: RiskModelArtifact): boolean {
+    const ranges = Object.values(NORMALIZATION_PARAMS);
+    if (artifact.format !== RISK_MODEL_FORMAT || artifact.inputSize !== ranges.length) {
+        return false;
+    }
+    if (artifact.featureRanges?.length !== ranges.length
+        || ranges.some(({ min, max }, i) => artifact.featureRanges[i][0] !== min || artifact.featureRanges[i][1] !== max)) {
+        return false;
+    }
+    if (artifact.layers?.length !== RISK_MODEL_LAYERS.length
+        || RISK_MODEL_LAYERS.some((layer, i) => artifact.layers[i].units !== layer.units || artifact.layers[i].activation !== layer.activation)) {
+        return false;
+    }
+
+    let inputs = artifact.inputSize;
+    const expectedShapes = RISK_MODEL_LAYERS.flatMap(({ units }) => {
+        const shapes = [[inputs, units], [units]];
+        inputs = units;
+        return shapes;
+    });
+    return artifact.weights?.length === expectedShapes.length && expectedShapes.every((shape, i) => {
+        const weight = artifact.weights[i];
+        return weight.shape.length === shape.length
+            && weight.shape.every((dim, d) => dim === shape[d])
+            && weight.values.length === shape.reduce((size, dim) => size * dim, 1)
+            && weight.values.every(isFiniteNumber);
+    });
+}
+
+async function fetchPinnedRiskModel(): Promise<{ version: string; artifact: RiskModelArtifact } | null> {
+    if (typeof fetch !== 'function') {
+        return null;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), PINNED_MODEL_FETCH_TIMEOUT_MS);
+    try {
+        const response = await authFetch(PINNED_MODEL_ENDPOINT, { signal: controller.signal });
+        if (!response.ok) {
+            return null;
+        }
+        const payload = await response.json() as {
+            success?: boolean;
+            data?: { version?: string; artifact?: RiskModelArtifact };
+        };
+        if (!payload.success || !payload.data?.version || !payload.data.artifact) {
+            return null;
+        }
+        if (!isCompatibleRiskModel(payload.data.artifact)) {
+            console.warn(`Pinned risk model ${payload.data.version} does not match this client's model layout; training locally`);
+            return null;
+        }
+        return { version: payload.data.version, artifact: payload.data.artifact };
+    } catch (error) {
+        console.warn('Pinned risk model fetch skipped:', error);
+        return null;
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
 function mergeTrainingData(base: RuntimeTrainingData, adaptive: RuntimeTrainingData): RuntimeTrainingData {
     if (adaptive.inputs.length === 0 || adaptive.outputs.length === 0) {
         return base;
@@ -282,6 +374,7 @@ export class RiskPredictionModel {
     private model: tf.Sequential | null = null;
     private isTraining = false;
     private isTrained = false;
+    private source: RiskModelSource | null = null;
 
     /**
      * Create and compile the neural network model
@@ -332,6 +425,40 @@ export class RiskPredictionModel {
         return model;
     }
 
+    /**
+     * Load the version pinned in the server's model registry. Returns the
+     * version, or null when none is pinned, the server is unreachable or the
+     * artifact does not fit this network.
+     */
+    async loadPinnedModel(): Promise<string | null> {
+        if (this.isTraining) {
+            throw new Error('Model is already training');
+        }
+
+        this.isTraining = true;
+        try {
+            const pinned = await fetchPinnedRiskModel();
+            if (!pinned) {
+                return null;
+            }
+
+            await ensureBackendReady();
+            const model = this.createModel();
+            const weights = pinned.artifact.weights.map(({ values, shape }) => tf.tensor(values, shape));
+            model.setWeights(weights);
+            weights.forEach(weight => weight.dispose());
+
+            this.model?.dispose();
+            this.model = model;
+            this.isTrained = true;
+            this.source = { kind: 'pinned', version: pinned.version };
+            console.log(`✅ ML Risk Prediction Model loaded from registry (${pinned.version})`);
+            return pinned.version;
+        } finally {
+            this.isTraining = false;
+        }
+    }
+
     /**
      * Train the model on the training data
      */
@@ -395,6 +522,7 @@ export class RiskPredictionModel {
             ys.dispose();
 
             this.isTrained = true;
+            this.source = { kind: 'browser' };
             console.log('✅ ML Risk Prediction Model trained successfully');
         } finally {
             this.isTraining = false;
@@ -534,6 +662,13 @@ export class RiskPredictionModel {
         return this.isTrained;
     }
 
+    /**
+     * Where the current weights came from, or null before initialization
+     */
+    getModelSource(): RiskModelSource | null {
+        return this.source;
+    }
+
     /**
      * Check if model is currently training
      */
@@ -550,6 +685,7 @@ export class RiskPredictionModel {
             this.model = null;
         }
         this.isTrained = false;
+        this.source = null;
     }
 }
 
@@ -582,7 +718,8 @@ export function getRiskPredictionModel(): RiskPredictionModel {
 }
 
 /**
- * Initialize and train the model
+ * Initialize the model: load the pinned registry version when the server has
+ * one, otherwise train in the browser
  */
 export async function initializeRiskModel(onProgress?: (epoch: number, loss: number) => void): Promise<RiskPredictionModel> {
     const model = getRiskPredictionModel();
@@ -593,7 +730,7 @@ export async function initializeRiskModel(onProgress?: (epoch: number, loss: num
 
     if (model.isModelTraining()) {
         await waitForRiskModelTraining(model);
-    } else {
+    } else if (!(await model.loadPinnedModel())) {
         await model.train(onProgress);
     }
 
@@ -0,0 +1,93 @@
+/**
+ * Patient Handout Helpers
+ *
+ * The backend writes the patient's medicine guide for an approved plan
+ * (POST /treatment-plans/:id/handout). Follow-ups only live in the
+ * dashboard, so they are sent with the request; the reading grade the
+ * backend measured comes back in response headers.
+ */
+
+import { format } from 'date-fns';
+import { apiUrl } from '../config/api';
+import { authFetch } from './auth-client';
+
+export interface HandoutFollowUpInput {
+  scheduledDate: string;
+  type: string;
+  description: string;
+  completed: boolean;
+}
+
+export interface HandoutRequest {
+  followUps: Array<Omit<HandoutFollowUpInput, 'completed'>>;
+  largePrint: boolean;
+  startDate: string;
+  format: 'pdf';
+}
+
+export interface HandoutReadingGrade {
+  grade: number;
+  targetGrade: number;
+}
+
+/**
+ * Request body for the handout. Dates are sent as the calendar day the
+ * clinician picked, and the dosing calendar starts on the clinician's today.
+ */
+export function buildHandoutRequest(
+  followUps: HandoutFollowUpInput[],
+  largePrint: boolean,
+  today: Date = new Date(),
+): HandoutRequest {
+  return {
+    followUps: followUps
+      .filter(followUp => !followUp.completed)
+      .map(({ scheduledDate, type, description }) => ({ scheduledDate: scheduledDate.slice(0, 10), type, description })),
+    largePrint,
+    startDate: format(today, 'yyyy-MM-dd'),
+    format: 'pdf',
+  };
+}
+
+/** Shown after download when the handout reads above its target grade. */
+export function readingGradeWarning(reading: HandoutReadingGrade | null): string | null {
+  if (!reading || reading.grade <= reading.targetGrade) return null;
+  return `This handout reads at grade ${reading.grade}, above the grade ${reading.targetGrade} target. `
+    + 'Consider simpler wording in the instructions, supportive care or patient education.';
+}
+
+function readGradeHeaders(headers: Headers): HandoutReadingGrade | null {
+  const grade = Number(headers.get('X-Reading-Grade'));
+  const targetGrade = Number(headers.get('X-Reading-Target-Grade'));
+  return headers.has('X-Reading-Grade') && Number.isFinite(grade) && Number.isFinite(targetGrade)
+    ? { grade, targetGrade }
+    : null;
+}
+
+/** Downloads the handout PDF and returns its reading grade. */
+export async function downloadPatientHandout(
+  treatmentPlanId: string,
+  followUps: HandoutFollowUpInput[],
+  largePrint: boolean,
+): Promise<HandoutReadingGrade | null> {
+  const response = await authFetch(apiUrl(`/treatment-plans/${treatmentPlanId}/handout`), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(buildHandoutRequest(followUps, largePrint)),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.errors?.join('; ') || data.message || 'Failed to generate patient handout');
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `medicine-guide-${treatmentPlanId}${largePrint ? '-large-print' : ''}.pdf`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+
+  return readGradeHeaders(response.headers);
+}
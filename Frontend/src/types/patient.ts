@@ -9,6 +9,7 @@ export type {
   MedicalHistory,
   CurrentMedications,
   LifestyleFactors,
+  LabResult,
   PatientData
 } from '../context/AppContext';
 
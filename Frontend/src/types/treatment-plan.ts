@@ -37,7 +37,7 @@ export interface RiskAssessment {
 }
 
 // Flagged Issues
-export type IssueType = 'drug-interaction' | 'contraindication' | 'dosage-issue' | 'allergy' | 'monitoring';
+export type IssueType = 'drug-interaction' | 'contraindication' | 'dosage-issue' | 'allergy' | 'monitoring' | 'pharmacogenomic' | 'pregnancy' | 'lactation' | 'duplication';
 export type IssueSeverity = 'critical' | 'high' | 'major' | 'moderate' | 'low' | 'minor';
 
 export interface FlaggedIssue {
@@ -48,6 +48,7 @@ export interface FlaggedIssue {
   recommendation?: string;
   affectedDrugs?: string[];
   clinicalEvidence?: string;
+  doseAdjustment?: string; // genotype-guided dose on pharmacogenomic issues
 }
 
 // Alternative Treatment
@@ -78,6 +79,16 @@ export interface ContraindicationResult {
   reason: string;
 }
 
+// Which backend produced the plan ('rule-based' = no language model involved)
+export interface PlanProvenance {
+  provider: 'openai' | 'openai-compatible' | 'fixture' | 'rule-based';
+  model: string;
+  fallback?: {
+    from: string;
+    reason: string;
+  };
+}
+
 // Complete Treatment Plan Response
 export interface TreatmentPlanResponse {
   recommendations: TreatmentRecommendation[];
@@ -89,9 +100,76 @@ export interface TreatmentPlanResponse {
   rationale: string;
   clinicalGuidelines?: string[];
   evidenceSources?: string[];
+  generatedBy?: PlanProvenance;
   status?: 'pending' | 'approved' | 'rejected' | 'modified';
 }
 
+// Treatment Plan Revisions (backend treatment section, as stored per revision)
+export interface PlanFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface DosageChange extends PlanFieldChange {
+  medication: string;
+}
+
+export interface RevisionTreatment {
+  medication: string;
+  genericName: string;
+  dosage: string;
+  frequency: string;
+  duration: string;
+  route: string;
+  instructions: string;
+}
+
+export interface TreatmentPlanDiff {
+  primaryTreatment: PlanFieldChange[];
+  alternatives: {
+    added: RevisionTreatment[];
+    removed: RevisionTreatment[];
+    changed: Array<{ medication: string; changes: PlanFieldChange[] }>;
+  };
+  dosage: DosageChange[];
+  supportiveCare: { added: string[]; removed: string[] };
+  hasChanges: boolean;
+}
+
+export interface TreatmentPlanRevision {
+  id: string;
+  treatmentPlanId: string;
+  revisionNumber: number;
+  authorId: string;
+  authorName: string;
+  reason: string | null;
+  diff: TreatmentPlanDiff | null;
+  createdAt: string;
+}
+
+// Treatment Outcomes (follow-up on approved plans)
+export type OutcomeEfficacy = 'effective' | 'partially_effective' | 'ineffective';
+export type AdverseEventSeverity = 'mild' | 'moderate' | 'severe' | 'life_threatening';
+export type DiscontinuationReason = 'adverse_event' | 'ineffective' | 'patient_choice' | 'cost' | 'completed' | 'other';
+
+export interface TreatmentOutcome {
+  id: string;
+  treatmentPlanId: string;
+  patientId: string;
+  efficacy: OutcomeEfficacy;
+  adverseEvent: { severity: AdverseEventSeverity; description: string } | null;
+  discontinued: boolean;
+  discontinuationReason: DiscontinuationReason | null;
+  hospitalized: boolean;
+  observedAt: string;
+  notes: string | null;
+  riskLabel: number;
+  recordedById: string;
+  recordedByName: string;
+  createdAt: string;
+}
+
 // Validation Types
 export interface ValidationIssue {
   type: 'missed_interaction' | 'missed_contraindication' | 'dosage_exceeds_max';
@@ -0,0 +1,566 @@
+/**
+ * Drug-Class Ontology
+ *
+ * Maps concrete drugs (generic names, brand names and common synonyms) onto a
+ * drug-class hierarchy so rules written against a class — "beta-blockers",
+ * "NSAIDs", "ace_inhibitors" — match the drugs a patient is actually taking.
+ *
+ * Every drug matcher in the backend and the frontend resolves names through
+ * DRUG_ONTOLOGY instead of comparing raw strings. Terms the ontology does not
+ * know fall back to a case-insensitive substring comparison so free-text
+ * entries (foods, supplements, lab states) still match.
+ */
+
+// ===================== CLASS HIERARCHY =====================
+
+export interface DrugClassNode {
+  id: string;
+  name: string;
+  parent?: string;
+  aliases: string[];
+}
+
+export const DRUG_CLASSES: DrugClassNode[] = [
+  // ===== CARDIOVASCULAR =====
+  { id: 'cardiovascular-agents', name: 'Cardiovascular agents', aliases: ['cardiovascular drugs'] },
+  { id: 'beta-blockers', name: 'Beta-blockers', parent: 'cardiovascular-agents', aliases: ['beta blocker', 'beta-adrenergic blockers', 'beta adrenergic antagonists'] },
+  { id: 'ace-inhibitors', name: 'ACE inhibitors', parent: 'cardiovascular-agents', aliases: ['ace inhibitor', 'acei', 'angiotensin converting enzyme inhibitors'] },
+  { id: 'arbs', name: 'ARBs', parent: 'cardiovascular-agents', aliases: ['arb', 'angiotensin receptor blockers', 'angiotensin ii receptor blockers', 'sartans'] },
+  { id: 'calcium-channel-blockers', name: 'Calcium channel blockers', parent: 'cardiovascular-agents', aliases: ['ccb', 'ccbs', 'calcium antagonists'] },
+  { id: 'dihydropyridine-ccbs', name: 'Dihydropyridine calcium channel blockers', parent: 'calcium-channel-blockers', aliases: ['dihydropyridines'] },
+  { id: 'non-dihydropyridine-ccbs', name: 'Non-dihydropyridine calcium channel blockers', parent: 'calcium-channel-blockers', aliases: ['non-dihydropyridines', 'nondihydropyridine ccbs'] },
+  { id: 'diuretics', name: 'Diuretics', parent: 'cardiovascular-agents', aliases: ['diuretic'] },
+  { id: 'loop-diuretics', name: 'Loop diuretics', parent: 'diuretics', aliases: ['loop diuretic'] },
+  { id: 'thiazide-diuretics', name: 'Thiazide diuretics', parent: 'diuretics', aliases: ['thiazides', 'thiazide', 'thiazide-like diuretics'] },
+  { id: 'potassium-sparing-diuretics', name: 'Potassium-sparing diuretics', parent: 'diuretics', aliases: ['aldosterone antagonists', 'mineralocorticoid receptor antagonists', 'mras'] },
+  { id: 'nitrates', name: 'Nitrates', parent: 'cardiovascular-agents', aliases: ['nitrate', 'organic nitrates', 'nitrate therapy'] },
+  { id: 'statins', name: 'Statins', parent: 'cardiovascular-agents', aliases: ['statin', 'hmg-coa reductase inhibitors'] },
+  { id: 'antiarrhythmics', name: 'Antiarrhythmics', parent: 'cardiovascular-agents', aliases: ['antiarrhythmic'] },
+  { id: 'class-ia-antiarrhythmics', name: 'Class IA antiarrhythmics', parent: 'antiarrhythmics', aliases: ['class ia antiarrhythmic'] },
+  { id: 'alpha-blockers', name: 'Alpha-blockers', parent: 'cardiovascular-agents', aliases: ['alpha blocker', 'alpha-1 blockers'] },
+  { id: 'cardiac-glycosides', name: 'Cardiac glycosides', parent: 'cardiovascular-agents', aliases: ['digitalis glycosides'] },
+
+  // ===== HEMATOLOGIC =====
+  { id: 'anticoagulants', name: 'Anticoagulants', aliases: ['anticoagulant', 'blood thinners'] },
+  { id: 'doacs', name: 'Direct oral anticoagulants', parent: 'anticoagulants', aliases: ['doac', 'noacs', 'direct oral anticoagulant'] },
+  { id: 'antiplatelets', name: 'Antiplatelet agents', aliases: ['antiplatelet', 'antiplatelet agent'] },
+
+  // ===== ANALGESICS =====
+  { id: 'analgesics', name: 'Analgesics', aliases: ['analgesic', 'pain relievers'] },
+  { id: 'nsaids', name: 'NSAIDs', parent: 'analgesics', aliases: ['nsaid', 'non-steroidal anti-inflammatory drugs', 'nonsteroidal anti-inflammatory drugs', 'cox inhibitors'] },
+  { id: 'opioids', name: 'Opioids', parent: 'analgesics', aliases: ['opioid', 'opiates', 'narcotic analgesics'] },
+
+  // ===== CNS =====
+  { id: 'antidepressants', name: 'Antidepressants', aliases: ['antidepressant'] },
+  { id: 'ssris', name: 'SSRIs', parent: 'antidepressants', aliases: ['ssri', 'selective serotonin reuptake inhibitors'] },
+  { id: 'snris', name: 'SNRIs', parent: 'antidepressants', aliases: ['snri', 'serotonin-norepinephrine reuptake inhibitors'] },
+  { id: 'tcas', name: 'Tricyclic antidepressants', parent: 'antidepressants', aliases: ['tca', 'tricyclics'] },
+  { id: 'maois', name: 'MAOIs', parent: 'antidepressants', aliases: ['maoi', 'monoamine oxidase inhibitors'] },
+  { id: 'sedative-hypnotics', name: 'Sedative-hypnotics', aliases: ['sedative hypnotic', 'sedatives', 'hypnotics'] },
+  { id: 'benzodiazepines', name: 'Benzodiazepines', parent: 'sedative-hypnotics', aliases: ['benzodiazepine', 'benzos'] },
+  { id: 'z-drugs', name: 'Non-benzodiazepine hypnotics', parent: 'sedative-hypnotics', aliases: ['z drug', 'nonbenzodiazepine hypnotics'] },
+  { id: 'antipsychotics', name: 'Antipsychotics', aliases: ['antipsychotic', 'neuroleptics'] },
+  { id: 'anticonvulsants', name: 'Anticonvulsants', aliases: ['anticonvulsant', 'antiepileptics', 'antiepileptic drugs', 'aeds'] },
+  { id: 'anticholinergics', name: 'Anticholinergics', aliases: ['anticholinergic', 'antimuscarinics'] },
+  { id: 'triptans', name: 'Triptans', aliases: ['triptan', '5-ht1 agonists'] },
+  { id: 'muscle-relaxants', name: 'Skeletal muscle relaxants', aliases: ['muscle relaxant', 'muscle relaxants'] },
+  { id: 'antihistamines', name: 'Antihistamines', aliases: ['antihistamine', 'h1 blockers'] },
+
+  // ===== ANTI-INFECTIVES =====
+  { id: 'antibiotics', name: 'Antibiotics', aliases: ['antibiotic', 'antibacterials'] },
+  { id: 'beta-lactams', name: 'Beta-lactams', parent: 'antibiotics', aliases: ['beta lactam', 'beta-lactam antibiotics'] },
+  { id: 'penicillins', name: 'Penicillins', parent: 'beta-lactams', aliases: ['penicillin', 'penicillin class'] },
+  { id: 'cephalosporins', name: 'Cephalosporins', parent: 'beta-lactams', aliases: ['cephalosporin'] },
+  { id: 'fluoroquinolones', name: 'Fluoroquinolones', parent: 'antibiotics', aliases: ['fluoroquinolone', 'quinolones', 'fqs'] },
+  { id: 'macrolides', name: 'Macrolides', parent: 'antibiotics', aliases: ['macrolide', 'macrolide antibiotics'] },
+  { id: 'aminoglycosides', name: 'Aminoglycosides', parent: 'antibiotics', aliases: ['aminoglycoside'] },
+  { id: 'tetracyclines', name: 'Tetracyclines', parent: 'antibiotics', aliases: ['tetracycline class'] },
+  { id: 'sulfonamide-antibiotics', name: 'Sulfonamide antibiotics', parent: 'antibiotics', aliases: ['sulfa antibiotics', 'sulfa drugs', 'sulfonamides'] },
+  { id: 'azole-antifungals', name: 'Azole antifungals', aliases: ['azole antifungal', 'azoles', 'antifungal azoles'] },
+
+  // ===== ENDOCRINE / METABOLIC =====
+  { id: 'antidiabetics', name: 'Antidiabetic agents', aliases: ['antidiabetic', 'hypoglycemic agents', 'diabetes medications'] },
+  { id: 'biguanides', name: 'Biguanides', parent: 'antidiabetics', aliases: ['biguanide'] },
+  { id: 'sulfonylureas', name: 'Sulfonylureas', parent: 'antidiabetics', aliases: ['sulfonylurea'] },
+  { id: 'glp-1-agonists', name: 'GLP-1 receptor agonists', parent: 'antidiabetics', aliases: ['glp-1 agonist', 'glp-1 receptor agonist', 'glp1 agonists', 'glp-1 ras'] },
+  { id: 'sglt2-inhibitors', name: 'SGLT2 inhibitors', parent: 'antidiabetics', aliases: ['sglt2 inhibitor', 'gliflozins'] },
+  { id: 'dpp-4-inhibitors', name: 'DPP-4 inhibitors', parent: 'antidiabetics', aliases: ['dpp-4 inhibitor', 'gliptins'] },
+  { id: 'thiazolidinediones', name: 'Thiazolidinediones', parent: 'antidiabetics', aliases: ['tzds', 'glitazones'] },
+  { id: 'insulins', name: 'Insulins', parent: 'antidiabetics', aliases: ['insulin'] },
+  { id: 'corticosteroids', name: 'Corticosteroids (systemic)', aliases: ['corticosteroids (systemic)', 'systemic corticosteroids', 'corticosteroid', 'glucocorticoids', 'steroids'] },
+  { id: 'thyroid-hormones', name: 'Thyroid hormones', aliases: ['thyroid hormone', 'thyroid replacement'] },
+  { id: 'oral-contraceptives', name: 'Oral contraceptives', aliases: ['oral contraceptive', 'birth control pills', 'combined oral contraceptives'] },
+  { id: '5-alpha-reductase-inhibitors', name: '5-alpha reductase inhibitors', aliases: ['5-alpha reductase inhibitor', '5-aris'] },
+  { id: 'pde5-inhibitors', name: 'PDE5 inhibitors', aliases: ['pde5 inhibitor', 'phosphodiesterase-5 inhibitors'] },
+
+  // ===== GASTROINTESTINAL =====
+  { id: 'proton-pump-inhibitors', name: 'Proton pump inhibitors', aliases: ['ppi', 'ppis', 'proton pump inhibitor'] },
+  { id: 'h2-blockers', name: 'H2 receptor antagonists', aliases: ['h2 blocker', 'h2ras', 'h2 antagonists'] },
+  { id: 'antacids', name: 'Antacids', aliases: ['antacid'] },
+
+  // ===== OTHER =====
+  { id: 'immunosuppressants', name: 'Immunosuppressants', aliases: ['immunosuppressant', 'calcineurin inhibitors'] },
+  { id: 'potassium-supplements', name: 'Potassium supplements', aliases: ['potassium', 'potassium supplement'] },
+  { id: 'iron-supplements', name: 'Iron supplements', aliases: ['iron', 'iron supplement'] },
+  { id: 'calcium-supplements', name: 'Calcium supplements', aliases: ['calcium supplement'] },
+];
+
+// ===================== DRUG CONCEPTS =====================
+
+export interface DrugConcept {
+  generic: string;
+  classes: string[];
+  brands?: string[];
+  synonyms?: string[];
+  /** Single-ingredient generics contained in a combination product */
+  ingredients?: string[];
+}
+
+export const DRUG_CONCEPTS: DrugConcept[] = [
+  // ===== BETA-BLOCKERS =====
+  { generic: 'metoprolol', classes: ['beta-blockers'], brands: ['Lopressor', 'Toprol', 'Toprol-XL'], synonyms: ['metoprolol tartrate', 'metoprolol succinate'] },
+  { generic: 'atenolol', classes: ['beta-blockers'], brands: ['Tenormin'] },
+  { generic: 'carvedilol', classes: ['beta-blockers'], brands: ['Coreg'] },
+  { generic: 'propranolol', classes: ['beta-blockers'], brands: ['Inderal', 'InnoPran'] },
+  { generic: 'bisoprolol', classes: ['beta-blockers'], brands: ['Zebeta'] },
+  { generic: 'nebivolol', classes: ['beta-blockers'], brands: ['Bystolic'] },
+  { generic: 'labetalol', classes: ['beta-blockers'], brands: ['Trandate'] },
+  { generic: 'nadolol', classes: ['beta-blockers'], brands: ['Corgard'] },
+  { generic: 'sotalol', classes: ['beta-blockers', 'antiarrhythmics'], brands: ['Betapace'] },
+
+  // ===== RAAS =====
+  { generic: 'lisinopril', classes: ['ace-inhibitors'], brands: ['Zestril', 'Prinivil', 'Qbrelis'] },
+  { generic: 'enalapril', classes: ['ace-inhibitors'], brands: ['Vasotec'] },
+  { generic: 'ramipril', classes: ['ace-inhibitors'], brands: ['Altace'] },
+  { generic: 'benazepril', classes: ['ace-inhibitors'], brands: ['Lotensin'] },
+  { generic: 'captopril', classes: ['ace-inhibitors'], brands: ['Capoten'] },
+  { generic: 'fosinopril', classes: ['ace-inhibitors'] },
+  { generic: 'quinapril', classes: ['ace-inhibitors'], brands: ['Accupril'] },
+  { generic: 'perindopril', classes: ['ace-inhibitors'], brands: ['Aceon'] },
+  { generic: 'losartan', classes: ['arbs'], brands: ['Cozaar'] },
+  { generic: 'valsartan', classes: ['arbs'], brands: ['Diovan'] },
+  { generic: 'irbesartan', classes: ['arbs'], brands: ['Avapro'] },
+  { generic: 'olmesartan', classes: ['arbs'], brands: ['Benicar'] },
+  { generic: 'candesartan', classes: ['arbs'], brands: ['Atacand'] },
+  { generic: 'telmisartan', classes: ['arbs'], brands: ['Micardis'] },
+  { generic: 'aliskiren', classes: ['cardiovascular-agents'], brands: ['Tekturna'] },
+
+  // ===== CALCIUM CHANNEL BLOCKERS =====
+  { generic: 'amlodipine', classes: ['dihydropyridine-ccbs'], brands: ['Norvasc'] },
+  { generic: 'nifedipine', classes: ['dihydropyridine-ccbs'], brands: ['Procardia', 'Adalat'] },
+  { generic: 'felodipine', classes: ['dihydropyridine-ccbs'], brands: ['Plendil'] },
+  { generic: 'diltiazem', classes: ['non-dihydropyridine-ccbs'], brands: ['Cardizem', 'Tiazac'] },
+  { generic: 'verapamil', classes: ['non-dihydropyridine-ccbs'], brands: ['Calan', 'Verelan', 'Isoptin'] },
+
+  // ===== DIURETICS =====
+  { generic: 'furosemide', classes: ['loop-diuretics'], brands: ['Lasix'] },
+  { generic: 'bumetanide', classes: ['loop-diuretics'], brands: ['Bumex'] },
+  { generic: 'torsemide', classes: ['loop-diuretics'], brands: ['Demadex', 'Soaanz'] },
+  { generic: 'hydrochlorothiazide', classes: ['thiazide-diuretics'], brands: ['Microzide'], synonyms: ['hctz'] },
+  { generic: 'chlorthalidone', classes: ['thiazide-diuretics'], brands: ['Thalitone'] },
+  { generic: 'indapamide', classes: ['thiazide-diuretics'] },
+  { generic: 'spironolactone', classes: ['potassium-sparing-diuretics'], brands: ['Aldactone', 'CaroSpir'] },
+  { generic: 'eplerenone', classes: ['potassium-sparing-diuretics'], brands: ['Inspra'] },
+
+  // ===== NITRATES / PDE5 =====
+  { generic: 'nitroglycerin', classes: ['nitrates'], brands: ['Nitrostat', 'Nitro-Dur', 'Nitrolingual'], synonyms: ['glyceryl trinitrate', 'gtn'] },
+  { generic: 'isosorbide mononitrate', classes: ['nitrates'], brands: ['Imdur', 'Monoket'], synonyms: ['ismn'] },
+  { generic: 'isosorbide dinitrate', classes: ['nitrates'], brands: ['Isordil'], synonyms: ['isdn'] },
+  { generic: 'nitroprusside', classes: ['nitrates'], brands: ['Nipride'], synonyms: ['sodium nitroprusside'] },
+  { generic: 'sildenafil', classes: ['pde5-inhibitors'], brands: ['Viagra', 'Revatio'] },
+  { generic: 'tadalafil', classes: ['pde5-inhibitors'], brands: ['Cialis', 'Adcirca'] },
+  { generic: 'vardenafil', classes: ['pde5-inhibitors'], brands: ['Levitra', 'Staxyn'] },
+  { generic: 'avanafil', classes: ['pde5-inhibitors'], brands: ['Stendra'] },
+  { generic: 'riociguat', classes: ['cardiovascular-agents'], brands: ['Adempas'] },
+
+  // ===== LIPIDS =====
+  { generic: 'atorvastatin', classes: ['statins'], brands: ['Lipitor'] },
+  { generic: 'simvastatin', classes: ['statins'], brands: ['Zocor'] },
+  { generic: 'rosuvastatin', classes: ['statins'], brands: ['Crestor'] },
+  { generic: 'pravastatin', classes: ['statins'], brands: ['Pravachol'] },
+  { generic: 'lovastatin', classes: ['statins'], brands: ['Mevacor', 'Altoprev'] },
+  { generic: 'fluvastatin', classes: ['statins'], brands: ['Lescol'] },
+  { generic: 'gemfibrozil', classes: ['cardiovascular-agents'], brands: ['Lopid'] },
+  { generic: 'niacin', classes: ['cardiovascular-agents'], brands: ['Niaspan'], synonyms: ['nicotinic acid'] },
+  { generic: 'ezetimibe', classes: ['cardiovascular-agents'], brands: ['Zetia'] },
+
+  // ===== ANTIARRHYTHMICS / GLYCOSIDES =====
+  { generic: 'amiodarone', classes: ['antiarrhythmics'], brands: ['Cordarone', 'Pacerone', 'Nexterone'] },
+  { generic: 'dofetilide', classes: ['antiarrhythmics'], brands: ['Tikosyn'] },
+  { generic: 'quinidine', classes: ['class-ia-antiarrhythmics'] },
+  { generic: 'procainamide', classes: ['class-ia-antiarrhythmics'] },
+  { generic: 'disopyramide', classes: ['class-ia-antiarrhythmics'], brands: ['Norpace'] },
+  { generic: 'digoxin', classes: ['cardiac-glycosides'], brands: ['Lanoxin'] },
+  { generic: 'clonidine', classes: ['cardiovascular-agents'], brands: ['Catapres', 'Kapvay'] },
+  { generic: 'tamsulosin', classes: ['alpha-blockers'], brands: ['Flomax'] },
+  { generic: 'doxazosin', classes: ['alpha-blockers'], brands: ['Cardura'] },
+  { generic: 'terazosin', classes: ['alpha-blockers'], brands: ['Hytrin'] },
+  { generic: 'prazosin', classes: ['alpha-blockers'], brands: ['Minipress'] },
+  { generic: 'minoxidil', classes: ['cardiovascular-agents'], brands: ['Rogaine', 'Loniten'] },
+
+  // ===== ANTICOAGULANTS / ANTIPLATELETS =====
+  { generic: 'warfarin', classes: ['anticoagulants'], brands: ['Coumadin', 'Jantoven'] },
+  { generic: 'apixaban', classes: ['doacs'], brands: ['Eliquis'] },
+  { generic: 'rivaroxaban', classes: ['doacs'], brands: ['Xarelto'] },
+  { generic: 'dabigatran', classes: ['doacs'], brands: ['Pradaxa'] },
+  { generic: 'edoxaban', classes: ['doacs'], brands: ['Savaysa'] },
+  { generic: 'heparin', classes: ['anticoagulants'], synonyms: ['unfractionated heparin'] },
+  { generic: 'enoxaparin', classes: ['anticoagulants'], brands: ['Lovenox'] },
+  { generic: 'clopidogrel', classes: ['antiplatelets'], brands: ['Plavix'] },
+  { generic: 'prasugrel', classes: ['antiplatelets'], brands: ['Effient'] },
+  { generic: 'ticagrelor', classes: ['antiplatelets'], brands: ['Brilinta'] },
+  { generic: 'aspirin', classes: ['antiplatelets', 'nsaids'], brands: ['Bayer', 'Ecotrin', 'Bufferin'], synonyms: ['acetylsalicylic acid', 'asa'] },
+
+  // ===== ANALGESICS =====
+  { generic: 'ibuprofen', classes: ['nsaids'], brands: ['Advil', 'Motrin', 'Nurofen'] },
+  { generic: 'naproxen', classes: ['nsaids'], brands: ['Aleve', 'Naprosyn', 'Anaprox'] },
+  { generic: 'diclofenac', classes: ['nsaids'], brands: ['Voltaren', 'Cataflam'] },
+  { generic: 'celecoxib', classes: ['nsaids'], brands: ['Celebrex'] },
+  { generic: 'meloxicam', classes: ['nsaids'], brands: ['Mobic'] },
+  { generic: 'indomethacin', classes: ['nsaids'], brands: ['Indocin'] },
+  { generic: 'ketorolac', classes: ['nsaids'], brands: ['Toradol'] },
+  { generic: 'piroxicam', classes: ['nsaids'], brands: ['Feldene'] },
+  { generic: 'acetaminophen', classes: ['analgesics'], brands: ['Tylenol', 'Panadol'], synonyms: ['paracetamol', 'apap'] },
+  { generic: 'morphine', classes: ['opioids'], brands: ['MS Contin', 'Kadian'] },
+  { generic: 'oxycodone', classes: ['opioids'], brands: ['OxyContin', 'Roxicodone'] },
+  { generic: 'hydrocodone', classes: ['opioids'], brands: ['Hysingla', 'Zohydro'] },
+  { generic: 'hydromorphone', classes: ['opioids'], brands: ['Dilaudid'] },
+  { generic: 'oxymorphone', classes: ['opioids'], brands: ['Opana'] },
+  { generic: 'codeine', classes: ['opioids'] },
+  { generic: 'tramadol', classes: ['opioids'], brands: ['Ultram', 'ConZip'] },
+  { generic: 'fentanyl', classes: ['opioids'], brands: ['Duragesic', 'Actiq', 'Sublimaze'] },
+  { generic: 'methadone', classes: ['opioids'], brands: ['Dolophine', 'Methadose'] },
+  { generic: 'meperidine', classes: ['opioids'], brands: ['Demerol'], synonyms: ['pethidine'] },
+  { generic: 'buprenorphine', classes: ['opioids'], brands: ['Subutex', 'Butrans'] },
+  { generic: 'oxycodone-acetaminophen', classes: [], brands: ['Percocet', 'Endocet'], ingredients: ['oxycodone', 'acetaminophen'] },
+  { generic: 'hydrocodone-acetaminophen', classes: [], brands: ['Vicodin', 'Norco', 'Lortab'], ingredients: ['hydrocodone', 'acetaminophen'] },
+
+  // ===== ANTIDEPRESSANTS =====
+  { generic: 'sertraline', classes: ['ssris'], brands: ['Zoloft'] },
+  { generic: 'fluoxetine', classes: ['ssris'], brands: ['Prozac', 'Sarafem'] },
+  { generic: 'paroxetine', classes: ['ssris'], brands: ['Paxil', 'Pexeva'] },
+  { generic: 'citalopram', classes: ['ssris'], brands: ['Celexa'] },
+  { generic: 'escitalopram', classes: ['ssris'], brands: ['Lexapro'] },
+  { generic: 'fluvoxamine', classes: ['ssris'], brands: ['Luvox'] },
+  { generic: 'venlafaxine', classes: ['snris'], brands: ['Effexor', 'Effexor XR'] },
+  { generic: 'duloxetine', classes: ['snris'], brands: ['Cymbalta'] },
+  { generic: 'desvenlafaxine', classes: ['snris'], brands: ['Pristiq'] },
+  { generic: 'amitriptyline', classes: ['tcas'], brands: ['Elavil'] },
+  { generic: 'nortriptyline', classes: ['tcas'], brands: ['Pamelor'] },
+  { generic: 'phenelzine', classes: ['maois'], brands: ['Nardil'] },
+  { generic: 'tranylcypromine', classes: ['maois'], brands: ['Parnate'] },
+  { generic: 'selegiline', classes: ['maois'], brands: ['Emsam', 'Eldepryl'] },
+  { generic: 'linezolid', classes: ['antibiotics'], brands: ['Zyvox'] },
+  { generic: 'bupropion', classes: ['antidepressants'], brands: ['Wellbutrin', 'Zyban'] },
+
+  // ===== SEDATIVES / ANTIPSYCHOTICS / ANTICONVULSANTS =====
+  { generic: 'diazepam', classes: ['benzodiazepines'], brands: ['Valium'] },
+  { generic: 'alprazolam', classes: ['benzodiazepines'], brands: ['Xanax'] },
+  { generic: 'lorazepam', classes: ['benzodiazepines'], brands: ['Ativan'] },
+  { generic: 'clonazepam', classes: ['benzodiazepines'], brands: ['Klonopin'] },
+  { generic: 'temazepam', classes: ['benzodiazepines'], brands: ['Restoril'] },
+  { generic: 'zolpidem', classes: ['z-drugs'], brands: ['Ambien', 'Edluar'] },
+  { generic: 'eszopiclone', classes: ['z-drugs'], brands: ['Lunesta'] },
+  { generic: 'haloperidol', classes: ['antipsychotics'], brands: ['Haldol'] },
+  { generic: 'quetiapine', classes: ['antipsychotics'], brands: ['Seroquel'] },
+  { generic: 'risperidone', classes: ['antipsychotics'], brands: ['Risperdal'] },
+  { generic: 'olanzapine', classes: ['antipsychotics'], brands: ['Zyprexa'] },
+  { generic: 'aripiprazole', classes: ['antipsychotics'], brands: ['Abilify'] },
+  { generic: 'clozapine', classes: ['antipsychotics'], brands: ['Clozaril'] },
+  { generic: 'droperidol', classes: ['antipsychotics'], brands: ['Inapsine'] },
+  { generic: 'lithium', classes: [], brands: ['Lithobid'], synonyms: ['lithium carbonate'] },
+  { generic: 'carbamazepine', classes: ['anticonvulsants'], brands: ['Tegretol', 'Carbatrol'] },
+  { generic: 'phenytoin', classes: ['anticonvulsants'], brands: ['Dilantin'] },
+  { generic: 'valproic acid', classes: ['anticonvulsants'], brands: ['Depakote', 'Depakene'], synonyms: ['valproate', 'divalproex', 'sodium valproate', 'valproic_acid'] },
+  { generic: 'lamotrigine', classes: ['anticonvulsants'], brands: ['Lamictal'] },
+  { generic: 'levetiracetam', classes: ['anticonvulsants'], brands: ['Keppra'] },
+  { generic: 'topiramate', classes: ['anticonvulsants'], brands: ['Topamax'] },
+  { generic: 'gabapentin', classes: ['anticonvulsants'], brands: ['Neurontin'] },
+  { generic: 'benztropine', classes: ['anticholinergics'], brands: ['Cogentin'] },
+  { generic: 'oxybutynin', classes: ['anticholinergics'], brands: ['Ditropan'] },
+  { generic: 'sumatriptan', classes: ['triptans'], brands: ['Imitrex'] },
+  { generic: 'rizatriptan', classes: ['triptans'], brands: ['Maxalt'] },
+  { generic: 'cyclobenzaprine', classes: ['muscle-relaxants'], brands: ['Flexeril', 'Amrix'] },
+  { generic: 'diphenhydramine', classes: ['antihistamines', 'anticholinergics'], brands: ['Benadryl'] },
+  { generic: 'cetirizine', classes: ['antihistamines'], brands: ['Zyrtec'] },
+  { generic: 'ondansetron', classes: [], brands: ['Zofran'] },
+  { generic: 'ergotamine', classes: [], brands: ['Cafergot', 'Ergomar'] },
+
+  // ===== ANTI-INFECTIVES =====
+  { generic: 'penicillin v', classes: ['penicillins'], synonyms: ['penicillin vk', 'penicillin g'] },
+  { generic: 'amoxicillin', classes: ['penicillins'], brands: ['Amoxil', 'Moxatag'] },
+  { generic: 'amoxicillin-clavulanate', classes: ['penicillins'], brands: ['Augmentin'], synonyms: ['co-amoxiclav'], ingredients: ['amoxicillin'] },
+  { generic: 'ampicillin', classes: ['penicillins'] },
+  { generic: 'piperacillin', classes: ['penicillins'], synonyms: ['piperacillin-tazobactam'], brands: ['Zosyn'] },
+  { generic: 'nafcillin', classes: ['penicillins'] },
+  { generic: 'oxacillin', classes: ['penicillins'] },
+  { generic: 'dicloxacillin', classes: ['penicillins'] },
+  { generic: 'cephalexin', classes: ['cephalosporins'], brands: ['Keflex'] },
+  { generic: 'cefazolin', classes: ['cephalosporins'], brands: ['Ancef'] },
+  { generic: 'cefadroxil', classes: ['cephalosporins'] },
+  { generic: 'ceftriaxone', classes: ['cephalosporins'], brands: ['Rocephin'] },
+  { generic: 'ciprofloxacin', classes: ['fluoroquinolones'], brands: ['Cipro'] },
+  { generic: 'levofloxacin', classes: ['fluoroquinolones'], brands: ['Levaquin'] },
+  { generic: 'moxifloxacin', classes: ['fluoroquinolones'], brands: ['Avelox'] },
+  { generic: 'ofloxacin', classes: ['fluoroquinolones'] },
+  { generic: 'norfloxacin', classes: ['fluoroquinolones'] },
+  { generic: 'gemifloxacin', classes: ['fluoroquinolones'], brands: ['Factive'] },
+  { generic: 'azithromycin', classes: ['macrolides'], brands: ['Zithromax', 'Z-Pak'] },
+  { generic: 'clarithromycin', classes: ['macrolides'], brands: ['Biaxin'] },
+  { generic: 'erythromycin', classes: ['macrolides'], brands: ['Ery-Tab', 'E.E.S.'] },
+  { generic: 'gentamicin', classes: ['aminoglycosides'] },
+  { generic: 'tobramycin', classes: ['aminoglycosides'] },
+  { generic: 'amikacin', classes: ['aminoglycosides'] },
+  { generic: 'tetracycline', classes: ['tetracyclines'] },
+  { generic: 'doxycycline', classes: ['tetracyclines'], brands: ['Vibramycin', 'Doryx'] },
+  { generic: 'minocycline', classes: ['tetracyclines'], brands: ['Minocin', 'Solodyn'] },
+  { generic: 'sulfamethoxazole', classes: ['sulfonamide-antibiotics'] },
+  { generic: 'trimethoprim', classes: ['antibiotics'] },
+  { generic: 'trimethoprim-sulfamethoxazole', classes: ['sulfonamide-antibiotics'], brands: ['Bactrim', 'Septra'], synonyms: ['tmp-smx', 'co-trimoxazole'], ingredients: ['trimethoprim', 'sulfamethoxazole'] },
+  { generic: 'metronidazole', classes: ['antibiotics'], brands: ['Flagyl'] },
+  { generic: 'vancomycin', classes: ['antibiotics'], brands: ['Vancocin'] },
+  { generic: 'rifampin', classes: ['antibiotics'], brands: ['Rifadin'], synonyms: ['rifampicin'] },
+  { generic: 'fluconazole', classes: ['azole-antifungals'], brands: ['Diflucan'] },
+  { generic: 'ketoconazole', classes: ['azole-antifungals'], brands: ['Nizoral'] },
+  { generic: 'itraconazole', classes: ['azole-antifungals'], brands: ['Sporanox'] },
+  { generic: 'voriconazole', classes: ['azole-antifungals'], brands: ['Vfend'] },
+  { generic: 'terbinafine', classes: [], brands: ['Lamisil'] },
+  { generic: 'ritonavir', classes: [], brands: ['Norvir'] },
+  { generic: 'abacavir', classes: [], brands: ['Ziagen'] },
+
+  // ===== ENDOCRINE / METABOLIC =====
+  { generic: 'metformin', classes: ['biguanides'], brands: ['Glucophage', 'Fortamet', 'Glumetza'] },
+  { generic: 'glipizide', classes: ['sulfonylureas'], brands: ['Glucotrol'] },
+  { generic: 'glyburide', classes: ['sulfonylureas'], brands: ['Diabeta', 'Glynase'], synonyms: ['glibenclamide'] },
+  { generic: 'glimepiride', classes: ['sulfonylureas'], brands: ['Amaryl'] },
+  { generic: 'semaglutide', classes: ['glp-1-agonists'], brands: ['Ozempic', 'Wegovy', 'Rybelsus'] },
+  { generic: 'liraglutide', classes: ['glp-1-agonists'], brands: ['Victoza', 'Saxenda'] },
+  { generic: 'dulaglutide', classes: ['glp-1-agonists'], brands: ['Trulicity'] },
+  { generic: 'exenatide', classes: ['glp-1-agonists'], brands: ['Byetta', 'Bydureon'] },
+  { generic: 'tirzepatide', classes: ['glp-1-agonists'], brands: ['Mounjaro', 'Zepbound'] },
+  { generic: 'empagliflozin', classes: ['sglt2-inhibitors'], brands: ['Jardiance'] },
+  { generic: 'dapagliflozin', classes: ['sglt2-inhibitors'], brands: ['Farxiga'] },
+  { generic: 'canagliflozin', classes: ['sglt2-inhibitors'], brands: ['Invokana'] },
+  { generic: 'sitagliptin', classes: ['dpp-4-inhibitors'], brands: ['Januvia'] },
+  { generic: 'linagliptin', classes: ['dpp-4-inhibitors'], brands: ['Tradjenta'] },
+  { generic: 'pioglitazone', classes: ['thiazolidinediones'], brands: ['Actos'] },
+  { generic: 'insulin glargine', classes: ['insulins'], brands: ['Lantus', 'Basaglar', 'Toujeo'] },
+  { generic: 'insulin lispro', classes: ['insulins'], brands: ['Humalog', 'Admelog'] },
+  { generic: 'insulin aspart', classes: ['insulins'], brands: ['Novolog', 'Fiasp'] },
+  { generic: 'insulin detemir', classes: ['insulins'], brands: ['Levemir'] },
+  { generic: 'prednisone', classes: ['corticosteroids'], brands: ['Deltasone', 'Rayos'] },
+  { generic: 'prednisolone', classes: ['corticosteroids'], brands: ['Orapred'] },
+  { generic: 'methylprednisolone', classes: ['corticosteroids'], brands: ['Medrol', 'Solu-Medrol'] },
+  { generic: 'dexamethasone', classes: ['corticosteroids'], brands: ['Decadron'] },
+  { generic: 'hydrocortisone', classes: ['corticosteroids'], brands: ['Cortef', 'Solu-Cortef'] },
+  { generic: 'levothyroxine', classes: ['thyroid-hormones'], brands: ['Synthroid', 'Levoxyl', 'Unithroid', 'Tirosint'] },
+  { generic: 'ethinyl estradiol', classes: ['oral-contraceptives'], brands: ['Yaz', 'Loestrin', 'Ortho Tri-Cyclen'] },
+  { generic: 'finasteride', classes: ['5-alpha-reductase-inhibitors'], brands: ['Propecia', 'Proscar'] },
+  { generic: 'dutasteride', classes: ['5-alpha-reductase-inhibitors'], brands: ['Avodart'] },
+  { generic: 'isotretinoin', classes: [], brands: ['Accutane', 'Absorica', 'Claravis'] },
+  { generic: 'orlistat', classes: [], brands: ['Xenical', 'Alli'] },
+  { generic: 'allopurinol', classes: [], brands: ['Zyloprim'] },
+  { generic: 'colchicine', classes: [], brands: ['Colcrys', 'Mitigare'] },
+
+  // ===== GASTROINTESTINAL =====
+  { generic: 'omeprazole', classes: ['proton-pump-inhibitors'], brands: ['Prilosec'] },
+  { generic: 'esomeprazole', classes: ['proton-pump-inhibitors'], brands: ['Nexium'] },
+  { generic: 'pantoprazole', classes: ['proton-pump-inhibitors'], brands: ['Protonix'] },
+  { generic: 'lansoprazole', classes: ['proton-pump-inhibitors'], brands: ['Prevacid'] },
+  { generic: 'famotidine', classes: ['h2-blockers'], brands: ['Pepcid'] },
+  { generic: 'cimetidine', classes: ['h2-blockers'], brands: ['Tagamet'] },
+  { generic: 'cisapride', classes: [], brands: ['Propulsid'] },
+  { generic: 'calcium carbonate', classes: ['antacids', 'calcium-supplements'], brands: ['Tums', 'Os-Cal', 'Caltrate'] },
+  { generic: 'aluminum hydroxide-magnesium hydroxide', classes: ['antacids'], brands: ['Maalox', 'Mylanta'] },
+
+  // ===== IMMUNOSUPPRESSANTS / ANTIMETABOLITES =====
+  { generic: 'cyclosporine', classes: ['immunosuppressants'], brands: ['Neoral', 'Sandimmune', 'Gengraf'], synonyms: ['ciclosporin'] },
+  { generic: 'tacrolimus', classes: ['immunosuppressants'], brands: ['Prograf', 'Envarsus'] },
+  { generic: 'azathioprine', classes: ['immunosuppressants'], brands: ['Imuran'] },
+  { generic: 'mercaptopurine', classes: ['immunosuppressants'], brands: ['Purixan'], synonyms: ['6-mp'] },
+  { generic: 'methotrexate', classes: ['immunosuppressants'], brands: ['Trexall', 'Otrexup', 'Rasuvo'] },
+  { generic: 'theophylline', classes: [], brands: ['Theo-24', 'Uniphyl'] },
+  { generic: 'tamoxifen', classes: [], brands: ['Soltamox', 'Nolvadex'] },
+
+  // ===== SUPPLEMENTS =====
+  { generic: 'potassium chloride', classes: ['potassium-supplements'], brands: ['Klor-Con', 'K-Tab', 'Micro-K'], synonyms: ['potassium_chloride', 'kcl'] },
+  { generic: 'ferrous sulfate', classes: ['iron-supplements'], brands: ['Feosol', 'Slow Fe'] },
+  { generic: 'calcium citrate', classes: ['calcium-supplements'], brands: ['Citracal'] },
+];
+
+// ===================== INDEXES =====================
+
+export interface ResolvedDrug {
+  input: string;
+  /** Canonical generic name, or null when the name is not a known drug */
+  generic: string | null;
+  /** The generic itself plus the ingredients of a combination product */
+  generics: string[];
+  /** Generic, brand and synonym names the concept is known by */
+  names: string[];
+  /** Class ids including every ancestor in the hierarchy */
+  classes: string[];
+}
+
+/** Lowercase, treat `_`/`-`/parentheses as spaces and collapse whitespace */
+export function normalizeDrugTerm(term: string): string {
+  return term
+    .toLowerCase()
+    .replaceAll(/[_\-()/,]+/g, ' ')
+    .replaceAll(/[^a-z0-9.\s]/g, '')
+    .replaceAll(/\s+/g, ' ')
+    .trim();
+}
+
+const classById = new Map<string, DrugClassNode>(DRUG_CLASSES.map(c => [c.id, c]));
+const classIndex = new Map<string, DrugClassNode>();
+const conceptIndex = new Map<string, DrugConcept>();
+const conceptByGeneric = new Map<string, DrugConcept>();
+
+for (const node of DRUG_CLASSES) {
+  for (const key of [node.id, node.name, ...node.aliases]) {
+    classIndex.set(normalizeDrugTerm(key), node);
+  }
+}
+
+for (const concept of DRUG_CONCEPTS) {
+  conceptByGeneric.set(concept.generic, concept);
+  for (const key of [concept.generic, ...(concept.brands ?? []), ...(concept.synonyms ?? [])]) {
+    conceptIndex.set(normalizeDrugTerm(key), concept);
+  }
+}
+
+function ancestorsOf(classId: string): string[] {
+  const chain: string[] = [];
+  let node = classById.get(classId);
+  while (node) {
+    chain.push(node.id);
+    node = node.parent ? classById.get(node.parent) : undefined;
+  }
+  return chain;
+}
+
+// Rules use both singular and plural forms ("beta blocker" vs "beta-blockers")
+function lookupClassPlural(key: string): DrugClassNode | undefined {
+  return classIndex.get(`${key}s`) ?? (key.endsWith('s') ? classIndex.get(key.slice(0, -1)) : undefined);
+}
+
+function lookupClass(key: string): DrugClassNode | undefined {
+  return classIndex.get(key) ?? lookupClassPlural(key);
+}
+
+type TermMatch =
+  | { kind: 'class'; node: DrugClassNode }
+  | { kind: 'drug'; concept: DrugConcept };
+
+/**
+ * Finds the class or drug a free-text term refers to. Tries the whole term
+ * first, then shorter leading word runs so "Metoprolol succinate ER 50mg" and
+ * "Lipitor 20 mg" still resolve. An exact class alias wins over a drug so
+ * "insulin" means the class; a drug wins over a singular/plural guess so
+ * "tetracycline" stays the drug.
+ */
+function lookupTerm(term: string): TermMatch | null {
+  const words = normalizeDrugTerm(term).split(' ').filter(Boolean);
+  for (let length = words.length; length > 0; length--) {
+    const key = words.slice(0, length).join(' ');
+    const exactClass = classIndex.get(key);
+    if (exactClass) return { kind: 'class', node: exactClass };
+    const concept = conceptIndex.get(key);
+    if (concept) return { kind: 'drug', concept };
+    const pluralClass = lookupClassPlural(key);
+    if (pluralClass) return { kind: 'class', node: pluralClass };
+  }
+  return null;
+}
+
+function classClosure(concept: DrugConcept): string[] {
+  const ids = new Set<string>();
+  const members = [concept, ...(concept.ingredients ?? []).map(g => conceptByGeneric.get(g)).filter((c): c is DrugConcept => !!c)];
+  for (const member of members) {
+    for (const classId of member.classes) {
+      ancestorsOf(classId).forEach(id => ids.add(id));
+    }
+  }
+  return [...ids];
+}
+
+function legacySubstringMatch(a: string, b: string): boolean {
+  const left = normalizeDrugTerm(a);
+  const right = normalizeDrugTerm(b);
+  if (!left || !right) return false;
+  return left.includes(right) || right.includes(left);
+}
+
+// ===================== EXPORT =====================
+
+export const DRUG_ONTOLOGY = {
+  classes: DRUG_CLASSES,
+  concepts: DRUG_CONCEPTS,
+
+  /** Resolve a drug name (generic, brand or synonym) to its concept and classes */
+  resolve(name: string): ResolvedDrug {
+    const match = lookupTerm(name);
+    if (match?.kind !== 'drug') {
+      return { input: name, generic: null, generics: [], names: [], classes: [] };
+    }
+    const { concept } = match;
+    return {
+      input: name,
+      generic: concept.generic,
+      generics: [concept.generic, ...(concept.ingredients ?? [])],
+      names: [concept.generic, ...(concept.brands ?? []), ...(concept.synonyms ?? [])].map(n => n.toLowerCase()),
+      classes: classClosure(concept),
+    };
+  },
+
+  /** Resolve a class name or alias ("NSAIDs", "beta_blockers") to its node */
+  findClass(term: string): DrugClassNode | undefined {
+    return lookupClass(normalizeDrugTerm(term));
+  },
+
+  /** Canonical generic name when known, otherwise the trimmed lowercase input */
+  canonicalName(name: string): string {
+    return this.resolve(name).generic ?? name.toLowerCase().trim();
+  },
+
+  /** True when the drug belongs to the class or one of its subclasses */
+  isInClass(drugName: string, classTerm: string): boolean {
+    const node = this.findClass(classTerm);
+    return !!node && this.resolve(drugName).classes.includes(node.id);
+  },
+
+  /**
+   * Does `drugName` match the rule term `term`? Either side may be a drug
+   * (any name form) or a class. Drug vs drug compares generics, drug vs class
+   * checks membership, class vs class checks the hierarchy. When either side
+   * is unknown to the ontology the legacy substring comparison applies.
+   */
+  matches(drugName: string, term: string): boolean {
+    const left = lookupTerm(drugName);
+    const right = lookupTerm(term);
+    if (!left || !right) return legacySubstringMatch(drugName, term);
+
+    if (left.kind === 'drug' && right.kind === 'drug') {
+      const leftGenerics = [left.concept.generic, ...(left.concept.ingredients ?? [])];
+      const rightGenerics = [right.concept.generic, ...(right.concept.ingredients ?? [])];
+      return leftGenerics.some(g => rightGenerics.includes(g));
+    }
+    if (left.kind === 'drug' && right.kind === 'class') {
+      return classClosure(left.concept).includes(right.node.id);
+    }
+    if (left.kind === 'class' && right.kind === 'drug') {
+      return classClosure(right.concept).includes(left.node.id);
+    }
+    if (left.kind === 'class' && right.kind === 'class') {
+      return ancestorsOf(left.node.id).includes(right.node.id) || ancestorsOf(right.node.id).includes(left.node.id);
+    }
+    return false;
+  },
+
+  /** True when the two names match the two rule terms in either order */
+  matchesPair(drug1: string, drug2: string, term1: string, term2: string): boolean {
+    return (this.matches(drug1, term1) && this.matches(drug2, term2)) ||
+      (this.matches(drug1, term2) && this.matches(drug2, term1));
+  },
+};
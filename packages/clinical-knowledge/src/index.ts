@@ -0,0 +1,23 @@
+/**
+ * Shared Clinical Knowledge
+ *
+ * The one copy of the drug ontology, interaction, contraindication and dosing
+ * rules, allergy cross-reactivity groups, lab catalog, pharmacogenomic
+ * gene–drug rules, lactation risks, pediatric dosing, therapeutic
+ * duplication rules and plain-language patient counseling. The backend safety
+ * checks and the frontend's offline engines both import from here, so a rule
+ * changed in this package changes everywhere at once.
+ */
+
+/** Release of the datasets below; bump with every data or lookup change */
+export const CLINICAL_KNOWLEDGE_VERSION = '1.6.0';
+
+export * from './drug-ontology';
+export * from './medical-knowledge-base';
+export * from './renal-dosing';
+export * from './lab-tests';
+export * from './pharmacogenomics';
+export * from './pregnancy-lactation';
+export * from './pediatric-dosing';
+export * from './therapeutic-duplication';
+export * from './patient-counseling';
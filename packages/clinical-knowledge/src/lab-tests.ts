@@ -0,0 +1,44 @@
+/**
+ * Lab Test Catalog
+ *
+ * The laboratory tests the intake form and dosing logic understand. Results
+ * are stored under these short codes; the LOINC code is kept alongside for
+ * interoperability. Reference ranges are typical adult ranges and are used
+ * only when a result arrives without its own range. The backend rejects
+ * results reported in any unit other than the one listed here.
+ */
+
+export type LabTestCategory = 'Renal' | 'Hepatic' | 'Coagulation' | 'Metabolic';
+
+export interface LabTestDefinition {
+  code: string;
+  name: string;
+  loinc: string;
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  category: LabTestCategory;
+}
+
+export const LAB_TESTS: LabTestDefinition[] = [
+  // ===== RENAL =====
+  { code: 'CREAT', name: 'Serum creatinine', loinc: '2160-0', unit: 'mg/dL', referenceLow: 0.6, referenceHigh: 1.3, category: 'Renal' },
+  { code: 'EGFR', name: 'eGFR', loinc: '62238-1', unit: 'mL/min/1.73m2', referenceLow: 60, referenceHigh: null, category: 'Renal' },
+  { code: 'K', name: 'Potassium', loinc: '2823-3', unit: 'mmol/L', referenceLow: 3.5, referenceHigh: 5.0, category: 'Renal' },
+
+  // ===== HEPATIC =====
+  { code: 'BILI', name: 'Total bilirubin', loinc: '1975-2', unit: 'mg/dL', referenceLow: 0.1, referenceHigh: 1.2, category: 'Hepatic' },
+  { code: 'ALB', name: 'Albumin', loinc: '1751-7', unit: 'g/dL', referenceLow: 3.5, referenceHigh: 5.0, category: 'Hepatic' },
+  { code: 'AST', name: 'AST', loinc: '1920-8', unit: 'U/L', referenceLow: 10, referenceHigh: 40, category: 'Hepatic' },
+  { code: 'ALT', name: 'ALT', loinc: '1742-6', unit: 'U/L', referenceLow: 7, referenceHigh: 56, category: 'Hepatic' },
+
+  // ===== COAGULATION / METABOLIC =====
+  { code: 'INR', name: 'INR', loinc: '6301-6', unit: 'ratio', referenceLow: 0.8, referenceHigh: 1.2, category: 'Coagulation' },
+  { code: 'HBA1C', name: 'Hemoglobin A1c', loinc: '4548-4', unit: '%', referenceLow: 4.0, referenceHigh: 5.6, category: 'Metabolic' },
+];
+
+const BY_CODE = new Map(LAB_TESTS.map(test => [test.code, test]));
+
+export function findLabTest(code: string): LabTestDefinition | undefined {
+  return BY_CODE.get(code.trim().toUpperCase());
+}
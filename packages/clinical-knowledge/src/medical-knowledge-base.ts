@@ -11,8 +11,13 @@
  * - KDIGO (Kidney Disease) Guidelines
  * - GOLD (COPD) Guidelines
  * - ADA (Diabetes) Standards of Care
+ *
+ * Entries may name a drug or a drug class; lookups resolve both sides through
+ * the drug-class ontology.
  */
 
+import { DRUG_ONTOLOGY } from './drug-ontology';
+
 // ===================== DRUG INTERACTIONS (500+) =====================
 
 export interface DrugInteractionEntry {
@@ -180,6 +185,7 @@ export const COMPREHENSIVE_DRUG_INTERACTIONS: DrugInteractionEntry[] = [
   { drug1: 'sildenafil', drug2: 'riociguat', severity: 'major', effect: 'Severe hypotension', mechanism: 'Both increase cGMP via different pathways', management: 'CONTRAINDICATED', evidence: 'definitive', clinicalSignificance: 5 },
   { drug1: 'finasteride', drug2: 'saw_palmetto', severity: 'minor', effect: 'Additive 5-alpha reductase inhibition', mechanism: 'Both inhibit 5-alpha reductase enzyme', management: 'Generally safe. Monitor for enhanced antiandrogen effects', evidence: 'theoretical', clinicalSignificance: 1 },
   { drug1: 'terbinafine', drug2: 'caffeine', severity: 'minor', effect: 'Increased caffeine effects', mechanism: 'CYP1A2 inhibition', management: 'May notice increased caffeine sensitivity. No action usually needed', evidence: 'probable', clinicalSignificance: 1 },
+  { drug1: 'aspirin', drug2: 'ibuprofen', severity: 'moderate', effect: 'Reduced cardioprotective effect of low-dose aspirin', mechanism: 'Ibuprofen competitively blocks aspirin access to platelet COX-1', management: 'Take aspirin at least 30 minutes before ibuprofen, or use acetaminophen for pain', evidence: 'definitive', clinicalSignificance: 3 },
 ];
 
 // ===================== CONTRAINDICATION RULES (50+) =====================
@@ -192,6 +198,12 @@ export interface ContraindicationEntry {
   reason: string;
   alternatives: string[];
   evidenceSource: string;
+  exclude?: string[]; // generics the rule does not cover
+}
+
+/** True when the drug (any name form) falls under the contraindication and is not excluded from it */
+export function contraindicationCovers(entry: ContraindicationEntry, drug: string): boolean {
+  return DRUG_ONTOLOGY.matches(drug, entry.drug) && !entry.exclude?.includes(DRUG_ONTOLOGY.canonicalName(drug));
 }
 
 export const COMPREHENSIVE_CONTRAINDICATIONS: ContraindicationEntry[] = [
@@ -243,8 +255,8 @@ export const COMPREHENSIVE_CONTRAINDICATIONS: ContraindicationEntry[] = [
   { drug: 'corticosteroids (systemic)', condition: 'active untreated infections', type: 'absolute', severity: 'critical', reason: 'Immunosuppression will worsen infection — may be fatal with fungal/TB infections', alternatives: ['treat infection first, then consider corticosteroid if still needed'], evidenceSource: 'IDSA Guidelines' },
 
   // ===== PREGNANCY =====
-  { drug: 'ACE inhibitors', condition: 'pregnancy', type: 'pregnancy', severity: 'critical', reason: 'Category X — fetal renal agenesis, lung hypoplasia, death (especially 2nd/3rd trimester)', alternatives: ['labetalol', 'methyldopa', 'nifedipine'], evidenceSource: 'ACOG Hypertension in Pregnancy' },
-  { drug: 'ARBs', condition: 'pregnancy', type: 'pregnancy', severity: 'critical', reason: 'Same fetal toxicity as ACE inhibitors — Category X', alternatives: ['labetalol', 'methyldopa', 'nifedipine'], evidenceSource: 'ACOG' },
+  { drug: 'ACE inhibitors', condition: 'pregnancy (2nd/3rd trimester)', type: 'pregnancy', severity: 'critical', reason: 'Category X — fetal renal agenesis, lung hypoplasia, death. Switch as soon as pregnancy is recognised', alternatives: ['labetalol', 'methyldopa', 'nifedipine'], evidenceSource: 'ACOG Hypertension in Pregnancy' },
+  { drug: 'ARBs', condition: 'pregnancy (2nd/3rd trimester)', type: 'pregnancy', severity: 'critical', reason: 'Same fetal toxicity as ACE inhibitors — Category X', alternatives: ['labetalol', 'methyldopa', 'nifedipine'], evidenceSource: 'ACOG' },
   { drug: 'statins', condition: 'pregnancy', type: 'pregnancy', severity: 'critical', reason: 'Theoretical teratogenicity — cholesterol essential for fetal development', alternatives: ['cholestyramine if essential', 'diet modification'], evidenceSource: 'FDA Category X' },
   { drug: 'warfarin', condition: 'pregnancy (1st trimester)', type: 'pregnancy', severity: 'critical', reason: 'Warfarin embryopathy (weeks 6-12)', alternatives: ['LMWH'], evidenceSource: 'ACCP/ACOG' },
   { drug: 'isotretinoin', condition: 'pregnancy', type: 'pregnancy', severity: 'critical', reason: 'Severe birth defects — craniofacial, cardiac, CNS', alternatives: ['topical retinoids (with caution)', 'antibiotics for acne'], evidenceSource: 'FDA iPLEDGE Program' },
@@ -252,6 +264,8 @@ export const COMPREHENSIVE_CONTRAINDICATIONS: ContraindicationEntry[] = [
   { drug: 'finasteride', condition: 'pregnancy (contact)', type: 'pregnancy', severity: 'critical', reason: 'Anti-androgen effects cause male fetal genital abnormalities. Women should not handle crushed tablets', alternatives: ['minoxidil topical'], evidenceSource: 'FDA Category X' },
   { drug: 'valproic acid', condition: 'pregnancy', type: 'pregnancy', severity: 'critical', reason: 'Neural tube defects (1-2% risk), neurodevelopmental effects', alternatives: ['levetiracetam', 'lamotrigine'], evidenceSource: 'FDA/AAN/AES' },
   { drug: 'lithium', condition: 'pregnancy (1st trimester)', type: 'pregnancy', severity: 'high', reason: 'Ebstein anomaly (cardiac malformation) — risk ~1-2% vs 0.05% baseline', alternatives: ['lamotrigine for bipolar depression', 'antipsychotics for mania'], evidenceSource: 'APA Guidelines' },
+  { drug: 'NSAIDs', condition: 'pregnancy (3rd trimester)', type: 'pregnancy', severity: 'critical', reason: 'Premature closure of the ductus arteriosus; oligohydramnios from 20 weeks. Low-dose aspirin for preeclampsia prevention is the exception', alternatives: ['acetaminophen'], evidenceSource: 'FDA Drug Safety Communication 2020', exclude: ['aspirin'] },
+  { drug: 'GLP-1 agonists', condition: 'pregnancy', type: 'pregnancy', severity: 'high', reason: 'Fetal harm in animal studies; weight loss offers no benefit in pregnancy. Stop at least 2 months before a planned pregnancy', alternatives: ['lifestyle measures', 'insulin for glycemic control'], evidenceSource: 'FDA labeling' },
   { drug: 'doxycycline', condition: 'pregnancy', type: 'pregnancy', severity: 'high', reason: 'Tooth discoloration and bone growth inhibition in fetus', alternatives: ['amoxicillin', 'azithromycin'], evidenceSource: 'AAP/ACOG' },
 
   // ===== MISCELLANEOUS =====
@@ -532,84 +546,107 @@ export const COMPREHENSIVE_DOSAGE_GUIDELINES: DosageGuidelineEntry[] = [
 
 // ===================== ALLERGY CROSS-REACTIVITY GROUPS =====================
 
+/**
+ * A drug allergy to any primary allergen implies the others in the group
+ * (same class) and puts the cross-reactive drugs at the stated risk.
+ */
 export interface AllergyCrossReactivityGroup {
   groupName: string;
-  primaryAllergen: string;
+  primaryAllergens: string[];
   crossReactiveDrugs: string[];
   crossReactivityRate: string; // Approximate percentage
+  severity: 'high' | 'moderate' | 'low';
   recommendation: string;
 }
 
 export const ALLERGY_CROSS_REACTIVITY: AllergyCrossReactivityGroup[] = [
   {
-    groupName: 'Penicillin Class',
-    primaryAllergen: 'penicillin',
-    crossReactiveDrugs: ['amoxicillin', 'ampicillin', 'piperacillin', 'nafcillin', 'oxacillin', 'dicloxacillin', 'amoxicillin-clavulanate'],
-    crossReactivityRate: '~100% within class',
-    recommendation: 'Avoid all penicillins. Cephalosporin cross-reactivity is ~1-2% (mostly first-gen). Carbapenems cross-reactivity <1%. Aztreonam has no cross-reactivity.',
+    groupName: 'Penicillin / Beta-Lactam',
+    primaryAllergens: ['penicillin', 'amoxicillin', 'ampicillin', 'piperacillin', 'nafcillin', 'oxacillin', 'dicloxacillin', 'amoxicillin-clavulanate'],
+    crossReactiveDrugs: ['cephalexin', 'cefazolin', 'cefadroxil', 'ceftriaxone', 'cefepime', 'cefuroxime', 'cefdinir', 'cefpodoxime', 'imipenem', 'meropenem', 'ertapenem'],
+    crossReactivityRate: '1-10%',
+    severity: 'high',
+    recommendation: 'Avoid all penicillins. First-gen cephalosporins share the R1 side chain with amoxicillin/ampicillin and carry the highest risk; third/fourth-gen cephalosporins are generally tolerated. Graded challenge or skin testing recommended if the penicillin allergy was severe. Carbapenems <1% cross-reactivity; aztreonam has none.',
   },
   {
-    groupName: 'Penicillin → Cephalosporin',
-    primaryAllergen: 'penicillin',
-    crossReactiveDrugs: ['cephalexin', 'cefazolin', 'cefadroxil'],
-    crossReactivityRate: '1-2% for first-gen; <0.5% for third/fourth-gen',
-    recommendation: 'First-gen cephalosporins share R1 side chain with amoxicillin/ampicillin → higher risk. Third/fourth gen cephalosporins are generally safe. Skin testing recommended if severe penicillin allergy.',
+    groupName: 'Sulfonamide Antibiotics',
+    primaryAllergens: ['sulfa', 'sulfa antibiotics', 'sulfamethoxazole', 'trimethoprim-sulfamethoxazole', 'bactrim', 'septra', 'sulfasalazine'],
+    crossReactiveDrugs: ['sulfadiazine', 'silver sulfadiazine', 'dapsone', 'sulfacetamide'],
+    crossReactivityRate: '10-15%',
+    severity: 'moderate',
+    recommendation: 'Antibiotic sulfonamides should be avoided. The arylamine group that triggers the immune reaction is absent in non-antibiotic sulfonamides (furosemide, thiazides, celecoxib).',
   },
   {
-    groupName: 'Sulfonamide Antibiotics',
-    primaryAllergen: 'sulfa antibiotics',
-    crossReactiveDrugs: ['sulfamethoxazole', 'sulfasalazine', 'sulfadiazine', 'silver sulfadiazine'],
-    crossReactivityRate: '~100% within antibiotic sulfonamides',
-    recommendation: 'Cross-reactivity with non-antibiotic sulfonamides (furosemide, thiazides, celecoxib) is NOT confirmed. The arylamine group causes immune reaction in antibiotic sulfonamides and is absent in non-antibiotic sulfonamides.',
+    groupName: 'Sulfonamide → Non-Antibiotic Sulfonamides',
+    primaryAllergens: ['sulfa', 'sulfamethoxazole', 'bactrim'],
+    crossReactiveDrugs: ['furosemide', 'hydrochlorothiazide', 'celecoxib', 'sumatriptan', 'glipizide', 'glyburide'],
+    crossReactivityRate: '<2%',
+    severity: 'low',
+    recommendation: 'Very low cross-reactivity. Generally safe to use with monitoring. True sulfonamide allergy is to the arylamine group absent in these drugs.',
   },
   {
-    groupName: 'NSAIDs (COX inhibitors)',
-    primaryAllergen: 'aspirin',
-    crossReactiveDrugs: ['ibuprofen', 'naproxen', 'ketorolac', 'indomethacin', 'piroxicam', 'diclofenac', 'meloxicam'],
-    crossReactivityRate: '~20-30% cross-reactivity for aspirin-exacerbated respiratory disease',
-    recommendation: 'If aspirin allergy with respiratory symptoms (AERD), avoid ALL NSAIDs. COX-2 selective inhibitors (celecoxib) may be tolerated with challenge testing. Acetaminophen at <1g generally safe.',
+    groupName: 'NSAID',
+    primaryAllergens: ['aspirin', 'ibuprofen', 'naproxen', 'nsaid', 'ketorolac', 'indomethacin', 'piroxicam'],
+    crossReactiveDrugs: ['diclofenac', 'meloxicam', 'ketoprofen', 'flurbiprofen', 'etodolac', 'nabumetone'],
+    crossReactivityRate: '20-30% (COX-1 mediated)',
+    severity: 'high',
+    recommendation: 'If aspirin allergy with respiratory symptoms (AERD), avoid ALL NSAIDs. COX-2 selective NSAIDs (celecoxib) have low cross-reactivity (~4%) and may be tolerated with challenge testing. Acetaminophen is generally safe at standard doses.',
   },
   {
-    groupName: 'Local Anesthetics — Ester Type',
-    primaryAllergen: 'procaine',
-    crossReactiveDrugs: ['benzocaine', 'tetracaine', 'cocaine'],
-    crossReactivityRate: '~100% within ester group',
-    recommendation: 'True allergy is to PABA metabolite. Cross-reactivity within ester group is possible. Amide local anesthetics (lidocaine, bupivacaine) do NOT cross-react with esters.',
+    groupName: 'Opioid',
+    primaryAllergens: ['morphine', 'codeine', 'hydrocodone', 'oxycodone'],
+    crossReactiveDrugs: ['hydromorphone', 'oxymorphone', 'tramadol', 'fentanyl', 'methadone', 'meperidine', 'tapentadol'],
+    crossReactivityRate: 'Variable (structural similarity)',
+    severity: 'moderate',
+    recommendation: 'True opioid allergy is rare; most reactions are pseudo-allergic (histamine release causing itching/nausea). Fentanyl and methadone are structurally dissimilar and may be tolerated.',
   },
   {
-    groupName: 'Fluoroquinolone Class',
-    primaryAllergen: 'ciprofloxacin',
-    crossReactiveDrugs: ['levofloxacin', 'moxifloxacin', 'ofloxacin', 'norfloxacin', 'gemifloxacin'],
-    crossReactivityRate: '~50-70% within class',
-    recommendation: 'If true IgE-mediated allergy to one fluoroquinolone, avoid all fluoroquinolones. Use alternative antibiotic class.',
+    groupName: 'ACE Inhibitor Angioedema',
+    primaryAllergens: ['lisinopril', 'enalapril', 'ramipril', 'captopril', 'benazepril', 'fosinopril', 'quinapril', 'perindopril'],
+    crossReactiveDrugs: ['trandolapril', 'moexipril'],
+    crossReactivityRate: 'Class-wide (~100%)',
+    severity: 'high',
+    recommendation: 'All ACE inhibitors are contraindicated after angioedema. ARBs carry a small cross-reactivity risk for angioedema; use with extreme caution or avoid. Direct renin inhibitors are an option.',
   },
   {
-    groupName: 'Opioid Class (Morphine-type)',
-    primaryAllergen: 'morphine',
-    crossReactiveDrugs: ['codeine', 'hydromorphone', 'hydrocodone', 'oxycodone', 'oxymorphone'],
-    crossReactivityRate: 'Variable; histamine release common (not true allergy)',
-    recommendation: 'Distinguish between true allergy (anaphylaxis) and pseudo-allergy (histamine release causing itching/nausea). For true morphine allergy, fentanyl and methadone have different structures and may be safe.',
+    groupName: 'Fluoroquinolone',
+    primaryAllergens: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin', 'ofloxacin'],
+    crossReactiveDrugs: ['gemifloxacin', 'delafloxacin', 'norfloxacin'],
+    crossReactivityRate: '~10%',
+    severity: 'moderate',
+    recommendation: 'If true IgE-mediated allergy to one fluoroquinolone, avoid all fluoroquinolones. Alternatives: azithromycin, doxycycline, or amoxicillin depending on indication.',
   },
   {
-    groupName: 'ACE Inhibitor Angioedema',
-    primaryAllergen: 'lisinopril',
-    crossReactiveDrugs: ['enalapril', 'ramipril', 'benazepril', 'captopril', 'fosinopril', 'quinapril', 'perindopril'],
-    crossReactivityRate: '~100% within ACE inhibitor class',
-    recommendation: 'If ACE inhibitor-induced angioedema, ALL ACE inhibitors are contraindicated. ARBs have ~1-2% cross-reactivity but can be used with monitoring. Direct renin inhibitors are an option.',
+    groupName: 'Local Anesthetics (Amide)',
+    primaryAllergens: ['lidocaine', 'bupivacaine', 'mepivacaine', 'prilocaine', 'ropivacaine'],
+    crossReactiveDrugs: ['articaine', 'etidocaine'],
+    crossReactivityRate: '<1% (usually preservative allergy)',
+    severity: 'low',
+    recommendation: 'True allergy to amide local anesthetics is extremely rare. Reactions are usually vasovagal or due to epinephrine/preservatives. Ester class (procaine) can be substituted.',
+  },
+  {
+    groupName: 'Local Anesthetics (Ester)',
+    primaryAllergens: ['procaine'],
+    crossReactiveDrugs: ['benzocaine', 'tetracaine', 'chloroprocaine'],
+    crossReactivityRate: '~100% within ester group',
+    severity: 'moderate',
+    recommendation: 'True allergy is to the PABA metabolite, shared by all esters. Amide local anesthetics (lidocaine, bupivacaine) do NOT cross-react with esters.',
   },
   {
-    groupName: 'Contrast Dye',
-    primaryAllergen: 'iodinated contrast',
-    crossReactiveDrugs: ['iohexol', 'iopamidol', 'ioversol', 'iodixanol'],
-    crossReactivityRate: 'Non-ionic agents have lower risk than ionic agents',
-    recommendation: 'Previous contrast reaction: premedicate with prednisone 50mg 13h, 7h, 1h before + diphenhydramine 50mg 1h before. NOT a true iodine allergy — no cross-reactivity with povidone-iodine or seafood.',
+    groupName: 'Statin',
+    primaryAllergens: ['atorvastatin', 'simvastatin', 'lovastatin', 'rosuvastatin', 'pravastatin', 'fluvastatin'],
+    crossReactiveDrugs: ['pitavastatin'],
+    crossReactivityRate: 'Variable (myopathy risk)',
+    severity: 'moderate',
+    recommendation: 'Statin intolerance (myopathy) varies by agent; CYP3A4-metabolized statins share the highest risk. Try pravastatin/fluvastatin, a lower dose, or alternate-day dosing with a long-acting statin.',
   },
   {
-    groupName: 'Statin Myopathy',
-    primaryAllergen: 'simvastatin',
-    crossReactiveDrugs: ['lovastatin', 'atorvastatin'],
-    crossReactivityRate: 'CYP3A4-metabolized statins share risk. Pravastatin/rosuvastatin are alternatives',
-    recommendation: 'If statin myopathy: try pravastatin (minimal CYP metabolism), rosuvastatin, or fluvastatin. Alternatively, use every-other-day dosing with long-acting statins.',
+    groupName: 'Iodinated Contrast Media',
+    primaryAllergens: ['contrast dye', 'iodine contrast', 'iodinated contrast', 'ct contrast', 'iv contrast'],
+    crossReactiveDrugs: ['iopamidol', 'iohexol', 'iodixanol', 'ioversol'],
+    crossReactivityRate: '~10-35% re-reaction',
+    severity: 'high',
+    recommendation: 'Premedicate with corticosteroids and antihistamines (prednisone 50mg 13h, 7h and 1h before + diphenhydramine 50mg 1h before). Use non-ionic, low/iso-osmolar contrast. Not a true iodine allergy — no cross-reactivity with povidone-iodine or seafood.',
   },
 ];
 
@@ -621,44 +658,39 @@ export const MEDICAL_KNOWLEDGE_BASE = {
   dosageGuidelines: COMPREHENSIVE_DOSAGE_GUIDELINES,
   allergyCrossReactivity: ALLERGY_CROSS_REACTIVITY,
   
-  /** Search interactions by drug name */
+  /** Search interactions by drug name, brand name or class */
   findInteractions(drugName: string): DrugInteractionEntry[] {
-    const normalized = drugName.toLowerCase().trim();
     return this.drugInteractions.filter(
-      i => i.drug1.toLowerCase().includes(normalized) || i.drug2.toLowerCase().includes(normalized)
+      i => DRUG_ONTOLOGY.matches(drugName, i.drug1) || DRUG_ONTOLOGY.matches(drugName, i.drug2)
     );
   },
   
-  /** Search contraindications by drug or condition */
+  /** Search contraindications by drug (any name form or class) or condition */
   findContraindications(query: string): ContraindicationEntry[] {
     const normalized = query.toLowerCase().trim();
     return this.contraindications.filter(
-      c => c.drug.toLowerCase().includes(normalized) || c.condition.toLowerCase().includes(normalized)
+      c => contraindicationCovers(c, query) || c.condition.toLowerCase().includes(normalized)
     );
   },
   
-  /** Get dosage guideline for a drug */
+  /** Get dosage guideline for a drug (brand names resolve to the generic) */
   findDosageGuideline(drugName: string): DosageGuidelineEntry | undefined {
-    const normalized = drugName.toLowerCase().trim();
-    return this.dosageGuidelines.find(d => d.drug.toLowerCase() === normalized);
+    const canonical = DRUG_ONTOLOGY.canonicalName(drugName);
+    return this.dosageGuidelines.find(d => DRUG_ONTOLOGY.canonicalName(d.drug) === canonical);
   },
   
   /** Check cross-reactivity for an allergen */
   checkCrossReactivity(allergen: string): AllergyCrossReactivityGroup[] {
-    const normalized = allergen.toLowerCase().trim();
     return this.allergyCrossReactivity.filter(
-      g => g.primaryAllergen.toLowerCase().includes(normalized) ||
-           g.crossReactiveDrugs.some(d => d.toLowerCase().includes(normalized))
+      g => g.primaryAllergens.some(a => DRUG_ONTOLOGY.matches(allergen, a)) ||
+           g.crossReactiveDrugs.some(d => DRUG_ONTOLOGY.matches(allergen, d))
     );
   },
   
   /** Check for interactions between two specific drugs */
   checkDrugPair(drug1: string, drug2: string): DrugInteractionEntry | undefined {
-    const d1 = drug1.toLowerCase().trim();
-    const d2 = drug2.toLowerCase().trim();
     return this.drugInteractions.find(
-      i => (i.drug1.toLowerCase().includes(d1) && i.drug2.toLowerCase().includes(d2)) ||
-           (i.drug1.toLowerCase().includes(d2) && i.drug2.toLowerCase().includes(d1))
+      i => DRUG_ONTOLOGY.matchesPair(drug1, drug2, i.drug1, i.drug2)
     );
   },
   
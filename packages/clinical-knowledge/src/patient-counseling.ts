@@ -0,0 +1,63 @@
+/**
+ * Patient Counseling
+ *
+ * Plain-language advice for patient handouts: what to stay away from while
+ * taking a drug, the signs that mean "call your doctor", and the signs that
+ * mean "get help right away". Text is written for roughly a 6th-grade reading
+ * level, in short sentences that name brands patients recognize. Rules are
+ * keyed by drug class or generic and matched through the drug ontology.
+ */
+
+import { DRUG_ONTOLOGY } from './drug-ontology';
+
+export interface PatientCounselingRule {
+  id: string;
+  appliesTo: string[]; // drug classes or generics
+  exclude?: string[]; // generics the rule does not cover
+  avoid: string[];
+  callDoctor: string[];
+  emergency: string[];
+  evidenceSource: string;
+}
+
+export const PATIENT_COUNSELING_RULES: PatientCounselingRule[] = [
+  { id: 'raas-blockers', appliesTo: ['ace-inhibitors', 'arbs'], avoid: ['Salt substitutes and potassium pills, unless your doctor says they are OK', 'Pain pills like ibuprofen (Advil, Motrin) or naproxen (Aleve)'], callDoctor: ['You feel dizzy or faint when you stand up'], emergency: [], evidenceSource: 'FDA labeling' },
+  { id: 'ace-inhibitor-cough', appliesTo: ['ace-inhibitors'], avoid: [], callDoctor: ['A dry cough that does not go away'], emergency: ['Swelling of your face, lips, tongue or throat, even months after you start'], evidenceSource: 'FDA labeling' },
+  { id: 'potassium-sparing-diuretics', appliesTo: ['potassium-sparing-diuretics'], avoid: ['Salt substitutes and potassium pills, unless your doctor says they are OK'], callDoctor: ['Muscle weakness', 'A slow or uneven heartbeat'], emergency: [], evidenceSource: 'FDA labeling' },
+  { id: 'diuretics', appliesTo: ['loop-diuretics', 'thiazide-diuretics'], avoid: [], callDoctor: ['Muscle cramps', 'You feel very thirsty or dizzy'], emergency: [], evidenceSource: 'FDA labeling' },
+  { id: 'beta-blockers', appliesTo: ['beta-blockers'], avoid: ['Stopping this medicine all at once. Ask your doctor how to stop it slowly'], callDoctor: ['A very slow heartbeat', 'You feel tired, dizzy or faint'], emergency: ['Chest pain'], evidenceSource: 'FDA labeling' },
+  { id: 'statins', appliesTo: ['statins'], avoid: ['More than one small glass of grapefruit juice a day'], callDoctor: ['Muscle pain, soreness or weakness you cannot explain', 'Dark, tea-colored urine'], emergency: [], evidenceSource: 'FDA labeling' },
+  { id: 'bleeding-risk', appliesTo: ['anticoagulants', 'antiplatelets'], exclude: ['aspirin'], avoid: ['Pain pills like ibuprofen (Advil, Motrin), naproxen (Aleve) or aspirin, unless your doctor says so', 'Herbal products like ginkgo, fish oil or turmeric, unless your doctor says so'], callDoctor: ['Bleeding gums or nosebleeds', 'Bruises you cannot explain'], emergency: ['Red or black, tarry stools', 'Throwing up blood or something that looks like coffee grounds', 'A sudden, very bad headache'], evidenceSource: 'CHEST Guidelines / FDA labeling' },
+  { id: 'aspirin', appliesTo: ['aspirin'], avoid: ['Other pain pills like ibuprofen (Advil, Motrin) or naproxen (Aleve), unless your doctor says so', 'Herbal products like ginkgo, fish oil or turmeric, unless your doctor says so'], callDoctor: ['Bleeding gums or nosebleeds', 'Bruises you cannot explain'], emergency: ['Red or black, tarry stools', 'Throwing up blood or something that looks like coffee grounds', 'A sudden, very bad headache'], evidenceSource: 'FDA labeling' },
+  { id: 'warfarin', appliesTo: ['warfarin'], avoid: ['Big changes in how many leafy green vegetables you eat', 'Starting or stopping any medicine, including antibiotics, without telling the clinic that checks your INR'], callDoctor: [], emergency: [], evidenceSource: 'CHEST Guidelines' },
+  { id: 'nsaids', appliesTo: ['nsaids'], avoid: ['Taking it on an empty stomach', 'Other pain pills with ibuprofen or naproxen in them', 'Drinking alcohol'], callDoctor: ['Stomach pain or heartburn that does not go away', 'Swelling in your legs or feet'], emergency: ['Black or bloody stools', 'Chest pain or trouble breathing'], evidenceSource: 'FDA labeling / AGS Beers Criteria 2023' },
+  { id: 'opioids', appliesTo: ['opioids'], avoid: ['Drinking alcohol', 'Sleeping pills or anxiety medicines, unless your doctor says so', 'Driving until you know how this medicine affects you'], callDoctor: ['No bowel movement for 3 days'], emergency: ['Very slow or shallow breathing', 'You cannot stay awake'], evidenceSource: 'CDC Opioid Prescribing Guideline 2022' },
+  { id: 'sedative-hypnotics', appliesTo: ['sedative-hypnotics'], avoid: ['Drinking alcohol', 'Driving until you know how this medicine affects you'], callDoctor: ['Feeling sleepy or unsteady during the day'], emergency: ['Very slow or shallow breathing'], evidenceSource: 'AGS Beers Criteria 2023' },
+  { id: 'serotonergic-antidepressants', appliesTo: ['ssris', 'snris'], avoid: ['Other medicines for depression or migraine, unless your doctor says so', "St. John's wort"], callDoctor: ['Feeling restless, shaky or sweaty', 'Mood changes that worry you or your family'], emergency: ['Thoughts of hurting yourself'], evidenceSource: 'FDA labeling' },
+  { id: 'maois', appliesTo: ['maois'], avoid: ['Aged cheese, cured meats, soy sauce and tap beer', 'Cold medicines, unless your pharmacist says they are OK'], callDoctor: [], emergency: ['A sudden, very bad headache with a pounding heart'], evidenceSource: 'FDA labeling' },
+  { id: 'lithium', appliesTo: ['lithium'], avoid: ['Getting dried out. Drink water when it is hot or when you exercise', 'Pain pills like ibuprofen (Advil, Motrin) or naproxen (Aleve)'], callDoctor: ['Shaky hands, throwing up or diarrhea'], emergency: ['Confusion or trouble walking'], evidenceSource: 'FDA labeling' },
+  { id: 'metformin', appliesTo: ['metformin'], avoid: ['Drinking a lot of alcohol'], callDoctor: ['An upset stomach that does not go away'], emergency: ['Fast breathing with muscle pain, and feeling very weak or cold'], evidenceSource: 'FDA labeling' },
+  { id: 'hypoglycemia', appliesTo: ['sulfonylureas', 'insulins'], avoid: ['Skipping meals'], callDoctor: ['Low blood sugar: shaking, sweating, feeling hungry or confused'], emergency: ['Passing out or a seizure'], evidenceSource: 'ADA Standards of Care' },
+  { id: 'corticosteroids', appliesTo: ['corticosteroids'], avoid: ['Stopping this medicine all at once, unless your doctor says so'], callDoctor: ['Feeling very thirsty or peeing a lot', 'A fever or other sign of infection'], emergency: [], evidenceSource: 'FDA labeling' },
+  { id: 'fluoroquinolones', appliesTo: ['fluoroquinolones'], avoid: ['Antacids, iron or calcium within 2 hours of your dose'], callDoctor: ['Pain or swelling in a tendon, like the back of your ankle'], emergency: [], evidenceSource: 'FDA boxed warning' },
+  { id: 'metronidazole', appliesTo: ['metronidazole'], avoid: ['Drinking alcohol while you take it and for 3 days after'], callDoctor: [], emergency: [], evidenceSource: 'FDA labeling' },
+  { id: 'pde5-inhibitors', appliesTo: ['pde5-inhibitors'], avoid: ['Nitrate medicines for chest pain, like nitroglycerin'], callDoctor: [], emergency: ['An erection that lasts more than 4 hours', 'Chest pain'], evidenceSource: 'FDA labeling' },
+];
+
+/** Printed on every handout, whatever the medicine */
+export const GENERAL_EMERGENCY_SIGNS = [
+  'Swelling of your face, lips, tongue or throat',
+  'Trouble breathing',
+  'A rash with blisters or peeling skin',
+];
+
+/** Counseling rules that apply to a drug, by any name the ontology knows. */
+export function findPatientCounseling(
+  drug: string,
+  rules: PatientCounselingRule[] = PATIENT_COUNSELING_RULES,
+): PatientCounselingRule[] {
+  const generic = DRUG_ONTOLOGY.canonicalName(drug);
+  return rules.filter(rule =>
+    !rule.exclude?.includes(generic) && rule.appliesTo.some(term => DRUG_ONTOLOGY.matches(drug, term)),
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * Pediatric Dosing
+ *
+ * Structured dosing rules for patients under 18: a mg/kg or mg/m² dose with
+ * per-dose and per-day caps, or fixed doses by weight or age band, plus the
+ * minimum age below which a drug must not be given. Rules without any dosing are
+ * adult-only — there is no pediatric dose to calculate.
+ */
+
+import { DRUG_ONTOLOGY } from './drug-ontology';
+
+/** Patients younger than this are dosed from the pediatric rules */
+export const PEDIATRIC_AGE_LIMIT = 18;
+
+export type PediatricRestrictionSeverity = 'critical' | 'high';
+
+/** A fixed dose for patients inside the band; bounds are [min, max) */
+export interface PediatricDoseBand {
+  minAgeYears?: number;
+  maxAgeYears?: number;
+  minWeightKg?: number;
+  maxWeightKg?: number;
+  doseMg: number;
+}
+
+export interface PediatricDosingRule {
+  drug: string; // generic or class
+  minAgeYears: number;
+  underAgeSeverity?: PediatricRestrictionSeverity; // defaults to high
+  underAgeReason?: string;
+  alternatives?: string[];
+  mgPerKgPerDose?: number;
+  mgPerM2PerDose?: number;
+  bands?: PediatricDoseBand[];
+  dosesPerDay?: number;
+  frequency?: string;
+  maxPerDoseMg?: number;
+  maxPerDayMg?: number;
+  maxMgPerKgPerDay?: number;
+  note?: string;
+  evidenceSource: string;
+}
+
+export const PEDIATRIC_DOSING_RULES: PediatricDosingRule[] = [
+  // Weight-based
+  { drug: 'acetaminophen', minAgeYears: 0, mgPerKgPerDose: 15, dosesPerDay: 4, frequency: 'every 6 hours as needed', maxPerDoseMg: 1000, maxPerDayMg: 4000, maxMgPerKgPerDay: 75, evidenceSource: 'AAP / FDA labeling' },
+  { drug: 'ibuprofen', minAgeYears: 0.5, underAgeSeverity: 'high', underAgeReason: 'Not established under 6 months; immature renal function', alternatives: ['acetaminophen'], mgPerKgPerDose: 10, dosesPerDay: 4, frequency: 'every 6-8 hours as needed', maxPerDoseMg: 400, maxPerDayMg: 2400, maxMgPerKgPerDay: 40, evidenceSource: 'AAP / FDA labeling' },
+  { drug: 'amoxicillin', minAgeYears: 0, mgPerKgPerDose: 45, dosesPerDay: 2, frequency: 'every 12 hours', maxPerDoseMg: 2000, maxPerDayMg: 4000, note: 'High-dose regimen for acute otitis media and pneumonia; 25 mg/kg/dose for other infections', evidenceSource: 'AAP AOM Guideline 2013' },
+  { drug: 'azithromycin', minAgeYears: 0.5, underAgeSeverity: 'high', underAgeReason: 'Not established under 6 months outside pertussis', alternatives: ['amoxicillin'], mgPerKgPerDose: 10, dosesPerDay: 1, frequency: 'once daily', maxPerDoseMg: 500, maxPerDayMg: 500, note: '10 mg/kg on day 1, then 5 mg/kg on days 2-5', evidenceSource: 'FDA labeling' },
+  { drug: 'prednisone', minAgeYears: 0, mgPerKgPerDose: 1, dosesPerDay: 1, frequency: 'once daily', maxPerDoseMg: 60, maxPerDayMg: 60, note: 'Asthma exacerbation: 1-2 mg/kg/day for 3-5 days', evidenceSource: 'NAEPP EPR-3' },
+  { drug: 'gabapentin', minAgeYears: 3, underAgeSeverity: 'high', underAgeReason: 'Not established under 3 years; neuropsychiatric adverse events in young children', alternatives: ['levetiracetam'], mgPerKgPerDose: 5, dosesPerDay: 3, frequency: 'three times daily', maxPerDoseMg: 1200, maxPerDayMg: 3600, note: 'Starting dose; titrate over 3 days to 25-35 mg/kg/day', evidenceSource: 'FDA labeling' },
+  { drug: 'levetiracetam', minAgeYears: 0.1, underAgeSeverity: 'high', underAgeReason: 'Not established under 1 month', alternatives: ['phenobarbital under neurology guidance'], mgPerKgPerDose: 10, dosesPerDay: 2, frequency: 'every 12 hours', maxPerDoseMg: 1500, maxPerDayMg: 3000, note: 'Starting dose; increase by 10 mg/kg/dose every 2 weeks to 30 mg/kg/dose', evidenceSource: 'FDA labeling' },
+
+  // Body surface area
+  { drug: 'mercaptopurine', minAgeYears: 0, mgPerM2PerDose: 75, dosesPerDay: 1, frequency: 'once daily in the evening', note: 'ALL maintenance under pediatric oncology; titrate to blood counts and reduce for TPMT or NUDT15 poor metabolizers', evidenceSource: 'COG ALL maintenance / FDA labeling' },
+
+  // Weight bands
+  { drug: 'omeprazole', minAgeYears: 1, underAgeSeverity: 'high', underAgeReason: 'Not established under 1 year', alternatives: ['feeding modifications', 'famotidine'], bands: [{ minWeightKg: 5, maxWeightKg: 10, doseMg: 5 }, { minWeightKg: 10, maxWeightKg: 20, doseMg: 10 }, { minWeightKg: 20, doseMg: 20 }], dosesPerDay: 1, frequency: 'once daily', maxPerDayMg: 20, evidenceSource: 'FDA labeling' },
+
+  // Age bands
+  { drug: 'albuterol', minAgeYears: 2, underAgeSeverity: 'high', underAgeReason: 'Nebulized dosing not established under 2 years', alternatives: ['supportive care for bronchiolitis'], bands: [{ minAgeYears: 2, maxAgeYears: 5, doseMg: 1.25 }, { minAgeYears: 5, doseMg: 2.5 }], dosesPerDay: 4, frequency: 'nebulized every 4-6 hours as needed', maxPerDoseMg: 2.5, evidenceSource: 'NAEPP EPR-3' },
+  { drug: 'sertraline', minAgeYears: 6, underAgeSeverity: 'high', underAgeReason: 'Not established under 6 years', alternatives: ['cognitive behavioral therapy'], bands: [{ minAgeYears: 6, maxAgeYears: 13, doseMg: 25 }, { minAgeYears: 13, doseMg: 50 }], dosesPerDay: 1, frequency: 'once daily', maxPerDayMg: 200, note: 'Boxed warning: suicidality in children and adolescents', evidenceSource: 'FDA labeling (pediatric OCD)' },
+  { drug: 'escitalopram', minAgeYears: 12, underAgeSeverity: 'high', underAgeReason: 'Not established under 12 years', alternatives: ['fluoxetine', 'cognitive behavioral therapy'], bands: [{ minAgeYears: 12, doseMg: 10 }], dosesPerDay: 1, frequency: 'once daily', maxPerDayMg: 20, note: 'Boxed warning: suicidality in children and adolescents', evidenceSource: 'FDA labeling (adolescent MDD)' },
+  { drug: 'metformin', minAgeYears: 10, underAgeSeverity: 'high', underAgeReason: 'Not established under 10 years', alternatives: ['insulin', 'lifestyle intervention'], bands: [{ minAgeYears: 10, doseMg: 500 }], dosesPerDay: 2, frequency: 'twice daily with meals', maxPerDayMg: 2000, evidenceSource: 'FDA labeling / ADA Standards of Care' },
+
+  // Age minimums
+  { drug: 'codeine', minAgeYears: 12, underAgeSeverity: 'critical', underAgeReason: 'Ultrarapid CYP2D6 metabolism has caused fatal respiratory depression in children', alternatives: ['acetaminophen', 'ibuprofen'], evidenceSource: 'FDA Contraindication 2017' },
+  { drug: 'tramadol', minAgeYears: 12, underAgeSeverity: 'critical', underAgeReason: 'Life-threatening respiratory depression in children', alternatives: ['acetaminophen', 'ibuprofen'], evidenceSource: 'FDA Contraindication 2017' },
+  { drug: 'aspirin', minAgeYears: 16, underAgeSeverity: 'high', underAgeReason: 'Risk of Reye syndrome during viral illness', alternatives: ['acetaminophen', 'ibuprofen'], note: 'Kawasaki disease is the exception, under specialist care', evidenceSource: 'MHRA / AAP' },
+
+  // Adult-only
+  { drug: 'fluoroquinolones', minAgeYears: 18, underAgeSeverity: 'high', underAgeReason: 'Arthropathy and tendon injury in growing patients; reserved for complicated UTI or anthrax', alternatives: ['amoxicillin', 'cephalexin', 'azithromycin'], evidenceSource: 'FDA Boxed Warning / AAP' },
+  { drug: '5-alpha-reductase-inhibitors', minAgeYears: 18, underAgeSeverity: 'critical', underAgeReason: 'Not indicated in children; antiandrogen effects on development', alternatives: ['specialist referral'], evidenceSource: 'FDA labeling' },
+  { drug: 'pde5-inhibitors', minAgeYears: 18, underAgeSeverity: 'critical', underAgeReason: 'Erectile dysfunction and BPH indications are adult-only; chronic pediatric sildenafil increased mortality', alternatives: ['specialist referral'], note: 'Pediatric pulmonary hypertension is managed by specialists outside these rules', evidenceSource: 'FDA Drug Safety Communication 2012' },
+  { drug: 'glipizide', minAgeYears: 18, underAgeSeverity: 'high', underAgeReason: 'Safety and effectiveness not established in children', alternatives: ['metformin', 'insulin'], evidenceSource: 'FDA labeling' },
+  { drug: 'apixaban', minAgeYears: 18, underAgeSeverity: 'high', underAgeReason: 'No validated pediatric dosing outside clinical trials', alternatives: ['enoxaparin under pediatric hematology'], evidenceSource: 'FDA labeling' },
+];
+
+/** First rule written for the drug or one of its classes */
+export function findPediatricDosingRule(drugName: string): PediatricDosingRule | undefined {
+  return PEDIATRIC_DOSING_RULES.find(rule => DRUG_ONTOLOGY.matches(drugName, rule.drug));
+}
+
+export function isAdultOnly(rule: PediatricDosingRule): boolean {
+  return rule.mgPerKgPerDose === undefined && rule.mgPerM2PerDose === undefined && !rule.bands?.length
+    && rule.minAgeYears >= PEDIATRIC_AGE_LIMIT;
+}
+
+/**
+ * Ages are whole years, so age 0 covers every infant: minimums of a few
+ * months cannot be checked against it and are left to the prescriber.
+ */
+export function isBelowMinimumAge(rule: PediatricDosingRule, ageYears: number): boolean {
+  return ageYears < rule.minAgeYears && !(ageYears === 0 && rule.minAgeYears < 1);
+}
+
+export interface PediatricPatient {
+  ageYears: number;
+  weightKg: number;
+  bsaM2?: number; // needed for mg/m² rules
+}
+
+export interface PediatricDose {
+  doseMg: number;
+  dosesPerDay: number;
+  dailyDoseMg: number;
+  frequency: string;
+  basis: 'weight' | 'bsa' | 'weight-band' | 'age-band';
+  cappedAt?: 'max-per-dose' | 'max-per-day';
+  calculation: string; // e.g. "15 mg/kg × 12 kg = 180 mg"
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function inBand(band: PediatricDoseBand, patient: PediatricPatient): boolean {
+  return (band.minAgeYears === undefined || patient.ageYears >= band.minAgeYears) &&
+    (band.maxAgeYears === undefined || patient.ageYears < band.maxAgeYears) &&
+    (band.minWeightKg === undefined || patient.weightKg >= band.minWeightKg) &&
+    (band.maxWeightKg === undefined || patient.weightKg < band.maxWeightKg);
+}
+
+/** A dose before the rule's caps are applied */
+export type PediatricBaseDose = Pick<PediatricDose, 'doseMg' | 'basis' | 'calculation'>;
+
+// Null outside every band, or without the BSA a mg/m² rule needs
+function baseDose(rule: PediatricDosingRule, patient: PediatricPatient): PediatricBaseDose | null {
+  if (rule.mgPerKgPerDose !== undefined) {
+    const doseMg = rule.mgPerKgPerDose * patient.weightKg;
+    return { doseMg, basis: 'weight', calculation: `${rule.mgPerKgPerDose} mg/kg × ${patient.weightKg} kg = ${round(doseMg)} mg` };
+  }
+  if (rule.mgPerM2PerDose !== undefined) {
+    if (!patient.bsaM2) return null;
+    const doseMg = rule.mgPerM2PerDose * patient.bsaM2;
+    return { doseMg, basis: 'bsa', calculation: `${rule.mgPerM2PerDose} mg/m² × ${patient.bsaM2} m² = ${round(doseMg)} mg` };
+  }
+  const band = rule.bands?.find(b => inBand(b, patient));
+  if (!band) return null;
+  const basis = band.minWeightKg !== undefined || band.maxWeightKg !== undefined ? 'weight-band' : 'age-band';
+  return { doseMg: band.doseMg, basis, calculation: `${basis === 'weight-band' ? 'Weight' : 'Age'} band dose ${band.doseMg} mg` };
+}
+
+/**
+ * Dose per administration for a child, capped by the rule's per-dose and
+ * per-day maximums. Returns null when the rule has no dosing for this patient
+ * — adult-only drugs, patients under the minimum age, or outside every band.
+ * Callers that size the dose themselves (e.g. from an adjusted weight) pass
+ * it as `base` and still get the caps.
+ */
+export function calculatePediatricDose(
+  rule: PediatricDosingRule,
+  patient: PediatricPatient,
+  base: PediatricBaseDose | null = baseDose(rule, patient),
+): PediatricDose | null {
+  if (isAdultOnly(rule) || isBelowMinimumAge(rule, patient.ageYears) || patient.weightKg <= 0 || !base) return null;
+  const dosesPerDay = rule.dosesPerDay ?? 1;
+  const { basis, calculation } = base;
+  let doseMg = base.doseMg;
+
+  let cappedAt: PediatricDose['cappedAt'];
+  if (rule.maxPerDoseMg !== undefined && doseMg > rule.maxPerDoseMg) {
+    doseMg = rule.maxPerDoseMg;
+    cappedAt = 'max-per-dose';
+  }
+  const dailyCaps = [
+    rule.maxPerDayMg,
+    rule.maxMgPerKgPerDay === undefined ? undefined : rule.maxMgPerKgPerDay * patient.weightKg,
+  ].filter((cap): cap is number => cap !== undefined);
+  const maxPerDay = dailyCaps.length > 0 ? Math.min(...dailyCaps) : undefined;
+  if (maxPerDay !== undefined && doseMg * dosesPerDay > maxPerDay) {
+    doseMg = maxPerDay / dosesPerDay;
+    cappedAt = 'max-per-day';
+  }
+
+  doseMg = round(doseMg);
+  return {
+    doseMg,
+    dosesPerDay,
+    dailyDoseMg: round(doseMg * dosesPerDay),
+    frequency: rule.frequency ?? 'once daily',
+    basis,
+    ...(cappedAt && { cappedAt }),
+    calculation,
+  };
+}
+
+export interface PediatricAgeFinding {
+  drug: string;
+  rule: string;
+  minAgeYears: number;
+  adultOnly: boolean;
+  severity: PediatricRestrictionSeverity;
+  reason: string;
+  alternatives: string[];
+  evidenceSource: string;
+}
+
+/** Drugs the patient is too young for; empty for adults */
+export function evaluatePediatricRestrictions(ageYears: number, drugs: string[]): PediatricAgeFinding[] {
+  if (ageYears >= PEDIATRIC_AGE_LIMIT) return [];
+  const findings: PediatricAgeFinding[] = [];
+  for (const drug of drugs) {
+    const rule = findPediatricDosingRule(drug);
+    if (!rule || !isBelowMinimumAge(rule, ageYears)) continue;
+    findings.push({
+      drug,
+      rule: rule.drug,
+      minAgeYears: rule.minAgeYears,
+      adultOnly: isAdultOnly(rule),
+      severity: rule.underAgeSeverity ?? 'high',
+      reason: rule.underAgeReason ?? `Not established under ${rule.minAgeYears} years`,
+      alternatives: rule.alternatives ?? [],
+      evidenceSource: rule.evidenceSource,
+    });
+  }
+  return findings;
+}
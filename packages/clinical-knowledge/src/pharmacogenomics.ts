@@ -0,0 +1,249 @@
+/**
+ * Pharmacogenomics
+ *
+ * Genotype-derived phenotypes for the genes with actionable CPIC guidance,
+ * and the gene–drug rules that turn them into prescribing advice. A gene that
+ * was not tested is simply absent from the profile; rules never fire on a
+ * missing phenotype.
+ */
+
+import { DRUG_ONTOLOGY } from './drug-ontology';
+
+export type MetabolizerPhenotype = 'ultrarapid' | 'rapid' | 'normal' | 'intermediate' | 'poor';
+export type Vkorc1Genotype = 'GG' | 'GA' | 'AA'; // -1639G>A
+export type TransporterFunction = 'normal' | 'decreased' | 'poor';
+export type HlaCarrierStatus = 'positive' | 'negative';
+
+export interface PharmacogenomicProfile {
+  cyp2c9?: MetabolizerPhenotype;
+  cyp2c19?: MetabolizerPhenotype;
+  cyp2d6?: MetabolizerPhenotype;
+  vkorc1?: Vkorc1Genotype;
+  slco1b1?: TransporterFunction;
+  hlaB5701?: HlaCarrierStatus;
+  hlaB1502?: HlaCarrierStatus;
+  testedAt?: string; // ISO date of the genotyping report
+}
+
+export type PharmacogenomicGene = Exclude<keyof PharmacogenomicProfile, 'testedAt'>;
+
+export interface PharmacogenomicGeneDefinition {
+  key: PharmacogenomicGene;
+  label: string;
+  values: string[];
+}
+
+export const PHARMACOGENOMIC_GENES: PharmacogenomicGeneDefinition[] = [
+  { key: 'cyp2c9', label: 'CYP2C9', values: ['normal', 'intermediate', 'poor'] },
+  { key: 'cyp2c19', label: 'CYP2C19', values: ['ultrarapid', 'rapid', 'normal', 'intermediate', 'poor'] },
+  { key: 'cyp2d6', label: 'CYP2D6', values: ['ultrarapid', 'normal', 'intermediate', 'poor'] },
+  { key: 'vkorc1', label: 'VKORC1 -1639G>A', values: ['GG', 'GA', 'AA'] },
+  { key: 'slco1b1', label: 'SLCO1B1', values: ['normal', 'decreased', 'poor'] },
+  { key: 'hlaB5701', label: 'HLA-B*57:01', values: ['positive', 'negative'] },
+  { key: 'hlaB1502', label: 'HLA-B*15:02', values: ['positive', 'negative'] },
+];
+
+export type PharmacogenomicSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface PharmacogenomicRule {
+  gene: PharmacogenomicGene;
+  phenotypes: string[];
+  drugs: string[];
+  severity: PharmacogenomicSeverity;
+  effect: string;
+  recommendation: string;
+  doseAdjustment?: string;
+}
+
+export const PHARMACOGENOMIC_RULES: PharmacogenomicRule[] = [
+  // ===== CYP2C19 =====
+  {
+    gene: 'cyp2c19', phenotypes: ['poor'], drugs: ['clopidogrel'], severity: 'critical',
+    effect: 'Clopidogrel is a prodrug; poor metabolizers form little active metabolite and have a higher risk of stent thrombosis and MACE',
+    recommendation: 'Avoid clopidogrel. Use prasugrel or ticagrelor if not contraindicated',
+  },
+  {
+    gene: 'cyp2c19', phenotypes: ['intermediate'], drugs: ['clopidogrel'], severity: 'high',
+    effect: 'Reduced activation of clopidogrel and diminished platelet inhibition',
+    recommendation: 'Prefer prasugrel or ticagrelor for ACS/PCI indications',
+  },
+  {
+    gene: 'cyp2c19', phenotypes: ['poor'], drugs: ['citalopram', 'escitalopram'], severity: 'high',
+    effect: 'Raised plasma concentrations and QT prolongation risk',
+    recommendation: 'Start at a reduced dose or choose an SSRI not metabolized by CYP2C19',
+    doseAdjustment: 'Reduce the starting dose by 50% (citalopram max 20mg/day)',
+  },
+  {
+    gene: 'cyp2c19', phenotypes: ['ultrarapid'], drugs: ['citalopram', 'escitalopram'], severity: 'medium',
+    effect: 'Low plasma concentrations and likely treatment failure',
+    recommendation: 'Consider an alternative SSRI not predominantly metabolized by CYP2C19',
+  },
+
+  // ===== CYP2D6 =====
+  {
+    gene: 'cyp2d6', phenotypes: ['ultrarapid'], drugs: ['codeine', 'tramadol'], severity: 'critical',
+    effect: 'Rapid conversion to active opioid metabolites with risk of respiratory depression',
+    recommendation: 'Avoid codeine and tramadol. Use a non-CYP2D6 analgesic such as morphine or a non-opioid',
+  },
+  {
+    gene: 'cyp2d6', phenotypes: ['poor'], drugs: ['codeine', 'tramadol'], severity: 'high',
+    effect: 'Little conversion to the active metabolite and inadequate analgesia',
+    recommendation: 'Avoid codeine and tramadol. Use a non-CYP2D6 analgesic such as morphine or a non-opioid',
+  },
+  {
+    gene: 'cyp2d6', phenotypes: ['poor', 'intermediate'], drugs: ['tamoxifen'], severity: 'high',
+    effect: 'Reduced formation of endoxifen and higher risk of breast cancer recurrence',
+    recommendation: 'Consider an aromatase inhibitor (post-menopausal) or adjusted tamoxifen dosing with oncology',
+  },
+  {
+    gene: 'cyp2d6', phenotypes: ['poor'], drugs: ['metoprolol'], severity: 'medium',
+    effect: 'Several-fold higher metoprolol exposure with risk of bradycardia',
+    recommendation: 'Start low and titrate to heart rate, or use a beta-blocker not metabolized by CYP2D6 (bisoprolol)',
+    doseAdjustment: 'Start at 25% of the usual dose and titrate to effect',
+  },
+
+  // ===== CYP2C9 =====
+  {
+    gene: 'cyp2c9', phenotypes: ['poor'], drugs: ['phenytoin'], severity: 'high',
+    effect: 'Reduced phenytoin clearance and concentration-dependent toxicity',
+    recommendation: 'Reduce the maintenance dose and follow phenytoin levels',
+    doseAdjustment: 'Reduce the maintenance dose by 50%',
+  },
+  {
+    gene: 'cyp2c9', phenotypes: ['intermediate'], drugs: ['phenytoin'], severity: 'medium',
+    effect: 'Reduced phenytoin clearance',
+    recommendation: 'Reduce the maintenance dose and follow phenytoin levels',
+    doseAdjustment: 'Reduce the maintenance dose by 25%',
+  },
+  {
+    gene: 'cyp2c9', phenotypes: ['poor'], drugs: ['celecoxib', 'ibuprofen', 'meloxicam'], severity: 'high',
+    effect: 'Markedly prolonged NSAID half-life and higher GI bleeding and cardiovascular risk',
+    recommendation: 'Choose an NSAID not metabolized by CYP2C9, or start at the lowest dose',
+    doseAdjustment: 'Start at 25-50% of the lowest recommended dose (avoid meloxicam)',
+  },
+
+  // ===== SLCO1B1 =====
+  {
+    gene: 'slco1b1', phenotypes: ['decreased', 'poor'], drugs: ['simvastatin'], severity: 'high',
+    effect: 'Higher simvastatin acid exposure and risk of statin-associated myopathy',
+    recommendation: 'Prescribe an alternative statin (rosuvastatin or pravastatin)',
+    doseAdjustment: 'Do not exceed simvastatin 20mg/day',
+  },
+  {
+    gene: 'slco1b1', phenotypes: ['poor'], drugs: ['atorvastatin'], severity: 'medium',
+    effect: 'Increased atorvastatin exposure and myopathy risk',
+    recommendation: 'Prescribe 40mg/day or less, or an alternative statin',
+    doseAdjustment: 'Do not exceed atorvastatin 40mg/day',
+  },
+
+  // ===== HLA-B =====
+  {
+    gene: 'hlaB5701', phenotypes: ['positive'], drugs: ['abacavir'], severity: 'critical',
+    effect: 'High risk of abacavir hypersensitivity reaction',
+    recommendation: 'Abacavir is contraindicated. Use an alternative antiretroviral',
+  },
+  {
+    gene: 'hlaB1502', phenotypes: ['positive'], drugs: ['carbamazepine', 'oxcarbazepine', 'phenytoin', 'fosphenytoin'], severity: 'critical',
+    effect: 'High risk of Stevens-Johnson syndrome and toxic epidermal necrolysis',
+    recommendation: 'Do not start this drug. Choose an anticonvulsant outside the aromatic antiepileptic group',
+  },
+];
+
+// Expected warfarin maintenance dose (mg/day) by VKORC1 genotype and CYP2C9
+// phenotype, from the FDA warfarin label table
+const WARFARIN_DOSE_RANGES: Record<Vkorc1Genotype, Record<'normal' | 'intermediate' | 'poor', string>> = {
+  GG: { normal: '5-7mg/day', intermediate: '3-7mg/day', poor: '0.5-4mg/day' },
+  GA: { normal: '5-7mg/day', intermediate: '3-4mg/day', poor: '0.5-4mg/day' },
+  AA: { normal: '3-4mg/day', intermediate: '0.5-4mg/day', poor: '0.5-2mg/day' },
+};
+
+/**
+ * The expected warfarin maintenance dose for the profile, or null when VKORC1
+ * was not tested. An untested CYP2C9 is read as normal function.
+ */
+export function warfarinDoseRange(profile: PharmacogenomicProfile): string | null {
+  if (!profile.vkorc1) return null;
+  const cyp2c9 = profile.cyp2c9 === 'poor' || profile.cyp2c9 === 'intermediate' ? profile.cyp2c9 : 'normal';
+  return WARFARIN_DOSE_RANGES[profile.vkorc1][cyp2c9];
+}
+
+export interface PharmacogenomicFinding {
+  gene: string; // display label, e.g. CYP2C19
+  phenotype: string; // as reports print it, e.g. "CYP2C19 poor metabolizer"
+  drug: string; // the patient's drug as given
+  severity: PharmacogenomicSeverity;
+  effect: string;
+  recommendation: string;
+  doseAdjustment?: string;
+}
+
+const GENE_LABELS = new Map(PHARMACOGENOMIC_GENES.map(gene => [gene.key, gene.label]));
+
+const PHENOTYPE_SUFFIX: Partial<Record<PharmacogenomicGene, string>> = {
+  cyp2c9: 'metabolizer',
+  cyp2c19: 'metabolizer',
+  cyp2d6: 'metabolizer',
+  slco1b1: 'function',
+};
+
+export function describePhenotype(gene: PharmacogenomicGene, value: string): string {
+  return [GENE_LABELS.get(gene) ?? gene, value, PHENOTYPE_SUFFIX[gene]].filter(Boolean).join(' ');
+}
+
+function warfarinFinding(profile: PharmacogenomicProfile, drug: string): PharmacogenomicFinding | null {
+  const doseRange = warfarinDoseRange(profile);
+  if (!doseRange) return null;
+
+  const sensitive = profile.vkorc1 === 'AA' || profile.cyp2c9 === 'poor' || profile.cyp2c9 === 'intermediate';
+  const phenotype = [
+    `VKORC1 ${profile.vkorc1}`,
+    profile.cyp2c9 && describePhenotype('cyp2c9', profile.cyp2c9),
+  ].filter(Boolean).join(', ');
+  return {
+    gene: profile.cyp2c9 ? 'VKORC1/CYP2C9' : 'VKORC1',
+    phenotype,
+    drug,
+    severity: sensitive ? 'high' : 'low',
+    effect: sensitive
+      ? 'Increased warfarin sensitivity; standard dosing risks over-anticoagulation and bleeding'
+      : 'Usual warfarin sensitivity',
+    recommendation: 'Use genotype-guided warfarin dosing and monitor INR closely during initiation',
+    doseAdjustment: `Expected maintenance dose ${doseRange}`,
+  };
+}
+
+/**
+ * Gene–drug findings for the given drugs. Each drug is matched through the
+ * ontology, so brand names and synonyms trigger the same rules.
+ */
+export function evaluatePharmacogenomics(
+  profile: PharmacogenomicProfile | undefined,
+  drugs: string[],
+): PharmacogenomicFinding[] {
+  if (!profile) return [];
+  const findings: PharmacogenomicFinding[] = [];
+
+  for (const drug of drugs) {
+    if (DRUG_ONTOLOGY.matches(drug, 'warfarin')) {
+      const finding = warfarinFinding(profile, drug);
+      if (finding) findings.push(finding);
+    }
+
+    for (const rule of PHARMACOGENOMIC_RULES) {
+      const phenotype = profile[rule.gene];
+      if (!phenotype || !rule.phenotypes.includes(phenotype)) continue;
+      if (!rule.drugs.some(ruleDrug => DRUG_ONTOLOGY.matches(drug, ruleDrug))) continue;
+
+      findings.push({
+        gene: GENE_LABELS.get(rule.gene) ?? rule.gene,
+        phenotype: describePhenotype(rule.gene, phenotype),
+        drug,
+        severity: rule.severity,
+        effect: rule.effect,
+        recommendation: rule.recommendation,
+        ...(rule.doseAdjustment && { doseAdjustment: rule.doseAdjustment }),
+      });
+    }
+  }
+  return findings;
+}
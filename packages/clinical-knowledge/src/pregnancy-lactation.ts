@@ -0,0 +1,152 @@
+/**
+ * Pregnancy and Lactation Safety
+ *
+ * Applies the `pregnancy` contraindications of the knowledge base to a
+ * pregnant patient, with severity that depends on the trimester, and checks
+ * breastfeeding patients against drugs that pass into milk in harmful
+ * amounts.
+ */
+
+import { DRUG_ONTOLOGY } from './drug-ontology';
+import { COMPREHENSIVE_CONTRAINDICATIONS, ContraindicationEntry, contraindicationCovers } from './medical-knowledge-base';
+
+export type Trimester = 1 | 2 | 3;
+
+export interface ReproductiveStatus {
+  pregnant?: boolean;
+  trimester?: Trimester; // unknown while undefined
+  lactating?: boolean;
+}
+
+export type ReproductiveSafetySeverity = 'critical' | 'high' | 'medium';
+
+export interface LactationRiskEntry {
+  drug: string;
+  severity: ReproductiveSafetySeverity;
+  reason: string;
+  alternatives: string[];
+  evidenceSource: string;
+}
+
+export const LACTATION_RISKS: LactationRiskEntry[] = [
+  { drug: 'codeine', severity: 'critical', reason: 'Ultrarapid maternal CYP2D6 metabolism has caused fatal morphine toxicity in breastfed infants', alternatives: ['acetaminophen', 'ibuprofen'], evidenceSource: 'FDA Boxed Warning' },
+  { drug: 'tramadol', severity: 'critical', reason: 'Active metabolite passes into milk; risk of infant respiratory depression', alternatives: ['acetaminophen', 'ibuprofen'], evidenceSource: 'FDA Drug Safety Communication' },
+  { drug: 'methotrexate', severity: 'critical', reason: 'Accumulates in infant tissue — neutropenia and immunosuppression', alternatives: ['interrupt breastfeeding for the course of treatment'], evidenceSource: 'LactMed / ACR' },
+  { drug: 'isotretinoin', severity: 'high', reason: 'Highly lipophilic retinoid likely to reach the infant; no safety data', alternatives: ['topical retinoids', 'topical antibiotics for acne'], evidenceSource: 'LactMed' },
+  { drug: 'lithium', severity: 'high', reason: 'Infant serum levels reach 30-50% of maternal levels — lethargy, hypotonia, thyroid and renal effects', alternatives: ['lamotrigine with infant monitoring'], evidenceSource: 'LactMed / APA' },
+  { drug: 'amiodarone', severity: 'high', reason: 'Iodine load and very long half-life — infant hypothyroidism and bradycardia', alternatives: ['alternative antiarrhythmic after cardiology review'], evidenceSource: 'LactMed' },
+  { drug: 'statins', severity: 'high', reason: 'May disrupt infant lipid metabolism; not recommended while breastfeeding', alternatives: ['resume after weaning', 'bile acid sequestrants'], evidenceSource: 'FDA labeling' },
+  { drug: 'doxycycline', severity: 'medium', reason: 'Prolonged use may stain infant teeth; courses up to 3 weeks are acceptable', alternatives: ['amoxicillin', 'azithromycin'], evidenceSource: 'AAP' },
+  { drug: 'pseudoephedrine', severity: 'medium', reason: 'Can reduce milk supply, especially in late lactation', alternatives: ['saline nasal spray', 'intranasal corticosteroids'], evidenceSource: 'LactMed' },
+];
+
+export interface ReproductiveSafetyFinding {
+  drug: string;
+  context: 'pregnancy' | 'lactation';
+  severity: ReproductiveSafetySeverity;
+  rule: string; // the knowledge-base drug or class the finding came from
+  condition: string;
+  reason: string;
+  alternatives: string[];
+  evidenceSource: string;
+}
+
+const TRIMESTER_WORDS: Record<string, Trimester> = {
+  '1st': 1, first: 1,
+  '2nd': 2, second: 2,
+  '3rd': 3, third: 3,
+};
+
+/**
+ * Trimesters a pregnancy contraindication is restricted to, read from its
+ * condition text ("pregnancy (1st trimester)", "pregnancy (2nd/3rd trimester)").
+ * An empty list means the whole pregnancy.
+ */
+export function contraindicationTrimesters(condition: string): Trimester[] {
+  const text = condition.toLowerCase();
+  if (!text.includes('trimester')) return [];
+  const words = text.match(/\b(1st|first|2nd|second|3rd|third)\b/g) ?? [];
+  return [...new Set(words.map(word => TRIMESTER_WORDS[word]))];
+}
+
+const DOWNGRADED: Record<ReproductiveSafetySeverity, ReproductiveSafetySeverity> = {
+  critical: 'high',
+  high: 'medium',
+  medium: 'medium',
+};
+
+const CONTRAINDICATION_SEVERITY: Record<ContraindicationEntry['severity'], ReproductiveSafetySeverity> = {
+  critical: 'critical',
+  high: 'high',
+  moderate: 'medium',
+};
+
+/**
+ * Severity of a pregnancy contraindication for the patient's trimester. Rules
+ * aimed at other trimesters drop one level; with the trimester unknown the
+ * rule keeps its full severity.
+ */
+export function pregnancySeverity(entry: ContraindicationEntry, trimester?: Trimester): ReproductiveSafetySeverity {
+  const severity = CONTRAINDICATION_SEVERITY[entry.severity];
+  const trimesters = contraindicationTrimesters(entry.condition);
+  if (!trimester || trimesters.length === 0 || trimesters.includes(trimester)) return severity;
+  return DOWNGRADED[severity];
+}
+
+/** "Pregnant (2nd trimester), breastfeeding"; empty when neither applies */
+export function describeReproductiveStatus(status: ReproductiveStatus | undefined): string {
+  const parts: string[] = [];
+  if (status?.pregnant) {
+    parts.push(status.trimester ? `Pregnant (${['1st', '2nd', '3rd'][status.trimester - 1]} trimester)` : 'Pregnant (trimester unknown)');
+  }
+  if (status?.lactating) parts.push(parts.length > 0 ? 'breastfeeding' : 'Breastfeeding');
+  return parts.join(', ');
+}
+
+/**
+ * Pregnancy and lactation findings for the given drugs. Pregnancy rules are
+ * the `pregnancy` entries of `contraindications`, so curated tables can be
+ * passed in place of the bundled ones.
+ */
+export function evaluateReproductiveSafety(
+  status: ReproductiveStatus | undefined,
+  drugs: string[],
+  contraindications: ContraindicationEntry[] = COMPREHENSIVE_CONTRAINDICATIONS,
+): ReproductiveSafetyFinding[] {
+  const findings: ReproductiveSafetyFinding[] = [];
+  if (!status?.pregnant && !status?.lactating) return findings;
+
+  for (const drug of drugs) {
+    if (status.pregnant) {
+      for (const entry of contraindications) {
+        if (entry.type !== 'pregnancy' || !contraindicationCovers(entry, drug)) continue;
+        findings.push({
+          drug,
+          context: 'pregnancy',
+          severity: pregnancySeverity(entry, status.trimester),
+          rule: entry.drug,
+          condition: entry.condition,
+          reason: entry.reason,
+          alternatives: entry.alternatives,
+          evidenceSource: entry.evidenceSource,
+        });
+      }
+    }
+    if (status.lactating) {
+      for (const entry of LACTATION_RISKS) {
+        if (!DRUG_ONTOLOGY.matches(drug, entry.drug)) continue;
+        findings.push({
+          drug,
+          context: 'lactation',
+          severity: entry.severity,
+          rule: entry.drug,
+          condition: 'breastfeeding',
+          reason: entry.reason,
+          alternatives: entry.alternatives,
+          evidenceSource: entry.evidenceSource,
+        });
+      }
+    }
+  }
+  return findings;
+}
@@ -0,0 +1,101 @@
+/**
+ * Renal Dosing Tiers
+ *
+ * Dose per creatinine-clearance band for drugs whose dosing changes with
+ * kidney function. The bands follow the Cockcroft-Gault CrCl cut-offs the
+ * dosing calculator uses; 'CONTRAINDICATED' marks bands where the drug must
+ * not be given.
+ */
+
+import { DRUG_ONTOLOGY } from './drug-ontology';
+
+export interface RenalDosingGuideline {
+  drug: string;
+  normalDose: string;
+  mildImpairment: string; // CrCl 50-80
+  moderateImpairment: string; // CrCl 30-50
+  severeImpairment: string; // CrCl 15-30
+  esrd: string; // CrCl <15
+  dialysis: string;
+}
+
+export const RENAL_DOSING_GUIDELINES: RenalDosingGuideline[] = [
+  {
+    drug: 'metformin',
+    normalDose: '500-1000mg BID',
+    mildImpairment: '500-1000mg BID',
+    moderateImpairment: '500mg BID (max 1000mg/day)',
+    severeImpairment: 'CONTRAINDICATED',
+    esrd: 'CONTRAINDICATED',
+    dialysis: 'CONTRAINDICATED',
+  },
+  {
+    drug: 'gabapentin',
+    normalDose: '300-600mg TID',
+    mildImpairment: '200-400mg TID',
+    moderateImpairment: '200-300mg BID',
+    severeImpairment: '100-200mg daily',
+    esrd: '100-200mg every other day',
+    dialysis: '125-350mg post-dialysis',
+  },
+  {
+    drug: 'lisinopril',
+    normalDose: '10-40mg daily',
+    mildImpairment: '10-40mg daily',
+    moderateImpairment: '5-20mg daily',
+    severeImpairment: '2.5-10mg daily',
+    esrd: '2.5-5mg daily',
+    dialysis: '2.5mg daily',
+  },
+  {
+    drug: 'ciprofloxacin',
+    normalDose: '500-750mg BID',
+    mildImpairment: '250-500mg BID',
+    moderateImpairment: '250-500mg Q12-18h',
+    severeImpairment: '250-500mg Q24h',
+    esrd: '250-500mg Q24h',
+    dialysis: '250-500mg post-dialysis',
+  },
+  {
+    drug: 'enoxaparin',
+    normalDose: '1mg/kg Q12h',
+    mildImpairment: '1mg/kg Q12h',
+    moderateImpairment: '1mg/kg Q12h (monitor anti-Xa)',
+    severeImpairment: '1mg/kg Q24h',
+    esrd: 'USE UNFRACTIONATED HEPARIN',
+    dialysis: 'USE UNFRACTIONATED HEPARIN',
+  },
+  {
+    drug: 'sildenafil',
+    normalDose: '50mg PRN',
+    mildImpairment: '50mg PRN',
+    moderateImpairment: '25mg PRN',
+    severeImpairment: '25mg PRN',
+    esrd: '25mg PRN',
+    dialysis: '25mg PRN',
+  },
+  {
+    drug: 'amoxicillin',
+    normalDose: '500mg TID',
+    mildImpairment: '500mg TID',
+    moderateImpairment: '500mg BID',
+    severeImpairment: '500mg daily',
+    esrd: '500mg daily',
+    dialysis: '500mg post-dialysis',
+  },
+  {
+    drug: 'atorvastatin',
+    normalDose: '10-80mg daily',
+    mildImpairment: '10-80mg daily',
+    moderateImpairment: '10-80mg daily',
+    severeImpairment: '10-80mg daily',
+    esrd: '10-80mg daily',
+    dialysis: '10-80mg daily',
+  },
+];
+
+/** Renal dosing tiers for a drug; brand names resolve to the generic */
+export function findRenalDosingGuideline(drugName: string): RenalDosingGuideline | undefined {
+  const canonical = DRUG_ONTOLOGY.canonicalName(drugName);
+  return RENAL_DOSING_GUIDELINES.find(g => g.drug === canonical);
+}
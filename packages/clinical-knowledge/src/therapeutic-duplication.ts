@@ -0,0 +1,106 @@
+/**
+ * Therapeutic Duplication
+ *
+ * Finds regimens where two medications do the same job: the same ingredient
+ * under different names (Tylenol and Percocet both contain acetaminophen), or
+ * two drugs from classes that should not be combined (two SSRIs, an ACE
+ * inhibitor with an ARB). Each medication is passed once, by whatever name it
+ * is known under; duplication is read from the drug ontology.
+ */
+
+import { DRUG_ONTOLOGY } from './drug-ontology';
+
+export type DuplicationSeverity = 'critical' | 'high' | 'medium';
+
+export interface TherapeuticDuplicationRule {
+  id: string;
+  label: string;
+  classes: string[]; // any two drugs from these classes duplicate each other
+  exclude?: string[]; // generics the rule does not count
+  severity: DuplicationSeverity;
+  reason: string;
+  recommendation: string;
+  evidenceSource: string;
+}
+
+export const THERAPEUTIC_DUPLICATION_RULES: TherapeuticDuplicationRule[] = [
+  { id: 'raas-blockers', label: 'ACE inhibitors / ARBs', classes: ['ace-inhibitors', 'arbs'], severity: 'high', reason: 'Dual RAAS blockade raises the risk of hyperkalemia, hypotension and acute kidney injury with no cardiovascular benefit', recommendation: 'Keep a single ACE inhibitor or ARB at an adequate dose', evidenceSource: 'ONTARGET / VA NEPHRON-D' },
+  { id: 'beta-blockers', label: 'beta-blockers', classes: ['beta-blockers'], severity: 'high', reason: 'Additive bradycardia, AV block and hypotension', recommendation: 'Use one beta-blocker and titrate it', evidenceSource: 'ACC/AHA Guidelines' },
+  { id: 'statins', label: 'statins', classes: ['statins'], severity: 'medium', reason: 'Raises myopathy risk without further LDL lowering than a single high-intensity statin', recommendation: 'Use one statin; add ezetimibe if more LDL lowering is needed', evidenceSource: 'ACC/AHA Cholesterol Guideline 2018' },
+  { id: 'anticoagulants', label: 'anticoagulants', classes: ['anticoagulants'], severity: 'critical', reason: 'Stacked anticoagulation causes major bleeding', recommendation: 'Use one anticoagulant; overlap only during a planned transition or bridging protocol', evidenceSource: 'CHEST Guidelines' },
+  { id: 'nsaids', label: 'NSAIDs', classes: ['nsaids'], exclude: ['aspirin'], severity: 'high', reason: 'Additive GI bleeding, renal injury and cardiovascular risk with no added analgesia', recommendation: 'Use a single NSAID; add acetaminophen for additional pain relief', evidenceSource: 'AGS Beers Criteria 2023' },
+  { id: 'opioids', label: 'opioids', classes: ['opioids'], severity: 'high', reason: 'Additive respiratory depression and sedation', recommendation: 'Consolidate to one opioid and review the total morphine milligram equivalents', evidenceSource: 'CDC Opioid Prescribing Guideline 2022' },
+  { id: 'serotonergic-antidepressants', label: 'SSRIs / SNRIs', classes: ['ssris', 'snris'], severity: 'high', reason: 'Serotonin syndrome risk without added antidepressant effect', recommendation: 'Use one antidepressant; cross-taper when switching', evidenceSource: 'APA Practice Guideline' },
+  { id: 'sedative-hypnotics', label: 'benzodiazepines / Z-drugs', classes: ['benzodiazepines', 'z-drugs'], severity: 'high', reason: 'Additive sedation, falls and respiratory depression', recommendation: 'Use one sedative-hypnotic at the lowest effective dose', evidenceSource: 'AGS Beers Criteria 2023' },
+  { id: 'antipsychotics', label: 'antipsychotics', classes: ['antipsychotics'], severity: 'medium', reason: 'Antipsychotic polypharmacy adds metabolic, QT and extrapyramidal risk', recommendation: 'Optimize a single antipsychotic before combining', evidenceSource: 'APA Schizophrenia Guideline 2020' },
+  { id: 'sulfonylureas', label: 'sulfonylureas', classes: ['sulfonylureas'], severity: 'high', reason: 'Additive hypoglycemia', recommendation: 'Use one sulfonylurea', evidenceSource: 'ADA Standards of Care' },
+  { id: 'incretins', label: 'GLP-1 agonists / DPP-4 inhibitors', classes: ['glp-1-agonists', 'dpp-4-inhibitors'], severity: 'medium', reason: 'Overlapping incretin mechanism with no added glucose lowering', recommendation: 'Stop the DPP-4 inhibitor when starting a GLP-1 agonist', evidenceSource: 'ADA Standards of Care' },
+  { id: 'proton-pump-inhibitors', label: 'proton pump inhibitors', classes: ['proton-pump-inhibitors'], severity: 'medium', reason: 'No added acid suppression; more long-term adverse effects', recommendation: 'Use one PPI', evidenceSource: 'AGA Clinical Practice Update 2022' },
+  { id: 'corticosteroids', label: 'systemic corticosteroids', classes: ['corticosteroids'], severity: 'medium', reason: 'Additive adrenal suppression, hyperglycemia and infection risk', recommendation: 'Use one systemic corticosteroid at an equivalent dose', evidenceSource: 'Clinical consensus' },
+];
+
+export interface TherapeuticDuplication {
+  kind: 'same-ingredient' | 'same-class';
+  drugs: [string, string];
+  rule: string; // shared generic, or the rule id
+  label: string; // the shared generic, or the rule's classes
+  severity: DuplicationSeverity;
+  reason: string;
+  recommendation: string;
+  evidenceSource: string;
+}
+
+function sharedIngredient(a: string, b: string): string | undefined {
+  const left = DRUG_ONTOLOGY.resolve(a).generics;
+  const right = DRUG_ONTOLOGY.resolve(b).generics;
+  return left.find(generic => right.includes(generic));
+}
+
+function inRule(drug: string, rule: TherapeuticDuplicationRule): boolean {
+  const generic = DRUG_ONTOLOGY.canonicalName(drug);
+  return !rule.exclude?.includes(generic) && rule.classes.some(c => DRUG_ONTOLOGY.isInClass(drug, c));
+}
+
+/**
+ * Every duplicated pair in a regimen. A pair sharing an ingredient is
+ * reported as such and not again for its class.
+ */
+export function findTherapeuticDuplications(
+  drugs: string[],
+  rules: TherapeuticDuplicationRule[] = THERAPEUTIC_DUPLICATION_RULES,
+): TherapeuticDuplication[] {
+  const duplications: TherapeuticDuplication[] = [];
+  for (let i = 0; i < drugs.length; i++) {
+    for (let j = i + 1; j < drugs.length; j++) {
+      const pair: [string, string] = [drugs[i], drugs[j]];
+      const ingredient = sharedIngredient(...pair);
+      if (ingredient) {
+        duplications.push({
+          kind: 'same-ingredient',
+          drugs: pair,
+          rule: ingredient,
+          label: ingredient,
+          severity: 'high',
+          reason: `Both contain ${ingredient}; the combined dose can exceed the daily maximum`,
+          recommendation: `Keep one ${ingredient}-containing product and count every source toward the daily maximum`,
+          evidenceSource: 'FDA labeling',
+        });
+        continue;
+      }
+      const rule = rules.find(r => inRule(pair[0], r) && inRule(pair[1], r));
+      if (rule) {
+        duplications.push({
+          kind: 'same-class',
+          drugs: pair,
+          rule: rule.id,
+          label: rule.label,
+          severity: rule.severity,
+          reason: rule.reason,
+          recommendation: rule.recommendation,
+          evidenceSource: rule.evidenceSource,
+        });
+      }
+    }
+  }
+  return duplications;
+}